@@ -17,6 +17,7 @@ import KeywordsPage from "./pages/KeywordsPage";
 import RankingsPage from "./pages/RankingPage";
 import ReportsPage from "./pages/ReportsPage";
 import TeamPage from "./pages/TeamPage";
+import AuditLogPage from "./pages/AuditLogPage";
 import SettingsPage from "./pages/SettingsPage";
 import TasksPage from "./pages/TasksPage";
 import SubscriptionPage from "./pages/Agency/SubscriptionPage";
@@ -27,6 +28,7 @@ import LocalMapSnapshotPage from "./pages/Agency/LocalMapSnapshotPage";
 import AgenciesPage from "./pages/SuperAdmin/AgenciesPage";
 import SuperAdminDashboard from "./pages/SuperAdmin/SuperAdminDashboard";
 import ProspectSnapshotPage from "./pages/SuperAdmin/ProspectSnapshotPage";
+import JobsPage from "./pages/SuperAdmin/JobsPage";
 import VendastaPage from "./pages/VendastaPage";
 import IncludedPage from "./pages/IncludedPage";
 import ClientDashboardPage from "./pages/ClientDashboardPage";
@@ -39,6 +41,9 @@ import AuthLandingPage from "./pages/AuthLandingPage";
 import WebDesignPage from "./pages/WebDesignPage";
 import WebDesignDeepLinkPage from "./pages/WebDesignDeepLinkPage";
 import InboxPage from "./pages/InboxPage";
+import ApprovalInboxPage from "./pages/ApprovalInboxPage";
+import TwoFactorSetupRequiredPage from "./pages/TwoFactorSetupRequiredPage";
+import StepUpPrompt from "./components/StepUpPrompt";
 
 function App() {
   const dispatch = useDispatch();
@@ -162,6 +167,7 @@ function App() {
     { path: "/agency/subscription", component: SubscriptionPage },
     { path: "/agency/users", component: ClientUsersPage },
     { path: "/agency/team", component: TeamPage },
+    { path: "/agency/audit-log", component: AuditLogPage },
     { path: "/agency/clients/:clientId", component: ClientDashboardPage },
     { path: "/agency/settings", component: SettingsPage },
     { path: "/agency/tasks", component: TasksPage },
@@ -190,6 +196,7 @@ function App() {
     { path: "/client/web-design/:clientId", component: WebDesignPage },
     { path: "/client/tasks", component: TasksPage },
     { path: "/client/inbox", component: InboxPage },
+    { path: "/client/approvals", component: ApprovalInboxPage },
     { path: "/client/settings", component: SettingsPage },
     // Back-compat: keep report portal paths if still used
     { path: "/client/report", component: ClientReportIndexPage },
@@ -253,6 +260,10 @@ function App() {
           }}
         />
       )}
+      <StepUpPrompt />
+      {user?.twoFactor?.setupRequired ? (
+        <TwoFactorSetupRequiredPage />
+      ) : (
       <Routes>
       {/* Public share route - no auth required */}
       <Route path="/share/:token" element={<ShareDashboardPage />} />
@@ -568,6 +579,29 @@ function App() {
         }
       />
 
+      {/* Super Admin Background Jobs route */}
+      <Route
+        path="/superadmin/jobs"
+        element={
+          (token && !user) ? (
+            <div className="min-h-screen flex items-center justify-center">
+              <div className="text-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto mb-4"></div>
+                <p className="text-gray-500">Loading...</p>
+              </div>
+            </div>
+          ) : !user || !user.verified ? (
+            <Navigate to="/login" replace />
+          ) : user.role !== "SUPER_ADMIN" ? (
+            <Navigate to={getRedirectUrl()} replace />
+          ) : (
+            <DashboardLayout>
+              <JobsPage />
+            </DashboardLayout>
+          )
+        }
+      />
+
       {/* Super Admin Web Design route */}
       <Route
         path="/superadmin/web-design"
@@ -632,6 +666,7 @@ function App() {
         }
       />
     </Routes>
+      )}
     </div>
   );
 }
@@ -0,0 +1,430 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Edit, KeyRound, Loader2, Plus, Trash2 } from "lucide-react";
+import toast from "react-hot-toast";
+import api from "@/lib/api";
+import ConfirmDialog from "@/components/ConfirmDialog";
+
+type PermissionOption = { id: string; label: string; description: string };
+
+type BuiltInRole = { id: "OWNER" | "MANAGER" | "SPECIALIST"; label: string; permissions: string[] };
+
+export type AgencyCustomRole = {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  updatedAt: string;
+  memberCount: number;
+};
+
+type MemberAccess = {
+  userId: string;
+  name: string | null;
+  email: string;
+  role: string;
+  agencyRole: BuiltInRole["id"];
+  customRoleId: string | null;
+  restrictClientAccess: boolean;
+  clientIds: string[];
+};
+
+type ClientOption = { id: string; name: string; domain: string };
+
+type RoleDraft = { id: string | null; name: string; description: string; permissions: string[] };
+
+/** Agency owners define custom roles from the permission catalogue, assign them to members and limit members to specific clients. */
+const AgencyRolesManager: React.FC = () => {
+  const [loading, setLoading] = useState(true);
+  const [canManage, setCanManage] = useState(false);
+  const [permissions, setPermissions] = useState<PermissionOption[]>([]);
+  const [builtInRoles, setBuiltInRoles] = useState<BuiltInRole[]>([]);
+  const [roles, setRoles] = useState<AgencyCustomRole[]>([]);
+  const [members, setMembers] = useState<MemberAccess[]>([]);
+  const [clients, setClients] = useState<ClientOption[]>([]);
+  const [draft, setDraft] = useState<RoleDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<AgencyCustomRole | null>(null);
+  const [savingMemberId, setSavingMemberId] = useState<string | null>(null);
+  const [clientPicker, setClientPicker] = useState<{ userId: string; clientIds: string[] } | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await api.get("/agency-roles", { _silent: true } as any);
+      const manage = Boolean(res.data?.canManage);
+      setPermissions((res.data?.permissions ?? []) as PermissionOption[]);
+      setBuiltInRoles((res.data?.builtInRoles ?? []) as BuiltInRole[]);
+      setRoles((res.data?.roles ?? []) as AgencyCustomRole[]);
+      setCanManage(manage);
+      if (manage) {
+        const membersRes = await api.get("/agency-roles/members");
+        setMembers((membersRes.data?.members ?? []) as MemberAccess[]);
+        setClients((membersRes.data?.clients ?? []) as ClientOption[]);
+      }
+    } catch {
+      setCanManage(false);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const permissionLabel = (id: string) => permissions.find((p) => p.id === id)?.label ?? id;
+  const builtInLabel = (id: string) => builtInRoles.find((r) => r.id === id)?.label ?? id;
+
+  const toggleDraftPermission = (id: string) =>
+    setDraft((prev) =>
+      prev
+        ? {
+            ...prev,
+            permissions: prev.permissions.includes(id) ? prev.permissions.filter((p) => p !== id) : [...prev.permissions, id],
+          }
+        : prev
+    );
+
+  const handleSaveRole = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      toast.error("Give the role a name.");
+      return;
+    }
+    setSaving(true);
+    try {
+      const payload = { name: draft.name.trim(), description: draft.description.trim() || null, permissions: draft.permissions };
+      if (draft.id) {
+        await api.put(`/agency-roles/${draft.id}`, payload);
+        toast.success("Role updated");
+      } else {
+        await api.post("/agency-roles", payload);
+        toast.success("Role created");
+      }
+      setDraft(null);
+      await load();
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteRole = async () => {
+    if (!deleteTarget) return;
+    try {
+      await api.delete(`/agency-roles/${deleteTarget.id}`);
+      toast.success("Role deleted");
+      setDeleteTarget(null);
+      await load();
+    } catch {
+      // toast shown by api interceptor
+    }
+  };
+
+  const updateMember = async (userId: string, patch: Partial<Pick<MemberAccess, "customRoleId" | "restrictClientAccess" | "clientIds">>) => {
+    setSavingMemberId(userId);
+    try {
+      const res = await api.put(`/agency-roles/members/${userId}`, patch);
+      setMembers((prev) => prev.map((m) => (m.userId === userId ? { ...m, ...res.data } : m)));
+      toast.success("Access updated");
+      return true;
+    } catch {
+      // toast shown by api interceptor
+      return false;
+    } finally {
+      setSavingMemberId(null);
+    }
+  };
+
+  const saveClientPicker = async () => {
+    if (!clientPicker) return;
+    const ok = await updateMember(clientPicker.userId, { restrictClientAccess: true, clientIds: clientPicker.clientIds });
+    if (ok) setClientPicker(null);
+  };
+
+  if (loading || !canManage) return null;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 mt-8 space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="flex items-start gap-3">
+          <KeyRound className="h-6 w-6 text-primary-600 mt-0.5" />
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Roles & access</h2>
+            <p className="text-sm text-gray-500">
+              Custom roles replace the built-in permissions of a member's agency role. Owners always have full access.
+            </p>
+          </div>
+        </div>
+        {!draft && (
+          <button
+            type="button"
+            onClick={() => setDraft({ id: null, name: "", description: "", permissions: [] })}
+            className="inline-flex items-center gap-2 rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700"
+          >
+            <Plus className="h-4 w-4" />
+            New role
+          </button>
+        )}
+      </div>
+
+      {draft ? (
+        <div className="bg-gray-50 p-4 rounded-lg space-y-4">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                maxLength={80}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. Account manager"
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                value={draft.description}
+                maxLength={500}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                placeholder="Optional"
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 gap-2 md:grid-cols-2">
+            {permissions.map((permission) => (
+              <label key={permission.id} className="flex items-start gap-3 rounded-lg border border-gray-200 bg-white p-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={draft.permissions.includes(permission.id)}
+                  onChange={() => toggleDraftPermission(permission.id)}
+                  className="mt-0.5 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900">{permission.label}</span>
+                  <span className="block text-xs text-gray-500">{permission.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleSaveRole()}
+              disabled={saving}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 disabled:opacity-50"
+            >
+              {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+              {draft.id ? "Save role" : "Create role"}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+            {builtInRoles.map((role) => (
+              <li key={role.id} className="px-4 py-3">
+                <p className="font-medium text-gray-900">
+                  {role.label} <span className="text-xs font-normal text-gray-400">built-in</span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  {role.permissions.length ? role.permissions.map(permissionLabel).join(", ") : "No permissions"}
+                </p>
+              </li>
+            ))}
+            {roles.map((role) => (
+              <li key={role.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{role.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {role.permissions.length ? role.permissions.map(permissionLabel).join(", ") : "No permissions"}
+                    {role.memberCount > 0 && ` · ${role.memberCount} member${role.memberCount === 1 ? "" : "s"}`}
+                    {role.description ? ` · ${role.description}` : ""}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setDraft({ id: role.id, name: role.name, description: role.description ?? "", permissions: role.permissions })
+                    }
+                    className="p-2 text-primary-600 hover:bg-primary-50 rounded-lg"
+                    title="Edit role"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setDeleteTarget(role)}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                    title="Delete role"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-2">Member access</h3>
+        <div className="overflow-x-auto rounded-lg border border-gray-200">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Member</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Role</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Clients</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 bg-white">
+              {members.map((member) => {
+                const isOwner = member.agencyRole === "OWNER";
+                const busy = savingMemberId === member.userId;
+                return (
+                  <tr key={member.userId}>
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{member.name || member.email}</p>
+                      <p className="text-xs text-gray-500">{member.email}</p>
+                    </td>
+                    <td className="px-4 py-3">
+                      {isOwner ? (
+                        <span className="text-gray-600">Owner</span>
+                      ) : (
+                        <select
+                          value={member.customRoleId ?? ""}
+                          disabled={busy}
+                          onChange={(e) => void updateMember(member.userId, { customRoleId: e.target.value || null })}
+                          className="border border-gray-300 rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        >
+                          <option value="">{builtInLabel(member.agencyRole)} (built-in)</option>
+                          {roles.map((role) => (
+                            <option key={role.id} value={role.id}>
+                              {role.name}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      {isOwner ? (
+                        <span className="text-gray-600">All clients</span>
+                      ) : (
+                        <div className="flex flex-wrap items-center gap-2">
+                          <select
+                            value={member.restrictClientAccess ? "restricted" : "all"}
+                            disabled={busy}
+                            onChange={(e) =>
+                              e.target.value === "all"
+                                ? void updateMember(member.userId, { restrictClientAccess: false })
+                                : setClientPicker({ userId: member.userId, clientIds: member.clientIds })
+                            }
+                            className="border border-gray-300 rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                          >
+                            <option value="all">All clients</option>
+                            <option value="restricted">Selected clients</option>
+                          </select>
+                          {member.restrictClientAccess && (
+                            <button
+                              type="button"
+                              onClick={() => setClientPicker({ userId: member.userId, clientIds: member.clientIds })}
+                              className="text-xs font-medium text-primary-600 hover:text-primary-700"
+                            >
+                              {member.clientIds.length} client{member.clientIds.length === 1 ? "" : "s"} · Edit
+                            </button>
+                          )}
+                          {busy && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {clientPicker && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[80vh] flex flex-col">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Client access</h3>
+              <p className="text-sm text-gray-500">
+                {members.find((m) => m.userId === clientPicker.userId)?.email} will only see the selected clients.
+              </p>
+            </div>
+            <div className="flex-1 overflow-y-auto px-6 py-4 space-y-2">
+              {clients.length === 0 ? (
+                <p className="text-sm text-gray-500">This agency has no clients yet.</p>
+              ) : (
+                clients.map((client) => (
+                  <label key={client.id} className="flex items-center gap-3 text-sm text-gray-800 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={clientPicker.clientIds.includes(client.id)}
+                      onChange={() =>
+                        setClientPicker({
+                          ...clientPicker,
+                          clientIds: clientPicker.clientIds.includes(client.id)
+                            ? clientPicker.clientIds.filter((id) => id !== client.id)
+                            : [...clientPicker.clientIds, client.id],
+                        })
+                      }
+                      className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    <span className="truncate">
+                      {client.name} <span className="text-gray-400">{client.domain}</span>
+                    </span>
+                  </label>
+                ))
+              )}
+            </div>
+            <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setClientPicker(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={() => void saveClientPicker()}
+                disabled={savingMemberId === clientPicker.userId}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 disabled:opacity-50"
+              >
+                {savingMemberId === clientPicker.userId && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={Boolean(deleteTarget)}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={() => void handleDeleteRole()}
+        title="Delete role"
+        message={`Delete "${deleteTarget?.name ?? ""}"? Members with this role go back to the built-in permissions of their agency role.`}
+        confirmText="Delete"
+        variant="danger"
+      />
+    </div>
+  );
+};
+
+export default AgencyRolesManager;
@@ -0,0 +1,355 @@
+import React, { useEffect, useState } from "react";
+import { Check, Copy, KeyRound, Loader2, Plus, Trash2, X } from "lucide-react";
+import api from "@/lib/api";
+import toast from "react-hot-toast";
+import ConfirmDialog from "@/components/ConfirmDialog";
+
+type ApiKeyAccess = "none" | "read" | "write";
+
+type ApiKeyResource = { id: string; label: string; writable: boolean };
+
+type ApiKeyRow = {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  rateLimitPerMinute: number;
+  createdAt: string;
+  createdBy: { name: string | null; email: string } | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+};
+
+const DEFAULT_RATE_LIMIT = 60;
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : "Never");
+
+const describeScopes = (scopes: string[], resources: ApiKeyResource[]) =>
+  scopes
+    .map((scope) => {
+      const [resourceId, access] = scope.split(":");
+      const label = resources.find((r) => r.id === resourceId)?.label ?? resourceId;
+      return `${label} (${access === "write" ? "read & write" : "read"})`;
+    })
+    .join(", ");
+
+const ApiKeysManager: React.FC = () => {
+  const [keys, setKeys] = useState<ApiKeyRow[]>([]);
+  const [resources, setResources] = useState<ApiKeyResource[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showCreate, setShowCreate] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [form, setForm] = useState<{ name: string; rateLimitPerMinute: number; expiresAt: string; access: Record<string, ApiKeyAccess> }>({
+    name: "",
+    rateLimitPerMinute: DEFAULT_RATE_LIMIT,
+    expiresAt: "",
+    access: {},
+  });
+  const [newKeyPlaintext, setNewKeyPlaintext] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [revokeTarget, setRevokeTarget] = useState<ApiKeyRow | null>(null);
+
+  const fetchKeys = async () => {
+    try {
+      const res = await api.get("/api-keys");
+      setKeys(res.data.keys || []);
+      setResources(res.data.resources || []);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to load API keys");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchKeys();
+  }, []);
+
+  const openCreate = () => {
+    setForm({
+      name: "",
+      rateLimitPerMinute: DEFAULT_RATE_LIMIT,
+      expiresAt: "",
+      access: Object.fromEntries(resources.map((r) => [r.id, "read" as ApiKeyAccess])),
+    });
+    setShowCreate(true);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const scopes = Object.entries(form.access)
+      .filter(([, access]) => access !== "none")
+      .map(([resourceId, access]) => `${resourceId}:${access}`);
+    if (!form.name.trim()) {
+      toast.error("Give the key a name");
+      return;
+    }
+    if (scopes.length === 0) {
+      toast.error("Grant access to at least one resource");
+      return;
+    }
+    setCreating(true);
+    try {
+      const res = await api.post("/api-keys", {
+        name: form.name.trim(),
+        scopes,
+        rateLimitPerMinute: form.rateLimitPerMinute,
+        expiresAt: form.expiresAt ? new Date(`${form.expiresAt}T23:59:59`).toISOString() : null,
+      });
+      setShowCreate(false);
+      setNewKeyPlaintext(res.data.plaintext);
+      setCopied(false);
+      await fetchKeys();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to create API key");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revokeTarget) return;
+    try {
+      await api.delete(`/api-keys/${revokeTarget.id}`);
+      toast.success("API key revoked");
+      await fetchKeys();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to revoke API key");
+    } finally {
+      setRevokeTarget(null);
+    }
+  };
+
+  const copyNewKey = async () => {
+    if (!newKeyPlaintext) return;
+    try {
+      await navigator.clipboard.writeText(newKeyPlaintext);
+      setCopied(true);
+    } catch {
+      toast.error("Copy failed; select the key and copy it manually");
+    }
+  };
+
+  const docsUrl = `${api.defaults.baseURL}/v1/openapi.json`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">API Keys</h3>
+          <p className="text-sm text-gray-500 mt-1">
+            Keys give integrations access to your agency's data through the REST API. Send a key as{" "}
+            <code className="text-xs bg-gray-100 px-1 py-0.5 rounded">X-API-Key</code> or a Bearer token.{" "}
+            <a href={docsUrl} target="_blank" rel="noreferrer" className="text-primary-600 hover:underline">
+              OpenAPI document
+            </a>
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={openCreate}
+          disabled={loading}
+          className="flex items-center gap-2 bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+        >
+          <Plus className="h-4 w-4" />
+          New key
+        </button>
+      </div>
+
+      {newKeyPlaintext && (
+        <div className="rounded-lg border border-green-200 bg-green-50 p-4">
+          <p className="text-sm font-medium text-green-900">Copy your new key now. It won't be shown again.</p>
+          <div className="mt-2 flex items-center gap-2">
+            <code className="flex-1 break-all rounded bg-white px-3 py-2 text-sm text-gray-900 border border-green-200">
+              {newKeyPlaintext}
+            </code>
+            <button
+              type="button"
+              onClick={copyNewKey}
+              className="flex items-center gap-1 rounded-lg border border-green-300 bg-white px-3 py-2 text-sm text-green-800 hover:bg-green-100"
+            >
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              {copied ? "Copied" : "Copy"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setNewKeyPlaintext(null)}
+              className="p-2 text-green-800 hover:text-green-900"
+              title="Dismiss"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary-600" />
+        </div>
+      ) : keys.length === 0 ? (
+        <div className="rounded-lg bg-gray-50 p-8 text-center">
+          <KeyRound className="mx-auto h-8 w-8 text-gray-400" />
+          <p className="mt-2 text-sm text-gray-500">No API keys yet.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-gray-200">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Access</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Limit</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Last used</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {keys.map((key) => {
+                const expired = Boolean(key.expiresAt && new Date(key.expiresAt).getTime() <= Date.now());
+                const inactive = Boolean(key.revokedAt) || expired;
+                return (
+                  <tr key={key.id} className={inactive ? "opacity-60" : undefined}>
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium text-gray-900">{key.name}</div>
+                      <div className="text-xs text-gray-500">
+                        <code>{key.prefix}…</code>
+                        {key.createdBy ? ` · created by ${key.createdBy.name || key.createdBy.email}` : ""}
+                      </div>
+                      {key.revokedAt ? (
+                        <span className="mt-1 inline-block rounded bg-red-100 px-2 py-0.5 text-xs text-red-700">
+                          Revoked {new Date(key.revokedAt).toLocaleDateString()}
+                        </span>
+                      ) : expired ? (
+                        <span className="mt-1 inline-block rounded bg-amber-100 px-2 py-0.5 text-xs text-amber-700">Expired</span>
+                      ) : key.expiresAt ? (
+                        <span className="mt-1 inline-block text-xs text-gray-500">
+                          Expires {new Date(key.expiresAt).toLocaleDateString()}
+                        </span>
+                      ) : null}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{describeScopes(key.scopes, resources)}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">{key.rateLimitPerMinute}/min</td>
+                    <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+                      {formatDateTime(key.lastUsedAt)}
+                      {key.lastUsedIp && <div className="text-xs text-gray-500">{key.lastUsedIp}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {!key.revokedAt && (
+                        <button
+                          type="button"
+                          onClick={() => setRevokeTarget(key)}
+                          className="inline-flex items-center gap-1 text-sm text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          Revoke
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showCreate && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+          <form onSubmit={handleCreate} className="w-full max-w-lg rounded-xl bg-white p-6 shadow-xl space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">New API key</h3>
+              <button type="button" onClick={() => setShowCreate(false)} className="text-gray-400 hover:text-gray-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                maxLength={100}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Looker Studio connector"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Access</label>
+              <div className="space-y-2">
+                {resources.map((resource) => (
+                  <div key={resource.id} className="flex items-center justify-between rounded-lg bg-gray-50 px-3 py-2">
+                    <span className="text-sm text-gray-800">{resource.label}</span>
+                    <select
+                      value={form.access[resource.id] ?? "none"}
+                      onChange={(e) =>
+                        setForm({ ...form, access: { ...form.access, [resource.id]: e.target.value as ApiKeyAccess } })
+                      }
+                      className="rounded-lg border border-gray-300 px-2 py-1 text-sm"
+                    >
+                      <option value="none">No access</option>
+                      <option value="read">Read only</option>
+                      {resource.writable && <option value="write">Read & write</option>}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Requests per minute</label>
+                <input
+                  type="number"
+                  min={10}
+                  max={600}
+                  value={form.rateLimitPerMinute}
+                  onChange={(e) => setForm({ ...form, rateLimitPerMinute: Number(e.target.value) || DEFAULT_RATE_LIMIT })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Expires (optional)</label>
+                <input
+                  type="date"
+                  value={form.expiresAt}
+                  onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2 pt-2">
+              <button
+                type="button"
+                onClick={() => setShowCreate(false)}
+                className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={creating}
+                className="flex items-center gap-2 bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 disabled:opacity-50"
+              >
+                {creating && <Loader2 className="h-4 w-4 animate-spin" />}
+                Create key
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={Boolean(revokeTarget)}
+        onClose={() => setRevokeTarget(null)}
+        onConfirm={handleRevoke}
+        title="Revoke API key"
+        message={`Integrations using "${revokeTarget?.name ?? ""}" will stop working immediately. This cannot be undone.`}
+        confirmText="Revoke"
+      />
+    </div>
+  );
+};
+
+export default ApiKeysManager;
@@ -0,0 +1,207 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { BellRing, Loader2, Plus, Trash2 } from "lucide-react";
+import api from "@/lib/api";
+import InfoTooltip from "@/components/InfoTooltip";
+
+type AlertEvent = "LOST" | "NEW";
+
+type BacklinkAlertRule = {
+  id: string;
+  event: AlertEvent;
+  minDomainRating: number;
+  followOnly: boolean;
+  notifyInApp: boolean;
+  createCampaignWin: boolean;
+  enabled: boolean;
+};
+
+interface BacklinkAlertRulesProps {
+  clientId: string;
+  canManage: boolean;
+}
+
+const emptyRule = { event: "LOST" as AlertEvent, minDomainRating: 30, followOnly: true, notifyInApp: true, createCampaignWin: false };
+
+const describeRule = (rule: Pick<BacklinkAlertRule, "event" | "minDomainRating" | "followOnly">) =>
+  `${rule.event === "LOST" ? "Lost" : "New"} ${rule.followOnly ? "dofollow " : ""}links${rule.minDomainRating > 0 ? ` with DR ${rule.minDomainRating}+` : ""}`;
+
+/** Alert rules evaluated on each backlink sync: new or lost links above a domain rating notify the team or count as wins. */
+const BacklinkAlertRules: React.FC<BacklinkAlertRulesProps> = ({ clientId, canManage }) => {
+  const [rules, setRules] = useState<BacklinkAlertRule[]>([]);
+  const [maxRules, setMaxRules] = useState(10);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState(emptyRule);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await api.get(`/seo/backlink-alerts/${clientId}`, { _silent: true } as any);
+      setRules((res.data?.rules ?? []) as BacklinkAlertRule[]);
+      setMaxRules(Number(res.data?.maxRules) || 10);
+    } catch {
+      setRules([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    setLoading(true);
+    void load();
+  }, [load]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await api.post(`/seo/backlink-alerts/${clientId}`, {
+        ...draft,
+        createCampaignWin: draft.event === "NEW" && draft.createCampaignWin,
+      });
+      setDraft(emptyRule);
+      await load();
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async (rule: BacklinkAlertRule, patch: Partial<BacklinkAlertRule>) => {
+    setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, ...patch } : r)));
+    try {
+      await api.patch(`/seo/backlink-alerts/${clientId}/${rule.id}`, patch);
+    } catch {
+      await load();
+    }
+  };
+
+  const handleDelete = async (rule: BacklinkAlertRule) => {
+    try {
+      await api.delete(`/seo/backlink-alerts/${clientId}/${rule.id}`);
+      await load();
+    } catch {
+      // toast shown by api interceptor
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200">
+      <div className="border-b border-gray-200 p-4">
+        <h3 className="text-base font-semibold text-gray-900 inline-flex items-center gap-2">
+          <BellRing className="h-5 w-5 text-primary-600" />
+          Backlink Alerts
+          <InfoTooltip
+            content="Checked after every backlink sync. Matching links send an in-app notification to your team; new links can also be added to the client's Campaign Wins email."
+            iconClassName="h-4 w-4 text-gray-400 cursor-help"
+          />
+        </h3>
+      </div>
+
+      {loading ? (
+        <div className="m-4 h-16 rounded-lg bg-gray-100 animate-pulse" />
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {rules.length === 0 && <li className="p-4 text-sm text-gray-500">No alert rules yet.</li>}
+          {rules.map((rule) => (
+            <li key={rule.id} className="flex flex-col gap-2 px-4 py-3 sm:flex-row sm:items-center sm:justify-between">
+              <div className={rule.enabled ? "" : "opacity-50"}>
+                <div className="text-sm font-medium text-gray-900">{describeRule(rule)}</div>
+                <div className="text-xs text-gray-500">
+                  {[rule.notifyInApp && "In-app notification", rule.createCampaignWin && "Campaign win"].filter(Boolean).join(" · ")}
+                </div>
+              </div>
+              {canManage && (
+                <div className="flex items-center gap-3">
+                  <label className="inline-flex items-center gap-1.5 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => void handleUpdate(rule, { enabled: e.target.checked })}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    Enabled
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => void handleDelete(rule)}
+                    className="p-1.5 rounded text-gray-400 hover:text-rose-600 hover:bg-rose-50"
+                    aria-label={`Delete rule: ${describeRule(rule)}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canManage && !loading && rules.length < maxRules && (
+        <form onSubmit={handleAdd} className="flex flex-wrap items-end gap-3 border-t border-gray-200 p-4 text-sm">
+          <label>
+            <span className="block text-xs font-medium text-gray-600 mb-1">When a link is</span>
+            <select
+              value={draft.event}
+              onChange={(e) => setDraft((prev) => ({ ...prev, event: e.target.value as AlertEvent }))}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              <option value="LOST">Lost</option>
+              <option value="NEW">New</option>
+            </select>
+          </label>
+          <label>
+            <span className="block text-xs font-medium text-gray-600 mb-1">Min. domain rating</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={draft.minDomainRating}
+              onChange={(e) => setDraft((prev) => ({ ...prev, minDomainRating: Math.min(100, Math.max(0, Number(e.target.value) || 0)) }))}
+              className="w-24 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+          </label>
+          <label className="inline-flex items-center gap-1.5 pb-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.followOnly}
+              onChange={(e) => setDraft((prev) => ({ ...prev, followOnly: e.target.checked }))}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            Dofollow only
+          </label>
+          <label className="inline-flex items-center gap-1.5 pb-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.notifyInApp}
+              onChange={(e) => setDraft((prev) => ({ ...prev, notifyInApp: e.target.checked }))}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            Notify team
+          </label>
+          {draft.event === "NEW" && (
+            <label className="inline-flex items-center gap-1.5 pb-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.createCampaignWin}
+                onChange={(e) => setDraft((prev) => ({ ...prev, createCampaignWin: e.target.checked }))}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              Add to Campaign Wins
+            </label>
+          )}
+          <button
+            type="submit"
+            disabled={saving || (!draft.notifyInApp && !(draft.event === "NEW" && draft.createCampaignWin))}
+            className="inline-flex items-center gap-2 rounded-lg bg-primary-600 px-4 py-2 font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+          >
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Add rule
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default BacklinkAlertRules;
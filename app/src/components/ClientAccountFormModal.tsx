@@ -10,6 +10,7 @@ import {
   SERVICE_RADIUS_OPTIONS,
   buildClientCopyText,
 } from "@/lib/clientAccountForm";
+import WebsitePasswordReveal from "@/components/WebsitePasswordReveal";
 
 const inputClass = "w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent";
 const MANAGED_SERVICE_STATUS_OPTIONS = [
@@ -40,6 +41,9 @@ interface ClientAccountFormModalProps {
   onClose: () => void;
   onSave?: () => void;
   saving?: boolean;
+  /** With `hasWebsitePassword`, shows a "Reveal" control for the saved website password. Pass only for staff users. */
+  clientId?: string;
+  hasWebsitePassword?: boolean;
 }
 
 export default function ClientAccountFormModal({
@@ -55,6 +59,8 @@ export default function ClientAccountFormModal({
   onClose,
   onSave,
   saving = false,
+  clientId,
+  hasWebsitePassword = false,
 }: ClientAccountFormModalProps) {
   if (!open) return null;
 
@@ -407,9 +413,18 @@ export default function ClientAccountFormModal({
                         placeholder="Leave blank to keep current"
                       />
                       <p className="mt-1 text-xs text-gray-500">Stored securely. Leave blank to keep current.</p>
+                      {clientId && hasWebsitePassword && (
+                        <p className="mt-1 text-xs text-gray-500">
+                          Current: <WebsitePasswordReveal clientId={clientId} />
+                        </p>
+                      )}
                     </>
+                  ) : clientId && hasWebsitePassword ? (
+                    <div className="px-4 py-3 border border-gray-200 rounded-lg bg-gray-50 text-gray-900 min-h-[42px]">
+                      <WebsitePasswordReveal clientId={clientId} />
+                    </div>
                   ) : (
-                    ro("••••••••")
+                    ro(hasWebsitePassword ? "••••••••" : "")
                   )
                 )}
               </div>
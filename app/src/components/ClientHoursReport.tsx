@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { format } from "date-fns";
+import { Download, Loader2, Timer } from "lucide-react";
+import api from "@/lib/api";
+import InfoTooltip from "@/components/InfoTooltip";
+import { formatTrackedHours } from "@/lib/timeTracking";
+
+type ClientMonthlyHours = {
+  month: string;
+  startDate: string;
+  endDate: string;
+  allowanceHours: number | null;
+  totalMinutes: number;
+  billableMinutes: number;
+  byTask: Array<{ taskId: string; title: string; estimatedHours: number | null; minutes: number; billableMinutes: number }>;
+  byUser: Array<{ userId: string; name: string; minutes: number; billableMinutes: number }>;
+};
+
+interface ClientHoursReportProps {
+  clientId: string;
+  clientName?: string | null;
+}
+
+/** Monthly hours logged on a client's tasks against the technical hours in their account info, with a CSV export. */
+const ClientHoursReport: React.FC<ClientHoursReportProps> = ({ clientId, clientName }) => {
+  const [month, setMonth] = useState(() => format(new Date(), "yyyy-MM"));
+  const [data, setData] = useState<ClientMonthlyHours | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    api
+      .get(`/tasks/hours-report/${clientId}`, { params: { month }, _silent: true } as any)
+      .then((res) => {
+        if (!cancelled) setData(res.data as ClientMonthlyHours);
+      })
+      .catch(() => {
+        if (!cancelled) setData(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [clientId, month]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const res = await api.get(`/tasks/hours-report/${clientId}`, {
+        params: { month, format: "csv" },
+        responseType: "blob",
+      });
+      const blob = new Blob([res.data], { type: "text/csv" });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      const slug = (clientName || "client").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "client";
+      a.download = `hours-${slug}-${month}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      window.URL.revokeObjectURL(url);
+    } catch {
+      toast.error("Could not export the hours report.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const allowanceMinutes = data?.allowanceHours != null ? data.allowanceHours * 60 : null;
+  const usedPct = allowanceMinutes ? Math.min(100, Math.round(((data?.totalMinutes ?? 0) / allowanceMinutes) * 100)) : 0;
+  const overAllowance = allowanceMinutes != null && (data?.totalMinutes ?? 0) > allowanceMinutes;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Timer className="h-5 w-5 text-gray-500" />
+          <span className="font-medium text-gray-900">Hours used</span>
+          <InfoTooltip content="Time logged on this client's tasks during the month, compared with the technical hours per month set in the client's account info." />
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="month"
+            value={month}
+            max={format(new Date(), "yyyy-MM")}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <button
+            type="button"
+            onClick={() => void handleExport()}
+            disabled={exporting || !data || data.totalMinutes === 0}
+            className="inline-flex items-center gap-1.5 rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="mt-4 h-20 rounded-lg bg-gray-100 animate-pulse" />
+      ) : !data ? (
+        <p className="mt-4 text-sm text-gray-500">Hours could not be loaded.</p>
+      ) : (
+        <>
+          <div className="mt-4 grid grid-cols-1 gap-3 sm:grid-cols-3">
+            <div className="rounded-lg bg-gray-50 px-4 py-3">
+              <p className="text-xs font-medium uppercase tracking-wide text-gray-500">Logged</p>
+              <p className={`mt-1 text-lg font-semibold ${overAllowance ? "text-rose-700" : "text-gray-900"}`}>{formatTrackedHours(data.totalMinutes)}</p>
+            </div>
+            <div className="rounded-lg bg-gray-50 px-4 py-3">
+              <p className="text-xs font-medium uppercase tracking-wide text-gray-500">Monthly allowance</p>
+              <p className="mt-1 text-lg font-semibold text-gray-900">{data.allowanceHours != null ? `${data.allowanceHours}h` : "Not set"}</p>
+            </div>
+            <div className="rounded-lg bg-gray-50 px-4 py-3">
+              <p className="text-xs font-medium uppercase tracking-wide text-gray-500">Remaining</p>
+              <p className={`mt-1 text-lg font-semibold ${overAllowance ? "text-rose-700" : "text-gray-900"}`}>
+                {allowanceMinutes != null ? formatTrackedHours(allowanceMinutes - data.totalMinutes) : "—"}
+              </p>
+            </div>
+          </div>
+          {allowanceMinutes != null && (
+            <div className="mt-3 h-2 w-full overflow-hidden rounded-full bg-gray-100">
+              <div className={`h-full rounded-full ${overAllowance ? "bg-rose-500" : "bg-primary-500"}`} style={{ width: `${usedPct}%` }} />
+            </div>
+          )}
+
+          {data.totalMinutes === 0 ? (
+            <p className="mt-4 text-sm text-gray-500">No time logged in {format(new Date(`${data.month}-01T00:00:00`), "MMMM yyyy")}.</p>
+          ) : (
+            <div className="mt-4 grid grid-cols-1 gap-4 lg:grid-cols-2">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-xs font-semibold uppercase tracking-wide text-gray-500">
+                    <th className="py-2 pr-3">Task</th>
+                    <th className="py-2 pr-3 text-right">Estimated</th>
+                    <th className="py-2 text-right">Logged</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {data.byTask.map((row) => (
+                    <tr key={row.taskId}>
+                      <td className="py-2 pr-3 text-gray-900">{row.title}</td>
+                      <td className="py-2 pr-3 text-right text-gray-600">{row.estimatedHours != null ? `${row.estimatedHours}h` : "—"}</td>
+                      <td
+                        className={`py-2 text-right font-medium ${
+                          row.estimatedHours != null && row.minutes > row.estimatedHours * 60 ? "text-rose-700" : "text-gray-900"
+                        }`}
+                      >
+                        {formatTrackedHours(row.minutes)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-xs font-semibold uppercase tracking-wide text-gray-500">
+                    <th className="py-2 pr-3">Team member</th>
+                    <th className="py-2 pr-3 text-right">Billable</th>
+                    <th className="py-2 text-right">Logged</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {data.byUser.map((row) => (
+                    <tr key={row.userId}>
+                      <td className="py-2 pr-3 text-gray-900">{row.name}</td>
+                      <td className="py-2 pr-3 text-right text-gray-600">{formatTrackedHours(row.billableMinutes)}</td>
+                      <td className="py-2 text-right font-medium text-gray-900">{formatTrackedHours(row.minutes)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ClientHoursReport;
@@ -6,6 +6,8 @@ import toast from "react-hot-toast";
 import { useSelector } from "react-redux";
 import { RootState } from "@/store";
 import ConfirmDialog from "@/components/ConfirmDialog";
+import { KeywordRankHistoryModal, KeywordRankSparkline } from "@/components/KeywordRankTrend";
+import { normalizeKeywordKey, useKeywordRankSeries } from "@/hooks/useKeywordRankSeries";
 
 const DEFAULT_LANGUAGE = "en";
 const KEYWORDS_PAGE_SIZES = [25, 50, 100, 250] as const;
@@ -99,11 +101,14 @@ const ClientKeywordsManager: React.FC<ClientKeywordsManagerProps> = ({
   });
   const [keywordsPageSize, setKeywordsPageSize] = useState<(typeof KEYWORDS_PAGE_SIZES)[number]>(25);
   const [keywordsPage, setKeywordsPage] = useState(1);
+  const [historyKeyword, setHistoryKeyword] = useState<{ id: string; keyword: string } | null>(null);
+  const [rankSeriesRefreshKey, setRankSeriesRefreshKey] = useState(0);
 
   const trackSearchTerm = externalTrackSearchTerm !== undefined ? externalTrackSearchTerm : trackSearchTermInternal;
   const setTrackSearchTerm = onTrackSearchTermChange || setTrackSearchTermInternal;
 
   const effectiveClientId = clientId || selectedClientId || "";
+  const rankSeries = useKeywordRankSeries(effectiveClientId.trim(), { refreshKey: rankSeriesRefreshKey });
   const canModifyKeywords = !readOnly;
   const tabKeywords = trackedKeywords.filter((k) => (k.type || "money") === activeKeywordTab);
   const filteredKeywords = trackSearchTerm
@@ -337,6 +342,7 @@ const ClientKeywordsManager: React.FC<ClientKeywordsManagerProps> = ({
       toast.success("Keyword data refreshed!");
       const res = await api.get(`/seo/keywords/${effectiveClientId}`);
       setTrackedKeywords(Array.isArray(res.data) ? res.data : []);
+      setRankSeriesRefreshKey((k) => k + 1);
     } catch (error: any) {
       toast.error(error?.response?.data?.message || "Refresh failed.");
     } finally {
@@ -705,23 +711,24 @@ const ClientKeywordsManager: React.FC<ClientKeywordsManagerProps> = ({
                 <th className="px-6 py-3.5 text-left text-xs font-semibold text-amber-800 uppercase tracking-wider border-l-4 border-amber-300">Keyword Difficulty</th>
                 <th className="px-6 py-3.5 text-left text-xs font-semibold text-violet-700 uppercase tracking-wider border-l-4 border-violet-300">CPC</th>
                 <th className="px-6 py-3.5 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider border-l-4 border-slate-300">Current position</th>
+                <th className="px-6 py-3.5 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider border-l-4 border-slate-300">90-day trend</th>
                 <th className="px-6 py-3.5 text-right text-xs font-semibold text-violet-700 uppercase tracking-wider border-l-4 border-violet-300"><span className="sr-only">Actions</span></th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-100">
               {trackedLoading ? (
                 <tr>
-                  <td colSpan={7} className="px-6 py-8 text-center text-gray-500 bg-gray-50/50">
+                  <td colSpan={8} className="px-6 py-8 text-center text-gray-500 bg-gray-50/50">
                     <span className="inline-flex items-center gap-3"><Loader2 className="h-5 w-5 animate-spin text-primary-600" /> Loading…</span>
                   </td>
                 </tr>
               ) : trackedError ? (
                 <tr>
-                  <td colSpan={7} className="px-6 py-8 text-center text-sm text-rose-600 bg-rose-50/50">{trackedError}</td>
+                  <td colSpan={8} className="px-6 py-8 text-center text-sm text-rose-600 bg-rose-50/50">{trackedError}</td>
                 </tr>
               ) : filteredKeywords.length === 0 ? (
                 <tr>
-                  <td colSpan={7} className="px-6 py-8 text-center text-sm text-gray-500 bg-amber-50/50">No tracked keywords yet. Add some above.</td>
+                  <td colSpan={8} className="px-6 py-8 text-center text-sm text-gray-500 bg-amber-50/50">No tracked keywords yet. Add some above.</td>
                 </tr>
               ) : (
                 keywordsPagination.rows.map((keyword, index) => (
@@ -737,7 +744,14 @@ const ClientKeywordsManager: React.FC<ClientKeywordsManagerProps> = ({
                       />
                     </td>
                     <td className="px-6 py-4">
-                      <p className="font-semibold text-gray-900">{keyword.keyword}</p>
+                      <button
+                        type="button"
+                        onClick={() => setHistoryKeyword({ id: keyword.id, keyword: keyword.keyword })}
+                        className="font-semibold text-gray-900 hover:text-primary-600 hover:underline text-left"
+                        title="View rank history"
+                      >
+                        {keyword.keyword}
+                      </button>
                       {keyword.googleUrl && (
                         <a href={keyword.googleUrl} target="_blank" rel="noopener noreferrer" className="text-xs text-primary-600 hover:underline mt-1 inline-block">View ranking URL</a>
                       )}
@@ -752,6 +766,9 @@ const ClientKeywordsManager: React.FC<ClientKeywordsManagerProps> = ({
                     </td>
                     <td className="px-6 py-4 text-violet-800/90">{keyword.cpc != null ? `$${Number(keyword.cpc).toFixed(2)}` : "—"}</td>
                     <td className="px-6 py-4 text-slate-700">{keyword.currentPosition ?? "—"}</td>
+                    <td className="px-6 py-4">
+                      <KeywordRankSparkline points={rankSeries[normalizeKeywordKey(keyword.keyword)]} />
+                    </td>
                     <td className="px-6 py-4 text-right">
                       <div className="flex items-center justify-end gap-1">
                         {user?.role === "SUPER_ADMIN" && (
@@ -834,6 +851,14 @@ const ClientKeywordsManager: React.FC<ClientKeywordsManagerProps> = ({
         )}
       </div>
 
+      <KeywordRankHistoryModal
+        isOpen={Boolean(historyKeyword)}
+        onClose={() => setHistoryKeyword(null)}
+        clientId={effectiveClientId}
+        keywordId={historyKeyword?.id ?? null}
+        keywordText={historyKeyword?.keyword}
+      />
+
       <ConfirmDialog
         isOpen={deleteConfirm.isOpen}
         onClose={() => setDeleteConfirm({ isOpen: false, keywordId: null, keywordText: null, keywordIds: [] })}
@@ -0,0 +1,167 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { GanttChartSquare, Lock } from "lucide-react";
+import api from "@/lib/api";
+import InfoTooltip from "@/components/InfoTooltip";
+import type { TaskStatus } from "@/utils/types";
+
+type TimelineRow = {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  category: string | null;
+  start: string;
+  end: string;
+  blockedByIds: string[];
+  blocked: boolean;
+  overdue: boolean;
+};
+
+type TimelineResponse = { today: string; rows: TimelineRow[] };
+
+interface ClientOnboardingTimelineProps {
+  clientId: string;
+}
+
+const DAY_MS = 86_400_000;
+const COLLAPSED_ROWS = 12;
+
+const toDayNumber = (date: string) => Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+const fromDayNumber = (day: number) => new Date(day * DAY_MS + new Date(day * DAY_MS).getTimezoneOffset() * 60_000);
+
+const barClass = (row: TimelineRow) => {
+  if (row.status === "DONE") return "bg-emerald-500";
+  if (row.overdue) return "bg-rose-500";
+  if (row.blocked) return "bg-amber-400";
+  if (row.status === "IN_PROGRESS" || row.status === "REVIEW" || row.status === "NEEDS_APPROVAL") return "bg-primary-500";
+  return "bg-gray-400";
+};
+
+/** Gantt view of a client's tasks: each bar runs from when its blockers are due to its own due date, with a today line. */
+const ClientOnboardingTimeline: React.FC<ClientOnboardingTimelineProps> = ({ clientId }) => {
+  const [data, setData] = useState<TimelineResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    api
+      .get(`/tasks/timeline/${clientId}`, { _silent: true } as any)
+      .then((res) => {
+        if (!cancelled) setData(res.data as TimelineResponse);
+      })
+      .catch(() => {
+        if (!cancelled) setData(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [clientId]);
+
+  const chart = useMemo(() => {
+    if (!data || data.rows.length === 0) return null;
+    const today = toDayNumber(data.today);
+    const first = Math.min(today, ...data.rows.map((r) => toDayNumber(r.start))) - 1;
+    const last = Math.max(today, ...data.rows.map((r) => toDayNumber(r.end))) + 1;
+    const totalDays = last - first + 1;
+    const step = totalDays <= 31 ? 7 : totalDays <= 120 ? 14 : 30;
+    const ticks: number[] = [];
+    for (let day = first; day <= last; day += step) ticks.push(day);
+    const pct = (day: number) => ((day - first) / totalDays) * 100;
+    return { today, first, totalDays, ticks, pct };
+  }, [data]);
+
+  const rows = data?.rows ?? [];
+  const visibleRows = expanded ? rows : rows.slice(0, COLLAPSED_ROWS);
+  const titleById = new Map(rows.map((r) => [r.id, r.title]));
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <GanttChartSquare className="h-5 w-5 text-gray-500" />
+          <span className="font-medium text-gray-900">Onboarding timeline</span>
+          <InfoTooltip content="Each task runs from when the tasks it is blocked by are due to its own due date. When a task's due date moves later, the tasks waiting on it move with it." />
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+          <span className="inline-flex items-center gap-1"><span className="h-2 w-3 rounded-sm bg-emerald-500" />Done</span>
+          <span className="inline-flex items-center gap-1"><span className="h-2 w-3 rounded-sm bg-primary-500" />In progress</span>
+          <span className="inline-flex items-center gap-1"><span className="h-2 w-3 rounded-sm bg-gray-400" />To do</span>
+          <span className="inline-flex items-center gap-1"><span className="h-2 w-3 rounded-sm bg-amber-400" />Blocked</span>
+          <span className="inline-flex items-center gap-1"><span className="h-2 w-3 rounded-sm bg-rose-500" />Overdue</span>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="mt-4 h-32 rounded-lg bg-gray-100 animate-pulse" />
+      ) : !data ? (
+        <p className="mt-4 text-sm text-gray-500">Timeline could not be loaded.</p>
+      ) : !chart ? (
+        <p className="mt-4 text-sm text-gray-500">No tasks for this client yet.</p>
+      ) : (
+        <div className="mt-4 overflow-x-auto">
+          <div className="min-w-[640px]">
+            <div className="grid grid-cols-[14rem_1fr] border-b border-gray-200 pb-1 text-[11px] text-gray-500">
+              <span className="font-semibold uppercase tracking-wide">Task</span>
+              <div className="relative h-4">
+                {chart.ticks.map((day) => (
+                  <span key={day} className="absolute -translate-x-1/2 whitespace-nowrap" style={{ left: `${chart.pct(day)}%` }}>
+                    {format(fromDayNumber(day), "MMM d")}
+                  </span>
+                ))}
+              </div>
+            </div>
+            <div className="relative">
+              <div className="pointer-events-none absolute inset-y-0 left-56 right-0">
+                <div
+                  className="absolute inset-y-0 w-px bg-rose-400"
+                  style={{ left: `${chart.pct(chart.today)}%` }}
+                  title={`Today (${format(fromDayNumber(chart.today), "MMM d, yyyy")})`}
+                />
+              </div>
+              {visibleRows.map((row) => {
+                const start = toDayNumber(row.start);
+                const end = toDayNumber(row.end);
+                const waitingOn = row.blockedByIds.map((id) => titleById.get(id)).filter(Boolean);
+                return (
+                  <div key={row.id} className="grid grid-cols-[14rem_1fr] items-center border-b border-gray-100 py-1.5 text-sm">
+                    <div className="flex min-w-0 items-center gap-1.5 pr-3">
+                      {row.blocked && <Lock className="h-3.5 w-3.5 shrink-0 text-amber-600" />}
+                      <span className={`truncate ${row.status === "DONE" ? "text-gray-500 line-through" : "text-gray-900"}`} title={row.title}>
+                        {row.title}
+                      </span>
+                    </div>
+                    <div className="relative h-5">
+                      <div
+                        className={`absolute top-0.5 h-4 rounded ${barClass(row)}`}
+                        style={{ left: `${chart.pct(start)}%`, width: `${Math.max(((end - start + 1) / chart.totalDays) * 100, 0.75)}%` }}
+                        title={`${row.title}: ${format(fromDayNumber(start), "MMM d")} – ${format(fromDayNumber(end), "MMM d")}${
+                          waitingOn.length > 0 ? ` · blocked by ${waitingOn.join(", ")}` : ""
+                        }`}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            {rows.length > COLLAPSED_ROWS && (
+              <button
+                type="button"
+                onClick={() => setExpanded((v) => !v)}
+                className="mt-2 text-sm font-medium text-primary-600 hover:text-primary-800"
+              >
+                {expanded ? "Show fewer tasks" : `Show all ${rows.length} tasks`}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClientOnboardingTimeline;
@@ -0,0 +1,428 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import toast from "react-hot-toast";
+import { format } from "date-fns";
+import { ArrowDown, ArrowUp, Loader2, Plus, RefreshCw, Search, Target, Trash2 } from "lucide-react";
+import api from "@/lib/api";
+import InfoTooltip from "@/components/InfoTooltip";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import SpreadsheetExportMenu from "@/components/SpreadsheetExportMenu";
+
+type SnapshotSummary = {
+  capturedAt: string;
+  rankedKeywords: number;
+  estimatedTraffic: number | null;
+  backlinks: number | null;
+  referringDomains: number | null;
+  domainRating: number | null;
+};
+
+type TrackedCompetitor = {
+  id: string;
+  domain: string;
+  label: string | null;
+  createdAt: string;
+  lastSnapshotAt: string | null;
+  latest: SnapshotSummary | null;
+  previous: SnapshotSummary | null;
+  lastError: string | null;
+};
+
+type KeywordRow = {
+  keyword: string;
+  searchVolume: number | null;
+  clientPosition: number | null;
+  clientUrl: string | null;
+  competitorPositions: Record<string, number | null>;
+  rankingCompetitors?: number;
+  bestCompetitorPosition?: number;
+};
+
+type CompetitorOverview = {
+  client: { domain: string; latest: SnapshotSummary | null; previous: SnapshotSummary | null; lastError: string | null };
+  competitors: TrackedCompetitor[];
+  keywords: KeywordRow[];
+  gaps: KeywordRow[];
+  totalKeywords: number;
+  totalGaps: number;
+  maxCompetitors: number;
+};
+
+type KeywordView = "gaps" | "keywords";
+
+interface CompetitorTrackerProps {
+  clientId: string;
+  /** Add/remove competitors and trigger refreshes (hidden for client portal users and shared reports). */
+  canManage: boolean;
+}
+
+const formatCount = (value: number | null | undefined) => (value != null ? value.toLocaleString() : "—");
+
+const Delta: React.FC<{ current: number | null | undefined; previous: number | null | undefined }> = ({ current, previous }) => {
+  if (current == null || previous == null || current === previous) return null;
+  const up = current > previous;
+  return (
+    <span className={`ml-1 inline-flex items-center text-xs font-medium ${up ? "text-emerald-600" : "text-rose-600"}`}>
+      {up ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+      {Math.abs(current - previous).toLocaleString()}
+    </span>
+  );
+};
+
+const positionClass = (position: number | null | undefined) =>
+  position == null
+    ? "text-gray-300"
+    : position <= 3
+      ? "font-semibold text-emerald-700"
+      : position <= 10
+        ? "font-medium text-emerald-600"
+        : position <= 20
+          ? "text-amber-600"
+          : "text-gray-600";
+
+/** Declared competitors for a client: weekly snapshot metrics side by side, keyword comparison and keyword gaps. */
+const CompetitorTracker: React.FC<CompetitorTrackerProps> = ({ clientId, canManage }) => {
+  const [data, setData] = useState<CompetitorOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [domain, setDomain] = useState("");
+  const [label, setLabel] = useState("");
+  const [adding, setAdding] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [removeTarget, setRemoveTarget] = useState<TrackedCompetitor | null>(null);
+  const [view, setView] = useState<KeywordView>("gaps");
+  const [search, setSearch] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await api.get(`/seo/competitors/${clientId}`, { _silent: true } as any);
+      setData(res.data as CompetitorOverview);
+    } catch {
+      setData(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    setLoading(true);
+    void load();
+  }, [load]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!domain.trim()) return;
+    setAdding(true);
+    try {
+      await api.post(`/seo/competitors/${clientId}`, { domain: domain.trim(), label: label.trim() || null });
+      setDomain("");
+      setLabel("");
+      toast.success("Competitor added. Use Refresh now to capture its first snapshot.");
+      await load();
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!removeTarget) return;
+    try {
+      await api.delete(`/seo/competitors/${clientId}/${removeTarget.id}`);
+      toast.success(`${removeTarget.domain} removed`);
+      setRemoveTarget(null);
+      await load();
+    } catch {
+      // toast shown by api interceptor
+    }
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      const res = await api.post(`/seo/competitors/${clientId}/refresh`);
+      const { captured, failed } = res.data as { captured: number; failed: number };
+      if (failed > 0) toast.error(`${failed} of ${captured + failed} domains could not be captured.`);
+      else toast.success("Competitor data refreshed");
+      await load();
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const rows = useMemo(() => {
+    const source = view === "gaps" ? data?.gaps ?? [] : data?.keywords ?? [];
+    const q = search.trim().toLowerCase();
+    return (q ? source.filter((row) => row.keyword.toLowerCase().includes(q)) : source).slice(0, 200);
+  }, [data, view, search]);
+
+  const competitors = data?.competitors ?? [];
+  const lastCaptured = data?.client.latest?.capturedAt ?? null;
+  const atLimit = data ? competitors.length >= data.maxCompetitors : false;
+
+  const domainRows = data
+    ? [
+        { key: "client", name: data.client.domain, sub: "This client", latest: data.client.latest, previous: data.client.previous, competitor: null },
+        ...competitors.map((c) => ({
+          key: c.id,
+          name: c.label || c.domain,
+          sub: c.label ? c.domain : c.lastSnapshotAt ? null : "Waiting for first snapshot",
+          latest: c.latest,
+          previous: c.previous,
+          competitor: c,
+        })),
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-3">
+          <div className="flex items-center justify-center w-10 h-10 rounded-lg bg-primary-50 text-primary-600">
+            <Target className="h-5 w-5" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 inline-flex items-center gap-1.5">
+              Competitors
+              <InfoTooltip
+                content="Ranked keywords and backlinks for this client and its tracked competitors, captured together every week from DataForSEO (United States, English)."
+                iconClassName="h-4 w-4 text-gray-400 cursor-help"
+              />
+            </h2>
+            <p className="text-sm text-gray-500 mt-0.5">
+              {lastCaptured ? `Last captured ${format(new Date(lastCaptured), "MMM d, yyyy")}` : "Snapshots are captured weekly."}
+            </p>
+          </div>
+        </div>
+        {canManage && competitors.length > 0 && (
+          <button
+            type="button"
+            onClick={() => void handleRefresh()}
+            disabled={refreshing}
+            className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {refreshing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            Refresh now
+          </button>
+        )}
+      </div>
+
+      {canManage && data && (
+        <form onSubmit={handleAdd} className="bg-white rounded-xl border border-gray-200 p-4 flex flex-col gap-3 sm:flex-row sm:items-end">
+          <label className="flex-1 text-sm">
+            <span className="block text-xs font-medium text-gray-600 mb-1">Competitor domain</span>
+            <input
+              value={domain}
+              onChange={(e) => setDomain(e.target.value)}
+              placeholder="competitor.com"
+              disabled={atLimit}
+              className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-gray-50"
+            />
+          </label>
+          <label className="flex-1 text-sm">
+            <span className="block text-xs font-medium text-gray-600 mb-1">Label (optional)</span>
+            <input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. Main local rival"
+              disabled={atLimit}
+              className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-gray-50"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={adding || atLimit || !domain.trim()}
+            className="inline-flex items-center justify-center gap-2 rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+          >
+            {adding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Add competitor
+          </button>
+          {atLimit && <p className="text-xs text-gray-500 sm:self-center">Up to {data.maxCompetitors} competitors per client.</p>}
+        </form>
+      )}
+
+      {loading ? (
+        <div className="h-40 rounded-xl bg-gray-100 animate-pulse" />
+      ) : !data ? (
+        <div className="bg-white border border-gray-200 rounded-xl p-8 text-center text-sm text-gray-500">Competitor data could not be loaded.</div>
+      ) : competitors.length === 0 ? (
+        <div className="bg-white border border-gray-200 rounded-xl p-8 text-center text-sm text-gray-500">
+          No competitors tracked yet.{canManage ? ` Add up to ${data.maxCompetitors} domains to compare rankings and backlinks.` : ""}
+        </div>
+      ) : (
+        <>
+          <div className="bg-white rounded-xl border border-gray-200 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold uppercase tracking-wide text-gray-500">
+                  <th className="px-4 py-3">Domain</th>
+                  <th className="px-4 py-3 text-right">Ranked keywords</th>
+                  <th className="px-4 py-3 text-right">Est. traffic</th>
+                  <th className="px-4 py-3 text-right">Backlinks</th>
+                  <th className="px-4 py-3 text-right">Referring domains</th>
+                  <th className="px-4 py-3 text-right">Domain rating</th>
+                  {canManage && <th className="px-4 py-3" />}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {domainRows.map((row) => (
+                  <tr key={row.key} className={row.competitor ? "" : "bg-primary-50/40"}>
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-gray-900">{row.name}</div>
+                      {row.sub && <div className="text-xs text-gray-500">{row.sub}</div>}
+                      {row.competitor?.lastError && !row.latest && (
+                        <div className="text-xs text-rose-600" title={row.competitor.lastError}>
+                          Last capture failed
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-900">
+                      {formatCount(row.latest?.rankedKeywords)}
+                      <Delta current={row.latest?.rankedKeywords} previous={row.previous?.rankedKeywords} />
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-900">
+                      {formatCount(row.latest?.estimatedTraffic)}
+                      <Delta current={row.latest?.estimatedTraffic} previous={row.previous?.estimatedTraffic} />
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-900">
+                      {formatCount(row.latest?.backlinks)}
+                      <Delta current={row.latest?.backlinks} previous={row.previous?.backlinks} />
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-900">
+                      {formatCount(row.latest?.referringDomains)}
+                      <Delta current={row.latest?.referringDomains} previous={row.previous?.referringDomains} />
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-900">{formatCount(row.latest?.domainRating)}</td>
+                    {canManage && (
+                      <td className="px-4 py-3 text-right">
+                        {row.competitor && (
+                          <button
+                            type="button"
+                            onClick={() => setRemoveTarget(row.competitor)}
+                            className="p-1.5 rounded text-gray-400 hover:text-rose-600 hover:bg-rose-50"
+                            title="Stop tracking"
+                            aria-label={`Stop tracking ${row.competitor.domain}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-white rounded-xl border border-gray-200">
+            <div className="flex flex-col gap-3 border-b border-gray-200 p-4 sm:flex-row sm:items-center sm:justify-between">
+              <div className="inline-flex rounded-lg border border-gray-200 p-0.5">
+                {(
+                  [
+                    { id: "gaps", label: `Keyword gaps (${data.totalGaps.toLocaleString()})` },
+                    { id: "keywords", label: `All keywords (${data.totalKeywords.toLocaleString()})` },
+                  ] as const
+                ).map((tab) => (
+                  <button
+                    key={tab.id}
+                    type="button"
+                    onClick={() => setView(tab.id)}
+                    className={`rounded-md px-3 py-1.5 text-sm font-medium ${
+                      view === tab.id ? "bg-primary-50 text-primary-700" : "text-gray-600 hover:bg-gray-50"
+                    }`}
+                  >
+                    {tab.label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="relative">
+                  <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+                  <input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Filter keywords"
+                    className="w-56 rounded-lg border border-gray-300 py-2 pl-8 pr-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                </div>
+                <SpreadsheetExportMenu
+                  path={`/seo/competitors/${clientId}/export?view=${view}`}
+                  filenameBase={view === "gaps" ? "keyword-gaps" : "competitor-keywords"}
+                  disabled={rows.length === 0}
+                />
+              </div>
+            </div>
+            {view === "gaps" && (
+              <p className="px-4 pt-3 text-xs text-gray-500">Keywords at least one competitor ranks for where this client has no ranking.</p>
+            )}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-xs font-semibold uppercase tracking-wide text-gray-500">
+                    <th className="px-4 py-3">Keyword</th>
+                    <th className="px-4 py-3 text-right">Volume</th>
+                    <th className="px-4 py-3 text-center">{data.client.domain}</th>
+                    {competitors.map((c) => (
+                      <th key={c.id} className="px-4 py-3 text-center">
+                        {c.label || c.domain}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {rows.length === 0 ? (
+                    <tr>
+                      <td colSpan={3 + competitors.length} className="px-4 py-8 text-center text-gray-500">
+                        {!lastCaptured
+                          ? "No snapshot captured yet."
+                          : search.trim()
+                            ? "No keywords match your filter."
+                            : view === "gaps"
+                              ? "No keyword gaps: this client ranks for every keyword its competitors rank for."
+                              : "No ranked keywords in the latest snapshot."}
+                      </td>
+                    </tr>
+                  ) : (
+                    rows.map((row) => (
+                      <tr key={row.keyword}>
+                        <td className="px-4 py-2.5 text-gray-900">{row.keyword}</td>
+                        <td className="px-4 py-2.5 text-right text-gray-600">{formatCount(row.searchVolume)}</td>
+                        <td className={`px-4 py-2.5 text-center ${positionClass(row.clientPosition)}`}>
+                          {row.clientUrl && row.clientPosition != null ? (
+                            <a href={row.clientUrl} target="_blank" rel="noreferrer" className="hover:underline">
+                              {row.clientPosition}
+                            </a>
+                          ) : (
+                            row.clientPosition ?? "—"
+                          )}
+                        </td>
+                        {competitors.map((c) => (
+                          <td key={c.id} className={`px-4 py-2.5 text-center ${positionClass(row.competitorPositions[c.id])}`}>
+                            {row.competitorPositions[c.id] ?? "—"}
+                          </td>
+                        ))}
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      <ConfirmDialog
+        isOpen={Boolean(removeTarget)}
+        onClose={() => setRemoveTarget(null)}
+        onConfirm={() => void handleRemove()}
+        title="Stop tracking competitor"
+        message={`Stop tracking ${removeTarget?.domain ?? ""}? Its snapshot history is deleted.`}
+        confirmText="Stop tracking"
+        variant="danger"
+      />
+    </div>
+  );
+};
+
+export default CompetitorTracker;
@@ -0,0 +1,351 @@
+import React, { useMemo, useRef, useState } from "react";
+import { AlertTriangle, CheckCircle2, FileSpreadsheet, Loader2, Upload, X } from "lucide-react";
+import toast from "react-hot-toast";
+import api from "@/lib/api";
+
+type ImportField = {
+  key: string;
+  label: string;
+  required: boolean;
+  type: string;
+  options: string[] | null;
+};
+
+type ImportRowStatus = "ready" | "created" | "skipped" | "error";
+
+type ImportReport = {
+  headers: string[];
+  mapping: Record<string, number | null>;
+  fields: ImportField[];
+  missingRequired: string[];
+  dryRun: boolean;
+  summary: { total: number; ready: number; created: number; skipped: number; errors: number };
+  rows: Array<{ row: number; status: ImportRowStatus; label: string; messages: string[] }>;
+};
+
+type Step = "upload" | "map" | "review" | "done";
+
+interface CsvImportWizardProps {
+  open: boolean;
+  onClose: () => void;
+  title: string;
+  /** POST endpoint taking { csv, mapping?, dryRun } and returning an import report. */
+  endpoint: string;
+  /** Plural noun for the summary, e.g. "clients". */
+  entityLabel: string;
+  /** Header row offered as a downloadable template. */
+  templateColumns: string[];
+  onImported?: () => void;
+}
+
+const STATUS_STYLES: Record<ImportRowStatus, { label: string; className: string }> = {
+  ready: { label: "Ready", className: "bg-emerald-50 text-emerald-700" },
+  created: { label: "Imported", className: "bg-emerald-50 text-emerald-700" },
+  skipped: { label: "Skipped", className: "bg-gray-100 text-gray-600" },
+  error: { label: "Error", className: "bg-red-50 text-red-700" },
+};
+
+const STEPS: Array<{ id: Step; label: string }> = [
+  { id: "upload", label: "Upload" },
+  { id: "map", label: "Map columns" },
+  { id: "review", label: "Review" },
+  { id: "done", label: "Done" },
+];
+
+/** Spreadsheet import in four steps: upload a CSV, map its columns, review a dry run row by row, then import. */
+const CsvImportWizard: React.FC<CsvImportWizardProps> = ({ open, onClose, title, endpoint, entityLabel, templateColumns, onImported }) => {
+  const [step, setStep] = useState<Step>("upload");
+  const [csv, setCsv] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [mapping, setMapping] = useState<Record<string, number | null>>({});
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reset = () => {
+    setStep("upload");
+    setCsv("");
+    setFileName("");
+    setMapping({});
+    setReport(null);
+    setProblemsOnly(false);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const submit = async (body: { csv: string; mapping?: Record<string, number | null>; dryRun: boolean }) => {
+    setBusy(true);
+    try {
+      const res = await api.post(endpoint, body, { timeout: 120000 });
+      return res.data as ImportReport;
+    } catch {
+      // toast shown by api interceptor
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (file.size > 5 * 1024 * 1024) {
+      toast.error("The file is too large (max 5 MB).");
+      return;
+    }
+    const text = await file.text();
+    const result = await submit({ csv: text, dryRun: true });
+    if (!result) return;
+    setCsv(text);
+    setFileName(file.name);
+    setMapping(result.mapping);
+    setReport(result);
+    setStep("map");
+  };
+
+  const handleCheck = async () => {
+    const result = await submit({ csv, mapping, dryRun: true });
+    if (!result) return;
+    setReport(result);
+    setStep(result.missingRequired.length > 0 ? "map" : "review");
+  };
+
+  const handleImport = async () => {
+    const result = await submit({ csv, mapping, dryRun: false });
+    if (!result) return;
+    setReport(result);
+    setProblemsOnly(result.summary.errors > 0);
+    setStep("done");
+    if (result.summary.created > 0) {
+      toast.success(`Imported ${result.summary.created} ${entityLabel}.`);
+      onImported?.();
+    }
+  };
+
+  const downloadTemplate = () => {
+    const blob = new Blob([`${templateColumns.join(",")}\r\n`], { type: "text/csv" });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${entityLabel.replace(/\s+/g, "-")}-template.csv`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const visibleRows = useMemo(
+    () => (report?.rows ?? []).filter((row) => !problemsOnly || row.status === "error" || row.status === "skipped"),
+    [report, problemsOnly]
+  );
+
+  const unmappedRequired = (report?.fields ?? []).filter((f) => f.required && (mapping[f.key] ?? null) === null);
+  const usedColumns = new Map<number, string>();
+  for (const [key, column] of Object.entries(mapping)) if (column !== null) usedColumns.set(column, key);
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm overflow-y-auto">
+      <div className="min-h-full flex items-center justify-center p-4">
+        <div className="bg-white w-full max-w-4xl rounded-2xl shadow-2xl ring-1 ring-gray-200/80 max-h-[calc(100vh-2rem)] flex flex-col">
+          <div className="flex items-center justify-between border-b border-gray-200 px-6 py-4">
+            <div className="flex items-center gap-3">
+              <FileSpreadsheet className="h-5 w-5 text-primary-600" />
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+                <ol className="mt-1 flex flex-wrap gap-2 text-xs">
+                  {STEPS.map((s, i) => (
+                    <li key={s.id} className={s.id === step ? "font-semibold text-primary-700" : "text-gray-400"}>
+                      {i + 1}. {s.label}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            </div>
+            <button type="button" onClick={handleClose} className="rounded-lg p-1.5 text-gray-400 hover:bg-gray-100 hover:text-gray-600">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto px-6 py-5">
+            {step === "upload" && (
+              <div className="space-y-4">
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => fileInputRef.current?.click()}
+                  className="flex w-full flex-col items-center justify-center gap-2 rounded-xl border-2 border-dashed border-gray-300 px-6 py-10 text-sm text-gray-600 hover:border-primary-400 hover:bg-primary-50/40 disabled:opacity-60"
+                >
+                  {busy ? <Loader2 className="h-6 w-6 animate-spin text-primary-600" /> : <Upload className="h-6 w-6 text-gray-400" />}
+                  <span className="font-medium text-gray-900">{busy ? "Reading file…" : "Choose a CSV file"}</span>
+                  <span className="text-xs text-gray-500">The first row must be the column headers. Excel: File → Save As → CSV (UTF-8).</span>
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="hidden"
+                  onChange={(e) => {
+                    void handleFile(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+                <p className="text-sm text-gray-500">
+                  Not sure about the columns?{" "}
+                  <button type="button" onClick={downloadTemplate} className="font-medium text-primary-600 hover:text-primary-800">
+                    Download a template
+                  </button>
+                  .
+                </p>
+              </div>
+            )}
+
+            {step === "map" && report && (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  <span className="font-medium text-gray-900">{fileName}</span> has {report.headers.length} columns. Choose which column fills each field.
+                </p>
+                <div className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+                  {report.fields.map((field) => {
+                    const value = mapping[field.key] ?? null;
+                    return (
+                      <div key={field.key} className="grid grid-cols-1 items-center gap-2 px-4 py-2 sm:grid-cols-[1fr_1fr]">
+                        <div className="text-sm">
+                          <span className="font-medium text-gray-900">{field.label}</span>
+                          {field.required && <span className="text-red-500"> *</span>}
+                          {field.options && <span className="ml-2 text-xs text-gray-500">({field.options.join(" / ")})</span>}
+                        </div>
+                        <select
+                          value={value === null ? "" : String(value)}
+                          onChange={(e) => setMapping((prev) => ({ ...prev, [field.key]: e.target.value === "" ? null : Number(e.target.value) }))}
+                          className={`w-full rounded-lg border px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 ${
+                            field.required && value === null ? "border-red-300" : "border-gray-300"
+                          }`}
+                        >
+                          <option value="">— Don't import —</option>
+                          {report.headers.map((header, index) => {
+                            const takenBy = usedColumns.get(index);
+                            return (
+                              <option key={index} value={index} disabled={Boolean(takenBy && takenBy !== field.key)}>
+                                {header || `Column ${index + 1}`}
+                              </option>
+                            );
+                          })}
+                        </select>
+                      </div>
+                    );
+                  })}
+                </div>
+                {unmappedRequired.length > 0 && (
+                  <p className="flex items-center gap-2 text-sm text-red-600">
+                    <AlertTriangle className="h-4 w-4" />
+                    Map a column for: {unmappedRequired.map((f) => f.label).join(", ")}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {(step === "review" || step === "done") && report && (
+              <div className="space-y-4">
+                <div className="flex flex-wrap gap-2 text-sm">
+                  {step === "review" ? (
+                    <span className="rounded-full bg-emerald-50 px-3 py-1 font-medium text-emerald-700">{report.summary.ready} ready</span>
+                  ) : (
+                    <span className="rounded-full bg-emerald-50 px-3 py-1 font-medium text-emerald-700">{report.summary.created} imported</span>
+                  )}
+                  <span className="rounded-full bg-gray-100 px-3 py-1 font-medium text-gray-600">{report.summary.skipped} skipped</span>
+                  <span className="rounded-full bg-red-50 px-3 py-1 font-medium text-red-700">{report.summary.errors} with errors</span>
+                  <label className="ml-auto flex items-center gap-2 text-gray-600">
+                    <input type="checkbox" checked={problemsOnly} onChange={(e) => setProblemsOnly(e.target.checked)} className="h-4 w-4 rounded border-gray-300" />
+                    Only rows that need attention
+                  </label>
+                </div>
+                {step === "review" && (
+                  <p className="text-sm text-gray-500">Nothing has been saved yet. Rows with errors are left out; fix them in the file and upload it again to import them.</p>
+                )}
+                <div className="max-h-[50vh] overflow-y-auto rounded-lg border border-gray-200">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="sticky top-0 bg-gray-50 text-left text-xs font-semibold uppercase tracking-wide text-gray-500">
+                      <tr>
+                        <th className="px-3 py-2">Row</th>
+                        <th className="px-3 py-2">Item</th>
+                        <th className="px-3 py-2">Status</th>
+                        <th className="px-3 py-2">Details</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {visibleRows.map((row) => (
+                        <tr key={row.row}>
+                          <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                          <td className="max-w-xs truncate px-3 py-2 text-gray-900" title={row.label}>
+                            {row.label}
+                          </td>
+                          <td className="px-3 py-2">
+                            <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[row.status].className}`}>
+                              {STATUS_STYLES[row.status].label}
+                            </span>
+                          </td>
+                          <td className="px-3 py-2 text-gray-600">{row.messages.join("; ")}</td>
+                        </tr>
+                      ))}
+                      {visibleRows.length === 0 && (
+                        <tr>
+                          <td colSpan={4} className="px-3 py-6 text-center text-gray-500">
+                            No rows to show.
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between gap-3 border-t border-gray-200 px-6 py-4">
+            <div>
+              {(step === "map" || step === "review") && (
+                <button type="button" onClick={step === "map" ? reset : () => setStep("map")} className="text-sm font-medium text-gray-600 hover:text-gray-900">
+                  {step === "map" ? "Choose another file" : "Back to mapping"}
+                </button>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <button type="button" onClick={handleClose} className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50">
+                {step === "done" ? "Close" : "Cancel"}
+              </button>
+              {step === "map" && (
+                <button
+                  type="button"
+                  disabled={busy || unmappedRequired.length > 0}
+                  onClick={() => void handleCheck()}
+                  className="inline-flex items-center gap-2 rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+                >
+                  {busy && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Check rows
+                </button>
+              )}
+              {step === "review" && report && (
+                <button
+                  type="button"
+                  disabled={busy || report.summary.ready === 0}
+                  onClick={() => void handleImport()}
+                  className="inline-flex items-center gap-2 rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+                >
+                  {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle2 className="h-4 w-4" />}
+                  Import {report.summary.ready} {entityLabel}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportWizard;
@@ -6,8 +6,9 @@ import Sidebar from "./Sidebar";
 import NotificationBell from "./NotificationBell";
 import AgencyOnboardingModal from "./AgencyOnboardingModal";
 import api from "@/lib/api";
+import { watchRealtime } from "@/lib/realtime";
 import { logout } from "@/store/slices/authSlice";
-import { CreditCard, AlertTriangle, LayoutDashboard, CheckSquare, Menu, ChevronLeft, LogOut, Settings, MessageSquare } from "lucide-react";
+import { CreditCard, AlertTriangle, LayoutDashboard, CheckSquare, Menu, ChevronLeft, LogOut, Settings, MessageSquare, FileCheck2 } from "lucide-react";
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -55,6 +56,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
   const [agencyMe, setAgencyMe] = useState<AgencyMe | null>(null);
   const [hasClientWebDesignProjects, setHasClientWebDesignProjects] = useState(false);
   const [clientInboxUnreadCount, setClientInboxUnreadCount] = useState(0);
+  const [clientPendingApprovals, setClientPendingApprovals] = useState(0);
   const { user } = useSelector((state: RootState) => state.auth);
   const brandName = user?.agencyBranding?.brandDisplayName || "SEO Dashboard";
   const brandColor = user?.agencyBranding?.primaryColor || "#4f46e5";
@@ -133,13 +135,37 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
       }
     };
     loadClientInboxUnread();
-    const intervalId = window.setInterval(loadClientInboxUnread, 5000);
+    const stopWatching = watchRealtime(["notification"], loadClientInboxUnread, { fallbackIntervalMs: 5000 });
     return () => {
       cancelled = true;
-      window.clearInterval(intervalId);
+      stopWatching();
     };
   }, [user?.role]);
 
+  useEffect(() => {
+    if (user?.role !== "USER") {
+      setClientPendingApprovals(0);
+      return;
+    }
+    let cancelled = false;
+    const loadPendingApprovals = () => {
+      api
+        .get("/tasks/approvals/inbox", { _silent: true } as any)
+        .then((res) => {
+          if (!cancelled) setClientPendingApprovals(Array.isArray(res.data) ? res.data.length : 0);
+        })
+        .catch(() => {
+          if (!cancelled) setClientPendingApprovals(0);
+        });
+    };
+    loadPendingApprovals();
+    window.addEventListener("approvals-changed", loadPendingApprovals);
+    return () => {
+      cancelled = true;
+      window.removeEventListener("approvals-changed", loadPendingApprovals);
+    };
+  }, [user?.role, location.pathname]);
+
   // Get page title based on current route
   const getPageTitle = () => {
     const path = location.pathname;
@@ -189,6 +215,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
     if (path.startsWith("/client/web-design")) return "Web Design";
     if (path === "/client/tasks") return "Tasks";
     if (path === "/client/inbox") return "Inbox";
+    if (path === "/client/approvals") return "Approvals";
     if (path === "/client/settings") return "Settings";
     if (path === "/client/report" || path.startsWith("/client/report/")) return "Report";
 
@@ -207,6 +234,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) => {
         ? [{ path: firstClientId ? `/client/web-design/${firstClientId}` : "/client/tasks", label: "Web Design", icon: LayoutDashboard, badge: 0 }]
         : []),
       { path: "/client/tasks", label: "Tasks", icon: CheckSquare, badge: 0 },
+      { path: "/client/approvals", label: "Approvals", icon: FileCheck2, badge: clientPendingApprovals },
       { path: "/client/inbox", label: "Inbox", icon: MessageSquare, badge: clientInboxUnreadCount },
       { path: "/client/settings", label: "Settings", icon: Settings, badge: 0 },
     ];
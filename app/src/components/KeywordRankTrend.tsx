@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { createPortal } from "react-dom";
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { format } from "date-fns";
+import { Loader2, TrendingDown, TrendingUp, X } from "lucide-react";
+import api from "@/lib/api";
+import type { KeywordRankSeriesPoint } from "@/hooks/useKeywordRankSeries";
+
+// Positions beyond the checked SERP depth are plotted at the bottom of the chart.
+const NOT_RANKING_PLOT_POSITION = 101;
+
+const parseDay = (value: string) => new Date(`${value}T00:00:00`);
+
+interface KeywordRankSparklineProps {
+  points: KeywordRankSeriesPoint[] | undefined;
+  width?: number;
+  height?: number;
+}
+
+/** Tiny rank trend for table rows. Lower is better, so the Y axis is reversed. */
+export const KeywordRankSparkline: React.FC<KeywordRankSparklineProps> = ({ points, width = 96, height = 28 }) => {
+  const data = useMemo(
+    () => (points || []).map((p) => ({ date: p.date, position: p.position ?? NOT_RANKING_PLOT_POSITION })),
+    [points]
+  );
+  if (data.length < 2) {
+    return <span className="text-xs text-gray-400" title="Not enough rank history yet">—</span>;
+  }
+  const first = data[0].position;
+  const last = data[data.length - 1].position;
+  const improved = last < first;
+  const stroke = last === first ? "#64748b" : improved ? "#059669" : "#e11d48";
+
+  return (
+    <div style={{ width, height }} title={`${data.length} days of rank history`}>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+          <YAxis hide reversed domain={[1, "dataMax"]} />
+          <Line type="monotone" dataKey="position" stroke={stroke} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+type KeywordRankHistoryResponse = {
+  keyword: string;
+  days: number;
+  history: Array<{
+    date: string;
+    position: number | null;
+    rankingUrl: string | null;
+    serpFeatures: string[];
+    locationName: string | null;
+  }>;
+};
+
+interface KeywordRankHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  clientId: string;
+  keywordId: string | null;
+  keywordText?: string | null;
+}
+
+const HISTORY_RANGES = [30, 90, 180, 365] as const;
+
+/** Full daily rank chart for one keyword (tracked or target keyword id). */
+export const KeywordRankHistoryModal: React.FC<KeywordRankHistoryModalProps> = ({
+  isOpen,
+  onClose,
+  clientId,
+  keywordId,
+  keywordText,
+}) => {
+  const [days, setDays] = useState<(typeof HISTORY_RANGES)[number]>(90);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [data, setData] = useState<KeywordRankHistoryResponse | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !clientId || !keywordId) return;
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await api.get(`/seo/keywords/${clientId}/${keywordId}/history`, { params: { days } });
+        if (!cancelled) setData(res.data);
+      } catch (err: any) {
+        if (!cancelled) {
+          setData(null);
+          setError(err?.response?.data?.message || "Unable to load rank history");
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, clientId, keywordId, days]);
+
+  const chartData = useMemo(
+    () =>
+      (data?.history || []).map((p) => ({
+        label: format(parseDay(p.date), "MMM d"),
+        position: p.position,
+        rankingUrl: p.rankingUrl,
+      })),
+    [data]
+  );
+
+  const summary = useMemo(() => {
+    const ranked = (data?.history || []).filter((p) => typeof p.position === "number") as Array<{ position: number }>;
+    if (ranked.length === 0) return null;
+    const first = ranked[0].position;
+    const last = ranked[ranked.length - 1].position;
+    const best = Math.min(...ranked.map((p) => p.position));
+    return { first, last, best, change: first - last };
+  }, [data]);
+
+  if (!isOpen) return null;
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={onClose} />
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative w-full max-w-3xl overflow-hidden rounded-2xl bg-white shadow-2xl">
+          <button onClick={onClose} className="absolute right-4 top-4 text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="h-5 w-5" />
+          </button>
+          <div className="px-6 pt-6 pb-3 border-b border-gray-100">
+            <h3 className="text-lg font-semibold text-gray-900">Rank history</h3>
+            <p className="text-sm text-gray-600">{data?.keyword || keywordText || ""}</p>
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              {HISTORY_RANGES.map((range) => (
+                <button
+                  key={range}
+                  type="button"
+                  onClick={() => setDays(range)}
+                  className={`rounded-lg px-3 py-1 text-xs font-semibold transition-colors ${
+                    days === range ? "bg-primary-600 text-white" : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                  }`}
+                >
+                  {range} days
+                </button>
+              ))}
+              {summary && (
+                <span className="ml-auto inline-flex items-center gap-3 text-xs text-gray-600">
+                  <span>Best: <span className="font-semibold text-gray-900">#{summary.best}</span></span>
+                  <span
+                    className={`inline-flex items-center gap-1 font-semibold ${
+                      summary.change > 0 ? "text-emerald-600" : summary.change < 0 ? "text-rose-600" : "text-gray-600"
+                    }`}
+                  >
+                    {summary.change > 0 ? <TrendingUp className="h-3.5 w-3.5" /> : summary.change < 0 ? <TrendingDown className="h-3.5 w-3.5" /> : null}
+                    {summary.change === 0 ? "No change" : `${Math.abs(summary.change)} positions`}
+                  </span>
+                </span>
+              )}
+            </div>
+          </div>
+          <div className="px-6 py-5">
+            {loading ? (
+              <div className="flex h-64 items-center justify-center text-sm text-gray-500">
+                <Loader2 className="h-5 w-5 animate-spin text-primary-600 mr-2" /> Loading rank history…
+              </div>
+            ) : error ? (
+              <div className="rounded-xl border-l-4 border-rose-500 bg-rose-50 px-4 py-3 text-sm text-rose-800">{error}</div>
+            ) : chartData.length === 0 ? (
+              <div className="flex h-64 items-center justify-center text-sm text-gray-500">
+                No rank history recorded in this period yet. History is captured on every rank refresh.
+              </div>
+            ) : (
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                    <XAxis dataKey="label" tick={{ fontSize: 11 }} minTickGap={20} />
+                    <YAxis reversed allowDecimals={false} domain={[1, "dataMax"]} tick={{ fontSize: 11 }} width={40} />
+                    <Tooltip
+                      formatter={(value: any) => (value == null ? ["Not ranking", "Position"] : [`#${value}`, "Position"])}
+                    />
+                    <Line type="monotone" dataKey="position" stroke="#2563eb" strokeWidth={2} dot={{ r: 2 }} connectNulls={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,304 @@
+import React, { useCallback, useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { format } from "date-fns";
+import { CheckCircle2, Clock, ExternalLink, Handshake, Loader2, Plus, Trash2, XCircle } from "lucide-react";
+import api from "@/lib/api";
+import InfoTooltip from "@/components/InfoTooltip";
+import ConfirmDialog from "@/components/ConfirmDialog";
+
+type Stage = "PROSPECT" | "CONTACTED" | "NEGOTIATING" | "LIVE";
+type VerificationStatus = "PENDING" | "VERIFIED" | "LOST" | "NOT_FOUND";
+
+type LinkProspect = {
+  id: string;
+  domain: string;
+  linkUrl: string | null;
+  targetUrl: string | null;
+  anchorText: string | null;
+  contactName: string | null;
+  contactEmail: string | null;
+  notes: string | null;
+  cost: string | number | null;
+  stage: Stage;
+  stageChangedAt: string;
+  wentLiveAt: string | null;
+  verificationStatus: VerificationStatus;
+  verifiedAt: string | null;
+  lastCheckedAt: string | null;
+  verifiedDomainRating: number | null;
+  verifiedIsFollow: boolean | null;
+};
+
+interface LinkBuildingPipelineProps {
+  clientId: string;
+  canManage: boolean;
+}
+
+const STAGES: { id: Stage; label: string }[] = [
+  { id: "PROSPECT", label: "Prospect" },
+  { id: "CONTACTED", label: "Contacted" },
+  { id: "NEGOTIATING", label: "Negotiating" },
+  { id: "LIVE", label: "Live" },
+];
+
+const emptyForm = { domain: "", linkUrl: "", targetUrl: "", contactEmail: "", notes: "" };
+
+const VerificationBadge: React.FC<{ prospect: LinkProspect }> = ({ prospect }) => {
+  const checked = prospect.lastCheckedAt ? ` (checked ${format(new Date(prospect.lastCheckedAt), "MMM d")})` : "";
+  switch (prospect.verificationStatus) {
+    case "VERIFIED":
+      return (
+        <span className="inline-flex items-center gap-1 text-xs font-medium text-emerald-700" title={`Found in the backlink sync${checked}`}>
+          <CheckCircle2 className="h-3.5 w-3.5" />
+          Verified
+          {prospect.verifiedDomainRating != null && <span className="text-gray-500">· DR {Math.round(prospect.verifiedDomainRating)}</span>}
+          {prospect.verifiedIsFollow === false && <span className="text-gray-500">· nofollow</span>}
+        </span>
+      );
+    case "LOST":
+      return (
+        <span className="inline-flex items-center gap-1 text-xs font-medium text-rose-600" title={`Reported as lost${checked}`}>
+          <XCircle className="h-3.5 w-3.5" />
+          Lost
+        </span>
+      );
+    case "NOT_FOUND":
+      return (
+        <span className="inline-flex items-center gap-1 text-xs font-medium text-amber-600" title={`Not in the latest backlink sync${checked}`}>
+          <XCircle className="h-3.5 w-3.5" />
+          Not found yet
+        </span>
+      );
+    default:
+      return (
+        <span className="inline-flex items-center gap-1 text-xs text-gray-500" title="Checked on the next backlink sync">
+          <Clock className="h-3.5 w-3.5" />
+          Awaiting next sync
+        </span>
+      );
+  }
+};
+
+/** Outreach pipeline for a client; links moved to Live are verified against each backlink sync. */
+const LinkBuildingPipeline: React.FC<LinkBuildingPipelineProps> = ({ clientId, canManage }) => {
+  const [prospects, setProspects] = useState<LinkProspect[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [removeTarget, setRemoveTarget] = useState<LinkProspect | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await api.get(`/seo/link-prospects/${clientId}`, { _silent: true } as any);
+      setProspects((res.data?.prospects ?? []) as LinkProspect[]);
+    } catch {
+      setProspects([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    setLoading(true);
+    void load();
+  }, [load]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.domain.trim() && !form.linkUrl.trim()) return;
+    setSaving(true);
+    try {
+      await api.post(`/seo/link-prospects/${clientId}`, {
+        domain: form.domain.trim() || undefined,
+        linkUrl: form.linkUrl.trim() || null,
+        targetUrl: form.targetUrl.trim() || null,
+        contactEmail: form.contactEmail.trim() || null,
+        notes: form.notes.trim() || null,
+      });
+      setForm(emptyForm);
+      setShowForm(false);
+      await load();
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStageChange = async (prospect: LinkProspect, stage: Stage) => {
+    setProspects((prev) => prev.map((p) => (p.id === prospect.id ? { ...p, stage } : p)));
+    try {
+      await api.patch(`/seo/link-prospects/${clientId}/${prospect.id}`, { stage });
+      if (stage === "LIVE") toast.success("Marked live. The link is verified on the next backlink sync.");
+      await load();
+    } catch {
+      await load();
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!removeTarget) return;
+    try {
+      await api.delete(`/seo/link-prospects/${clientId}/${removeTarget.id}`);
+      setRemoveTarget(null);
+      await load();
+    } catch {
+      // toast shown by api interceptor
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200">
+      <div className="flex items-center justify-between gap-3 border-b border-gray-200 p-4">
+        <h3 className="text-base font-semibold text-gray-900 inline-flex items-center gap-2">
+          <Handshake className="h-5 w-5 text-primary-600" />
+          Link Building
+          <InfoTooltip
+            content="Track outreach from prospect to live link. Live links are checked against every backlink sync and flagged when they can't be found or are lost."
+            iconClassName="h-4 w-4 text-gray-400 cursor-help"
+          />
+        </h3>
+        {canManage && (
+          <button
+            type="button"
+            onClick={() => setShowForm((v) => !v)}
+            className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            <Plus className="h-4 w-4" />
+            Add prospect
+          </button>
+        )}
+      </div>
+
+      {showForm && canManage && (
+        <form onSubmit={handleAdd} className="grid gap-3 border-b border-gray-200 p-4 sm:grid-cols-2">
+          {(
+            [
+              { key: "domain", label: "Domain", placeholder: "industryblog.com" },
+              { key: "linkUrl", label: "Linking page URL (optional)", placeholder: "https://industryblog.com/best-plumbers" },
+              { key: "targetUrl", label: "Link to (optional)", placeholder: "https://client.com/services" },
+              { key: "contactEmail", label: "Contact email (optional)", placeholder: "editor@industryblog.com" },
+            ] as const
+          ).map((field) => (
+            <label key={field.key} className="text-sm">
+              <span className="block text-xs font-medium text-gray-600 mb-1">{field.label}</span>
+              <input
+                value={form[field.key]}
+                onChange={(e) => setForm((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                placeholder={field.placeholder}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+            </label>
+          ))}
+          <label className="text-sm sm:col-span-2">
+            <span className="block text-xs font-medium text-gray-600 mb-1">Notes (optional)</span>
+            <textarea
+              value={form.notes}
+              onChange={(e) => setForm((prev) => ({ ...prev, notes: e.target.value }))}
+              rows={2}
+              className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+          </label>
+          <div className="flex justify-end gap-2 sm:col-span-2">
+            <button type="button" onClick={() => setShowForm(false)} className="rounded-lg px-3 py-2 text-sm text-gray-600 hover:bg-gray-50">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || (!form.domain.trim() && !form.linkUrl.trim())}
+              className="inline-flex items-center gap-2 rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+            >
+              {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+              Add prospect
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="m-4 h-32 rounded-lg bg-gray-100 animate-pulse" />
+      ) : (
+        <div className="grid gap-4 p-4 md:grid-cols-2 xl:grid-cols-4">
+          {STAGES.map((stage) => {
+            const items = prospects.filter((p) => p.stage === stage.id);
+            return (
+              <div key={stage.id} className="rounded-lg bg-gray-50 p-3">
+                <div className="mb-2 flex items-center justify-between text-xs font-semibold uppercase tracking-wide text-gray-500">
+                  <span>{stage.label}</span>
+                  <span>{items.length}</span>
+                </div>
+                <div className="space-y-2">
+                  {items.length === 0 && <p className="py-3 text-center text-xs text-gray-400">None</p>}
+                  {items.map((prospect) => (
+                    <div key={prospect.id} className="rounded-lg border border-gray-200 bg-white p-3 text-sm">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <div className="truncate font-medium text-gray-900">{prospect.domain}</div>
+                          {prospect.linkUrl && (
+                            <a
+                              href={prospect.linkUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex max-w-full items-center gap-1 text-xs text-primary-600 hover:underline"
+                            >
+                              <span className="truncate">{prospect.linkUrl}</span>
+                              <ExternalLink className="h-3 w-3 shrink-0" />
+                            </a>
+                          )}
+                        </div>
+                        {canManage && (
+                          <button
+                            type="button"
+                            onClick={() => setRemoveTarget(prospect)}
+                            className="p-1 rounded text-gray-400 hover:text-rose-600 hover:bg-rose-50"
+                            aria-label={`Remove ${prospect.domain}`}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </button>
+                        )}
+                      </div>
+                      {prospect.contactEmail && <div className="mt-1 truncate text-xs text-gray-500">{prospect.contactEmail}</div>}
+                      {prospect.notes && <p className="mt-1 line-clamp-2 text-xs text-gray-600">{prospect.notes}</p>}
+                      {prospect.stage === "LIVE" && (
+                        <div className="mt-2">
+                          <VerificationBadge prospect={prospect} />
+                        </div>
+                      )}
+                      {canManage && (
+                        <select
+                          value={prospect.stage}
+                          onChange={(e) => void handleStageChange(prospect, e.target.value as Stage)}
+                          className="mt-2 w-full rounded-md border border-gray-300 px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-primary-500"
+                          aria-label={`Stage for ${prospect.domain}`}
+                        >
+                          {STAGES.map((s) => (
+                            <option key={s.id} value={s.id}>
+                              {s.label}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={Boolean(removeTarget)}
+        onClose={() => setRemoveTarget(null)}
+        onConfirm={() => void handleRemove()}
+        title="Remove prospect"
+        message={`Remove ${removeTarget?.domain ?? "this prospect"} from the pipeline?`}
+        confirmText="Remove"
+        variant="danger"
+      />
+    </div>
+  );
+};
+
+export default LinkBuildingPipeline;
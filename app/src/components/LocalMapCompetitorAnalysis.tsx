@@ -0,0 +1,108 @@
+import React from "react";
+import { ArrowDown, ArrowUp, Minus } from "lucide-react";
+import InfoTooltip from "@/components/InfoTooltip";
+
+type CompetitorStats = {
+  name: string;
+  pointsFound: number;
+  averageRank: number | null;
+  top3Pct: number;
+  ataScore: number;
+};
+
+export type LocalMapCompetitorAnalysisData = {
+  totalPoints: number;
+  target: Omit<CompetitorStats, "name">;
+  competitors: Array<
+    CompetitorStats & {
+      previousAtaScore: number | null;
+      ataScoreChange: number | null;
+      previousTop3Pct: number | null;
+      top3PctChange: number | null;
+    }
+  >;
+};
+
+interface LocalMapCompetitorAnalysisProps {
+  analysis: LocalMapCompetitorAnalysisData;
+  businessName?: string | null;
+  className?: string;
+}
+
+/** Lower ATA is better, so a negative change is drawn as the competitor moving up. */
+const AtaChange: React.FC<{ value: number | null }> = ({ value }) => {
+  if (value == null) return <span className="text-xs font-semibold text-indigo-600">New</span>;
+  if (value === 0) return <Minus className="ml-auto h-3.5 w-3.5 text-gray-400" />;
+  const movedUp = value < 0;
+  return (
+    <span className={`inline-flex items-center gap-0.5 font-semibold ${movedUp ? "text-rose-600" : "text-emerald-600"}`}>
+      {movedUp ? <ArrowUp className="h-3.5 w-3.5" /> : <ArrowDown className="h-3.5 w-3.5" />}
+      {Math.abs(value).toFixed(2)}
+    </span>
+  );
+};
+
+const formatRank = (value: number | null) => (value == null ? "NR" : value.toFixed(1));
+
+/** Competitor share of voice for one grid run: average rank, top-3 coverage, ATA and movement since the previous run. */
+const LocalMapCompetitorAnalysis: React.FC<LocalMapCompetitorAnalysisProps> = ({ analysis, businessName, className = "" }) => {
+  const hasMovement = analysis.competitors.some((row) => row.previousAtaScore != null);
+
+  return (
+    <div className={`rounded-2xl border border-pink-100 bg-white p-5 shadow-sm ${className}`}>
+      <div className="mb-3 inline-flex items-center gap-1.5">
+        <p className="text-sm font-semibold text-gray-900">Competitor Share of Voice</p>
+        <InfoTooltip
+          content="How often each competing business shows up across the grid. ATA uses the same formula as yours (missing points count as 20), so lower is stronger. Movement compares against the previous run of this keyword."
+          className="inline-flex align-middle"
+          iconClassName="h-3.5 w-3.5 text-gray-400 cursor-help"
+        />
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs font-semibold uppercase tracking-wide text-gray-500">
+              <th className="py-2 pr-4">Business</th>
+              <th className="py-2 px-3 text-right">Avg. rank</th>
+              <th className="py-2 px-3 text-right">Top 3</th>
+              <th className="py-2 px-3 text-right">ATA</th>
+              {hasMovement && <th className="py-2 pl-3 text-right">Since last run</th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            <tr className="bg-emerald-50/70 font-semibold text-emerald-900">
+              <td className="py-2 pr-4">{businessName || "Your business"} (you)</td>
+              <td className="py-2 px-3 text-right tabular-nums">{formatRank(analysis.target.averageRank)}</td>
+              <td className="py-2 px-3 text-right tabular-nums">{analysis.target.top3Pct}%</td>
+              <td className="py-2 px-3 text-right tabular-nums">{analysis.target.ataScore.toFixed(2)}</td>
+              {hasMovement && <td className="py-2 pl-3" />}
+            </tr>
+            {analysis.competitors.map((row) => (
+              <tr key={row.name}>
+                <td className="py-2 pr-4 max-w-xs truncate text-gray-900" title={row.name}>
+                  {row.name}
+                  <span className="ml-2 text-xs text-gray-400">
+                    {row.pointsFound}/{analysis.totalPoints} points
+                  </span>
+                </td>
+                <td className="py-2 px-3 text-right tabular-nums">{formatRank(row.averageRank)}</td>
+                <td className="py-2 px-3 text-right tabular-nums">{row.top3Pct}%</td>
+                <td className="py-2 px-3 text-right tabular-nums">{row.ataScore.toFixed(2)}</td>
+                {hasMovement && (
+                  <td className="py-2 pl-3 text-right tabular-nums">
+                    <AtaChange value={row.ataScoreChange} />
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {analysis.competitors.length === 0 && (
+        <p className="py-4 text-center text-sm text-gray-500">No competitors were detected in this run.</p>
+      )}
+    </div>
+  );
+};
+
+export default LocalMapCompetitorAnalysis;
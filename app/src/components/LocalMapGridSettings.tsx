@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import api from "@/lib/api";
+import InfoTooltip from "@/components/InfoTooltip";
+import {
+  LOCAL_MAP_GRID_SHAPE_LABELS,
+  LOCAL_MAP_GRID_SIZES,
+  LOCAL_MAP_GRID_SPACING_MAX_MILES,
+  LOCAL_MAP_GRID_SPACING_MIN_MILES,
+  buildLocalMapGridRequest,
+  type LocalMapGridSettingsValue,
+  type LocalMapGridShape,
+} from "@/lib/localMapGrid";
+
+type GridPreview = { pointCount: number; creditCost: number };
+
+interface LocalMapGridSettingsProps {
+  value: LocalMapGridSettingsValue;
+  onChange: (value: LocalMapGridSettingsValue) => void;
+  /** Business location the grid is centered on; the preview waits until one is picked. */
+  center?: { lat: number; lng: number } | null;
+  /** On-demand snapshots are billed per point; tracked keywords only need the point count. */
+  showCreditCost?: boolean;
+  /** Most points a tracked (scheduled) keyword may use; larger grids are flagged before saving. */
+  trackedPointLimit?: number;
+  disabled?: boolean;
+}
+
+const PREVIEW_DEBOUNCE_MS = 500;
+
+/** Shape, size and spacing pickers for a local map grid, with a live point count (and credit cost) from the server. */
+const LocalMapGridSettings: React.FC<LocalMapGridSettingsProps> = ({
+  value,
+  onChange,
+  center,
+  showCreditCost = false,
+  trackedPointLimit,
+  disabled = false,
+}) => {
+  const [preview, setPreview] = useState<GridPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+
+  const centerLat = center?.lat;
+  const centerLng = center?.lng;
+  useEffect(() => {
+    if (centerLat == null || centerLng == null) {
+      setPreview(null);
+      setPreviewError(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      setPreviewLoading(true);
+      api
+        .post(
+          "/local-map/grid/preview",
+          { centerLat, centerLng, ...buildLocalMapGridRequest(value) },
+          { _silent: true } as any
+        )
+        .then((res) => {
+          if (cancelled) return;
+          setPreview({ pointCount: Number(res.data?.pointCount ?? 0), creditCost: Number(res.data?.creditCost ?? 1) });
+          setPreviewError(null);
+        })
+        .catch((error: any) => {
+          if (cancelled) return;
+          setPreview(null);
+          setPreviewError(error?.response?.data?.message || "Could not preview this grid");
+        })
+        .finally(() => {
+          if (!cancelled) setPreviewLoading(false);
+        });
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [centerLat, centerLng, value]);
+
+  const update = (patch: Partial<LocalMapGridSettingsValue>) => onChange({ ...value, ...patch });
+  const usesLattice = value.shape !== "zip";
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-gray-50/60 p-4">
+      <div className="mb-3 inline-flex items-center gap-1.5">
+        <p className="text-sm font-semibold text-gray-900">Grid</p>
+        <InfoTooltip content="Square and circle grids are centered on the business. Service-area grids keep only the points inside the outline; ZIP grids check one point per ZIP code. Larger grids use more snapshot credits (one per 49 points)." />
+      </div>
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Shape</label>
+          <select
+            value={value.shape}
+            onChange={(e) => update({ shape: e.target.value as LocalMapGridShape })}
+            disabled={disabled}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            {(Object.keys(LOCAL_MAP_GRID_SHAPE_LABELS) as LocalMapGridShape[]).map((shape) => (
+              <option key={shape} value={shape}>
+                {LOCAL_MAP_GRID_SHAPE_LABELS[shape]}
+              </option>
+            ))}
+          </select>
+        </div>
+        {usesLattice && value.shape !== "polygon" && (
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Size</label>
+            <select
+              value={value.gridSize}
+              onChange={(e) => update({ gridSize: Number(e.target.value) })}
+              disabled={disabled}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              {LOCAL_MAP_GRID_SIZES.map((size) => (
+                <option key={size} value={size}>
+                  {size} x {size}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        {usesLattice && (
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Spacing (miles)</label>
+            <input
+              type="number"
+              min={LOCAL_MAP_GRID_SPACING_MIN_MILES}
+              max={LOCAL_MAP_GRID_SPACING_MAX_MILES}
+              step={0.1}
+              value={value.gridSpacingMiles}
+              onChange={(e) => update({ gridSpacingMiles: Number(e.target.value) })}
+              disabled={disabled}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+          </div>
+        )}
+      </div>
+      {value.shape === "polygon" && (
+        <div className="mt-3">
+          <label className="block text-xs font-medium text-gray-700 mb-1">Service area outline</label>
+          <textarea
+            value={value.polygonText}
+            onChange={(e) => update({ polygonText: e.target.value })}
+            disabled={disabled}
+            rows={4}
+            placeholder={"30.3102, -97.7810\n30.3205, -97.6902\n30.2401, -97.6855\n30.2298, -97.7803"}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <p className="mt-1 text-xs text-gray-500">One "latitude, longitude" corner per line, at least three.</p>
+        </div>
+      )}
+      {value.shape === "zip" && (
+        <div className="mt-3">
+          <label className="block text-xs font-medium text-gray-700 mb-1">ZIP codes</label>
+          <textarea
+            value={value.zipText}
+            onChange={(e) => update({ zipText: e.target.value })}
+            disabled={disabled}
+            rows={3}
+            placeholder="78701, 78702, 78703"
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+        </div>
+      )}
+      <div className="mt-3 text-xs">
+        {!center ? (
+          <span className="text-gray-500">Select a business to preview the grid.</span>
+        ) : previewLoading ? (
+          <span className="inline-flex items-center gap-1.5 text-gray-500">
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            Checking grid...
+          </span>
+        ) : previewError ? (
+          <span className="text-rose-600">{previewError}</span>
+        ) : preview ? (
+          <span className="font-medium text-gray-700">
+            {preview.pointCount} points
+            {showCreditCost ? ` · ${preview.creditCost} snapshot credit${preview.creditCost === 1 ? "" : "s"} per run` : ""}
+            {trackedPointLimit != null && preview.pointCount > trackedPointLimit ? (
+              <span className="ml-1 text-rose-600">· tracked keywords are limited to {trackedPointLimit} points</span>
+            ) : null}
+          </span>
+        ) : null}
+      </div>
+    </div>
+  );
+};
+
+export default LocalMapGridSettings;
@@ -7,6 +7,14 @@ import { jsPDF } from "jspdf";
 import api from "@/lib/api";
 import GoogleBusinessSearch, { type GoogleBusinessSelection } from "@/components/GoogleBusinessSearch";
 import InfoTooltip from "@/components/InfoTooltip";
+import LocalMapCompetitorAnalysis, { type LocalMapCompetitorAnalysisData } from "@/components/LocalMapCompetitorAnalysis";
+import LocalMapGridSettings from "@/components/LocalMapGridSettings";
+import {
+  DEFAULT_LOCAL_MAP_GRID_SETTINGS,
+  buildLocalMapGridRequest,
+  getLocalMapGridCenterIndex,
+  type LocalMapGridSettingsValue,
+} from "@/lib/localMapGrid";
 
 type SnapshotSummary = {
   monthlyAllowance: number;
@@ -186,6 +194,7 @@ const LocalMapSnapshotRunner: React.FC<LocalMapSnapshotRunnerProps> = ({
 }) => {
   const [keyword, setKeyword] = useState("");
   const [business, setBusiness] = useState<GoogleBusinessSelection | null>(null);
+  const [gridSettings, setGridSettings] = useState<LocalMapGridSettingsValue>(DEFAULT_LOCAL_MAP_GRID_SETTINGS);
   const [running, setRunning] = useState(false);
   const [runProgressPct, setRunProgressPct] = useState(0);
   const [summaryLoading, setSummaryLoading] = useState(false);
@@ -193,6 +202,7 @@ const LocalMapSnapshotRunner: React.FC<LocalMapSnapshotRunnerProps> = ({
   const [gridData, setGridData] = useState<SnapshotPoint[]>([]);
   const [ataScore, setAtaScore] = useState<number | null>(null);
   const [topCompetitors, setTopCompetitors] = useState<string[]>([]);
+  const [competitorAnalysis, setCompetitorAnalysis] = useState<LocalMapCompetitorAnalysisData | null>(null);
   const [runError, setRunError] = useState<string | null>(null);
   const [snapshotModalOpen, setSnapshotModalOpen] = useState(false);
   const [selectedPointIndex, setSelectedPointIndex] = useState<number | null>(null);
@@ -204,15 +214,7 @@ const LocalMapSnapshotRunner: React.FC<LocalMapSnapshotRunnerProps> = ({
   const runProgressIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const pointSerpAttemptedRef = useRef<Set<number>>(new Set());
 
-  const gridRows = useMemo(() => {
-    if (gridData.length === 0) return [];
-    const rows: SnapshotPoint[][] = [];
-    const size = Math.sqrt(gridData.length) || 7;
-    for (let i = 0; i < gridData.length; i += size) {
-      rows.push(gridData.slice(i, i + size));
-    }
-    return rows;
-  }, [gridData]);
+  const centerPointIndex = useMemo(() => (gridData.length ? getLocalMapGridCenterIndex(gridData) : null), [gridData]);
 
   const mapCenter = useMemo(() => {
     if (gridData.length) {
@@ -466,6 +468,7 @@ const LocalMapSnapshotRunner: React.FC<LocalMapSnapshotRunnerProps> = ({
         centerLat: business.lat,
         centerLng: business.lng,
         superAdminMode,
+        ...buildLocalMapGridRequest(gridSettings),
       }, { timeout: 300000, _silent: true } as any);
       const rawGrid =
         res?.data?.gridData
@@ -505,7 +508,7 @@ const LocalMapSnapshotRunner: React.FC<LocalMapSnapshotRunnerProps> = ({
         : [];
       setGridData(points);
       if (points.length > 0) {
-        setSelectedPointIndex(Math.floor(points.length / 2));
+        setSelectedPointIndex(getLocalMapGridCenterIndex(points));
       } else {
         setSelectedPointIndex(null);
       }
@@ -521,6 +524,7 @@ const LocalMapSnapshotRunner: React.FC<LocalMapSnapshotRunnerProps> = ({
           ? res.data.topCompetitorsCurrent.slice(0, 3)
           : []
       );
+      setCompetitorAnalysis((res?.data?.competitorAnalysis as LocalMapCompetitorAnalysisData | undefined) ?? null);
 
       if (!points.length) {
         const message = "Snapshot completed but no grid points were returned.";
@@ -529,13 +533,15 @@ const LocalMapSnapshotRunner: React.FC<LocalMapSnapshotRunnerProps> = ({
       } else {
         setRunProgressPct(100);
         setSnapshotModalOpen(true);
-        toast.success("Snapshot complete");
+        const creditsUsed = Number(res?.data?.creditsUsed ?? 0);
+        toast.success(creditsUsed > 1 ? `Snapshot complete (${creditsUsed} credits used)` : "Snapshot complete");
       }
       await loadSummary();
     } catch (error: any) {
       const message = error?.response?.data?.message || "Failed to run snapshot";
       setRunError(message);
       setTopCompetitors([]);
+      setCompetitorAnalysis(null);
       toast.error(message);
     } finally {
       if (runProgressIntervalRef.current) {
@@ -898,6 +904,13 @@ const LocalMapSnapshotRunner: React.FC<LocalMapSnapshotRunnerProps> = ({
             value={business}
             onSelect={setBusiness}
           />
+          <LocalMapGridSettings
+            value={gridSettings}
+            onChange={setGridSettings}
+            center={business}
+            showCreditCost={!superAdminMode}
+            disabled={running}
+          />
           <div className="flex flex-wrap items-center gap-2">
             <button
               type="button"
@@ -935,7 +948,7 @@ const LocalMapSnapshotRunner: React.FC<LocalMapSnapshotRunnerProps> = ({
         </div>
       ) : null}
 
-      {snapshotModalOpen && gridRows.length > 0 && (
+      {snapshotModalOpen && gridData.length > 0 && (
         <div
           className="fixed inset-0 z-[120] bg-black/60 backdrop-blur-sm p-4"
           onClick={() => setSnapshotModalOpen(false)}
@@ -1006,7 +1019,7 @@ const LocalMapSnapshotRunner: React.FC<LocalMapSnapshotRunnerProps> = ({
                   <div className="mb-4 flex items-start justify-between gap-4">
                     <div>
                       <p className="text-sm font-semibold text-gray-900">Local Rank Grid</p>
-                      <p className="text-xs text-gray-600">Styled 7x7-style heat view for prospect snapshots.</p>
+                      <p className="text-xs text-gray-600">Heat view of every grid point checked in this snapshot.</p>
                     </div>
                     <div className={`flex items-center gap-2 ${exportingPdf ? "text-xs" : "text-[11px]"} text-gray-700`}>
                       {legendChipSvg("1-3", "#047857", "#ecfdf5", "#a7f3d0")}
@@ -1056,7 +1069,7 @@ const LocalMapSnapshotRunner: React.FC<LocalMapSnapshotRunnerProps> = ({
                         }}
                       />
                       {mapProjectedPoints.map((point) => {
-                        const isCenter = Math.abs(point.leftPct - 50) < 0.6 && Math.abs(point.topPct - 50) < 0.6;
+                        const isCenter = point.pointIndex === centerPointIndex;
                         const isSelected = selectedPointIndex === point.pointIndex;
                         const inFrame = point.leftPct >= -8 && point.leftPct <= 108 && point.topPct >= -8 && point.topPct <= 108;
                         if (!inFrame) return null;
@@ -1203,6 +1216,14 @@ const LocalMapSnapshotRunner: React.FC<LocalMapSnapshotRunnerProps> = ({
                   )}
                 </div>
               </div>
+
+              {competitorAnalysis ? (
+                <LocalMapCompetitorAnalysis
+                  analysis={competitorAnalysis}
+                  businessName={business?.businessName}
+                  className="local-map-snapshot-pdf-section"
+                />
+              ) : null}
             </div>
           </div>
         </div>
@@ -1,10 +1,11 @@
 import React, { useEffect, useState, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { useSelector } from "react-redux";
-import { Bell, Loader2, AlertCircle, Building2, CreditCard, TrendingUp, TrendingDown, CheckCircle2, UserPlus, XCircle, Zap, CheckCheck, MessageSquare } from "lucide-react";
+import { Bell, Loader2, AlertCircle, Building2, CreditCard, TrendingUp, TrendingDown, CheckCircle2, UserPlus, XCircle, Zap, CheckCheck, MessageSquare, Trophy } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { createPortal } from "react-dom";
 import api from "@/lib/api";
+import { watchRealtime } from "@/lib/realtime";
 import { RootState } from "@/store";
 
 interface NotificationItem {
@@ -80,7 +81,7 @@ const NotificationBell: React.FC = () => {
       const res = await api.get<NotificationsResponse>(notificationsUrl, { _silent: true } as any);
       setData(res.data);
     } catch {
-      // Silently ignore - polling will retry in 5s
+      // Silently ignore - refetched on the next push event or fallback poll
     } finally {
       setLoading(false);
     }
@@ -101,8 +102,7 @@ const NotificationBell: React.FC = () => {
 
   useEffect(() => {
     fetchNotifications();
-    const interval = setInterval(fetchNotifications, 5 * 1000);
-    return () => clearInterval(interval);
+    return watchRealtime(["notification"], fetchNotifications, { fallbackIntervalMs: 5 * 1000 });
   }, [notificationsUrl]);
 
   useEffect(() => {
@@ -265,6 +265,8 @@ const NotificationBell: React.FC = () => {
         return <Zap className="h-4 w-4 text-emerald-500" />;
       case "subscription_canceled":
         return <XCircle className="h-4 w-4 text-red-500" />;
+      case "campaign_win":
+        return <Trophy className="h-4 w-4 text-amber-500" />;
       default:
         return <Building2 className="h-4 w-4 text-primary-500" />;
     }
@@ -0,0 +1,166 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { useDispatch } from "react-redux";
+import toast from "react-hot-toast";
+import { Loader2 } from "lucide-react";
+import api from "@/lib/api";
+import { checkAuth, type NotificationChannel, type NotificationPreferences } from "@/store/slices/authSlice";
+
+type EventOption = { id: string; label: string; description: string };
+type ChannelOption = { id: NotificationChannel; label: string };
+
+/** Event × channel matrix (in-app, email, daily digest, webhook) plus the personal webhook URL. Used in Settings → Notifications. */
+const NotificationRoutingSettings: React.FC = () => {
+  const dispatch = useDispatch();
+  const [loading, setLoading] = useState(true);
+  const [events, setEvents] = useState<EventOption[]>([]);
+  const [channels, setChannels] = useState<ChannelOption[]>([]);
+  const [prefs, setPrefs] = useState<NotificationPreferences | null>(null);
+  const [savingCell, setSavingCell] = useState<string | null>(null);
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [savingWebhook, setSavingWebhook] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await api.get("/auth/me/notification-settings");
+      const next = res.data?.notificationPreferences as NotificationPreferences | undefined;
+      setEvents(Array.isArray(res.data?.events) ? res.data.events : []);
+      setChannels(Array.isArray(res.data?.channels) ? res.data.channels : []);
+      setPrefs(next ?? null);
+      setWebhookUrl(next?.webhookUrl ?? "");
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const toggleCell = async (eventId: string, channel: NotificationChannel) => {
+    if (!prefs) return;
+    const value = !prefs.routing[eventId]?.[channel];
+    const previous = prefs;
+    setPrefs({ ...prefs, routing: { ...prefs.routing, [eventId]: { ...prefs.routing[eventId], [channel]: value } } });
+    setSavingCell(`${eventId}:${channel}`);
+    try {
+      const res = await api.patch("/auth/me/notification-settings", { routing: { [eventId]: { [channel]: value } } });
+      if (res.data?.notificationPreferences) setPrefs(res.data.notificationPreferences);
+      dispatch(checkAuth() as any);
+    } catch {
+      setPrefs(previous);
+    } finally {
+      setSavingCell(null);
+    }
+  };
+
+  const saveWebhookUrl = async () => {
+    setSavingWebhook(true);
+    try {
+      const res = await api.patch("/auth/me/notification-settings", { webhookUrl: webhookUrl.trim() });
+      if (res.data?.notificationPreferences) setPrefs(res.data.notificationPreferences);
+      toast.success(webhookUrl.trim() ? "Webhook URL saved" : "Webhook URL removed");
+      dispatch(checkAuth() as any);
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setSavingWebhook(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading notification routing…
+      </div>
+    );
+  }
+  if (!prefs) return null;
+
+  const webhookChannelUsed = events.some((event) => prefs.routing[event.id]?.webhook);
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto rounded-lg border border-gray-200">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left font-medium text-gray-700">Event</th>
+              {channels.map((channel) => (
+                <th key={channel.id} className="px-4 py-3 text-center font-medium text-gray-700 whitespace-nowrap">
+                  {channel.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 bg-white">
+            {events.map((event) => (
+              <tr key={event.id}>
+                <td className="px-4 py-3">
+                  <p className="font-medium text-gray-900">{event.label}</p>
+                  <p className="text-xs text-gray-500">{event.description}</p>
+                </td>
+                {channels.map((channel) => {
+                  const cell = `${event.id}:${channel.id}`;
+                  return (
+                    <td key={channel.id} className="px-4 py-3 text-center">
+                      <input
+                        type="checkbox"
+                        aria-label={`${event.label}: ${channel.label}`}
+                        checked={Boolean(prefs.routing[event.id]?.[channel.id])}
+                        disabled={savingCell === cell}
+                        onChange={() => void toggleCell(event.id, channel.id)}
+                        className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500 disabled:opacity-50"
+                      />
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500">
+        The daily digest collects everything routed to it into one email a day.
+      </p>
+
+      <div className="rounded-lg bg-gray-50 p-4 space-y-2">
+        <label className="block text-sm font-medium text-gray-900">Webhook URL</label>
+        <p className="text-xs text-gray-500">
+          Events routed to the webhook column are POSTed here as JSON, e.g. to a Slack incoming webhook or a Zapier hook.
+        </p>
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <input
+            type="url"
+            value={webhookUrl}
+            onChange={(e) => setWebhookUrl(e.target.value)}
+            placeholder="https://hooks.slack.com/services/..."
+            className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <button
+            type="button"
+            onClick={() => void saveWebhookUrl()}
+            disabled={savingWebhook || webhookUrl.trim() === (prefs.webhookUrl ?? "")}
+            className="inline-flex items-center justify-center gap-2 rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+          >
+            {savingWebhook && <Loader2 className="h-4 w-4 animate-spin" />}
+            Save
+          </button>
+        </div>
+        {prefs.webhookUrl && prefs.webhookSecret && (
+          <p className="text-xs text-gray-500">
+            Each request is signed with this secret in the X-Webhook-Signature header, like agency webhooks:{" "}
+            <code className="rounded bg-white px-1 py-0.5 font-mono text-gray-700 break-all">{prefs.webhookSecret}</code>
+          </p>
+        )}
+        {webhookChannelUsed && !prefs.webhookUrl && (
+          <p className="text-xs text-amber-700">Some events are routed to the webhook, but no URL is set yet.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NotificationRoutingSettings;
@@ -20,9 +20,20 @@ interface OnboardingTask {
   estimatedHours: number | null;
   dueDate: string | null;
   dueDaysAfterStart?: number | null;
+  /** JSON array of the `order` values of earlier tasks this one waits on */
+  blockedByOrders?: string | null;
   order: number;
 }
 
+const parseBlockedByOrders = (task: OnboardingTask): number[] => {
+  try {
+    const parsed = JSON.parse(task.blockedByOrders || "[]");
+    return Array.isArray(parsed) ? parsed.map(Number).filter((order) => order < task.order) : [];
+  } catch {
+    return [];
+  }
+};
+
 interface Client {
   id: string;
   name: string;
@@ -303,6 +314,9 @@ const OnboardingTemplateModal: React.FC<OnboardingTemplateModalProps> = ({
         assigneeId: selectedTemplateSpecialist || null,
         estimatedHours: templateTask.estimatedHours ?? undefined,
         priority: templateTask.priority ?? undefined,
+        // Template order doubles as the batch ref so "blocked by" links carry over to the created tasks
+        ref: `template-${templateTask.order}`,
+        blockedByRefs: parseBlockedByOrders(templateTask).map((order) => `template-${order}`),
       }));
 
       const deliverablesTasks = autoGenerateDeliverables ? buildMonthlyDeliverablesTasks() : [];
@@ -690,6 +704,16 @@ const OnboardingTemplateModal: React.FC<OnboardingTemplateModalProps> = ({
                                 <span>{task.estimatedHours}h</span>
                               </span>
                             )}
+                            {parseBlockedByOrders(task).length > 0 && (
+                              <span className="px-2 py-1 bg-amber-50 border border-amber-200 text-amber-700 rounded">
+                                Blocked by{" "}
+                                {parseBlockedByOrders(task)
+                                  .map((order) => selectedTemplate.tasks.findIndex((t) => t.order === order))
+                                  .filter((position) => position >= 0)
+                                  .map((position) => `#${position + 1}`)
+                                  .join(", ")}
+                              </span>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -0,0 +1,293 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import { format } from "date-fns";
+import { Loader2, RefreshCw, Search } from "lucide-react";
+import api from "@/lib/api";
+import ConfirmDialog from "@/components/ConfirmDialog";
+
+type SearchConsoleStatus = {
+  connected: boolean;
+  hasTokens: boolean;
+  siteUrl: string | null;
+  accountEmail: string | null;
+  connectedAt: string | null;
+  lastSyncedAt: string | null;
+};
+
+type SearchConsoleSite = { siteUrl: string; permissionLevel: string };
+
+interface SearchConsoleIntegrationProps {
+  clientId: string;
+  brandColor?: string;
+  borderColor?: string;
+  /** Called after connect, sync or disconnect so dashboard widgets can reload. */
+  onChange?: () => void;
+}
+
+const isBackendMessage = (event: MessageEvent) => {
+  try {
+    const backendOrigin = new URL(import.meta.env.VITE_API_URL || "http://localhost:5000").origin;
+    return event.origin === window.location.origin || event.origin === backendOrigin;
+  } catch {
+    return event.origin === window.location.origin;
+  }
+};
+
+/** Integration tab card: connect Search Console via OAuth popup, pick a property, sync or disconnect. */
+const SearchConsoleIntegration: React.FC<SearchConsoleIntegrationProps> = ({ clientId, brandColor, borderColor, onChange }) => {
+  const [status, setStatus] = useState<SearchConsoleStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<"connect" | "sites" | "save" | "sync" | "disconnect" | null>(null);
+  const [sites, setSites] = useState<SearchConsoleSite[] | null>(null);
+  const [selectedSite, setSelectedSite] = useState("");
+  const [confirmDisconnect, setConfirmDisconnect] = useState(false);
+  const listenerRef = useRef<((event: MessageEvent) => void) | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const res = await api.get(`/clients/${encodeURIComponent(clientId)}/gsc/status`);
+      setStatus(res.data as SearchConsoleStatus);
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  const loadSites = useCallback(async () => {
+    setBusy("sites");
+    try {
+      const res = await api.get(`/clients/${encodeURIComponent(clientId)}/gsc/sites`);
+      const list = (res.data?.sites || []) as SearchConsoleSite[];
+      setSites(list);
+      setSelectedSite((current) => current || list[0]?.siteUrl || "");
+      if (list.length === 0) toast.error("No Search Console properties found for this Google account.");
+    } catch {
+      // toast shown by api interceptor; an empty list stops the auto-load below from retrying
+      setSites([]);
+    } finally {
+      setBusy(null);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    setLoading(true);
+    setSites(null);
+    loadStatus();
+  }, [loadStatus]);
+
+  // OAuth tokens stored but no property picked yet (e.g. page reloaded after the popup): offer the picker.
+  useEffect(() => {
+    if (status && status.hasTokens && !status.connected && sites === null && busy === null) {
+      loadSites();
+    }
+  }, [status, sites, busy, loadSites]);
+
+  useEffect(
+    () => () => {
+      if (listenerRef.current) window.removeEventListener("message", listenerRef.current);
+    },
+    []
+  );
+
+  const handleConnect = async () => {
+    setBusy("connect");
+    try {
+      const res = await api.get(`/clients/${encodeURIComponent(clientId)}/gsc/auth-url`, { params: { popup: "true" } });
+      const authUrl = res.data?.authUrl;
+      if (!authUrl) return;
+      const width = 500;
+      const height = 600;
+      const left = (window.screen.width - width) / 2;
+      const top = (window.screen.height - height) / 2;
+      const popup = window.open(
+        authUrl,
+        "gsc-oauth",
+        `width=${width},height=${height},left=${left},top=${top},toolbar=no,menubar=no,scrollbars=yes,resizable=yes`
+      );
+      if (!popup) {
+        toast.error("Please allow popups to connect Search Console");
+        setBusy(null);
+        return;
+      }
+
+      if (listenerRef.current) window.removeEventListener("message", listenerRef.current);
+      const listener = (event: MessageEvent) => {
+        if (!isBackendMessage(event)) return;
+        if (event.data?.type === "GSC_OAUTH_SUCCESS") {
+          window.removeEventListener("message", listener);
+          listenerRef.current = null;
+          setBusy(null);
+          toast.success("Authorized! Choose the Search Console property for this client.");
+          setSites(null);
+          loadStatus();
+        } else if (event.data?.type === "GSC_OAUTH_ERROR") {
+          window.removeEventListener("message", listener);
+          listenerRef.current = null;
+          setBusy(null);
+          toast.error(`Search Console connection failed: ${event.data.error || "Unknown error"}`);
+        }
+      };
+      listenerRef.current = listener;
+      window.addEventListener("message", listener);
+      // The popup can't be polled for closing (COOP), so just release the button after a while.
+      window.setTimeout(() => setBusy((current) => (current === "connect" ? null : current)), 5 * 60 * 1000);
+    } catch {
+      setBusy(null);
+    }
+  };
+
+  const handleSaveSite = async () => {
+    if (!selectedSite) return;
+    setBusy("save");
+    try {
+      await api.post(`/clients/${encodeURIComponent(clientId)}/gsc/connect`, { siteUrl: selectedSite });
+      toast.success("Search Console connected. Importing the last 90 days of data…");
+      setSites(null);
+      await loadStatus();
+      onChange?.();
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSync = async () => {
+    setBusy("sync");
+    try {
+      const res = await api.post(`/clients/${encodeURIComponent(clientId)}/gsc/sync`);
+      toast.success(`Search Console synced (${res.data?.days ?? 0} day(s) updated)`);
+      await loadStatus();
+      onChange?.();
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    setConfirmDisconnect(false);
+    setBusy("disconnect");
+    try {
+      await api.post(`/clients/${encodeURIComponent(clientId)}/gsc/disconnect`);
+      toast.success("Search Console disconnected");
+      setSites(null);
+      setSelectedSite("");
+      await loadStatus();
+      onChange?.();
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="bg-white border rounded-xl p-6" style={{ borderColor }}>
+      <h3 className="text-lg font-semibold text-gray-900 mb-2 flex items-center gap-2">
+        <Search className="h-5 w-5 text-primary-600" />
+        Google Search Console
+      </h3>
+      {loading ? (
+        <div className="h-20 bg-gray-50 rounded-lg animate-pulse" />
+      ) : status?.connected ? (
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <p className="text-sm font-medium text-emerald-800">Search Console is connected</p>
+            <p className="text-xs text-gray-500 mt-1">Property: {status.siteUrl}</p>
+            {status.accountEmail && <p className="text-xs text-gray-500">Account: {status.accountEmail}</p>}
+            <p className="text-xs text-gray-500">
+              {status.lastSyncedAt ? `Last synced ${format(new Date(status.lastSyncedAt), "MMM d, yyyy h:mm a")}` : "Initial import in progress…"}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleSync}
+              disabled={busy !== null}
+              className="inline-flex items-center gap-1.5 bg-white border border-gray-300 text-gray-700 px-3 py-1.5 rounded-lg text-sm hover:bg-gray-50 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              <RefreshCw className={`h-4 w-4 ${busy === "sync" ? "animate-spin" : ""}`} />
+              {busy === "sync" ? "Syncing..." : "Sync now"}
+            </button>
+            <button
+              onClick={() => setConfirmDisconnect(true)}
+              disabled={busy !== null}
+              className="bg-white border border-red-300 text-red-700 px-3 py-1.5 rounded-lg text-sm hover:bg-red-50 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {busy === "disconnect" ? "Disconnecting..." : "Disconnect"}
+            </button>
+          </div>
+        </div>
+      ) : status?.hasTokens ? (
+        <div>
+          <p className="text-sm text-gray-600 mb-3">Choose the Search Console property that belongs to this client.</p>
+          {busy === "sites" || sites === null ? (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading properties...
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={selectedSite}
+                onChange={(e) => setSelectedSite(e.target.value)}
+                className="min-w-[16rem] rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                {sites.length === 0 && <option value="">No properties available</option>}
+                {sites.map((site) => (
+                  <option key={site.siteUrl} value={site.siteUrl}>
+                    {site.siteUrl.startsWith("sc-domain:") ? `${site.siteUrl.slice(10)} (domain)` : site.siteUrl}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleSaveSite}
+                disabled={!selectedSite || busy !== null}
+                className="text-white px-4 py-2 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed"
+                style={{ backgroundColor: brandColor }}
+              >
+                {busy === "save" && <Loader2 className="h-4 w-4 animate-spin" />}
+                Connect property
+              </button>
+              <button
+                onClick={() => setConfirmDisconnect(true)}
+                disabled={busy !== null}
+                className="text-sm text-gray-500 hover:text-gray-700 px-2"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div>
+          <p className="text-sm text-gray-600 mb-3">
+            Connect Search Console to show real clicks, impressions and search queries next to the DataForSEO estimates.
+          </p>
+          <button
+            onClick={handleConnect}
+            disabled={busy !== null}
+            className="text-white px-4 py-2 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed"
+            style={{ backgroundColor: brandColor }}
+          >
+            {busy === "connect" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            {busy === "connect" ? "Connecting..." : "Connect Search Console"}
+          </button>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={confirmDisconnect}
+        onClose={() => setConfirmDisconnect(false)}
+        onConfirm={handleDisconnect}
+        title="Disconnect Search Console"
+        message="Stored Search Console data for this client will be deleted. Reports fall back to DataForSEO estimates."
+        confirmText="Disconnect"
+      />
+    </div>
+  );
+};
+
+export default SearchConsoleIntegration;
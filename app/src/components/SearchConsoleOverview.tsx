@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Loader2, MousePointerClick, Eye, Percent, Hash, Search } from "lucide-react";
+import api from "@/lib/api";
+import InfoTooltip from "@/components/InfoTooltip";
+
+export type SearchConsoleRow = {
+  key: string;
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+};
+
+export type SearchConsolePerformance = {
+  connected: boolean;
+  siteUrl: string | null;
+  lastSyncedAt: string | null;
+  startDate: string;
+  endDate: string;
+  totals: { clicks: number; impressions: number; ctr: number; position: number | null };
+  trend: Array<{ date: string; clicks: number; impressions: number; ctr: number; position: number | null }>;
+  topQueries: SearchConsoleRow[];
+  topPages: SearchConsoleRow[];
+};
+
+const RANGE_OPTIONS = [7, 28, 90] as const;
+
+const parseDay = (value: string) => new Date(`${value}T00:00:00`);
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const formatPosition = (value: number | null | undefined) => (value == null ? "—" : value.toFixed(1));
+
+interface SearchConsoleOverviewProps {
+  clientId?: string | null;
+  /** DataForSEO estimates shown next to the real Search Console figures. */
+  estimatedOrganicTraffic?: number | null;
+  estimatedAverageRank?: number | null;
+  refreshKey?: number;
+  className?: string;
+}
+
+/** Real clicks, impressions, queries and pages from Google Search Console. Renders nothing until GSC is connected. */
+const SearchConsoleOverview: React.FC<SearchConsoleOverviewProps> = ({
+  clientId,
+  estimatedOrganicTraffic,
+  estimatedAverageRank,
+  refreshKey,
+  className = "",
+}) => {
+  const [days, setDays] = useState<(typeof RANGE_OPTIONS)[number]>(28);
+  const [data, setData] = useState<SearchConsolePerformance | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [tab, setTab] = useState<"queries" | "pages">("queries");
+
+  useEffect(() => {
+    if (!clientId) return;
+    let cancelled = false;
+    setLoading(true);
+    api
+      .get(`/clients/${encodeURIComponent(clientId)}/gsc/performance`, { params: { days }, _silent: true } as any)
+      .then((res) => {
+        if (!cancelled) setData(res.data as SearchConsolePerformance);
+      })
+      .catch(() => {
+        if (!cancelled) setData(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [clientId, days, refreshKey]);
+
+  if (!data?.connected) return null;
+
+  const rows = tab === "queries" ? data.topQueries : data.topPages;
+  const cards = [
+    {
+      label: "Clicks",
+      value: data.totals.clicks.toLocaleString(),
+      estimate: estimatedOrganicTraffic != null ? `DataForSEO est. ${Math.round(estimatedOrganicTraffic).toLocaleString()}/mo` : null,
+      icon: MousePointerClick,
+    },
+    { label: "Impressions", value: data.totals.impressions.toLocaleString(), estimate: null, icon: Eye },
+    { label: "Avg. CTR", value: formatPercent(data.totals.ctr), estimate: null, icon: Percent },
+    {
+      label: "Avg. Position",
+      value: formatPosition(data.totals.position),
+      estimate: estimatedAverageRank != null ? `DataForSEO avg. rank ${estimatedAverageRank.toFixed(1)}` : null,
+      icon: Hash,
+    },
+  ];
+
+  return (
+    <div className={`rounded-xl border-l-4 border-emerald-500 bg-white p-4 shadow-sm ring-1 ring-gray-200/80 ${className}`}>
+      <div className="flex flex-wrap items-start justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-emerald-900 inline-flex items-center gap-1.5">
+            Google Search Console
+            <InfoTooltip
+              content="Real clicks and impressions from Google Search, straight from Search Console. DataForSEO figures are modelled estimates, so the two rarely match exactly."
+              iconClassName="h-4 w-4 text-emerald-600 cursor-help"
+            />
+          </h3>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {data.siteUrl} · {format(parseDay(data.startDate), "MMM d")} – {format(parseDay(data.endDate), "MMM d, yyyy")}
+            {data.lastSyncedAt ? ` · synced ${format(new Date(data.lastSyncedAt), "MMM d, h:mm a")}` : ""}
+          </p>
+        </div>
+        <div className="inline-flex rounded-lg border border-gray-200 p-0.5 text-xs">
+          {RANGE_OPTIONS.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setDays(option)}
+              className={`px-2.5 py-1 rounded-md ${days === option ? "bg-emerald-600 text-white" : "text-gray-600 hover:bg-gray-50"}`}
+            >
+              {option}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading && data.trend.length === 0 ? (
+        <div className="flex items-center justify-center h-40 text-gray-500">
+          <Loader2 className="h-5 w-5 animate-spin" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+            {cards.map((card) => (
+              <div key={card.label} className="rounded-lg border border-emerald-100 bg-emerald-50/50 p-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-xs font-semibold text-emerald-900">{card.label}</p>
+                  <card.icon className="h-4 w-4 text-emerald-600" />
+                </div>
+                <p className="text-xl font-bold text-gray-900 mt-1">{card.value}</p>
+                {card.estimate && <p className="text-[11px] text-gray-500 mt-0.5">{card.estimate}</p>}
+              </div>
+            ))}
+          </div>
+
+          {data.trend.length > 1 && (
+            <div className="h-48 mt-4">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={data.trend} margin={{ top: 5, right: 10, bottom: 0, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="date" tickFormatter={(d) => format(parseDay(d), "MMM d")} tick={{ fontSize: 11 }} minTickGap={24} />
+                  <YAxis yAxisId="clicks" tick={{ fontSize: 11 }} width={40} />
+                  <YAxis yAxisId="impressions" orientation="right" tick={{ fontSize: 11 }} width={48} />
+                  <Tooltip
+                    labelFormatter={(d) => format(parseDay(String(d)), "MMM d, yyyy")}
+                    formatter={(value: number | undefined, name: string | undefined) => [Number(value ?? 0).toLocaleString(), name ?? ""]}
+                  />
+                  <Line yAxisId="clicks" type="monotone" dataKey="clicks" name="Clicks" stroke="#059669" strokeWidth={2} dot={false} />
+                  <Line yAxisId="impressions" type="monotone" dataKey="impressions" name="Impressions" stroke="#6366f1" strokeWidth={1.5} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          <div className="mt-4">
+            <div className="flex items-center gap-4 border-b border-gray-200 text-sm">
+              {(["queries", "pages"] as const).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setTab(value)}
+                  className={`-mb-px border-b-2 px-1 pb-2 font-medium ${tab === value ? "border-emerald-600 text-emerald-700" : "border-transparent text-gray-500 hover:text-gray-700"}`}
+                >
+                  {value === "queries" ? "Top queries" : "Top pages"}
+                </button>
+              ))}
+            </div>
+            {rows.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-8 text-sm text-gray-500">
+                <Search className="h-5 w-5 mb-2 text-gray-400" />
+                No Search Console data for this period yet.
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs font-semibold uppercase tracking-wide text-gray-500">
+                      <th className="py-2 pr-4">{tab === "queries" ? "Query" : "Page"}</th>
+                      <th className="py-2 px-3 text-right">Clicks</th>
+                      <th className="py-2 px-3 text-right">Impressions</th>
+                      <th className="py-2 px-3 text-right">CTR</th>
+                      <th className="py-2 pl-3 text-right">Position</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {rows.map((row) => (
+                      <tr key={row.key}>
+                        <td className="py-2 pr-4 max-w-md truncate text-gray-900" title={row.key}>
+                          {tab === "pages" ? (
+                            <a href={row.key} target="_blank" rel="noopener noreferrer" className="text-primary-600 hover:underline">
+                              {row.key}
+                            </a>
+                          ) : (
+                            row.key
+                          )}
+                        </td>
+                        <td className="py-2 px-3 text-right tabular-nums">{row.clicks.toLocaleString()}</td>
+                        <td className="py-2 px-3 text-right tabular-nums">{row.impressions.toLocaleString()}</td>
+                        <td className="py-2 px-3 text-right tabular-nums">{formatPercent(row.ctr)}</td>
+                        <td className="py-2 pl-3 text-right tabular-nums">{formatPosition(row.position)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SearchConsoleOverview;
@@ -0,0 +1,162 @@
+import React, { useCallback, useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { Loader2, LogOut, Monitor, Smartphone } from "lucide-react";
+import api from "@/lib/api";
+import ConfirmDialog from "@/components/ConfirmDialog";
+
+interface UserSessionRow {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+  impersonatedBy: string | null;
+}
+
+const isMobileDevice = (device: string) => /iOS|Android/.test(device);
+
+const formatLastActive = (value: string) => {
+  const diffMs = Date.now() - new Date(value).getTime();
+  if (diffMs < 5 * 60 * 1000) return "Active now";
+  if (diffMs < 60 * 60 * 1000) return `Active ${Math.floor(diffMs / 60000)} min ago`;
+  if (diffMs < 24 * 60 * 60 * 1000) return `Active ${Math.floor(diffMs / 3600000)} h ago`;
+  return `Last active ${new Date(value).toLocaleDateString()}`;
+};
+
+/** "Where you're signed in": the user's active sessions with per-device sign-out. Used in Settings → Security. */
+const SessionsManager: React.FC = () => {
+  const [sessions, setSessions] = useState<UserSessionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [confirmOthersOpen, setConfirmOthersOpen] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await api.get("/auth/sessions");
+      setSessions(Array.isArray(res.data) ? res.data : []);
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const revokeSession = async (id: string) => {
+    setBusyId(id);
+    try {
+      await api.delete(`/auth/sessions/${encodeURIComponent(id)}`);
+      setSessions((prev) => prev.filter((s) => s.id !== id));
+      toast.success("Device signed out");
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const revokeOtherSessions = async () => {
+    setBusyId("others");
+    try {
+      const res = await api.post("/auth/sessions/revoke-others");
+      const revoked = Number(res.data?.revoked ?? 0);
+      setSessions((prev) => prev.filter((s) => s.current));
+      toast.success(revoked === 1 ? "Signed out of 1 other device" : `Signed out of ${revoked} other devices`);
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const otherCount = sessions.filter((s) => !s.current).length;
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium text-gray-900">Where you're signed in</p>
+          <p className="text-sm text-gray-500">Sign out devices you don't recognize or no longer use.</p>
+        </div>
+        {otherCount > 0 && (
+          <button
+            type="button"
+            onClick={() => setConfirmOthersOpen(true)}
+            disabled={busyId !== null}
+            className="inline-flex items-center gap-2 shrink-0 px-3 py-2 text-sm text-red-700 border border-red-200 rounded-lg bg-white hover:bg-red-50 disabled:opacity-50"
+          >
+            {busyId === "others" ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogOut className="h-4 w-4" />}
+            Sign out other devices
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 animate-spin" /> Loading sessions...
+        </div>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">No active sessions.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200 bg-white">
+          {sessions.map((session) => {
+            const DeviceIcon = isMobileDevice(session.device) ? Smartphone : Monitor;
+            return (
+              <li key={session.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                <div className="flex items-start gap-3 min-w-0">
+                  <DeviceIcon className="h-5 w-5 text-gray-400 mt-0.5 shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {session.device}
+                      {session.current && (
+                        <span className="ml-2 rounded-full bg-emerald-50 px-2 py-0.5 text-xs font-medium text-emerald-700">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate" title={session.userAgent || undefined}>
+                      {[session.ipAddress, formatLastActive(session.lastUsedAt)].filter(Boolean).join(" · ")}
+                      {` · Signed in ${new Date(session.createdAt).toLocaleDateString()}`}
+                    </p>
+                    {session.impersonatedBy && (
+                      <p className="text-xs text-amber-700">Opened by {session.impersonatedBy} via "Login as user"</p>
+                    )}
+                  </div>
+                </div>
+                {!session.current && (
+                  <button
+                    type="button"
+                    onClick={() => revokeSession(session.id)}
+                    disabled={busyId !== null}
+                    className="inline-flex items-center gap-2 shrink-0 px-3 py-1.5 text-sm border border-gray-300 rounded-lg bg-white hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {busyId === session.id && <Loader2 className="h-4 w-4 animate-spin" />}
+                    Sign out
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <ConfirmDialog
+        isOpen={confirmOthersOpen}
+        onClose={() => setConfirmOthersOpen(false)}
+        onConfirm={revokeOtherSessions}
+        title="Sign out other devices?"
+        message="Every other browser and device signed in to your account will need to sign in again. This device stays signed in."
+        confirmText="Sign out others"
+        cancelText="Cancel"
+        variant="danger"
+      />
+    </div>
+  );
+};
+
+export default SessionsManager;
@@ -5,6 +5,7 @@ import { RootState } from "../store";
 import { logout } from "../store/slices/authSlice";
 import logoUrl from "@/assets/zoesi-white.png";
 import api from "@/lib/api";
+import { watchRealtime } from "@/lib/realtime";
 import {
   BarChart3,
   Home,
@@ -29,6 +30,8 @@ import {
   MapPin,
   PenTool,
   MessageSquare,
+  Timer,
+  ScrollText,
   type LucideIcon,
 } from "lucide-react";
 
@@ -116,10 +119,10 @@ const Sidebar: React.FC<SidebarProps> = ({ collapsed, onToggle }) => {
       }
     };
     loadUnread();
-    const intervalId = window.setInterval(loadUnread, 5000);
+    const stopWatching = watchRealtime(["notification"], loadUnread, { fallbackIntervalMs: 5000 });
     return () => {
       cancelled = true;
-      window.clearInterval(intervalId);
+      stopWatching();
     };
   }, [user?.role]);
 
@@ -180,6 +183,13 @@ const Sidebar: React.FC<SidebarProps> = ({ collapsed, onToggle }) => {
       hasSubMenu: false,
       roles: ["SUPER_ADMIN"],
     },
+    {
+      icon: Timer,
+      label: "Background Jobs",
+      path: "/superadmin/jobs",
+      hasSubMenu: false,
+      roles: ["SUPER_ADMIN"],
+    },
     {
       icon: Building2,
       label: "Agencies",
@@ -320,6 +330,13 @@ const Sidebar: React.FC<SidebarProps> = ({ collapsed, onToggle }) => {
       hasSubMenu: false,
       roles: ["AGENCY", "ADMIN", "SUPER_ADMIN"],
     },
+    {
+      icon: ScrollText,
+      label: "Audit Log",
+      path: "/agency/audit-log",
+      hasSubMenu: false,
+      roles: ["AGENCY", "ADMIN", "SUPER_ADMIN"],
+    },
     {
       icon: Settings,
       label: "Settings",
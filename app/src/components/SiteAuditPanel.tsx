@@ -0,0 +1,365 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import { format } from "date-fns";
+import { CheckCircle2, ChevronDown, ChevronRight, ExternalLink, ListPlus, Loader2, Play, ScanSearch } from "lucide-react";
+import api from "@/lib/api";
+import InfoTooltip from "@/components/InfoTooltip";
+
+type AuditStatus = "QUEUED" | "RUNNING" | "COMPLETED" | "FAILED";
+type Severity = "error" | "warning" | "notice";
+
+type IssueCounts = { error: number; warning: number; notice: number; new: number; fixed: number };
+
+type AuditSummary = {
+  id: string;
+  createdAt: string;
+  status: AuditStatus;
+  startUrl: string;
+  pageLimit: number;
+  completedAt: string | null;
+  pagesCrawled: number;
+  truncated: boolean;
+  blockedByRobots: number;
+  healthScore: number | null;
+  issueCounts: IssueCounts | null;
+  error: string | null;
+};
+
+type AuditIssue = {
+  id: string;
+  code: string;
+  severity: Severity;
+  url: string;
+  target: string | null;
+  detail: string | null;
+  isNew: boolean;
+  taskId: string | null;
+};
+
+type IssueGroup = { code: string; label: string; severity: Severity; fix: string | null; count: number; issues: AuditIssue[] };
+
+type AuditDetail = { audit: AuditSummary; groups: IssueGroup[]; fixed: IssueGroup[] };
+
+interface SiteAuditPanelProps {
+  clientId: string;
+  /** Start audits and create tasks (hidden for client portal users and shared reports). */
+  canManage: boolean;
+}
+
+const SEVERITY_BADGE: Record<Severity, string> = {
+  error: "bg-rose-50 text-rose-700 border-rose-200",
+  warning: "bg-amber-50 text-amber-700 border-amber-200",
+  notice: "bg-sky-50 text-sky-700 border-sky-200",
+};
+
+const scoreClass = (score: number | null) =>
+  score == null ? "text-gray-400" : score >= 90 ? "text-emerald-600" : score >= 70 ? "text-amber-600" : "text-rose-600";
+
+const isPending = (audit: AuditSummary | undefined) => audit?.status === "QUEUED" || audit?.status === "RUNNING";
+
+/** Technical site audit: latest crawl's health score, issues by type (new vs the previous crawl), fixes, and issue-to-task. */
+const SiteAuditPanel: React.FC<SiteAuditPanelProps> = ({ clientId, canManage }) => {
+  const [audits, setAudits] = useState<AuditSummary[]>([]);
+  const [pageLimit, setPageLimit] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<AuditDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [creatingFor, setCreatingFor] = useState<string | null>(null);
+  const [showFixed, setShowFixed] = useState(false);
+
+  const loadAudits = useCallback(async () => {
+    try {
+      const res = await api.get(`/seo/site-audits/${clientId}`, { _silent: true } as any);
+      const list = (res.data?.audits ?? []) as AuditSummary[];
+      setAudits(list);
+      setPageLimit(Number(res.data?.pageLimit) || 0);
+      setSelectedId((current) =>
+        current && list.some((a) => a.id === current) ? current : list.find((a) => a.status === "COMPLETED")?.id ?? null
+      );
+    } catch {
+      setAudits([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  const loadDetail = useCallback(async () => {
+    if (!selectedId) {
+      setDetail(null);
+      return;
+    }
+    try {
+      const res = await api.get(`/seo/site-audits/${clientId}/${selectedId}`, { _silent: true } as any);
+      setDetail(res.data as AuditDetail);
+    } catch {
+      setDetail(null);
+    }
+  }, [clientId, selectedId]);
+
+  useEffect(() => {
+    setLoading(true);
+    void loadAudits();
+  }, [loadAudits]);
+
+  useEffect(() => {
+    void loadDetail();
+  }, [loadDetail]);
+
+  // Poll while a crawl is queued or running, then show the finished audit.
+  const latest = audits[0];
+  const pending = isPending(latest);
+  useEffect(() => {
+    if (!pending) return;
+    const timer = window.setInterval(() => void loadAudits(), 5000);
+    return () => window.clearInterval(timer);
+  }, [pending, loadAudits]);
+
+  const previousStatus = useRef<AuditStatus | undefined>(undefined);
+  useEffect(() => {
+    const wasPending = previousStatus.current === "QUEUED" || previousStatus.current === "RUNNING";
+    previousStatus.current = latest?.status;
+    if (!wasPending || !latest) return;
+    if (latest.status === "COMPLETED") {
+      toast.success("Site audit finished");
+      setSelectedId(latest.id);
+    } else if (latest.status === "FAILED") {
+      toast.error(latest.error || "Site audit failed");
+    }
+  }, [latest]);
+
+  const handleStart = async () => {
+    setStarting(true);
+    try {
+      await api.post(`/seo/site-audits/${clientId}`);
+      toast.success("Site audit started");
+      await loadAudits();
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleCreateTask = async (group: IssueGroup) => {
+    if (!detail) return;
+    setCreatingFor(group.code);
+    try {
+      const res = await api.post(`/seo/site-audits/${clientId}/${detail.audit.id}/tasks`, { code: group.code });
+      toast.success(`Task created for ${res.data?.issueCount ?? group.count} issue(s)`);
+      await loadDetail();
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setCreatingFor(null);
+    }
+  };
+
+  const audit = detail?.audit;
+  const counts = audit?.issueCounts;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-3">
+          <div className="flex items-center justify-center w-10 h-10 rounded-lg bg-primary-50 text-primary-600">
+            <ScanSearch className="h-5 w-5" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 inline-flex items-center gap-1.5">
+              Site Audit
+              <InfoTooltip
+                content={`Crawls the client's website (respecting robots.txt, up to ${pageLimit.toLocaleString()} pages on this plan) and checks status codes, redirects, broken links, titles, meta descriptions, canonicals, H1s and image alt text.`}
+                iconClassName="h-4 w-4 text-gray-400 cursor-help"
+              />
+            </h2>
+            <p className="text-sm text-gray-500 mt-0.5">
+              {pending
+                ? latest?.status === "QUEUED"
+                  ? "Audit queued…"
+                  : "Crawling the site…"
+                : audit?.completedAt
+                  ? `Last crawled ${format(new Date(audit.completedAt), "MMM d, yyyy h:mm a")}`
+                  : "No audit yet."}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {audits.some((a) => a.status === "COMPLETED") && (
+            <select
+              value={selectedId ?? ""}
+              onChange={(e) => setSelectedId(e.target.value || null)}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              {audits
+                .filter((a) => a.status === "COMPLETED")
+                .map((a) => (
+                  <option key={a.id} value={a.id}>
+                    {format(new Date(a.completedAt || a.createdAt), "MMM d, yyyy")} · score {a.healthScore ?? "—"}
+                  </option>
+                ))}
+            </select>
+          )}
+          {canManage && (
+            <button
+              type="button"
+              onClick={() => void handleStart()}
+              disabled={starting || pending || pageLimit <= 0}
+              className="inline-flex items-center gap-2 rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+            >
+              {starting || pending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+              {pending ? "Audit running" : "Run audit"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {latest?.status === "FAILED" && (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-700">
+          The last audit failed{latest.error ? `: ${latest.error}` : "."}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="h-40 rounded-xl bg-gray-100 animate-pulse" />
+      ) : !detail || !audit ? (
+        <div className="bg-white border border-gray-200 rounded-xl p-8 text-center text-sm text-gray-500">
+          {pending
+            ? "The first audit is in progress. Results appear here when the crawl finishes."
+            : `No site audit has been run yet.${canManage ? " Run one to check the site for technical SEO issues." : ""}`}
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-3 xl:grid-cols-6">
+            <div className="bg-white rounded-xl border border-gray-200 p-4">
+              <p className="text-xs font-medium text-gray-500">Health score</p>
+              <p className={`mt-1 text-3xl font-semibold ${scoreClass(audit.healthScore)}`}>{audit.healthScore ?? "—"}</p>
+            </div>
+            <div className="bg-white rounded-xl border border-gray-200 p-4">
+              <p className="text-xs font-medium text-gray-500">Pages crawled</p>
+              <p className="mt-1 text-2xl font-semibold text-gray-900">{audit.pagesCrawled.toLocaleString()}</p>
+              {audit.truncated && <p className="text-xs text-amber-600">Page cap of {audit.pageLimit.toLocaleString()} reached</p>}
+              {audit.blockedByRobots > 0 && <p className="text-xs text-gray-500">{audit.blockedByRobots} blocked by robots.txt</p>}
+            </div>
+            <div className="bg-white rounded-xl border border-gray-200 p-4">
+              <p className="text-xs font-medium text-gray-500">Errors</p>
+              <p className="mt-1 text-2xl font-semibold text-rose-600">{counts?.error ?? 0}</p>
+            </div>
+            <div className="bg-white rounded-xl border border-gray-200 p-4">
+              <p className="text-xs font-medium text-gray-500">Warnings</p>
+              <p className="mt-1 text-2xl font-semibold text-amber-600">{counts?.warning ?? 0}</p>
+            </div>
+            <div className="bg-white rounded-xl border border-gray-200 p-4">
+              <p className="text-xs font-medium text-gray-500">New since last crawl</p>
+              <p className="mt-1 text-2xl font-semibold text-gray-900">{counts?.new ?? 0}</p>
+            </div>
+            <div className="bg-white rounded-xl border border-gray-200 p-4">
+              <p className="text-xs font-medium text-gray-500">Fixed since last crawl</p>
+              <p className="mt-1 text-2xl font-semibold text-emerald-600">{counts?.fixed ?? 0}</p>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100">
+            {detail.groups.length === 0 ? (
+              <div className="p-8 text-center text-sm text-gray-500">No issues found on the crawled pages.</div>
+            ) : (
+              detail.groups.map((group) => {
+                const open = Boolean(expanded[group.code]);
+                const openIssues = group.issues.filter((i) => !i.taskId).length;
+                const newIssues = group.issues.filter((i) => i.isNew).length;
+                return (
+                  <div key={group.code}>
+                    <div className="flex flex-col gap-2 px-4 py-3 sm:flex-row sm:items-center sm:justify-between">
+                      <button
+                        type="button"
+                        onClick={() => setExpanded((prev) => ({ ...prev, [group.code]: !open }))}
+                        className="flex flex-1 items-center gap-2 text-left"
+                      >
+                        {open ? <ChevronDown className="h-4 w-4 text-gray-400" /> : <ChevronRight className="h-4 w-4 text-gray-400" />}
+                        <span className={`rounded border px-1.5 py-0.5 text-[11px] font-medium capitalize ${SEVERITY_BADGE[group.severity]}`}>
+                          {group.severity}
+                        </span>
+                        <span className="text-sm font-medium text-gray-900">{group.label}</span>
+                        <span className="text-sm text-gray-500">({group.count})</span>
+                        {newIssues > 0 && <span className="text-xs font-medium text-primary-600">{newIssues} new</span>}
+                      </button>
+                      {canManage &&
+                        (openIssues > 0 ? (
+                          <button
+                            type="button"
+                            onClick={() => void handleCreateTask(group)}
+                            disabled={creatingFor !== null}
+                            className="inline-flex items-center gap-1.5 rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            {creatingFor === group.code ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <ListPlus className="h-3.5 w-3.5" />}
+                            Create task
+                          </button>
+                        ) : (
+                          <span className="inline-flex items-center gap-1 text-xs text-emerald-600">
+                            <CheckCircle2 className="h-3.5 w-3.5" />
+                            Task created
+                          </span>
+                        ))}
+                    </div>
+                    {open && (
+                      <div className="px-4 pb-3">
+                        {group.fix && <p className="mb-2 text-xs text-gray-500">{group.fix}</p>}
+                        <ul className="space-y-1">
+                          {group.issues.slice(0, 100).map((issue) => (
+                            <li key={issue.id} className="flex items-start gap-2 text-xs">
+                              <a
+                                href={issue.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="inline-flex min-w-0 items-center gap-1 text-primary-600 hover:underline"
+                              >
+                                <span className="truncate">{issue.url}</span>
+                                <ExternalLink className="h-3 w-3 shrink-0" />
+                              </a>
+                              {issue.detail && <span className="min-w-0 truncate text-gray-500">{issue.detail}</span>}
+                              {issue.isNew && <span className="shrink-0 rounded bg-primary-50 px-1 text-[10px] font-medium text-primary-700">New</span>}
+                              {issue.taskId && <span className="shrink-0 rounded bg-emerald-50 px-1 text-[10px] font-medium text-emerald-700">Task</span>}
+                            </li>
+                          ))}
+                          {group.issues.length > 100 && <li className="text-xs text-gray-400">…and {group.issues.length - 100} more</li>}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          {detail.fixed.length > 0 && (
+            <div className="bg-white rounded-xl border border-gray-200">
+              <button
+                type="button"
+                onClick={() => setShowFixed((v) => !v)}
+                className="flex w-full items-center gap-2 px-4 py-3 text-left text-sm font-medium text-gray-900"
+              >
+                {showFixed ? <ChevronDown className="h-4 w-4 text-gray-400" /> : <ChevronRight className="h-4 w-4 text-gray-400" />}
+                <CheckCircle2 className="h-4 w-4 text-emerald-600" />
+                Fixed since the previous crawl ({detail.fixed.reduce((sum, g) => sum + g.count, 0)})
+              </button>
+              {showFixed && (
+                <ul className="space-y-1 px-4 pb-3">
+                  {detail.fixed.flatMap((group) =>
+                    group.issues.slice(0, 50).map((issue) => (
+                      <li key={issue.id} className="text-xs text-gray-600">
+                        <span className="font-medium text-gray-800">{group.label}</span> · <span className="break-all">{issue.url}</span>
+                      </li>
+                    ))
+                  )}
+                </ul>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SiteAuditPanel;
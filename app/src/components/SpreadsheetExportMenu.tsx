@@ -0,0 +1,87 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ChevronDown, Download, Loader2 } from "lucide-react";
+import toast from "react-hot-toast";
+import api from "@/lib/api";
+
+type ExportFormat = "csv" | "xlsx";
+
+interface SpreadsheetExportMenuProps {
+  /** GET endpoint accepting ?format=csv|xlsx. */
+  path: string;
+  /** Download name (date and extension are appended) when the server's filename is not readable. */
+  filenameBase: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+const filenameFromDisposition = (header: unknown): string | null => {
+  const match = typeof header === "string" ? /filename="?([^";]+)"?/i.exec(header) : null;
+  return match ? match[1] : null;
+};
+
+/** "Export" button with CSV / Excel choices that downloads the server-generated file. */
+const SpreadsheetExportMenu: React.FC<SpreadsheetExportMenuProps> = ({ path, filenameBase, disabled, className }) => {
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const onMouseDown = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", onMouseDown);
+    return () => document.removeEventListener("mousedown", onMouseDown);
+  }, [open]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false);
+    setExporting(true);
+    try {
+      const res = await api.get(path, { params: { format }, responseType: "blob" });
+      const url = window.URL.createObjectURL(new Blob([res.data]));
+      const a = document.createElement("a");
+      a.href = url;
+      a.download =
+        filenameFromDisposition(res.headers?.["content-disposition"]) || `${filenameBase}-${new Date().toISOString().slice(0, 10)}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      window.URL.revokeObjectURL(url);
+    } catch {
+      toast.error("Export failed. Please try again.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        type="button"
+        disabled={disabled || exporting}
+        onClick={() => setOpen((v) => !v)}
+        className={
+          className ||
+          "inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        }
+      >
+        {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+        Export
+        <ChevronDown className="h-3.5 w-3.5" />
+      </button>
+      {open && (
+        <div className="absolute right-0 z-20 mt-1 w-40 overflow-hidden rounded-lg border border-gray-200 bg-white py-1 shadow-lg">
+          <button type="button" onClick={() => void handleExport("csv")} className="block w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50">
+            CSV (.csv)
+          </button>
+          <button type="button" onClick={() => void handleExport("xlsx")} className="block w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50">
+            Excel (.xlsx)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpreadsheetExportMenu;
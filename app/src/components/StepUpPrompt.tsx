@@ -0,0 +1,129 @@
+import React, { useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { useSelector } from "react-redux";
+import { ShieldCheck, X } from "lucide-react";
+import api from "@/lib/api";
+import { registerStepUpHandler, storeStepUpToken } from "@/lib/stepUp";
+import { RootState } from "@/store";
+
+/**
+ * Re-authentication modal shown when the API asks for step-up (impersonation, billing changes).
+ * Mounted once in App; the api interceptor opens it through registerStepUpHandler.
+ */
+const StepUpPrompt: React.FC = () => {
+  const { user } = useSelector((state: RootState) => state.auth);
+  const [isOpen, setIsOpen] = useState(false);
+  const [value, setValue] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const resolverRef = useRef<((token: string | null) => void) | null>(null);
+
+  const usesCode = Boolean(user?.twoFactor?.enabled);
+
+  useEffect(
+    () =>
+      registerStepUpHandler(
+        () =>
+          new Promise<string | null>((resolve) => {
+            resolverRef.current = resolve;
+            setValue("");
+            setError(null);
+            setIsOpen(true);
+          })
+      ),
+    []
+  );
+
+  const finish = (token: string | null) => {
+    setIsOpen(false);
+    resolverRef.current?.(token);
+    resolverRef.current = null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!value.trim()) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await api.post(
+        "/auth/step-up",
+        usesCode ? { code: value.trim() } : { password: value },
+        { _silent: true } as any
+      );
+      storeStepUpToken(res.data.stepUpToken, res.data.expiresAt);
+      finish(res.data.stepUpToken);
+    } catch (err: any) {
+      setError(err?.response?.data?.message || "Verification failed");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return createPortal(
+    <div className="fixed inset-0 z-[60] overflow-y-auto">
+      <div className="fixed inset-0 bg-black bg-opacity-50 transition-opacity" onClick={() => finish(null)} />
+      <div className="flex min-h-full items-center justify-center p-4">
+        <form
+          onSubmit={handleSubmit}
+          className="relative transform overflow-hidden rounded-2xl bg-white shadow-2xl transition-all sm:my-8 sm:w-full sm:max-w-md"
+        >
+          <button
+            type="button"
+            onClick={() => finish(null)}
+            className="absolute right-4 top-4 text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+          <div className="px-6 pt-6 pb-4">
+            <div className="flex items-start">
+              <div className="flex-shrink-0 bg-primary-100 rounded-full p-3">
+                <ShieldCheck className="h-6 w-6 text-primary-600" />
+              </div>
+              <div className="ml-4 flex-1">
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Confirm it's you</h3>
+                <p className="text-sm text-gray-600 leading-relaxed">
+                  {usesCode
+                    ? "Enter the 6-digit code from your authenticator app (or a recovery code) to continue."
+                    : "Enter your password to continue."}
+                </p>
+                <input
+                  autoFocus
+                  type={usesCode ? "text" : "password"}
+                  inputMode={usesCode ? "numeric" : undefined}
+                  autoComplete={usesCode ? "one-time-code" : "current-password"}
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  className="mt-4 w-full px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm focus:ring-2 focus:ring-offset-0 focus:ring-primary-500 focus:border-transparent"
+                  placeholder={usesCode ? "123456" : "Password"}
+                />
+                {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+              </div>
+            </div>
+          </div>
+          <div className="bg-gray-50 px-6 py-4 flex items-center justify-end space-x-3 rounded-b-2xl">
+            <button
+              type="button"
+              onClick={() => finish(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting || !value.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-lg transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {submitting ? "Verifying..." : "Continue"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default StepUpPrompt;
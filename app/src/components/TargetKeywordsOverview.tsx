@@ -5,6 +5,8 @@ import api from "@/lib/api";
 import toast from "react-hot-toast";
 import { useSelector } from "react-redux";
 import { RootState } from "@/store";
+import { KeywordRankHistoryModal, KeywordRankSparkline } from "@/components/KeywordRankTrend";
+import { normalizeKeywordKey, useKeywordRankSeries } from "@/hooks/useKeywordRankSeries";
 
 interface TargetKeyword {
   id: string;
@@ -93,6 +95,9 @@ const TargetKeywordsOverview: React.FC<TargetKeywordsOverviewProps> = ({
   const [editPositionValue, setEditPositionValue] = useState<string>("");
   const [starredKeywordIds, setStarredKeywordIds] = useState<Set<string>>(new Set());
   const [activeTypeTab, setActiveTypeTab] = useState<"money" | "topical">("money");
+  const [historyKeyword, setHistoryKeyword] = useState<{ id: string; keyword: string } | null>(null);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const rankSeries = useKeywordRankSeries(clientId, { shareToken, refreshKey: refreshKey + historyRefreshKey });
   const abortRef = useRef<AbortController | null>(null);
 
   const starredStorageKey = useMemo(() => {
@@ -206,6 +211,7 @@ const TargetKeywordsOverview: React.FC<TargetKeywordsOverviewProps> = ({
       await api.post(`/seo/target-keywords/${clientId}/refresh`, {}, { timeout: 120000 });
       toast.success("Target keywords refreshed successfully!");
       await fetchKeywords();
+      setHistoryRefreshKey((k) => k + 1);
     } catch (error: any) {
       toast.error(error.response?.data?.message || "Failed to refresh target keywords");
     } finally {
@@ -506,6 +512,9 @@ const TargetKeywordsOverview: React.FC<TargetKeywordsOverviewProps> = ({
                     <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider">
                       Google Change
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider">
+                      90-Day Trend
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider">
                       Google SERP Features
                     </th>
@@ -535,9 +544,18 @@ const TargetKeywordsOverview: React.FC<TargetKeywordsOverviewProps> = ({
                               fill={isStarred ? "currentColor" : "none"}
                             />
                           </button>
-                          <span className="text-sm font-medium text-gray-900 underline cursor-pointer hover:text-primary-600">
-                            {keyword.keyword}
-                          </span>
+                          {isReadOnly ? (
+                            <span className="text-sm font-medium text-gray-900">{keyword.keyword}</span>
+                          ) : (
+                            <button
+                              type="button"
+                              onClick={() => setHistoryKeyword({ id: keyword.id, keyword: keyword.keyword })}
+                              className="text-sm font-medium text-gray-900 underline cursor-pointer hover:text-primary-600"
+                              title="View rank history"
+                            >
+                              {keyword.keyword}
+                            </button>
+                          )}
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
@@ -643,6 +661,9 @@ const TargetKeywordsOverview: React.FC<TargetKeywordsOverviewProps> = ({
                           );
                         })()}
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <KeywordRankSparkline points={rankSeries[normalizeKeywordKey(keyword.keyword)]} />
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="flex items-center gap-1">
                           {getSERPFeaturesIcons(
@@ -679,6 +700,15 @@ const TargetKeywordsOverview: React.FC<TargetKeywordsOverviewProps> = ({
           </div>
         )}
       </div>
+      {!isReadOnly && (
+        <KeywordRankHistoryModal
+          isOpen={Boolean(historyKeyword)}
+          onClose={() => setHistoryKeyword(null)}
+          clientId={clientId}
+          keywordId={historyKeyword?.id ?? null}
+          keywordText={historyKeyword?.keyword}
+        />
+      )}
     </div>
   );
 };
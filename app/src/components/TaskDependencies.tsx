@@ -0,0 +1,204 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Link2, Loader2, Lock, Plus, X } from "lucide-react";
+import api from "@/lib/api";
+import { getStatusBadge } from "@/utils";
+import type { Task, TaskDependencyRef } from "@/utils/types";
+
+type DependenciesResponse = {
+  blockedBy: TaskDependencyRef[];
+  blocking: TaskDependencyRef[];
+  isBlocked: boolean;
+};
+
+interface TaskDependenciesProps {
+  taskId: string;
+  /** Candidate blockers are limited to the same client's tasks when set. */
+  clientId?: string | null;
+  /** Agency staff manage dependencies; everyone else only sees them. */
+  canEdit: boolean;
+}
+
+const DependencyRow: React.FC<{ task: TaskDependencyRef; onRemove?: () => void }> = ({ task, onRemove }) => (
+  <li className="flex items-center justify-between gap-3 px-3 py-2">
+    <div className="min-w-0">
+      <p className="truncate text-sm font-medium text-gray-900">{task.title}</p>
+      <p className="text-xs text-gray-500">{task.dueDate ? `Due ${format(new Date(task.dueDate), "MMM d, yyyy")}` : "No due date"}</p>
+    </div>
+    <div className="flex shrink-0 items-center gap-2">
+      {getStatusBadge(task.status)}
+      {onRemove && (
+        <button type="button" onClick={onRemove} className="rounded p-1 text-gray-400 hover:bg-red-50 hover:text-red-600" title="Remove dependency">
+          <X className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  </li>
+);
+
+/** "Blocked by" links for a task: what it waits on, what waits on it, and adding/removing blockers. */
+const TaskDependencies: React.FC<TaskDependenciesProps> = ({ taskId, clientId, canEdit }) => {
+  const [data, setData] = useState<DependenciesResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+  const [candidates, setCandidates] = useState<Task[] | null>(null);
+  const [search, setSearch] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await api.get(`/tasks/${taskId}/dependencies`);
+      setData(res.data as DependenciesResponse);
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    setLoading(true);
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!adding || candidates) return;
+    api
+      .get("/tasks", { params: clientId ? { clientId } : undefined })
+      .then((res) => setCandidates(Array.isArray(res.data) ? (res.data as Task[]) : []))
+      .catch(() => setCandidates([]));
+  }, [adding, candidates, clientId]);
+
+  const options = useMemo(() => {
+    const linked = new Set([taskId, ...(data?.blockedBy ?? []).map((t) => t.id), ...(data?.blocking ?? []).map((t) => t.id)]);
+    const q = search.trim().toLowerCase();
+    return (candidates ?? [])
+      .filter((t) => !linked.has(t.id) && t.status !== "CANCELLED")
+      .filter((t) => !q || t.title.toLowerCase().includes(q))
+      .slice(0, 8);
+  }, [candidates, data, search, taskId]);
+
+  const handleAdd = async (blockedById: string) => {
+    setBusy(true);
+    try {
+      await api.post(`/tasks/${taskId}/dependencies`, { blockedById });
+      setSearch("");
+      setAdding(false);
+      await load();
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async (blockedById: string) => {
+    try {
+      await api.delete(`/tasks/${taskId}/dependencies/${blockedById}`);
+      await load();
+    } catch {
+      // toast shown by api interceptor
+    }
+  };
+
+  if (!loading && !canEdit && !data?.blockedBy.length && !data?.blocking.length) return null;
+
+  return (
+    <section className="rounded-xl border-l-4 border-amber-500 bg-amber-50/50 p-4 sm:p-5">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+        <h3 className="flex items-center gap-2 text-sm font-semibold text-amber-900">
+          <span className="h-1.5 w-1.5 rounded-full bg-amber-500" />
+          Dependencies
+          {data?.isBlocked && (
+            <span className="inline-flex items-center gap-1 rounded-full bg-amber-100 px-2 py-0.5 text-[10px] font-bold text-amber-800">
+              <Lock className="h-3 w-3" />
+              Blocked
+            </span>
+          )}
+        </h3>
+        {canEdit && (
+          <button
+            type="button"
+            onClick={() => setAdding((v) => !v)}
+            className="inline-flex items-center gap-1.5 rounded-lg border border-amber-300 bg-white px-3 py-1.5 text-sm font-medium text-amber-800 hover:bg-amber-50"
+          >
+            <Plus className="h-4 w-4" />
+            Add blocker
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="h-12 animate-pulse rounded-lg bg-white/70" />
+      ) : (
+        <div className="space-y-3">
+          {adding && canEdit && (
+            <div className="rounded-lg border border-amber-100 bg-white p-3">
+              <input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search tasks this one waits on…"
+                className="w-full rounded-lg border border-gray-300 px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                autoFocus
+              />
+              {!candidates ? (
+                <div className="flex items-center gap-2 py-3 text-sm text-gray-500">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading tasks…
+                </div>
+              ) : options.length === 0 ? (
+                <p className="py-3 text-sm text-gray-500">No matching tasks.</p>
+              ) : (
+                <ul className="mt-2 divide-y divide-gray-100">
+                  {options.map((option) => (
+                    <li key={option.id}>
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={() => void handleAdd(option.id)}
+                        className="flex w-full items-center justify-between gap-3 px-2 py-2 text-left text-sm hover:bg-amber-50 disabled:opacity-60"
+                      >
+                        <span className="truncate">{option.title}</span>
+                        {getStatusBadge(option.status)}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div>
+            <p className="mb-1 text-xs font-medium uppercase tracking-wide text-gray-500">Blocked by</p>
+            {data?.blockedBy.length ? (
+              <ul className="divide-y divide-amber-100 rounded-lg border border-amber-100 bg-white">
+                {data.blockedBy.map((blocker) => (
+                  <DependencyRow key={blocker.id} task={blocker} onRemove={canEdit ? () => void handleRemove(blocker.id) : undefined} />
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">Not waiting on any task.</p>
+            )}
+          </div>
+
+          {data && data.blocking.length > 0 && (
+            <div>
+              <p className="mb-1 flex items-center gap-1 text-xs font-medium uppercase tracking-wide text-gray-500">
+                <Link2 className="h-3 w-3" />
+                Blocking
+              </p>
+              <ul className="divide-y divide-amber-100 rounded-lg border border-amber-100 bg-white">
+                {data.blocking.map((dependent) => (
+                  <DependencyRow key={dependent.id} task={dependent} />
+                ))}
+              </ul>
+              <p className="mt-1 text-xs text-gray-500">Moving this task's due date later moves these by the same number of days.</p>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default TaskDependencies;
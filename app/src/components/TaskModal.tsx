@@ -6,9 +6,12 @@ import { useDispatch, useSelector } from "react-redux";
 import { RootState } from "@/store";
 import { Upload, X, Image, Video, Link as LinkIcon, Plus, Trash2, Send, Loader2, Download, CheckSquare, MessageSquare, HelpCircle, CheckCircle2, RotateCcw, ThumbsUp } from "lucide-react";
 import api, { getUploadFileUrl } from "@/lib/api";
+import { watchRealtime } from "@/lib/realtime";
 import { fetchClients } from "@/store/slices/clientSlice";
 import toast from "react-hot-toast";
 import ConfirmDialog from "@/components/ConfirmDialog";
+import TaskTimeTracker from "@/components/TaskTimeTracker";
+import TaskDependencies from "@/components/TaskDependencies";
 
 interface TaskModalProps {
     title: string;
@@ -518,13 +521,15 @@ const TaskModal: React.FC<TaskModalProps> = ({ open, setOpen, title, mode, task
         setRemovedCollaboratorIds((prev) => Array.from(new Set([...prev, userId])));
     }, []);
 
-    const fetchComments = async (taskId: string) => {
+    const fetchComments = async (taskId: string, options?: { silent?: boolean }) => {
         try {
-            setCommentsLoading(true);
-            const res = await api.get(`/tasks/${taskId}/comments`, { timeout: 30000 });
+            if (!options?.silent) setCommentsLoading(true);
+            const res = await api.get(`/tasks/${taskId}/comments`, { timeout: 30000, _silent: options?.silent } as any);
             setComments(Array.isArray(res.data) ? (res.data as TaskComment[]) : []);
             setCommentsError(null);
         } catch (e: any) {
+            // A failed background refresh keeps the comments already on screen
+            if (options?.silent) return;
             console.error("Failed to fetch task comments", e);
             setComments([]);
             setCommentsError(e?.response?.data?.message || "Failed to load comments");
@@ -687,6 +692,15 @@ const TaskModal: React.FC<TaskModalProps> = ({ open, setOpen, title, mode, task
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [open, mode, task?.id]);
 
+    useEffect(() => {
+        if (!open || mode !== 1 || !task?.id) return;
+        const taskId = task.id;
+        return watchRealtime(["task_comment"], (event) => {
+            if (event?.type === "task_comment" && event.taskId !== taskId) return;
+            void fetchComments(taskId, { silent: true });
+        });
+    }, [open, mode, task?.id]);
+
     useEffect(() => {
         if (!open) return;
         setCollaboratorEditorOpen(false);
@@ -1192,6 +1206,23 @@ const TaskModal: React.FC<TaskModalProps> = ({ open, setOpen, title, mode, task
                         </section>
                     )}
 
+                    {Number(mode) === 1 && task?.id && (
+                        <TaskDependencies
+                            taskId={task.id}
+                            clientId={task.client?.id ?? null}
+                            canEdit={user?.role === "SUPER_ADMIN" || user?.role === "ADMIN" || user?.role === "AGENCY"}
+                        />
+                    )}
+
+                    {Number(mode) === 1 && task?.id && (
+                        <TaskTimeTracker
+                            taskId={task.id}
+                            currentUserId={user?.id}
+                            canLogTime={!isClientUser}
+                            canManageAllEntries={user?.role === "SUPER_ADMIN" || user?.role === "ADMIN" || user?.role === "AGENCY"}
+                        />
+                    )}
+
                     {/* Activity Feed */}
                     <div className="rounded-xl border-l-4 border-teal-500 bg-teal-50/50 p-4 sm:p-5">
                         <div className="flex items-center justify-between mb-3">
@@ -0,0 +1,288 @@
+import React, { useCallback, useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { format } from "date-fns";
+import { Clock, Loader2, Play, Plus, Square, Trash2 } from "lucide-react";
+import api from "@/lib/api";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import { formatTrackedHours } from "@/lib/timeTracking";
+
+type TimeEntry = {
+  id: string;
+  userId: string;
+  startedAt: string;
+  endedAt: string | null;
+  durationMinutes: number | null;
+  minutes: number;
+  notes: string | null;
+  billable: boolean;
+  source: "TIMER" | "MANUAL";
+  user: { id: string; name: string | null; email: string };
+};
+
+type TimeEntriesResponse = {
+  estimatedHours: number | null;
+  totalMinutes: number;
+  billableMinutes: number;
+  runningEntry: TimeEntry | null;
+  entries: TimeEntry[];
+};
+
+interface TaskTimeTrackerProps {
+  taskId: string;
+  currentUserId?: string | null;
+  /** Agency staff and specialists log time; client portal users only see the totals. */
+  canLogTime: boolean;
+  /** Agency owners and admins may remove anyone's entries. */
+  canManageAllEntries: boolean;
+}
+
+const formatElapsed = (startedAt: string, now: number) => {
+  const seconds = Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return `${h}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
+};
+
+/** Estimated vs actual hours for a task, a start/stop timer and manual time entries. */
+const TaskTimeTracker: React.FC<TaskTimeTrackerProps> = ({ taskId, currentUserId, canLogTime, canManageAllEntries }) => {
+  const [data, setData] = useState<TimeEntriesResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<"timer" | "manual" | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [manualOpen, setManualOpen] = useState(false);
+  const [manual, setManual] = useState({ date: format(new Date(), "yyyy-MM-dd"), hours: "", notes: "", billable: true });
+  const [deleteEntryId, setDeleteEntryId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await api.get(`/tasks/${taskId}/time-entries`);
+      setData(res.data as TimeEntriesResponse);
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    setLoading(true);
+    void load();
+  }, [load]);
+
+  const running = data?.runningEntry ?? null;
+  useEffect(() => {
+    if (!running) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [running]);
+
+  const handleTimer = async () => {
+    setBusy("timer");
+    try {
+      if (running) {
+        await api.post(`/tasks/${taskId}/time-entries/stop`);
+        toast.success("Timer stopped");
+      } else {
+        const res = await api.post(`/tasks/${taskId}/time-entries/start`);
+        if (res.data?.stoppedEntry) toast.success("Your timer on another task was stopped");
+      }
+      setNow(Date.now());
+      await load();
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleManualSubmit = async () => {
+    const hours = Number(manual.hours);
+    if (!Number.isFinite(hours) || hours <= 0) {
+      toast.error("Enter the hours worked");
+      return;
+    }
+    setBusy("manual");
+    try {
+      await api.post(`/tasks/${taskId}/time-entries`, {
+        startedAt: new Date(`${manual.date}T09:00:00`).toISOString(),
+        durationMinutes: Math.round(hours * 60),
+        notes: manual.notes.trim() || undefined,
+        billable: manual.billable,
+      });
+      toast.success("Time logged");
+      setManual({ date: format(new Date(), "yyyy-MM-dd"), hours: "", notes: "", billable: true });
+      setManualOpen(false);
+      await load();
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    const entryId = deleteEntryId;
+    setDeleteEntryId(null);
+    if (!entryId) return;
+    try {
+      await api.delete(`/tasks/${taskId}/time-entries/${entryId}`);
+      await load();
+    } catch {
+      // toast shown by api interceptor
+    }
+  };
+
+  const estimatedMinutes = data?.estimatedHours != null ? data.estimatedHours * 60 : null;
+  const actualMinutes = (data?.totalMinutes ?? 0) + (running ? Math.max(0, Math.floor((now - new Date(running.startedAt).getTime()) / 60000)) - running.minutes : 0);
+  const pct = estimatedMinutes ? Math.min(100, Math.round((actualMinutes / estimatedMinutes) * 100)) : 0;
+  const overEstimate = estimatedMinutes != null && actualMinutes > estimatedMinutes;
+
+  return (
+    <section className="rounded-xl border-l-4 border-sky-500 bg-sky-50/50 p-4 sm:p-5">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h3 className="text-sm font-semibold text-sky-900 flex items-center gap-2">
+          <span className="w-1.5 h-1.5 rounded-full bg-sky-500" />
+          Time Tracking
+        </h3>
+        {canLogTime && (
+          <div className="flex items-center gap-2">
+            {running && <span className="font-mono text-sm font-semibold text-sky-900 tabular-nums">{formatElapsed(running.startedAt, now)}</span>}
+            <button
+              type="button"
+              onClick={() => void handleTimer()}
+              disabled={busy !== null || loading}
+              className={`inline-flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-sm font-medium text-white disabled:opacity-60 ${running ? "bg-rose-600 hover:bg-rose-700" : "bg-sky-600 hover:bg-sky-700"}`}
+            >
+              {busy === "timer" ? <Loader2 className="h-4 w-4 animate-spin" /> : running ? <Square className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              {running ? "Stop" : "Start timer"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setManualOpen((v) => !v)}
+              className="inline-flex items-center gap-1.5 rounded-lg border border-sky-300 bg-white px-3 py-1.5 text-sm font-medium text-sky-800 hover:bg-sky-50"
+            >
+              <Plus className="h-4 w-4" />
+              Log time
+            </button>
+          </div>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="h-12 rounded-lg bg-white/70 animate-pulse" />
+      ) : (
+        <>
+          <div className="flex flex-wrap items-baseline gap-x-6 gap-y-1 text-sm">
+            <span className="text-gray-700">
+              Estimated: <span className="font-semibold text-gray-900">{data?.estimatedHours != null ? `${data.estimatedHours}h` : "—"}</span>
+            </span>
+            <span className="text-gray-700">
+              Actual: <span className={`font-semibold ${overEstimate ? "text-rose-700" : "text-gray-900"}`}>{formatTrackedHours(actualMinutes)}</span>
+            </span>
+            {data && data.billableMinutes !== data.totalMinutes && (
+              <span className="text-gray-500">Billable: {formatTrackedHours(data.billableMinutes)}</span>
+            )}
+          </div>
+          {estimatedMinutes != null && (
+            <div className="mt-2 h-2 w-full overflow-hidden rounded-full bg-white ring-1 ring-sky-100">
+              <div className={`h-full rounded-full ${overEstimate ? "bg-rose-500" : "bg-sky-500"}`} style={{ width: `${pct}%` }} />
+            </div>
+          )}
+
+          {manualOpen && canLogTime && (
+            <div className="mt-3 grid grid-cols-1 gap-2 rounded-lg border border-sky-100 bg-white p-3 sm:grid-cols-[auto_6rem_1fr_auto_auto] sm:items-center">
+              <input
+                type="date"
+                value={manual.date}
+                max={format(new Date(), "yyyy-MM-dd")}
+                onChange={(e) => setManual({ ...manual, date: e.target.value })}
+                className="rounded-lg border border-gray-300 px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+              <input
+                type="number"
+                min="0.25"
+                step="0.25"
+                value={manual.hours}
+                onChange={(e) => setManual({ ...manual, hours: e.target.value })}
+                placeholder="Hours"
+                className="rounded-lg border border-gray-300 px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+              <input
+                value={manual.notes}
+                onChange={(e) => setManual({ ...manual, notes: e.target.value })}
+                placeholder="What did you work on? (optional)"
+                className="rounded-lg border border-gray-300 px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+              <label className="inline-flex items-center gap-1.5 text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={manual.billable}
+                  onChange={(e) => setManual({ ...manual, billable: e.target.checked })}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                Billable
+              </label>
+              <button
+                type="button"
+                onClick={() => void handleManualSubmit()}
+                disabled={busy !== null}
+                className="inline-flex items-center justify-center gap-1.5 rounded-lg bg-sky-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-sky-700 disabled:opacity-60"
+              >
+                {busy === "manual" && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save
+              </button>
+            </div>
+          )}
+
+          {data && data.entries.length > 0 ? (
+            <ul className="mt-3 divide-y divide-sky-100 rounded-lg border border-sky-100 bg-white text-sm">
+              {data.entries.map((entry) => (
+                <li key={entry.id} className="flex items-center gap-3 px-3 py-2">
+                  <Clock className="h-4 w-4 shrink-0 text-sky-500" />
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-gray-900">
+                      <span className="font-medium">{entry.user.name || entry.user.email}</span>
+                      {entry.notes ? <span className="text-gray-600"> · {entry.notes}</span> : null}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {format(new Date(entry.startedAt), "MMM d, yyyy")}
+                      {entry.source === "MANUAL" ? " · manual" : ""}
+                      {!entry.billable ? " · non-billable" : ""}
+                    </p>
+                  </div>
+                  <span className="font-semibold tabular-nums text-gray-900">
+                    {entry.endedAt ? formatTrackedHours(entry.minutes) : "Running"}
+                  </span>
+                  {canLogTime && entry.endedAt && (entry.userId === currentUserId || canManageAllEntries) && (
+                    <button
+                      type="button"
+                      onClick={() => setDeleteEntryId(entry.id)}
+                      className="text-gray-400 hover:text-rose-600"
+                      title="Delete entry"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="mt-3 text-sm text-gray-500">No time logged yet.</p>
+          )}
+        </>
+      )}
+
+      <ConfirmDialog
+        isOpen={deleteEntryId !== null}
+        onClose={() => setDeleteEntryId(null)}
+        onConfirm={() => void handleDelete()}
+        title="Delete time entry"
+        message="This entry will be removed from the task and the client's hours report."
+        confirmText="Delete"
+      />
+    </section>
+  );
+};
+
+export default TaskTimeTracker;
@@ -0,0 +1,381 @@
+import React, { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, Loader2, Plus, RotateCcw, Trash2 } from "lucide-react";
+import api from "@/lib/api";
+import toast from "react-hot-toast";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import InfoTooltip from "@/components/InfoTooltip";
+import type { TaskStatus, TaskWorkflow, TaskWorkflowColumn, TaskWorkflowRequiredField } from "@/utils/types";
+
+const CORE_STATUS_LABELS: Record<TaskStatus, string> = {
+  TODO: "To Do",
+  IN_PROGRESS: "In Progress",
+  REVIEW: "Review",
+  NEEDS_APPROVAL: "Needs Approval",
+  DONE: "Done",
+  CANCELLED: "Cancelled",
+};
+
+const MAX_COLUMNS = 20;
+
+/** Column being edited; new columns get a temporary key until saved. */
+type DraftColumn = TaskWorkflowColumn & { isNew: boolean };
+
+const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 60) || "column";
+
+const toDraft = (columns: TaskWorkflowColumn[]): DraftColumn[] => columns.map((column) => ({ ...column, isNew: false }));
+
+/** Turns temporary keys of new columns into slugs of their names and rewrites transitions that point at them. */
+const buildSavePayload = (columns: DraftColumn[]) => {
+  const used = new Set(columns.filter((c) => !c.isNew).map((c) => c.key));
+  const keyMap = new Map<string, string>();
+  for (const column of columns) {
+    if (!column.isNew) continue;
+    const base = slugify(column.name);
+    let key = base;
+    for (let n = 2; used.has(key); n++) key = `${base}-${n}`;
+    used.add(key);
+    keyMap.set(column.key, key);
+  }
+  const mapKey = (key: string) => keyMap.get(key) ?? key;
+  return columns.map((column) => ({
+    key: mapKey(column.key),
+    name: column.name.trim(),
+    coreStatus: column.coreStatus,
+    color: column.color,
+    wipLimit: column.wipLimit,
+    requiredFields: column.requiredFields,
+    allowedNextKeys: column.allowedNextKeys ? column.allowedNextKeys.map(mapKey) : null,
+  }));
+};
+
+/** Agency owners define task board columns, the core status each maps to, allowed moves, required fields and WIP limits. */
+const TaskWorkflowManager: React.FC = () => {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [isDefault, setIsDefault] = useState(true);
+  const [fieldLabels, setFieldLabels] = useState<Record<TaskWorkflowRequiredField, string> | null>(null);
+  const [columns, setColumns] = useState<DraftColumn[]>([]);
+  const [resetConfirmOpen, setResetConfirmOpen] = useState(false);
+  const [newColumnCount, setNewColumnCount] = useState(0);
+
+  const applyWorkflow = (workflow: TaskWorkflow) => {
+    setColumns(toDraft(workflow.columns));
+    setIsDefault(workflow.isDefault);
+    setFieldLabels(workflow.requiredFields);
+  };
+
+  useEffect(() => {
+    api
+      .get("/task-workflow")
+      .then((res) => applyWorkflow(res.data as TaskWorkflow))
+      .catch(() => {
+        // toast shown by api interceptor
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const updateColumn = (index: number, patch: Partial<DraftColumn>) =>
+    setColumns((prev) => prev.map((column, i) => (i === index ? { ...column, ...patch } : column)));
+
+  const moveColumn = (index: number, delta: number) =>
+    setColumns((prev) => {
+      const next = [...prev];
+      const target = index + delta;
+      if (target < 0 || target >= next.length) return prev;
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+
+  const removeColumn = (index: number) =>
+    setColumns((prev) => {
+      const removedKey = prev[index].key;
+      return prev
+        .filter((_, i) => i !== index)
+        .map((column) =>
+          column.allowedNextKeys ? { ...column, allowedNextKeys: column.allowedNextKeys.filter((k) => k !== removedKey) } : column
+        );
+    });
+
+  const addColumn = () => {
+    const n = newColumnCount + 1;
+    setNewColumnCount(n);
+    setColumns((prev) => [
+      ...prev,
+      {
+        id: null,
+        key: `new-column-${n}`,
+        name: "New column",
+        coreStatus: "IN_PROGRESS",
+        color: null,
+        wipLimit: null,
+        requiredFields: [],
+        allowedNextKeys: null,
+        isNew: true,
+      },
+    ]);
+  };
+
+  const toggleRequiredField = (index: number, field: TaskWorkflowRequiredField) => {
+    const column = columns[index];
+    const requiredFields = column.requiredFields.includes(field)
+      ? column.requiredFields.filter((f) => f !== field)
+      : [...column.requiredFields, field];
+    updateColumn(index, { requiredFields });
+  };
+
+  const toggleAllowedNext = (index: number, key: string) => {
+    const column = columns[index];
+    const current = column.allowedNextKeys ?? [];
+    const allowedNextKeys = current.includes(key) ? current.filter((k) => k !== key) : [...current, key];
+    updateColumn(index, { allowedNextKeys });
+  };
+
+  const handleSave = async () => {
+    if (columns.some((c) => !c.name.trim())) {
+      toast.error("Every column needs a name.");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await api.put("/task-workflow", { columns: buildSavePayload(columns) });
+      applyWorkflow(res.data as TaskWorkflow);
+      toast.success("Task workflow saved");
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setResetConfirmOpen(false);
+    setSaving(true);
+    try {
+      const res = await api.delete("/task-workflow");
+      applyWorkflow(res.data as TaskWorkflow);
+      toast.success("Task workflow reset to the default board");
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Task Workflow</h3>
+          <p className="text-sm text-gray-500 mt-1">
+            Define the columns on your task board. Each column maps to a core status, which reports, notifications and
+            webhooks keep using. {isDefault ? "You are using the default board." : ""}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {!isDefault && (
+            <button
+              type="button"
+              onClick={() => setResetConfirmOpen(true)}
+              disabled={saving}
+              className="flex items-center gap-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 whitespace-nowrap"
+            >
+              <RotateCcw className="h-4 w-4" />
+              Reset
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={addColumn}
+            disabled={saving || columns.length >= MAX_COLUMNS}
+            className="flex items-center gap-2 border border-primary-200 text-primary-700 px-4 py-2 rounded-lg hover:bg-primary-50 transition-colors disabled:opacity-50 whitespace-nowrap"
+          >
+            <Plus className="h-4 w-4" />
+            Add column
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleSave()}
+            disabled={saving || columns.length === 0}
+            className="flex items-center gap-2 bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 whitespace-nowrap"
+          >
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Save workflow
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {columns.map((column, index) => {
+          const otherColumns = columns.filter((c) => c.key !== column.key);
+          return (
+            <div key={column.key} className="rounded-xl border border-gray-200 bg-white p-4">
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="flex flex-col gap-1">
+                  <button
+                    type="button"
+                    onClick={() => moveColumn(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 rounded text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                    title="Move earlier on the board"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveColumn(index, 1)}
+                    disabled={index === columns.length - 1}
+                    className="p-1 rounded text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                    title="Move later on the board"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="flex-1 min-w-[10rem]">
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Column name</label>
+                  <input
+                    value={column.name}
+                    maxLength={60}
+                    onChange={(e) => updateColumn(index, { name: e.target.value })}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs font-medium text-gray-700 mb-1 inline-flex items-center gap-1">
+                    Core status
+                    <InfoTooltip content="The fixed status tasks in this column report as. Several columns can share one status." />
+                  </label>
+                  <select
+                    value={column.coreStatus}
+                    onChange={(e) => updateColumn(index, { coreStatus: e.target.value as TaskStatus })}
+                    className="block border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  >
+                    {(Object.keys(CORE_STATUS_LABELS) as TaskStatus[]).map((status) => (
+                      <option key={status} value={status}>
+                        {CORE_STATUS_LABELS[status]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="w-28">
+                  <label className="block text-xs font-medium text-gray-700 mb-1">WIP limit</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={500}
+                    value={column.wipLimit ?? ""}
+                    placeholder="None"
+                    onChange={(e) => updateColumn(index, { wipLimit: e.target.value ? Math.max(1, Math.round(Number(e.target.value))) : null })}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Color</label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="color"
+                      value={column.color ?? "#9ca3af"}
+                      onChange={(e) => updateColumn(index, { color: e.target.value })}
+                      className="h-9 w-12 cursor-pointer rounded border border-gray-300"
+                    />
+                    {column.color && (
+                      <button type="button" onClick={() => updateColumn(index, { color: null })} className="text-xs text-gray-500 hover:text-gray-700">
+                        Clear
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeColumn(index)}
+                  disabled={columns.length === 1}
+                  className="p-2 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50 disabled:opacity-30"
+                  title="Remove column"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+
+              <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-2">
+                <div>
+                  <p className="text-xs font-medium text-gray-700 mb-2">Required to enter this column</p>
+                  <div className="flex flex-wrap gap-x-4 gap-y-2">
+                    {fieldLabels &&
+                      (Object.keys(fieldLabels) as TaskWorkflowRequiredField[]).map((field) => (
+                        <label key={field} className="inline-flex items-center gap-1.5 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={column.requiredFields.includes(field)}
+                            onChange={() => toggleRequiredField(index, field)}
+                            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                          />
+                          {fieldLabels[field]}
+                        </label>
+                      ))}
+                  </div>
+                </div>
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-xs font-medium text-gray-700">Tasks can move to</p>
+                    <label className="inline-flex items-center gap-1.5 text-xs text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={column.allowedNextKeys === null}
+                        onChange={(e) => updateColumn(index, { allowedNextKeys: e.target.checked ? null : [] })}
+                        className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      Any column
+                    </label>
+                  </div>
+                  {column.allowedNextKeys !== null && (
+                    <div className="flex flex-wrap gap-x-4 gap-y-2">
+                      {otherColumns.length === 0 ? (
+                        <span className="text-sm text-gray-500">No other columns.</span>
+                      ) : (
+                        otherColumns.map((other) => (
+                          <label key={other.key} className="inline-flex items-center gap-1.5 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={column.allowedNextKeys?.includes(other.key) ?? false}
+                              onChange={() => toggleAllowedNext(index, other.key)}
+                              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                            />
+                            {other.name || "Untitled"}
+                          </label>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <ConfirmDialog
+        isOpen={resetConfirmOpen}
+        onClose={() => setResetConfirmOpen(false)}
+        onConfirm={() => void handleReset()}
+        title="Reset task workflow"
+        message="Your custom columns will be removed and every task goes back to the default column for its status."
+        confirmText="Reset"
+        variant="warning"
+      />
+    </div>
+  );
+};
+
+export default TaskWorkflowManager;
@@ -0,0 +1,308 @@
+import React, { useState } from "react";
+import { useDispatch, useSelector } from "react-redux";
+import toast from "react-hot-toast";
+import { Copy, Download, Loader2, ShieldCheck, ShieldOff, Smartphone } from "lucide-react";
+import api, { setSessionTokens } from "@/lib/api";
+import { RootState } from "@/store";
+import { checkAuth } from "@/store/slices/authSlice";
+
+type Mode = "idle" | "enrolling" | "recovery-codes" | "disabling" | "regenerating";
+
+const formatSecret = (secret: string) => secret.replace(/(.{4})/g, "$1 ").trim();
+
+/**
+ * Authenticator-app (TOTP) enrollment, recovery codes and disable flow for the signed-in user.
+ * Used in Settings → Security and on the forced-enrollment screen.
+ */
+const TwoFactorSettings: React.FC = () => {
+  const dispatch = useDispatch();
+  const { user } = useSelector((state: RootState) => state.auth);
+  const twoFactor = user?.twoFactor;
+
+  const [mode, setMode] = useState<Mode>("idle");
+  const [busy, setBusy] = useState(false);
+  const [code, setCode] = useState("");
+  const [setup, setSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+
+  const reset = () => {
+    setMode("idle");
+    setCode("");
+    setSetup(null);
+  };
+
+  const startSetup = async () => {
+    setBusy(true);
+    try {
+      const res = await api.post("/auth/2fa/setup");
+      setSetup(res.data);
+      setCode("");
+      setMode("enrolling");
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    setBusy(true);
+    try {
+      const res = await api.post("/auth/2fa/enable", { code: code.trim() });
+      // The new access token no longer carries the "setup required" restriction
+      if (res.data?.token) setSessionTokens(res.data.token, res.data.refreshToken);
+      setRecoveryCodes(res.data?.recoveryCodes || []);
+      setSetup(null);
+      setCode("");
+      setMode("recovery-codes");
+      toast.success("Two-factor authentication enabled");
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submitCodeAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    setBusy(true);
+    try {
+      if (mode === "disabling") {
+        await api.post("/auth/2fa/disable", { code: code.trim() });
+        toast.success("Two-factor authentication disabled");
+        reset();
+        dispatch(checkAuth() as any);
+      } else {
+        const res = await api.post("/auth/2fa/recovery-codes", { code: code.trim() });
+        setRecoveryCodes(res.data?.recoveryCodes || []);
+        setCode("");
+        setMode("recovery-codes");
+      }
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const finishRecoveryCodes = () => {
+    setRecoveryCodes([]);
+    reset();
+    dispatch(checkAuth() as any);
+  };
+
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      toast.success("Recovery codes copied");
+    } catch {
+      toast.error("Could not copy to clipboard");
+    }
+  };
+
+  const downloadCodes = () => {
+    const blob = new Blob([`${recoveryCodes.join("\n")}\n`], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (mode === "recovery-codes") {
+    return (
+      <div className="bg-gray-50 p-4 rounded-lg space-y-4">
+        <div>
+          <p className="text-sm font-medium text-gray-900">Save your recovery codes</p>
+          <p className="text-sm text-gray-500">
+            Each code works once if you lose access to your authenticator app. They won't be shown again.
+          </p>
+        </div>
+        <div className="grid grid-cols-2 gap-2 rounded-lg border border-gray-200 bg-white p-4 font-mono text-sm text-gray-800">
+          {recoveryCodes.map((c) => (
+            <span key={c}>{c}</span>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={copyCodes}
+            className="inline-flex items-center gap-2 px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white hover:bg-gray-50"
+          >
+            <Copy className="h-4 w-4" /> Copy
+          </button>
+          <button
+            type="button"
+            onClick={downloadCodes}
+            className="inline-flex items-center gap-2 px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white hover:bg-gray-50"
+          >
+            <Download className="h-4 w-4" /> Download
+          </button>
+          <button
+            type="button"
+            onClick={finishRecoveryCodes}
+            className="ml-auto bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors"
+          >
+            I've saved these codes
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (mode === "enrolling" && setup) {
+    return (
+      <form onSubmit={confirmSetup} className="bg-gray-50 p-4 rounded-lg space-y-4">
+        <div>
+          <p className="text-sm font-medium text-gray-900">Set up your authenticator app</p>
+          <p className="text-sm text-gray-500">
+            In Google Authenticator, 1Password, Authy or similar, add an account with this setup key (time-based),
+            or open the link on a device that has the app installed.
+          </p>
+        </div>
+        <div className="rounded-lg border border-gray-200 bg-white p-4">
+          <p className="text-xs font-medium uppercase tracking-wide text-gray-500">Setup key</p>
+          <p className="mt-1 font-mono text-base text-gray-900 break-all select-all">{formatSecret(setup.secret)}</p>
+          <a
+            href={setup.otpauthUrl}
+            className="mt-3 inline-flex items-center gap-2 text-sm text-primary-600 hover:text-primary-700"
+          >
+            <Smartphone className="h-4 w-4" /> Open in authenticator app
+          </a>
+        </div>
+        <div>
+          <label htmlFor="two-factor-code" className="block text-sm font-medium text-gray-700 mb-2">
+            Enter the 6-digit code from the app
+          </label>
+          <input
+            id="two-factor-code"
+            autoFocus
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            className="w-48 px-3 py-2 border border-gray-300 rounded-lg bg-white font-mono tracking-widest focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            placeholder="123456"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="submit"
+            disabled={busy || !code.trim()}
+            className="inline-flex items-center gap-2 bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-60"
+          >
+            {busy && <Loader2 className="h-4 w-4 animate-spin" />}
+            Verify and enable
+          </button>
+          <button type="button" onClick={reset} className="px-4 py-2 text-sm text-gray-700 hover:text-gray-900">
+            Cancel
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  if (twoFactor?.enabled) {
+    return (
+      <div className="bg-gray-50 p-4 rounded-lg space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-start gap-3">
+            <ShieldCheck className="h-5 w-5 text-emerald-600 mt-0.5" />
+            <div>
+              <p className="text-sm font-medium text-gray-900">Two-Factor Authentication is on</p>
+              <p className="text-sm text-gray-500">
+                {twoFactor.enabledAt ? `Enabled ${new Date(twoFactor.enabledAt).toLocaleDateString()}. ` : ""}
+                {typeof twoFactor.recoveryCodesRemaining === "number"
+                  ? `${twoFactor.recoveryCodesRemaining} recovery code${twoFactor.recoveryCodesRemaining === 1 ? "" : "s"} left.`
+                  : ""}
+              </p>
+            </div>
+          </div>
+          {mode === "idle" && (
+            <div className="flex items-center gap-2 shrink-0">
+              <button
+                type="button"
+                onClick={() => setMode("regenerating")}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white hover:bg-gray-50"
+              >
+                New recovery codes
+              </button>
+              <button
+                type="button"
+                onClick={() => setMode("disabling")}
+                disabled={Boolean(twoFactor.requiredByAgency)}
+                title={twoFactor.requiredByAgency ? "Your agency requires two-factor authentication." : undefined}
+                className="inline-flex items-center gap-2 px-3 py-2 text-sm text-red-700 border border-red-200 rounded-lg bg-white hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <ShieldOff className="h-4 w-4" /> Disable
+              </button>
+            </div>
+          )}
+        </div>
+        {(mode === "disabling" || mode === "regenerating") && (
+          <form onSubmit={submitCodeAction} className="flex flex-wrap items-end gap-2">
+            <div>
+              <label htmlFor="two-factor-action-code" className="block text-sm font-medium text-gray-700 mb-2">
+                {mode === "disabling"
+                  ? "Enter a code from your app to turn off two-factor authentication"
+                  : "Enter a code from your app to replace your recovery codes"}
+              </label>
+              <input
+                id="two-factor-action-code"
+                autoFocus
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className="w-48 px-3 py-2 border border-gray-300 rounded-lg bg-white font-mono tracking-widest focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                placeholder="123456"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={busy || !code.trim()}
+              className={`inline-flex items-center gap-2 text-white px-4 py-2 rounded-lg transition-colors disabled:opacity-60 ${
+                mode === "disabling" ? "bg-red-600 hover:bg-red-700" : "bg-primary-600 hover:bg-primary-700"
+              }`}
+            >
+              {busy && <Loader2 className="h-4 w-4 animate-spin" />}
+              {mode === "disabling" ? "Disable" : "Generate"}
+            </button>
+            <button type="button" onClick={reset} className="px-4 py-2 text-sm text-gray-700 hover:text-gray-900">
+              Cancel
+            </button>
+          </form>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium text-gray-900">Two-Factor Authentication</p>
+          <p className="text-sm text-gray-500">
+            {twoFactor?.requiredByAgency
+              ? "Your agency requires an authenticator app for every team member."
+              : "Add an extra layer of security to your account"}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={startSetup}
+          disabled={busy}
+          className="inline-flex items-center gap-2 bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-60"
+        >
+          {busy && <Loader2 className="h-4 w-4 animate-spin" />}
+          Enable
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
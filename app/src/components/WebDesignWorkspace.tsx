@@ -3,6 +3,7 @@ import { useSelector } from "react-redux";
 import { useLocation } from "react-router-dom";
 import { RootState } from "@/store";
 import api from "@/lib/api";
+import { watchRealtime } from "@/lib/realtime";
 import toast from "react-hot-toast";
 import { CheckCircle2, ExternalLink, Lock, MessageSquare, Plus, Upload } from "lucide-react";
 import ConfirmDialog from "@/components/ConfirmDialog";
@@ -408,11 +409,14 @@ export default function WebDesignWorkspace({
 
   useEffect(() => {
     if (!selectedProjectId) return;
-    const intervalId = window.setInterval(() => {
-      if (document.hidden) return;
-      loadProjectDetail(selectedProjectId, { silent: true });
-    }, WEB_DESIGN_LIVE_REFRESH_MS);
-    return () => window.clearInterval(intervalId);
+    return watchRealtime(
+      ["web_design"],
+      (event) => {
+        if (event?.type === "web_design" ? event.projectId !== selectedProjectId : document.hidden) return;
+        loadProjectDetail(selectedProjectId, { silent: true });
+      },
+      { fallbackIntervalMs: WEB_DESIGN_LIVE_REFRESH_MS }
+    );
   }, [selectedProjectId]);
 
   useEffect(() => {
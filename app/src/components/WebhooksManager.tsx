@@ -0,0 +1,478 @@
+import React, { useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, Copy, Eye, EyeOff, Loader2, Pencil, Plus, RefreshCw, Send, Trash2, Webhook, X } from "lucide-react";
+import api from "@/lib/api";
+import toast from "react-hot-toast";
+import ConfirmDialog from "@/components/ConfirmDialog";
+
+type WebhookEventOption = { id: string; label: string };
+
+type WebhookEndpointRow = {
+  id: string;
+  url: string;
+  description: string | null;
+  events: string[];
+  secret: string;
+  enabled: boolean;
+  createdAt: string;
+  lastDeliveryAt: string | null;
+  consecutiveFailures: number;
+};
+
+type WebhookDeliveryRow = {
+  id: string;
+  createdAt: string;
+  eventId: string;
+  eventType: string;
+  payload: string;
+  status: "pending" | "success" | "failed";
+  attempt: number;
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  deliveredAt: string | null;
+};
+
+type EndpointForm = { id?: string; url: string; description: string; events: string[] };
+
+const statusStyles: Record<WebhookDeliveryRow["status"], string> = {
+  success: "bg-green-100 text-green-700",
+  pending: "bg-amber-100 text-amber-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+const WebhooksManager: React.FC = () => {
+  const [endpoints, setEndpoints] = useState<WebhookEndpointRow[]>([]);
+  const [events, setEvents] = useState<WebhookEventOption[]>([]);
+  const [signatureHeader, setSignatureHeader] = useState("X-Webhook-Signature");
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<EndpointForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [revealedSecrets, setRevealedSecrets] = useState<Record<string, boolean>>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<Record<string, WebhookDeliveryRow[]>>({});
+  const [deliveriesLoading, setDeliveriesLoading] = useState<string | null>(null);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<WebhookEndpointRow | null>(null);
+
+  const fetchEndpoints = async () => {
+    try {
+      const res = await api.get("/webhook-endpoints");
+      setEndpoints(res.data.endpoints || []);
+      setEvents(res.data.events || []);
+      if (res.data.signatureHeader) setSignatureHeader(res.data.signatureHeader);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to load webhooks");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchDeliveries = async (endpointId: string) => {
+    setDeliveriesLoading(endpointId);
+    try {
+      const res = await api.get(`/webhook-endpoints/${endpointId}/deliveries`);
+      setDeliveries((prev) => ({ ...prev, [endpointId]: res.data.deliveries || [] }));
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to load deliveries");
+    } finally {
+      setDeliveriesLoading(null);
+    }
+  };
+
+  useEffect(() => {
+    fetchEndpoints();
+  }, []);
+
+  const toggleExpanded = (endpointId: string) => {
+    if (expandedId === endpointId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(endpointId);
+    fetchDeliveries(endpointId);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    if (form.events.length === 0) {
+      toast.error("Select at least one event");
+      return;
+    }
+    setSaving(true);
+    const payload = { url: form.url.trim(), description: form.description.trim() || null, events: form.events };
+    try {
+      if (form.id) {
+        await api.patch(`/webhook-endpoints/${form.id}`, payload);
+        toast.success("Webhook updated");
+      } else {
+        await api.post("/webhook-endpoints", payload);
+        toast.success("Webhook added");
+      }
+      setForm(null);
+      await fetchEndpoints();
+    } catch (error: any) {
+      const fieldError = error.response?.data?.errors?.[0]?.message;
+      toast.error(fieldError || error.response?.data?.message || "Failed to save webhook");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleEnabled = async (endpoint: WebhookEndpointRow) => {
+    try {
+      await api.patch(`/webhook-endpoints/${endpoint.id}`, { enabled: !endpoint.enabled });
+      await fetchEndpoints();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to update webhook");
+    }
+  };
+
+  const handleTest = async (endpoint: WebhookEndpointRow) => {
+    setTestingId(endpoint.id);
+    try {
+      const res = await api.post(`/webhook-endpoints/${endpoint.id}/test`);
+      const delivery: WebhookDeliveryRow | null = res.data.delivery;
+      if (delivery?.status === "success") {
+        toast.success(`Test event delivered (HTTP ${delivery.responseStatus})`);
+      } else {
+        toast.error(`Test event failed: ${delivery?.error || "no response"}`);
+      }
+      await fetchEndpoints();
+      if (expandedId === endpoint.id) await fetchDeliveries(endpoint.id);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to send test event");
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleRotate = async (endpoint: WebhookEndpointRow) => {
+    try {
+      await api.post(`/webhook-endpoints/${endpoint.id}/rotate-secret`);
+      toast.success("Signing secret rotated. Update your receiver.");
+      setRevealedSecrets((prev) => ({ ...prev, [endpoint.id]: true }));
+      await fetchEndpoints();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to rotate secret");
+    }
+  };
+
+  const handleRedeliver = async (endpointId: string, deliveryId: string) => {
+    try {
+      const res = await api.post(`/webhook-endpoints/${endpointId}/deliveries/${deliveryId}/redeliver`);
+      toast[res.data.delivery?.status === "success" ? "success" : "error"](
+        res.data.delivery?.status === "success" ? "Delivered" : `Delivery failed: ${res.data.delivery?.error || "no response"}`
+      );
+      await fetchDeliveries(endpointId);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to redeliver");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await api.delete(`/webhook-endpoints/${deleteTarget.id}`);
+      toast.success("Webhook deleted");
+      await fetchEndpoints();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to delete webhook");
+    } finally {
+      setDeleteTarget(null);
+    }
+  };
+
+  const copySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      toast.success("Secret copied");
+    } catch {
+      toast.error("Copy failed");
+    }
+  };
+
+  const eventLabel = (id: string) => events.find((e) => e.id === id)?.label ?? id;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Webhooks</h3>
+          <p className="text-sm text-gray-500 mt-1">
+            POST a signed JSON payload to your URL when things happen. Verify the{" "}
+            <code className="text-xs bg-gray-100 px-1 py-0.5 rounded">{signatureHeader}</code> header (
+            <code className="text-xs bg-gray-100 px-1 py-0.5 rounded">t=…,v1=HMAC-SHA256(secret, "t.body")</code>). Failed
+            deliveries are retried with backoff.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setForm({ url: "", description: "", events: events.map((e) => e.id) })}
+          disabled={loading}
+          className="flex items-center gap-2 bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 whitespace-nowrap"
+        >
+          <Plus className="h-4 w-4" />
+          Add endpoint
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary-600" />
+        </div>
+      ) : endpoints.length === 0 ? (
+        <div className="rounded-lg bg-gray-50 p-8 text-center">
+          <Webhook className="mx-auto h-8 w-8 text-gray-400" />
+          <p className="mt-2 text-sm text-gray-500">No webhook endpoints yet.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {endpoints.map((endpoint) => (
+            <div key={endpoint.id} className="rounded-lg border border-gray-200 bg-white">
+              <div className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900 break-all">{endpoint.url}</div>
+                    {endpoint.description && <div className="text-sm text-gray-500">{endpoint.description}</div>}
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {endpoint.events.map((eventId) => (
+                        <span key={eventId} className="rounded bg-gray-100 px-2 py-0.5 text-xs text-gray-700">
+                          {eventLabel(eventId)}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleToggleEnabled(endpoint)}
+                    className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors ${endpoint.enabled ? "bg-primary-600" : "bg-gray-200"}`}
+                    title={endpoint.enabled ? "Disable" : "Enable"}
+                  >
+                    <span
+                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${endpoint.enabled ? "translate-x-6" : "translate-x-1"}`}
+                    />
+                  </button>
+                </div>
+
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-gray-500">Signing secret:</span>
+                  <code className="rounded bg-gray-100 px-2 py-0.5 text-xs">
+                    {revealedSecrets[endpoint.id] ? endpoint.secret : "whsec_••••••••••••"}
+                  </code>
+                  <button
+                    type="button"
+                    onClick={() => setRevealedSecrets((prev) => ({ ...prev, [endpoint.id]: !prev[endpoint.id] }))}
+                    className="text-gray-500 hover:text-gray-700"
+                    title={revealedSecrets[endpoint.id] ? "Hide" : "Reveal"}
+                  >
+                    {revealedSecrets[endpoint.id] ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </button>
+                  <button type="button" onClick={() => copySecret(endpoint.secret)} className="text-gray-500 hover:text-gray-700" title="Copy">
+                    <Copy className="h-4 w-4" />
+                  </button>
+                  <button type="button" onClick={() => handleRotate(endpoint)} className="text-gray-500 hover:text-gray-700" title="Rotate secret">
+                    <RefreshCw className="h-4 w-4" />
+                  </button>
+                </div>
+
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="text-xs text-gray-500">
+                    Last delivery: {endpoint.lastDeliveryAt ? new Date(endpoint.lastDeliveryAt).toLocaleString() : "Never"}
+                    {endpoint.consecutiveFailures > 0 && (
+                      <span className="ml-2 text-red-600">{endpoint.consecutiveFailures} failed attempt(s) in a row</span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3 text-sm">
+                    <button
+                      type="button"
+                      onClick={() => handleTest(endpoint)}
+                      disabled={testingId === endpoint.id}
+                      className="inline-flex items-center gap-1 text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                    >
+                      {testingId === endpoint.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                      Send test event
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setForm({ id: endpoint.id, url: endpoint.url, description: endpoint.description || "", events: endpoint.events })
+                      }
+                      className="inline-flex items-center gap-1 text-gray-600 hover:text-gray-800"
+                    >
+                      <Pencil className="h-4 w-4" />
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setDeleteTarget(endpoint)}
+                      className="inline-flex items-center gap-1 text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </div>
+
+              <button
+                type="button"
+                onClick={() => toggleExpanded(endpoint.id)}
+                className="flex w-full items-center gap-1 border-t border-gray-100 px-4 py-2 text-left text-sm text-gray-600 hover:bg-gray-50"
+              >
+                {expandedId === endpoint.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                Delivery log
+              </button>
+              {expandedId === endpoint.id && (
+                <div className="border-t border-gray-100 px-4 py-3">
+                  {deliveriesLoading === endpoint.id && !deliveries[endpoint.id] ? (
+                    <Loader2 className="h-5 w-5 animate-spin text-primary-600" />
+                  ) : (deliveries[endpoint.id] || []).length === 0 ? (
+                    <p className="text-sm text-gray-500">No deliveries yet.</p>
+                  ) : (
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs uppercase text-gray-500">
+                          <th className="py-1 pr-3">Event</th>
+                          <th className="py-1 pr-3">Status</th>
+                          <th className="py-1 pr-3">Response</th>
+                          <th className="py-1 pr-3">Attempts</th>
+                          <th className="py-1 pr-3">Time</th>
+                          <th className="py-1" />
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {(deliveries[endpoint.id] || []).map((delivery) => (
+                          <tr key={delivery.id}>
+                            <td className="py-2 pr-3 text-gray-800">{delivery.eventType}</td>
+                            <td className="py-2 pr-3">
+                              <span className={`rounded px-2 py-0.5 text-xs ${statusStyles[delivery.status]}`}>{delivery.status}</span>
+                              {delivery.status === "pending" && delivery.nextAttemptAt && (
+                                <div className="text-xs text-gray-500">
+                                  retry {new Date(delivery.nextAttemptAt).toLocaleTimeString()}
+                                </div>
+                              )}
+                            </td>
+                            <td className="py-2 pr-3 text-gray-700" title={delivery.responseBody || undefined}>
+                              {delivery.responseStatus ?? "—"}
+                              {delivery.error && <div className="text-xs text-red-600">{delivery.error}</div>}
+                            </td>
+                            <td className="py-2 pr-3 text-gray-700">
+                              {delivery.attempt}/{delivery.maxAttempts}
+                            </td>
+                            <td className="py-2 pr-3 text-gray-500 whitespace-nowrap">
+                              {new Date(delivery.createdAt).toLocaleString()}
+                              {delivery.durationMs !== null && <span className="ml-1 text-xs">({delivery.durationMs} ms)</span>}
+                            </td>
+                            <td className="py-2 text-right">
+                              {delivery.status !== "pending" && (
+                                <button
+                                  type="button"
+                                  onClick={() => handleRedeliver(endpoint.id, delivery.id)}
+                                  className="text-xs text-primary-600 hover:text-primary-700"
+                                >
+                                  Redeliver
+                                </button>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {form && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+          <form onSubmit={handleSave} className="w-full max-w-lg rounded-xl bg-white p-6 shadow-xl space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">{form.id ? "Edit webhook" : "Add webhook"}</h3>
+              <button type="button" onClick={() => setForm(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Endpoint URL</label>
+              <input
+                type="url"
+                required
+                value={form.url}
+                onChange={(e) => setForm({ ...form, url: e.target.value })}
+                placeholder="https://hooks.example.com/agency"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Description (optional)</label>
+              <input
+                type="text"
+                maxLength={255}
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Events</label>
+              <div className="space-y-2">
+                {events.map((event) => (
+                  <label key={event.id} className="flex items-center gap-2 text-sm text-gray-800">
+                    <input
+                      type="checkbox"
+                      checked={form.events.includes(event.id)}
+                      onChange={(e) =>
+                        setForm({
+                          ...form,
+                          events: e.target.checked ? [...form.events, event.id] : form.events.filter((id) => id !== event.id),
+                        })
+                      }
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    {event.label}
+                    <code className="text-xs text-gray-500">{event.id}</code>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-end gap-2 pt-2">
+              <button
+                type="button"
+                onClick={() => setForm(null)}
+                className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex items-center gap-2 bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 disabled:opacity-50"
+              >
+                {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={Boolean(deleteTarget)}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={handleDelete}
+        title="Delete webhook"
+        message={`Stop sending events to ${deleteTarget?.url ?? "this endpoint"} and delete its delivery log?`}
+        confirmText="Delete"
+      />
+    </div>
+  );
+};
+
+export default WebhooksManager;
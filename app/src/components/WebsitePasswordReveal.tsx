@@ -0,0 +1,64 @@
+import React, { useState } from "react";
+import toast from "react-hot-toast";
+import { Copy, Eye, EyeOff, Loader2 } from "lucide-react";
+import api from "@/lib/api";
+
+interface WebsitePasswordRevealProps {
+  clientId: string;
+  className?: string;
+}
+
+/** Masked website password with an on-demand "Reveal" (staff only; the server records each reveal in the audit log). */
+const WebsitePasswordReveal: React.FC<WebsitePasswordRevealProps> = ({ clientId, className = "" }) => {
+  const [password, setPassword] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const reveal = async () => {
+    setLoading(true);
+    try {
+      const res = await api.post(`/clients/${encodeURIComponent(clientId)}/website-password/reveal`);
+      setPassword(String(res.data?.password ?? ""));
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copy = () => {
+    if (password === null) return;
+    navigator.clipboard.writeText(password).then(
+      () => toast.success("Password copied"),
+      () => toast.error("Failed to copy")
+    );
+  };
+
+  return (
+    <span className={`inline-flex items-center gap-2 ${className}`}>
+      <span className="font-mono">{password ?? "••••••••"}</span>
+      {password === null ? (
+        <button
+          type="button"
+          onClick={reveal}
+          disabled={loading}
+          className="inline-flex items-center gap-1 text-xs font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+          title="Reveal password (this is recorded in the audit log)"
+        >
+          {loading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Eye className="h-3.5 w-3.5" />}
+          Reveal
+        </button>
+      ) : (
+        <>
+          <button type="button" onClick={copy} className="text-gray-500 hover:text-gray-700" title="Copy password">
+            <Copy className="h-3.5 w-3.5" />
+          </button>
+          <button type="button" onClick={() => setPassword(null)} className="text-gray-500 hover:text-gray-700" title="Hide password">
+            <EyeOff className="h-3.5 w-3.5" />
+          </button>
+        </>
+      )}
+    </span>
+  );
+};
+
+export default WebsitePasswordReveal;
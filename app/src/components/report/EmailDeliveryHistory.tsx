@@ -0,0 +1,277 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Loader2, MailX, RefreshCw } from "lucide-react";
+import toast from "react-hot-toast";
+import api from "@/lib/api";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import { ReportEmptyState } from "@/components/report/ReportPrimitives";
+
+type EmailDeliveryStatus = "sent" | "failed" | "delivered" | "bounced" | "complained";
+
+type EmailBatch = {
+  batchId: string;
+  templateType: string;
+  subject: string;
+  sentAt: string;
+  recipients: number;
+  delivered: number;
+  failed: number;
+  bounced: number;
+  complained: number;
+  opened: number;
+  clicked: number;
+  tracked: boolean;
+};
+
+type EmailLogRow = {
+  id: string;
+  createdAt: string;
+  recipient: string;
+  subject: string;
+  templateType: string;
+  status: EmailDeliveryStatus;
+  error: string | null;
+  bounceType: string | null;
+  openCount: number;
+  clickCount: number;
+  tracked: boolean;
+};
+
+type EmailSuppression = { email: string; reason: string; detail: string | null; createdAt: string };
+
+interface EmailDeliveryHistoryProps {
+  clients: Array<{ id: string; name: string }>;
+}
+
+const TEMPLATE_LABELS: Record<string, string> = {
+  report: "SEO report",
+  ppc_report: "PPC report",
+  local_map_report: "Local Map report",
+  campaign_wins: "Campaign wins",
+  transactional: "Email",
+};
+
+const STATUS_BADGES: Record<EmailDeliveryStatus, string> = {
+  sent: "bg-gray-100 text-gray-700",
+  delivered: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  bounced: "bg-red-100 text-red-800",
+  complained: "bg-amber-100 text-amber-800",
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+/** Report emails sent for a client: per-send delivery and open stats, recent recipients, and suppressed addresses. */
+const EmailDeliveryHistory: React.FC<EmailDeliveryHistoryProps> = ({ clients }) => {
+  const [clientId, setClientId] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [batches, setBatches] = useState<EmailBatch[]>([]);
+  const [logs, setLogs] = useState<EmailLogRow[]>([]);
+  const [suppressions, setSuppressions] = useState<EmailSuppression[]>([]);
+  const [unsuppressTarget, setUnsuppressTarget] = useState<EmailSuppression | null>(null);
+
+  useEffect(() => {
+    if (!clientId && clients.length > 0) setClientId(clients[0].id);
+  }, [clients, clientId]);
+
+  const load = useCallback(async () => {
+    if (!clientId) return;
+    setLoading(true);
+    try {
+      const res = await api.get("/email-events/deliveries", { params: { clientId }, _silent: true } as any);
+      setBatches((res.data?.batches ?? []) as EmailBatch[]);
+      setLogs((res.data?.logs ?? []) as EmailLogRow[]);
+      setSuppressions((res.data?.suppressions ?? []) as EmailSuppression[]);
+    } catch {
+      setBatches([]);
+      setLogs([]);
+      setSuppressions([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const handleUnsuppress = async () => {
+    if (!unsuppressTarget) return;
+    try {
+      await api.delete("/email-events/suppressions", { data: { clientId, email: unsuppressTarget.email } });
+      toast.success(`${unsuppressTarget.email} will receive report emails again`);
+      setUnsuppressTarget(null);
+      void load();
+    } catch {
+      // toast shown by api interceptor
+    }
+  };
+
+  if (clients.length === 0) {
+    return <ReportEmptyState message="Add a client to see its email delivery history." />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={clientId}
+          onChange={(e) => setClientId(e.target.value)}
+          className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+        >
+          {clients.map((client) => (
+            <option key={client.id} value={client.id}>
+              {client.name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => void load()}
+          disabled={loading}
+          className="inline-flex items-center gap-2 rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          Refresh
+        </button>
+      </div>
+
+      {suppressions.length > 0 && (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 p-4">
+          <p className="flex items-center gap-2 text-sm font-medium text-amber-900">
+            <MailX className="h-4 w-4" />
+            Skipped recipients
+          </p>
+          <p className="mt-1 text-xs text-amber-800">
+            These addresses hard-bounced or marked a report as spam, so reports are no longer sent to them.
+          </p>
+          <ul className="mt-3 space-y-2">
+            {suppressions.map((row) => (
+              <li key={row.email} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <span className="text-gray-900">
+                  {row.email}{" "}
+                  <span className="text-xs text-gray-500">
+                    {row.reason === "complaint" ? "spam complaint" : "hard bounce"} · {formatDateTime(row.createdAt)}
+                    {row.detail ? ` · ${row.detail}` : ""}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setUnsuppressTarget(row)}
+                  className="text-xs font-medium text-primary-600 hover:text-primary-700"
+                >
+                  Send again
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {loading && batches.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading delivery history…
+        </div>
+      ) : batches.length === 0 ? (
+        <ReportEmptyState message="No report emails sent for this client yet." />
+      ) : (
+        <>
+          <div className="overflow-x-auto rounded-lg border border-gray-200">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Sent</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Report</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Delivery</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-700">Engagement</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 bg-white">
+                {batches.map((batch) => {
+                  const problems = batch.failed + batch.bounced + batch.complained;
+                  return (
+                    <tr key={batch.batchId}>
+                      <td className="px-4 py-3 whitespace-nowrap text-gray-700">{formatDateTime(batch.sentAt)}</td>
+                      <td className="px-4 py-3">
+                        <p className="font-medium text-gray-900">{TEMPLATE_LABELS[batch.templateType] ?? batch.templateType}</p>
+                        <p className="text-xs text-gray-500 truncate max-w-xs" title={batch.subject}>
+                          {batch.subject}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">
+                        {batch.recipients} recipient{batch.recipients === 1 ? "" : "s"}
+                        {problems > 0 && <span className="ml-2 text-xs text-red-700">{problems} not delivered</span>}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">
+                        {batch.tracked ? (
+                          <>
+                            Opened {batch.opened} of {batch.recipients}
+                            {batch.clicked > 0 && <span className="ml-2 text-xs text-gray-500">{batch.clicked} clicked</span>}
+                          </>
+                        ) : (
+                          <span className="text-xs text-gray-400">Not tracked</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <p className="mb-2 text-sm font-medium text-gray-900">Recent emails</p>
+            <div className="overflow-x-auto rounded-lg border border-gray-200">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-medium text-gray-700">Recipient</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-700">Status</th>
+                    <th className="px-4 py-3 text-left font-medium text-gray-700">Sent</th>
+                    <th className="px-4 py-3 text-right font-medium text-gray-700">Opens</th>
+                    <th className="px-4 py-3 text-right font-medium text-gray-700">Clicks</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 bg-white">
+                  {logs.map((log) => (
+                    <tr key={log.id}>
+                      <td className="px-4 py-3">
+                        <p className="text-gray-900">{log.recipient}</p>
+                        {log.error && (
+                          <p className="text-xs text-red-700 truncate max-w-sm" title={log.error}>
+                            {log.error}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_BADGES[log.status]}`}>
+                          {log.status === "bounced" && log.bounceType ? `${log.bounceType} bounce` : log.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-gray-700">{formatDateTime(log.createdAt)}</td>
+                      <td className="px-4 py-3 text-right text-gray-700">{log.tracked ? log.openCount : "—"}</td>
+                      <td className="px-4 py-3 text-right text-gray-700">{log.tracked ? log.clickCount : "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      <ConfirmDialog
+        isOpen={Boolean(unsuppressTarget)}
+        onClose={() => setUnsuppressTarget(null)}
+        onConfirm={() => void handleUnsuppress()}
+        title="Send reports to this address again?"
+        message={`Only do this if ${unsuppressTarget?.email ?? "the address"} works again; another hard bounce will skip it again.`}
+        confirmText="Send again"
+        variant="warning"
+      />
+    </div>
+  );
+};
+
+export default EmailDeliveryHistory;
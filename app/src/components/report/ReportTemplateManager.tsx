@@ -0,0 +1,458 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { DragDropContext, Draggable, Droppable, DropResult } from "@hello-pangea/dnd";
+import { Edit, Eye, GripVertical, LayoutTemplate, Loader2, Plus, Trash2, Type, X } from "lucide-react";
+import toast from "react-hot-toast";
+import api from "@/lib/api";
+import ConfirmDialog from "@/components/ConfirmDialog";
+import { ReportEmptyState } from "@/components/report/ReportPrimitives";
+
+export type ReportTemplateBlock =
+  | { id: string; type: "section"; section: string; commentary: string | null }
+  | { id: string; type: "text"; title: string | null; body: string };
+
+export type ReportTemplate = {
+  id: string;
+  name: string;
+  description: string | null;
+  blocks: ReportTemplateBlock[];
+  updatedAt: string;
+  scheduleCount: number;
+};
+
+type SectionOption = { id: string; title: string; description: string };
+
+type TemplateDraft = { id: string | null; name: string; description: string; blocks: ReportTemplateBlock[] };
+
+interface ReportTemplateManagerProps {
+  clients: Array<{ id: string; name: string }>;
+  /** Called after templates are created, renamed or deleted so schedule pickers can refresh. */
+  onChange?: () => void;
+}
+
+let nextDraftBlockId = 1;
+const draftBlockId = () => `draft-${Date.now().toString(36)}-${nextDraftBlockId++}`;
+
+/** Agencies build report layouts from built-in sections and free text; schedules that use a template send it as email and PDF. */
+const ReportTemplateManager: React.FC<ReportTemplateManagerProps> = ({ clients, onChange }) => {
+  const [loading, setLoading] = useState(true);
+  const [templates, setTemplates] = useState<ReportTemplate[]>([]);
+  const [sections, setSections] = useState<SectionOption[]>([]);
+  const [defaultBlocks, setDefaultBlocks] = useState<ReportTemplateBlock[]>([]);
+  const [maxBlocks, setMaxBlocks] = useState(40);
+  const [canManage, setCanManage] = useState(false);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<ReportTemplate | null>(null);
+  const [previewClientId, setPreviewClientId] = useState("");
+  const [previewing, setPreviewing] = useState(false);
+  const [previewHtml, setPreviewHtml] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await api.get("/report-templates", { _silent: true } as any);
+      setTemplates((res.data?.templates ?? []) as ReportTemplate[]);
+      setSections((res.data?.sections ?? []) as SectionOption[]);
+      setDefaultBlocks((res.data?.defaultBlocks ?? []) as ReportTemplateBlock[]);
+      setMaxBlocks(Number(res.data?.maxBlocks) || 40);
+      setCanManage(Boolean(res.data?.canManage));
+    } catch {
+      setTemplates([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const sectionTitle = (id: string) => sections.find((s) => s.id === id)?.title ?? id;
+  const usedSections = new Set(draft?.blocks.flatMap((b) => (b.type === "section" ? [b.section] : [])) ?? []);
+  const availableSections = sections.filter((s) => !usedSections.has(s.id));
+
+  const updateBlock = (id: string, patch: Partial<ReportTemplateBlock>) =>
+    setDraft((prev) =>
+      prev ? { ...prev, blocks: prev.blocks.map((b) => (b.id === id ? ({ ...b, ...patch } as ReportTemplateBlock) : b)) } : prev
+    );
+
+  const removeBlock = (id: string) =>
+    setDraft((prev) => (prev ? { ...prev, blocks: prev.blocks.filter((b) => b.id !== id) } : prev));
+
+  const addBlock = (block: ReportTemplateBlock) =>
+    setDraft((prev) => (prev && prev.blocks.length < maxBlocks ? { ...prev, blocks: [...prev.blocks, block] } : prev));
+
+  const handleDragEnd = (result: DropResult) => {
+    if (!result.destination || result.destination.index === result.source.index) return;
+    const from = result.source.index;
+    const to = result.destination.index;
+    setDraft((prev) => {
+      if (!prev) return prev;
+      const blocks = [...prev.blocks];
+      const [moved] = blocks.splice(from, 1);
+      blocks.splice(to, 0, moved);
+      return { ...prev, blocks };
+    });
+  };
+
+  const startNew = () => {
+    setPreviewHtml(null);
+    setDraft({ id: null, name: "", description: "", blocks: defaultBlocks.map((b) => ({ ...b, id: draftBlockId() })) });
+  };
+
+  const startEdit = (template: ReportTemplate) => {
+    setPreviewHtml(null);
+    setDraft({ id: template.id, name: template.name, description: template.description ?? "", blocks: template.blocks });
+  };
+
+  const validateDraft = (value: TemplateDraft) => {
+    if (value.blocks.length === 0) return "Add at least one block.";
+    if (value.blocks.some((b) => b.type === "text" && !b.body.trim())) return "Text blocks need some text.";
+    return null;
+  };
+
+  const payloadBlocks = (value: TemplateDraft) =>
+    value.blocks.map((b) =>
+      b.type === "section"
+        ? { id: b.id, type: b.type, section: b.section, commentary: b.commentary?.trim() || null }
+        : { id: b.id, type: b.type, title: b.title?.trim() || null, body: b.body.trim() }
+    );
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      toast.error("Give the template a name.");
+      return;
+    }
+    const invalid = validateDraft(draft);
+    if (invalid) {
+      toast.error(invalid);
+      return;
+    }
+    setSaving(true);
+    try {
+      const body = { name: draft.name.trim(), description: draft.description.trim() || null, blocks: payloadBlocks(draft) };
+      if (draft.id) {
+        await api.put(`/report-templates/${draft.id}`, body);
+      } else {
+        await api.post("/report-templates", body);
+      }
+      toast.success("Report template saved");
+      setDraft(null);
+      setPreviewHtml(null);
+      await load();
+      onChange?.();
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const target = deleteTarget;
+    setDeleteTarget(null);
+    if (!target) return;
+    try {
+      await api.delete(`/report-templates/${target.id}`);
+      toast.success("Report template deleted");
+      if (draft?.id === target.id) setDraft(null);
+      await load();
+      onChange?.();
+    } catch {
+      // toast shown by api interceptor
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!draft) return;
+    if (!previewClientId) {
+      toast.error("Choose a client to preview with.");
+      return;
+    }
+    const invalid = validateDraft(draft);
+    if (invalid) {
+      toast.error(invalid);
+      return;
+    }
+    setPreviewing(true);
+    try {
+      const res = await api.post("/report-templates/preview", {
+        clientId: previewClientId,
+        name: draft.name.trim() || undefined,
+        blocks: payloadBlocks(draft),
+      });
+      setPreviewHtml(String(res.data?.html ?? ""));
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="h-16 rounded-lg bg-gray-100 animate-pulse" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      {!draft && (
+        <>
+          {templates.length === 0 ? (
+            <ReportEmptyState message="No report templates yet. Scheduled reports use the standard layout." />
+          ) : (
+            <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+              {templates.map((template) => (
+                <li key={template.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{template.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {template.blocks.length} block{template.blocks.length === 1 ? "" : "s"}
+                      {template.scheduleCount > 0 &&
+                        ` · used by ${template.scheduleCount} schedule${template.scheduleCount === 1 ? "" : "s"}`}
+                      {template.description ? ` · ${template.description}` : ""}
+                    </p>
+                  </div>
+                  {canManage && (
+                    <div className="flex items-center gap-1 shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => startEdit(template)}
+                        className="p-2 text-primary-600 hover:bg-primary-50 rounded-lg"
+                        title="Edit template"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setDeleteTarget(template)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                        title="Delete template"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {canManage && (
+            <button
+              type="button"
+              onClick={startNew}
+              className="inline-flex items-center gap-2 rounded-lg border border-primary-200 px-4 py-2 text-sm font-medium text-primary-700 hover:bg-primary-50"
+            >
+              <Plus className="h-4 w-4" />
+              New template
+            </button>
+          )}
+        </>
+      )}
+
+      {draft && (
+        <div className="space-y-4 rounded-xl border border-gray-200 bg-gray-50/50 p-4">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Template name</label>
+              <input
+                value={draft.name}
+                maxLength={120}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Monthly client review"
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Description (optional)</label>
+              <input
+                value={draft.description}
+                maxLength={500}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+          </div>
+
+          <DragDropContext onDragEnd={handleDragEnd}>
+            <Droppable droppableId="report-template-blocks">
+              {(provided) => (
+                <div ref={provided.innerRef} {...provided.droppableProps} className="space-y-2">
+                  {draft.blocks.map((block, index) => (
+                    <Draggable draggableId={block.id} index={index} key={block.id}>
+                      {(dragProvided, snapshot) => (
+                        <div
+                          ref={dragProvided.innerRef}
+                          {...dragProvided.draggableProps}
+                          className={`flex gap-3 rounded-lg border bg-white p-3 ${snapshot.isDragging ? "border-primary-300 shadow-lg" : "border-gray-200"}`}
+                        >
+                          <div {...dragProvided.dragHandleProps} className="pt-1 text-gray-400 hover:text-gray-600" title="Drag to reorder">
+                            <GripVertical className="h-4 w-4" />
+                          </div>
+                          <div className="flex-1 min-w-0 space-y-2">
+                            {block.type === "section" ? (
+                              <>
+                                <p className="text-sm font-semibold text-gray-900 inline-flex items-center gap-2">
+                                  <LayoutTemplate className="h-4 w-4 text-primary-600" />
+                                  {sectionTitle(block.section)}
+                                </p>
+                                <textarea
+                                  value={block.commentary ?? ""}
+                                  maxLength={5000}
+                                  rows={2}
+                                  onChange={(e) => updateBlock(block.id, { commentary: e.target.value })}
+                                  placeholder="Commentary shown under this section (optional)"
+                                  className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                                />
+                              </>
+                            ) : (
+                              <>
+                                <input
+                                  value={block.title ?? ""}
+                                  maxLength={120}
+                                  onChange={(e) => updateBlock(block.id, { title: e.target.value })}
+                                  placeholder="Heading (optional)"
+                                  className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm font-semibold focus:outline-none focus:ring-2 focus:ring-primary-500"
+                                />
+                                <textarea
+                                  value={block.body}
+                                  maxLength={10000}
+                                  rows={3}
+                                  onChange={(e) => updateBlock(block.id, { body: e.target.value })}
+                                  placeholder="Text shown in the report. Leave a blank line between paragraphs."
+                                  className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                                />
+                              </>
+                            )}
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => removeBlock(block.id)}
+                            className="self-start p-1.5 rounded text-gray-400 hover:text-red-600 hover:bg-red-50"
+                            title="Remove block"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      )}
+                    </Draggable>
+                  ))}
+                  {provided.placeholder}
+                </div>
+              )}
+            </Droppable>
+          </DragDropContext>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value=""
+              disabled={availableSections.length === 0 || draft.blocks.length >= maxBlocks}
+              onChange={(e) => {
+                if (e.target.value) addBlock({ id: draftBlockId(), type: "section", section: e.target.value, commentary: null });
+              }}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:opacity-50"
+            >
+              <option value="">Add section…</option>
+              {availableSections.map((section) => (
+                <option key={section.id} value={section.id} title={section.description}>
+                  {section.title}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => addBlock({ id: draftBlockId(), type: "text", title: null, body: "" })}
+              disabled={draft.blocks.length >= maxBlocks}
+              className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Type className="h-4 w-4" />
+              Add text block
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3 border-t border-gray-200 pt-4">
+            <div className="flex items-center gap-2">
+              <select
+                value={previewClientId}
+                onChange={(e) => setPreviewClientId(e.target.value)}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                <option value="">Preview with client…</option>
+                {clients.map((client) => (
+                  <option key={client.id} value={client.id}>
+                    {client.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => void handlePreview()}
+                disabled={previewing}
+                className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {previewing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Eye className="h-4 w-4" />}
+                Preview
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setDraft(null);
+                  setPreviewHtml(null);
+                }}
+                className="px-4 py-2 rounded-lg border border-gray-300 bg-white text-sm text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={() => void handleSave()}
+                disabled={saving}
+                className="inline-flex items-center gap-2 rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+              >
+                {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+                Save template
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {previewHtml !== null && (
+        <div className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4">
+          <div className="bg-white rounded-2xl shadow-2xl ring-1 ring-gray-200/80 w-full max-w-5xl max-h-[92vh] overflow-hidden flex flex-col">
+            <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Template Preview</h3>
+              <button
+                onClick={() => setPreviewHtml(null)}
+                className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 hover:text-gray-700"
+                title="Close preview"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="p-4 bg-gray-50 flex-1 overflow-auto">
+              <iframe
+                title="Report template email preview"
+                srcDoc={previewHtml}
+                className="w-full h-[70vh] rounded-lg border border-gray-200 bg-white"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        isOpen={deleteTarget !== null}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={() => void handleDelete()}
+        title="Delete report template"
+        message={`Delete "${deleteTarget?.name ?? ""}"? Schedules using it go back to the standard report layout.`}
+        confirmText="Delete"
+        variant="warning"
+      />
+    </div>
+  );
+};
+
+export default ReportTemplateManager;
@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+import api from "@/lib/api";
+
+export type KeywordRankSeriesPoint = {
+  date: string;
+  position: number | null;
+};
+
+/** Same normalization the server uses to key rank history by keyword text. */
+export function normalizeKeywordKey(value: unknown): string {
+  return String(value || "")
+    .trim()
+    .toLowerCase()
+    .replace(/_/g, " ")
+    .replace(/\s+/g, " ");
+}
+
+/**
+ * Loads the daily rank series for every keyword of a client (one request per table, not per row).
+ * Uses the public share endpoint when a share token is given.
+ */
+export function useKeywordRankSeries(
+  clientId: string | null | undefined,
+  options?: { shareToken?: string; days?: number; refreshKey?: number }
+): Record<string, KeywordRankSeriesPoint[]> {
+  const [series, setSeries] = useState<Record<string, KeywordRankSeriesPoint[]>>({});
+  const shareToken = options?.shareToken;
+  const days = options?.days ?? 90;
+  const refreshKey = options?.refreshKey ?? 0;
+
+  useEffect(() => {
+    if (!clientId) {
+      setSeries({});
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = shareToken
+          ? await api.get(`/seo/share/${encodeURIComponent(shareToken)}/keyword-history`, { params: { days } })
+          : await api.get(`/seo/keywords/${clientId}/history`, { params: { days } });
+        if (!cancelled) setSeries(res.data?.series && typeof res.data.series === "object" ? res.data.series : {});
+      } catch {
+        // Trend sparklines are supplementary; the table still renders without them.
+        if (!cancelled) setSeries({});
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [clientId, shareToken, days, refreshKey]);
+
+  return series;
+}
@@ -1,5 +1,6 @@
 import axios from "axios";
 import toast from "react-hot-toast";
+import { STEP_UP_HEADER, clearStepUpToken, getStepUpToken, requestStepUp } from "./stepUp";
 
 // Prefer VITE_API_URL; fallback to same origin (e.g. dev proxy or missing env).
 // Normalize malformed values (e.g. "api.example.com" without protocol) to avoid
@@ -44,6 +45,7 @@ const resolveApiOrigin = (): string => {
 
 const API_ORIGIN = resolveApiOrigin();
 const baseURL = `${API_ORIGIN.replace(/\/+$/, "")}/api`;
+export const API_BASE_URL = baseURL;
 
 /**
  * Resolve a stored upload URL to a download URL that hits the backend.
@@ -78,6 +80,54 @@ const NETWORK_ERROR_KEY = "__network_unreachable__";
 let pendingNetworkToast: ReturnType<typeof setTimeout> | null = null;
 const NETWORK_TOAST_DELAY_MS = 4000;
 
+// Session tokens: a short-lived access token plus a refresh token that is rotated on every use
+const ACCESS_TOKEN_KEY = "token";
+const REFRESH_TOKEN_KEY = "refreshToken";
+
+export function setSessionTokens(token: string, refreshToken?: string | null) {
+  localStorage.setItem(ACCESS_TOKEN_KEY, token);
+  if (refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+}
+
+export function getAccessToken(): string | null {
+  return localStorage.getItem(ACCESS_TOKEN_KEY);
+}
+
+export function clearSessionTokens() {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+let refreshInFlight: Promise<boolean> | null = null;
+
+const exchangeRefreshToken = async (): Promise<boolean> => {
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+  if (!refreshToken) return false;
+  try {
+    // Plain axios: the refresh call must not go through the interceptors below
+    const res = await axios.post(`${baseURL}/auth/refresh`, { refreshToken });
+    setSessionTokens(res.data.token, res.data.refreshToken);
+    return true;
+  } catch (err: any) {
+    if (err?.response?.status === 409) {
+      // Another tab rotated the same refresh token a moment ago; wait for it to store the new pair
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      return localStorage.getItem(REFRESH_TOKEN_KEY) !== refreshToken;
+    }
+    return false;
+  }
+};
+
+/** Single-flight: concurrent 401s share one refresh request. */
+export const refreshSession = (): Promise<boolean> => {
+  if (!refreshInFlight) {
+    refreshInFlight = exchangeRefreshToken().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+};
+
 // Create axios instance with base configuration
 const api = axios.create({
   baseURL,
@@ -90,10 +140,14 @@ const api = axios.create({
 // Request interceptor to add auth token
 api.interceptors.request.use(
   (config) => {
-    const token = localStorage.getItem("token");
+    const token = localStorage.getItem(ACCESS_TOKEN_KEY);
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+    const stepUpToken = getStepUpToken();
+    if (stepUpToken && !config.headers[STEP_UP_HEADER]) {
+      config.headers[STEP_UP_HEADER] = stepUpToken;
+    }
     // Don't override Content-Type for FormData (file uploads)
     if (config.data instanceof FormData) {
       delete config.headers["Content-Type"];
@@ -116,9 +170,30 @@ api.interceptors.response.use(
     }
     return res;
   },
-  (error) => {
+  async (error) => {
     const status = error.response?.status;
     const url = error.config?.url ?? "";
+
+    // Access token expired: refresh the session and replay the request once
+    if (status === 401 && error.response?.data?.code === "TOKEN_EXPIRED" && error.config && !error.config._sessionRefreshed) {
+      if (await refreshSession()) {
+        return api.request({ ...error.config, _sessionRefreshed: true } as any);
+      }
+    }
+
+    // Sensitive action: ask the user to re-authenticate, then replay the request once
+    if (status === 403 && error.response?.data?.code === "STEP_UP_REQUIRED" && error.config && !error.config._stepUpRetried) {
+      clearStepUpToken();
+      const stepUpToken = await requestStepUp();
+      if (stepUpToken) {
+        return api.request({
+          ...error.config,
+          _stepUpRetried: true,
+          headers: { ...error.config.headers, [STEP_UP_HEADER]: stepUpToken },
+        } as any);
+      }
+      return Promise.reject(error);
+    }
     const isAuth = /\/auth\/(login|register|verify|forgot-password|reset-password)/i.test(url);
     const isAgencyRegister = /\/agencies\/register/i.test(url) || /\/agencies\/register-free-trial/i.test(url);
     const isShare = /\/seo\/share\//i.test(url); // public shared dashboard endpoints
@@ -167,16 +242,20 @@ api.interceptors.response.use(
             }
           }
         } else if (status === 401) {
-          localStorage.removeItem("token");
+          clearSessionTokens();
           toast.error("Session expired. Please login again.");
         } else if (status === 404 && /\/auth\/me/i.test(url)) {
-          localStorage.removeItem("token");
+          clearSessionTokens();
           toast.error("Session expired. Please login again.");
         } else if (status === 403) {
           const code = error.response?.data?.code;
           const method = String(error.config?.method || "").toLowerCase();
           const isKeywordCreate = /\/seo\/keywords\/[^/]+$/i.test(url) && method === "post";
-          if (code === "TRIAL_EXPIRED") {
+          if (code === "TWO_FACTOR_SETUP_REQUIRED") {
+            // App renders the enrollment screen instead of the dashboard; no toast needed
+          } else if (code === "STEP_UP_REQUIRED") {
+            toast.error(error.response?.data?.message || "Please confirm your identity to continue.");
+          } else if (code === "TRIAL_EXPIRED") {
             toast.error(error.response?.data?.message || "Your free trial has ended. Please choose a paid plan to continue.");
             if (typeof window !== "undefined" && window.location.pathname.startsWith("/agency") && !window.location.pathname.endsWith("/subscription")) {
               window.location.replace("/agency/subscription");
@@ -186,7 +265,7 @@ api.interceptors.response.use(
             const isAuthMe = /\/auth\/me/i.test(url);
             const isInvalidToken = /invalid token|token/i.test((error.response?.data?.message || "").toLowerCase());
             if (isAuthMe || isInvalidToken) {
-              localStorage.removeItem("token");
+              clearSessionTokens();
               toast.error("Session expired. Please login again.");
             } else {
               if (isKeywordCreate) {
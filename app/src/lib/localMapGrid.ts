@@ -0,0 +1,72 @@
+export type LocalMapGridShape = "square" | "circle" | "polygon" | "zip";
+
+export type LocalMapGridSettingsValue = {
+  shape: LocalMapGridShape;
+  gridSize: number;
+  gridSpacingMiles: number;
+  /** One "lat,lng" vertex per line. */
+  polygonText: string;
+  /** ZIP / postal codes separated by commas, spaces or new lines. */
+  zipText: string;
+};
+
+export const LOCAL_MAP_GRID_SIZES = [3, 5, 7, 9, 11, 13] as const;
+export const LOCAL_MAP_GRID_SPACING_MIN_MILES = 0.1;
+export const LOCAL_MAP_GRID_SPACING_MAX_MILES = 5;
+
+export const DEFAULT_LOCAL_MAP_GRID_SETTINGS: LocalMapGridSettingsValue = {
+  shape: "square",
+  gridSize: 7,
+  gridSpacingMiles: 0.5,
+  polygonText: "",
+  zipText: "",
+};
+
+export const LOCAL_MAP_GRID_SHAPE_LABELS: Record<LocalMapGridShape, string> = {
+  square: "Square",
+  circle: "Circle",
+  polygon: "Service area",
+  zip: "ZIP codes",
+};
+
+const parsePolygonText = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.split(",").map((part) => Number(part.trim())))
+    .filter((parts) => parts.length === 2 && parts.every((part) => Number.isFinite(part)))
+    .map(([lat, lng]) => ({ lat, lng }));
+
+const parseZipText = (text: string) =>
+  Array.from(new Set(text.split(/[\s,;]+/).map((zip) => zip.trim()).filter(Boolean)));
+
+/** Request fields understood by the local map keyword, snapshot and grid preview endpoints. */
+export const buildLocalMapGridRequest = (value: LocalMapGridSettingsValue) => ({
+  gridShape: value.shape,
+  gridSize: value.gridSize,
+  gridSpacingMiles: value.gridSpacingMiles,
+  ...(value.shape === "polygon" ? { polygon: parsePolygonText(value.polygonText) } : {}),
+  ...(value.shape === "zip" ? { zipCodes: parseZipText(value.zipText) } : {}),
+});
+
+/**
+ * Index of the point closest to the middle of the grid's bounding box. Works for square, circular and irregular grids;
+ * for older square snapshots it lands on the same middle cell the sqrt-based layout used.
+ */
+export const getLocalMapGridCenterIndex = (cells: Array<{ lat: number | null; lng: number | null }>): number => {
+  const valid = cells
+    .map((cell, idx) => ({ lat: cell.lat ?? Number.NaN, lng: cell.lng ?? Number.NaN, idx }))
+    .filter((cell) => Number.isFinite(cell.lat) && Number.isFinite(cell.lng));
+  if (!valid.length) return Math.floor(cells.length / 2);
+  const midLat = (Math.min(...valid.map((c) => c.lat)) + Math.max(...valid.map((c) => c.lat))) / 2;
+  const midLng = (Math.min(...valid.map((c) => c.lng)) + Math.max(...valid.map((c) => c.lng))) / 2;
+  let best = valid[0];
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (const cell of valid) {
+    const distance = (cell.lat - midLat) ** 2 + (cell.lng - midLng) ** 2;
+    if (distance < bestDistance) {
+      best = cell;
+      bestDistance = distance;
+    }
+  }
+  return best.idx;
+};
@@ -0,0 +1,166 @@
+import { API_BASE_URL, getAccessToken, refreshSession } from "./api";
+
+// Server push channel (GET /api/realtime/stream, Server-Sent Events). Events only say what changed; listeners refetch
+// through the regular endpoints. One stream is shared by every listener in the tab and closed when the last one leaves.
+
+export type RealtimeEvent =
+  | { type: "notification" }
+  | { type: "task"; taskId: string | null; action: "created" | "updated" | "deleted" }
+  | { type: "task_comment"; taskId: string }
+  | { type: "web_design"; projectId: string; pageId: string | null };
+
+export type RealtimeEventType = RealtimeEvent["type"];
+
+type EventListener = (event: RealtimeEvent) => void;
+type StatusListener = (connected: boolean) => void;
+
+const RECONNECT_BASE_DELAY_MS = 2000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+const eventListeners = new Set<EventListener>();
+const statusListeners = new Set<StatusListener>();
+let controller: AbortController | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let failedAttempts = 0;
+let connected = false;
+
+const setConnected = (value: boolean) => {
+  if (connected === value) return;
+  connected = value;
+  statusListeners.forEach((listener) => listener(value));
+};
+
+const parseEventBlock = (block: string): RealtimeEvent | null => {
+  const data = block
+    .split("\n")
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).trimStart())
+    .join("\n");
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as RealtimeEvent;
+  } catch {
+    return null;
+  }
+};
+
+const scheduleReconnect = () => {
+  if (reconnectTimer || eventListeners.size === 0) return;
+  const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** failedAttempts);
+  failedAttempts += 1;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    if (eventListeners.size > 0 && !controller) void connect();
+  }, delay);
+};
+
+// fetch instead of EventSource so the access token travels in the Authorization header, not the URL
+const connect = async (): Promise<void> => {
+  const token = getAccessToken();
+  if (!token) {
+    scheduleReconnect();
+    return;
+  }
+  const ownController = new AbortController();
+  controller = ownController;
+  try {
+    const res = await fetch(`${API_BASE_URL}/realtime/stream`, {
+      headers: { Authorization: `Bearer ${token}`, Accept: "text/event-stream" },
+      cache: "no-store",
+      signal: ownController.signal,
+    });
+    if (res.status === 401) {
+      const body = await res.json().catch(() => null);
+      if (body?.code === "TOKEN_EXPIRED" && (await refreshSession()) && controller === ownController) {
+        return connect();
+      }
+    }
+    if (!res.ok || !res.body) throw new Error(`Realtime stream unavailable (${res.status})`);
+
+    failedAttempts = 0;
+    setConnected(true);
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary >= 0) {
+        const event = parseEventBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (event) eventListeners.forEach((listener) => listener(event));
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+  } catch {
+    // Network error, server restart or a deliberate abort
+  }
+  if (controller !== ownController) return;
+  controller = null;
+  setConnected(false);
+  scheduleReconnect();
+};
+
+const disconnect = () => {
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  reconnectTimer = null;
+  const active = controller;
+  controller = null;
+  active?.abort();
+  failedAttempts = 0;
+  setConnected(false);
+};
+
+const subscribe = (onEvent: EventListener, onStatus: StatusListener) => {
+  eventListeners.add(onEvent);
+  statusListeners.add(onStatus);
+  if (!controller && !reconnectTimer) void connect();
+  return () => {
+    eventListeners.delete(onEvent);
+    statusListeners.delete(onStatus);
+    if (eventListeners.size === 0) disconnect();
+  };
+};
+
+/**
+ * Calls `refresh` with each matching event, and with `null` whenever the channel (re)connects so anything missed while
+ * it was down is picked up. With `fallbackIntervalMs`, `refresh(null)` is also polled at that interval while the channel
+ * is down. Returns the cleanup for a useEffect.
+ */
+export function watchRealtime(
+  events: RealtimeEventType[],
+  refresh: (event: RealtimeEvent | null) => void,
+  options: { fallbackIntervalMs?: number } = {}
+): () => void {
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  const stopPolling = () => {
+    if (pollTimer) clearInterval(pollTimer);
+    pollTimer = null;
+  };
+  const startPolling = () => {
+    if (!options.fallbackIntervalMs || pollTimer) return;
+    pollTimer = setInterval(() => refresh(null), options.fallbackIntervalMs);
+  };
+
+  const unsubscribe = subscribe(
+    (event) => {
+      if (events.includes(event.type)) refresh(event);
+    },
+    (isConnected) => {
+      if (isConnected) {
+        stopPolling();
+        refresh(null);
+      } else {
+        startPolling();
+      }
+    }
+  );
+  if (!connected) startPolling();
+
+  return () => {
+    unsubscribe();
+    stopPolling();
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Step-up re-authentication for sensitive actions (impersonation, billing changes).
+ * The API answers 403 { code: "STEP_UP_REQUIRED" }; the api interceptor asks the mounted
+ * <StepUpPrompt /> for a token and retries. Tokens are reused until they expire.
+ */
+export const STEP_UP_HEADER = "X-Step-Up-Token";
+
+type StepUpHandler = () => Promise<string | null>;
+
+let handler: StepUpHandler | null = null;
+let pending: Promise<string | null> | null = null;
+let cached: { token: string; expiresAt: number } | null = null;
+
+/** Keep a small margin so a token does not expire between the check and the request. */
+const EXPIRY_MARGIN_MS = 15_000;
+
+export function registerStepUpHandler(next: StepUpHandler): () => void {
+  handler = next;
+  return () => {
+    if (handler === next) handler = null;
+  };
+}
+
+export function storeStepUpToken(token: string, expiresAt: string) {
+  const expires = new Date(expiresAt).getTime();
+  cached = Number.isFinite(expires) ? { token, expiresAt: expires } : null;
+}
+
+export function getStepUpToken(): string | null {
+  if (!cached || cached.expiresAt - EXPIRY_MARGIN_MS <= Date.now()) {
+    cached = null;
+    return null;
+  }
+  return cached.token;
+}
+
+export function clearStepUpToken() {
+  cached = null;
+}
+
+/** Resolve with a fresh token, or null when the user cancels or no prompt is mounted. */
+export function requestStepUp(): Promise<string | null> {
+  if (!handler) return Promise.resolve(null);
+  if (!pending) {
+    pending = handler().finally(() => {
+      pending = null;
+    });
+  }
+  return pending;
+}
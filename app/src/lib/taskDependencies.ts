@@ -0,0 +1,11 @@
+import type { Task, TaskDependencyRef } from "@/utils/types";
+
+/** Blocking tasks that are still open (not done or cancelled). */
+export const getOpenBlockers = (task: Pick<Task, "blockedBy">): TaskDependencyRef[] =>
+  (task.blockedBy ?? []).filter((blocker) => blocker.status !== "DONE" && blocker.status !== "CANCELLED");
+
+/** Hover text for the "Blocked" badge. */
+export const formatBlockedTitle = (task: Pick<Task, "blockedBy">) =>
+  `Waiting on: ${getOpenBlockers(task)
+    .map((blocker) => blocker.title)
+    .join(", ")}`;
@@ -0,0 +1,22 @@
+import type { Task, TaskWorkflowColumn } from "@/utils/types";
+
+/** Board shown until the workflow loads, and for agencies without a custom workflow (mirrors the server default). */
+export const DEFAULT_TASK_WORKFLOW_COLUMNS: TaskWorkflowColumn[] = [
+  { key: "todo", name: "To Do", coreStatus: "TODO" },
+  { key: "in-progress", name: "In Progress", coreStatus: "IN_PROGRESS" },
+  { key: "review", name: "Review", coreStatus: "REVIEW" },
+  { key: "needs-approval", name: "Needs Approval", coreStatus: "NEEDS_APPROVAL" },
+  { key: "done", name: "Done", coreStatus: "DONE" },
+].map((column) => ({ ...column, id: null, color: null, wipLimit: null, requiredFields: [], allowedNextKeys: null }) as TaskWorkflowColumn);
+
+/** Column a task sits in: its pinned column when it still matches the status, else the first column for its status. */
+export const resolveTaskWorkflowColumn = (
+  columns: TaskWorkflowColumn[],
+  task: Pick<Task, "status" | "workflowColumnId">
+): TaskWorkflowColumn | null => {
+  if (task.workflowColumnId) {
+    const pinned = columns.find((c) => c.id === task.workflowColumnId);
+    if (pinned && pinned.coreStatus === task.status) return pinned;
+  }
+  return columns.find((c) => c.coreStatus === task.status) ?? null;
+};
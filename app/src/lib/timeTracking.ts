@@ -0,0 +1,2 @@
+/** Hours with two decimals, matching the server's hours report and CSV export. */
+export const formatTrackedHours = (minutes: number) => `${(minutes / 60).toFixed(2)}h`;
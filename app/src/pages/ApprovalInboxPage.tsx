@@ -0,0 +1,418 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { CheckCircle2, Download, ExternalLink, FileCheck2, Loader2, RotateCcw, ShieldAlert, ShieldCheck } from "lucide-react";
+import toast from "react-hot-toast";
+import api from "@/lib/api";
+import InfoTooltip from "@/components/InfoTooltip";
+import type { ApprovalChainCheck, ProofItem, TaskApprovalDecision, TaskApprovalRecord } from "@/utils/types";
+
+interface InboxTask {
+  id: string;
+  title: string;
+  description: string | null;
+  category: string | null;
+  dueDate: string | null;
+  proof: string | ProofItem[] | null;
+  updatedAt: string;
+  client: { id: string; name: string; domain: string | null } | null;
+  assignee: { id: string; name: string | null; email: string } | null;
+}
+
+type HistoryResponse = { integrity: ApprovalChainCheck; records: TaskApprovalRecord[] };
+type Tab = "pending" | "history";
+
+const parseProof = (proof: InboxTask["proof"]): ProofItem[] => {
+  if (!proof) return [];
+  if (Array.isArray(proof)) return proof;
+  try {
+    const parsed = JSON.parse(proof);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const DECISION_LABELS: Record<TaskApprovalDecision, string> = {
+  APPROVED: "Approved",
+  REVISIONS_REQUESTED: "Revisions requested",
+};
+
+/** Client portal approvals: everything awaiting sign-off in one list, decided in bulk, with a signed history. */
+const ApprovalInboxPage = () => {
+  const [tab, setTab] = useState<Tab>("pending");
+  const [clients, setClients] = useState<Array<{ id: string; name: string }>>([]);
+  const [clientId, setClientId] = useState("");
+  const [tasks, setTasks] = useState<InboxTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [decision, setDecision] = useState<TaskApprovalDecision | null>(null);
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [lastBatchId, setLastBatchId] = useState<string | null>(null);
+  const [history, setHistory] = useState<HistoryResponse | null>(null);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [downloading, setDownloading] = useState<string | null>(null);
+
+  useEffect(() => {
+    api
+      .get("/clients", { _silent: true } as any)
+      .then((res) => {
+        const rows = Array.isArray(res.data) ? res.data : [];
+        setClients(rows.map((c: any) => ({ id: String(c.id), name: String(c.name || c.domain || "Client") })));
+      })
+      .catch(() => setClients([]));
+  }, []);
+
+  const loadInbox = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await api.get("/tasks/approvals/inbox", { params: clientId ? { clientId } : undefined });
+      const rows = Array.isArray(res.data) ? (res.data as InboxTask[]) : [];
+      setTasks(rows);
+      setSelected((prev) => new Set(rows.filter((t) => prev.has(t.id)).map((t) => t.id)));
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setLoading(false);
+    }
+  }, [clientId]);
+
+  useEffect(() => {
+    void loadInbox();
+  }, [loadInbox]);
+
+  const historyClientId = clientId || clients[0]?.id || "";
+
+  useEffect(() => {
+    if (tab !== "history" || !historyClientId) return;
+    let cancelled = false;
+    setHistoryLoading(true);
+    api
+      .get(`/tasks/approvals/history/${historyClientId}`)
+      .then((res) => {
+        if (!cancelled) setHistory(res.data as HistoryResponse);
+      })
+      .catch(() => {
+        if (!cancelled) setHistory(null);
+      })
+      .finally(() => {
+        if (!cancelled) setHistoryLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tab, historyClientId, lastBatchId]);
+
+  const batches = useMemo(() => {
+    const groups = new Map<string, TaskApprovalRecord[]>();
+    for (const record of history?.records ?? []) {
+      groups.set(record.batchId, [...(groups.get(record.batchId) ?? []), record]);
+    }
+    return Array.from(groups.entries()).map(([batchId, records]) => ({ batchId, records }));
+  }, [history]);
+
+  const allSelected = tasks.length > 0 && selected.size === tasks.length;
+
+  const toggle = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const downloadCertificate = async (batchId: string) => {
+    setDownloading(batchId);
+    try {
+      const res = await api.get(`/tasks/approvals/certificate/${batchId}`, { responseType: "blob" });
+      const blob = new Blob([res.data], { type: "application/pdf" });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `approval-certificate-${batchId.slice(0, 8)}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      window.URL.revokeObjectURL(url);
+    } catch {
+      toast.error("Could not download the approval certificate.");
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const submitDecision = async () => {
+    if (!decision || selected.size === 0 || !comment.trim()) return;
+    setSubmitting(true);
+    try {
+      const res = await api.post("/tasks/approvals/batch", { taskIds: Array.from(selected), decision, comment: comment.trim() });
+      const { batchId, count } = res.data as { batchId: string; count: number };
+      toast.success(`${decision === "APPROVED" ? "Approved" : "Requested revisions on"} ${count} item${count === 1 ? "" : "s"}.`);
+      setLastBatchId(batchId);
+      setDecision(null);
+      setComment("");
+      setSelected(new Set());
+      window.dispatchEvent(new Event("approvals-changed"));
+      await loadInbox();
+    } catch {
+      // toast shown by api interceptor
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="flex items-center gap-2 text-2xl font-bold text-gray-900">
+            Approvals
+            <InfoTooltip content="Every decision is recorded with your name, the time, your IP address and a fingerprint of the work you reviewed. Download a certificate for any decision from the history tab." />
+          </h1>
+          <p className="text-sm text-gray-500">Review completed work and approve it or ask for changes, one item or many at once.</p>
+        </div>
+        {clients.length > 1 && (
+          <select
+            value={clientId}
+            onChange={(e) => setClientId(e.target.value)}
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="">All businesses</option>
+            {clients.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="flex gap-1 border-b border-gray-200">
+        {(["pending", "history"] as Tab[]).map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setTab(value)}
+            className={`-mb-px border-b-2 px-4 py-2 text-sm font-medium ${
+              tab === value ? "border-primary-600 text-primary-700" : "border-transparent text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            {value === "pending" ? `Awaiting approval${tasks.length ? ` (${tasks.length})` : ""}` : "History"}
+          </button>
+        ))}
+      </div>
+
+      {lastBatchId && tab === "pending" && (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-800">
+          <span className="flex items-center gap-2">
+            <CheckCircle2 className="h-4 w-4" />
+            Your decision was recorded.
+          </span>
+          <button
+            type="button"
+            onClick={() => void downloadCertificate(lastBatchId)}
+            disabled={downloading === lastBatchId}
+            className="inline-flex items-center gap-1.5 font-medium text-emerald-800 hover:text-emerald-900 disabled:opacity-60"
+          >
+            {downloading === lastBatchId ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            Download certificate
+          </button>
+        </div>
+      )}
+
+      {tab === "pending" ? (
+        <div className="rounded-xl border border-gray-200 bg-white">
+          <div className="flex flex-wrap items-center justify-between gap-3 border-b border-gray-200 px-4 py-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                disabled={tasks.length === 0}
+                onChange={() => setSelected(allSelected ? new Set() : new Set(tasks.map((t) => t.id)))}
+                className="h-4 w-4 rounded border-gray-300 text-primary-600"
+              />
+              {selected.size > 0 ? `${selected.size} selected` : "Select all"}
+            </label>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                disabled={selected.size === 0}
+                onClick={() => setDecision("APPROVED")}
+                className="inline-flex items-center gap-1.5 rounded-lg bg-emerald-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-emerald-700 disabled:opacity-50"
+              >
+                <CheckCircle2 className="h-4 w-4" />
+                Approve
+              </button>
+              <button
+                type="button"
+                disabled={selected.size === 0}
+                onClick={() => setDecision("REVISIONS_REQUESTED")}
+                className="inline-flex items-center gap-1.5 rounded-lg border border-amber-300 bg-white px-3 py-1.5 text-sm font-medium text-amber-800 hover:bg-amber-50 disabled:opacity-50"
+              >
+                <RotateCcw className="h-4 w-4" />
+                Request revisions
+              </button>
+            </div>
+          </div>
+
+          {decision && (
+            <div className="space-y-3 border-b border-gray-200 bg-gray-50 px-4 py-4">
+              <label className="block text-sm font-medium text-gray-700">
+                {decision === "APPROVED"
+                  ? `Comment for approving ${selected.size} item${selected.size === 1 ? "" : "s"}`
+                  : `What should change on ${selected.size === 1 ? "this item" : `these ${selected.size} items`}?`}
+                <span className="text-red-500"> *</span>
+              </label>
+              <textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                rows={3}
+                maxLength={5000}
+                autoFocus
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                placeholder={decision === "APPROVED" ? "e.g. Reviewed and approved for publishing." : "Describe the changes you need."}
+              />
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setDecision(null);
+                    setComment("");
+                  }}
+                  className="rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  disabled={submitting || !comment.trim()}
+                  onClick={() => void submitDecision()}
+                  className="inline-flex items-center gap-1.5 rounded-lg bg-primary-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-primary-700 disabled:opacity-50"
+                >
+                  {submitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                  {decision === "APPROVED" ? "Sign and approve" : "Send revision request"}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center gap-2 py-12 text-sm text-gray-500">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading…
+            </div>
+          ) : tasks.length === 0 ? (
+            <div className="py-12 text-center text-sm text-gray-500">Nothing is waiting for your approval.</div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {tasks.map((task) => {
+                const proof = parseProof(task.proof);
+                return (
+                  <li key={task.id} className="flex items-start gap-3 px-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(task.id)}
+                      onChange={() => toggle(task.id)}
+                      className="mt-1 h-4 w-4 rounded border-gray-300 text-primary-600"
+                    />
+                    <div className="min-w-0 flex-1">
+                      <p className="font-medium text-gray-900">{task.title}</p>
+                      <p className="text-xs text-gray-500">
+                        {[
+                          task.client?.name,
+                          task.category,
+                          task.assignee ? `by ${task.assignee.name || task.assignee.email}` : null,
+                          `ready ${formatDistanceToNow(new Date(task.updatedAt), { addSuffix: true })}`,
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </p>
+                      {task.description && <p className="mt-1 line-clamp-2 text-sm text-gray-600">{task.description}</p>}
+                      {proof.length > 0 && (
+                        <div className="mt-2 flex flex-wrap gap-2">
+                          {proof.map((item, index) => (
+                            <a
+                              key={`${item.value}-${index}`}
+                              href={item.value}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="inline-flex max-w-xs items-center gap-1 truncate rounded-full bg-gray-100 px-2.5 py-0.5 text-xs text-gray-700 hover:bg-gray-200"
+                            >
+                              <ExternalLink className="h-3 w-3 shrink-0" />
+                              <span className="truncate">{item.name || item.value}</span>
+                            </a>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {history && (
+            <div
+              className={`flex items-center gap-2 rounded-lg border px-4 py-3 text-sm ${
+                history.integrity.valid ? "border-emerald-200 bg-emerald-50 text-emerald-800" : "border-red-200 bg-red-50 text-red-800"
+              }`}
+            >
+              {history.integrity.valid ? <ShieldCheck className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+              {history.integrity.valid
+                ? `All ${history.integrity.checked} approval records verify.`
+                : `${history.integrity.brokenRecordIds.length} approval record(s) no longer match their signatures.`}
+            </div>
+          )}
+          {historyLoading ? (
+            <div className="h-24 animate-pulse rounded-xl bg-gray-100" />
+          ) : batches.length === 0 ? (
+            <div className="rounded-xl border border-gray-200 bg-white py-12 text-center text-sm text-gray-500">No approval decisions yet.</div>
+          ) : (
+            batches.map(({ batchId, records }) => {
+              const first = records[0];
+              return (
+                <div key={batchId} className="rounded-xl border border-gray-200 bg-white p-4">
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {DECISION_LABELS[first.decision]} · {records.length} item{records.length === 1 ? "" : "s"}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {first.userName || first.userEmail} · {format(new Date(first.createdAt), "MMM d, yyyy h:mm a")}
+                        {first.ipAddress ? ` · ${first.ipAddress}` : ""}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => void downloadCertificate(batchId)}
+                      disabled={downloading === batchId}
+                      className="inline-flex items-center gap-1.5 rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-60"
+                    >
+                      {downloading === batchId ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileCheck2 className="h-4 w-4" />}
+                      Certificate
+                    </button>
+                  </div>
+                  {first.comment && <p className="mt-2 rounded-lg bg-gray-50 px-3 py-2 text-sm text-gray-700">{first.comment}</p>}
+                  <ul className="mt-2 space-y-1 text-sm text-gray-700">
+                    {records.map((record) => (
+                      <li key={record.id} className="flex items-center justify-between gap-3">
+                        <span className="truncate">{record.taskTitle}</span>
+                        {history?.integrity.brokenRecordIds.includes(record.id) && (
+                          <span className="shrink-0 text-xs font-medium text-red-600">Altered</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApprovalInboxPage;
@@ -0,0 +1,362 @@
+import { Fragment, useCallback, useEffect, useState, type FormEvent } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { ChevronDown, ChevronUp, Download, Loader2, RefreshCw, ScrollText } from "lucide-react";
+import toast from "react-hot-toast";
+import api from "@/lib/api";
+
+interface AuditEvent {
+  id: string;
+  createdAt: string;
+  action: string;
+  actionLabel: string;
+  actorUserId: string | null;
+  actorEmail: string | null;
+  actorRole: string | null;
+  agencyId: string | null;
+  agencyName: string | null;
+  clientId: string | null;
+  entityType: string;
+  entityId: string | null;
+  entityLabel: string | null;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  metadata: Record<string, unknown> | null;
+  ipAddress: string | null;
+}
+
+interface Filters {
+  action: string;
+  actor: string;
+  agencyId: string;
+  from: string;
+  to: string;
+}
+
+const PAGE_SIZE = 50;
+const EMPTY_FILTERS: Filters = { action: "", actor: "", agencyId: "", from: "", to: "" };
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+};
+
+const toQueryParams = (filters: Filters) =>
+  Object.fromEntries(Object.entries(filters).filter(([, value]) => value.trim() !== ""));
+
+/** Sensitive actions in the caller's agency (agency owners) or across all agencies (platform admins). */
+const AuditLogPage = () => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [actions, setActions] = useState<Array<{ id: string; label: string }>>([]);
+  const [agencies, setAgencies] = useState<Array<{ id: string; name: string }> | null>(null);
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [accessError, setAccessError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await api.get("/audit-log", {
+        params: { ...toQueryParams(filters), page, limit: PAGE_SIZE },
+        _silent: true,
+      } as any);
+      setEvents(res.data?.events || []);
+      setTotal(res.data?.total ?? 0);
+      setActions(res.data?.actions || []);
+      setAgencies(res.data?.agencies ?? null);
+      setAccessError(null);
+    } catch (err: any) {
+      const status = err?.response?.status;
+      if (status === 403 || status === 404) {
+        setAccessError(err?.response?.data?.message || "You don't have access to the audit log.");
+      } else {
+        toast.error(err?.response?.data?.message || "Failed to load audit log");
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const applyFilters = (e: FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setFilters(draft);
+  };
+
+  const resetFilters = () => {
+    setDraft(EMPTY_FILTERS);
+    setPage(1);
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const res = await api.get("/audit-log/export", {
+        params: toQueryParams(filters),
+        responseType: "blob",
+      });
+      const blob = new Blob([res.data], { type: "text/csv" });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `audit-log-${format(new Date(), "yyyy-MM-dd")}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      window.URL.revokeObjectURL(url);
+    } catch {
+      toast.error("Could not export the audit log.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const showAgencyColumn = agencies !== null;
+  const columnCount = showAgencyColumn ? 5 : 4;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-indigo-50/30 p-8">
+      <div className="mb-8 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <div className="flex h-12 w-12 items-center justify-center rounded-2xl bg-indigo-600">
+            <ScrollText className="h-6 w-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+            <p className="mt-0.5 text-sm text-gray-500">
+              Who archived clients, changed plans, issued credits, logged in as users or removed integrations and reports
+            </p>
+          </div>
+        </div>
+        {!accessError && (
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => void load()}
+              className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} /> Refresh
+            </button>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={exporting || total === 0}
+              className="inline-flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white hover:bg-indigo-700 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />} Export CSV
+            </button>
+          </div>
+        )}
+      </div>
+
+      {accessError ? (
+        <div className="rounded-2xl border-2 border-dashed border-gray-300 bg-white/60 py-16 text-center text-sm text-gray-500">
+          {accessError}
+        </div>
+      ) : (
+        <>
+          <form
+            onSubmit={applyFilters}
+            className="mb-6 grid grid-cols-1 gap-3 rounded-2xl border border-gray-200 bg-white p-4 shadow-sm md:grid-cols-3 lg:grid-cols-6"
+          >
+            <select
+              value={draft.action}
+              onChange={(e) => setDraft((d) => ({ ...d, action: e.target.value }))}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="">All actions</option>
+              {actions.map((a) => (
+                <option key={a.id} value={a.id}>
+                  {a.label}
+                </option>
+              ))}
+            </select>
+            {showAgencyColumn && (
+              <select
+                value={draft.agencyId}
+                onChange={(e) => setDraft((d) => ({ ...d, agencyId: e.target.value }))}
+                className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="">All agencies</option>
+                {(agencies || []).map((a) => (
+                  <option key={a.id} value={a.id}>
+                    {a.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <input
+              type="text"
+              value={draft.actor}
+              onChange={(e) => setDraft((d) => ({ ...d, actor: e.target.value }))}
+              placeholder="Actor email"
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-indigo-500"
+            />
+            <input
+              type="date"
+              value={draft.from}
+              onChange={(e) => setDraft((d) => ({ ...d, from: e.target.value }))}
+              title="From"
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-indigo-500"
+            />
+            <input
+              type="date"
+              value={draft.to}
+              onChange={(e) => setDraft((d) => ({ ...d, to: e.target.value }))}
+              title="To"
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-transparent focus:ring-2 focus:ring-indigo-500"
+            />
+            <div className="flex items-center gap-2">
+              <button
+                type="submit"
+                className="flex-1 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white hover:bg-indigo-700"
+              >
+                Filter
+              </button>
+              <button
+                type="button"
+                onClick={resetFilters}
+                className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+              >
+                Reset
+              </button>
+            </div>
+          </form>
+
+          {loading && events.length === 0 ? (
+            <div className="flex items-center justify-center py-20">
+              <Loader2 className="h-8 w-8 animate-spin text-indigo-500" />
+            </div>
+          ) : events.length === 0 ? (
+            <div className="rounded-2xl border-2 border-dashed border-gray-300 bg-white/60 py-16 text-center text-sm text-gray-500">
+              No audit events match these filters.
+            </div>
+          ) : (
+            <div className="overflow-hidden rounded-2xl border border-gray-200 bg-white shadow-sm">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">Time</th>
+                    <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">Action</th>
+                    <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">Actor</th>
+                    {showAgencyColumn && (
+                      <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">Agency</th>
+                    )}
+                    <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">Target</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {events.map((event) => (
+                    <Fragment key={event.id}>
+                      <tr className="hover:bg-gray-50/60">
+                        <td className="px-6 py-4 align-top text-sm text-gray-700">
+                          <span title={format(new Date(event.createdAt), "PPpp")}>
+                            {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 align-top">
+                          <button
+                            type="button"
+                            onClick={() => setExpandedId((id) => (id === event.id ? null : event.id))}
+                            className="flex items-center gap-1 text-left text-sm font-semibold text-gray-900 hover:text-indigo-600"
+                          >
+                            {expandedId === event.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                            {event.actionLabel}
+                          </button>
+                        </td>
+                        <td className="px-6 py-4 align-top text-sm text-gray-700">
+                          {event.actorEmail || "System"}
+                          {event.actorRole && <p className="text-xs text-gray-400">{event.actorRole}</p>}
+                        </td>
+                        {showAgencyColumn && (
+                          <td className="px-6 py-4 align-top text-sm text-gray-700">{event.agencyName || "—"}</td>
+                        )}
+                        <td className="px-6 py-4 align-top text-sm text-gray-700">
+                          {event.entityLabel || event.entityId || "—"}
+                          <p className="text-xs capitalize text-gray-400">{event.entityType}</p>
+                        </td>
+                      </tr>
+                      {expandedId === event.id && (
+                        <tr>
+                          <td colSpan={columnCount} className="bg-gray-50 px-6 py-4 text-xs text-gray-700">
+                            {event.changes && Object.keys(event.changes).length > 0 && (
+                              <table className="mb-3 min-w-full">
+                                <thead>
+                                  <tr className="text-left text-gray-500">
+                                    <th className="py-1 pr-4 font-semibold">Field</th>
+                                    <th className="py-1 pr-4 font-semibold">Before</th>
+                                    <th className="py-1 font-semibold">After</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {Object.entries(event.changes).map(([field, change]) => (
+                                    <tr key={field} className="border-t border-gray-200 align-top">
+                                      <td className="py-1.5 pr-4 font-mono">{field}</td>
+                                      <td className="py-1.5 pr-4 text-rose-700">{formatValue(change.from)}</td>
+                                      <td className="py-1.5 text-emerald-700">{formatValue(change.to)}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )}
+                            {event.metadata && (
+                              <pre className="mb-2 whitespace-pre-wrap rounded-lg bg-white p-3 font-mono text-gray-600">
+                                {JSON.stringify(event.metadata, null, 2)}
+                              </pre>
+                            )}
+                            <p className="text-gray-500">
+                              {format(new Date(event.createdAt), "PPpp")}
+                              {event.ipAddress ? ` · IP ${event.ipAddress}` : ""}
+                              {event.entityId ? ` · ${event.entityType} ${event.entityId}` : ""}
+                            </p>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+              <div className="flex items-center justify-between border-t border-gray-200 bg-gray-50 px-6 py-3 text-sm text-gray-600">
+                <span>
+                  {total} event{total === 1 ? "" : "s"}
+                </span>
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setPage((p) => Math.max(1, p - 1))}
+                    disabled={page <= 1 || loading}
+                    className="rounded-lg border border-gray-300 bg-white px-3 py-1.5 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Previous
+                  </button>
+                  <span>
+                    Page {page} of {totalPages}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                    disabled={page >= totalPages || loading}
+                    className="rounded-lg border border-gray-300 bg-white px-3 py-1.5 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Next
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogPage;
@@ -17,6 +17,7 @@ import {
   Trash2,
   ArrowLeft,
   Upload,
+  FileSpreadsheet,
   RefreshCw,
   Loader2,
   X,
@@ -34,6 +35,7 @@ import {
   Lightbulb,
   Info,
   Target,
+  ScanSearch,
   Plug,
   Image,
   Video,
@@ -49,7 +51,7 @@ import {
   BookOpen,
   MapPin,
 } from "lucide-react";
-import api, { getUploadFileUrl } from "@/lib/api";
+import api, { getUploadFileUrl, setSessionTokens } from "@/lib/api";
 import {
   AccuracyEnvelope,
   formatUnavailableReason,
@@ -78,9 +80,27 @@ import ClientKeywordsManager from "@/components/ClientKeywordsManager";
 import WorkLogRecurringModal from "@/components/WorkLogRecurringModal";
 import type { WorkLogRecurringRuleForEdit } from "@/components/WorkLogRecurringModal";
 import InfoTooltip from "@/components/InfoTooltip";
+import ClientHoursReport from "@/components/ClientHoursReport";
+import ClientOnboardingTimeline from "@/components/ClientOnboardingTimeline";
+import { formatTrackedHours } from "@/lib/timeTracking";
 import GoogleBusinessSearch, { type GoogleBusinessSelection } from "@/components/GoogleBusinessSearch";
 import { formatReportPeriodLabel, getReportStatusBadgeClass, toDisplayReportStatus } from "@/lib/reportPresentation";
 import WebDesignWorkspace from "@/components/WebDesignWorkspace";
+import SearchConsoleIntegration from "@/components/SearchConsoleIntegration";
+import SearchConsoleOverview from "@/components/SearchConsoleOverview";
+import LocalMapGridSettings from "@/components/LocalMapGridSettings";
+import CsvImportWizard from "@/components/CsvImportWizard";
+import SpreadsheetExportMenu from "@/components/SpreadsheetExportMenu";
+import CompetitorTracker from "@/components/CompetitorTracker";
+import SiteAuditPanel from "@/components/SiteAuditPanel";
+import LinkBuildingPipeline from "@/components/LinkBuildingPipeline";
+import BacklinkAlertRules from "@/components/BacklinkAlertRules";
+import {
+  DEFAULT_LOCAL_MAP_GRID_SETTINGS,
+  buildLocalMapGridRequest,
+  getLocalMapGridCenterIndex,
+  type LocalMapGridSettingsValue,
+} from "@/lib/localMapGrid";
 
 interface TrafficSourceSlice {
   name: string;
@@ -166,6 +186,8 @@ type WorkLogTask = {
   updatedAt: string;
   assignee?: { id: string; name?: string | null; email: string } | null;
   createdBy?: { id: string; name?: string | null; email: string; role?: string | null } | null;
+  estimatedHours?: number | null;
+  loggedMinutes?: number;
 };
 
 type BacklinkFilter = "all" | "new" | "natural" | "manual";
@@ -751,7 +773,7 @@ const ClientDashboardPage: React.FC = () => {
   const [includedClientIds, setIncludedClientIds] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   type ClientDashboardTopTab = "dashboard" | "report" | "users" | "keywords" | "integration" | "web-design";
-  type ClientDashboardSection = "seo" | "ai-intelligence" | "local-map" | "ppc" | "backlinks" | "worklog";
+  type ClientDashboardSection = "seo" | "ai-intelligence" | "local-map" | "ppc" | "backlinks" | "competitors" | "site-audit" | "worklog";
 
   const initialNav = (() => {
     const requested = (location.state as { tab?: "dashboard" | "report" | "backlinks" | "worklog" | "users" | "keywords" | "integration" | "web-design" } | null)?.tab;
@@ -927,6 +949,7 @@ const ClientDashboardPage: React.FC = () => {
     isFollow: boolean;
   }>({ sourceUrl: "", targetUrl: "", anchorText: "", domainRating: "", isFollow: true });
   const [importBacklinksModalOpen, setImportBacklinksModalOpen] = useState(false);
+  const [backlinkCsvImportOpen, setBacklinkCsvImportOpen] = useState(false);
   const [importingBacklinks, setImportingBacklinks] = useState(false);
   const [importBacklinksText, setImportBacklinksText] = useState("");
   const [backlinkDeleteConfirm, setBacklinkDeleteConfirm] = useState<{
@@ -1237,6 +1260,7 @@ const ClientDashboardPage: React.FC = () => {
   const [localMapSelectedKeywordId, setLocalMapSelectedKeywordId] = useState("");
   const [localMapBusinessSelection, setLocalMapBusinessSelection] = useState<GoogleBusinessSelection | null>(null);
   const [localMapLabel, setLocalMapLabel] = useState("");
+  const [localMapGridSettings, setLocalMapGridSettings] = useState<LocalMapGridSettingsValue>(DEFAULT_LOCAL_MAP_GRID_SETTINGS);
   const [localMapSubmitting, setLocalMapSubmitting] = useState(false);
   const [localMapReportOpen, setLocalMapReportOpen] = useState(false);
   const [localMapReportLoading, setLocalMapReportLoading] = useState(false);
@@ -1268,14 +1292,7 @@ const ClientDashboardPage: React.FC = () => {
     if (!localMapReport?.current?.gridData) return [] as LocalMapGridCell[];
     return parseLocalMapGridData(localMapReport.current.gridData);
   }, [localMapReport?.current?.gridData]);
-  const localMapCurrentGridSize = useMemo(
-    () => Math.max(1, Math.round(Math.sqrt(localMapCurrentCells.length || 1))),
-    [localMapCurrentCells.length]
-  );
-  const localMapCurrentCenterIdx = useMemo(
-    () => Math.floor(localMapCurrentGridSize / 2) * localMapCurrentGridSize + Math.floor(localMapCurrentGridSize / 2),
-    [localMapCurrentGridSize]
-  );
+  const localMapCurrentCenterIdx = useMemo(() => getLocalMapGridCenterIndex(localMapCurrentCells), [localMapCurrentCells]);
   const localMapSelectedCurrentPoint = useMemo(() => {
     if (localMapSelectedCurrentPointIdx == null) return null;
     return localMapCurrentCells[localMapSelectedCurrentPointIdx] ?? null;
@@ -1457,6 +1474,7 @@ const ClientDashboardPage: React.FC = () => {
         centerLat: localMapBusinessSelection.lat,
         centerLng: localMapBusinessSelection.lng,
         locationLabel: localMapLabel.trim() || null,
+        ...buildLocalMapGridRequest(localMapGridSettings),
       }, { _silent: true } as any);
       const result = activateRes?.data as
         | { alreadyActive?: boolean; reactivated?: boolean; message?: string }
@@ -1472,6 +1490,7 @@ const ClientDashboardPage: React.FC = () => {
       setLocalMapSelectedKeywordId("");
       setLocalMapBusinessSelection(null);
       setLocalMapLabel("");
+      setLocalMapGridSettings(DEFAULT_LOCAL_MAP_GRID_SETTINGS);
       await loadLocalMapData();
     } catch (error: any) {
       const message = error?.response?.data?.message || "Failed to activate local map keyword";
@@ -1483,6 +1502,7 @@ const ClientDashboardPage: React.FC = () => {
     clientId,
     includedClientReadOnly,
     localMapBusinessSelection,
+    localMapGridSettings,
     localMapLabel,
     localMapSubmitting,
     localMapSelectedKeywordId,
@@ -1833,6 +1853,7 @@ const ClientDashboardPage: React.FC = () => {
   const [visitorSourcesLoading, setVisitorSourcesLoading] = useState(false);
   const [visitorSourcesError, setVisitorSourcesError] = useState<string | null>(null);
   const [seoOverviewWidgetsRefreshKey, setSeoOverviewWidgetsRefreshKey] = useState(0);
+  const [searchConsoleRefreshKey, setSearchConsoleRefreshKey] = useState(0);
   const [refreshingTopPages, setRefreshingTopPages] = useState(false);
   const [refreshingBacklinks, setRefreshingBacklinks] = useState(false);
   const dashboardExportReadyRef = useRef({
@@ -2520,6 +2541,19 @@ const ClientDashboardPage: React.FC = () => {
     setWorkLogModalOpen(true);
   };
 
+  // Backlink alert notifications link to ?tab=backlinks; open the section once and drop the param.
+  useEffect(() => {
+    const urlParams = new URLSearchParams(location.search);
+    if (urlParams.get("tab") !== "backlinks") return;
+    setActiveTab("dashboard");
+    setDashboardSection("backlinks");
+    urlParams.delete("tab");
+    navigate(
+      { pathname: location.pathname, search: urlParams.toString() ? `?${urlParams.toString()}` : "" },
+      { replace: true }
+    );
+  }, [location.search, location.pathname, navigate]);
+
   // Notification deep-link support:
   // /client/dashboard/:clientId?tab=worklog&taskId=xxx
   useEffect(() => {
@@ -3500,6 +3534,8 @@ const ClientDashboardPage: React.FC = () => {
         "local-map": "local-map-rankings",
         ppc: "ppc",
         backlinks: "backlinks",
+        competitors: "competitors",
+        "site-audit": "site-audit",
         worklog: "work-log",
       };
       const sectionSlug = sectionSlugMap[dashboardSection] || "dashboard";
@@ -7584,7 +7620,7 @@ const ClientDashboardPage: React.FC = () => {
           toast.error("Impersonation failed.");
           return;
         }
-        localStorage.setItem("token", token);
+        setSessionTokens(token, res.data?.refreshToken);
         await dispatch(checkAuth() as any);
         navigate(`/client/dashboard/${encodeURIComponent(redirectClientId || clientId)}`, { replace: true });
       } catch (e: any) {
@@ -8098,6 +8134,8 @@ const ClientDashboardPage: React.FC = () => {
                             ...(user?.role === "SPECIALIST" ? [] : [{ id: "local-map" as const, label: "Local Map Rankings", icon: MapPin }]),
                             ...(googleAdsConnected === true ? [{ id: "ppc" as const, label: "PPC", icon: TrendingUp }] : []),
                             { id: "backlinks", label: "Backlinks", icon: Search },
+                            { id: "competitors", label: "Competitors", icon: Target },
+                            { id: "site-audit", label: "Site Audit", icon: ScanSearch },
                             { id: "worklog", label: "Work Log", icon: Clock },
                           ] as const
                         ).map((item) => (
@@ -8420,6 +8458,13 @@ const ClientDashboardPage: React.FC = () => {
                 refreshKey={seoOverviewWidgetsRefreshKey}
               />
 
+              <SearchConsoleOverview
+                clientId={clientId}
+                estimatedOrganicTraffic={dashboardSummary?.trafficSourceSummary?.organicEstimatedTraffic}
+                estimatedAverageRank={dashboardSummary?.trafficSourceSummary?.averageRank}
+                refreshKey={seoOverviewWidgetsRefreshKey + searchConsoleRefreshKey}
+              />
+
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <div className="rounded-xl border-l-4 border-violet-500 bg-white p-4 shadow-sm ring-1 ring-gray-200/80">
                   <div className="flex items-center justify-between mb-3">
@@ -10054,6 +10099,15 @@ const ClientDashboardPage: React.FC = () => {
                             placeholder="Search Google Business Profile listing"
                           />
                         </div>
+                        <div className="mt-4">
+                          <LocalMapGridSettings
+                            value={localMapGridSettings}
+                            onChange={setLocalMapGridSettings}
+                            center={localMapBusinessSelection}
+                            trackedPointLimit={user?.role === "SUPER_ADMIN" || user?.role === "ADMIN" ? undefined : 49}
+                            disabled={localMapSubmitting}
+                          />
+                        </div>
                         <div className="mt-4 flex justify-end">
                           <button
                             type="button"
@@ -10206,6 +10260,16 @@ const ClientDashboardPage: React.FC = () => {
                       </div>
                       {!reportOnly && !clientPortalMode && (
                         <div className="flex items-center gap-3 flex-shrink-0">
+                          {clientId && <SpreadsheetExportMenu path={`/seo/backlinks/${clientId}/export`} filenameBase="backlinks" />}
+                          <button
+                            type="button"
+                            onClick={() => setBacklinkCsvImportOpen(true)}
+                            disabled={!canModifyClientSettings}
+                            className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                          >
+                            <FileSpreadsheet className="h-4 w-4" />
+                            <span>Import CSV</span>
+                          </button>
                           <button
                             type="button"
                             onClick={() => setImportBacklinksModalOpen(true)}
@@ -10502,9 +10566,24 @@ const ClientDashboardPage: React.FC = () => {
                         </div>
                       )}
                     </div>
+
+                    {clientId && !reportOnly && !clientPortalMode && (
+                      <>
+                        <LinkBuildingPipeline clientId={clientId} canManage={canModifyClientSettings} />
+                        <BacklinkAlertRules clientId={clientId} canManage={canModifyClientSettings} />
+                      </>
+                    )}
                   </div>
                 )}
 
+                {dashboardSection === "competitors" && clientId && (
+                  <CompetitorTracker clientId={clientId} canManage={!reportOnly && !clientPortalMode} />
+                )}
+
+                {dashboardSection === "site-audit" && clientId && (
+                  <SiteAuditPanel clientId={clientId} canManage={!reportOnly && !clientPortalMode} />
+                )}
+
                 {dashboardSection === "worklog" && (
                   <div className="space-y-6">
                     <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
@@ -10606,6 +10685,8 @@ const ClientDashboardPage: React.FC = () => {
                         </div>
                       </div>
                     </div>
+                    {clientId && <ClientOnboardingTimeline clientId={clientId} />}
+                    {clientId && <ClientHoursReport clientId={clientId} clientName={client?.name} />}
                     {/* Recurring tasks (this client) */}
                     {!reportOnly && (
                       <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
@@ -10858,6 +10939,12 @@ const ClientDashboardPage: React.FC = () => {
                                       >
                                         {titleDisplay || "—"}
                                       </button>
+                                      {(task.loggedMinutes ?? 0) > 0 && (
+                                        <span className="mt-0.5 block text-xs font-normal text-gray-500">
+                                          {formatTrackedHours(task.loggedMinutes ?? 0)} logged
+                                          {task.estimatedHours != null ? ` of ${task.estimatedHours}h estimated` : ""}
+                                        </span>
+                                      )}
                                     </td>
                                     <td className="px-6 py-4 whitespace-nowrap text-sm text-emerald-800/90">{workType}</td>
                                     <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">{dueDateStr}</td>
@@ -12091,7 +12178,7 @@ const ClientDashboardPage: React.FC = () => {
               {!reportOnly && activeTab === "integration" && (
                 <div className="space-y-8 max-w-3xl rounded-2xl border p-5" style={{ borderColor: brandSoftBorder, backgroundColor: brandSoftBg }}>
                   <h2 className="text-xl font-semibold text-gray-900">Integrations</h2>
-                  <p className="text-sm text-gray-600">Connect Google Analytics 4 and Google Ads for this client. When Google Ads is connected, the PPC tab appears in the Dashboard.</p>
+                  <p className="text-sm text-gray-600">Connect Google Analytics 4, Google Search Console and Google Ads for this client. When Google Ads is connected, the PPC tab appears in the Dashboard.</p>
 
                   {/* GA4 */}
                   <div className="bg-white border rounded-xl p-6" style={{ borderColor: brandSoftBorder }}>
@@ -12131,6 +12218,16 @@ const ClientDashboardPage: React.FC = () => {
                     )}
                   </div>
 
+                  {/* Google Search Console */}
+                  {clientId && (
+                    <SearchConsoleIntegration
+                      clientId={clientId}
+                      brandColor={brandColor}
+                      borderColor={brandSoftBorder}
+                      onChange={() => setSearchConsoleRefreshKey((key) => key + 1)}
+                    />
+                  )}
+
                   {/* Google Ads (PPC) */}
                   <div className="bg-white border rounded-xl p-6" style={{ borderColor: brandSoftBorder }}>
                     <h3 className="text-lg font-semibold text-gray-900 mb-2 flex items-center gap-2">
@@ -14059,6 +14156,20 @@ const ClientDashboardPage: React.FC = () => {
           document.body
         )}
 
+      {!reportOnly && !includedClientReadOnly && clientId &&
+        createPortal(
+          <CsvImportWizard
+            open={backlinkCsvImportOpen}
+            onClose={() => setBacklinkCsvImportOpen(false)}
+            title="Import backlinks"
+            endpoint={`/seo/backlinks/${clientId}/import`}
+            entityLabel="backlinks"
+            templateColumns={["Source URL", "Target URL", "Anchor text", "Domain rating", "Follow"]}
+            onImported={() => void fetchBacklinksList()}
+          />,
+          document.body
+        )}
+
       {/* Import Backlinks Modal */}
       {!reportOnly && !includedClientReadOnly &&
         importBacklinksModalOpen &&
@@ -14438,8 +14549,7 @@ const ClientDashboardPage: React.FC = () => {
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
                     {localMapReport.previousThree.map((snap) => {
                       const cells = parseLocalMapGridData(snap.gridData);
-                      const size = Math.max(1, Math.round(Math.sqrt(cells.length || 1)));
-                      const centerIdx = Math.floor(size / 2) * size + Math.floor(size / 2);
+                      const centerIdx = getLocalMapGridCenterIndex(cells);
                       const selectedIdx = localMapSelectedPreviousPointIdxByRun[snap.id] ?? centerIdx;
                       const selectedPoint = cells[selectedIdx] ?? null;
                       return (
@@ -14591,8 +14701,7 @@ const ClientDashboardPage: React.FC = () => {
                     {renderLocalMapLegend(localMapExportingPdf, true)}
                     {(() => {
                       const cells = parseLocalMapGridData(localMapReportBenchmark.gridData);
-                      const size = Math.max(1, Math.round(Math.sqrt(cells.length || 1)));
-                      const centerIdx = Math.floor(size / 2) * size + Math.floor(size / 2);
+                      const centerIdx = getLocalMapGridCenterIndex(cells);
                       const selectedIdx = localMapSelectedBenchmarkPointIdx ?? centerIdx;
                       const selectedPoint = cells[selectedIdx] ?? null;
                       return (
@@ -15758,6 +15867,13 @@ const ClientDashboardPage: React.FC = () => {
                   refreshKey={seoOverviewWidgetsRefreshKey}
                 />
 
+                <SearchConsoleOverview
+                  clientId={clientId}
+                  estimatedOrganicTraffic={dashboardSummary?.trafficSourceSummary?.organicEstimatedTraffic}
+                  estimatedAverageRank={dashboardSummary?.trafficSourceSummary?.averageRank}
+                  refreshKey={seoOverviewWidgetsRefreshKey + searchConsoleRefreshKey}
+                />
+
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                   <div className="bg-white p-4 rounded-xl border border-gray-200">
                     <div className="flex items-center justify-between mb-3">
@@ -16635,6 +16751,8 @@ const ClientDashboardPage: React.FC = () => {
         showStatus={user?.role === "SUPER_ADMIN" || user?.role === "ADMIN"}
         showExtendedSuperAdminFields={user?.role === "SUPER_ADMIN"}
         showSeoRoadmapSection={false}
+        clientId={["SUPER_ADMIN", "ADMIN", "AGENCY", "SPECIALIST"].includes(user?.role || "") ? client?.id : undefined}
+        hasWebsitePassword={Boolean(client?.hasWebsitePassword)}
         onClose={() => setShowViewClientModal(false)}
         onSave={
           ["SUPER_ADMIN", "ADMIN", "AGENCY"].includes(user?.role || "")
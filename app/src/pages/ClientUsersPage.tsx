@@ -1,6 +1,6 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { createPortal } from "react-dom";
-import api from "@/lib/api";
+import api, { setSessionTokens } from "@/lib/api";
 import toast from "react-hot-toast";
 import { ChevronDown, Eye, EyeOff, MoreVertical, Plus, Users, UserPlus, X } from "lucide-react";
 import { useNavigate } from "react-router-dom";
@@ -285,7 +285,7 @@ const ClientUsersPage: React.FC = () => {
           toast.error("Unable to impersonate user.");
           return;
         }
-        localStorage.setItem("token", token);
+        setSessionTokens(token, res?.data?.refreshToken);
         await dispatch(checkAuth() as any);
         navigate(`/client/dashboard/${encodeURIComponent(u.clientId)}`);
         toast.success("Logged in as user.");
@@ -34,6 +34,7 @@ import {
   FolderPlus,
   ChevronLeft,
   ChevronRight,
+  FileSpreadsheet,
 } from "lucide-react";
 import { format } from "date-fns";
 import { useNavigate, useLocation } from "react-router-dom";
@@ -41,8 +42,27 @@ import toast from "react-hot-toast";
 import api from "@/lib/api";
 import { buildClientCopyText } from "@/lib/clientAccountForm";
 import ClientAccountFormModal from "@/components/ClientAccountFormModal";
+import WebsitePasswordReveal from "@/components/WebsitePasswordReveal";
 import ConfirmDialog from "../components/ConfirmDialog";
 import AssignClientToAgencyModal from "../components/AssignClientToAgencyModal";
+import CsvImportWizard from "@/components/CsvImportWizard";
+import SpreadsheetExportMenu from "@/components/SpreadsheetExportMenu";
+
+const CLIENT_IMPORT_TEMPLATE_COLUMNS = [
+  "Name",
+  "Domain",
+  "Industry",
+  "Target keywords",
+  "Business address",
+  "City",
+  "State",
+  "Service areas served",
+  "Phone number",
+  "Email address",
+  "Campaign type",
+  "GBP primary category",
+  "Primary services",
+];
 
 const INDUSTRY_OPTIONS = [
   "Healthcare",
@@ -201,6 +221,7 @@ const ClientsPage = () => {
   const { agencies } = useSelector((state: RootState) => state.agency);
   const { user } = useSelector((state: RootState) => state.auth);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showImportWizard, setShowImportWizard] = useState(false);
   const [createClientModalStep, setCreateClientModalStep] = useState(1);
   useEffect(() => {
     if (showCreateModal) setCreateClientModalStep(1);
@@ -492,7 +513,7 @@ const ClientsPage = () => {
       keywords: targetsArr.join("\n"),
       loginUrl: String((client as any)?.loginUrl ?? ""),
       loginUsername: String((client as any)?.username ?? ""),
-      loginPassword: String((client as any)?.password ?? ""),
+      loginPassword: "",
       businessNiche: (INDUSTRY_OPTIONS as readonly string[]).includes(String(info.businessNiche ?? "")) ? String(info.businessNiche ?? "")
         : (INDUSTRY_OPTIONS as readonly string[]).includes(currentIndustry) ? currentIndustry
         : (String(info.businessNiche ?? "") || currentIndustry) ? "Other" : "",
@@ -780,7 +801,7 @@ const ClientsPage = () => {
         targets,
         loginUrl: clientForm.loginUrl,
         username: clientForm.loginUsername,
-        password: clientForm.loginPassword,
+        password: clientForm.loginPassword || undefined,
         accountInfo,
       };
       if (user?.role === "SUPER_ADMIN") {
@@ -973,6 +994,22 @@ const ClientsPage = () => {
             </p>
           </div>
           <div className="flex items-center gap-3">
+            {!agencyMe?.isBusinessTier && (
+              <SpreadsheetExportMenu
+                path="/clients/export"
+                filenameBase="clients"
+                className="flex items-center gap-2 rounded-lg bg-white/20 px-4 py-2.5 text-sm font-medium text-white backdrop-blur-sm transition-colors hover:bg-white/30 disabled:opacity-60"
+              />
+            )}
+            {!(agencyMe?.isBusinessTier || (dashboardLimit && dashboardLimit.used >= dashboardLimit.limit)) && (
+              <button
+                onClick={() => setShowImportWizard(true)}
+                className="flex items-center gap-2 rounded-lg bg-white/20 px-4 py-2.5 text-sm font-medium text-white backdrop-blur-sm transition-colors hover:bg-white/30"
+              >
+                <FileSpreadsheet className="h-5 w-5" />
+                <span>Import CSV</span>
+              </button>
+            )}
             {!(agencyMe?.isBusinessTier || (dashboardLimit && dashboardLimit.used >= dashboardLimit.limit)) && (
               <button
                 onClick={() => setShowCreateModal(true)}
@@ -1681,6 +1718,16 @@ const ClientsPage = () => {
         </div>
       )}
 
+      <CsvImportWizard
+        open={showImportWizard}
+        onClose={() => setShowImportWizard(false)}
+        title="Import clients"
+        endpoint="/clients/import"
+        entityLabel="clients"
+        templateColumns={CLIENT_IMPORT_TEMPLATE_COLUMNS}
+        onImported={() => dispatch(fetchClients() as any)}
+      />
+
       {/* Create Client Modal */}
       {showCreateModal && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4 backdrop-blur-sm">
@@ -2103,6 +2150,8 @@ const ClientsPage = () => {
           showStatus={user?.role === "SUPER_ADMIN" || user?.role === "ADMIN"}
           showExtendedSuperAdminFields={user?.role === "SUPER_ADMIN"}
           showSeoRoadmapSection={false}
+          clientId={editingClient?.id}
+          hasWebsitePassword={Boolean(editingClient?.hasWebsitePassword)}
           onClose={() => {
             setShowEditModal(false);
             setEditingClient(null);
@@ -2288,8 +2337,13 @@ const ClientsPage = () => {
                         </div>
                         <div>
                           <label className="block text-sm font-medium text-gray-700 mb-2">Website Password</label>
-                          <input type="password" value={clientForm.loginPassword} onChange={(e) => setClientForm({ ...clientForm, loginPassword: e.target.value })} className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent" placeholder="••••••••" />
-                          <p className="mt-1 text-xs text-gray-500">Stored securely</p>
+                          <input type="password" value={clientForm.loginPassword} onChange={(e) => setClientForm({ ...clientForm, loginPassword: e.target.value })} className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent" placeholder="Leave blank to keep current" />
+                          <p className="mt-1 text-xs text-gray-500">Stored securely. Leave blank to keep current.</p>
+                          {editingClient?.hasWebsitePassword && (
+                            <p className="mt-1 text-xs text-gray-500">
+                              Current: <WebsitePasswordReveal clientId={editingClient.id} />
+                            </p>
+                          )}
                         </div>
                       </div>
                     </section>
@@ -2534,7 +2588,13 @@ const ClientsPage = () => {
                             value={clientForm.loginPassword}
                             onChange={(e) => setClientForm({ ...clientForm, loginPassword: e.target.value })}
                             className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                            placeholder="Leave blank to keep current"
                           />
+                          {editingClient?.hasWebsitePassword && (
+                            <p className="mt-1 text-xs text-gray-500">
+                              Current: <WebsitePasswordReveal clientId={editingClient.id} />
+                            </p>
+                          )}
                         </div>
                       </div>
                     </section>
@@ -5,6 +5,7 @@ import { formatDistanceToNow } from "date-fns";
 import { Bell, CheckCheck, CheckCircle2, Loader2, MessageSquare, PenTool } from "lucide-react";
 import { RootState } from "@/store";
 import api from "@/lib/api";
+import { watchRealtime } from "@/lib/realtime";
 
 type InboxItem = {
   id: string;
@@ -108,10 +109,13 @@ export default function InboxPage() {
 
   useEffect(() => {
     fetchInbox().catch(() => setItems([]));
-    const intervalId = window.setInterval(() => {
-      fetchInbox().catch(() => undefined);
-    }, 5000);
-    return () => window.clearInterval(intervalId);
+    return watchRealtime(
+      ["notification"],
+      () => {
+        fetchInbox().catch(() => undefined);
+      },
+      { fallbackIntervalMs: 5000 }
+    );
   }, [notificationsUrl]);
 
   const unreadCount = useMemo(() => items.filter((item) => !item.read).length, [items]);
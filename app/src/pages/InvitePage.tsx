@@ -1,6 +1,6 @@
 import { useEffect, useMemo, useState } from "react";
 import { useLocation, useNavigate } from "react-router-dom";
-import api from "@/lib/api";
+import api, { setSessionTokens } from "@/lib/api";
 import { useDispatch, useSelector } from "react-redux";
 import { checkAuth } from "@/store/slices/authSlice";
 import type { RootState } from "@/store";
@@ -119,13 +119,19 @@ const InvitePage = () => {
       const redirect = res.data?.redirect as { clientId?: string; type?: string } | undefined;
       const userRole = res.data?.user?.role as string | undefined;
 
+      if (!jwt && res.data?.twoFactorRequired) {
+        toast.success("Invite accepted. Sign in with your authentication code to continue.");
+        navigate("/login", { replace: true });
+        return;
+      }
+
       if (!jwt) {
         toast.error("Invite accepted, but login failed. Please try logging in.");
         navigate("/login", { replace: true });
         return;
       }
 
-      localStorage.setItem("token", jwt);
+      setSessionTokens(jwt, res.data?.refreshToken);
       await dispatch(checkAuth() as any);
 
       if (redirect?.type === "TEAM") {
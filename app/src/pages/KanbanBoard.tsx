@@ -1,102 +1,135 @@
-import React from "react";
-import { DragDropContext, Droppable, Draggable, DropResult } from "@hello-pangea/dnd";
-import { Task } from "@/utils/types";
+import React, { useMemo, useState } from "react";
+import { DragDropContext, Droppable, Draggable, DragStart, DropResult } from "@hello-pangea/dnd";
+import { Task, TaskWorkflowColumn } from "@/utils/types";
 import { truncateText } from "@/utils";
-import { Calendar, User } from "lucide-react";
+import { Calendar, Lock, User } from "lucide-react";
 import { format } from "date-fns";
+import { DEFAULT_TASK_WORKFLOW_COLUMNS, resolveTaskWorkflowColumn } from "@/lib/taskWorkflow";
+import { formatBlockedTitle } from "@/lib/taskDependencies";
 
 interface KanbanBoardProps {
     tasks: Task[];
-    onMove?: (id: string, status: Task["status"]) => void;
+    /** Agency workflow columns; defaults to one column per core status. */
+    columns?: TaskWorkflowColumn[];
+    onMove?: (id: string, column: TaskWorkflowColumn) => void;
     onTaskClick?: (task: Task) => void;
 }
 
-const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, onMove, onTaskClick }) => {
-    const columns = {
-        TODO: tasks.filter((t) => t.status === "TODO"),
-        IN_PROGRESS: tasks.filter((t) => t.status === "IN_PROGRESS"),
-        REVIEW: tasks.filter((t) => t.status === "REVIEW"),
-        NEEDS_APPROVAL: tasks.filter((t) => t.status === "NEEDS_APPROVAL"),
-        DONE: tasks.filter((t) => t.status === "DONE"),
-    };
+const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, columns = DEFAULT_TASK_WORKFLOW_COLUMNS, onMove, onTaskClick }) => {
+    const [dragSourceKey, setDragSourceKey] = useState<string | null>(null);
+
+    const columnTasks = useMemo(() => {
+        const grouped: Record<string, Task[]> = Object.fromEntries(columns.map((c) => [c.key, [] as Task[]]));
+        for (const task of tasks) {
+            const column = resolveTaskWorkflowColumn(columns, task);
+            if (column) grouped[column.key].push(task);
+        }
+        return grouped;
+    }, [columns, tasks]);
+
+    const dragSource = columns.find((c) => c.key === dragSourceKey) ?? null;
+    const canDropInto = (column: TaskWorkflowColumn) =>
+        !dragSource || dragSource.key === column.key || !dragSource.allowedNextKeys || dragSource.allowedNextKeys.includes(column.key);
+
+    const onDragStart = (start: DragStart) => setDragSourceKey(start.source.droppableId);
 
     const onDragEnd = (result: DropResult) => {
+        setDragSourceKey(null);
         const { destination, source, draggableId } = result;
         if (!destination) return;
-        if (destination.droppableId === source.droppableId && destination.index === source.index) return;
+        if (destination.droppableId === source.droppableId) return;
 
-        const newStatus = destination.droppableId as Task["status"];
-        onMove?.(draggableId, newStatus);
+        const column = columns.find((c) => c.key === destination.droppableId);
+        if (column) onMove?.(draggableId, column);
     };
 
     return (
-        <DragDropContext onDragEnd={onDragEnd}>
-            <div className="flex justify-between gap-3">
-                {Object.entries(columns).map(([colId, colTasks]) => (
-                    <Droppable droppableId={colId} key={colId}>
-                        {(provided, snapshot) => (
-                            <div
-                                ref={provided.innerRef}
-                                {...provided.droppableProps}
-                                className={`p-3 rounded-md w-72 min-h-[80vh] transition-colors ${snapshot.isDraggingOver ? "bg-gray-100" : "bg-gray-50"
-                                    }`}
-                            >
-                                <div className="flex items-center justify-between mb-3">
-                                    <span className="font-bold">{colId.replace("_", " ")}</span>
-                                    <span className="text-xs bg-gray-200 rounded px-2 py-0.5">{colTasks.length}</span>
-                                </div>
-                                {colTasks.map((task, index) => (
-                                    <Draggable draggableId={task.id} index={index} key={task.id}>
-                                        {(provided, snapshot) => (
-                                            <div
-                                                ref={provided.innerRef}
-                                                {...provided.draggableProps}
-                                                {...provided.dragHandleProps}
-                                                className={`space-y-2 p-3 mb-2 bg-white rounded shadow-sm cursor-pointer transition-transform ${snapshot.isDragging ? "ring-2 ring-blue-400" : "hover:shadow-md"}`}
-                                                onClick={() => onTaskClick?.(task)}
-                                            >
-                                                <div className="flex flex-row justify-between">
-                                                    <div>
-                                                        <p className="text-sm font-semibold">{truncateText(task.title, 25)}</p>
-                                                        {task.client ?
-                                                            <p className="text-xs underline">{task.client?.name}({truncateText(task.client?.domain, 11)})</p>
-                                                            :
-                                                            <p className="text-xs underline">No Client</p>
-                                                        }
-                                                    </div>
-                                                    <div>
-                                                        <span className="px-2 py-1 font-medium rounded-full text-[10px] text-gray-600 bg-gray-100">
-                                                            {task?.category ?? "Uncategorized"}
-                                                        </span>
-                                                    </div>
-                                                </div>
-                                                <div className="flex flex-row items-center justify-between">
-                                                    <div className="flex flex-row gap-1 items-center text-sm font-semibold">
-                                                        <User size={18} />
-                                                        <span className="text-sm text-gray-600">{task.assignee?.name ?? "Unassigned"}</span>
+        <DragDropContext onDragStart={onDragStart} onDragEnd={onDragEnd}>
+            <div className="flex justify-between gap-3 overflow-x-auto">
+                {columns.map((column) => {
+                    const colTasks = columnTasks[column.key] ?? [];
+                    const atLimit = column.wipLimit != null && colTasks.length >= column.wipLimit;
+                    const dropDisabled = !canDropInto(column);
+                    return (
+                        <Droppable droppableId={column.key} key={column.key} isDropDisabled={dropDisabled}>
+                            {(provided, snapshot) => (
+                                <div
+                                    ref={provided.innerRef}
+                                    {...provided.droppableProps}
+                                    className={`p-3 rounded-md w-72 shrink-0 min-h-[80vh] transition-colors ${snapshot.isDraggingOver ? "bg-gray-100" : dropDisabled ? "bg-gray-50 opacity-50" : "bg-gray-50"
+                                        }`}
+                                    style={column.color ? { borderTop: `3px solid ${column.color}` } : undefined}
+                                >
+                                    <div className="flex items-center justify-between mb-3">
+                                        <span className="font-bold">{column.name}</span>
+                                        <span
+                                            className={`text-xs rounded px-2 py-0.5 ${atLimit ? "bg-rose-100 text-rose-700" : "bg-gray-200"}`}
+                                            title={column.wipLimit != null ? `WIP limit: ${column.wipLimit}` : undefined}
+                                        >
+                                            {column.wipLimit != null ? `${colTasks.length} / ${column.wipLimit}` : colTasks.length}
+                                        </span>
+                                    </div>
+                                    {colTasks.map((task, index) => (
+                                        <Draggable draggableId={task.id} index={index} key={task.id}>
+                                            {(provided, snapshot) => (
+                                                <div
+                                                    ref={provided.innerRef}
+                                                    {...provided.draggableProps}
+                                                    {...provided.dragHandleProps}
+                                                    className={`space-y-2 p-3 mb-2 bg-white rounded shadow-sm cursor-pointer transition-transform ${snapshot.isDragging ? "ring-2 ring-blue-400" : "hover:shadow-md"}`}
+                                                    onClick={() => onTaskClick?.(task)}
+                                                >
+                                                    <div className="flex flex-row justify-between">
+                                                        <div>
+                                                            <p className="text-sm font-semibold">{truncateText(task.title, 25)}</p>
+                                                            {task.client ?
+                                                                <p className="text-xs underline">{task.client?.name}({truncateText(task.client?.domain, 11)})</p>
+                                                                :
+                                                                <p className="text-xs underline">No Client</p>
+                                                            }
+                                                        </div>
+                                                        <div className="flex flex-col items-end gap-1">
+                                                            <span className="px-2 py-1 font-medium rounded-full text-[10px] text-gray-600 bg-gray-100">
+                                                                {task?.category ?? "Uncategorized"}
+                                                            </span>
+                                                            {task.isBlocked && (
+                                                                <span
+                                                                    className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-semibold text-amber-800 bg-amber-100"
+                                                                    title={formatBlockedTitle(task)}
+                                                                >
+                                                                    <Lock size={10} />
+                                                                    Blocked
+                                                                </span>
+                                                            )}
+                                                        </div>
                                                     </div>
-                                                </div>
-                                                {task.dueDate &&
                                                     <div className="flex flex-row items-center justify-between">
                                                         <div className="flex flex-row gap-1 items-center text-sm font-semibold">
-                                                            <Calendar className="text-gray-400" size={18} />
-                                                            <span className="text-xs text-gray-400">{format(new Date(task.dueDate), "yyyy-MM-dd")}</span>
-                                                        </div>
-                                                        <div className="">
-                                                            <span className={`text-xs text-gray-400 rounded-full px-2 py-[1px] ${new Date(task.dueDate) > new Date() ? 'bg-green-500 text-white' : 'bg-red-500 text-white'}`}>{new Date(task.dueDate) > new Date() ? "Upcoming" : "Overdue"}</span>
+                                                            <User size={18} />
+                                                            <span className="text-sm text-gray-600">{task.assignee?.name ?? "Unassigned"}</span>
                                                         </div>
                                                     </div>
-                                                }
-                                            </div>
-                                        )}
-                                    </Draggable>
-                                ))}
-                                {provided.placeholder}
-                            </div>
-                        )}
-                    </Droppable>
-                ))
-                }
+                                                    {task.dueDate &&
+                                                        <div className="flex flex-row items-center justify-between">
+                                                            <div className="flex flex-row gap-1 items-center text-sm font-semibold">
+                                                                <Calendar className="text-gray-400" size={18} />
+                                                                <span className="text-xs text-gray-400">{format(new Date(task.dueDate), "yyyy-MM-dd")}</span>
+                                                            </div>
+                                                            <div className="">
+                                                                <span className={`text-xs text-gray-400 rounded-full px-2 py-[1px] ${new Date(task.dueDate) > new Date() ? 'bg-green-500 text-white' : 'bg-red-500 text-white'}`}>{new Date(task.dueDate) > new Date() ? "Upcoming" : "Overdue"}</span>
+                                                            </div>
+                                                        </div>
+                                                    }
+                                                </div>
+                                            )}
+                                        </Draggable>
+                                    ))}
+                                    {provided.placeholder}
+                                </div>
+                            )}
+                        </Droppable>
+                    );
+                })}
             </div >
         </DragDropContext >
     );
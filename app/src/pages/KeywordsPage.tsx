@@ -16,6 +16,7 @@ import {
   X,
   DollarSign,
   BookOpen,
+  FileSpreadsheet,
 } from "lucide-react";
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from "recharts";
 import html2canvas from "html2canvas";
@@ -25,6 +26,8 @@ import api from "@/lib/api";
 import { Client } from "@/store/slices/clientSlice";
 import toast from "react-hot-toast";
 import DomainResearchView from "@/components/DomainResearchView";
+import CsvImportWizard from "@/components/CsvImportWizard";
+import SpreadsheetExportMenu from "@/components/SpreadsheetExportMenu";
 
 type TabId = "research" | "tracked";
 
@@ -201,6 +204,8 @@ const KeywordsPage: React.FC = () => {
   const [researchResults, setResearchResults] = useState<ResearchKeyword[]>([]);
   const [selectedSuggestions, setSelectedSuggestions] = useState<Record<string, boolean>>({});
   const [assignClientId, setAssignClientId] = useState<string | null>(null);
+  const [spreadsheetClientId, setSpreadsheetClientId] = useState("");
+  const [showKeywordImport, setShowKeywordImport] = useState(false);
   const [assignClientSearchQuery, setAssignClientSearchQuery] = useState("");
   const [assignClientSearchOpen, setAssignClientSearchOpen] = useState(false);
   const assignClientBoxRef = useRef<HTMLDivElement | null>(null);
@@ -762,7 +767,35 @@ const KeywordsPage: React.FC = () => {
           </div>
         </div>
       </div>
-      <div className="flex flex-col gap-6 lg:flex-row lg:items-center lg:justify-end">
+      <div className="flex flex-col gap-6 lg:flex-row lg:items-center lg:justify-between">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={spreadsheetClientId}
+            onChange={(e) => setSpreadsheetClientId(e.target.value)}
+            className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="">Client for keyword import / export…</option>
+            {clients.map((client) => (
+              <option key={client.id} value={client.id}>
+                {client.name}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            disabled={!spreadsheetClientId}
+            onClick={() => setShowKeywordImport(true)}
+            className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <FileSpreadsheet className="h-4 w-4" />
+            Import CSV
+          </button>
+          <SpreadsheetExportMenu
+            path={`/seo/keywords/${spreadsheetClientId}/export`}
+            filenameBase="keywords"
+            disabled={!spreadsheetClientId}
+          />
+        </div>
         <div className="flex items-center gap-3 bg-white rounded-xl border border-gray-200 p-1.5 shadow-sm">
           <button
             onClick={() => setActiveTab("tracked")}
@@ -789,6 +822,17 @@ const KeywordsPage: React.FC = () => {
         </div>
       </div>
 
+      {spreadsheetClientId && (
+        <CsvImportWizard
+          open={showKeywordImport}
+          onClose={() => setShowKeywordImport(false)}
+          title={`Import keywords for ${clients.find((c) => c.id === spreadsheetClientId)?.name ?? "client"}`}
+          endpoint={`/seo/keywords/${spreadsheetClientId}/import`}
+          entityLabel="keywords"
+          templateColumns={["Keyword", "Location", "Language", "Type"]}
+        />
+      )}
+
       {clientsError && (
         <div className="rounded-lg border border-rose-200 bg-rose-50 px-4 py-3 text-sm text-rose-600">
           {clientsError}
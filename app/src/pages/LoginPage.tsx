@@ -2,8 +2,8 @@ import React, { useState, useEffect, useMemo } from "react";
 import { Link, useLocation, useSearchParams } from "react-router-dom";
 import { useDispatch, useSelector } from "react-redux";
 import { RootState } from "@/store";
-import { login, clearError } from "@/store/slices/authSlice";
-import { Mail, Lock, Eye, EyeOff } from "lucide-react";
+import { login, clearError, verifyTwoFactorLogin, cancelTwoFactorChallenge } from "@/store/slices/authSlice";
+import { Mail, Lock, Eye, EyeOff, ShieldCheck } from "lucide-react";
 import zoesiLogo from "@/assets/zoesi-blue.png";
 import { usePublicBranding } from "@/hooks/usePublicBranding";
 
@@ -11,12 +11,13 @@ const LoginPage = () => {
   const dispatch = useDispatch();
   const location = useLocation();
   const [searchParams] = useSearchParams();
-  const { loading, error } = useSelector((state: RootState) => state.auth);
+  const { loading, error, twoFactorChallenge } = useSelector((state: RootState) => state.auth);
   const [formData, setFormData] = useState({
     email: "",
     password: "",
   });
   const [showPassword, setShowPassword] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
   const { brandName, logoUrl, primaryColor } = usePublicBranding();
 
   const loginAs = (searchParams.get("as") || "").toUpperCase();
@@ -54,6 +55,25 @@ const LoginPage = () => {
     }
   };
 
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!twoFactorChallenge) return;
+    dispatch(clearError());
+
+    try {
+      await dispatch(
+        verifyTwoFactorLogin({ challengeToken: twoFactorChallenge, code: twoFactorCode.trim() }) as any
+      ).unwrap();
+    } catch {
+      // Error is handled by Redux
+    }
+  };
+
+  const handleTwoFactorCancel = () => {
+    setTwoFactorCode("");
+    dispatch(cancelTwoFactorChallenge());
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData({
       ...formData,
@@ -79,6 +99,59 @@ const LoginPage = () => {
             </p>
           </div>
 
+          {twoFactorChallenge ? (
+          <form onSubmit={handleTwoFactorSubmit} className="space-y-6">
+            <div>
+              <label
+                htmlFor="twoFactorCode"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Authentication Code
+              </label>
+              <div className="relative">
+                <ShieldCheck className="h-5 w-5 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+                <input
+                  type="text"
+                  id="twoFactorCode"
+                  name="twoFactorCode"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  value={twoFactorCode}
+                  onChange={(e) => setTwoFactorCode(e.target.value)}
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:ring-offset-0 focus:border-blue-500 transition-colors tracking-widest"
+                  placeholder="6-digit code"
+                  required
+                />
+              </div>
+              <p className="mt-2 text-xs text-gray-500">
+                Open your authenticator app, or enter one of your recovery codes.
+              </p>
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 border-l-4 border-l-red-500 text-red-700 px-4 py-3 rounded-lg">
+                {error}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={loading || !twoFactorCode.trim()}
+              className="w-full bg-gradient-to-r from-primary-600 via-blue-600 to-indigo-600 text-white py-3 px-6 rounded-lg font-semibold hover:from-primary-700 hover:via-blue-700 hover:to-indigo-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-md"
+              style={{ backgroundImage: `linear-gradient(to right, ${primaryColor}, #2563eb, #4f46e5)` }}
+            >
+              {loading ? "Verifying..." : "Verify"}
+            </button>
+            <button
+              type="button"
+              onClick={handleTwoFactorCancel}
+              className="w-full text-sm text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              Use a different account
+            </button>
+          </form>
+          ) : (
           <form onSubmit={handleSubmit} className="space-y-6">
             <div>
               <label
@@ -157,6 +230,7 @@ const LoginPage = () => {
               )}
             </button>
           </form>
+          )}
 
           <div className="mt-6 text-center">
             <p className="text-gray-600">
@@ -25,6 +25,8 @@ import { fetchClients } from "@/store/slices/clientSlice";
 import { useNavigate } from "react-router-dom";
 import ConfirmDialog from "@/components/ConfirmDialog";
 import { ReportEmptyState, ReportSection } from "@/components/report/ReportPrimitives";
+import ReportTemplateManager from "@/components/report/ReportTemplateManager";
+import EmailDeliveryHistory from "@/components/report/EmailDeliveryHistory";
 import {
   formatReportPeriodLabel,
   getReportStatusBadgeClass,
@@ -61,14 +63,48 @@ interface ReportSchedule {
   dayOfWeek?: number;
   dayOfMonth?: number;
   timeOfDay: string;
+  timeZone?: string | null;
   recipients: string[];
   emailSubject?: string;
   isActive: boolean;
   nextRunAt?: string;
   lastRunAt?: string;
   clientId: string;
+  templateId?: string | null;
+  template?: { id: string; name: string } | null;
+  trackEngagement?: boolean;
 }
 
+// Common zones for the schedule picker; the browser's own zone is always offered too.
+const SCHEDULE_TIME_ZONES = [
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Phoenix",
+  "America/Los_Angeles",
+  "America/Anchorage",
+  "Pacific/Honolulu",
+  "America/Toronto",
+  "Europe/London",
+  "Europe/Berlin",
+  "Asia/Kolkata",
+  "Australia/Sydney",
+  "UTC",
+];
+
+const formatInTimeZone = (value: string, timeZone?: string | null) => {
+  try {
+    return new Date(value).toLocaleString(undefined, {
+      timeZone: timeZone || undefined,
+      dateStyle: "medium",
+      timeStyle: "short",
+      timeZoneName: "short",
+    } as Intl.DateTimeFormatOptions);
+  } catch {
+    return new Date(value).toLocaleString();
+  }
+};
+
 interface CampaignWinsSettings {
   enabled: boolean;
   recipients: string[];
@@ -1021,9 +1057,10 @@ const ReportsPage: React.FC = () => {
                 const client = clients.find((c) => c.id === schedule.clientId);
                 const frequencyLabel = schedule.frequency.charAt(0).toUpperCase() + schedule.frequency.slice(1);
                 const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+                const zoneSuffix = schedule.timeZone ? ` (${schedule.timeZone.replace(/_/g, " ")})` : "";
                 const scheduleText = schedule.frequency === "monthly"
-                  ? `Every month on day ${schedule.dayOfMonth} at ${schedule.timeOfDay}`
-                  : `Every ${frequencyLabel.toLowerCase()} on ${dayNames[schedule.dayOfWeek || 0]} at ${schedule.timeOfDay}`;
+                  ? `Every month on day ${schedule.dayOfMonth} at ${schedule.timeOfDay}${zoneSuffix}`
+                  : `Every ${frequencyLabel.toLowerCase()} on ${dayNames[schedule.dayOfWeek || 0]} at ${schedule.timeOfDay}${zoneSuffix}`;
 
                 return (
                   <div key={schedule.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
@@ -1038,9 +1075,15 @@ const ReportsPage: React.FC = () => {
                           <p className="text-xs text-gray-500 mt-1">
                             Recipients: {(Array.isArray(schedule.recipients) ? schedule.recipients : []).join(", ")                            }
                           </p>
+                          {schedule.trackEngagement && (
+                            <p className="text-xs text-gray-500">Open and click tracking on</p>
+                          )}
+                          {schedule.template && (
+                            <p className="text-xs text-gray-500">Template: {schedule.template.name}</p>
+                          )}
                           {schedule.nextRunAt && (
                             <p className="text-xs text-gray-500">
-                              Next run: {new Date(schedule.nextRunAt).toLocaleString()}
+                              Next run: {formatInTimeZone(schedule.nextRunAt, schedule.timeZone)}
                             </p>
                           )}
                         </div>
@@ -1073,6 +1116,22 @@ const ReportsPage: React.FC = () => {
         </div>
       )}
 
+      <ReportSection
+        title="Report Templates"
+        subtitle="Choose which sections scheduled SEO reports include, in what order, with your own text and commentary."
+        className="mt-8"
+      >
+        <ReportTemplateManager clients={clients} onChange={fetchSchedules} />
+      </ReportSection>
+
+      <ReportSection
+        title="Delivery History"
+        subtitle="Report emails sent per client, with bounces and, for schedules with tracking on, who opened them."
+        className="mt-8"
+      >
+        <EmailDeliveryHistory clients={clients} />
+      </ReportSection>
+
       <ReportSection
         title="Campaign Wins Report"
         subtitle="Automatically sends positive milestone updates. You can also send an instant preview email."
@@ -1274,10 +1333,23 @@ const ScheduleReportModal: React.FC<{
   const [dayOfWeek, setDayOfWeek] = useState(1); // Monday
   const [dayOfMonth, setDayOfMonth] = useState(1);
   const [timeOfDay, setTimeOfDay] = useState("09:00");
+  // Empty = let the server default from the client's (or agency's) address.
+  const [timeZone, setTimeZone] = useState("");
   const [recipients, setRecipients] = useState("");
   const [emailSubject, setEmailSubject] = useState("");
+  // Empty = the standard report layout.
+  const [templateId, setTemplateId] = useState("");
+  const [templates, setTemplates] = useState<Array<{ id: string; name: string }>>([]);
+  const [trackEngagement, setTrackEngagement] = useState(false);
   const [loading, setLoading] = useState(false);
 
+  useEffect(() => {
+    api
+      .get("/report-templates", { _silent: true } as any)
+      .then((res) => setTemplates(Array.isArray(res.data?.templates) ? res.data.templates : []))
+      .catch(() => setTemplates([]));
+  }, []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!clientId) {
@@ -1294,10 +1366,13 @@ const ScheduleReportModal: React.FC<{
     setLoading(true);
     try {
       await api.post(`/seo/reports/${clientId}/schedule`, {
+        templateId: templateId || null,
+        trackEngagement,
         frequency: reportType,
         dayOfWeek: reportType !== "monthly" ? dayOfWeek : undefined,
         dayOfMonth: reportType === "monthly" ? dayOfMonth : undefined,
         timeOfDay,
+        timeZone: timeZone || undefined,
         recipients: recipientsList,
         emailSubject: emailSubject || undefined,
         isActive: true,
@@ -1312,6 +1387,10 @@ const ScheduleReportModal: React.FC<{
   };
 
   const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+  const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const timeZoneOptions = browserTimeZone && !SCHEDULE_TIME_ZONES.includes(browserTimeZone)
+    ? [browserTimeZone, ...SCHEDULE_TIME_ZONES]
+    : SCHEDULE_TIME_ZONES;
 
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -1413,6 +1492,39 @@ const ScheduleReportModal: React.FC<{
                     required
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Timezone</label>
+                  <select
+                    value={timeZone}
+                    onChange={(e) => setTimeZone(e.target.value)}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  >
+                    <option value="">Client's location (automatic)</option>
+                    {timeZoneOptions.map((zone) => (
+                      <option key={zone} value={zone}>
+                        {zone.replace(/_/g, " ")}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Reports go out at this time in the selected zone, including across daylight saving changes.
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Report Template</label>
+                  <select
+                    value={templateId}
+                    onChange={(e) => setTemplateId(e.target.value)}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  >
+                    <option value="">Standard layout</option>
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
             </div>
             <div className="rounded-xl border-l-4 border-amber-500 bg-amber-50/50 p-4 sm:p-5">
@@ -1444,6 +1556,20 @@ const ScheduleReportModal: React.FC<{
                     className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                   />
                 </div>
+                <label className="flex items-start gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={trackEngagement}
+                    onChange={(e) => setTrackEngagement(e.target.checked)}
+                    className="mt-0.5 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span>
+                    Track opens and clicks
+                    <span className="block text-xs text-gray-500">
+                      Adds a tracking pixel and routes links through a redirect. Shown under Delivery History.
+                    </span>
+                  </span>
+                </label>
               </div>
             </div>
           </div>
@@ -20,9 +20,18 @@ import {
   ChevronDown,
   Calculator,
   Sparkles,
+  KeyRound,
+  Webhook,
+  Kanban,
 } from "lucide-react";
 import EnterpriseCalculatorPage from "./SuperAdmin/EnterpriseCalculatorPage";
 import AiCommandsPage from "./SuperAdmin/AiCommandsPage";
+import ApiKeysManager from "@/components/ApiKeysManager";
+import WebhooksManager from "@/components/WebhooksManager";
+import TaskWorkflowManager from "@/components/TaskWorkflowManager";
+import TwoFactorSettings from "@/components/TwoFactorSettings";
+import SessionsManager from "@/components/SessionsManager";
+import NotificationRoutingSettings from "@/components/NotificationRoutingSettings";
 import api from "@/lib/api";
 import toast from "react-hot-toast";
 import { checkAuth } from "@/store/slices/authSlice";
@@ -118,7 +127,6 @@ const SettingsPage = () => {
     rankingAlerts: true,
     weeklyDigest: false,
     teamUpdates: true,
-    webDesign: true,
   };
   const [notificationSettings, setNotificationSettings] = useState(defaults);
   const [notificationSaving, setNotificationSaving] = useState(false);
@@ -133,8 +141,28 @@ const SettingsPage = () => {
     estimatedHours: number | null;
     dueDate: string | null;
     dueDaysAfterStart?: number | null;
+    /** JSON array of the `order` values of earlier tasks this one waits on */
+    blockedByOrders?: string | null;
     order: number;
   };
+  type TemplateFormTask = {
+    uid: string;
+    title: string;
+    description: string;
+    category: string;
+    priority: string;
+    estimatedHours: string;
+    dueDate: string;
+    dueDaysAfterStart: string;
+    blockedBy: string[];
+  };
+  // Blockers must stay above the task that waits on them (reordering or removing tasks can break that).
+  const pruneTemplateBlockers = (tasks: TemplateFormTask[]) =>
+    tasks.map((task, index) => {
+      const earlier = new Set(tasks.slice(0, index).map((t) => t.uid));
+      const blockedBy = task.blockedBy.filter((uid) => earlier.has(uid));
+      return blockedBy.length === task.blockedBy.length ? task : { ...task, blockedBy };
+    });
   type ManageableTemplate = {
     id: string;
     name: string;
@@ -154,15 +182,7 @@ const SettingsPage = () => {
     description: "",
     isDefault: false,
     agencyId: "" as string | null,
-    tasks: [] as Array<{
-      title: string;
-      description: string;
-      category: string;
-      priority: string;
-      estimatedHours: string;
-      dueDate: string;
-      dueDaysAfterStart: string;
-    }>
+    tasks: [] as TemplateFormTask[]
   });
   const [templateSaveLoading, setTemplateSaveLoading] = useState(false);
   const [agenciesList, setAgenciesList] = useState<Array<{ id: string; name: string }>>([]);
@@ -175,6 +195,9 @@ const SettingsPage = () => {
     { id: "templates", label: "Templates", icon: FileText, roles: ["SUPER_ADMIN", "ADMIN", "AGENCY"] },
     { id: "notifications", label: "Notifications", icon: Bell, roles: ["SUPER_ADMIN", "ADMIN", "AGENCY", "DESIGNER", "SPECIALIST", "USER"] },
     { id: "security", label: "Security", icon: Shield, roles: ["SUPER_ADMIN", "ADMIN", "AGENCY", "DESIGNER", "SPECIALIST", "USER"] },
+    { id: "api-keys", label: "API Keys", icon: KeyRound, roles: ["AGENCY"] },
+    { id: "webhooks", label: "Webhooks", icon: Webhook, roles: ["AGENCY"] },
+    { id: "task-workflow", label: "Task Workflow", icon: Kanban, roles: ["AGENCY"] },
   ];
 
   // Fetch agency data on mount if user is an agency member
@@ -203,7 +226,6 @@ const SettingsPage = () => {
         rankingAlerts: user.notificationPreferences.rankingAlerts ?? true,
         weeklyDigest: user.notificationPreferences.weeklyDigest ?? false,
         teamUpdates: user.notificationPreferences.teamUpdates ?? true,
-        webDesign: user.notificationPreferences.webDesign ?? true,
       });
     }
   }, [user?.notificationPreferences]);
@@ -456,12 +478,23 @@ const SettingsPage = () => {
   const openEditTemplate = (t: ManageableTemplate) => {
     setTemplateModalMode("edit");
     setEditingTemplateId(t.id);
+    const uids: string[] = t.tasks.map(() => crypto.randomUUID());
+    const uidByOrder = new Map(t.tasks.map((task, i) => [task.order, uids[i]]));
+    const parseOrders = (value: string | null | undefined): number[] => {
+      try {
+        const parsed = JSON.parse(value || "[]");
+        return Array.isArray(parsed) ? parsed.map(Number) : [];
+      } catch {
+        return [];
+      }
+    };
     setTemplateForm({
       name: t.name,
       description: t.description || "",
       isDefault: t.isDefault,
       agencyId: t.agencyId ?? "",
-      tasks: t.tasks.map((task) => ({
+      tasks: pruneTemplateBlockers(t.tasks.map((task, i) => ({
+        uid: uids[i],
         title: task.title,
         description: task.description ?? "",
         category: task.category ?? "",
@@ -472,7 +505,10 @@ const SettingsPage = () => {
           (task as any).dueDaysAfterStart !== null && (task as any).dueDaysAfterStart !== undefined
             ? String((task as any).dueDaysAfterStart)
             : "",
-      })),
+        blockedBy: parseOrders(task.blockedByOrders)
+          .map((order) => uidByOrder.get(order))
+          .filter((uid): uid is string => Boolean(uid)),
+      }))),
     });
     setTemplateModalOpen(true);
   };
@@ -480,7 +516,10 @@ const SettingsPage = () => {
   const addTemplateTask = () => {
     setTemplateForm((f) => ({
       ...f,
-      tasks: [...f.tasks, { title: "", description: "", category: "", priority: "", estimatedHours: "", dueDate: "", dueDaysAfterStart: "" }],
+      tasks: [
+        ...f.tasks,
+        { uid: crypto.randomUUID(), title: "", description: "", category: "", priority: "", estimatedHours: "", dueDate: "", dueDaysAfterStart: "", blockedBy: [] },
+      ],
     }));
   };
 
@@ -491,7 +530,7 @@ const SettingsPage = () => {
       if (target < 0 || target >= next.length) return f;
       const [item] = next.splice(index, 1);
       next.splice(target, 0, item);
-      return { ...f, tasks: next };
+      return { ...f, tasks: pruneTemplateBlockers(next) };
     });
   };
 
@@ -503,7 +542,14 @@ const SettingsPage = () => {
   };
 
   const removeTemplateTask = (index: number) => {
-    setTemplateForm((f) => ({ ...f, tasks: f.tasks.filter((_, i) => i !== index) }));
+    setTemplateForm((f) => ({ ...f, tasks: pruneTemplateBlockers(f.tasks.filter((_, i) => i !== index)) }));
+  };
+
+  const setTemplateTaskBlockers = (index: number, blockedBy: string[]) => {
+    setTemplateForm((f) => ({
+      ...f,
+      tasks: f.tasks.map((t, i) => (i === index ? { ...t, blockedBy } : t)),
+    }));
   };
 
   const handleSaveTemplate = async (e: React.FormEvent) => {
@@ -512,8 +558,9 @@ const SettingsPage = () => {
       toast.error("Template name is required");
       return;
     }
-    const tasksPayload = templateForm.tasks
-      .filter((t) => t.title.trim())
+    const savedTasks = templateForm.tasks.filter((t) => t.title.trim());
+    const orderByUid = new Map(savedTasks.map((t, i) => [t.uid, i + 1]));
+    const tasksPayload = savedTasks
       .map((t, i) => ({
         title: t.title.trim(),
         description: t.description.trim() || null,
@@ -522,6 +569,9 @@ const SettingsPage = () => {
         estimatedHours: t.estimatedHours.trim() ? parseFloat(t.estimatedHours) : null,
         dueDate: t.dueDaysAfterStart.trim() ? null : (t.dueDate.trim() || null),
         dueDaysAfterStart: t.dueDaysAfterStart.trim() ? Math.max(0, parseInt(t.dueDaysAfterStart, 10) || 0) : null,
+        blockedByOrders: t.blockedBy
+          .map((uid) => orderByUid.get(uid))
+          .filter((order): order is number => order !== undefined && order < i + 1),
         order: i + 1,
       }));
     setTemplateSaveLoading(true);
@@ -1114,8 +1164,6 @@ const SettingsPage = () => {
                           "Weekly summary of all projects"}
                         {key === "teamUpdates" &&
                           "Updates about team member activities"}
-                        {key === "webDesign" &&
-                          "Email and in-app notifications for web design project updates"}
                       </p>
                     </div>
                     <button
@@ -1147,6 +1195,15 @@ const SettingsPage = () => {
                 ))}
               </div>
             </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">
+                Notification Routing
+              </h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Choose where each kind of notification is delivered.
+              </p>
+              <NotificationRoutingSettings />
+            </div>
           </div>
         );
 
@@ -1158,26 +1215,8 @@ const SettingsPage = () => {
                 Security Settings
               </h3>
               <div className="space-y-4">
-                <div className="bg-gray-50 p-4 rounded-lg">
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <p className="text-sm font-medium text-gray-900">
-                        Two-Factor Authentication
-                      </p>
-                      <p className="text-sm text-gray-500">
-                        Add an extra layer of security to your account
-                      </p>
-                    </div>
-                    <button
-                      type="button"
-                      disabled
-                      title="Two-factor authentication is coming soon."
-                      className="bg-primary-300 text-white px-4 py-2 rounded-lg cursor-not-allowed"
-                    >
-                      Enable (Coming soon)
-                    </button>
-                  </div>
-                </div>
+                <TwoFactorSettings />
+                <SessionsManager />
                 <div className="bg-gray-50 p-4 rounded-lg">
                   <div className="flex items-center justify-between">
                     <div>
@@ -1188,14 +1227,17 @@ const SettingsPage = () => {
                         Manage API access for integrations
                       </p>
                     </div>
-                    <button
-                      type="button"
-                      disabled
-                      title="API keys management is coming soon."
-                      className="bg-gray-200 text-gray-500 px-4 py-2 rounded-lg cursor-not-allowed"
-                    >
-                      Manage (Coming soon)
-                    </button>
+                    {user?.role === "AGENCY" ? (
+                      <button
+                        type="button"
+                        onClick={() => setActiveTab("api-keys")}
+                        className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors"
+                      >
+                        Manage
+                      </button>
+                    ) : (
+                      <span className="text-sm text-gray-500">Available to agency owners</span>
+                    )}
                   </div>
                 </div>
               </div>
@@ -1203,6 +1245,15 @@ const SettingsPage = () => {
           </div>
         );
 
+      case "api-keys":
+        return <ApiKeysManager />;
+
+      case "webhooks":
+        return <WebhooksManager />;
+
+      case "task-workflow":
+        return <TaskWorkflowManager />;
+
       default:
         return null;
     }
@@ -1340,14 +1391,14 @@ const SettingsPage = () => {
                     </button>
                   </div>
                   <p className="text-xs text-gray-600 mb-2">
-                    Tasks are created in this exact sequence. Use arrows to reorder.
+                    Tasks are created in this exact sequence. Use arrows to reorder. A task can only be blocked by tasks above it.
                   </p>
                   <div className="space-y-2 max-h-64 overflow-y-auto border border-gray-200 rounded-lg p-2">
                     {templateForm.tasks.length === 0 ? (
                       <p className="text-sm text-gray-500 py-4 text-center">No tasks. Click &quot;Add task&quot; to add one.</p>
                     ) : (
                       templateForm.tasks.map((task, index) => (
-                        <div key={index} className="flex gap-2 items-start p-2 bg-gray-50 rounded-lg border border-gray-200">
+                        <div key={task.uid} className="flex gap-2 items-start p-2 bg-gray-50 rounded-lg border border-gray-200">
                           <span className="text-gray-400 mt-2 flex-shrink-0" title="Order"><GripVertical className="h-4 w-4" /></span>
                           <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 gap-2 min-w-0">
                             <div>
@@ -1419,6 +1470,45 @@ const SettingsPage = () => {
                                 title="Days after onboarding start date"
                               />
                             </div>
+                            {index > 0 && (
+                              <div className="sm:col-span-2">
+                                <label className="block text-xs font-medium text-gray-700 mb-1">Blocked by</label>
+                                <div className="flex flex-wrap items-center gap-1.5">
+                                  {task.blockedBy.map((uid) => {
+                                    const blockerIndex = templateForm.tasks.findIndex((t) => t.uid === uid);
+                                    const blocker = templateForm.tasks[blockerIndex];
+                                    if (!blocker) return null;
+                                    return (
+                                      <span key={uid} className="inline-flex items-center gap-1 rounded-full bg-amber-50 border border-amber-200 px-2 py-0.5 text-xs text-amber-800">
+                                        #{blockerIndex + 1} {blocker.title.trim() || "Untitled task"}
+                                        <button
+                                          type="button"
+                                          onClick={() => setTemplateTaskBlockers(index, task.blockedBy.filter((id) => id !== uid))}
+                                          className="text-amber-600 hover:text-amber-900"
+                                          title="Remove blocker"
+                                        >
+                                          <X className="h-3 w-3" />
+                                        </button>
+                                      </span>
+                                    );
+                                  })}
+                                  <select
+                                    value=""
+                                    onChange={(e) => e.target.value && setTemplateTaskBlockers(index, [...task.blockedBy, e.target.value])}
+                                    className="border border-gray-300 rounded px-2 py-1 text-xs"
+                                  >
+                                    <option value="">Add blocking task…</option>
+                                    {templateForm.tasks.slice(0, index).map((t, i) =>
+                                      task.blockedBy.includes(t.uid) ? null : (
+                                        <option key={t.uid} value={t.uid}>
+                                          #{i + 1} {t.title.trim() || "Untitled task"}
+                                        </option>
+                                      )
+                                    )}
+                                  </select>
+                                </div>
+                              </div>
+                            )}
                           </div>
                           <div className="flex flex-col gap-1 mt-1">
                             <button
@@ -5,6 +5,7 @@ import { Download, TrendingUp, TrendingDown, Search, Users, Loader2, UserPlus, A
 import RankedKeywordsOverview from "@/components/RankedKeywordsOverview";
 import TargetKeywordsOverview from "@/components/TargetKeywordsOverview";
 import api from "@/lib/api";
+import { formatTrackedHours } from "@/lib/timeTracking";
 import {
   AccuracyEnvelope,
   formatUnavailableReason,
@@ -59,6 +60,15 @@ type AiSearchVisibilityRow = {
   citedPages: number;
 };
 
+type ShareHoursUsed = {
+  startDate: string;
+  endDate: string;
+  allowanceHours: number | null;
+  /** Clients are shown billable time only. */
+  billableMinutes: number;
+  byTask: Array<{ taskId: string; title: string; billableMinutes: number }>;
+};
+
 interface TrendPoint {
   date: string;
   value: number;
@@ -183,6 +193,7 @@ const ShareDashboardPage: React.FC = () => {
   const [topEventsLoading, setTopEventsLoading] = useState(false);
   const [topEventsError, setTopEventsError] = useState<string | null>(null);
   const [aiSearchRows, setAiSearchRows] = useState<AiSearchVisibilityRow[]>([]);
+  const [hoursUsed, setHoursUsed] = useState<ShareHoursUsed | null>(null);
   const [aiSearchLoading, setAiSearchLoading] = useState(false);
   const [aiSearchError, setAiSearchError] = useState<string | null>(null);
   const [expandedPageUrls, setExpandedPageUrls] = useState<Set<string>>(new Set());
@@ -717,6 +728,22 @@ const ShareDashboardPage: React.FC = () => {
     fetchAiSearchVisibility();
   }, [fetchAiSearchVisibility]);
 
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    api
+      .get(`/seo/share/${encodeURIComponent(token)}/hours`, { _silent: true } as any)
+      .then((res) => {
+        if (!cancelled) setHoursUsed((res?.data as ShareHoursUsed | null) ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setHoursUsed(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
   const resolvedTopPages = useMemo<TopPageItem[]>(() => {
     // Match main dashboard: show actual data only (no sample fallback)
     return topPages;
@@ -1510,6 +1537,52 @@ const ShareDashboardPage: React.FC = () => {
                 })()}
               </div>
             </div>
+
+            {hoursUsed && (
+              <div className="pdf-section rounded-xl border-l-4 border-violet-500 bg-white shadow-sm ring-1 ring-gray-200/80 overflow-hidden">
+                <div className="p-6 border-b-2 border-gray-100 bg-gradient-to-r from-violet-50/60 to-purple-50/50">
+                  <h3 className="text-lg font-semibold text-violet-900">Hours Used</h3>
+                  <p className="text-sm text-violet-800/80">
+                    Time logged on your account from {hoursUsed.startDate} to {hoursUsed.endDate}
+                  </p>
+                </div>
+                <div className="p-6 space-y-4">
+                  <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+                    {[
+                      { label: "Logged", value: formatTrackedHours(hoursUsed.billableMinutes) },
+                      { label: "Monthly allowance", value: hoursUsed.allowanceHours != null ? `${hoursUsed.allowanceHours}h` : "—" },
+                      {
+                        label: "Remaining",
+                        value: hoursUsed.allowanceHours != null ? formatTrackedHours(hoursUsed.allowanceHours * 60 - hoursUsed.billableMinutes) : "—",
+                      },
+                    ].map((tile) => (
+                      <div key={tile.label} className="rounded-lg bg-violet-50 px-4 py-3 text-center">
+                        <p className="text-xs font-semibold text-violet-800">{tile.label}</p>
+                        <p className="mt-1 text-2xl font-bold text-violet-900">{tile.value}</p>
+                      </div>
+                    ))}
+                  </div>
+                  {hoursUsed.byTask.length > 0 && (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-gray-200 text-left text-xs font-semibold uppercase tracking-wide text-gray-500">
+                          <th className="py-2 pr-3">Task</th>
+                          <th className="py-2 text-right">Hours</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {hoursUsed.byTask.map((row) => (
+                          <tr key={row.taskId}>
+                            <td className="py-2 pr-3 text-gray-900">{row.title}</td>
+                            <td className="py-2 text-right font-medium text-gray-900">{formatTrackedHours(row.billableMinutes)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </div>
+            )}
             </>
             </ShareDashboardErrorBoundary>
           )}
@@ -279,6 +279,8 @@ const SpecialistClientsPage = () => {
           setForm={() => {}}
           canEdit={false}
           showStatus={false}
+          clientId={companyInfoClientId}
+          hasWebsitePassword={Boolean(companyInfoClient?.hasWebsitePassword)}
           onClose={() => {
             setCompanyInfoClientId(null);
             setCompanyInfoClient(null);
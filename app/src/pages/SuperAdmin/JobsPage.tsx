@@ -0,0 +1,309 @@
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  ChevronDown,
+  ChevronUp,
+  Clock,
+  Loader2,
+  Play,
+  RefreshCw,
+  Timer,
+  XCircle,
+} from "lucide-react";
+import api from "@/lib/api";
+import toast from "react-hot-toast";
+
+type JobRunStatus = "running" | "success" | "failed" | "abandoned";
+
+interface ScheduledJob {
+  name: string;
+  label: string;
+  description: string | null;
+  intervalMs: number;
+  maxRetries: number;
+  nextRunAt: string | null;
+  runRequestedAt: string | null;
+  isRunning: boolean;
+  lockedBy: string | null;
+  lastRunAt: string | null;
+  lastFinishedAt: string | null;
+  lastDurationMs: number | null;
+  lastStatus: JobRunStatus | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+}
+
+interface JobRun {
+  id: string;
+  trigger: "schedule" | "retry" | "manual";
+  attempt: number;
+  workerId: string;
+  status: JobRunStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  error: string | null;
+}
+
+const POLL_INTERVAL_MS = 15000;
+
+const formatDuration = (ms: number | null) => {
+  if (ms == null) return "—";
+  if (ms < 1000) return `${ms} ms`;
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)} s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${Math.round(seconds % 60)}s`;
+};
+
+const formatInterval = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `Every ${minutes} min`;
+  const hours = minutes / 60;
+  if (hours < 24) return `Every ${hours % 1 === 0 ? hours : hours.toFixed(1)} h`;
+  const days = hours / 24;
+  return days === 1 ? "Daily" : `Every ${days % 1 === 0 ? days : days.toFixed(1)} days`;
+};
+
+const StatusBadge = ({ status }: { status: JobRunStatus | null }) => {
+  if (!status) return <span className="text-xs text-gray-400">Never run</span>;
+  const styles: Record<JobRunStatus, { className: string; icon: JSX.Element; label: string }> = {
+    running: { className: "bg-blue-50 text-blue-700", icon: <Loader2 className="h-3.5 w-3.5 animate-spin" />, label: "Running" },
+    success: { className: "bg-emerald-50 text-emerald-700", icon: <CheckCircle2 className="h-3.5 w-3.5" />, label: "Success" },
+    failed: { className: "bg-rose-50 text-rose-700", icon: <XCircle className="h-3.5 w-3.5" />, label: "Failed" },
+    abandoned: { className: "bg-amber-50 text-amber-700", icon: <AlertTriangle className="h-3.5 w-3.5" />, label: "Abandoned" },
+  };
+  const s = styles[status];
+  return (
+    <span className={`inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-semibold ${s.className}`}>
+      {s.icon}
+      {s.label}
+    </span>
+  );
+};
+
+const JobsPage = () => {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [triggering, setTriggering] = useState<string | null>(null);
+  const [expandedJob, setExpandedJob] = useState<string | null>(null);
+  const [runs, setRuns] = useState<Record<string, JobRun[]>>({});
+  const [runsLoading, setRunsLoading] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const res = await api.get("/jobs");
+      setJobs(res.data?.jobs || []);
+    } catch {
+      toast.error("Failed to load jobs");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadRuns = useCallback(async (name: string) => {
+    setRunsLoading(name);
+    try {
+      const res = await api.get(`/jobs/${name}/runs`, { params: { limit: 25 } });
+      setRuns((prev) => ({ ...prev, [name]: res.data?.runs || [] }));
+    } catch {
+      toast.error("Failed to load run history");
+    } finally {
+      setRunsLoading(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadJobs();
+    const timer = window.setInterval(loadJobs, POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [loadJobs]);
+
+  const handleRunNow = async (job: ScheduledJob) => {
+    setTriggering(job.name);
+    try {
+      await api.post(`/jobs/${job.name}/run`);
+      toast.success(`${job.label} queued`);
+      await loadJobs();
+      if (expandedJob === job.name) loadRuns(job.name);
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || "Failed to queue job");
+    } finally {
+      setTriggering(null);
+    }
+  };
+
+  const toggleRuns = (name: string) => {
+    if (expandedJob === name) {
+      setExpandedJob(null);
+      return;
+    }
+    setExpandedJob(name);
+    loadRuns(name);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-indigo-50/30 p-8">
+      <div className="mb-8 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <div className="flex h-12 w-12 items-center justify-center rounded-2xl bg-indigo-600">
+            <Timer className="h-6 w-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Background Jobs</h1>
+            <p className="mt-0.5 text-sm text-gray-500">Scheduled work shared across all server instances</p>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => {
+            setLoading(true);
+            loadJobs();
+          }}
+          className="inline-flex items-center gap-2 rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} /> Refresh
+        </button>
+      </div>
+
+      {loading && jobs.length === 0 ? (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-indigo-500" />
+        </div>
+      ) : jobs.length === 0 ? (
+        <div className="rounded-2xl border-2 border-dashed border-gray-300 bg-white/60 py-16 text-center text-sm text-gray-500">
+          No background jobs are registered on this server.
+        </div>
+      ) : (
+        <div className="overflow-hidden rounded-2xl border border-gray-200 bg-white shadow-sm">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">Job</th>
+                <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">Last run</th>
+                <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">Duration</th>
+                <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">Failures</th>
+                <th className="px-6 py-3 text-left text-xs font-semibold uppercase tracking-wider text-gray-500">Next run</th>
+                <th className="px-6 py-3 text-right text-xs font-semibold uppercase tracking-wider text-gray-500">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {jobs.map((job) => (
+                <Fragment key={job.name}>
+                  <tr className="hover:bg-gray-50/60">
+                    <td className="px-6 py-4 align-top">
+                      <button
+                        type="button"
+                        onClick={() => toggleRuns(job.name)}
+                        className="flex items-center gap-1 text-left text-sm font-semibold text-gray-900 hover:text-indigo-600"
+                      >
+                        {expandedJob === job.name ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                        {job.label}
+                      </button>
+                      {job.description && <p className="mt-1 max-w-md text-xs text-gray-500">{job.description}</p>}
+                      <p className="mt-1 inline-flex items-center gap-1 text-xs text-gray-400">
+                        <Clock className="h-3 w-3" /> {formatInterval(job.intervalMs)}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4 align-top">
+                      <StatusBadge status={job.isRunning ? "running" : job.lastStatus} />
+                      {job.lastError && job.lastStatus === "failed" && (
+                        <p className="mt-1 max-w-xs truncate text-xs text-rose-600" title={job.lastError}>
+                          {job.lastError.split("\n")[0]}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 align-top text-sm text-gray-700">
+                      {job.lastRunAt ? (
+                        <span title={format(new Date(job.lastRunAt), "PPpp")}>
+                          {formatDistanceToNow(new Date(job.lastRunAt), { addSuffix: true })}
+                        </span>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                    <td className="px-6 py-4 align-top text-sm text-gray-700">{formatDuration(job.lastDurationMs)}</td>
+                    <td className="px-6 py-4 align-top text-sm">
+                      <span className={job.consecutiveFailures > 0 ? "font-semibold text-rose-600" : "text-gray-500"}>
+                        {job.consecutiveFailures}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 align-top text-sm text-gray-700">
+                      {job.runRequestedAt ? (
+                        <span className="text-indigo-600">Queued</span>
+                      ) : job.nextRunAt ? (
+                        <span title={format(new Date(job.nextRunAt), "PPpp")}>
+                          {formatDistanceToNow(new Date(job.nextRunAt), { addSuffix: true })}
+                        </span>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-right align-top">
+                      <button
+                        type="button"
+                        onClick={() => handleRunNow(job)}
+                        disabled={job.isRunning || Boolean(job.runRequestedAt) || triggering === job.name}
+                        className="inline-flex items-center gap-1.5 rounded-lg bg-indigo-600 px-3 py-1.5 text-xs font-semibold text-white hover:bg-indigo-700 disabled:cursor-not-allowed disabled:opacity-50"
+                      >
+                        {triggering === job.name ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Play className="h-3.5 w-3.5" />}
+                        Run now
+                      </button>
+                    </td>
+                  </tr>
+                  {expandedJob === job.name && (
+                    <tr>
+                      <td colSpan={7} className="bg-gray-50 px-6 py-4">
+                        {runsLoading === job.name && !runs[job.name] ? (
+                          <div className="flex items-center gap-2 text-sm text-gray-500">
+                            <Loader2 className="h-4 w-4 animate-spin" /> Loading run history…
+                          </div>
+                        ) : (runs[job.name] || []).length === 0 ? (
+                          <p className="text-sm text-gray-500">No runs recorded yet.</p>
+                        ) : (
+                          <table className="min-w-full text-xs">
+                            <thead>
+                              <tr className="text-left text-gray-500">
+                                <th className="py-1 pr-4 font-semibold">Started</th>
+                                <th className="py-1 pr-4 font-semibold">Trigger</th>
+                                <th className="py-1 pr-4 font-semibold">Attempt</th>
+                                <th className="py-1 pr-4 font-semibold">Status</th>
+                                <th className="py-1 pr-4 font-semibold">Duration</th>
+                                <th className="py-1 pr-4 font-semibold">Worker</th>
+                                <th className="py-1 font-semibold">Error</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {(runs[job.name] || []).map((run) => (
+                                <tr key={run.id} className="border-t border-gray-200 align-top">
+                                  <td className="py-1.5 pr-4 text-gray-700">{format(new Date(run.startedAt), "MMM d, HH:mm:ss")}</td>
+                                  <td className="py-1.5 pr-4 capitalize text-gray-700">{run.trigger}</td>
+                                  <td className="py-1.5 pr-4 text-gray-700">{run.attempt}</td>
+                                  <td className="py-1.5 pr-4"><StatusBadge status={run.status} /></td>
+                                  <td className="py-1.5 pr-4 text-gray-700">{formatDuration(run.durationMs)}</td>
+                                  <td className="py-1.5 pr-4 font-mono text-gray-500">{run.workerId}</td>
+                                  <td className="max-w-md truncate py-1.5 text-rose-600" title={run.error || undefined}>
+                                    {run.error ? run.error.split("\n")[0] : ""}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JobsPage;
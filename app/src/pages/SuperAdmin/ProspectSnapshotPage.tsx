@@ -3,6 +3,7 @@ import toast from "react-hot-toast";
 import LocalMapSnapshotRunner from "@/components/LocalMapSnapshotRunner";
 import ConfirmDialog from "@/components/ConfirmDialog";
 import api from "@/lib/api";
+import { getLocalMapGridCenterIndex } from "@/lib/localMapGrid";
 import { Download, Eye, Loader2, MapPin, Play, Save, Send, Trash2, X } from "lucide-react";
 import html2canvas from "html2canvas";
 import { jsPDF } from "jspdf";
@@ -260,14 +261,7 @@ const ProspectSnapshotPage: React.FC = () => {
     if (!localMapReport?.current?.gridData) return [] as LocalMapGridCell[];
     return parseLocalMapGridData(localMapReport.current.gridData);
   }, [localMapReport?.current?.gridData]);
-  const localMapCurrentGridSize = useMemo(
-    () => Math.max(1, Math.round(Math.sqrt(localMapCurrentCells.length || 1))),
-    [localMapCurrentCells.length]
-  );
-  const localMapCurrentCenterIdx = useMemo(
-    () => Math.floor(localMapCurrentGridSize / 2) * localMapCurrentGridSize + Math.floor(localMapCurrentGridSize / 2),
-    [localMapCurrentGridSize]
-  );
+  const localMapCurrentCenterIdx = useMemo(() => getLocalMapGridCenterIndex(localMapCurrentCells), [localMapCurrentCells]);
   const localMapSelectedCurrentPoint = useMemo(() => {
     if (localMapSelectedCurrentPointIdx == null) return null;
     return localMapCurrentCells[localMapSelectedCurrentPointIdx] ?? null;
@@ -1379,8 +1373,7 @@ const ProspectSnapshotPage: React.FC = () => {
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
                       {localMapReport.previousThree.map((snap) => {
                         const cells = parseLocalMapGridData(snap.gridData);
-                        const size = Math.max(1, Math.round(Math.sqrt(cells.length || 1)));
-                        const centerIdx = Math.floor(size / 2) * size + Math.floor(size / 2);
+                        const centerIdx = getLocalMapGridCenterIndex(cells);
                         const selectedIdx = localMapSelectedPreviousPointIdxByRun[snap.id] ?? centerIdx;
                         const selectedPoint = cells[selectedIdx] ?? null;
                         return (
@@ -1518,8 +1511,7 @@ const ProspectSnapshotPage: React.FC = () => {
                         {renderLocalMapLegend(localMapExportingPdf, true)}
                         {(() => {
                       const cells = parseLocalMapGridData(localMapReport.benchmark!.gridData);
-                      const size = Math.max(1, Math.round(Math.sqrt(cells.length || 1)));
-                      const centerIdx = Math.floor(size / 2) * size + Math.floor(size / 2);
+                      const centerIdx = getLocalMapGridCenterIndex(cells);
                       const selectedIdx = localMapSelectedBenchmarkPointIdx ?? centerIdx;
                       const selectedPoint = cells[selectedIdx] ?? null;
                       return (
@@ -33,6 +33,7 @@ import {
     MessageSquare,
     ChevronLeft,
     ChevronRight,
+    Lock,
 } from "lucide-react";
 
 import "react-datepicker/dist/react-datepicker.css";
@@ -42,14 +43,19 @@ import KanbanBoard from "./KanbanBoard";
 import TaskModal from "@/components/TaskModal";
 import OnboardingTemplateModal from "@/components/OnboardingTemplateModal";
 import RecurringTaskModal from "@/components/RecurringTaskModal";
-import { fetchTasks, patchTaskStatus, deleteTask, updateTask } from "@/store/slices/taskSlice";
+import { fetchTasks, patchTaskStatus, deleteTask, updateTask, upsertTask } from "@/store/slices/taskSlice";
 import { fetchClients } from "@/store/slices/clientSlice";
-import { ROLE, Task } from "@/utils/types";
+import { ROLE, Task, TaskWorkflowColumn } from "@/utils/types";
+import { formatBlockedTitle } from "@/lib/taskDependencies";
 import toast from "react-hot-toast";
 import ConfirmDialog from "../components/ConfirmDialog";
+import WebsitePasswordReveal from "@/components/WebsitePasswordReveal";
 import api, { getUploadFileUrl } from "@/lib/api";
+import { watchRealtime } from "@/lib/realtime";
 
 const TASKS_PAGE_SIZES = [25, 50, 100, 250] as const;
+/** Bursts of pushed task changes (bulk creates, workflow moves) collapse into one list reload. */
+const TASK_BOARD_RELOAD_DEBOUNCE_MS = 1000;
 
 const TasksPage = () => {
     const dispatch = useDispatch();
@@ -95,6 +101,7 @@ const TasksPage = () => {
     const [bulkAssigning, setBulkAssigning] = useState(false);
     const [bulkDeleting, setBulkDeleting] = useState(false);
     const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+    const [workflowColumns, setWorkflowColumns] = useState<TaskWorkflowColumn[] | undefined>(undefined);
     const { tasks } = useSelector((state: RootState) => state.task);
     const { user } = useSelector((state: RootState) => state.auth);
     const { clients } = useSelector((state: RootState) => state.client);
@@ -216,8 +223,7 @@ const TasksPage = () => {
     };
     useEffect(() => {
         fetchUnreadCounts();
-        const interval = setInterval(fetchUnreadCounts, 30000);
-        return () => clearInterval(interval);
+        return watchRealtime(["notification"], fetchUnreadCounts, { fallbackIntervalMs: 30000 });
     }, [user?.role]);
 
     // Only agency/admin/super-admin can create, bulk-assign, and manage tasks
@@ -534,6 +540,42 @@ const TasksPage = () => {
 
     useEffect(() => { dispatch(fetchTasks() as any); }, [dispatch]);
 
+    // Live board: a pushed change to a task already on the board patches that card; anything else reloads the list.
+    const tasksRef = useRef(tasks);
+    tasksRef.current = tasks;
+    useEffect(() => {
+        let reloadTimer: ReturnType<typeof setTimeout> | null = null;
+        const reloadSoon = () => {
+            if (reloadTimer) return;
+            reloadTimer = setTimeout(() => {
+                reloadTimer = null;
+                void dispatch(fetchTasks() as any);
+            }, TASK_BOARD_RELOAD_DEBOUNCE_MS);
+        };
+        const stopWatching = watchRealtime(["task"], (event) => {
+            const taskId = event?.type === "task" && event.action === "updated" ? event.taskId : null;
+            if (!taskId || !tasksRef.current.some((t) => t.id === taskId)) {
+                reloadSoon();
+                return;
+            }
+            api.get(`/tasks/${taskId}`, { _silent: true } as any)
+                .then((res) => {
+                    if (res?.data?.id) dispatch(upsertTask(res.data));
+                })
+                .catch(() => reloadSoon());
+        });
+        return () => {
+            stopWatching();
+            if (reloadTimer) clearTimeout(reloadTimer);
+        };
+    }, [dispatch]);
+
+    useEffect(() => {
+        api.get("/task-workflow", { _silent: true } as any)
+            .then((res) => setWorkflowColumns(Array.isArray(res.data?.columns) ? res.data.columns : undefined))
+            .catch(() => setWorkflowColumns(undefined));
+    }, []);
+
     const canViewRecurring = ["SUPER_ADMIN", "ADMIN", "AGENCY", "SPECIALIST", "USER"].includes(
         String(user?.role || "")
     );
@@ -1111,6 +1153,15 @@ const TasksPage = () => {
                                                             {unreadCounts[task.id]}
                                                         </span>
                                                     )}
+                                                    {task.isBlocked && (
+                                                        <span
+                                                            className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded-full bg-amber-100 text-amber-800 text-[10px] font-bold"
+                                                            title={formatBlockedTitle(task)}
+                                                        >
+                                                            <Lock className="h-3 w-3" />
+                                                            Blocked
+                                                        </span>
+                                                    )}
                                                 </div>
                                                 <div className="text-xs text-gray-500">{task.category ?? "No category"}</div>
                                                 {task.description && (
@@ -1198,10 +1249,10 @@ const TasksPage = () => {
                                                                             <span className="ml-1">{(task.client as any).username}</span>
                                                                         </div>
                                                                     )}
-                                                                    {(task.client as any).password && (
+                                                                    {(task.client as any).hasWebsitePassword && !isClientUser && (
                                                                         <div className="mb-1">
                                                                             <span className="font-medium">Password:</span> 
-                                                                            <span className="ml-1 font-mono">{(task.client as any).password}</span>
+                                                                            <WebsitePasswordReveal clientId={task.client.id} className="ml-1" />
                                                                         </div>
                                                                     )}
                                                                     {(task.client as any).notes && (
@@ -1323,7 +1374,8 @@ const TasksPage = () => {
             ) : (
                 <KanbanBoard
                     tasks={displayedTasks}
-                    onMove={(id, status) => dispatch(patchTaskStatus({ id, status }) as any)}
+                    columns={workflowColumns}
+                    onMove={(id, column) => dispatch(patchTaskStatus({ id, workflowColumnKey: column.key }) as any)}
                     onTaskClick={handleEditClick}
                 />
             )}
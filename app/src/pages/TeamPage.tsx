@@ -9,12 +9,16 @@ import {
   Trash2,
   X,
   Mail,
+  ShieldCheck,
+  ShieldOff,
+  RotateCcw,
 } from "lucide-react";
 import api from "../lib/api";
 import { useSelector } from "react-redux";
 import { RootState } from "../store";
 import toast from "react-hot-toast";
 import ConfirmDialog from "../components/ConfirmDialog";
+import AgencyRolesManager from "../components/AgencyRolesManager";
 
 interface TeamMember {
   id: string;
@@ -29,6 +33,14 @@ interface TeamMember {
   agencies: Array<{ id: string; name: string; role: string }>;
   clientCount?: number;
   taskCount?: number;
+  twoFactorEnabled?: boolean;
+}
+
+interface TwoFactorPolicy {
+  requireTwoFactor: boolean;
+  memberCount: number;
+  enrolledCount: number;
+  canManage: boolean;
 }
 
 const TeamPage = () => {
@@ -63,10 +75,20 @@ const TeamPage = () => {
     confirmPassword: "",
   });
 
+  const [twoFactorPolicy, setTwoFactorPolicy] = useState<TwoFactorPolicy | null>(null);
+  const [savingTwoFactorPolicy, setSavingTwoFactorPolicy] = useState(false);
+  const [resetTwoFactorMember, setResetTwoFactorMember] = useState<TeamMember | null>(null);
+
   useEffect(() => {
     fetchTeamMembers();
   }, []);
 
+  useEffect(() => {
+    if (user?.role === "AGENCY") {
+      fetchTwoFactorPolicy();
+    }
+  }, [user?.role]);
+
   // Refetch team when an agency is created so the new agency owner appears in the list
   useEffect(() => {
     const onAgencyCreated = () => fetchTeamMembers();
@@ -95,6 +117,56 @@ const TeamPage = () => {
     }
   };
 
+  const fetchTwoFactorPolicy = async () => {
+    try {
+      const response = await api.get("/team/two-factor-policy", { _silent: true } as any);
+      setTwoFactorPolicy(response.data);
+    } catch (error: any) {
+      console.error("Failed to fetch 2FA policy:", error);
+    }
+  };
+
+  const handleToggleTwoFactorPolicy = async () => {
+    if (!twoFactorPolicy) return;
+    setSavingTwoFactorPolicy(true);
+    try {
+      const response = await api.put("/team/two-factor-policy", {
+        requireTwoFactor: !twoFactorPolicy.requireTwoFactor,
+      });
+      setTwoFactorPolicy({ ...twoFactorPolicy, requireTwoFactor: response.data.requireTwoFactor });
+      toast.success(
+        response.data.requireTwoFactor
+          ? "Two-factor authentication is now required for your team"
+          : "Two-factor authentication is now optional"
+      );
+    } catch (error: any) {
+      console.error("Failed to update 2FA policy:", error);
+    } finally {
+      setSavingTwoFactorPolicy(false);
+    }
+  };
+
+  const confirmResetTwoFactor = async () => {
+    if (!resetTwoFactorMember) return;
+    try {
+      await api.post(`/team/${resetTwoFactorMember.id}/two-factor/reset`);
+      toast.success(`Two-factor authentication reset for ${resetTwoFactorMember.name}`);
+      fetchTeamMembers();
+      if (user?.role === "AGENCY") fetchTwoFactorPolicy();
+    } catch (error: any) {
+      console.error("Failed to reset 2FA:", error);
+    } finally {
+      setResetTwoFactorMember(null);
+    }
+  };
+
+  const canResetTwoFactor = (member: TeamMember) =>
+    Boolean(member.twoFactorEnabled) &&
+    member.id !== user?.id &&
+    (user?.role === "ADMIN" ||
+      user?.role === "SUPER_ADMIN" ||
+      (user?.role === "AGENCY" && Boolean(twoFactorPolicy?.canManage)));
+
   const fetchAllUsers = async () => {
     if (!(user?.role === "SUPER_ADMIN" || user?.role === "ADMIN")) return;
     try {
@@ -382,6 +454,41 @@ const TeamPage = () => {
         </div>
       )}
 
+      {twoFactorPolicy && (
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-6 mb-8 flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-start gap-3">
+            <ShieldCheck className="h-6 w-6 text-emerald-600 mt-0.5" />
+            <div>
+              <p className="text-sm font-semibold text-gray-900">Require two-factor authentication</p>
+              <p className="text-sm text-gray-500">
+                Team members without an authenticator app must set one up at their next sign-in.{" "}
+                {twoFactorPolicy.enrolledCount} of {twoFactorPolicy.memberCount} enrolled.
+              </p>
+            </div>
+          </div>
+          {twoFactorPolicy.canManage ? (
+            <button
+              type="button"
+              role="switch"
+              aria-checked={twoFactorPolicy.requireTwoFactor}
+              onClick={handleToggleTwoFactorPolicy}
+              disabled={savingTwoFactorPolicy}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-60 ${
+                twoFactorPolicy.requireTwoFactor ? "bg-emerald-600" : "bg-gray-300"
+              }`}
+            >
+              <span
+                className={`inline-block h-5 w-5 transform rounded-full bg-white shadow transition-transform ${
+                  twoFactorPolicy.requireTwoFactor ? "translate-x-5" : "translate-x-0.5"
+                }`}
+              />
+            </button>
+          ) : (
+            <span className="text-sm text-gray-500">{twoFactorPolicy.requireTwoFactor ? "Required" : "Optional"}</span>
+          )}
+        </div>
+      )}
+
       {/* Team Members Table */}
       <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
         <div className="p-6 border-b border-gray-200">
@@ -398,6 +505,7 @@ const TeamPage = () => {
                 <th className="px-6 py-3.5 text-left text-xs font-semibold text-emerald-800 uppercase tracking-wider border-l-4 border-emerald-300">Email</th>
                 <th className="px-6 py-3.5 text-left text-xs font-semibold text-amber-800 uppercase tracking-wider border-l-4 border-amber-300">Role</th>
                 <th className="px-6 py-3.5 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider border-l-4 border-slate-300">Status</th>
+                <th className="px-6 py-3.5 text-left text-xs font-semibold text-slate-700 uppercase tracking-wider border-l-4 border-slate-300">2FA</th>
                 <th className="px-6 py-3.5 text-left text-xs font-semibold text-violet-700 uppercase tracking-wider border-l-4 border-violet-300">Date Added</th>
                 <th className="px-6 py-3.5 text-left text-xs font-semibold text-violet-700 uppercase tracking-wider border-l-4 border-violet-300">Actions</th>
               </tr>
@@ -405,13 +513,13 @@ const TeamPage = () => {
             <tbody className="divide-y divide-gray-100">
               {isTableLoading ? (
                 <tr>
-                  <td colSpan={7} className="px-6 py-8 text-center text-gray-500 bg-gray-50/50">
+                  <td colSpan={8} className="px-6 py-8 text-center text-gray-500 bg-gray-50/50">
                     Loading team members...
                   </td>
                 </tr>
               ) : visibleMembers.length === 0 ? (
                 <tr>
-                  <td colSpan={7} className="px-6 py-8 text-center text-gray-500 bg-amber-50/50">
+                  <td colSpan={8} className="px-6 py-8 text-center text-gray-500 bg-amber-50/50">
                     No team members found
                   </td>
                 </tr>
@@ -449,11 +557,31 @@ const TeamPage = () => {
                         {getStatusText(member)}
                       </span>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {member.twoFactorEnabled ? (
+                        <span className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-full bg-emerald-100 text-emerald-800">
+                          <ShieldCheck className="h-3.5 w-3.5" /> On
+                        </span>
+                      ) : (
+                        <span className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-600">
+                          <ShieldOff className="h-3.5 w-3.5" /> Off
+                        </span>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-600">
                       {member.createdAt ? new Date(member.createdAt).toLocaleDateString() : "—"}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center gap-1">
+                        {canResetTwoFactor(member) && (
+                          <button
+                            onClick={() => setResetTwoFactorMember(member)}
+                            className="p-2 rounded-lg text-gray-500 hover:text-amber-600 hover:bg-amber-50 transition-colors"
+                            title="Reset two-factor authentication"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </button>
+                        )}
                         {(user?.role === "ADMIN" || user?.role === "SUPER_ADMIN") && (
                           <>
                             {member.invited && !member.verified && (
@@ -511,6 +639,8 @@ const TeamPage = () => {
         </div>
       </div>
 
+      {user?.role === "AGENCY" && activeView === "myTeam" && <AgencyRolesManager />}
+
       {/* Invite New Specialist Modal */}
       {showInviteModal && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
@@ -780,6 +910,17 @@ const TeamPage = () => {
         cancelText="Cancel"
         variant="danger"
       />
+
+      <ConfirmDialog
+        isOpen={Boolean(resetTwoFactorMember)}
+        onClose={() => setResetTwoFactorMember(null)}
+        onConfirm={confirmResetTwoFactor}
+        title="Reset Two-Factor Authentication"
+        message={`${resetTwoFactorMember?.name || "This member"} will be able to sign in with just their password and will need to set up an authenticator app again. Only do this if they lost access to their device.`}
+        confirmText="Reset 2FA"
+        cancelText="Cancel"
+        variant="warning"
+      />
     </div>
   );
 };
@@ -0,0 +1,39 @@
+import { useDispatch } from "react-redux";
+import { ShieldAlert } from "lucide-react";
+import TwoFactorSettings from "@/components/TwoFactorSettings";
+import { logout } from "@/store/slices/authSlice";
+
+/** Shown instead of the app while the user's agency requires 2FA and the user has not enrolled. */
+const TwoFactorSetupRequiredPage = () => {
+  const dispatch = useDispatch();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 via-blue-50 to-indigo-50 flex items-center justify-center px-4">
+      <div className="max-w-xl w-full bg-white rounded-2xl shadow-xl p-8 space-y-6">
+        <div className="flex items-start gap-4">
+          <div className="flex-shrink-0 bg-amber-100 rounded-full p-3">
+            <ShieldAlert className="h-6 w-6 text-amber-600" />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">Set up two-factor authentication</h1>
+            <p className="mt-1 text-sm text-gray-600">
+              Your agency requires every team member to sign in with an authenticator app. Set it up now to continue.
+            </p>
+          </div>
+        </div>
+        <TwoFactorSettings />
+        <div className="text-center">
+          <button
+            type="button"
+            onClick={() => dispatch(logout() as any)}
+            className="text-sm text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorSetupRequiredPage;
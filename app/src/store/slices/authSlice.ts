@@ -1,13 +1,19 @@
 import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
-import api from "../../lib/api";
+import api, { clearSessionTokens, setSessionTokens } from "../../lib/api";
 import { ROLE } from "@/utils/types";
 
+export type NotificationChannel = "inApp" | "email" | "digest" | "webhook";
+
 export interface NotificationPreferences {
   emailReports: boolean;
   rankingAlerts: boolean;
   weeklyDigest: boolean;
   teamUpdates: boolean;
-  webDesign?: boolean;
+  /** Event id (task_activity, approvals, ...) -> channel -> on/off. */
+  routing: Record<string, Record<NotificationChannel, boolean>>;
+  webhookUrl: string | null;
+  /** Verifies the X-Webhook-Signature header on posts to webhookUrl. */
+  webhookSecret: string | null;
 }
 
 export interface AgencyBranding {
@@ -22,6 +28,15 @@ export interface AgencyBranding {
   sslIssuedAt?: string | null;
 }
 
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: string | null;
+  recoveryCodesRemaining?: number;
+  requiredByAgency?: boolean;
+  /** Agency enforces 2FA and the user has not enrolled: only the enrollment screen is available. */
+  setupRequired?: boolean;
+}
+
 export interface User {
   id: string;
   email: string;
@@ -36,18 +51,22 @@ export interface User {
   clientAccess?: {
     clients: Array<{ clientId: string; role: string; status: string }>;
   };
+  twoFactor?: TwoFactorStatus;
 }
 
 interface AuthState {
   user: User | null;
   loading: boolean;
   error: string | null;
+  /** Set after a correct password when the account has 2FA; cleared once the code is accepted. */
+  twoFactorChallenge: string | null;
 }
 
 const initialState: AuthState = {
   user: null,
   loading: false,
   error: null,
+  twoFactorChallenge: null,
 };
 
 export const checkAuth = createAsyncThunk("auth/checkAuth", async () => {
@@ -64,15 +83,32 @@ export const login = createAsyncThunk(
   async ({ email, password }: { email: string; password: string }) => {
     try {
       const response = await api.post("/auth/login", { email, password });
-      localStorage.setItem("token", response.data.token);
+      if (response.data.twoFactorRequired) {
+        return { user: null, challengeToken: response.data.challengeToken as string };
+      }
+      setSessionTokens(response.data.token, response.data.refreshToken);
 
-      return response.data.user;
+      return { user: response.data.user as User, challengeToken: null };
     } catch (error: any) {
       throw new Error(error.response?.data?.message || "Login failed");
     }
   }
 );
 
+export const verifyTwoFactorLogin = createAsyncThunk(
+  "auth/verifyTwoFactorLogin",
+  async ({ challengeToken, code }: { challengeToken: string; code: string }) => {
+    try {
+      const response = await api.post("/auth/login/2fa", { challengeToken, code });
+      setSessionTokens(response.data.token, response.data.refreshToken);
+
+      return response.data.user as User;
+    } catch (error: any) {
+      throw new Error(error.response?.data?.message || "Verification failed");
+    }
+  }
+);
+
 export const register = createAsyncThunk(
   "auth/register",
   async ({
@@ -101,7 +137,11 @@ export const register = createAsyncThunk(
 );
 
 export const logout = createAsyncThunk("auth/logout", async () => {
-  localStorage.removeItem("token");
+  // End this device's session on the server; sign out locally even if that fails
+  if (localStorage.getItem("token")) {
+    await api.post("/auth/logout", {}, { _silent: true } as any).catch(() => undefined);
+  }
+  clearSessionTokens();
 });
 
 const authSlice = createSlice({
@@ -111,6 +151,10 @@ const authSlice = createSlice({
     clearError: (state) => {
       state.error = null;
     },
+    cancelTwoFactorChallenge: (state) => {
+      state.twoFactorChallenge = null;
+      state.error = null;
+    },
   },
   extraReducers: (builder) => {
     builder
@@ -131,12 +175,26 @@ const authSlice = createSlice({
       })
       .addCase(login.fulfilled, (state, action) => {
         state.loading = false;
-        state.user = action.payload;
+        state.user = action.payload.user;
+        state.twoFactorChallenge = action.payload.challengeToken;
       })
       .addCase(login.rejected, (state, action) => {
         state.loading = false;
         state.error = action.error.message || "Login failed";
       })
+      .addCase(verifyTwoFactorLogin.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(verifyTwoFactorLogin.fulfilled, (state, action) => {
+        state.loading = false;
+        state.user = action.payload;
+        state.twoFactorChallenge = null;
+      })
+      .addCase(verifyTwoFactorLogin.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.error.message || "Verification failed";
+      })
       .addCase(register.pending, (state) => {
         state.loading = true;
         state.error = null;
@@ -151,9 +209,10 @@ const authSlice = createSlice({
       })
       .addCase(logout.fulfilled, (state) => {
         state.user = null;
+        state.twoFactorChallenge = null;
       });
   },
 });
 
-export const { clearError } = authSlice.actions;
+export const { clearError, cancelTwoFactorChallenge } = authSlice.actions;
 export default authSlice.reducer;
@@ -12,7 +12,8 @@ export interface Client {
   targets?: string[] | string | null;
   loginUrl?: string | null;
   username?: string | null;
-  password?: string | null;
+  /** True when a website login password is saved; the value itself is fetched on demand (see WebsitePasswordReveal). */
+  hasWebsitePassword?: boolean;
   accountInfo?: string | Record<string, any> | null;
   vendasta?: boolean;
   createdAt: string;
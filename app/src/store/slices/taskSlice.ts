@@ -42,6 +42,9 @@ export interface Task {
     email: string;
     role?: string;
   } | null;
+  workflowColumnId?: string | null;
+  blockedBy?: Array<{ id: string; title: string; status: TaskStatus; dueDate?: string | null }>;
+  isBlocked?: boolean;
 }
 
 interface TaskState {
@@ -120,13 +123,13 @@ export const updateTask = createAsyncThunk<
   }
 });
 
-// Patch status (Kanban drag)
+// Patch status or workflow column (Kanban drag)
 export const patchTaskStatus = createAsyncThunk<
   Task,
-  { id: string; status: TaskStatus }
->("task/patchTaskStatus", async ({ id, status }) => {
+  { id: string; status?: TaskStatus; workflowColumnKey?: string }
+>("task/patchTaskStatus", async ({ id, status, workflowColumnKey }) => {
   try {
-    const res = await api.patch(`/tasks/${id}/status`, { status });
+    const res = await api.patch(`/tasks/${id}/status`, { status, workflowColumnKey });
     return res.data as Task;
   } catch (error: any) {
     throw new Error(error.response?.data?.message || "Failed to update status");
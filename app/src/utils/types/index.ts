@@ -43,8 +43,65 @@ export interface Task {
     role?: string;
   } | null;
   approvalNotifyUserIds?: string[] | string | null; // JSON array of user IDs when status is NEEDS_APPROVAL
+  workflowColumnId?: string | null; // Agency workflow column; null = first column mapped to status
+  blockedBy?: TaskDependencyRef[]; // Tasks this task waits on
+  isBlocked?: boolean; // true while any blockedBy task is not DONE/CANCELLED
 }
 
+export interface TaskDependencyRef {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  dueDate?: string | null;
+}
+
+export type TaskApprovalDecision = "APPROVED" | "REVISIONS_REQUESTED";
+
+/** A signed client decision on a task (proof snapshot omitted). */
+export interface TaskApprovalRecord {
+  id: string;
+  createdAt: string;
+  batchId: string;
+  decision: TaskApprovalDecision;
+  comment: string | null;
+  taskId: string;
+  taskTitle: string;
+  clientId: string | null;
+  userId: string;
+  userName: string | null;
+  userEmail: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  proofHash: string;
+  previousHash: string;
+  recordHash: string;
+}
+
+export interface ApprovalChainCheck {
+  valid: boolean;
+  checked: number;
+  brokenRecordIds: string[];
+}
+
+export type TaskWorkflowRequiredField = "assignee" | "dueDate" | "proof" | "estimatedHours" | "description" | "client";
+
+export type TaskWorkflowColumn = {
+  id: string | null;
+  key: string;
+  name: string;
+  coreStatus: TaskStatus;
+  color: string | null;
+  wipLimit: number | null;
+  requiredFields: TaskWorkflowRequiredField[];
+  allowedNextKeys: string[] | null; // null = tasks may move to any column
+};
+
+export type TaskWorkflow = {
+  columns: TaskWorkflowColumn[];
+  isDefault: boolean;
+  requiredFields: Record<TaskWorkflowRequiredField, string>;
+};
+
 export type Column = {
   id: string;
   title: string;
@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE `keyword_rank_history` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `clientId` VARCHAR(191) NOT NULL,
+    `keywordId` VARCHAR(191) NULL,
+    `keywordKey` VARCHAR(255) NOT NULL,
+    `keyword` VARCHAR(255) NOT NULL,
+    `recordedOn` DATE NOT NULL,
+    `position` INTEGER NULL,
+    `rankingUrl` TEXT NULL,
+    `serpFeatures` LONGTEXT NULL,
+    `locationName` VARCHAR(255) NULL,
+
+    UNIQUE INDEX `keyword_rank_history_clientId_keywordKey_recordedOn_key`(`clientId`, `keywordKey`, `recordedOn`),
+    INDEX `keyword_rank_history_clientId_recordedOn_idx`(`clientId`, `recordedOn`),
+    INDEX `keyword_rank_history_keywordId_idx`(`keywordId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `keyword_rank_history` ADD CONSTRAINT `keyword_rank_history_clientId_fkey` FOREIGN KEY (`clientId`) REFERENCES `clients`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `keyword_rank_history` ADD CONSTRAINT `keyword_rank_history_keywordId_fkey` FOREIGN KEY (`keywordId`) REFERENCES `keywords`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed today's observation from the current tracked positions so trends start from the existing data.
+INSERT INTO `keyword_rank_history` (`id`, `createdAt`, `updatedAt`, `clientId`, `keywordId`, `keywordKey`, `keyword`, `recordedOn`, `position`, `rankingUrl`, `serpFeatures`, `locationName`)
+SELECT
+    REPLACE(UUID(), '-', ''),
+    CURRENT_TIMESTAMP(3),
+    CURRENT_TIMESTAMP(3),
+    `k`.`clientId`,
+    `k`.`id`,
+    LEFT(REPLACE(LOWER(TRIM(`k`.`keyword`)), '_', ' '), 255),
+    LEFT(`k`.`keyword`, 255),
+    DATE(`k`.`updatedAt`),
+    `k`.`currentPosition`,
+    `k`.`googleUrl`,
+    `k`.`serpFeatures`,
+    `k`.`locationName`
+FROM `keywords` `k`
+ON DUPLICATE KEY UPDATE `keyword_rank_history`.`updatedAt` = CURRENT_TIMESTAMP(3);
+
+-- Campaign win keyword detection now reads keyword_rank_history instead of per-level streak counters.
+DROP TABLE `campaign_win_keyword_states`;
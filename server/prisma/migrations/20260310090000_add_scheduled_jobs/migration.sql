@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE `scheduled_jobs` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `name` VARCHAR(100) NOT NULL,
+    `intervalMs` INTEGER NOT NULL,
+    `nextRunAt` DATETIME(3) NOT NULL,
+    `runRequestedAt` DATETIME(3) NULL,
+    `lockedBy` VARCHAR(191) NULL,
+    `lockedUntil` DATETIME(3) NULL,
+    `attempt` INTEGER NOT NULL DEFAULT 0,
+    `lastRunAt` DATETIME(3) NULL,
+    `lastFinishedAt` DATETIME(3) NULL,
+    `lastDurationMs` INTEGER NULL,
+    `lastStatus` ENUM('running', 'success', 'failed', 'abandoned') NULL,
+    `lastError` TEXT NULL,
+    `consecutiveFailures` INTEGER NOT NULL DEFAULT 0,
+
+    UNIQUE INDEX `scheduled_jobs_name_key`(`name`),
+    INDEX `scheduled_jobs_nextRunAt_idx`(`nextRunAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `job_runs` (
+    `id` VARCHAR(191) NOT NULL,
+    `jobName` VARCHAR(100) NOT NULL,
+    `trigger` ENUM('schedule', 'retry', 'manual') NOT NULL,
+    `attempt` INTEGER NOT NULL DEFAULT 1,
+    `workerId` VARCHAR(191) NOT NULL,
+    `status` ENUM('running', 'success', 'failed', 'abandoned') NOT NULL DEFAULT 'running',
+    `startedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `finishedAt` DATETIME(3) NULL,
+    `durationMs` INTEGER NULL,
+    `error` TEXT NULL,
+
+    INDEX `job_runs_jobName_startedAt_idx`(`jobName`, `startedAt`),
+    INDEX `job_runs_status_idx`(`status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `job_runs` ADD CONSTRAINT `job_runs_jobName_fkey` FOREIGN KEY (`jobName`) REFERENCES `scheduled_jobs`(`name`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE `report_schedules` ADD COLUMN `timeZone` VARCHAR(64) NULL;
+
+-- AlterTable
+ALTER TABLE `recurring_task_rules` ADD COLUMN `timeZone` VARCHAR(64) NULL;
+
+-- Existing rows stay NULL, which the scheduler reads as the server's zone, so nothing shifts.
+-- Run `npm run schedules:backfill-timezones` on the API host to store that zone explicitly.
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE `api_keys` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `agencyId` VARCHAR(191) NOT NULL,
+    `createdByUserId` VARCHAR(191) NULL,
+    `name` VARCHAR(100) NOT NULL,
+    `prefix` VARCHAR(16) NOT NULL,
+    `keyHash` VARCHAR(64) NOT NULL,
+    `scopes` TEXT NOT NULL,
+    `rateLimitPerMinute` INTEGER NOT NULL DEFAULT 60,
+    `lastUsedAt` DATETIME(3) NULL,
+    `lastUsedIp` VARCHAR(64) NULL,
+    `expiresAt` DATETIME(3) NULL,
+    `revokedAt` DATETIME(3) NULL,
+
+    UNIQUE INDEX `api_keys_keyHash_key`(`keyHash`),
+    INDEX `api_keys_agencyId_idx`(`agencyId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `api_keys` ADD CONSTRAINT `api_keys_agencyId_fkey` FOREIGN KEY (`agencyId`) REFERENCES `agencies`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `api_keys` ADD CONSTRAINT `api_keys_createdByUserId_fkey` FOREIGN KEY (`createdByUserId`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE `webhook_endpoints` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `agencyId` VARCHAR(191) NOT NULL,
+    `createdByUserId` VARCHAR(191) NULL,
+    `url` VARCHAR(2048) NOT NULL,
+    `description` VARCHAR(255) NULL,
+    `events` TEXT NOT NULL,
+    `secret` VARCHAR(128) NOT NULL,
+    `enabled` BOOLEAN NOT NULL DEFAULT true,
+    `lastDeliveryAt` DATETIME(3) NULL,
+    `consecutiveFailures` INTEGER NOT NULL DEFAULT 0,
+
+    INDEX `webhook_endpoints_agencyId_enabled_idx`(`agencyId`, `enabled`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `webhook_deliveries` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `endpointId` VARCHAR(191) NOT NULL,
+    `eventId` VARCHAR(64) NOT NULL,
+    `eventType` VARCHAR(64) NOT NULL,
+    `payload` LONGTEXT NOT NULL,
+    `status` ENUM('pending', 'success', 'failed') NOT NULL DEFAULT 'pending',
+    `attempt` INTEGER NOT NULL DEFAULT 0,
+    `nextAttemptAt` DATETIME(3) NULL,
+    `responseStatus` INTEGER NULL,
+    `responseBody` TEXT NULL,
+    `error` TEXT NULL,
+    `durationMs` INTEGER NULL,
+    `deliveredAt` DATETIME(3) NULL,
+
+    INDEX `webhook_deliveries_status_nextAttemptAt_idx`(`status`, `nextAttemptAt`),
+    INDEX `webhook_deliveries_endpointId_createdAt_idx`(`endpointId`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `webhook_endpoints` ADD CONSTRAINT `webhook_endpoints_agencyId_fkey` FOREIGN KEY (`agencyId`) REFERENCES `agencies`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `webhook_endpoints` ADD CONSTRAINT `webhook_endpoints_createdByUserId_fkey` FOREIGN KEY (`createdByUserId`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `webhook_deliveries` ADD CONSTRAINT `webhook_deliveries_endpointId_fkey` FOREIGN KEY (`endpointId`) REFERENCES `webhook_endpoints`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
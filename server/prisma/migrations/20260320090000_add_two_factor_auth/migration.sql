@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE `users` ADD COLUMN `twoFactorEnabled` BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN `twoFactorSecret` VARCHAR(64) NULL,
+    ADD COLUMN `twoFactorPendingSecret` VARCHAR(64) NULL,
+    ADD COLUMN `twoFactorEnabledAt` DATETIME(3) NULL,
+    ADD COLUMN `twoFactorRecoveryCodes` TEXT NULL,
+    ADD COLUMN `twoFactorLastUsedStep` INTEGER NULL;
+
+-- AlterTable
+ALTER TABLE `agencies` ADD COLUMN `requireTwoFactor` BOOLEAN NOT NULL DEFAULT false;
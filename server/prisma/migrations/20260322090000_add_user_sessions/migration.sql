@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE `user_sessions` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `userId` VARCHAR(191) NOT NULL,
+    `refreshTokenHash` VARCHAR(64) NOT NULL,
+    `previousRefreshTokenHash` VARCHAR(64) NULL,
+    `rotatedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `lastUsedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `expiresAt` DATETIME(3) NOT NULL,
+    `userAgent` VARCHAR(500) NULL,
+    `ipAddress` VARCHAR(64) NULL,
+    `impersonatedByUserId` VARCHAR(191) NULL,
+    `revokedAt` DATETIME(3) NULL,
+    `revokedReason` VARCHAR(64) NULL,
+
+    UNIQUE INDEX `user_sessions_refreshTokenHash_key`(`refreshTokenHash`),
+    INDEX `user_sessions_userId_revokedAt_idx`(`userId`, `revokedAt`),
+    INDEX `user_sessions_previousRefreshTokenHash_idx`(`previousRefreshTokenHash`),
+    INDEX `user_sessions_expiresAt_idx`(`expiresAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `user_sessions` ADD CONSTRAINT `user_sessions_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `user_sessions` ADD CONSTRAINT `user_sessions_impersonatedByUserId_fkey` FOREIGN KEY (`impersonatedByUserId`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE `audit_events` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `action` VARCHAR(64) NOT NULL,
+    `actorUserId` VARCHAR(191) NULL,
+    `actorEmail` VARCHAR(255) NULL,
+    `actorRole` VARCHAR(32) NULL,
+    `agencyId` VARCHAR(191) NULL,
+    `clientId` VARCHAR(191) NULL,
+    `entityType` VARCHAR(64) NOT NULL,
+    `entityId` VARCHAR(191) NULL,
+    `entityLabel` VARCHAR(255) NULL,
+    `changes` TEXT NULL,
+    `metadata` TEXT NULL,
+    `ipAddress` VARCHAR(64) NULL,
+    `userAgent` VARCHAR(500) NULL,
+
+    INDEX `audit_events_agencyId_createdAt_idx`(`agencyId`, `createdAt`),
+    INDEX `audit_events_createdAt_idx`(`createdAt`),
+    INDEX `audit_events_action_createdAt_idx`(`action`, `createdAt`),
+    INDEX `audit_events_actorUserId_idx`(`actorUserId`),
+    INDEX `audit_events_entityType_entityId_idx`(`entityType`, `entityId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
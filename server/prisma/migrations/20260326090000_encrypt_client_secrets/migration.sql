@@ -0,0 +1,3 @@
+-- Encrypted website credentials (enc:v1:...) no longer fit in VARCHAR(191)
+ALTER TABLE `clients` MODIFY COLUMN `username` TEXT NULL;
+ALTER TABLE `clients` MODIFY COLUMN `password` TEXT NULL;
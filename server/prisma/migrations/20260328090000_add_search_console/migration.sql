@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE `clients` ADD COLUMN `gscAccessToken` TEXT NULL,
+    ADD COLUMN `gscRefreshToken` TEXT NULL,
+    ADD COLUMN `gscSiteUrl` VARCHAR(500) NULL,
+    ADD COLUMN `gscAccountEmail` VARCHAR(191) NULL,
+    ADD COLUMN `gscConnectedAt` DATETIME(3) NULL,
+    ADD COLUMN `gscLastSyncedAt` DATETIME(3) NULL;
+
+-- CreateTable
+CREATE TABLE `search_console_daily_rows` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `clientId` VARCHAR(191) NOT NULL,
+    `date` DATE NOT NULL,
+    `dimension` ENUM('TOTAL', 'QUERY', 'PAGE') NOT NULL,
+    `key` TEXT NOT NULL,
+    `keyHash` CHAR(40) NOT NULL,
+    `clicks` INTEGER NOT NULL DEFAULT 0,
+    `impressions` INTEGER NOT NULL DEFAULT 0,
+    `ctr` DOUBLE NOT NULL DEFAULT 0,
+    `position` DOUBLE NOT NULL DEFAULT 0,
+
+    INDEX `search_console_daily_rows_clientId_date_idx`(`clientId`, `date`),
+    UNIQUE INDEX `search_console_daily_rows_clientId_dimension_date_keyHash_key`(`clientId`, `dimension`, `date`, `keyHash`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `search_console_daily_rows` ADD CONSTRAINT `search_console_daily_rows_clientId_fkey` FOREIGN KEY (`clientId`) REFERENCES `clients`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE `grid_keywords` ADD COLUMN `gridShape` ENUM('square', 'circle', 'polygon', 'zip') NOT NULL DEFAULT 'square',
+    ADD COLUMN `gridShapeData` JSON NULL;
+
+-- AlterTable
+ALTER TABLE `on_demand_snapshot_logs` ADD COLUMN `creditsUsed` INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE `task_time_entries` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `taskId` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `startedAt` DATETIME(3) NOT NULL,
+    `endedAt` DATETIME(3) NULL,
+    `durationMinutes` INTEGER NULL,
+    `notes` TEXT NULL,
+    `billable` BOOLEAN NOT NULL DEFAULT true,
+    `source` ENUM('TIMER', 'MANUAL') NOT NULL DEFAULT 'TIMER',
+
+    INDEX `task_time_entries_taskId_startedAt_idx`(`taskId`, `startedAt`),
+    INDEX `task_time_entries_userId_endedAt_idx`(`userId`, `endedAt`),
+    INDEX `task_time_entries_startedAt_idx`(`startedAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `task_time_entries` ADD CONSTRAINT `task_time_entries_taskId_fkey` FOREIGN KEY (`taskId`) REFERENCES `tasks`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `task_time_entries` ADD CONSTRAINT `task_time_entries_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
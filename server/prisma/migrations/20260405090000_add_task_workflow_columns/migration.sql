@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE `tasks` ADD COLUMN `workflowColumnId` VARCHAR(191) NULL;
+
+-- CreateTable
+CREATE TABLE `task_workflow_columns` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `agencyId` VARCHAR(191) NOT NULL,
+    `key` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `coreStatus` ENUM('TODO', 'IN_PROGRESS', 'REVIEW', 'DONE', 'NEEDS_APPROVAL', 'CANCELLED') NOT NULL,
+    `order` INTEGER NOT NULL DEFAULT 0,
+    `color` VARCHAR(191) NULL,
+    `wipLimit` INTEGER NULL,
+    `requiredFields` TEXT NULL,
+    `allowedNextKeys` TEXT NULL,
+
+    INDEX `task_workflow_columns_agencyId_order_idx`(`agencyId`, `order`),
+    UNIQUE INDEX `task_workflow_columns_agencyId_key_key`(`agencyId`, `key`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `tasks_workflowColumnId_idx` ON `tasks`(`workflowColumnId`);
+
+-- AddForeignKey
+ALTER TABLE `tasks` ADD CONSTRAINT `tasks_workflowColumnId_fkey` FOREIGN KEY (`workflowColumnId`) REFERENCES `task_workflow_columns`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `task_workflow_columns` ADD CONSTRAINT `task_workflow_columns_agencyId_fkey` FOREIGN KEY (`agencyId`) REFERENCES `agencies`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
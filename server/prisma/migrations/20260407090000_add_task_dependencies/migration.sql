@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE `onboarding_tasks` ADD COLUMN `blocked_by_orders` TEXT NULL;
+
+-- CreateTable
+CREATE TABLE `task_dependencies` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `taskId` VARCHAR(191) NOT NULL,
+    `blockedById` VARCHAR(191) NOT NULL,
+
+    INDEX `task_dependencies_blockedById_idx`(`blockedById`),
+    UNIQUE INDEX `task_dependencies_taskId_blockedById_key`(`taskId`, `blockedById`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `task_dependencies` ADD CONSTRAINT `task_dependencies_taskId_fkey` FOREIGN KEY (`taskId`) REFERENCES `tasks`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `task_dependencies` ADD CONSTRAINT `task_dependencies_blockedById_fkey` FOREIGN KEY (`blockedById`) REFERENCES `tasks`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
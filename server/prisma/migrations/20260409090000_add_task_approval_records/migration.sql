@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE `task_approval_records` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `batchId` VARCHAR(64) NOT NULL,
+    `decision` ENUM('APPROVED', 'REVISIONS_REQUESTED') NOT NULL,
+    `comment` TEXT NULL,
+    `taskId` VARCHAR(191) NOT NULL,
+    `taskTitle` VARCHAR(255) NOT NULL,
+    `clientId` VARCHAR(191) NULL,
+    `agencyId` VARCHAR(191) NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `userName` VARCHAR(255) NULL,
+    `userEmail` VARCHAR(255) NOT NULL,
+    `ipAddress` VARCHAR(64) NULL,
+    `userAgent` VARCHAR(500) NULL,
+    `proofSnapshot` LONGTEXT NULL,
+    `proofHash` VARCHAR(64) NOT NULL,
+    `previousHash` VARCHAR(64) NOT NULL,
+    `recordHash` VARCHAR(64) NOT NULL,
+
+    UNIQUE INDEX `task_approval_records_previousHash_key`(`previousHash`),
+    UNIQUE INDEX `task_approval_records_recordHash_key`(`recordHash`),
+    INDEX `task_approval_records_clientId_createdAt_idx`(`clientId`, `createdAt`),
+    INDEX `task_approval_records_taskId_idx`(`taskId`),
+    INDEX `task_approval_records_batchId_idx`(`batchId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE `client_competitors` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `clientId` VARCHAR(191) NOT NULL,
+    `domain` VARCHAR(255) NOT NULL,
+    `label` VARCHAR(255) NULL,
+    `lastSnapshotAt` DATETIME(3) NULL,
+
+    INDEX `client_competitors_lastSnapshotAt_idx`(`lastSnapshotAt`),
+    UNIQUE INDEX `client_competitors_clientId_domain_key`(`clientId`, `domain`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `competitor_snapshots` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `clientId` VARCHAR(191) NOT NULL,
+    `competitorId` VARCHAR(191) NULL,
+    `domain` VARCHAR(255) NOT NULL,
+    `rankedKeywords` INTEGER NOT NULL DEFAULT 0,
+    `estimatedTraffic` INTEGER NULL,
+    `backlinks` INTEGER NULL,
+    `referringDomains` INTEGER NULL,
+    `domainRating` INTEGER NULL,
+    `keywords` JSON NULL,
+    `error` TEXT NULL,
+
+    INDEX `competitor_snapshots_clientId_createdAt_idx`(`clientId`, `createdAt`),
+    INDEX `competitor_snapshots_competitorId_createdAt_idx`(`competitorId`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `client_competitors` ADD CONSTRAINT `client_competitors_clientId_fkey` FOREIGN KEY (`clientId`) REFERENCES `clients`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `competitor_snapshots` ADD CONSTRAINT `competitor_snapshots_clientId_fkey` FOREIGN KEY (`clientId`) REFERENCES `clients`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `competitor_snapshots` ADD CONSTRAINT `competitor_snapshots_competitorId_fkey` FOREIGN KEY (`competitorId`) REFERENCES `client_competitors`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
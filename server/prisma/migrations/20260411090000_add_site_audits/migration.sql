@@ -0,0 +1,81 @@
+-- CreateTable
+CREATE TABLE `site_audits` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `clientId` VARCHAR(191) NOT NULL,
+    `requestedById` VARCHAR(191) NULL,
+    `status` ENUM('QUEUED', 'RUNNING', 'COMPLETED', 'FAILED') NOT NULL DEFAULT 'QUEUED',
+    `startUrl` VARCHAR(2048) NOT NULL,
+    `pageLimit` INTEGER NOT NULL,
+    `startedAt` DATETIME(3) NULL,
+    `completedAt` DATETIME(3) NULL,
+    `pagesCrawled` INTEGER NOT NULL DEFAULT 0,
+    `truncated` BOOLEAN NOT NULL DEFAULT false,
+    `blockedByRobots` INTEGER NOT NULL DEFAULT 0,
+    `healthScore` INTEGER NULL,
+    `issueCounts` JSON NULL,
+    `previousAuditId` VARCHAR(191) NULL,
+    `error` TEXT NULL,
+
+    INDEX `site_audits_clientId_createdAt_idx`(`clientId`, `createdAt`),
+    INDEX `site_audits_status_createdAt_idx`(`status`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `site_audit_pages` (
+    `id` VARCHAR(191) NOT NULL,
+    `auditId` VARCHAR(191) NOT NULL,
+    `url` VARCHAR(2048) NOT NULL,
+    `finalUrl` VARCHAR(2048) NOT NULL,
+    `statusCode` INTEGER NULL,
+    `redirectChain` JSON NULL,
+    `contentType` VARCHAR(255) NULL,
+    `title` TEXT NULL,
+    `metaDescription` TEXT NULL,
+    `canonical` VARCHAR(2048) NULL,
+    `h1` TEXT NULL,
+    `h1Count` INTEGER NOT NULL DEFAULT 0,
+    `imagesMissingAlt` INTEGER NOT NULL DEFAULT 0,
+    `linkCount` INTEGER NOT NULL DEFAULT 0,
+    `depth` INTEGER NOT NULL DEFAULT 0,
+    `loadTimeMs` INTEGER NOT NULL DEFAULT 0,
+    `error` TEXT NULL,
+
+    INDEX `site_audit_pages_auditId_idx`(`auditId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `site_audit_issues` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `auditId` VARCHAR(191) NOT NULL,
+    `clientId` VARCHAR(191) NOT NULL,
+    `code` VARCHAR(64) NOT NULL,
+    `severity` VARCHAR(16) NOT NULL,
+    `url` VARCHAR(2048) NOT NULL,
+    `target` VARCHAR(2048) NULL,
+    `detail` TEXT NULL,
+    `fingerprint` CHAR(64) NOT NULL,
+    `isNew` BOOLEAN NOT NULL DEFAULT false,
+    `taskId` VARCHAR(191) NULL,
+
+    INDEX `site_audit_issues_auditId_code_idx`(`auditId`, `code`),
+    INDEX `site_audit_issues_clientId_fingerprint_idx`(`clientId`, `fingerprint`),
+    INDEX `site_audit_issues_taskId_idx`(`taskId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `site_audits` ADD CONSTRAINT `site_audits_clientId_fkey` FOREIGN KEY (`clientId`) REFERENCES `clients`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `site_audit_pages` ADD CONSTRAINT `site_audit_pages_auditId_fkey` FOREIGN KEY (`auditId`) REFERENCES `site_audits`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `site_audit_issues` ADD CONSTRAINT `site_audit_issues_auditId_fkey` FOREIGN KEY (`auditId`) REFERENCES `site_audits`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `site_audit_issues` ADD CONSTRAINT `site_audit_issues_taskId_fkey` FOREIGN KEY (`taskId`) REFERENCES `tasks`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
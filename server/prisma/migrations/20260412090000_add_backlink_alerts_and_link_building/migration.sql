@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE `backlink_alert_rules` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `clientId` VARCHAR(191) NOT NULL,
+    `event` ENUM('LOST', 'NEW') NOT NULL,
+    `minDomainRating` INTEGER NOT NULL DEFAULT 0,
+    `followOnly` BOOLEAN NOT NULL DEFAULT false,
+    `notifyInApp` BOOLEAN NOT NULL DEFAULT true,
+    `createCampaignWin` BOOLEAN NOT NULL DEFAULT false,
+    `enabled` BOOLEAN NOT NULL DEFAULT true,
+    `createdById` VARCHAR(191) NULL,
+
+    INDEX `backlink_alert_rules_clientId_enabled_idx`(`clientId`, `enabled`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `link_prospects` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `clientId` VARCHAR(191) NOT NULL,
+    `domain` VARCHAR(255) NOT NULL,
+    `linkUrl` TEXT NULL,
+    `targetUrl` TEXT NULL,
+    `anchorText` VARCHAR(255) NULL,
+    `contactName` VARCHAR(255) NULL,
+    `contactEmail` VARCHAR(255) NULL,
+    `notes` TEXT NULL,
+    `cost` DECIMAL(10, 2) NULL,
+    `stage` ENUM('PROSPECT', 'CONTACTED', 'NEGOTIATING', 'LIVE') NOT NULL DEFAULT 'PROSPECT',
+    `stageChangedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `wentLiveAt` DATETIME(3) NULL,
+    `verificationStatus` ENUM('PENDING', 'VERIFIED', 'LOST', 'NOT_FOUND') NOT NULL DEFAULT 'PENDING',
+    `verifiedAt` DATETIME(3) NULL,
+    `lastCheckedAt` DATETIME(3) NULL,
+    `verifiedDomainRating` DOUBLE NULL,
+    `verifiedIsFollow` BOOLEAN NULL,
+    `createdById` VARCHAR(191) NULL,
+
+    INDEX `link_prospects_clientId_stage_idx`(`clientId`, `stage`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `backlink_alert_rules` ADD CONSTRAINT `backlink_alert_rules_clientId_fkey` FOREIGN KEY (`clientId`) REFERENCES `clients`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `link_prospects` ADD CONSTRAINT `link_prospects_clientId_fkey` FOREIGN KEY (`clientId`) REFERENCES `clients`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
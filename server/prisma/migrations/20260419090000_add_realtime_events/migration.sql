@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE `realtime_events` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `originId` VARCHAR(100) NOT NULL,
+    `audience` JSON NOT NULL,
+    `event` JSON NOT NULL,
+
+    INDEX `realtime_events_createdAt_idx`(`createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
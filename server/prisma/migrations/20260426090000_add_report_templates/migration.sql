@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE `report_templates` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `agencyId` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(120) NOT NULL,
+    `description` VARCHAR(500) NULL,
+    `blocks` JSON NOT NULL,
+
+    INDEX `report_templates_agencyId_idx`(`agencyId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable
+ALTER TABLE `report_schedules` ADD COLUMN `templateId` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE INDEX `report_schedules_templateId_idx` ON `report_schedules`(`templateId`);
+
+-- AddForeignKey
+ALTER TABLE `report_templates` ADD CONSTRAINT `report_templates_agencyId_fkey` FOREIGN KEY (`agencyId`) REFERENCES `agencies`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `report_schedules` ADD CONSTRAINT `report_schedules_templateId_fkey` FOREIGN KEY (`templateId`) REFERENCES `report_templates`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE `notification_digest_items` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `userId` VARCHAR(191) NOT NULL,
+    `event` VARCHAR(40) NOT NULL,
+    `title` VARCHAR(255) NOT NULL,
+    `message` TEXT NOT NULL,
+    `link` VARCHAR(500) NULL,
+    `sentAt` DATETIME(3) NULL,
+
+    INDEX `notification_digest_items_userId_sentAt_idx`(`userId`, `sentAt`),
+    INDEX `notification_digest_items_sentAt_idx`(`sentAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `notification_digest_items` ADD CONSTRAINT `notification_digest_items_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE `user_agencies` ADD COLUMN `customRoleId` VARCHAR(191) NULL,
+    ADD COLUMN `restrictClientAccess` BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE `agency_custom_roles` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `agencyId` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(80) NOT NULL,
+    `description` VARCHAR(500) NULL,
+    `permissions` JSON NOT NULL,
+
+    UNIQUE INDEX `agency_custom_roles_agencyId_name_key`(`agencyId`, `name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `user_agency_client_access` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `userAgencyId` VARCHAR(191) NOT NULL,
+    `clientId` VARCHAR(191) NOT NULL,
+
+    INDEX `user_agency_client_access_clientId_idx`(`clientId`),
+    UNIQUE INDEX `user_agency_client_access_userAgencyId_clientId_key`(`userAgencyId`, `clientId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `user_agencies_customRoleId_idx` ON `user_agencies`(`customRoleId`);
+
+-- AddForeignKey
+ALTER TABLE `user_agencies` ADD CONSTRAINT `user_agencies_customRoleId_fkey` FOREIGN KEY (`customRoleId`) REFERENCES `agency_custom_roles`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `agency_custom_roles` ADD CONSTRAINT `agency_custom_roles_agencyId_fkey` FOREIGN KEY (`agencyId`) REFERENCES `agencies`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `user_agency_client_access` ADD CONSTRAINT `user_agency_client_access_userAgencyId_fkey` FOREIGN KEY (`userAgencyId`) REFERENCES `user_agencies`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `user_agency_client_access` ADD CONSTRAINT `user_agency_client_access_clientId_fkey` FOREIGN KEY (`clientId`) REFERENCES `clients`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
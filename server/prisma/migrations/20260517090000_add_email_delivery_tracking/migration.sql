@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE `report_schedules` ADD COLUMN `trackEngagement` BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE `email_logs` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `recipient` VARCHAR(255) NOT NULL,
+    `subject` VARCHAR(500) NOT NULL,
+    `templateType` VARCHAR(40) NOT NULL,
+    `clientId` VARCHAR(191) NULL,
+    `reportId` VARCHAR(191) NULL,
+    `batchId` VARCHAR(36) NULL,
+    `status` ENUM('sent', 'failed', 'delivered', 'bounced', 'complained') NOT NULL DEFAULT 'sent',
+    `providerMessageId` VARCHAR(255) NULL,
+    `error` VARCHAR(500) NULL,
+    `bounceType` VARCHAR(20) NULL,
+    `trackingToken` VARCHAR(64) NULL,
+    `openCount` INTEGER NOT NULL DEFAULT 0,
+    `firstOpenedAt` DATETIME(3) NULL,
+    `clickCount` INTEGER NOT NULL DEFAULT 0,
+    `lastClickedAt` DATETIME(3) NULL,
+
+    UNIQUE INDEX `email_logs_trackingToken_key`(`trackingToken`),
+    INDEX `email_logs_clientId_createdAt_idx`(`clientId`, `createdAt`),
+    INDEX `email_logs_reportId_idx`(`reportId`),
+    INDEX `email_logs_batchId_idx`(`batchId`),
+    INDEX `email_logs_providerMessageId_idx`(`providerMessageId`),
+    INDEX `email_logs_recipient_createdAt_idx`(`recipient`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `email_suppressions` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `email` VARCHAR(255) NOT NULL,
+    `reason` VARCHAR(20) NOT NULL,
+    `detail` VARCHAR(500) NULL,
+
+    UNIQUE INDEX `email_suppressions_email_key`(`email`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `email_logs` ADD CONSTRAINT `email_logs_clientId_fkey` FOREIGN KEY (`clientId`) REFERENCES `clients`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `email_logs` ADD CONSTRAINT `email_logs_reportId_fkey` FOREIGN KEY (`reportId`) REFERENCES `seo_reports`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE `users` ADD COLUMN `twoFactorFailedAttempts` INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN `twoFactorLockedUntil` DATETIME(3) NULL;
@@ -0,0 +1,3 @@
+-- Encrypted TOTP seeds (enc:v1:...) no longer fit in VARCHAR(64)
+ALTER TABLE `users` MODIFY COLUMN `twoFactorSecret` TEXT NULL;
+ALTER TABLE `users` MODIFY COLUMN `twoFactorPendingSecret` TEXT NULL;
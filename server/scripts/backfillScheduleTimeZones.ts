@@ -0,0 +1,48 @@
+/**
+ * One-time script: store the server's timezone on report schedules and recurring task rules
+ * that were created before schedules carried a timezone.
+ *
+ * Why: those rows have timeZone = NULL and are already evaluated in the server's zone; writing it
+ * explicitly keeps them at the same wall-clock time even if the API later moves to a host in another zone.
+ * The API does this with its own zone at startup; use this script to preview the rows or pick another zone.
+ *
+ * Usage:
+ *   npm run schedules:backfill-timezones                 (dry run)
+ *   npm run schedules:backfill-timezones -- --apply      (apply changes)
+ *   npm run schedules:backfill-timezones -- --zone=America/New_York --apply
+ */
+
+import "dotenv/config";
+import { prisma } from "../src/lib/prisma.js";
+import { backfillScheduleTimeZones, getServerTimeZone, isValidTimeZone } from "../src/lib/timezone.js";
+
+const args = process.argv.slice(2);
+const applyChanges = args.includes("--apply");
+const zoneArg = args.find((arg) => arg.startsWith("--zone="));
+const zone = zoneArg ? zoneArg.split("=")[1]?.trim() : getServerTimeZone();
+
+async function main() {
+  if (!isValidTimeZone(zone)) {
+    throw new Error(`"${zone}" is not a valid IANA timezone.`);
+  }
+
+  const { reportSchedules, recurringRules } = applyChanges
+    ? await backfillScheduleTimeZones(zone)
+    : {
+        reportSchedules: await prisma.reportSchedule.count({ where: { timeZone: null } }),
+        recurringRules: await prisma.recurringTaskRule.count({ where: { timeZone: null } }),
+      };
+
+  console.log(
+    `${applyChanges ? "Done" : "Preview done"}: ${reportSchedules} report schedule(s) and ${recurringRules} recurring task rule(s) ${applyChanges ? "set" : "would be set"} to ${zone}.`
+  );
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,110 @@
+/**
+ * Bring stored client secrets (GA4 / Google Ads / Search Console tokens, website username/password, credential keys in
+ * accountInfo) and users' two-factor seeds up to the current DATA_ENCRYPTION_KEY.
+ *
+ * - Plaintext values written before encryption was enabled are encrypted.
+ * - Values encrypted under a retired key only get their data key re-wrapped with the current key.
+ *
+ * To rotate: set the new key as DATA_ENCRYPTION_KEY with a new DATA_ENCRYPTION_KEY_ID, move the old one to
+ * DATA_ENCRYPTION_PREVIOUS_KEYS ("oldId:oldKey"), deploy, run this script with --apply, then drop the old key.
+ *
+ * Usage:
+ *   npm run secrets:rotate-key                 (dry run)
+ *   npm run secrets:rotate-key -- --apply      (apply changes)
+ */
+
+import "dotenv/config";
+import { prisma } from "../src/lib/prisma.js";
+import { CLIENT_SECRET_FIELDS, loadKeyringFromEnv, rotateClientSecretFields } from "../src/lib/secretEncryption.js";
+
+const args = process.argv.slice(2);
+const applyChanges = args.includes("--apply");
+const BATCH_SIZE = 200;
+
+async function main() {
+  const keyring = loadKeyringFromEnv();
+  if (!keyring.canEncrypt) {
+    throw new Error("DATA_ENCRYPTION_KEY is not set.");
+  }
+
+  const select = {
+    id: true,
+    accountInfo: true,
+    ...Object.fromEntries(CLIENT_SECRET_FIELDS.map((field) => [field, true])),
+  } as const;
+
+  let cursor: string | undefined;
+  let scanned = 0;
+  let clientsChanged = 0;
+  let valuesChanged = 0;
+  const failures: string[] = [];
+
+  for (;;) {
+    const rows = await prisma.client.findMany({
+      select,
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+    if (rows.length === 0) break;
+    cursor = rows[rows.length - 1].id;
+    scanned += rows.length;
+
+    for (const row of rows) {
+      try {
+        const changes = rotateClientSecretFields(row as Record<string, string | null>, keyring);
+        const count = Object.keys(changes).length;
+        if (count === 0) continue;
+        clientsChanged += 1;
+        valuesChanged += count;
+        if (applyChanges) {
+          await prisma.client.update({ where: { id: row.id }, data: changes });
+        }
+      } catch (err: any) {
+        failures.push(`${row.id}: ${err?.message || err}`);
+      }
+    }
+  }
+
+  console.log(
+    `${applyChanges ? "Done" : "Preview done"}: scanned ${scanned} client(s); ${valuesChanged} value(s) on ${clientsChanged} client(s) ${applyChanges ? "re-encrypted" : "would be re-encrypted"} with key "${keyring.currentKeyId}".`
+  );
+
+  const users = await prisma.user.findMany({
+    where: { OR: [{ twoFactorSecret: { not: null } }, { twoFactorPendingSecret: { not: null } }] },
+    select: { id: true, twoFactorSecret: true, twoFactorPendingSecret: true },
+  });
+  let usersChanged = 0;
+  for (const user of users) {
+    try {
+      const changes: Record<string, string> = {};
+      for (const field of ["twoFactorSecret", "twoFactorPendingSecret"] as const) {
+        const value = user[field];
+        if (value && keyring.needsRotation(value)) changes[field] = keyring.rotate(value);
+      }
+      if (Object.keys(changes).length === 0) continue;
+      usersChanged += 1;
+      if (applyChanges) {
+        await prisma.user.update({ where: { id: user.id }, data: changes });
+      }
+    } catch (err: any) {
+      failures.push(`user ${user.id}: ${err?.message || err}`);
+    }
+  }
+  console.log(
+    `Two-factor seeds: ${usersChanged} of ${users.length} user(s) ${applyChanges ? "re-encrypted" : "would be re-encrypted"}.`
+  );
+  if (failures.length > 0) {
+    console.error(`${failures.length} row(s) could not be processed:\n${failures.join("\n")}`);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -17,9 +17,27 @@ import aiCommandRoutes from "./routes/aiCommands.js";
 import stripeWebhookRoutes from "./routes/stripeWebhook.js";
 import localMapRoutes from "./routes/localMap.js";
 import webDesignRoutes from "./routes/webDesign.js";
+import jobRoutes from "./routes/jobs.js";
+import apiKeyRoutes from "./routes/apiKeys.js";
+import v1Routes from "./routes/v1.js";
+import webhookEndpointRoutes from "./routes/webhookEndpoints.js";
+import auditLogRoutes from "./routes/auditLog.js";
+import taskWorkflowRoutes from "./routes/taskWorkflows.js";
+import realtimeRoutes from "./routes/realtime.js";
+import reportTemplateRoutes from "./routes/reportTemplates.js";
+import agencyRoleRoutes from "./routes/agencyRoles.js";
+import emailEventRoutes from "./routes/emailEvents.js";
 import { errorHandler } from "./middleware/errorHandler.js";
 import { resolveAgencyDomainContext } from "./middleware/resolveAgencyDomainContext.js";
 import { prisma } from "./lib/prisma.js";
+import { registerJob, startJobScheduler } from "./lib/jobScheduler.js";
+import { backfillScheduleTimeZones, getServerTimeZone } from "./lib/timezone.js";
+import { processDueWebhookDeliveries } from "./lib/webhooks.js";
+import { pruneUserSessions } from "./lib/sessions.js";
+import { installRealtimePrismaHooks, pruneRealtimeEvents } from "./lib/realtime.js";
+import { sendNotificationDigests } from "./lib/notificationPreferences.js";
+import { getSecretKeyring } from "./lib/secretEncryption.js";
+import { syncAllSearchConsoleClients } from "./lib/searchConsole.js";
 
 // Load .env file from server directory
 const __filename = fileURLToPath(import.meta.url);
@@ -44,6 +62,16 @@ if (missingVars.length > 0) {
   process.exit(1);
 }
 
+// Fail fast on a malformed encryption key instead of on the first token refresh
+try {
+  if (!getSecretKeyring().canEncrypt) {
+    console.warn("[Server] DATA_ENCRYPTION_KEY is not set; OAuth tokens and client credentials are stored unencrypted.");
+  }
+} catch (err: any) {
+  console.error(`[Server] CRITICAL: Invalid data encryption key configuration: ${err?.message || err}`);
+  process.exit(1);
+}
+
 // Log email configuration status (without sensitive data)
 console.log("[Email Config] SMTP_HOST:", process.env.SMTP_HOST ? `${process.env.SMTP_HOST.substring(0, 20)}...` : "NOT SET");
 console.log("[Email Config] SMTP_PORT:", process.env.SMTP_PORT || "NOT SET");
@@ -136,6 +164,16 @@ app.use("/api/financial", financialRoutes);
 app.use("/api/ai-commands", aiCommandRoutes);
 app.use("/api/local-map", localMapRoutes);
 app.use("/api/web-design", webDesignRoutes);
+app.use("/api/jobs", jobRoutes);
+app.use("/api/api-keys", apiKeyRoutes);
+app.use("/api/v1", v1Routes);
+app.use("/api/webhook-endpoints", webhookEndpointRoutes);
+app.use("/api/audit-log", auditLogRoutes);
+app.use("/api/task-workflow", taskWorkflowRoutes);
+app.use("/api/realtime", realtimeRoutes);
+app.use("/api/report-templates", reportTemplateRoutes);
+app.use("/api/agency-roles", agencyRoleRoutes);
+app.use("/api/email-events", emailEventRoutes);
 app.use("/uploads", express.static("uploads")); // Serve uploaded files
 
 // Health check
@@ -146,6 +184,8 @@ app.get("/health", (req, res) => {
 // Error handling
 app.use(errorHandler);
 
+installRealtimePrismaHooks();
+
 const server = app.listen(PORT);
 
 // Handle unhandled promise rejections
@@ -167,44 +207,68 @@ process.on('uncaughtException', (error: Error) => {
 server.on("listening", async () => {
   console.log(`Server running on port ${PORT}`);
 
-  // Start report scheduler cron job (runs every hour)
   const { processScheduledReports, refreshAllGA4Data, processCampaignWinsReports } = await import("./lib/reportScheduler.js");
-  const { autoSyncBacklinksForStaleClients, autoRefreshSeoDataForDueClients } = await import("./routes/seo.js");
+  const { autoSyncBacklinksForStaleClients, autoRefreshSeoDataForDueClients, captureDueCompetitorSnapshots } = await import("./routes/seo.js");
   const { archiveCanceledClientsPastEndDate, archiveScheduledClients } = await import("./lib/clientStatusWorkflow.js");
   const { processRecurringTaskRules } = await import("./routes/tasks.js");
+  const { processQueuedSiteAudits } = await import("./lib/siteAudit.js");
   const { processScheduledLocalMapRankings } = await import("./routes/localMap.js");
+  const { captureDataForSeoDailySpend } = await import("./routes/financial.js");
 
-  // Run immediately on startup (for testing)
-  processScheduledReports().catch(console.error);
-
-  // Then run every hour
-  setInterval(() => {
-    processScheduledReports().catch(console.error);
-  }, 60 * 60 * 1000); // 1 hour in milliseconds
-
-  // GA4 auto-refresh: Check every hour, but only runs on Monday mornings
-  setInterval(() => {
-    refreshAllGA4Data().catch(console.error);
-  }, 60 * 60 * 1000); // Check every hour
-
-  console.log("Report scheduler started (runs every hour)");
-  console.log("GA4 auto-refresh scheduler started (runs Monday mornings)");
-
-  // Campaign Wins: run once on startup, then daily.
-  processCampaignWinsReports().catch(console.error);
-  setInterval(() => {
-    processCampaignWinsReports().catch(console.error);
-  }, 24 * 60 * 60 * 1000);
-  console.log("Campaign wins scheduler started (runs daily)");
-
-  // Client status: archive CANCELED clients when canceledEndDate has passed, and scheduled archives (run daily)
-  archiveCanceledClientsPastEndDate().catch(console.error);
-  archiveScheduledClients().catch(console.error);
-  setInterval(() => {
-    archiveCanceledClientsPastEndDate().catch(console.error);
-    archiveScheduledClients().catch(console.error);
-  }, 24 * 60 * 60 * 1000);
-  console.log("Client status workflow started (archives canceled + scheduled clients daily)");
+  const MINUTE = 60 * 1000;
+  const HOUR = 60 * MINUTE;
+  const DAY = 24 * HOUR;
+
+  registerJob({
+    name: "scheduled-reports",
+    label: "Scheduled reports",
+    description: "Generates and emails client reports that are due.",
+    intervalMs: HOUR,
+    maxRetries: 3,
+    run: processScheduledReports,
+  });
+
+  // Checks every hour, but only refreshes on Monday mornings
+  registerJob({
+    name: "ga4-refresh",
+    label: "GA4 auto-refresh",
+    description: "Refreshes GA4 data for connected clients on Monday mornings.",
+    intervalMs: HOUR,
+    maxRetries: 2,
+    run: refreshAllGA4Data,
+  });
+
+  registerJob({
+    name: "search-console-sync",
+    label: "Search Console sync",
+    description: "Stores daily Search Console clicks, impressions, top queries and top pages for connected clients.",
+    intervalMs: DAY,
+    initialDelayMs: 5 * MINUTE,
+    maxRetries: 2,
+    run: syncAllSearchConsoleClients,
+  });
+
+  registerJob({
+    name: "campaign-wins",
+    label: "Campaign wins",
+    description: "Detects keyword and traffic wins and emails campaign win reports.",
+    intervalMs: DAY,
+    maxRetries: 3,
+    run: processCampaignWinsReports,
+  });
+
+  // Archive CANCELED clients when canceledEndDate has passed, and scheduled archives
+  registerJob({
+    name: "client-status-archive",
+    label: "Client archiving",
+    description: "Archives canceled clients past their end date and clients with a scheduled archive.",
+    intervalMs: DAY,
+    maxRetries: 3,
+    run: async () => {
+      await archiveCanceledClientsPastEndDate();
+      await archiveScheduledClients();
+    },
+  });
 
   // DataForSEO Backlinks auto-sync: run periodically, respecting 48h throttle per client.
   const backlinksAutoSyncEnabled =
@@ -219,18 +283,14 @@ server.on("listening", async () => {
   );
 
   if (backlinksAutoSyncEnabled) {
-    // Run once shortly after startup, then on interval
-    setTimeout(() => {
-      autoSyncBacklinksForStaleClients({ batchSize: autoSyncBatchSize }).catch(console.error);
-    }, 30 * 1000);
-
-    setInterval(() => {
-      autoSyncBacklinksForStaleClients({ batchSize: autoSyncBatchSize }).catch(console.error);
-    }, autoSyncIntervalMinutes * 60 * 1000);
-
-    console.log(
-      `Backlinks auto-sync started (every ${autoSyncIntervalMinutes} minutes, batch size ${autoSyncBatchSize}, respects 48h throttle)`
-    );
+    registerJob({
+      name: "backlinks-auto-sync",
+      label: "Backlinks auto-sync",
+      description: `Syncs DataForSEO backlinks for stale clients (batch size ${autoSyncBatchSize}, 48h throttle per client).`,
+      intervalMs: autoSyncIntervalMinutes * MINUTE,
+      initialDelayMs: 30 * 1000,
+      run: () => autoSyncBacklinksForStaleClients({ batchSize: autoSyncBatchSize }),
+    });
   } else {
     console.log("Backlinks auto-sync disabled (ENABLE_DATAFORSEO_BACKLINKS_AUTO_SYNC=false)");
   }
@@ -239,34 +299,112 @@ server.on("listening", async () => {
   const seoAutoRefreshEnabled = String(process.env.ENABLE_SEO_AUTO_REFRESH ?? "true").toLowerCase() === "true";
   const seoAutoRefreshIntervalMinutes = Math.min(60 * 24, Math.max(30, Number(process.env.SEO_AUTO_REFRESH_INTERVAL_MINUTES ?? 60)));
   if (seoAutoRefreshEnabled) {
-    setTimeout(() => {
-      autoRefreshSeoDataForDueClients({ batchSize: 5 }).catch(console.error);
-    }, 60 * 1000);
-    setInterval(() => {
-      autoRefreshSeoDataForDueClients({ batchSize: 5 }).catch(console.error);
-    }, seoAutoRefreshIntervalMinutes * 60 * 1000);
-    console.log(`SEO auto-refresh started (every ${seoAutoRefreshIntervalMinutes} min, Vendasta 48h / others 40h)`);
+    registerJob({
+      name: "seo-auto-refresh",
+      label: "SEO auto-refresh",
+      description: "Refreshes dashboard, backlinks and top pages data for due clients (Vendasta 48h, others 40h).",
+      intervalMs: seoAutoRefreshIntervalMinutes * MINUTE,
+      initialDelayMs: 60 * 1000,
+      run: () => autoRefreshSeoDataForDueClients({ batchSize: 5 }),
+    });
   } else {
     console.log("SEO auto-refresh disabled (ENABLE_SEO_AUTO_REFRESH=false)");
   }
 
-  // Recurring tasks: create task instances from active rules (every minute)
-  processRecurringTaskRules().catch(console.error);
-  setInterval(() => {
-    processRecurringTaskRules().catch(console.error);
-  }, 60 * 1000);
-  console.log("Recurring task scheduler started (runs every minute)");
+  // Hourly check; each client's competitors are snapshotted once a week
+  registerJob({
+    name: "competitor-snapshots",
+    label: "Competitor snapshots",
+    description: "Captures weekly ranked-keyword and backlink snapshots for clients and their tracked competitors.",
+    intervalMs: HOUR,
+    initialDelayMs: 2 * MINUTE,
+    maxRetries: 2,
+    run: () => captureDueCompetitorSnapshots({ batchSize: 3 }),
+  });
+
+  // Audits are queued from the dashboard, which also asks for an immediate run; the interval is a fallback
+  registerJob({
+    name: "site-audits",
+    label: "Site audits",
+    description: "Crawls queued technical site audits and records pages, issues and health scores.",
+    intervalMs: 5 * MINUTE,
+    initialDelayMs: MINUTE,
+    run: () => processQueuedSiteAudits({ maxAudits: 3 }),
+  });
+
+  registerJob({
+    name: "recurring-tasks",
+    label: "Recurring tasks",
+    description: "Creates task instances from active recurring task rules.",
+    intervalMs: MINUTE,
+    run: processRecurringTaskRules,
+  });
+
+  registerJob({
+    name: "dataforseo-spend-capture",
+    label: "DataForSEO spend capture",
+    description: "Persists today's DataForSEO spend.",
+    intervalMs: 6 * HOUR,
+    initialDelayMs: 10 * 1000,
+    maxRetries: 3,
+    run: captureDataForSeoDailySpend,
+  });
+
+  registerJob({
+    name: "webhook-deliveries",
+    label: "Webhook retries",
+    description: "Retries failed webhook deliveries with backoff and prunes the delivery log.",
+    intervalMs: MINUTE,
+    run: processDueWebhookDeliveries,
+  });
+
+  registerJob({
+    name: "user-sessions-cleanup",
+    label: "Sign-in session cleanup",
+    description: "Deletes sign-in sessions that expired or were revoked more than 30 days ago.",
+    intervalMs: DAY,
+    run: pruneUserSessions,
+  });
+
+  registerJob({
+    name: "notification-digests",
+    label: "Notification digests",
+    description: "Emails each user one digest of the day's events they routed to the daily digest.",
+    intervalMs: DAY,
+    initialDelayMs: 10 * MINUTE,
+    maxRetries: 2,
+    run: sendNotificationDigests,
+  });
+
+  registerJob({
+    name: "realtime-events-cleanup",
+    label: "Realtime relay cleanup",
+    description: "Deletes relayed realtime events older than ten minutes.",
+    intervalMs: HOUR,
+    run: pruneRealtimeEvents,
+  });
+
+  // Checks every hour and executes on the 1st/15th
+  registerJob({
+    name: "local-map-rankings",
+    label: "Local Map scheduled runs",
+    description: "Runs recurring Local Map grid snapshots on the 1st and 15th.",
+    intervalMs: HOUR,
+    maxRetries: 2,
+    run: processScheduledLocalMapRankings,
+  });
 
-  // DataForSEO spending capture: persist today's spend every 6 hours
-  const { captureDataForSeoDailySpend } = await import("./routes/financial.js");
-  setTimeout(() => captureDataForSeoDailySpend().catch(console.error), 10 * 1000);
-  setInterval(() => captureDataForSeoDailySpend().catch(console.error), 6 * 60 * 60 * 1000);
-  console.log("DataForSEO spending capture started (runs every 6 hours)");
-
-  // Local Map Rankings recurring runs: check every hour and execute on 1st/15th
-  processScheduledLocalMapRankings().catch(console.error);
-  setInterval(() => processScheduledLocalMapRankings().catch(console.error), 60 * 60 * 1000);
-  console.log("Local Map scheduler started (checks hourly, runs on 1st and 15th)");
+  try {
+    const backfilled = await backfillScheduleTimeZones();
+    if (backfilled.reportSchedules > 0 || backfilled.recurringRules > 0) {
+      console.log(
+        `[Jobs] Stored ${getServerTimeZone()} on ${backfilled.reportSchedules} report schedule(s) and ${backfilled.recurringRules} recurring task rule(s)`
+      );
+    }
+    await startJobScheduler();
+  } catch (err) {
+    console.error("[Jobs] Failed to start job scheduler:", err);
+  }
 });
 
 server.on("error", (err: any) => {
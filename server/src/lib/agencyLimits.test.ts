@@ -24,6 +24,7 @@ function makeCtx(overrides: Partial<AgencyTierContext>): AgencyTierContext {
       maxTeamUsers: 0,
       hasWhiteLabel: true,
       hasClientPortal: true,
+      siteAuditPageLimit: 25,
       priceMonthlyUsd: 0,
     },
     dashboardCount: 0,
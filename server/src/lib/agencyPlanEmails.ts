@@ -2,6 +2,7 @@ import { prisma } from "./prisma.js";
 import { sendEmail } from "./email.js";
 import { BRAND_DISPLAY_NAME } from "./qualityContracts.js";
 import { renderBillingEmailTemplate } from "./billingEmailTemplates.js";
+import { deliverNotification } from "./notificationPreferences.js";
 
 const normalizeEmail = (value: string | null | undefined): string | null => {
   const normalized = String(value || "").trim().toLowerCase();
@@ -29,6 +30,31 @@ async function resolveAgencyRecipient(agencyId: string, fallbackUserId?: string)
   };
 }
 
+/**
+ * Billing emails go to the agency's contact address. When that address belongs to a user, their "Payment failures &
+ * billing" routing decides between immediate email, digest and webhook; the bell entry is written agency-wide by the caller.
+ */
+async function sendBillingEmail(options: {
+  to: string;
+  subject: string;
+  html: string;
+  summary: { type: string; title: string; message: string };
+}): Promise<void> {
+  const user = await prisma.user.findUnique({ where: { email: options.to }, select: { id: true } });
+  if (!user) {
+    await sendEmail({ to: options.to, subject: options.subject, html: options.html });
+    return;
+  }
+  await deliverNotification({
+    event: "payment_failures",
+    userIds: [user.id],
+    ...options.summary,
+    link: "/agency/subscription",
+    email: { subject: options.subject, html: options.html },
+    channels: ["email", "digest", "webhook"],
+  });
+}
+
 export async function sendAgencyPlanActivationEmail(options: {
   agencyId: string;
   tierName: string;
@@ -58,8 +84,13 @@ export async function sendAgencyPlanActivationEmail(options: {
       ? `${options.trialDaysLeft} day${options.trialDaysLeft === 1 ? "" : "s"}`
       : "N/A";
 
-  await sendEmail({
+  await sendBillingEmail({
     to: recipient.recipientEmail,
+    summary: {
+      type: "subscription_activated",
+      title: `Your ${options.tierName} plan is active`,
+      message: `Your ${BRAND_DISPLAY_NAME} subscription for ${recipient.agencyName} is now activated.`,
+    },
     subject: `Welcome to ${options.tierName} - ${BRAND_DISPLAY_NAME}`,
     html: renderBillingEmailTemplate({
       title: `Your ${options.tierName} plan is active`,
@@ -119,8 +150,13 @@ export async function sendAgencyPlanChangeEmail(options: {
       ? `${options.trialDaysLeft} day${options.trialDaysLeft === 1 ? "" : "s"}`
       : "N/A";
 
-  await sendEmail({
+  await sendBillingEmail({
     to: recipient.recipientEmail,
+    summary: {
+      type: options.isUpgrade ? "plan_upgrade" : "plan_downgrade",
+      title: options.isUpgrade ? "Your plan has been upgraded" : "Your plan has been downgraded",
+      message: `${recipient.agencyName} moved from ${options.oldTierName} to ${options.newTierName}.`,
+    },
     subject: `${options.isUpgrade ? "Plan upgraded" : "Plan downgraded"} - ${BRAND_DISPLAY_NAME}`,
     html: renderBillingEmailTemplate({
       title: options.isUpgrade ? "Your plan has been upgraded" : "Your plan has been downgraded",
@@ -162,8 +198,13 @@ export async function sendAgencyPlanCancellationEmail(options: {
     return;
   }
 
-  await sendEmail({
+  await sendBillingEmail({
     to: recipient.recipientEmail,
+    summary: {
+      type: "subscription_canceled",
+      title: "Your subscription has been canceled",
+      message: `Your ${options.canceledPlanName} subscription for ${recipient.agencyName} has been canceled.`,
+    },
     subject: `Subscription canceled - ${BRAND_DISPLAY_NAME}`,
     html: renderBillingEmailTemplate({
       title: "Your subscription has been canceled",
@@ -188,3 +229,55 @@ export async function sendAgencyPlanCancellationEmail(options: {
     console.warn("Agency plan cancellation email failed:", emailErr?.message);
   });
 }
+
+export async function sendAgencyPaymentFailedEmail(options: {
+  agencyId: string;
+  amountDueCents?: number | null;
+  currency?: string | null;
+  nextAttemptAt?: Date | null;
+}): Promise<void> {
+  const recipient = await resolveAgencyRecipient(options.agencyId);
+  if (!recipient.recipientEmail) {
+    console.warn("Agency payment failed email skipped: no recipient email");
+    return;
+  }
+
+  const amountText =
+    typeof options.amountDueCents === "number"
+      ? `${(options.amountDueCents / 100).toFixed(2)} ${String(options.currency || "usd").toUpperCase()}`
+      : "N/A";
+
+  await sendBillingEmail({
+    to: recipient.recipientEmail,
+    summary: {
+      type: "payment_failed",
+      title: "Payment failed",
+      message: `We couldn't charge the payment method for ${recipient.agencyName}. Please update it in Subscription & Billing.`,
+    },
+    subject: `Payment failed - ${BRAND_DISPLAY_NAME}`,
+    html: renderBillingEmailTemplate({
+      title: "We couldn't process your payment",
+      introLines: [
+        `Hi ${recipient.recipientName},`,
+        `We couldn't charge the payment method on file for ${recipient.agencyName}.`,
+        "Please update your payment details in Subscription & Billing to avoid service interruption.",
+      ],
+      sections: [
+        {
+          title: "Payment details",
+          rows: [
+            { label: "Amount Due", value: amountText },
+            {
+              label: "Next Attempt",
+              value: options.nextAttemptAt ? options.nextAttemptAt.toLocaleString("en-US") : "N/A",
+            },
+            { label: "Failed At", value: new Date().toLocaleString("en-US") },
+          ],
+        },
+      ],
+      footerLines: ["Need help? Reply to this email and our team will assist you."],
+    }),
+  }).catch((emailErr: any) => {
+    console.warn("Agency payment failed email failed:", emailErr?.message);
+  });
+}
@@ -0,0 +1,75 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  API_KEY_PREFIX,
+  ApiKeyRateLimiter,
+  createApiKeySchema,
+  generateApiKey,
+  hashApiKey,
+  hasApiKeyScope,
+  looksLikeApiKey,
+  normalizeApiKeyScopes,
+  parseApiKeyScope,
+  parseStoredScopes,
+} from "./apiKeys.js";
+
+test("parseApiKeyScope rejects unknown resources and write on read-only resources", () => {
+  assert.deepEqual(parseApiKeyScope("keywords:write"), { resource: "keywords", access: "write" });
+  assert.deepEqual(parseApiKeyScope("clients:read"), { resource: "clients", access: "read" });
+  assert.equal(parseApiKeyScope("clients:write"), null);
+  assert.equal(parseApiKeyScope("billing:read"), null);
+  assert.equal(parseApiKeyScope("keywords"), null);
+});
+
+test("normalizeApiKeyScopes de-duplicates and lets write supersede read", () => {
+  assert.deepEqual(
+    normalizeApiKeyScopes(["keywords:read", "local_map:read", "keywords:write", "clients:read", "clients:read", "nope:read"]),
+    ["clients:read", "keywords:write", "local_map:read"]
+  );
+  assert.deepEqual(parseStoredScopes('["keywords:write","keywords:read"]'), ["keywords:write"]);
+  assert.deepEqual(parseStoredScopes("not json"), []);
+});
+
+test("hasApiKeyScope treats write as implying read", () => {
+  const scopes = ["keywords:write", "clients:read"];
+  assert.equal(hasApiKeyScope(scopes, "keywords", "read"), true);
+  assert.equal(hasApiKeyScope(scopes, "keywords", "write"), true);
+  assert.equal(hasApiKeyScope(scopes, "clients", "read"), true);
+  assert.equal(hasApiKeyScope(scopes, "local_map", "read"), false);
+});
+
+test("generateApiKey returns a prefixed key whose hash matches and a short display prefix", () => {
+  const key = generateApiKey();
+  assert.ok(key.plaintext.startsWith(API_KEY_PREFIX));
+  assert.ok(looksLikeApiKey(key.plaintext));
+  assert.equal(key.hash, hashApiKey(key.plaintext));
+  assert.equal(key.hash.length, 64);
+  assert.ok(key.plaintext.startsWith(key.prefix));
+  assert.equal(key.prefix.length, API_KEY_PREFIX.length + 8);
+  assert.notEqual(generateApiKey().plaintext, key.plaintext);
+  // A JWT must never be mistaken for an API key.
+  assert.equal(looksLikeApiKey("eyJhbGciOiJIUzI1NiJ9.e30.sig"), false);
+});
+
+test("createApiKeySchema applies the default rate limit and validates scopes", () => {
+  const parsed = createApiKeySchema.parse({ name: " Zapier ", scopes: ["keywords:read"] });
+  assert.equal(parsed.name, "Zapier");
+  assert.equal(parsed.rateLimitPerMinute, 60);
+  assert.equal(createApiKeySchema.safeParse({ name: "x", scopes: ["clients:write"] }).success, false);
+  assert.equal(createApiKeySchema.safeParse({ name: "x", scopes: [] }).success, false);
+  assert.equal(createApiKeySchema.safeParse({ name: "x", scopes: ["clients:read"], rateLimitPerMinute: 5000 }).success, false);
+});
+
+test("ApiKeyRateLimiter allows `limit` requests per window per key", () => {
+  const limiter = new ApiKeyRateLimiter(60_000);
+  const start = 1_700_000_040_000; // 40s into a window
+  const windowEnd = start - (start % 60_000) + 60_000;
+
+  assert.deepEqual(limiter.consume("a", 2, start), { allowed: true, remaining: 1, resetAt: windowEnd });
+  assert.deepEqual(limiter.consume("a", 2, start + 1), { allowed: true, remaining: 0, resetAt: windowEnd });
+  assert.deepEqual(limiter.consume("a", 2, start + 2), { allowed: false, remaining: 0, resetAt: windowEnd });
+  // Other keys have their own budget.
+  assert.equal(limiter.consume("b", 2, start + 3).allowed, true);
+  // The next window starts fresh.
+  assert.equal(limiter.consume("a", 2, windowEnd).allowed, true);
+});
@@ -0,0 +1,140 @@
+/**
+ * Agency-scoped API keys for the public /api/v1 surface.
+ * Only a SHA-256 hash of each key is stored; the plaintext is shown once at creation.
+ * Scopes are per resource ("keywords:read", "keywords:write"); write access implies read.
+ */
+import crypto from "crypto";
+import { z } from "zod";
+
+export const API_KEY_PREFIX = "dmk_";
+/** Characters of the key (after the prefix) kept in clear text so owners can tell keys apart. */
+const DISPLAY_PREFIX_LENGTH = 8;
+
+export const DEFAULT_API_KEY_RATE_LIMIT = 60;
+export const MIN_API_KEY_RATE_LIMIT = 10;
+export const MAX_API_KEY_RATE_LIMIT = 600;
+
+export const API_KEY_RESOURCES = [
+  { id: "clients", label: "Clients & dashboards", writable: false },
+  { id: "keywords", label: "Target keywords & rankings", writable: true },
+  { id: "local_map", label: "Local map snapshots", writable: false },
+] as const;
+
+export type ApiKeyResource = (typeof API_KEY_RESOURCES)[number]["id"];
+export type ApiKeyAccess = "read" | "write";
+export type ApiKeyScope = `${ApiKeyResource}:${ApiKeyAccess}`;
+
+const resourceIds = API_KEY_RESOURCES.map((r) => r.id) as [ApiKeyResource, ...ApiKeyResource[]];
+
+export const apiKeyScopeSchema = z
+  .string()
+  .refine((value): value is ApiKeyScope => parseApiKeyScope(value) !== null, "Invalid scope");
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(apiKeyScopeSchema).min(1),
+  rateLimitPerMinute: z
+    .number()
+    .int()
+    .min(MIN_API_KEY_RATE_LIMIT)
+    .max(MAX_API_KEY_RATE_LIMIT)
+    .optional()
+    .default(DEFAULT_API_KEY_RATE_LIMIT),
+  expiresAt: z.coerce.date().optional().nullable(),
+});
+
+export const updateApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  scopes: z.array(apiKeyScopeSchema).min(1).optional(),
+  rateLimitPerMinute: z.number().int().min(MIN_API_KEY_RATE_LIMIT).max(MAX_API_KEY_RATE_LIMIT).optional(),
+});
+
+export function parseApiKeyScope(value: string): { resource: ApiKeyResource; access: ApiKeyAccess } | null {
+  const [resource, access] = String(value).split(":");
+  if (!resourceIds.includes(resource as ApiKeyResource)) return null;
+  if (access !== "read" && access !== "write") return null;
+  const definition = API_KEY_RESOURCES.find((r) => r.id === resource);
+  if (access === "write" && !definition?.writable) return null;
+  return { resource: resource as ApiKeyResource, access };
+}
+
+/** De-duplicate and drop "read" scopes already implied by "write" on the same resource. */
+export function normalizeApiKeyScopes(scopes: string[]): ApiKeyScope[] {
+  const byResource = new Map<ApiKeyResource, ApiKeyAccess>();
+  for (const scope of scopes) {
+    const parsed = parseApiKeyScope(scope);
+    if (!parsed) continue;
+    if (byResource.get(parsed.resource) !== "write") byResource.set(parsed.resource, parsed.access);
+  }
+  return resourceIds
+    .filter((id) => byResource.has(id))
+    .map((id) => `${id}:${byResource.get(id)}` as ApiKeyScope);
+}
+
+export function parseStoredScopes(value: string | null | undefined): ApiKeyScope[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? normalizeApiKeyScopes(parsed.map(String)) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function hasApiKeyScope(scopes: string[], resource: ApiKeyResource, access: ApiKeyAccess): boolean {
+  return scopes.some((scope) => {
+    const parsed = parseApiKeyScope(scope);
+    if (!parsed || parsed.resource !== resource) return false;
+    return access === "read" || parsed.access === "write";
+  });
+}
+
+export function hashApiKey(plaintext: string): string {
+  return crypto.createHash("sha256").update(plaintext).digest("hex");
+}
+
+export function looksLikeApiKey(value: string | null | undefined): value is string {
+  return typeof value === "string" && value.startsWith(API_KEY_PREFIX) && value.length > API_KEY_PREFIX.length + DISPLAY_PREFIX_LENGTH;
+}
+
+export function generateApiKey(): { plaintext: string; prefix: string; hash: string } {
+  const secret = crypto.randomBytes(32).toString("base64url");
+  const plaintext = `${API_KEY_PREFIX}${secret}`;
+  return {
+    plaintext,
+    prefix: plaintext.slice(0, API_KEY_PREFIX.length + DISPLAY_PREFIX_LENGTH),
+    hash: hashApiKey(plaintext),
+  };
+}
+
+/**
+ * Fixed one-minute window per key. Counts live in process memory, so with several API instances
+ * the effective limit is per instance; that is acceptable for abuse protection.
+ */
+export class ApiKeyRateLimiter {
+  private windows = new Map<string, { windowStart: number; count: number }>();
+
+  constructor(private readonly windowMs = 60 * 1000) {}
+
+  consume(keyId: string, limit: number, now = Date.now()): { allowed: boolean; remaining: number; resetAt: number } {
+    const windowStart = now - (now % this.windowMs);
+    let entry = this.windows.get(keyId);
+    if (!entry || entry.windowStart !== windowStart) {
+      entry = { windowStart, count: 0 };
+      this.windows.set(keyId, entry);
+      if (this.windows.size > 10000) this.prune(windowStart);
+    }
+    const resetAt = windowStart + this.windowMs;
+    if (entry.count >= limit) {
+      return { allowed: false, remaining: 0, resetAt };
+    }
+    entry.count++;
+    return { allowed: true, remaining: Math.max(0, limit - entry.count), resetAt };
+  }
+
+  private prune(currentWindowStart: number) {
+    for (const [id, entry] of this.windows) {
+      if (entry.windowStart !== currentWindowStart) this.windows.delete(id);
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import PDFDocument from "pdfkit";
+import type { TaskApprovalRecord } from "@prisma/client";
+import type { ApprovalChainCheck } from "./taskApprovals.js";
+
+const COLORS = {
+  headerBg: "#0F172A",
+  accent: "#4F46E5",
+  text: "#111827",
+  muted: "#6B7280",
+  line: "#E2E8F0",
+  ok: "#047857",
+  warn: "#B91C1C",
+} as const;
+
+const DECISION_LABELS: Record<TaskApprovalRecord["decision"], string> = {
+  APPROVED: "Approved",
+  REVISIONS_REQUESTED: "Revisions requested",
+};
+
+function formatTimestamp(value: Date): string {
+  return `${value.toISOString().replace("T", " ").slice(0, 19)} UTC`;
+}
+
+/**
+ * One-page-per-batch certificate: the signer, when and where they decided, and every task in the batch with the
+ * proof hash and record hash, plus whether the client's approval chain still verifies.
+ */
+export async function generateApprovalCertificatePdfBuffer(params: {
+  records: TaskApprovalRecord[];
+  clientName: string | null;
+  integrity: ApprovalChainCheck;
+}): Promise<Buffer> {
+  const { records, clientName, integrity } = params;
+  const first = records[0];
+  return new Promise<Buffer>((resolve, reject) => {
+    const doc = new PDFDocument({ margin: 48, size: "A4" });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const pageWidth = doc.page.width;
+    const contentWidth = pageWidth - 96;
+    doc.rect(0, 0, pageWidth, 64).fill(COLORS.headerBg);
+    doc.rect(0, 64, pageWidth, 3).fill(COLORS.accent);
+    doc.fillColor("#FFFFFF").font("Helvetica-Bold").fontSize(18).text("Approval Certificate", 48, 22);
+    doc.fillColor("#94A3B8").font("Helvetica").fontSize(9).text(clientName || "", 48, 26, { width: contentWidth, align: "right" });
+    doc.y = 92;
+
+    const field = (label: string, value: string) => {
+      doc.font("Helvetica-Bold").fontSize(9).fillColor(COLORS.muted).text(label.toUpperCase(), 48, doc.y);
+      doc.font("Helvetica").fontSize(11).fillColor(COLORS.text).text(value || "—", { width: contentWidth });
+      doc.moveDown(0.5);
+    };
+
+    field("Signed by", first.userName ? `${first.userName} <${first.userEmail}>` : first.userEmail);
+    field("Signed at", formatTimestamp(first.createdAt));
+    field("IP address", first.ipAddress ?? "Unknown");
+    field("Device", first.userAgent ?? "Unknown");
+    field("Batch", first.batchId);
+    if (first.comment) field("Comment", first.comment);
+
+    doc.moveDown(0.5);
+    doc.moveTo(48, doc.y).lineTo(pageWidth - 48, doc.y).lineWidth(0.6).strokeColor(COLORS.line).stroke();
+    doc.moveDown(0.8);
+    doc.font("Helvetica-Bold").fontSize(12).fillColor(COLORS.text).text(`Items (${records.length})`, 48, doc.y);
+    doc.moveDown(0.4);
+
+    for (const record of records) {
+      if (doc.y > doc.page.height - 140) doc.addPage();
+      doc.font("Helvetica-Bold").fontSize(10.5).fillColor(COLORS.text).text(record.taskTitle, 48, doc.y, { width: contentWidth });
+      doc
+        .font("Helvetica")
+        .fontSize(9.5)
+        .fillColor(record.decision === "APPROVED" ? COLORS.ok : COLORS.warn)
+        .text(DECISION_LABELS[record.decision]);
+      doc.font("Courier").fontSize(7.5).fillColor(COLORS.muted).text(`Proof hash:  ${record.proofHash}`);
+      doc.text(`Record hash: ${record.recordHash}`);
+      doc.moveDown(0.6);
+    }
+
+    doc.moveDown(0.4);
+    if (doc.y > doc.page.height - 110) doc.addPage();
+    doc.moveTo(48, doc.y).lineTo(pageWidth - 48, doc.y).lineWidth(0.6).strokeColor(COLORS.line).stroke();
+    doc.moveDown(0.8);
+    const ownRecordsIntact = records.every((record) => !integrity.brokenRecordIds.includes(record.id));
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(10)
+      .fillColor(ownRecordsIntact && integrity.valid ? COLORS.ok : COLORS.warn)
+      .text(
+        ownRecordsIntact && integrity.valid
+          ? `Verified: this batch and all ${integrity.checked} approval records for this client are intact.`
+          : ownRecordsIntact
+            ? "This batch verifies, but other approval records for this client were altered or removed."
+            : "Warning: records in this batch no longer match their hashes.",
+        48,
+        doc.y,
+        { width: contentWidth }
+      );
+    doc.moveDown(0.4);
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor(COLORS.muted)
+      .text(
+        "Each record hash covers the decision, signer, time, IP address, proof hash and the previous record's hash. " +
+          `Generated ${formatTimestamp(new Date())}.`,
+        { width: contentWidth }
+      );
+
+    doc.end();
+  });
+}
@@ -0,0 +1,56 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { AUDIT_CSV_COLUMNS, auditEventsToCsv, diffAuditValues, getAuditActionLabel, toCsvCell } from "./auditLog.js";
+
+test("diffAuditValues keeps only changed fields and compares dates by value", () => {
+  const at = new Date("2026-03-01T00:00:00.000Z");
+  assert.deepEqual(
+    diffAuditValues(
+      { status: "ACTIVE", plan: "starter", scheduledArchiveAt: at, untouched: 1 },
+      { status: "ARCHIVED", plan: "starter", scheduledArchiveAt: new Date(at), untouched: 1 }
+    ),
+    { status: { from: "ACTIVE", to: "ARCHIVED" } }
+  );
+  assert.deepEqual(diffAuditValues(null, { ga4PropertyId: "123" }), { ga4PropertyId: { from: null, to: "123" } });
+  assert.deepEqual(diffAuditValues({ ga4PropertyId: "123" }, {}), { ga4PropertyId: { from: "123", to: null } });
+});
+
+test("toCsvCell quotes separators and neutralizes spreadsheet formulas", () => {
+  assert.equal(toCsvCell(null), "");
+  assert.equal(toCsvCell("plain"), "plain");
+  assert.equal(toCsvCell('say "hi", twice'), '"say ""hi"", twice"');
+  assert.equal(toCsvCell("=HYPERLINK(\"x\")"), '"\'=HYPERLINK(""x"")"');
+  assert.equal(toCsvCell("-5"), "'-5");
+  assert.equal(toCsvCell(new Date("2026-03-01T10:00:00.000Z")), "2026-03-01T10:00:00.000Z");
+});
+
+test("auditEventsToCsv writes a header and one row per event", () => {
+  const csv = auditEventsToCsv([
+    {
+      createdAt: new Date("2026-03-01T10:00:00.000Z"),
+      action: "client.archived",
+      actorEmail: "owner@agency.test",
+      actorRole: "AGENCY",
+      agencyId: "agency_1",
+      agencyName: "Acme Agency",
+      entityType: "client",
+      entityId: "client_1",
+      entityLabel: "Bob's Plumbing",
+      changes: JSON.stringify({ status: { from: "ACTIVE", to: "ARCHIVED" } }),
+      metadata: null,
+      ipAddress: "203.0.113.7",
+    },
+  ]);
+  const lines = csv.trimEnd().split("\r\n");
+  assert.equal(lines.length, 2);
+  assert.equal(lines[0], AUDIT_CSV_COLUMNS.join(","));
+  assert.equal(
+    lines[1],
+    '2026-03-01T10:00:00.000Z,Client archived,owner@agency.test,AGENCY,Acme Agency,client,client_1,Bob\'s Plumbing,"status: ""ACTIVE"" -> ""ARCHIVED""",,203.0.113.7'
+  );
+});
+
+test("getAuditActionLabel falls back to the raw action id", () => {
+  assert.equal(getAuditActionLabel("agency.plan_changed"), "Plan changed");
+  assert.equal(getAuditActionLabel("something.else"), "something.else");
+});
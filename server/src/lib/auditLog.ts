@@ -0,0 +1,191 @@
+/**
+ * Audit log: an append-only record of sensitive actions (who archived a client, changed a plan, impersonated
+ * a portal user, ...). Routes call recordAuditEvent after the action succeeds; a failed write is logged and
+ * never fails the request. Events are only ever inserted — there is no update or delete path.
+ */
+import type { Request } from "express";
+import { prisma } from "./prisma.js";
+import { sessionMetaFromRequest } from "./sessions.js";
+
+export const AUDIT_ACTIONS = [
+  { id: "client.archived", label: "Client archived" },
+  { id: "client.archive_scheduled", label: "Client archive scheduled" },
+  { id: "client.ga4_disconnected", label: "GA4 disconnected" },
+  { id: "client.google_ads_disconnected", label: "Google Ads disconnected" },
+  { id: "client.gsc_disconnected", label: "Search Console disconnected" },
+  { id: "client.website_password_revealed", label: "Website password revealed" },
+  { id: "client_user.impersonated", label: "Logged in as portal user" },
+  { id: "agency.plan_changed", label: "Plan changed" },
+  { id: "agency.snapshot_credits_issued", label: "Snapshot credits issued" },
+  { id: "agency.role_created", label: "Custom role created" },
+  { id: "agency.role_updated", label: "Custom role updated" },
+  { id: "agency.role_deleted", label: "Custom role deleted" },
+  { id: "team_member.access_changed", label: "Member access changed" },
+  { id: "report.deleted", label: "Report deleted" },
+  { id: "email.suppression_removed", label: "Email suppression removed" },
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number]["id"];
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export type AuditEventInput = {
+  action: AuditAction;
+  entityType: string;
+  entityId?: string | null;
+  entityLabel?: string | null;
+  /** Agency the event belongs to; resolved from clientId when omitted. */
+  agencyId?: string | null;
+  clientId?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  metadata?: Record<string, unknown> | null;
+};
+
+export function getAuditActionLabel(action: string): string {
+  return AUDIT_ACTIONS.find((a) => a.id === action)?.label ?? action;
+}
+
+function normalizeAuditValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined) return null;
+  return value;
+}
+
+/** Fields whose value differs between `before` and `after` (shallow, Dates compared as ISO strings). */
+export function diffAuditValues(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const key of keys) {
+    const from = normalizeAuditValue(before?.[key]);
+    const to = normalizeAuditValue(after?.[key]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[key] = { from, to };
+    }
+  }
+  return changes;
+}
+
+/** Agency that owns a client: the assigned agency, otherwise the client owner's first agency. */
+export async function resolveClientAgencyId(clientId: string): Promise<string | null> {
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    select: { belongsToAgencyId: true, user: { select: { memberships: { select: { agencyId: true } } } } },
+  });
+  if (!client) return null;
+  return client.belongsToAgencyId ?? client.user?.memberships[0]?.agencyId ?? null;
+}
+
+export async function recordAuditEvent(req: Request, input: AuditEventInput): Promise<void> {
+  try {
+    const agencyId =
+      input.agencyId !== undefined
+        ? input.agencyId
+        : input.clientId
+          ? await resolveClientAgencyId(input.clientId)
+          : null;
+    const changes = input.before || input.after ? diffAuditValues(input.before, input.after) : null;
+    const { userAgent, ipAddress } = sessionMetaFromRequest(req);
+
+    await prisma.auditEvent.create({
+      data: {
+        action: input.action,
+        actorUserId: req.user?.userId ?? null,
+        actorEmail: req.user?.email ? String(req.user.email).slice(0, 255) : null,
+        actorRole: req.user?.role ?? null,
+        agencyId,
+        clientId: input.clientId ?? null,
+        entityType: input.entityType,
+        entityId: input.entityId ?? null,
+        entityLabel: input.entityLabel ? input.entityLabel.slice(0, 255) : null,
+        changes: changes && Object.keys(changes).length > 0 ? JSON.stringify(changes) : null,
+        metadata: input.metadata ? JSON.stringify(input.metadata) : null,
+        ipAddress,
+        userAgent,
+      },
+    });
+  } catch (err: any) {
+    console.warn(`[Audit] Failed to record ${input.action}:`, err?.message || err);
+  }
+}
+
+export function parseAuditJson(value: string | null | undefined): Record<string, unknown> | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** One CSV cell: quoted when needed, and prefixed so spreadsheet apps don't evaluate it as a formula. */
+export function toCsvCell(value: unknown): string {
+  let text = value === null || value === undefined ? "" : value instanceof Date ? value.toISOString() : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export const AUDIT_CSV_COLUMNS = [
+  "Time",
+  "Action",
+  "Actor",
+  "Actor role",
+  "Agency",
+  "Entity type",
+  "Entity ID",
+  "Entity",
+  "Changes",
+  "Details",
+  "IP address",
+] as const;
+
+type AuditCsvRow = {
+  createdAt: Date;
+  action: string;
+  actorEmail: string | null;
+  actorRole: string | null;
+  agencyName?: string | null;
+  agencyId: string | null;
+  entityType: string;
+  entityId: string | null;
+  entityLabel: string | null;
+  changes: string | null;
+  metadata: string | null;
+  ipAddress: string | null;
+};
+
+function formatChangesForCsv(value: string | null): string {
+  const changes = parseAuditJson(value) as AuditChanges | null;
+  if (!changes) return "";
+  return Object.entries(changes)
+    .map(([field, change]) => `${field}: ${JSON.stringify(change?.from ?? null)} -> ${JSON.stringify(change?.to ?? null)}`)
+    .join("; ");
+}
+
+export function auditEventsToCsv(rows: AuditCsvRow[]): string {
+  const lines = [AUDIT_CSV_COLUMNS.join(",")];
+  for (const row of rows) {
+    lines.push(
+      [
+        row.createdAt,
+        getAuditActionLabel(row.action),
+        row.actorEmail,
+        row.actorRole,
+        row.agencyName ?? row.agencyId,
+        row.entityType,
+        row.entityId,
+        row.entityLabel,
+        formatChangesForCsv(row.changes),
+        row.metadata,
+        row.ipAddress,
+      ]
+        .map(toCsvCell)
+        .join(",")
+    );
+  }
+  return `${lines.join("\r\n")}\r\n`;
+}
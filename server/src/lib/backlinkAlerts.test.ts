@@ -0,0 +1,60 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  backlinkKey,
+  diffBacklinkSync,
+  formatBacklinkAlertMessage,
+  matchesBacklinkAlertRule,
+  normalizeLinkUrl,
+  type SyncedBacklink,
+} from "./backlinkAlerts.js";
+
+const link = (sourceUrl: string, overrides: Partial<SyncedBacklink> = {}): SyncedBacklink => ({
+  sourceUrl,
+  targetUrl: "https://client.com/",
+  domainRating: 40,
+  isFollow: true,
+  isLost: false,
+  ...overrides,
+});
+
+test("normalizeLinkUrl ignores protocol, www, host case, default ports, fragments and trailing slashes", () => {
+  assert.equal(normalizeLinkUrl("HTTPS://www.Example.com:443/Blog/Post/#comments"), "example.com/Blog/Post");
+  assert.equal(normalizeLinkUrl("http://example.com/?ref=1"), "example.com?ref=1");
+  assert.equal(backlinkKey(link("https://a.com/x/")), backlinkKey(link("http://www.a.com/x", { targetUrl: "https://client.com" })));
+});
+
+test("diffBacklinkSync reports links that are new or newly lost since the previous sync", () => {
+  const previous = [link("https://a.com/1"), link("https://b.com/1"), link("https://c.com/1", { isLost: true })];
+  const current = [
+    link("https://a.com/1"),
+    link("https://b.com/1", { isLost: true }),
+    link("https://c.com/1", { isLost: true }),
+    link("https://d.com/1"),
+    link("https://d.com/1/"),
+    link("https://e.com/1", { isLost: true }),
+  ];
+  const { newLinks, lostLinks } = diffBacklinkSync(previous, current);
+  assert.deepEqual(newLinks.map((l) => l.sourceUrl), ["https://d.com/1"]);
+  assert.deepEqual(lostLinks.map((l) => l.sourceUrl), ["https://b.com/1"]);
+
+  assert.deepEqual(diffBacklinkSync([], current), { newLinks: [], lostLinks: [] });
+});
+
+test("matchesBacklinkAlertRule applies the domain rating threshold and follow filter", () => {
+  const rule = { minDomainRating: 50, followOnly: true };
+  assert.equal(matchesBacklinkAlertRule(rule, link("https://a.com", { domainRating: 62 })), true);
+  assert.equal(matchesBacklinkAlertRule(rule, link("https://a.com", { domainRating: 49.5 })), false);
+  assert.equal(matchesBacklinkAlertRule(rule, link("https://a.com", { domainRating: 80, isFollow: false })), false);
+  assert.equal(matchesBacklinkAlertRule({ minDomainRating: 0, followOnly: false }, link("https://a.com", { domainRating: null })), true);
+  assert.equal(matchesBacklinkAlertRule(rule, link("https://a.com", { domainRating: null })), false);
+});
+
+test("formatBacklinkAlertMessage lists referring domains and truncates long lists", () => {
+  assert.equal(
+    formatBacklinkAlertMessage("LOST", [link("https://www.news.com/a", { domainRating: 71.6 }), link("https://blog.io/b", { domainRating: null, isFollow: false })]),
+    "Lost: news.com (DR 72), blog.io, nofollow"
+  );
+  const many = Array.from({ length: 7 }, (_, i) => link(`https://site${i}.com/`, { domainRating: 30 }));
+  assert.match(formatBacklinkAlertMessage("NEW", many), /^New: site0\.com \(DR 30\), .* …and 2 more$/);
+});
@@ -0,0 +1,135 @@
+/**
+ * Backlink alerts: compares the backlink list before and after a sync, matches the new and newly lost links against
+ * the client's alert rules and routes matches to the agency's in-app notifications and to campaign wins.
+ */
+import crypto from "crypto";
+import { prisma } from "./prisma.js";
+import { resolveClientAgencyId } from "./auditLog.js";
+import { upsertCampaignWinEvent } from "./reportScheduler.js";
+
+export type BacklinkAlertEvent = "LOST" | "NEW";
+
+export type SyncedBacklink = {
+  sourceUrl: string;
+  targetUrl: string;
+  anchorText?: string | null;
+  domainRating?: number | null;
+  isFollow: boolean;
+  isLost: boolean;
+};
+
+export type BacklinkAlertCriteria = {
+  event: BacklinkAlertEvent;
+  minDomainRating: number;
+  followOnly: boolean;
+};
+
+/** Links listed per notification; the rest are summarised as "…and N more". */
+const MAX_LINKS_PER_NOTIFICATION = 5;
+
+/** "HTTPS://www.Example.com/page/#top" -> "example.com/page" so both syncs key the same link identically. */
+export function normalizeLinkUrl(value: string): string {
+  return value
+    .trim()
+    .replace(/#.*$/, "")
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//i, "")
+    .replace(/^([^/?]*)/, (host) => host.toLowerCase().replace(/^www\./, "").replace(/:(80|443)$/, ""))
+    .replace(/\/+(\?|$)/, "$1");
+}
+
+export function linkSourceDomain(url: string): string {
+  return normalizeLinkUrl(url).split(/[/?]/)[0];
+}
+
+export const backlinkKey = (link: Pick<SyncedBacklink, "sourceUrl" | "targetUrl">) =>
+  `${normalizeLinkUrl(link.sourceUrl)} -> ${normalizeLinkUrl(link.targetUrl)}`;
+
+/**
+ * New = live now and unknown before; lost = reported lost now but live before. Nothing is reported on the first sync
+ * (no previous rows), otherwise every existing link would alert as new.
+ */
+export function diffBacklinkSync<T extends SyncedBacklink>(previous: SyncedBacklink[], current: T[]): { newLinks: T[]; lostLinks: T[] } {
+  if (previous.length === 0) return { newLinks: [], lostLinks: [] };
+  const before = new Map(previous.map((link) => [backlinkKey(link), link]));
+  const newLinks: T[] = [];
+  const lostLinks: T[] = [];
+  const seen = new Set<string>();
+  for (const link of current) {
+    const key = backlinkKey(link);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const old = before.get(key);
+    if (!link.isLost && !old) newLinks.push(link);
+    else if (link.isLost && old && !old.isLost) lostLinks.push(link);
+  }
+  return { newLinks, lostLinks };
+}
+
+export function matchesBacklinkAlertRule(rule: Omit<BacklinkAlertCriteria, "event">, link: SyncedBacklink): boolean {
+  if (rule.followOnly && !link.isFollow) return false;
+  return (link.domainRating ?? 0) >= rule.minDomainRating;
+}
+
+const describeLink = (link: SyncedBacklink) =>
+  `${linkSourceDomain(link.sourceUrl)}${link.domainRating != null ? ` (DR ${Math.round(link.domainRating)})` : ""}${link.isFollow ? "" : ", nofollow"}`;
+
+export function formatBacklinkAlertMessage(event: BacklinkAlertEvent, links: SyncedBacklink[]): string {
+  const listed = links.slice(0, MAX_LINKS_PER_NOTIFICATION).map(describeLink).join(", ");
+  const more = links.length > MAX_LINKS_PER_NOTIFICATION ? ` …and ${links.length - MAX_LINKS_PER_NOTIFICATION} more` : "";
+  return `${event === "LOST" ? "Lost" : "New"}: ${listed}${more}`;
+}
+
+/**
+ * Called by the backlink sync with the rows it replaced and the rows it wrote. Each enabled rule gets at most one
+ * notification per sync; a link matched by several rules is only turned into a campaign win once.
+ */
+export async function processBacklinkSyncAlerts(clientId: string, previous: SyncedBacklink[], current: SyncedBacklink[]) {
+  const { newLinks, lostLinks } = diffBacklinkSync(previous, current);
+  if (newLinks.length === 0 && lostLinks.length === 0) return { newLinks: 0, lostLinks: 0, notifications: 0, campaignWins: 0 };
+
+  const rules = await prisma.backlinkAlertRule.findMany({ where: { clientId, enabled: true }, orderBy: { createdAt: "asc" } });
+  if (rules.length === 0) return { newLinks: newLinks.length, lostLinks: lostLinks.length, notifications: 0, campaignWins: 0 };
+
+  const client = await prisma.client.findUnique({ where: { id: clientId }, select: { name: true } });
+  const agencyId = await resolveClientAgencyId(clientId);
+  let notifications = 0;
+  const winLinks = new Map<string, SyncedBacklink>();
+
+  for (const rule of rules) {
+    const matched = (rule.event === "LOST" ? lostLinks : newLinks).filter((link) => matchesBacklinkAlertRule(rule, link));
+    if (matched.length === 0) continue;
+
+    if (rule.notifyInApp && agencyId) {
+      const noun = matched.length === 1 ? "backlink" : "backlinks";
+      await prisma.notification
+        .create({
+          data: {
+            agencyId,
+            type: rule.event === "LOST" ? "backlink_lost" : "backlink_new",
+            title: `${client?.name ?? "Client"}: ${matched.length} ${rule.event === "LOST" ? "lost" : "new"} ${noun}`,
+            message: formatBacklinkAlertMessage(rule.event, matched),
+            link: `/agency/clients/${clientId}?tab=backlinks`,
+          },
+        })
+        .then(() => notifications++)
+        .catch((e) => console.warn("[Backlink Alerts] Notification failed", e?.message));
+    }
+    if (rule.createCampaignWin && rule.event === "NEW") {
+      for (const link of matched) winLinks.set(backlinkKey(link), link);
+    }
+  }
+
+  for (const [key, link] of winLinks) {
+    await upsertCampaignWinEvent({
+      clientId,
+      eventType: "BACKLINK_WIN",
+      thresholdKey: `backlink_${crypto.createHash("sha256").update(key).digest("hex").slice(0, 40)}`,
+      eventDetail:
+        link.domainRating != null
+          ? `New backlink from ${linkSourceDomain(link.sourceUrl)} (Domain Rating ${Math.round(link.domainRating)}).`
+          : `New backlink from ${linkSourceDomain(link.sourceUrl)}.`,
+    });
+  }
+
+  return { newLinks: newLinks.length, lostLinks: lostLinks.length, notifications, campaignWins: winLinks.size };
+}
@@ -0,0 +1,92 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildKeywordComparison,
+  extractRankedKeywordEntries,
+  findKeywordGaps,
+  isCompetitorSnapshotDue,
+  normalizeCompetitorDomain,
+  parseStoredKeywords,
+} from "./competitors.js";
+
+const rankedItem = (keyword: string, position: number, searchVolume: number | null, url = `https://example.com/${keyword}`) => ({
+  keyword_data: { keyword, keyword_info: { search_volume: searchVolume } },
+  ranked_serp_element: { serp_item: { rank_group: position, url } },
+});
+
+test("normalizeCompetitorDomain strips protocol, www, paths and ports and rejects non-domains", () => {
+  assert.equal(normalizeCompetitorDomain("https://www.Example.com/pricing?x=1"), "example.com");
+  assert.equal(normalizeCompetitorDomain("shop.example.co.uk:8080"), "shop.example.co.uk");
+  assert.equal(normalizeCompetitorDomain("xn--80ak6aa92e.xn--p1ai"), "xn--80ak6aa92e.xn--p1ai");
+  assert.equal(normalizeCompetitorDomain("localhost"), null);
+  assert.equal(normalizeCompetitorDomain("not a domain.com"), null);
+  assert.equal(normalizeCompetitorDomain(""), null);
+});
+
+test("extractRankedKeywordEntries keeps the best position per keyword and sorts by search volume", () => {
+  const entries = extractRankedKeywordEntries([
+    rankedItem("plumber", 8, 900),
+    rankedItem("Plumber", 3, 900, "https://example.com/plumbing"),
+    rankedItem("drain repair", 12, 1500),
+    rankedItem("", 1, 100),
+    { keyword_data: { keyword: "no rank" } },
+  ]);
+  assert.deepEqual(
+    entries.map((e) => [e.keyword, e.position, e.searchVolume]),
+    [
+      ["drain repair", 12, 1500],
+      ["Plumber", 3, 900],
+    ]
+  );
+  assert.equal(entries[1].url, "https://example.com/plumbing");
+  assert.deepEqual(parseStoredKeywords([...entries, { keyword: "bad", position: 0 }, null]), entries);
+});
+
+test("buildKeywordComparison and findKeywordGaps line up client and competitor positions", () => {
+  const rows = buildKeywordComparison(
+    [
+      { keyword: "plumber", position: 4, searchVolume: 900, url: null },
+      { keyword: "emergency plumber", position: 15, searchVolume: 300, url: null },
+    ],
+    [
+      {
+        id: "a",
+        keywords: [
+          { keyword: "Plumber", position: 2, searchVolume: 900, url: null },
+          { keyword: "boiler repair", position: 6, searchVolume: 700, url: null },
+          { keyword: "water heater", position: 40, searchVolume: 2000, url: null },
+        ],
+      },
+      { id: "b", keywords: [{ keyword: "boiler repair", position: 9, searchVolume: 700, url: null }] },
+    ]
+  );
+  assert.deepEqual(
+    rows.map((r) => [r.keyword, r.clientPosition, r.competitorPositions.a, r.competitorPositions.b]),
+    [
+      ["water heater", null, 40, null],
+      ["plumber", 4, 2, null],
+      ["boiler repair", null, 6, 9],
+      ["emergency plumber", 15, null, null],
+    ]
+  );
+
+  const gaps = findKeywordGaps(rows);
+  assert.deepEqual(
+    gaps.map((g) => [g.keyword, g.rankingCompetitors, g.bestCompetitorPosition]),
+    [
+      ["boiler repair", 2, 6],
+      ["water heater", 1, 40],
+    ]
+  );
+  assert.deepEqual(
+    findKeywordGaps(rows, 20).map((g) => g.keyword),
+    ["boiler repair"]
+  );
+});
+
+test("isCompetitorSnapshotDue runs weekly", () => {
+  const now = new Date("2026-04-15T12:00:00.000Z");
+  assert.equal(isCompetitorSnapshotDue(null, now), true);
+  assert.equal(isCompetitorSnapshotDue(new Date("2026-04-10T12:00:00.000Z"), now), false);
+  assert.equal(isCompetitorSnapshotDue(new Date("2026-04-08T12:00:00.000Z"), now), true);
+});
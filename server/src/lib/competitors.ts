@@ -0,0 +1,232 @@
+/**
+ * Competitor tracking: the domains an agency benchmarks a client against. Ranked keywords and backlink totals are
+ * captured for the client and its competitors in the same run, so side-by-side numbers and keyword gaps always compare
+ * like with like. Capturing lives with the DataForSEO helpers in routes/seo.ts; this module reads and compares.
+ */
+import { prisma } from "./prisma.js";
+
+export const MAX_COMPETITORS_PER_CLIENT = 5;
+export const COMPETITOR_SNAPSHOT_INTERVAL_DAYS = 7;
+/** Manual refreshes are throttled; adding a competitor lifts the throttle so it gets its first numbers right away. */
+export const COMPETITOR_REFRESH_COOLDOWN_HOURS = 12;
+/** Ranked keywords requested per domain and snapshot (DataForSEO bills per returned item). */
+export const COMPETITOR_SNAPSHOT_KEYWORD_LIMIT = 200;
+
+export type RankedKeywordEntry = {
+  keyword: string;
+  position: number;
+  searchVolume: number | null;
+  url: string | null;
+};
+
+export type CompetitorSnapshotSummary = {
+  capturedAt: Date;
+  rankedKeywords: number;
+  estimatedTraffic: number | null;
+  backlinks: number | null;
+  referringDomains: number | null;
+  domainRating: number | null;
+};
+
+export type KeywordComparisonRow = {
+  keyword: string;
+  searchVolume: number | null;
+  clientPosition: number | null;
+  clientUrl: string | null;
+  /** Competitor id -> position (null = not ranking in the competitor's snapshot). */
+  competitorPositions: Record<string, number | null>;
+};
+
+export type KeywordGapRow = KeywordComparisonRow & {
+  rankingCompetitors: number;
+  bestCompetitorPosition: number;
+};
+
+const DOMAIN_PATTERN = /^(?=.{4,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z][a-z0-9-]{0,61}[a-z0-9]$/;
+
+/** "https://www.Example.com/pricing?x=1" -> "example.com"; null when the value is not a domain. */
+export function normalizeCompetitorDomain(value: string): string | null {
+  const host = value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, "")
+    .split(/[/?#]/)[0]
+    .replace(/:\d+$/, "")
+    .replace(/^www\./, "")
+    .replace(/\.$/, "");
+  return DOMAIN_PATTERN.test(host) ? host : null;
+}
+
+export function isCompetitorSnapshotDue(lastSnapshotAt: Date | null, now: Date = new Date()): boolean {
+  if (!lastSnapshotAt) return true;
+  return now.getTime() - lastSnapshotAt.getTime() >= COMPETITOR_SNAPSHOT_INTERVAL_DAYS * 24 * 60 * 60 * 1000;
+}
+
+const positiveInt = (value: unknown): number | null => {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.round(n) : null;
+};
+
+const byVolumeThenKeyword = (a: { searchVolume: number | null; keyword: string }, b: { searchVolume: number | null; keyword: string }) =>
+  (b.searchVolume ?? -1) - (a.searchVolume ?? -1) || a.keyword.localeCompare(b.keyword);
+
+/**
+ * Items from DataForSEO Labs ranked_keywords -> one entry per keyword (best position wins), highest search volume first.
+ */
+export function extractRankedKeywordEntries(items: unknown[]): RankedKeywordEntry[] {
+  const byKeyword = new Map<string, RankedKeywordEntry>();
+  for (const item of items as any[]) {
+    const keyword = String(item?.keyword_data?.keyword ?? "").trim();
+    const serpItem = item?.ranked_serp_element?.serp_item || {};
+    const position = positiveInt(serpItem?.rank_group ?? serpItem?.rank_absolute ?? item?.ranked_serp_element?.rank_group);
+    if (!keyword || position === null) continue;
+    const entry: RankedKeywordEntry = {
+      keyword,
+      position,
+      searchVolume: positiveInt(item?.keyword_data?.keyword_info?.search_volume),
+      url: typeof serpItem?.url === "string" && serpItem.url ? serpItem.url : null,
+    };
+    const key = keyword.toLowerCase();
+    const existing = byKeyword.get(key);
+    if (!existing || entry.position < existing.position) byKeyword.set(key, entry);
+  }
+  return [...byKeyword.values()].sort(byVolumeThenKeyword);
+}
+
+/** Reads the `keywords` JSON column back, dropping anything malformed. */
+export function parseStoredKeywords(value: unknown): RankedKeywordEntry[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((raw: any) => {
+    const keyword = typeof raw?.keyword === "string" ? raw.keyword.trim() : "";
+    const position = positiveInt(raw?.position);
+    if (!keyword || position === null) return [];
+    return [{ keyword, position, searchVolume: positiveInt(raw?.searchVolume), url: typeof raw?.url === "string" ? raw.url : null }];
+  });
+}
+
+/** Union of every keyword the client or a competitor ranks for, with each side's position. */
+export function buildKeywordComparison(
+  client: RankedKeywordEntry[],
+  competitors: Array<{ id: string; keywords: RankedKeywordEntry[] }>
+): KeywordComparisonRow[] {
+  const rows = new Map<string, KeywordComparisonRow>();
+  const rowFor = (entry: RankedKeywordEntry) => {
+    const key = entry.keyword.toLowerCase();
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        keyword: entry.keyword,
+        searchVolume: entry.searchVolume,
+        clientPosition: null,
+        clientUrl: null,
+        competitorPositions: Object.fromEntries(competitors.map((c) => [c.id, null])),
+      };
+      rows.set(key, row);
+    }
+    if (row.searchVolume === null) row.searchVolume = entry.searchVolume;
+    return row;
+  };
+
+  for (const entry of client) {
+    const row = rowFor(entry);
+    row.clientPosition = entry.position;
+    row.clientUrl = entry.url;
+  }
+  for (const competitor of competitors) {
+    for (const entry of competitor.keywords) rowFor(entry).competitorPositions[competitor.id] = entry.position;
+  }
+  return [...rows.values()].sort(byVolumeThenKeyword);
+}
+
+/**
+ * Keywords at least one competitor ranks for (within `maxPosition`) and the client doesn't rank for at all.
+ * Keywords more competitors share come first, then by search volume.
+ */
+export function findKeywordGaps(rows: KeywordComparisonRow[], maxPosition = 100): KeywordGapRow[] {
+  const gaps: KeywordGapRow[] = [];
+  for (const row of rows) {
+    if (row.clientPosition !== null) continue;
+    const positions = Object.values(row.competitorPositions).filter((p): p is number => p !== null && p <= maxPosition);
+    if (positions.length === 0) continue;
+    gaps.push({ ...row, rankingCompetitors: positions.length, bestCompetitorPosition: Math.min(...positions) });
+  }
+  return gaps.sort((a, b) => b.rankingCompetitors - a.rankingCompetitors || byVolumeThenKeyword(a, b));
+}
+
+type StoredSnapshot = Awaited<ReturnType<typeof prisma.competitorSnapshot.findMany>>[number];
+
+const toSummary = (snapshot: StoredSnapshot | undefined): CompetitorSnapshotSummary | null =>
+  snapshot
+    ? {
+        capturedAt: snapshot.createdAt,
+        rankedKeywords: snapshot.rankedKeywords,
+        estimatedTraffic: snapshot.estimatedTraffic,
+        backlinks: snapshot.backlinks,
+        referringDomains: snapshot.referringDomains,
+        domainRating: snapshot.domainRating,
+      }
+    : null;
+
+/** Latest two successful snapshots (for deltas) plus the error of the newest run if it failed. */
+async function loadRecentSnapshots(clientId: string, competitorId: string | null) {
+  const recent = await prisma.competitorSnapshot.findMany({
+    where: { clientId, competitorId },
+    orderBy: { createdAt: "desc" },
+    take: 6,
+  });
+  const successful = recent.filter((s) => !s.error);
+  return {
+    latestSnapshot: successful[0],
+    latest: toSummary(successful[0]),
+    previous: toSummary(successful[1]),
+    lastError: recent[0]?.error ?? null,
+  };
+}
+
+/** Declared competitors with their latest metrics next to the client's own, plus the keyword comparison and gaps. */
+export async function getCompetitorOverview(clientId: string) {
+  const client = await prisma.client.findUnique({ where: { id: clientId }, select: { domain: true } });
+  if (!client) return null;
+  const competitors = await prisma.clientCompetitor.findMany({
+    where: { clientId },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const own = await loadRecentSnapshots(clientId, null);
+  const tracked = [];
+  for (const competitor of competitors) {
+    tracked.push({ competitor, ...(await loadRecentSnapshots(clientId, competitor.id)) });
+  }
+
+  const rows = own.latestSnapshot
+    ? buildKeywordComparison(
+        parseStoredKeywords(own.latestSnapshot.keywords),
+        tracked
+          .filter((t) => t.latestSnapshot)
+          .map((t) => ({ id: t.competitor.id, keywords: parseStoredKeywords(t.latestSnapshot?.keywords) }))
+      )
+    : [];
+
+  return {
+    client: {
+      domain: normalizeCompetitorDomain(client.domain) ?? client.domain,
+      latest: own.latest,
+      previous: own.previous,
+      lastError: own.lastError,
+    },
+    competitors: tracked.map(({ competitor, latest, previous, lastError }) => ({
+      id: competitor.id,
+      domain: competitor.domain,
+      label: competitor.label,
+      createdAt: competitor.createdAt,
+      lastSnapshotAt: competitor.lastSnapshotAt,
+      latest,
+      previous,
+      lastError,
+    })),
+    keywords: rows,
+    gaps: findKeywordGaps(rows),
+  };
+}
+
+export type CompetitorOverview = NonNullable<Awaited<ReturnType<typeof getCompetitorOverview>>>;
@@ -0,0 +1,70 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { CsvImportError, mapCsvRows, parseCsv, prepareImport, suggestColumnMapping, type ImportFieldSpec } from "./csvImport.js";
+
+const fields: ImportFieldSpec[] = [
+  { key: "name", label: "Name", required: true, aliases: ["company"] },
+  { key: "domain", label: "Domain", required: true, type: "url", aliases: ["website"] },
+  { key: "dr", label: "Domain rating", type: "number", aliases: ["dr"] },
+  { key: "follow", label: "Follow", type: "boolean" },
+  { key: "campaign", label: "Campaign type", options: ["Local", "National"] },
+  { key: "targets", label: "Target keywords", type: "list" },
+];
+
+test("parseCsv handles quotes, escaped quotes, embedded newlines, CRLF, BOM and blank lines", () => {
+  const csv = '\uFEFFName,Notes\r\n"Acme, Inc.","said ""hi""\nthen left"\r\n\r\nBeta,\n';
+  assert.deepEqual(parseCsv(csv), [
+    ["Name", "Notes"],
+    ["Acme, Inc.", 'said "hi"\nthen left'],
+    ["Beta", ""],
+  ]);
+  assert.deepEqual(parseCsv("a,b"), [["a", "b"]]);
+});
+
+test("suggestColumnMapping matches keys, labels and aliases regardless of case and punctuation", () => {
+  const mapping = suggestColumnMapping(["Company", "Website URL", "DR", "follow?", "Notes", "campaign_type"], fields);
+  assert.deepEqual(mapping, { name: 0, domain: null, dr: 2, follow: 3, campaign: 5, targets: null });
+  assert.equal(suggestColumnMapping(["Website"], fields).domain, 0);
+});
+
+test("mapCsvRows coerces typed cells and reports per-row errors with spreadsheet line numbers", () => {
+  const table = [
+    ["Name", "Domain", "DR", "Follow", "Campaign", "Targets"],
+    ["Acme", "acme.com", "1,200", "yes", "local", "plumber; plumber near me"],
+    ["", "not a url", "abc", "maybe", "Global", ""],
+  ];
+  const rows = mapCsvRows(table, { name: 0, domain: 1, dr: 2, follow: 3, campaign: 4, targets: 5 }, fields);
+  assert.equal(rows[0].row, 2);
+  assert.deepEqual(rows[0].errors, []);
+  assert.deepEqual(rows[0].values, {
+    name: "Acme",
+    domain: "https://acme.com",
+    dr: 1200,
+    follow: true,
+    campaign: "Local",
+    targets: ["plumber", "plumber near me"],
+  });
+  assert.equal(rows[1].row, 3);
+  assert.deepEqual(rows[1].errors, [
+    "Name is required",
+    "Domain is not a valid URL",
+    "Domain rating must be a number",
+    "Follow must be yes or no",
+    "Campaign type must be one of: Local, National",
+  ]);
+});
+
+test("prepareImport suggests a mapping, flags unmapped required fields and rejects oversize files", () => {
+  const prepared = prepareImport({ csv: "Company,Notes\nAcme,x\n", dryRun: true }, fields, 10);
+  assert.deepEqual(prepared.headers, ["Company", "Notes"]);
+  assert.equal(prepared.mapping.name, 0);
+  assert.deepEqual(prepared.missingRequired, ["Domain"]);
+
+  const mapped = prepareImport({ csv: "Company,Notes\nAcme,acme.com\n", mapping: { name: 0, domain: 1 }, dryRun: true }, fields, 10);
+  assert.deepEqual(mapped.missingRequired, []);
+  assert.equal(mapped.rows[0].values.domain, "https://acme.com");
+
+  assert.throws(() => prepareImport({ csv: "Name\n", dryRun: true }, fields, 10), CsvImportError);
+  assert.throws(() => prepareImport({ csv: "Name\na\nb\nc\n", dryRun: true }, fields, 2), /up to 2 rows/);
+  assert.throws(() => prepareImport({ csv: "Name\na\n", mapping: { name: 4 }, dryRun: true }, fields, 10), /not in the file/);
+});
@@ -0,0 +1,234 @@
+/**
+ * Spreadsheet imports (clients, keywords, backlinks): parse an uploaded CSV, map its columns onto the entity's fields,
+ * and coerce each row with per-row errors so the wizard can show a dry-run report before anything is written.
+ */
+import { z } from "zod";
+
+export type ImportFieldType = "string" | "number" | "integer" | "boolean" | "url" | "list";
+
+export type ImportFieldSpec = {
+  key: string;
+  label: string;
+  required?: boolean;
+  type?: ImportFieldType;
+  /** Extra header names (lowercased, punctuation ignored) that map to this field automatically. */
+  aliases?: string[];
+  maxLength?: number;
+  /** Allowed values (matched case-insensitively; the canonical spelling is kept). */
+  options?: readonly string[];
+};
+
+/** Field key -> zero-based column index in the CSV (null = not imported). */
+export type ColumnMapping = Record<string, number | null>;
+
+export type ImportValue = string | number | boolean | string[] | null;
+
+export type MappedImportRow = {
+  /** Spreadsheet line number (the header is line 1). */
+  row: number;
+  values: Record<string, ImportValue>;
+  errors: string[];
+};
+
+export type ImportRowStatus = "ready" | "created" | "skipped" | "error";
+
+export type ImportRowResult = {
+  row: number;
+  status: ImportRowStatus;
+  label: string;
+  messages: string[];
+};
+
+export class CsvImportError extends Error {
+  statusCode: number;
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = "CsvImportError";
+    this.statusCode = statusCode;
+  }
+}
+
+export const importRequestSchema = z.object({
+  csv: z.string().min(1, "The file is empty").max(5_000_000, "The file is too large (max 5 MB)"),
+  /** Omit on the first upload to get the suggested mapping back. */
+  mapping: z.record(z.number().int().min(0).nullable()).optional(),
+  dryRun: z.boolean().optional().default(true),
+});
+
+export type ImportRequest = z.infer<typeof importRequestSchema>;
+
+/** RFC 4180 CSV: quoted fields, doubled quotes, CR/LF/CRLF line endings; a leading BOM is dropped. Blank lines are skipped. */
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((cell) => cell.trim() !== "")) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+}
+
+const headerKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/** Maps each field to the first header matching its key, label or an alias; each column is used once. */
+export function suggestColumnMapping(headers: string[], fields: ImportFieldSpec[]): ColumnMapping {
+  const normalized = headers.map(headerKey);
+  const used = new Set<number>();
+  const mapping: ColumnMapping = {};
+  for (const field of fields) {
+    const candidates = [field.key, field.label, ...(field.aliases ?? [])].map(headerKey);
+    const index = normalized.findIndex((header, i) => !used.has(i) && header !== "" && candidates.includes(header));
+    mapping[field.key] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  }
+  return mapping;
+}
+
+const TRUE_VALUES = new Set(["true", "yes", "y", "1", "dofollow", "follow"]);
+const FALSE_VALUES = new Set(["false", "no", "n", "0", "nofollow"]);
+
+function coerceCell(raw: string, field: ImportFieldSpec): { value: ImportValue; error?: string } {
+  const text = raw.trim();
+  if (text === "") return { value: null };
+  if (field.maxLength && text.length > field.maxLength) {
+    return { value: null, error: `${field.label} is longer than ${field.maxLength} characters` };
+  }
+  switch (field.type ?? "string") {
+    case "number":
+    case "integer": {
+      const parsed = Number(text.replace(/[,\s]/g, ""));
+      if (!Number.isFinite(parsed)) return { value: null, error: `${field.label} must be a number` };
+      if (field.type === "integer" && !Number.isInteger(parsed)) return { value: null, error: `${field.label} must be a whole number` };
+      return { value: parsed };
+    }
+    case "boolean": {
+      const lower = text.toLowerCase();
+      if (TRUE_VALUES.has(lower)) return { value: true };
+      if (FALSE_VALUES.has(lower)) return { value: false };
+      return { value: null, error: `${field.label} must be yes or no` };
+    }
+    case "url": {
+      const candidate = /^https?:\/\//i.test(text) ? text : `https://${text}`;
+      try {
+        const url = new URL(candidate);
+        if (!url.hostname.includes(".")) throw new Error("no tld");
+        return { value: candidate };
+      } catch {
+        return { value: null, error: `${field.label} is not a valid URL` };
+      }
+    }
+    case "list":
+      return {
+        value: text
+          .split(/[;\n|]+/)
+          .map((item) => item.trim())
+          .filter(Boolean),
+      };
+    default: {
+      if (field.options) {
+        const match = field.options.find((option) => option.toLowerCase() === text.toLowerCase());
+        if (!match) return { value: null, error: `${field.label} must be one of: ${field.options.join(", ")}` };
+        return { value: match };
+      }
+      return { value: text };
+    }
+  }
+}
+
+/** Applies the mapping to every data row (the first CSV row is the header). */
+export function mapCsvRows(table: string[][], mapping: ColumnMapping, fields: ImportFieldSpec[]): MappedImportRow[] {
+  return table.slice(1).map((cells, index) => {
+    const values: Record<string, ImportValue> = {};
+    const errors: string[] = [];
+    for (const field of fields) {
+      const column = mapping[field.key];
+      const { value, error } = column === null || column === undefined ? { value: null } : coerceCell(cells[column] ?? "", field);
+      if (error) errors.push(error);
+      else if (field.required && (value === null || (Array.isArray(value) && value.length === 0))) errors.push(`${field.label} is required`);
+      values[field.key] = value;
+    }
+    return { row: index + 2, values, errors };
+  });
+}
+
+/**
+ * Parses the upload and resolves the mapping (the caller's, or a suggestion). Throws CsvImportError for problems with
+ * the file as a whole: no data rows, too many rows, a required field left unmapped, or a mapping outside the columns.
+ */
+export function prepareImport(request: ImportRequest, fields: ImportFieldSpec[], maxRows: number) {
+  const table = parseCsv(request.csv);
+  if (table.length < 2) throw new CsvImportError("The file needs a header row and at least one data row.");
+  const dataRows = table.length - 1;
+  if (dataRows > maxRows) throw new CsvImportError(`Import up to ${maxRows} rows at a time. This file has ${dataRows}.`);
+
+  const headers = table[0].map((h) => h.trim());
+  const mapping: ColumnMapping = request.mapping
+    ? Object.fromEntries(fields.map((field) => [field.key, request.mapping?.[field.key] ?? null]))
+    : suggestColumnMapping(headers, fields);
+  for (const [key, column] of Object.entries(mapping)) {
+    if (column !== null && column >= headers.length) throw new CsvImportError(`Column ${column + 1} for "${key}" is not in the file.`);
+  }
+  const unmapped = fields.filter((field) => field.required && mapping[field.key] === null);
+  return {
+    headers,
+    mapping,
+    rows: mapCsvRows(table, mapping, fields),
+    /** Required fields without a column; the import cannot run until these are mapped. */
+    missingRequired: unmapped.map((field) => field.label),
+  };
+}
+
+export function summarizeImportResults(results: ImportRowResult[]) {
+  const count = (status: ImportRowStatus) => results.filter((r) => r.status === status).length;
+  return {
+    total: results.length,
+    ready: count("ready"),
+    created: count("created"),
+    skipped: count("skipped"),
+    errors: count("error"),
+  };
+}
+
+/** Field specs as the wizard needs them (no server-only details). */
+export function describeImportFields(fields: ImportFieldSpec[]) {
+  return fields.map(({ key, label, required, type, options }) => ({
+    key,
+    label,
+    required: Boolean(required),
+    type: type ?? "string",
+    options: options ?? null,
+  }));
+}
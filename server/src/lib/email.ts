@@ -3,6 +3,15 @@ import {
   getWhitelabelFromAddress,
   normalizeWhitelabelText,
 } from "./qualityContracts.js";
+import {
+  addEmailTracking,
+  createTrackingToken,
+  emailTrackingBaseUrl,
+  emailTrackingSecret,
+  isEmailSuppressed,
+  recordEmailLog,
+  type EmailDeliveryContext,
+} from "./emailDelivery.js";
 
 interface EmailAttachment {
   filename: string;
@@ -18,6 +27,11 @@ interface EmailOptions {
   subject: string;
   html: string;
   attachments?: EmailAttachment[];
+  /**
+   * Recorded on the email log row; without it the send is logged as "transactional". Non-transactional sends skip
+   * addresses that hard-bounced or complained, even when the caller didn't filter its recipients.
+   */
+  delivery?: EmailDeliveryContext;
 }
 
 export interface EmailSendResult {
@@ -87,7 +101,7 @@ function getTransporter(): nodemailer.Transporter {
   return transporter;
 }
 
-export const sendEmail = async ({ to, subject, html, attachments }: EmailOptions): Promise<EmailSendResult | null> => {
+export const sendEmail = async ({ to, subject, html, attachments, delivery }: EmailOptions): Promise<EmailSendResult | null> => {
   try {
     if (EMAIL_DISABLED) {
       console.log(
@@ -95,12 +109,25 @@ export const sendEmail = async ({ to, subject, html, attachments }: EmailOptions
       );
       return null;
     }
+    if (delivery && (await isEmailSuppressed(to))) {
+      console.log(`[Email] ${to} is suppressed (hard bounce or complaint), skipping. Subject: "${subject.slice(0, 50)}"`);
+      return null;
+    }
 
     const emailTransporter = getTransporter();
     const from = getWhitelabelFromAddress();
     const normalizedSubject = normalizeWhitelabelText(subject);
-    const normalizedHtml = normalizeWhitelabelText(html);
+    let normalizedHtml = normalizeWhitelabelText(html);
     const normalizedText = htmlToPlainText(normalizedHtml);
+    // Without EMAIL_TRACKING_SECRET the email goes out untracked.
+    const trackingSecret = emailTrackingSecret();
+    const trackingToken = delivery?.trackEngagement && trackingSecret ? createTrackingToken() : null;
+    if (trackingToken && trackingSecret) {
+      normalizedHtml = addEmailTracking(normalizedHtml, trackingToken, {
+        baseUrl: emailTrackingBaseUrl(),
+        secret: trackingSecret,
+      });
+    }
     const replyTo = String(process.env.SMTP_REPLY_TO || "").trim() || undefined;
     console.log(`[Email] Attempting send to ${to}, subject: "${subject.slice(0, 50)}..."`);
     const result = await emailTransporter.sendMail({
@@ -113,6 +140,14 @@ export const sendEmail = async ({ to, subject, html, attachments }: EmailOptions
       attachments,
     });
     console.log(`[Email] Sent successfully to ${to}, messageId: ${result.messageId || "n/a"}`);
+    await recordEmailLog({
+      recipient: to,
+      subject: normalizedSubject,
+      context: delivery,
+      status: "sent",
+      providerMessageId: result.messageId,
+      trackingToken,
+    });
     return {
       messageId: result.messageId || null,
       from,
@@ -123,6 +158,13 @@ export const sendEmail = async ({ to, subject, html, attachments }: EmailOptions
   } catch (error: any) {
     console.error("[Email] Send failed:", error?.message || error);
     console.error("[Email] To:", to, "Subject:", subject?.slice(0, 40));
+    await recordEmailLog({
+      recipient: to,
+      subject,
+      context: delivery,
+      status: "failed",
+      error: error?.message || String(error),
+    });
     
     // Provide more specific error messages
     if (error.code === "ECONNREFUSED" || error.code === "ESOCKET") {
@@ -0,0 +1,170 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  addEmailTracking,
+  decodeTrackedLinkTarget,
+  nextDeliveryStatus,
+  normalizeProviderMessageId,
+  parseEmailProviderEvents,
+  shouldSuppress,
+  summarizeEmailBatches,
+  verifyTrackedLink,
+  type EmailProviderEvent,
+} from "./emailDelivery.js";
+
+const BASE = "https://api.example.com";
+const SECRET = "test-secret";
+
+test("parses the generic format and defaults bounces to hard", () => {
+  const events = parseEmailProviderEvents({
+    events: [
+      { type: "bounce", email: " Jane@Example.com ", messageId: "<abc@mail.example.com>" },
+      { type: "bounce", email: "soft@example.com", bounceType: "soft", reason: "Mailbox full" },
+      { type: "complaint", email: "spam@example.com" },
+      { type: "delivered", email: "ok@example.com" },
+      { type: "opened", email: "ignored@example.com" },
+      { type: "bounce", email: "not-an-address" },
+    ],
+  });
+  assert.deepEqual(events, [
+    { type: "bounce", email: "jane@example.com", messageId: "abc@mail.example.com", bounceType: "hard", detail: null },
+    { type: "bounce", email: "soft@example.com", messageId: null, bounceType: "soft", detail: "Mailbox full" },
+    { type: "complaint", email: "spam@example.com", messageId: null, bounceType: null, detail: null },
+    { type: "delivered", email: "ok@example.com", messageId: null, bounceType: null, detail: null },
+  ]);
+});
+
+test("parses SES notifications wrapped in SNS", () => {
+  const message = {
+    notificationType: "Bounce",
+    mail: { messageId: "ses-1" },
+    bounce: {
+      bounceType: "Permanent",
+      bouncedRecipients: [{ emailAddress: "gone@example.com", diagnosticCode: "550 5.1.1 user unknown" }],
+    },
+  };
+  const [event] = parseEmailProviderEvents({ Type: "Notification", Message: JSON.stringify(message) });
+  assert.deepEqual(event, {
+    type: "bounce",
+    email: "gone@example.com",
+    messageId: "ses-1",
+    bounceType: "hard",
+    detail: "550 5.1.1 user unknown",
+  });
+
+  const transient = parseEmailProviderEvents({ ...message, bounce: { ...message.bounce, bounceType: "Transient" } });
+  assert.equal(transient[0].bounceType, "soft");
+});
+
+test("parses SendGrid, Postmark and Mailgun payloads", () => {
+  const sendgrid = parseEmailProviderEvents([
+    { event: "bounce", type: "bounce", email: "a@example.com", "smtp-id": "<sg-1@example.com>" },
+    { event: "bounce", type: "blocked", email: "b@example.com" },
+    { event: "spamreport", email: "c@example.com" },
+    { event: "open", email: "d@example.com" },
+  ]);
+  assert.deepEqual(
+    sendgrid.map((e) => [e.type, e.email, e.bounceType, e.messageId]),
+    [
+      ["bounce", "a@example.com", "hard", "sg-1@example.com"],
+      ["bounce", "b@example.com", "soft", null],
+      ["complaint", "c@example.com", null, null],
+    ]
+  );
+
+  const [postmark] = parseEmailProviderEvents({ RecordType: "Bounce", Type: "SoftBounce", Email: "p@example.com", MessageID: "pm-1" });
+  assert.equal(postmark.bounceType, "soft");
+  assert.equal(postmark.messageId, "pm-1");
+
+  const [mailgun] = parseEmailProviderEvents({
+    "event-data": { event: "failed", severity: "permanent", recipient: "m@example.com", message: { headers: { "message-id": "mg-1" } } },
+  });
+  assert.equal(mailgun.type, "bounce");
+  assert.equal(mailgun.bounceType, "hard");
+  assert.equal(mailgun.messageId, "mg-1");
+
+  assert.deepEqual(parseEmailProviderEvents("nonsense"), []);
+  assert.deepEqual(parseEmailProviderEvents({ Type: "Notification", Message: "{not json" }), []);
+});
+
+test("only hard bounces and complaints suppress the address", () => {
+  const event = (overrides: Partial<EmailProviderEvent>): EmailProviderEvent => ({
+    type: "bounce",
+    email: "x@example.com",
+    messageId: null,
+    bounceType: "hard",
+    detail: null,
+    ...overrides,
+  });
+  assert.equal(shouldSuppress(event({})), true);
+  assert.equal(shouldSuppress(event({ bounceType: "soft" })), false);
+  assert.equal(shouldSuppress(event({ type: "complaint", bounceType: null })), true);
+  assert.equal(shouldSuppress(event({ type: "delivered", bounceType: null })), false);
+
+  assert.equal(nextDeliveryStatus("sent", event({ type: "delivered", bounceType: null })), "delivered");
+  assert.equal(nextDeliveryStatus("bounced", event({ type: "delivered", bounceType: null })), "bounced");
+  assert.equal(nextDeliveryStatus("delivered", event({})), "bounced");
+  assert.equal(nextDeliveryStatus("complained", event({})), "complained");
+});
+
+test("addEmailTracking signs links and appends the open pixel", () => {
+  const html = `<html><body><a href="https://example.com/report?a=1&amp;b=2">Report</a> <a href="mailto:me@example.com">Mail</a></body></html>`;
+  const tracked = addEmailTracking(html, "tok123", { baseUrl: `${BASE}/`, secret: SECRET });
+
+  const match = tracked.match(/href="([^"]+\/click\/tok123[^"]+)"/);
+  assert.ok(match, "link is rewritten");
+  const url = new URL(match[1].replace(/&amp;/g, "&"));
+  const target = decodeTrackedLinkTarget(url.searchParams.get("u"));
+  assert.equal(target, "https://example.com/report?a=1&b=2");
+  assert.equal(verifyTrackedLink(SECRET, "tok123", target!, url.searchParams.get("s")!), true);
+  assert.equal(verifyTrackedLink(SECRET, "other-token", target!, url.searchParams.get("s")!), false);
+  assert.equal(verifyTrackedLink("wrong-secret", "tok123", target!, url.searchParams.get("s")!), false);
+
+  assert.ok(tracked.includes(`href="mailto:me@example.com"`), "mailto links are left alone");
+  assert.ok(tracked.includes(`<img src="${BASE}/api/email-events/open/tok123.gif"`));
+  assert.ok(tracked.indexOf("/open/tok123.gif") < tracked.indexOf("</body>"), "pixel goes inside the body");
+});
+
+test("decodeTrackedLinkTarget rejects non-http targets", () => {
+  assert.equal(decodeTrackedLinkTarget(Buffer.from("javascript:alert(1)").toString("base64url")), null);
+  assert.equal(decodeTrackedLinkTarget("%%%"), null);
+  assert.equal(decodeTrackedLinkTarget(undefined), null);
+});
+
+test("normalizeProviderMessageId strips angle brackets", () => {
+  assert.equal(normalizeProviderMessageId("<id@host>"), "id@host");
+  assert.equal(normalizeProviderMessageId("  "), null);
+  assert.equal(normalizeProviderMessageId(null), null);
+});
+
+test("summarizeEmailBatches counts recipients, opens and failures per send", () => {
+  const log = (id: string, batchId: string | null, minutes: number, extra: Record<string, unknown> = {}) => ({
+    id,
+    createdAt: new Date(Date.UTC(2026, 4, 1, 9, minutes)),
+    subject: "Monthly report",
+    templateType: "report",
+    reportId: "r1",
+    batchId,
+    status: "sent" as const,
+    trackingToken: "t",
+    firstOpenedAt: null,
+    clickCount: 0,
+    ...extra,
+  });
+  const batches = summarizeEmailBatches([
+    log("1", "b1", 0, { firstOpenedAt: new Date(), clickCount: 2 }),
+    log("2", "b1", 1, { status: "bounced" }),
+    log("3", "b1", 0, { status: "delivered", firstOpenedAt: new Date() }),
+    log("4", "b2", 30, { status: "failed", trackingToken: null }),
+    log("5", null, 10, { trackingToken: null }),
+  ]);
+  assert.deepEqual(
+    batches.map((b) => [b.batchId, b.recipients, b.delivered, b.bounced, b.failed, b.opened, b.clicked, b.tracked]),
+    [
+      ["b2", 1, 0, 0, 1, 0, 0, false],
+      ["5", 1, 0, 0, 0, 0, 0, false],
+      ["b1", 3, 1, 1, 0, 2, 1, true],
+    ]
+  );
+  assert.equal(batches[2].sentAt.toISOString(), "2026-05-01T09:00:00.000Z");
+});
@@ -0,0 +1,392 @@
+/**
+ * Outbound email log and provider feedback.
+ * sendEmail writes one EmailLog row per recipient. Providers report deliveries, bounces and complaints to
+ * POST /api/email-events/webhook in their own format (parseEmailProviderEvents); hard bounces and complaints
+ * add the address to EmailSuppression, which report sends filter out via normalizeEmailRecipients.
+ * Report emails of schedules with trackEngagement carry an open pixel and signed click redirects.
+ */
+import crypto from "crypto";
+import type { EmailDeliveryStatus } from "@prisma/client";
+import { prisma } from "./prisma.js";
+
+export const EMAIL_TEMPLATE_TYPES = ["report", "ppc_report", "local_map_report", "campaign_wins", "transactional"] as const;
+
+export type EmailTemplateType = (typeof EMAIL_TEMPLATE_TYPES)[number];
+
+/** What sendEmail records about a send; trackEngagement adds the open pixel and click redirects. */
+export type EmailDeliveryContext = {
+  templateType: EmailTemplateType;
+  clientId?: string | null;
+  reportId?: string | null;
+  /** Shared by all recipients of one report send. */
+  batchId?: string | null;
+  trackEngagement?: boolean;
+};
+
+export type EmailProviderEvent = {
+  type: "delivered" | "bounce" | "complaint";
+  email: string;
+  messageId: string | null;
+  bounceType: "hard" | "soft" | null;
+  detail: string | null;
+};
+
+/** Bounces without a message id are matched to the recipient's latest email from this window. */
+const RECIPIENT_MATCH_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_DETAIL_CHARS = 500;
+
+export function normalizeEmailAddress(value: string): string {
+  return String(value || "").trim().toLowerCase();
+}
+
+/** Message-ID as providers echo it back: without the angle brackets SMTP puts around it. */
+export function normalizeProviderMessageId(value: unknown): string | null {
+  const id = String(value ?? "").trim().replace(/^<|>$/g, "").trim();
+  return id ? id.slice(0, 255) : null;
+}
+
+export function newEmailBatchId(): string {
+  return crypto.randomUUID();
+}
+
+export function createTrackingToken(): string {
+  return crypto.randomBytes(24).toString("base64url");
+}
+
+export function emailTrackingBaseUrl(): string {
+  return (process.env.BACKEND_URL || "http://localhost:5000").replace(/\/+$/, "");
+}
+
+/** Key for click-link signatures. Kept apart from JWT_SECRET so a leaked link key can't forge sessions or the reverse. */
+export function emailTrackingSecret(): string | null {
+  return process.env.EMAIL_TRACKING_SECRET?.trim() || null;
+}
+
+export function signTrackedLink(secret: string, token: string, url: string): string {
+  return crypto.createHmac("sha256", secret).update(`${token}\n${url}`).digest("hex").slice(0, 32);
+}
+
+export function verifyTrackedLink(secret: string, token: string, url: string, signature: string): boolean {
+  const a = Buffer.from(signTrackedLink(secret, token, url));
+  const b = Buffer.from(String(signature || ""));
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/** Decodes the `u` parameter of a click redirect; only http(s) targets are allowed. */
+export function decodeTrackedLinkTarget(encoded: unknown): string | null {
+  if (typeof encoded !== "string" || !encoded) return null;
+  try {
+    const url = new URL(Buffer.from(encoded, "base64url").toString("utf8"));
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Routes every http(s) link through the click redirect and appends the open pixel. Links are signed so the redirect
+ * cannot be used to send people to arbitrary sites.
+ */
+export function addEmailTracking(html: string, token: string, options: { baseUrl: string; secret: string }): string {
+  const base = options.baseUrl.replace(/\/+$/, "");
+  const withLinks = String(html || "").replace(
+    /(<a\b[^>]*?\shref\s*=\s*)(["'])(https?:\/\/[^"']+)\2/gi,
+    (match, prefix: string, quote: string, href: string) => {
+      const target = href.replace(/&amp;/gi, "&");
+      if (target.startsWith(`${base}/api/email-events/`)) return match;
+      const encoded = Buffer.from(target, "utf8").toString("base64url");
+      const signature = signTrackedLink(options.secret, token, target);
+      const tracked = `${base}/api/email-events/click/${token}?u=${encoded}&amp;s=${signature}`;
+      return `${prefix}${quote}${tracked}${quote}`;
+    }
+  );
+  const pixel = `<img src="${base}/api/email-events/open/${token}.gif" width="1" height="1" alt="" style="display:block;border:0;width:1px;height:1px;" />`;
+  return /<\/body>/i.test(withLinks) ? withLinks.replace(/<\/body>/i, `${pixel}</body>`) : `${withLinks}${pixel}`;
+}
+
+function asRecord(value: unknown): Record<string, any> | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, any>) : null;
+}
+
+function toDetail(value: unknown): string | null {
+  const text = String(value ?? "").trim();
+  return text ? text.slice(0, MAX_DETAIL_CHARS) : null;
+}
+
+function buildEvent(
+  type: EmailProviderEvent["type"],
+  email: unknown,
+  messageId: unknown,
+  bounceType: EmailProviderEvent["bounceType"] = null,
+  detail: unknown = null
+): EmailProviderEvent | null {
+  const address = normalizeEmailAddress(String(email ?? ""));
+  if (!address.includes("@")) return null;
+  return {
+    type,
+    email: address,
+    messageId: normalizeProviderMessageId(messageId),
+    bounceType: type === "bounce" ? bounceType ?? "hard" : null,
+    detail: toDetail(detail),
+  };
+}
+
+// Amazon SES notification (directly or wrapped in an SNS "Notification")
+function parseSesEvent(body: Record<string, any>): Array<EmailProviderEvent | null> {
+  const kind = body.notificationType ?? body.eventType;
+  const messageId = body.mail?.messageId;
+  if (kind === "Bounce") {
+    const bounceType = body.bounce?.bounceType === "Permanent" ? "hard" : "soft";
+    const recipients: any[] = Array.isArray(body.bounce?.bouncedRecipients) ? body.bounce.bouncedRecipients : [];
+    return recipients.map((r) => buildEvent("bounce", r?.emailAddress, messageId, bounceType, r?.diagnosticCode ?? body.bounce?.bounceSubType));
+  }
+  if (kind === "Complaint") {
+    const recipients: any[] = Array.isArray(body.complaint?.complainedRecipients) ? body.complaint.complainedRecipients : [];
+    return recipients.map((r) => buildEvent("complaint", r?.emailAddress, messageId, null, body.complaint?.complaintFeedbackType));
+  }
+  if (kind === "Delivery") {
+    const recipients: any[] = Array.isArray(body.delivery?.recipients) ? body.delivery.recipients : [];
+    return recipients.map((email) => buildEvent("delivered", email, messageId));
+  }
+  return [];
+}
+
+function parseSingleProviderEvent(raw: unknown): Array<EmailProviderEvent | null> {
+  const body = asRecord(raw);
+  if (!body) return [];
+
+  if (body.Type === "Notification" && typeof body.Message === "string") {
+    try {
+      return parseSingleProviderEvent(JSON.parse(body.Message));
+    } catch {
+      return [];
+    }
+  }
+  if (body.notificationType || (body.eventType && body.mail)) {
+    return parseSesEvent(body);
+  }
+
+  // Mailgun
+  const mailgun = asRecord(body["event-data"]);
+  if (mailgun) {
+    const messageId = mailgun.message?.headers?.["message-id"];
+    const detail = mailgun["delivery-status"]?.description || mailgun["delivery-status"]?.message || mailgun.reason;
+    if (mailgun.event === "delivered") return [buildEvent("delivered", mailgun.recipient, messageId)];
+    if (mailgun.event === "failed") {
+      return [buildEvent("bounce", mailgun.recipient, messageId, mailgun.severity === "permanent" ? "hard" : "soft", detail)];
+    }
+    if (mailgun.event === "complained") return [buildEvent("complaint", mailgun.recipient, messageId)];
+    return [];
+  }
+
+  // Postmark
+  if (typeof body.RecordType === "string") {
+    const email = body.Email ?? body.Recipient;
+    if (body.RecordType === "Delivery") return [buildEvent("delivered", email, body.MessageID)];
+    if (body.RecordType === "Bounce") {
+      return [buildEvent("bounce", email, body.MessageID, body.Type === "HardBounce" ? "hard" : "soft", body.Description ?? body.Details)];
+    }
+    if (body.RecordType === "SpamComplaint") return [buildEvent("complaint", email, body.MessageID)];
+    return [];
+  }
+
+  // SendGrid (items of a JSON array) and the generic format: { type, email, messageId?, bounceType?, reason? }
+  const type = String(body.event ?? body.type ?? "").toLowerCase();
+  const email = body.email ?? body.recipient;
+  const messageId = body.messageId ?? body["smtp-id"] ?? body.sg_message_id;
+  const detail = body.reason ?? body.detail ?? body.response;
+  if (type === "delivered" || type === "delivery") return [buildEvent("delivered", email, messageId)];
+  if (type === "bounce" || type === "bounced") {
+    // SendGrid reports soft failures as type "blocked"; the generic format uses "hard" | "soft"
+    const bounceType = body.bounceType === "soft" || body.type === "blocked" ? "soft" : "hard";
+    return [buildEvent("bounce", email, messageId, bounceType, detail)];
+  }
+  if (type === "complaint" || type === "complained" || type === "spamreport") {
+    return [buildEvent("complaint", email, messageId, null, detail)];
+  }
+  return [];
+}
+
+/**
+ * Normalizes a provider webhook body into delivery events. Accepts Amazon SES (SNS notifications), SendGrid,
+ * Postmark, Mailgun and a generic `{ events: [{ type, email, messageId, bounceType }] }` shape; bounces without a
+ * bounce type are treated as hard bounces. Unknown payloads yield no events.
+ */
+export function parseEmailProviderEvents(body: unknown): EmailProviderEvent[] {
+  const items = Array.isArray(body) ? body : Array.isArray(asRecord(body)?.events) ? (body as any).events : [body];
+  return (items as unknown[])
+    .flatMap((item) => parseSingleProviderEvent(item))
+    .filter((event): event is EmailProviderEvent => event !== null);
+}
+
+/** Status a log moves to after a provider event; a bounce or complaint is never downgraded to delivered. */
+export function nextDeliveryStatus(current: EmailDeliveryStatus, event: EmailProviderEvent): EmailDeliveryStatus {
+  if (event.type === "complaint") return "complained";
+  if (event.type === "bounce") return current === "complained" ? current : "bounced";
+  return current === "sent" ? "delivered" : current;
+}
+
+export function shouldSuppress(event: EmailProviderEvent): boolean {
+  return event.type === "complaint" || (event.type === "bounce" && event.bounceType === "hard");
+}
+
+export async function loadSuppressedEmails(): Promise<Set<string>> {
+  const rows = await prisma.emailSuppression.findMany({ select: { email: true } });
+  return new Set(rows.map((row) => row.email));
+}
+
+export async function isEmailSuppressed(email: string): Promise<boolean> {
+  const row = await prisma.emailSuppression.findUnique({
+    where: { email: normalizeEmailAddress(email) },
+    select: { id: true },
+  });
+  return row !== null;
+}
+
+/** Never throws: a failed log write must not fail the send it describes. */
+export async function recordEmailLog(data: {
+  recipient: string;
+  subject: string;
+  context?: EmailDeliveryContext;
+  status: EmailDeliveryStatus;
+  providerMessageId?: string | null;
+  error?: string | null;
+  trackingToken?: string | null;
+}): Promise<void> {
+  try {
+    await prisma.emailLog.create({
+      data: {
+        recipient: normalizeEmailAddress(data.recipient).slice(0, 255),
+        subject: String(data.subject || "").slice(0, 500),
+        templateType: data.context?.templateType ?? "transactional",
+        clientId: data.context?.clientId ?? null,
+        reportId: data.context?.reportId ?? null,
+        batchId: data.context?.batchId ?? null,
+        status: data.status,
+        providerMessageId: normalizeProviderMessageId(data.providerMessageId),
+        error: toDetail(data.error),
+        trackingToken: data.trackingToken ?? null,
+      },
+    });
+  } catch (error) {
+    console.error("[Email] Failed to write email log:", error);
+  }
+}
+
+export async function applyEmailProviderEvent(event: EmailProviderEvent): Promise<{ matched: boolean; suppressed: boolean }> {
+  const log =
+    (event.messageId
+      ? await prisma.emailLog.findFirst({
+          where: { providerMessageId: event.messageId, recipient: event.email },
+          orderBy: { createdAt: "desc" },
+        })
+      : null) ??
+    (await prisma.emailLog.findFirst({
+      where: { recipient: event.email, createdAt: { gte: new Date(Date.now() - RECIPIENT_MATCH_WINDOW_MS) } },
+      orderBy: { createdAt: "desc" },
+    }));
+
+  if (log) {
+    const status = nextDeliveryStatus(log.status, event);
+    await prisma.emailLog.update({
+      where: { id: log.id },
+      data: {
+        status,
+        ...(event.type === "bounce" ? { bounceType: event.bounceType, error: event.detail } : {}),
+      },
+    });
+  }
+
+  const suppressed = shouldSuppress(event);
+  if (suppressed) {
+    const reason = event.type === "complaint" ? "complaint" : "hard_bounce";
+    await prisma.emailSuppression.upsert({
+      where: { email: event.email },
+      create: { email: event.email, reason, detail: event.detail },
+      update: { reason, detail: event.detail },
+    });
+  }
+  return { matched: Boolean(log), suppressed };
+}
+
+export async function recordEmailOpen(token: string): Promise<void> {
+  const now = new Date();
+  await prisma.emailLog.updateMany({ where: { trackingToken: token, firstOpenedAt: null }, data: { firstOpenedAt: now } });
+  await prisma.emailLog.updateMany({ where: { trackingToken: token }, data: { openCount: { increment: 1 } } });
+}
+
+/** A click also counts as an open: the pixel is often blocked by mail clients. */
+export async function recordEmailClick(token: string): Promise<void> {
+  const now = new Date();
+  await prisma.emailLog.updateMany({ where: { trackingToken: token, firstOpenedAt: null }, data: { firstOpenedAt: now } });
+  await prisma.emailLog.updateMany({
+    where: { trackingToken: token },
+    data: { clickCount: { increment: 1 }, lastClickedAt: now },
+  });
+}
+
+export type EmailBatchSummary = {
+  batchId: string;
+  templateType: string;
+  subject: string;
+  reportId: string | null;
+  sentAt: Date;
+  recipients: number;
+  delivered: number;
+  failed: number;
+  bounced: number;
+  complained: number;
+  opened: number;
+  clicked: number;
+  tracked: boolean;
+};
+
+type SummarizableLog = {
+  id: string;
+  createdAt: Date;
+  subject: string;
+  templateType: string;
+  reportId: string | null;
+  batchId: string | null;
+  status: EmailDeliveryStatus;
+  trackingToken: string | null;
+  firstOpenedAt: Date | null;
+  clickCount: number;
+};
+
+/** Per-send stats (one row per batch, newest first). Logs without a batch count as a send of their own. */
+export function summarizeEmailBatches(logs: SummarizableLog[]): EmailBatchSummary[] {
+  const batches = new Map<string, EmailBatchSummary>();
+  for (const log of logs) {
+    const key = log.batchId ?? log.id;
+    let batch = batches.get(key);
+    if (!batch) {
+      batch = {
+        batchId: key,
+        templateType: log.templateType,
+        subject: log.subject,
+        reportId: log.reportId,
+        sentAt: log.createdAt,
+        recipients: 0,
+        delivered: 0,
+        failed: 0,
+        bounced: 0,
+        complained: 0,
+        opened: 0,
+        clicked: 0,
+        tracked: false,
+      };
+      batches.set(key, batch);
+    }
+    if (log.createdAt < batch.sentAt) batch.sentAt = log.createdAt;
+    batch.recipients += 1;
+    if (log.status === "delivered") batch.delivered += 1;
+    if (log.status === "failed") batch.failed += 1;
+    if (log.status === "bounced") batch.bounced += 1;
+    if (log.status === "complained") batch.complained += 1;
+    if (log.firstOpenedAt) batch.opened += 1;
+    if (log.clickCount > 0) batch.clicked += 1;
+    if (log.trackingToken) batch.tracked = true;
+  }
+  return [...batches.values()].sort((a, b) => b.sentAt.getTime() - a.sentAt.getTime());
+}
@@ -2,6 +2,7 @@ import { google } from 'googleapis';
 import { BetaAnalyticsDataClient } from '@google-analytics/data';
 import { GoogleAuth } from 'google-auth-library';
 import { prisma } from './prisma.js';
+import { decryptSecret, encryptSecret } from './secretEncryption.js';
 
 const GA4_REVOKED_TOKEN_TTL_MS = 10 * 60 * 1000; // 10 minutes
 const ga4RevokedClientCache = new Map<string, number>();
@@ -186,6 +187,7 @@ export async function getAnalyticsClient(clientId: string) {
   if (!client.ga4RefreshToken) {
     throw new Error('GA4 not connected for this client');
   }
+  const refreshToken = decryptSecret(client.ga4RefreshToken)!;
 
   // IMPORTANT:
   // We don't store token expiry in DB, so relying on getAccessToken() can leave
@@ -193,10 +195,10 @@ export async function getAnalyticsClient(clientId: string) {
   // keep GA4 requests working reliably.
   let accessToken: string;
   try {
-    accessToken = await refreshAccessToken(client.ga4RefreshToken);
+    accessToken = await refreshAccessToken(refreshToken);
     await prisma.client.update({
       where: { id: clientId },
-      data: { ga4AccessToken: accessToken },
+      data: { ga4AccessToken: encryptSecret(accessToken) },
     });
   } catch (error: any) {
     const invalidGrant = isGa4InvalidGrant(error);
@@ -237,7 +239,7 @@ export async function getAnalyticsClient(clientId: string) {
   const oauth2Client = getOAuth2Client();
   oauth2Client.setCredentials({
     access_token: accessToken,
-    refresh_token: client.ga4RefreshToken,
+    refresh_token: refreshToken,
   });
 
   // Create GoogleAuth instance with OAuth2Client
@@ -1453,17 +1455,18 @@ async function getAnalyticsAdminClient(clientId: string, forceRefresh: boolean =
   if (!client.ga4RefreshToken) {
     throw new Error('GA4 not connected for this client');
   }
+  const refreshToken = decryptSecret(client.ga4RefreshToken)!;
 
-  let accessToken = client.ga4AccessToken;
+  let accessToken = decryptSecret(client.ga4AccessToken);
 
   // Refresh token if needed or if forceRefresh is true (to get latest permissions)
   if (forceRefresh || !accessToken) {
     try {
-      accessToken = await refreshAccessToken(client.ga4RefreshToken);
+      accessToken = await refreshAccessToken(refreshToken);
       // Update stored access token
       await prisma.client.update({
         where: { id: clientId },
-        data: { ga4AccessToken: accessToken },
+        data: { ga4AccessToken: encryptSecret(accessToken) },
       });
     } catch (error: any) {
       const invalidGrant = isGa4InvalidGrant(error);
@@ -1504,7 +1507,7 @@ async function getAnalyticsAdminClient(clientId: string, forceRefresh: boolean =
   const oauth2Client = getOAuth2Client();
   oauth2Client.setCredentials({
     access_token: accessToken,
-    refresh_token: client.ga4RefreshToken,
+    refresh_token: refreshToken,
   });
 
   return google.analyticsadmin({ version: 'v1alpha', auth: oauth2Client });
@@ -1,5 +1,6 @@
 import { google } from 'googleapis';
 import { prisma } from './prisma.js';
+import { decryptSecret, encryptSecret } from './secretEncryption.js';
 
 const GOOGLE_ADS_REVOKED_TOKEN_TTL_MS = 10 * 60 * 1000; // 10 minutes
 const googleAdsRevokedClientCache = new Map<string, number>();
@@ -191,16 +192,17 @@ export async function getGoogleAdsClient(clientId: string) {
   if (!client?.googleAdsRefreshToken) {
     throw new Error('Google Ads is not connected for this client');
   }
-
-  let accessToken = client.googleAdsAccessToken;
+  const refreshToken = decryptSecret(client.googleAdsRefreshToken)!;
+  const storedAccessToken = decryptSecret(client.googleAdsAccessToken);
+  let accessToken = storedAccessToken;
 
   // Refresh token if needed
   try {
-    accessToken = await refreshAccessToken(client.googleAdsRefreshToken);
-    if (accessToken !== client.googleAdsAccessToken) {
+    accessToken = await refreshAccessToken(refreshToken);
+    if (accessToken !== storedAccessToken) {
       await prisma.client.update({
         where: { id: clientId },
-        data: { googleAdsAccessToken: accessToken },
+        data: { googleAdsAccessToken: encryptSecret(accessToken) },
       });
     }
   } catch (error: any) {
@@ -242,7 +244,7 @@ export async function getGoogleAdsClient(clientId: string) {
   const oauth2Client = getOAuth2Client();
   oauth2Client.setCredentials({
     access_token: accessToken,
-    refresh_token: client.googleAdsRefreshToken,
+    refresh_token: refreshToken,
   });
 
   return {
@@ -0,0 +1,72 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  computeNextRunAt,
+  computeRetryDelayMs,
+  planAfterFailure,
+  registerJob,
+  resolveJobTrigger,
+} from "./jobScheduler.js";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+test("computeRetryDelayMs doubles per attempt and caps at the max delay", () => {
+  assert.equal(computeRetryDelayMs(1, MINUTE, HOUR), MINUTE);
+  assert.equal(computeRetryDelayMs(2, MINUTE, HOUR), 2 * MINUTE);
+  assert.equal(computeRetryDelayMs(4, MINUTE, HOUR), 8 * MINUTE);
+  assert.equal(computeRetryDelayMs(10, MINUTE, HOUR), HOUR);
+  assert.equal(computeRetryDelayMs(0, MINUTE, HOUR), MINUTE);
+});
+
+test("computeNextRunAt keeps the schedule anchored and skips missed slots", () => {
+  const scheduledFor = new Date("2026-03-10T10:00:00.000Z");
+
+  // Run took 5 minutes: next slot is still on the hour.
+  assert.equal(
+    computeNextRunAt(scheduledFor, HOUR, new Date("2026-03-10T10:05:00.000Z")).toISOString(),
+    "2026-03-10T11:00:00.000Z"
+  );
+  // All instances were down for a few hours: jump to the next future slot instead of replaying.
+  assert.equal(
+    computeNextRunAt(scheduledFor, HOUR, new Date("2026-03-10T13:30:00.000Z")).toISOString(),
+    "2026-03-10T14:00:00.000Z"
+  );
+  // Manual run ahead of schedule leaves the regular slot untouched.
+  assert.equal(
+    computeNextRunAt(scheduledFor, HOUR, new Date("2026-03-10T09:15:00.000Z")).toISOString(),
+    "2026-03-10T10:00:00.000Z"
+  );
+});
+
+test("planAfterFailure retries with backoff, then falls back to the regular interval", () => {
+  const scheduledFor = new Date("2026-03-10T10:00:00.000Z");
+  const now = new Date("2026-03-10T10:02:00.000Z");
+  const base = { maxRetries: 2, retryBaseDelayMs: MINUTE, intervalMs: HOUR, scheduledFor, now };
+
+  const first = planAfterFailure({ ...base, attempt: 1 });
+  assert.equal(first.attempt, 1);
+  assert.equal(first.nextRunAt.toISOString(), "2026-03-10T10:03:00.000Z");
+
+  const second = planAfterFailure({ ...base, attempt: 2 });
+  assert.equal(second.attempt, 2);
+  assert.equal(second.nextRunAt.toISOString(), "2026-03-10T10:04:00.000Z");
+
+  const exhausted = planAfterFailure({ ...base, attempt: 3 });
+  assert.equal(exhausted.attempt, 0);
+  assert.equal(exhausted.nextRunAt.toISOString(), "2026-03-10T11:00:00.000Z");
+});
+
+test("resolveJobTrigger prefers manual requests over pending retries", () => {
+  assert.equal(resolveJobTrigger({ runRequestedAt: null, attempt: 0 }), "schedule");
+  assert.equal(resolveJobTrigger({ runRequestedAt: null, attempt: 2 }), "retry");
+  assert.equal(resolveJobTrigger({ runRequestedAt: new Date(), attempt: 2 }), "manual");
+});
+
+test("registerJob rejects invalid names, duplicates and sub-minute intervals", () => {
+  const run = async () => undefined;
+  registerJob({ name: "test-job", label: "Test", intervalMs: HOUR, run });
+  assert.throws(() => registerJob({ name: "test-job", label: "Test", intervalMs: HOUR, run }), /already registered/);
+  assert.throws(() => registerJob({ name: "Bad Name", label: "Bad", intervalMs: HOUR, run }), /Invalid job name/);
+  assert.throws(() => registerJob({ name: "too-fast", label: "Fast", intervalMs: 1000, run }), /once per minute/);
+});
@@ -0,0 +1,290 @@
+/**
+ * Database-backed job scheduler.
+ * Background work (report sending, GA4 refresh, backlink sync, ...) registers here instead of using setInterval.
+ * Every API instance polls the `scheduled_jobs` table; a job only runs on the instance that wins its lease,
+ * so running several instances never double-sends reports or double-spends DataForSEO credits.
+ * Leases are extended while a job runs; if an instance dies mid-run the lease expires and another instance
+ * picks the job up again as a retry.
+ */
+import { hostname } from "os";
+import { randomBytes } from "crypto";
+import { prisma } from "./prisma.js";
+
+const MINUTE_MS = 60 * 1000;
+const POLL_INTERVAL_MS = 15 * 1000;
+const DEFAULT_LEASE_MS = 5 * MINUTE_MS;
+const DEFAULT_RETRY_BASE_DELAY_MS = MINUTE_MS;
+const JOB_RUN_RETENTION_DAYS = 30;
+const MAX_ERROR_LENGTH = 4000;
+
+export type JobDefinition = {
+  /** Stable identifier stored in the database; never rename without a migration. */
+  name: string;
+  label: string;
+  description?: string;
+  intervalMs: number;
+  /** Delay before the very first run when the job has never been scheduled (default: run immediately). */
+  initialDelayMs?: number;
+  /** How long a run may go without a heartbeat before another instance may take it over. */
+  leaseMs?: number;
+  /** Failed runs are retried with exponential backoff this many times before waiting for the next interval. */
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  run: () => Promise<unknown>;
+};
+
+export type JobTrigger = "schedule" | "retry" | "manual";
+
+const registry = new Map<string, JobDefinition>();
+const runningLocally = new Set<string>();
+const workerId = `${hostname()}:${process.pid}:${randomBytes(3).toString("hex")}`;
+let pollTimer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+export function registerJob(definition: JobDefinition): void {
+  if (!definition.name || !/^[a-z0-9-]+$/.test(definition.name)) {
+    throw new Error(`Invalid job name "${definition.name}" (use lowercase letters, digits and dashes)`);
+  }
+  if (registry.has(definition.name)) {
+    throw new Error(`Job "${definition.name}" is already registered`);
+  }
+  if (!Number.isFinite(definition.intervalMs) || definition.intervalMs < MINUTE_MS) {
+    throw new Error(`Job "${definition.name}" must run at most once per minute`);
+  }
+  registry.set(definition.name, definition);
+}
+
+export function getRegisteredJobs(): JobDefinition[] {
+  return [...registry.values()];
+}
+
+export function getRegisteredJob(name: string): JobDefinition | undefined {
+  return registry.get(name);
+}
+
+/** Exponential backoff for the n-th failed attempt (1-based), capped at `maxDelayMs`. */
+export function computeRetryDelayMs(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const exponent = Math.max(0, Math.floor(attempt) - 1);
+  const delay = baseDelayMs * Math.pow(2, Math.min(exponent, 20));
+  return Math.max(0, Math.min(delay, maxDelayMs));
+}
+
+/**
+ * Next regular run, anchored to the previous schedule so runs don't drift by their own duration.
+ * Missed slots (e.g. while every instance was down) are skipped rather than replayed.
+ */
+export function computeNextRunAt(scheduledFor: Date, intervalMs: number, now: Date): Date {
+  const anchor = scheduledFor.getTime();
+  if (anchor > now.getTime()) return new Date(anchor);
+  const missed = Math.floor((now.getTime() - anchor) / intervalMs) + 1;
+  return new Date(anchor + missed * intervalMs);
+}
+
+/** Decide how a claimed job is being run, from the row state at claim time. */
+export function resolveJobTrigger(job: { runRequestedAt: Date | null; attempt: number }): JobTrigger {
+  if (job.runRequestedAt) return "manual";
+  if (job.attempt > 0) return "retry";
+  return "schedule";
+}
+
+/** Where the job goes after a failed attempt: backoff retry, or back onto the regular interval. */
+export function planAfterFailure(params: {
+  attempt: number;
+  maxRetries: number;
+  retryBaseDelayMs: number;
+  intervalMs: number;
+  scheduledFor: Date;
+  now: Date;
+}): { nextRunAt: Date; attempt: number } {
+  if (params.attempt <= params.maxRetries) {
+    const delay = computeRetryDelayMs(params.attempt, params.retryBaseDelayMs, params.intervalMs);
+    return { nextRunAt: new Date(params.now.getTime() + delay), attempt: params.attempt };
+  }
+  return { nextRunAt: computeNextRunAt(params.scheduledFor, params.intervalMs, params.now), attempt: 0 };
+}
+
+function formatJobError(err: unknown): string {
+  const message = err instanceof Error ? err.stack || err.message : String(err);
+  return message.slice(0, MAX_ERROR_LENGTH);
+}
+
+async function ensureJobRows(): Promise<void> {
+  const now = Date.now();
+  for (const def of registry.values()) {
+    await prisma.scheduledJob.upsert({
+      where: { name: def.name },
+      update: { intervalMs: def.intervalMs },
+      create: {
+        name: def.name,
+        intervalMs: def.intervalMs,
+        nextRunAt: new Date(now + (def.initialDelayMs ?? 0)),
+      },
+    });
+  }
+}
+
+/** Atomically take the lease on a due job. Returns the row as it was before the claim, or null if another instance won. */
+async function claimJob(name: string, leaseMs: number) {
+  const now = new Date();
+  const before = await prisma.scheduledJob.findUnique({ where: { name } });
+  if (!before) return null;
+
+  const claimed = await prisma.scheduledJob.updateMany({
+    where: {
+      name,
+      updatedAt: before.updatedAt,
+      AND: [
+        { OR: [{ nextRunAt: { lte: now } }, { runRequestedAt: { not: null } }] },
+        { OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }] },
+      ],
+    },
+    data: { lockedBy: workerId, lockedUntil: new Date(now.getTime() + leaseMs) },
+  });
+  return claimed.count === 1 ? before : null;
+}
+
+async function executeJob(def: JobDefinition, job: NonNullable<Awaited<ReturnType<typeof claimJob>>>): Promise<void> {
+  const leaseMs = def.leaseMs ?? DEFAULT_LEASE_MS;
+  const startedAt = new Date();
+
+  // A run still marked "running" means the previous holder's lease expired before it finished.
+  const abandoned = await prisma.jobRun.updateMany({
+    where: { jobName: def.name, status: "running" },
+    data: { status: "abandoned", finishedAt: startedAt, error: "Lease expired before the run finished" },
+  });
+  // The abandoned run counts as a failed attempt of its own.
+  const takeover = abandoned.count > 0 && !job.runRequestedAt;
+  const attempt = job.attempt + (takeover ? 2 : 1);
+  const trigger: JobTrigger = takeover ? "retry" : resolveJobTrigger(job);
+
+  const run = await prisma.jobRun.create({
+    data: { jobName: def.name, trigger, attempt, workerId, status: "running", startedAt },
+  });
+  await prisma.scheduledJob.update({
+    where: { name: def.name },
+    data: { lastRunAt: startedAt, lastStatus: "running", runRequestedAt: null },
+  });
+
+  const heartbeat = setInterval(() => {
+    prisma.scheduledJob
+      .updateMany({
+        where: { name: def.name, lockedBy: workerId },
+        data: { lockedUntil: new Date(Date.now() + leaseMs) },
+      })
+      .catch((err) => console.warn(`[Jobs] Failed to extend lease for ${def.name}:`, err?.message || err));
+  }, Math.max(5000, Math.floor(leaseMs / 3)));
+  heartbeat.unref();
+
+  let error: unknown = null;
+  try {
+    await def.run();
+  } catch (err) {
+    error = err;
+  } finally {
+    clearInterval(heartbeat);
+  }
+
+  const finishedAt = new Date();
+  const durationMs = finishedAt.getTime() - startedAt.getTime();
+  const status = error ? "failed" : "success";
+  const errorText = error ? formatJobError(error) : null;
+
+  const plan = error
+    ? planAfterFailure({
+        attempt,
+        maxRetries: def.maxRetries ?? 0,
+        retryBaseDelayMs: def.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS,
+        intervalMs: def.intervalMs,
+        scheduledFor: job.nextRunAt,
+        now: finishedAt,
+      })
+    : { nextRunAt: computeNextRunAt(job.nextRunAt, def.intervalMs, finishedAt), attempt: 0 };
+
+  if (error) {
+    console.error(`[Jobs] ${def.name} failed (attempt ${attempt}):`, error);
+  }
+
+  await prisma.jobRun.update({
+    where: { id: run.id },
+    data: { status, finishedAt, durationMs, error: errorText },
+  });
+  await prisma.scheduledJob.updateMany({
+    where: { name: def.name, lockedBy: workerId },
+    data: {
+      lockedBy: null,
+      lockedUntil: null,
+      nextRunAt: plan.nextRunAt,
+      attempt: plan.attempt,
+      lastFinishedAt: finishedAt,
+      lastDurationMs: durationMs,
+      lastStatus: status,
+      lastError: errorText,
+      consecutiveFailures: error ? { increment: 1 } : 0,
+    },
+  });
+  await prisma.jobRun.deleteMany({
+    where: {
+      jobName: def.name,
+      startedAt: { lt: new Date(finishedAt.getTime() - JOB_RUN_RETENTION_DAYS * 24 * 60 * MINUTE_MS) },
+    },
+  });
+}
+
+async function tick(): Promise<void> {
+  if (ticking) return;
+  ticking = true;
+  try {
+    const now = new Date();
+    const due = await prisma.scheduledJob.findMany({
+      where: {
+        name: { in: [...registry.keys()] },
+        AND: [
+          { OR: [{ nextRunAt: { lte: now } }, { runRequestedAt: { not: null } }] },
+          { OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }] },
+        ],
+      },
+      select: { name: true },
+    });
+
+    for (const { name } of due) {
+      const def = registry.get(name);
+      if (!def || runningLocally.has(name)) continue;
+      const job = await claimJob(name, def.leaseMs ?? DEFAULT_LEASE_MS);
+      if (!job) continue;
+
+      runningLocally.add(name);
+      executeJob(def, job)
+        .catch((err) => console.error(`[Jobs] Failed to record run for ${name}:`, err))
+        .finally(() => runningLocally.delete(name));
+    }
+  } catch (err) {
+    console.error("[Jobs] Scheduler tick failed:", err);
+  } finally {
+    ticking = false;
+  }
+}
+
+export async function startJobScheduler(): Promise<void> {
+  if (pollTimer) return;
+  await ensureJobRows();
+  pollTimer = setInterval(() => {
+    tick().catch(console.error);
+  }, POLL_INTERVAL_MS);
+  tick().catch(console.error);
+  console.log(`Job scheduler started (${registry.size} jobs, worker ${workerId})`);
+}
+
+/**
+ * Ask for a run as soon as possible without moving the regular schedule.
+ * Returns false when the job is already running on some instance.
+ */
+export async function requestJobRun(name: string): Promise<boolean> {
+  const now = new Date();
+  const updated = await prisma.scheduledJob.updateMany({
+    where: { name, OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }] },
+    data: { runRequestedAt: now },
+  });
+  if (updated.count === 0) return false;
+  if (pollTimer) tick().catch(console.error);
+  return true;
+}
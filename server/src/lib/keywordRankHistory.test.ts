@@ -0,0 +1,60 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildDailyRankSeries,
+  clampHistoryDays,
+  normalizeKeywordKey,
+  summarizeThresholdRun,
+} from "./keywordRankHistory.js";
+
+const day = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+
+test("normalizeKeywordKey matches dashboard keyword matching", () => {
+  assert.equal(normalizeKeywordKey("  Emergency_Plumber   Austin "), "emergency plumber austin");
+  assert.equal(normalizeKeywordKey(null), "");
+});
+
+test("clampHistoryDays defaults to 90 and caps at 365", () => {
+  assert.equal(clampHistoryDays(undefined), 90);
+  assert.equal(clampHistoryDays("abc"), 90);
+  assert.equal(clampHistoryDays("30"), 30);
+  assert.equal(clampHistoryDays(1000), 365);
+});
+
+test("buildDailyRankSeries carries the last observation forward across gaps", () => {
+  const series = buildDailyRankSeries(
+    [
+      { recordedOn: day("2026-03-01"), position: 12 },
+      { recordedOn: day("2026-03-03"), position: 4 },
+    ],
+    new Date("2026-03-05T15:00:00.000Z")
+  );
+  assert.deepEqual(
+    series.map((p) => p.position),
+    [12, 12, 4, 4, 4]
+  );
+  assert.equal(series[0].day.toISOString(), "2026-03-01T00:00:00.000Z");
+  assert.deepEqual(buildDailyRankSeries([], new Date()), []);
+});
+
+test("summarizeThresholdRun counts the current run and the below streak before it", () => {
+  const series = buildDailyRankSeries(
+    [
+      { recordedOn: day("2026-03-01"), position: 2 },
+      { recordedOn: day("2026-03-02"), position: null },
+      { recordedOn: day("2026-03-05"), position: 3 },
+    ],
+    day("2026-03-08")
+  );
+  const top3 = summarizeThresholdRun(series, 3);
+  assert.equal(top3.isAbove, true);
+  assert.equal(top3.aboveStreak, 4);
+  assert.equal(top3.aboveSince?.toISOString(), "2026-03-05T00:00:00.000Z");
+  assert.equal(top3.belowStreakBeforeAbove, 3);
+
+  const position1 = summarizeThresholdRun(series, 1);
+  assert.equal(position1.isAbove, false);
+  assert.equal(position1.aboveStreak, 0);
+  assert.equal(position1.aboveSince, null);
+  assert.equal(position1.belowStreakBeforeAbove, 0);
+});
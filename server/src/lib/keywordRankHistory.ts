@@ -0,0 +1,246 @@
+/**
+ * Daily keyword rank history.
+ * Every rank refresh (tracked keywords and target keywords) writes one observation per keyword per day,
+ * so dashboards can chart movement over time and campaign wins can look at how long a rank has held.
+ */
+import { prisma } from "./prisma.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_RANK_HISTORY_DAYS = 90;
+export const MAX_RANK_HISTORY_DAYS = 365;
+
+export type RankObservation = {
+  recordedOn: Date;
+  position: number | null;
+};
+
+export type DailyRankPoint = {
+  day: Date;
+  position: number | null;
+};
+
+export type ThresholdRun = {
+  isAbove: boolean;
+  /** Consecutive days (ending today) at or better than the threshold. */
+  aboveStreak: number;
+  /** First day of the current above-threshold run. */
+  aboveSince: Date | null;
+  /** Consecutive below-threshold days immediately before the current above run. */
+  belowStreakBeforeAbove: number;
+};
+
+export type KeywordRankHistoryPoint = {
+  date: string;
+  position: number | null;
+  rankingUrl: string | null;
+  serpFeatures: string[];
+  locationName: string | null;
+};
+
+export function normalizeKeywordKey(value: unknown): string {
+  return String(value || "")
+    .trim()
+    .toLowerCase()
+    .replace(/_/g, " ")
+    .replace(/\s+/g, " ")
+    .slice(0, 255);
+}
+
+export function toUtcDay(d: Date): Date {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), 0, 0, 0, 0));
+}
+
+export function formatUtcDay(d: Date): string {
+  return toUtcDay(d).toISOString().slice(0, 10);
+}
+
+export function clampHistoryDays(value: unknown): number {
+  const n = Math.floor(Number(value));
+  if (!Number.isFinite(n) || n <= 0) return DEFAULT_RANK_HISTORY_DAYS;
+  return Math.min(MAX_RANK_HISTORY_DAYS, n);
+}
+
+function normalizePosition(value: unknown): number | null {
+  const n = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(n) || n <= 0) return null;
+  return Math.round(n);
+}
+
+function parseSerpFeatures(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((v): v is string => typeof v === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Expand sparse observations into one point per UTC day from the first observation through `until`.
+ * Days without a refresh carry the last known position forward (same as reading `currentPosition` daily).
+ */
+export function buildDailyRankSeries(observations: RankObservation[], until: Date): DailyRankPoint[] {
+  if (observations.length === 0) return [];
+  const sorted = [...observations].sort((a, b) => a.recordedOn.getTime() - b.recordedOn.getTime());
+  const byDay = new Map<number, number | null>();
+  for (const obs of sorted) {
+    byDay.set(toUtcDay(obs.recordedOn).getTime(), normalizePosition(obs.position));
+  }
+
+  const start = toUtcDay(sorted[0].recordedOn).getTime();
+  const end = toUtcDay(until).getTime();
+  const series: DailyRankPoint[] = [];
+  let last: number | null = null;
+  for (let t = start; t <= end; t += DAY_MS) {
+    if (byDay.has(t)) last = byDay.get(t) ?? null;
+    series.push({ day: new Date(t), position: last });
+  }
+  return series;
+}
+
+/** Summarize the current run of a daily series against a "position <= maxPosition" threshold. */
+export function summarizeThresholdRun(series: DailyRankPoint[], maxPosition: number): ThresholdRun {
+  const isAboveAt = (p: DailyRankPoint) => p.position !== null && p.position <= maxPosition;
+
+  let i = series.length - 1;
+  let aboveStreak = 0;
+  while (i >= 0 && isAboveAt(series[i])) {
+    aboveStreak++;
+    i--;
+  }
+
+  let belowStreakBeforeAbove = 0;
+  if (aboveStreak > 0) {
+    while (i >= 0 && !isAboveAt(series[i])) {
+      belowStreakBeforeAbove++;
+      i--;
+    }
+  }
+
+  return {
+    isAbove: aboveStreak > 0,
+    aboveStreak,
+    aboveSince: aboveStreak > 0 ? series[series.length - aboveStreak].day : null,
+    belowStreakBeforeAbove,
+  };
+}
+
+/**
+ * Upsert today's observation for a keyword. Failures are logged and swallowed:
+ * history must never break the rank refresh that produced it.
+ */
+export async function recordKeywordRankObservation(input: {
+  clientId: string;
+  keyword: string;
+  keywordId?: string | null;
+  position: number | null | undefined;
+  rankingUrl?: string | null;
+  serpFeatures?: unknown;
+  locationName?: string | null;
+  observedAt?: Date;
+}): Promise<void> {
+  const keywordKey = normalizeKeywordKey(input.keyword);
+  if (!input.clientId || !keywordKey) return;
+
+  try {
+    let keywordId = input.keywordId ?? null;
+    if (!keywordId) {
+      const tracked = await prisma.keyword.findUnique({
+        where: { clientId_keyword: { clientId: input.clientId, keyword: input.keyword } },
+        select: { id: true },
+      });
+      keywordId = tracked?.id ?? null;
+    }
+
+    const serpFeatures = Array.isArray(input.serpFeatures)
+      ? JSON.stringify(input.serpFeatures.filter((v) => typeof v === "string"))
+      : typeof input.serpFeatures === "string"
+        ? input.serpFeatures
+        : null;
+    const data = {
+      keywordId,
+      keyword: String(input.keyword).trim().slice(0, 255),
+      position: normalizePosition(input.position),
+      rankingUrl: input.rankingUrl ?? null,
+      serpFeatures,
+      locationName: input.locationName ?? null,
+    };
+    const recordedOn = toUtcDay(input.observedAt ?? new Date());
+
+    await prisma.keywordRankHistory.upsert({
+      where: {
+        clientId_keywordKey_recordedOn: { clientId: input.clientId, keywordKey, recordedOn },
+      },
+      update: data,
+      create: { ...data, clientId: input.clientId, keywordKey, recordedOn },
+    });
+  } catch (err: any) {
+    console.warn(`[Rank History] Failed to record "${input.keyword}" for client ${input.clientId}:`, err?.message || err);
+  }
+}
+
+export async function getKeywordRankHistory(params: {
+  clientId: string;
+  keyword: string;
+  days?: number;
+}): Promise<KeywordRankHistoryPoint[]> {
+  const days = clampHistoryDays(params.days);
+  const since = toUtcDay(new Date(Date.now() - (days - 1) * DAY_MS));
+  const rows = await prisma.keywordRankHistory.findMany({
+    where: {
+      clientId: params.clientId,
+      keywordKey: normalizeKeywordKey(params.keyword),
+      recordedOn: { gte: since },
+    },
+    orderBy: { recordedOn: "asc" },
+    select: { recordedOn: true, position: true, rankingUrl: true, serpFeatures: true, locationName: true },
+  });
+  return rows.map((r) => ({
+    date: formatUtcDay(r.recordedOn),
+    position: r.position ?? null,
+    rankingUrl: r.rankingUrl ?? null,
+    serpFeatures: parseSerpFeatures(r.serpFeatures),
+    locationName: r.locationName ?? null,
+  }));
+}
+
+/** Compact per-keyword series for sparklines, keyed by normalized keyword text. */
+export async function getClientRankHistorySeries(params: {
+  clientId: string;
+  days?: number;
+}): Promise<Record<string, Array<{ date: string; position: number | null }>>> {
+  const days = clampHistoryDays(params.days);
+  const since = toUtcDay(new Date(Date.now() - (days - 1) * DAY_MS));
+  const rows = await prisma.keywordRankHistory.findMany({
+    where: { clientId: params.clientId, recordedOn: { gte: since } },
+    orderBy: { recordedOn: "asc" },
+    select: { keywordKey: true, recordedOn: true, position: true },
+  });
+
+  const series: Record<string, Array<{ date: string; position: number | null }>> = {};
+  for (const r of rows) {
+    (series[r.keywordKey] ??= []).push({ date: formatUtcDay(r.recordedOn), position: r.position ?? null });
+  }
+  return series;
+}
+
+/** Raw observations for a client since `since`, grouped by normalized keyword text. */
+export async function getRankObservationsByKeywordKey(params: {
+  clientId: string;
+  since: Date;
+}): Promise<Map<string, RankObservation[]>> {
+  const rows = await prisma.keywordRankHistory.findMany({
+    where: { clientId: params.clientId, recordedOn: { gte: toUtcDay(params.since) } },
+    orderBy: { recordedOn: "asc" },
+    select: { keywordKey: true, recordedOn: true, position: true },
+  });
+
+  const byKeyword = new Map<string, RankObservation[]>();
+  for (const r of rows) {
+    const list = byKeyword.get(r.keywordKey) ?? [];
+    list.push({ recordedOn: r.recordedOn, position: r.position ?? null });
+    byKeyword.set(r.keywordKey, list);
+  }
+  return byKeyword;
+}
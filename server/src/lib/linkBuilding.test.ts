@@ -0,0 +1,38 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { linkMatchesProspect, verifyProspectLink } from "./linkBuilding.js";
+import type { SyncedBacklink } from "./backlinkAlerts.js";
+
+const link = (sourceUrl: string, overrides: Partial<SyncedBacklink> = {}): SyncedBacklink => ({
+  sourceUrl,
+  targetUrl: "https://client.com/services",
+  domainRating: 55,
+  isFollow: true,
+  isLost: false,
+  ...overrides,
+});
+
+test("linkMatchesProspect matches the exact page when known, otherwise any page on the domain or its subdomains", () => {
+  const byPage = { domain: "blog.com", linkUrl: "https://blog.com/best-plumbers/", targetUrl: null };
+  assert.equal(linkMatchesProspect(byPage, link("http://www.blog.com/best-plumbers")), true);
+  assert.equal(linkMatchesProspect(byPage, link("https://blog.com/other-post")), false);
+
+  const byDomain = { domain: "blog.com", linkUrl: null, targetUrl: "https://client.com/services/" };
+  assert.equal(linkMatchesProspect(byDomain, link("https://news.blog.com/post")), true);
+  assert.equal(linkMatchesProspect(byDomain, link("https://notblog.com/post")), false);
+  assert.equal(linkMatchesProspect(byDomain, link("https://blog.com/post", { targetUrl: "https://client.com/" })), false);
+});
+
+test("verifyProspectLink prefers a live followed match and reports lost or missing links", () => {
+  const prospect = { domain: "blog.com", linkUrl: null, targetUrl: null };
+  const verified = verifyProspectLink(prospect, [
+    link("https://blog.com/a", { isLost: true }),
+    link("https://blog.com/b", { isFollow: false }),
+    link("https://blog.com/c"),
+  ]);
+  assert.equal(verified.status, "VERIFIED");
+  assert.equal(verified.link?.sourceUrl, "https://blog.com/c");
+
+  assert.equal(verifyProspectLink(prospect, [link("https://blog.com/a", { isLost: true })]).status, "LOST");
+  assert.deepEqual(verifyProspectLink(prospect, [link("https://other.com/a")]), { status: "NOT_FOUND", link: null });
+});
@@ -0,0 +1,93 @@
+/**
+ * Link-building pipeline: outreach prospects per client move prospect -> contacted -> negotiating -> live. Links marked
+ * live are checked against every backlink sync: found live = verified, found only as lost = lost, absent = not found.
+ */
+import { prisma } from "./prisma.js";
+import { resolveClientAgencyId } from "./auditLog.js";
+import { linkSourceDomain, normalizeLinkUrl, type SyncedBacklink } from "./backlinkAlerts.js";
+
+export const LINK_PROSPECT_STAGES = ["PROSPECT", "CONTACTED", "NEGOTIATING", "LIVE"] as const;
+export type LinkProspectStage = (typeof LINK_PROSPECT_STAGES)[number];
+
+export type LinkVerificationStatus = "PENDING" | "VERIFIED" | "LOST" | "NOT_FOUND";
+
+export type LinkProspectMatchInput = {
+  /** Referring domain the link is expected from. */
+  domain: string;
+  /** Exact page carrying the link, when known; otherwise any page on `domain` counts. */
+  linkUrl: string | null;
+  /** Our page the link should point to, when known. */
+  targetUrl: string | null;
+};
+
+const sameDomainOrSubdomain = (host: string, domain: string) => host === domain || host.endsWith(`.${domain}`);
+
+export function linkMatchesProspect(prospect: LinkProspectMatchInput, link: SyncedBacklink): boolean {
+  if (prospect.linkUrl) {
+    if (normalizeLinkUrl(link.sourceUrl) !== normalizeLinkUrl(prospect.linkUrl)) return false;
+  } else if (!sameDomainOrSubdomain(linkSourceDomain(link.sourceUrl), linkSourceDomain(prospect.domain))) {
+    return false;
+  }
+  return !prospect.targetUrl || normalizeLinkUrl(link.targetUrl) === normalizeLinkUrl(prospect.targetUrl);
+}
+
+/** Verification result for one live prospect against a freshly synced backlink list. */
+export function verifyProspectLink(
+  prospect: LinkProspectMatchInput,
+  links: SyncedBacklink[]
+): { status: Exclude<LinkVerificationStatus, "PENDING">; link: SyncedBacklink | null } {
+  const matches = links.filter((link) => linkMatchesProspect(prospect, link));
+  const live = matches.filter((link) => !link.isLost).sort((a, b) => Number(b.isFollow) - Number(a.isFollow));
+  if (live.length > 0) return { status: "VERIFIED", link: live[0] };
+  if (matches.length > 0) return { status: "LOST", link: matches[0] };
+  return { status: "NOT_FOUND", link: null };
+}
+
+/**
+ * Re-checks the client's live prospects after a backlink sync and notifies the agency when a link is first verified
+ * or when a verified link disappears.
+ */
+export async function verifyLiveLinkProspects(clientId: string, links: SyncedBacklink[]) {
+  const prospects = await prisma.linkProspect.findMany({ where: { clientId, stage: "LIVE" } });
+  if (prospects.length === 0) return { checked: 0, verified: 0 };
+
+  const now = new Date();
+  const changes: Array<{ domain: string; status: LinkVerificationStatus }> = [];
+  let verified = 0;
+  for (const prospect of prospects) {
+    const result = verifyProspectLink(prospect, links);
+    if (result.status === "VERIFIED") verified++;
+    await prisma.linkProspect.update({
+      where: { id: prospect.id },
+      data: {
+        verificationStatus: result.status,
+        lastCheckedAt: now,
+        ...(result.status === "VERIFIED" && prospect.verificationStatus !== "VERIFIED" ? { verifiedAt: now } : {}),
+        ...(result.link
+          ? { verifiedDomainRating: result.link.domainRating ?? null, verifiedIsFollow: result.link.isFollow }
+          : {}),
+      },
+    });
+    if (result.status !== prospect.verificationStatus && (result.status === "VERIFIED" || prospect.verificationStatus === "VERIFIED")) {
+      changes.push({ domain: prospect.domain, status: result.status });
+    }
+  }
+
+  const agencyId = changes.length > 0 ? await resolveClientAgencyId(clientId) : null;
+  if (agencyId) {
+    const client = await prisma.client.findUnique({ where: { id: clientId }, select: { name: true } });
+    const gained = changes.filter((c) => c.status === "VERIFIED").map((c) => c.domain);
+    const missing = changes.filter((c) => c.status !== "VERIFIED").map((c) => c.domain);
+    const notices = [
+      gained.length > 0 && { title: `${client?.name ?? "Client"}: outreach link verified`, message: `Found in the latest backlink sync: ${gained.join(", ")}` },
+      missing.length > 0 && { title: `${client?.name ?? "Client"}: outreach link missing`, message: `Missing from the latest backlink sync: ${missing.join(", ")}` },
+    ].filter((n): n is { title: string; message: string } => Boolean(n));
+    for (const notice of notices) {
+      await prisma.notification
+        .create({ data: { agencyId, type: "link_building", ...notice, link: `/agency/clients/${clientId}?tab=backlinks` } })
+        .catch((e) => console.warn("[Link Building] Notification failed", e?.message));
+    }
+  }
+
+  return { checked: prospects.length, verified };
+}
@@ -1,6 +1,18 @@
 import test from "node:test";
 import assert from "node:assert/strict";
-import { calculateAtaScore, normalizeMapRank, rankToHeatBucket } from "./localMap.js";
+import {
+  LocalMapGridConfigError,
+  assertTrackedGridWithinSlot,
+  buildCompetitorAnalysis,
+  buildLocalMapGridPoints,
+  calculateAtaScore,
+  getLocalMapRunCreditCost,
+  mergeLocalMapGridConfigUpdate,
+  normalizeLocalMapGridConfig,
+  normalizeMapRank,
+  rankToHeatBucket,
+  type LocalMapGridPoint,
+} from "./localMap.js";
 
 test("calculateAtaScore falls back to 20 for missing ranks", () => {
   const score = calculateAtaScore([{ rank: 1 }, { rank: null }, { rank: 10 }, { rank: null }]);
@@ -21,3 +33,148 @@ test("rankToHeatBucket maps rank ranges", () => {
   assert.equal(rankToHeatBucket(30), "red");
   assert.equal(rankToHeatBucket(null), "red");
 });
+
+
+const point = (rank: number | null, competitors: string[], serp?: Array<[string, number, boolean?]>): LocalMapGridPoint => ({
+  lat: 0,
+  lng: 0,
+  rank,
+  competitors,
+  serpBusinesses: serp?.map(([title, serpRank, isTarget]) => ({
+    rank: serpRank,
+    title,
+    placeId: null,
+    address: null,
+    rating: null,
+    reviewsCount: null,
+    category: null,
+    isTarget: Boolean(isTarget),
+  })),
+});
+
+test("buildCompetitorAnalysis scores competitors from SERP rows and top-3 names", () => {
+  const analysis = buildCompetitorAnalysis([
+    point(2, [], [["Acme Plumbing", 1], ["Target Co", 2, true], ["Bolt Plumbing", 3]]),
+    // No SERP rows: names are positional, shifted past the target at rank 1.
+    point(1, ["Acme Plumbing", "Zed's Drains"]),
+    point(null, ["Bolt Plumbing"]),
+    point(null, []),
+  ]);
+  assert.equal(analysis.totalPoints, 4);
+  assert.deepEqual(analysis.target, { pointsFound: 2, averageRank: 1.5, top3Pct: 50, ataScore: 10.75 });
+  assert.deepEqual(
+    analysis.competitors.map((row) => [row.name, row.pointsFound, row.averageRank, row.top3Pct, row.ataScore]),
+    [
+      ["Acme Plumbing", 2, 1.5, 50, 10.75],
+      ["Bolt Plumbing", 2, 2, 50, 11],
+      ["Zed's Drains", 1, 3, 25, 15.75],
+    ]
+  );
+  assert.equal(analysis.competitors[0].ataScoreChange, null);
+});
+
+test("buildCompetitorAnalysis reports movement against the previous grid", () => {
+  const analysis = buildCompetitorAnalysis(
+    [point(null, ["Acme Plumbing", "Bolt Plumbing"]), point(null, ["ACME plumbing"])],
+    [point(null, ["Bolt Plumbing", "Acme Plumbing"]), point(null, [])]
+  );
+  const acme = analysis.competitors.find((row) => row.name === "Acme Plumbing");
+  const bolt = analysis.competitors.find((row) => row.name === "Bolt Plumbing");
+  assert.equal(acme?.previousAtaScore, 11);
+  assert.equal(acme?.ataScoreChange, -10);
+  assert.equal(acme?.top3PctChange, 50);
+  assert.equal(bolt?.ataScoreChange, 0.5);
+  assert.equal(buildCompetitorAnalysis([point(null, ["A"]), point(null, ["B"])], null, 1).competitors.length, 1);
+});
+
+test("normalizeLocalMapGridConfig rejects sizes, spacing and shapes outside the allowed range", () => {
+  assert.deepEqual(normalizeLocalMapGridConfig({ gridSize: 9, gridSpacingMiles: "1.5" }), {
+    shape: "square",
+    gridSize: 9,
+    gridSpacingMiles: 1.5,
+  });
+  assert.throws(() => normalizeLocalMapGridConfig({ gridSize: 8 }), LocalMapGridConfigError);
+  assert.throws(() => normalizeLocalMapGridConfig({ gridSize: 15 }), LocalMapGridConfigError);
+  assert.throws(() => normalizeLocalMapGridConfig({ gridSpacingMiles: 0 }), LocalMapGridConfigError);
+  assert.throws(() => normalizeLocalMapGridConfig({ shape: "hexagon" }), LocalMapGridConfigError);
+  assert.throws(
+    () => normalizeLocalMapGridConfig({ shape: "polygon", polygon: [{ lat: 1, lng: 1 }, { lat: 2, lng: 2 }] }),
+    LocalMapGridConfigError
+  );
+});
+
+test("buildLocalMapGridPoints lays out square, circle, polygon and ZIP grids", () => {
+  const square = buildLocalMapGridPoints(30.27, -97.74, normalizeLocalMapGridConfig({ gridSize: 7, gridSpacingMiles: 0.5 }));
+  assert.equal(square.length, 49);
+  assert.deepEqual([square[0].row, square[0].col], [0, 0]);
+  assert.ok(square[0].lat > square[48].lat, "rows run north to south");
+  assert.deepEqual([square[24].lat, square[24].lng], [30.27, -97.74]);
+
+  const circle = buildLocalMapGridPoints(30.27, -97.74, normalizeLocalMapGridConfig({ shape: "circle", gridSize: 7 }));
+  assert.equal(circle.length, 29);
+
+  // A triangle covering the north-east quadrant keeps only lattice points inside it.
+  const polygon = buildLocalMapGridPoints(
+    30.27,
+    -97.74,
+    normalizeLocalMapGridConfig({
+      shape: "polygon",
+      gridSpacingMiles: 1,
+      polygon: [
+        { lat: 30.269, lng: -97.741 },
+        { lat: 30.33, lng: -97.741 },
+        { lat: 30.269, lng: -97.67 },
+      ],
+    })
+  );
+  assert.equal(polygon.length, 15);
+  assert.ok(polygon.every((point) => point.lat >= 30.269 && point.lng >= -97.741));
+
+  const zip = buildLocalMapGridPoints(
+    30.27,
+    -97.74,
+    normalizeLocalMapGridConfig({
+      shape: "zip",
+      zipCentroids: [
+        { zip: "78701", lat: 30.27, lng: -97.74 },
+        { zip: "78702", lat: 30.26, lng: -97.71 },
+        { zip: "78701", lat: 30.27, lng: -97.74 },
+      ],
+    })
+  );
+  assert.equal(zip.length, 2);
+  assert.equal(zip[0].row, undefined);
+});
+
+test("mergeLocalMapGridConfigUpdate replaces the stored ZIP centroids when new ZIP codes are sent", () => {
+  const current = normalizeLocalMapGridConfig({
+    shape: "zip",
+    gridSize: 5,
+    zipCentroids: [{ zip: "78701", lat: 30.27, lng: -97.74 }],
+  });
+
+  const changedZips = mergeLocalMapGridConfigUpdate(current, { zipCodes: ["78702", "78703"] });
+  assert.equal(changedZips.gridShape, "zip");
+  assert.equal(changedZips.gridSize, 5);
+  assert.equal(changedZips.zipCentroids, undefined, "stored centroids must not shadow the new ZIP list");
+  assert.deepEqual(changedZips.zipCodes, ["78702", "78703"]);
+
+  const resized = mergeLocalMapGridConfigUpdate(current, { gridSpacingMiles: 2 });
+  assert.deepEqual(resized.zipCentroids, current.zipCentroids);
+  assert.equal(resized.gridSpacingMiles, 2);
+
+  const explicit = [{ zip: "78704", lat: 30.24, lng: -97.76 }];
+  assert.deepEqual(mergeLocalMapGridConfigUpdate(current, { zipCodes: ["78704"], zipCentroids: explicit }).zipCentroids, explicit);
+});
+
+test("getLocalMapRunCreditCost charges one credit per 49 points", () => {
+  assert.equal(getLocalMapRunCreditCost(9), 1);
+  assert.equal(getLocalMapRunCreditCost(49), 1);
+  assert.equal(getLocalMapRunCreditCost(50), 2);
+  assert.equal(getLocalMapRunCreditCost(169), 4);
+});
+
+test("assertTrackedGridWithinSlot allows grids up to one credit", () => {
+  assert.doesNotThrow(() => assertTrackedGridWithinSlot(49));
+  assert.throws(() => assertTrackedGridWithinSlot(81), LocalMapGridConfigError);
+});
@@ -6,6 +6,23 @@ export type LocalMapGridPoint = {
   rank: number | null;
   competitors: string[];
   serpBusinesses?: LocalMapSerpBusiness[];
+  /** Lattice position (0-based, north-west origin). Absent for ZIP grids and for snapshots stored before shapes existed. */
+  row?: number;
+  col?: number;
+};
+
+export type LocalMapGridShape = "square" | "circle" | "polygon" | "zip";
+
+export type LocalMapLatLng = { lat: number; lng: number };
+
+export type LocalMapZipCentroid = LocalMapLatLng & { zip: string };
+
+export type LocalMapGridConfig = {
+  shape: LocalMapGridShape;
+  gridSize: number;
+  gridSpacingMiles: number;
+  polygon?: LocalMapLatLng[];
+  zipCentroids?: LocalMapZipCentroid[];
 };
 
 export type LocalMapSerpBusiness = {
@@ -65,6 +82,31 @@ export type LocalMapPointSerpDebug = {
   }>;
 };
 
+export type LocalMapCompetitorStats = {
+  name: string;
+  /** Grid points where the business showed up at all. */
+  pointsFound: number;
+  /** Average rank over the points where it showed up; null when it never did. */
+  averageRank: number | null;
+  top3Pct: number;
+  /** Same formula as the target's ATA: missing points count as 20. */
+  ataScore: number;
+};
+
+export type LocalMapCompetitorMovement = {
+  previousAtaScore: number | null;
+  /** Negative means the competitor moved up (lower ATA is better). Null for new entrants. */
+  ataScoreChange: number | null;
+  previousTop3Pct: number | null;
+  top3PctChange: number | null;
+};
+
+export type LocalMapCompetitorAnalysis = {
+  totalPoints: number;
+  target: Omit<LocalMapCompetitorStats, "name">;
+  competitors: Array<LocalMapCompetitorStats & LocalMapCompetitorMovement>;
+};
+
 type DataForSeoLocalGridRequest = {
   keyword: string;
   placeId: string;
@@ -74,6 +116,9 @@ type DataForSeoLocalGridRequest = {
   centerLng: number;
   gridSize?: number;
   gridSpacingMiles?: number;
+  gridShape?: LocalMapGridShape;
+  polygon?: LocalMapLatLng[];
+  zipCentroids?: LocalMapZipCentroid[];
 };
 
 type DataForSeoPointSerpRequest = {
@@ -101,6 +146,25 @@ const DEFAULT_DATAFORSEO_POINT_DEPTH = 100;
 const MAX_DATAFORSEO_DEPTH = 100;
 const DEFAULT_DATAFORSEO_MAPS_ENDPOINT = "https://api.dataforseo.com/v3/serp/google/maps/live/advanced";
 const DEFAULT_DATAFORSEO_LOCAL_FINDER_ENDPOINT = "https://api.dataforseo.com/v3/serp/google/local_finder/live/advanced";
+const COMPETITOR_ANALYSIS_LIMIT = 10;
+
+export const LOCAL_MAP_GRID_SHAPES: readonly LocalMapGridShape[] = ["square", "circle", "polygon", "zip"];
+export const LOCAL_MAP_GRID_SIZE_MIN = 3;
+export const LOCAL_MAP_GRID_SIZE_MAX = 13;
+export const LOCAL_MAP_GRID_SPACING_MIN_MILES = 0.1;
+export const LOCAL_MAP_GRID_SPACING_MAX_MILES = 5;
+export const LOCAL_MAP_GRID_MAX_POINTS = LOCAL_MAP_GRID_SIZE_MAX * LOCAL_MAP_GRID_SIZE_MAX;
+/** One snapshot credit covers the classic 7x7 grid; larger grids cost proportionally more. */
+export const LOCAL_MAP_POINTS_PER_CREDIT = 49;
+
+export class LocalMapGridConfigError extends Error {
+  statusCode: number;
+  constructor(message: string, statusCode = 400) {
+    super(message);
+    this.name = "LocalMapGridConfigError";
+    this.statusCode = statusCode;
+  }
+}
 
 function requireEnv(name: string): string {
   const value = process.env[name];
@@ -230,24 +294,194 @@ function decodePolylineDistance(startLat: number, startLng: number, northMeters:
   return { lat: startLat + dLat, lng: startLng + dLng };
 }
 
-function buildFallbackGrid(centerLat: number, centerLng: number, gridSize: number, spacingMeters: number): LocalMapGridPoint[] {
-  const radius = Math.floor(gridSize / 2);
-  const points: LocalMapGridPoint[] = [];
-  for (let row = -radius; row <= radius; row += 1) {
-    for (let col = -radius; col <= radius; col += 1) {
-      const coords = decodePolylineDistance(centerLat, centerLng, row * spacingMeters, col * spacingMeters);
-      points.push({
-        lat: Number(coords.lat.toFixed(7)),
-        lng: Number(coords.lng.toFixed(7)),
-        rank: null,
-        competitors: [],
-        serpBusinesses: [],
+function emptyGridPoint(lat: number, lng: number, row?: number, col?: number): LocalMapGridPoint {
+  return {
+    lat: Number(lat.toFixed(7)),
+    lng: Number(lng.toFixed(7)),
+    rank: null,
+    competitors: [],
+    serpBusinesses: [],
+    ...(row != null && col != null ? { row, col } : {}),
+  };
+}
+
+function isPointInPolygon(point: LocalMapLatLng, polygon: LocalMapLatLng[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i, i += 1) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = (a.lat > point.lat) !== (b.lat > point.lat)
+      && point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+function metersBetween(from: LocalMapLatLng, to: LocalMapLatLng): { north: number; east: number } {
+  const north = ((to.lat - from.lat) * Math.PI / 180) * EARTH_RADIUS_METERS;
+  const east = ((to.lng - from.lng) * Math.PI / 180) * EARTH_RADIUS_METERS * Math.cos((Math.PI * from.lat) / 180);
+  return { north, east };
+}
+
+function toLatLngList(value: unknown): LocalMapLatLng[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((entry) => {
+      const record = (Array.isArray(entry) ? { lat: entry[0], lng: entry[1] } : entry) as UnknownRecord | null;
+      const lat = toNumber(record?.lat ?? record?.latitude);
+      const lng = toNumber(record?.lng ?? record?.lon ?? record?.longitude);
+      if (lat == null || lng == null || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+      return { lat, lng };
+    })
+    .filter((entry): entry is LocalMapLatLng => entry !== null);
+}
+
+/**
+ * Validates grid settings coming from a request body or a stored GridKeyword. Size must be odd so the business sits
+ * on the centre point; polygon grids need at least three vertices and ZIP grids at least one resolved centroid.
+ */
+export function normalizeLocalMapGridConfig(input: {
+  shape?: unknown;
+  gridSize?: unknown;
+  gridSpacingMiles?: unknown;
+  polygon?: unknown;
+  zipCentroids?: unknown;
+}): LocalMapGridConfig {
+  const shape = (input.shape == null || input.shape === "" ? "square" : String(input.shape)) as LocalMapGridShape;
+  if (!LOCAL_MAP_GRID_SHAPES.includes(shape)) {
+    throw new LocalMapGridConfigError(`Grid shape must be one of: ${LOCAL_MAP_GRID_SHAPES.join(", ")}`);
+  }
+  const gridSize = input.gridSize == null || input.gridSize === "" ? DEFAULT_GRID_SIZE : Number(input.gridSize);
+  if (!Number.isInteger(gridSize) || gridSize < LOCAL_MAP_GRID_SIZE_MIN || gridSize > LOCAL_MAP_GRID_SIZE_MAX || gridSize % 2 === 0) {
+    throw new LocalMapGridConfigError(
+      `Grid size must be an odd number between ${LOCAL_MAP_GRID_SIZE_MIN} and ${LOCAL_MAP_GRID_SIZE_MAX}`
+    );
+  }
+  const gridSpacingMiles = input.gridSpacingMiles == null || input.gridSpacingMiles === ""
+    ? DEFAULT_GRID_SPACING_MILES
+    : Number(input.gridSpacingMiles);
+  if (
+    !Number.isFinite(gridSpacingMiles)
+    || gridSpacingMiles < LOCAL_MAP_GRID_SPACING_MIN_MILES
+    || gridSpacingMiles > LOCAL_MAP_GRID_SPACING_MAX_MILES
+  ) {
+    throw new LocalMapGridConfigError(
+      `Grid spacing must be between ${LOCAL_MAP_GRID_SPACING_MIN_MILES} and ${LOCAL_MAP_GRID_SPACING_MAX_MILES} miles`
+    );
+  }
+  const config: LocalMapGridConfig = { shape, gridSize, gridSpacingMiles: Number(gridSpacingMiles.toFixed(2)) };
+
+  if (shape === "polygon") {
+    const polygon = toLatLngList(input.polygon);
+    if (polygon.length < 3) {
+      throw new LocalMapGridConfigError("A service-area polygon needs at least 3 points");
+    }
+    config.polygon = polygon;
+  }
+  if (shape === "zip") {
+    const seen = new Set<string>();
+    const zipCentroids = (Array.isArray(input.zipCentroids) ? input.zipCentroids : [])
+      .map((entry) => {
+        const record = entry as UnknownRecord | null;
+        const zip = toStringOrNull(record?.zip);
+        const [coords] = toLatLngList([record]);
+        return zip && coords ? { zip, ...coords } : null;
+      })
+      .filter((entry): entry is LocalMapZipCentroid => {
+        if (!entry || seen.has(entry.zip)) return false;
+        seen.add(entry.zip);
+        return true;
       });
+    if (!zipCentroids.length) {
+      throw new LocalMapGridConfigError("Add at least one ZIP code");
     }
+    config.zipCentroids = zipCentroids;
+  }
+  return config;
+}
+
+/**
+ * Grid settings for an update: the stored config fills in whatever the request body leaves out. A body that sends
+ * `zipCodes` drops the stored centroids, so the new ZIP list is geocoded instead of the old points being kept.
+ */
+export function mergeLocalMapGridConfigUpdate(current: LocalMapGridConfig, body: UnknownRecord): UnknownRecord {
+  const replacesZips = Array.isArray(body.zipCodes) && !Array.isArray(body.zipCentroids);
+  return {
+    gridShape: current.shape,
+    gridSize: current.gridSize,
+    gridSpacingMiles: current.gridSpacingMiles,
+    polygon: current.polygon,
+    zipCentroids: replacesZips ? undefined : current.zipCentroids,
+    ...body,
+  };
+}
+
+/**
+ * Grid points for a keyword. Square and circle grids are a gridSize x gridSize lattice around the business (circle
+ * drops the corners outside the inscribed circle); polygon grids lay the same lattice spacing over the polygon and keep
+ * the points inside it; ZIP grids use one point per ZIP centroid.
+ */
+export function buildLocalMapGridPoints(centerLat: number, centerLng: number, config: LocalMapGridConfig): LocalMapGridPoint[] {
+  const spacingMeters = milesToMeters(config.gridSpacingMiles);
+  let points: LocalMapGridPoint[] = [];
+
+  if (config.shape === "zip") {
+    points = (config.zipCentroids ?? []).map((entry) => emptyGridPoint(entry.lat, entry.lng));
+  } else if (config.shape === "polygon") {
+    const polygon = config.polygon ?? [];
+    const offsets = polygon.map((vertex) => metersBetween({ lat: centerLat, lng: centerLng }, vertex));
+    const minRow = Math.floor(Math.min(...offsets.map((offset) => -offset.north)) / spacingMeters);
+    const maxRow = Math.ceil(Math.max(...offsets.map((offset) => -offset.north)) / spacingMeters);
+    const minCol = Math.floor(Math.min(...offsets.map((offset) => offset.east)) / spacingMeters);
+    const maxCol = Math.ceil(Math.max(...offsets.map((offset) => offset.east)) / spacingMeters);
+    if ((maxRow - minRow + 1) * (maxCol - minCol + 1) > LOCAL_MAP_GRID_MAX_POINTS * 16) {
+      throw new LocalMapGridConfigError("The service area is too large for this spacing. Increase the grid spacing.");
+    }
+    for (let row = minRow; row <= maxRow; row += 1) {
+      for (let col = minCol; col <= maxCol; col += 1) {
+        const coords = decodePolylineDistance(centerLat, centerLng, -row * spacingMeters, col * spacingMeters);
+        if (!isPointInPolygon(coords, polygon)) continue;
+        points.push(emptyGridPoint(coords.lat, coords.lng, row - minRow, col - minCol));
+      }
+    }
+    if (!points.length) {
+      throw new LocalMapGridConfigError("No grid points fall inside the service area. Decrease the grid spacing.");
+    }
+  } else {
+    const radius = Math.floor(config.gridSize / 2);
+    for (let row = -radius; row <= radius; row += 1) {
+      for (let col = -radius; col <= radius; col += 1) {
+        if (config.shape === "circle" && row * row + col * col > radius * radius) continue;
+        const coords = decodePolylineDistance(centerLat, centerLng, -row * spacingMeters, col * spacingMeters);
+        points.push(emptyGridPoint(coords.lat, coords.lng, row + radius, col + radius));
+      }
+    }
+  }
+
+  if (points.length > LOCAL_MAP_GRID_MAX_POINTS) {
+    throw new LocalMapGridConfigError(
+      `This grid has ${points.length} points; the limit is ${LOCAL_MAP_GRID_MAX_POINTS}. Increase the spacing or shrink the area.`
+    );
   }
   return points;
 }
 
+export function getLocalMapRunCreditCost(pointCount: number): number {
+  return Math.max(1, Math.ceil(pointCount / LOCAL_MAP_POINTS_PER_CREDIT));
+}
+
+/**
+ * Tracked keywords run on a keyword slot rather than credits, so their grid may not cost more than one credit
+ * (the classic 7x7). Larger grids stay available as one-off runs, which are charged per point.
+ */
+export function assertTrackedGridWithinSlot(pointCount: number): void {
+  if (getLocalMapRunCreditCost(pointCount) > 1) {
+    throw new LocalMapGridConfigError(
+      `Tracked keywords are limited to ${LOCAL_MAP_POINTS_PER_CREDIT} grid points (this grid has ${pointCount}). Use a smaller grid, or run larger grids as one-off snapshots.`
+    );
+  }
+}
+
 function parseCompetitorNames(value: unknown): string[] {
   if (!Array.isArray(value)) return [];
   return value
@@ -400,6 +634,87 @@ function extractTopCompetitorsCurrent(points: LocalMapGridPoint[]): string[] {
     .map(([name]) => name);
 }
 
+/**
+ * Competitor ranks per grid point. Full SERP rows are used when the point has them; otherwise the stored top-3
+ * names are taken in order, shifted down one slot wherever the target itself sits above them.
+ */
+function competitorRanksForPoint(point: Pick<LocalMapGridPoint, "rank" | "competitors" | "serpBusinesses">): Map<string, { name: string; rank: number }> {
+  const ranks = new Map<string, { name: string; rank: number }>();
+  const serpCompetitors = (point.serpBusinesses ?? []).filter((entry) => !entry.isTarget);
+  if (serpCompetitors.length) {
+    for (const entry of serpCompetitors) {
+      const key = normalizeBusinessName(entry.title);
+      if (!key || ranks.has(key)) continue;
+      ranks.set(key, { name: entry.title, rank: entry.rank });
+    }
+    return ranks;
+  }
+  const targetRank = normalizeMapRank(point.rank);
+  (point.competitors ?? []).forEach((name, index) => {
+    const key = normalizeBusinessName(name);
+    if (!key || ranks.has(key)) return;
+    const slot = index + 1;
+    ranks.set(key, { name, rank: targetRank != null && targetRank <= slot ? slot + 1 : slot });
+  });
+  return ranks;
+}
+
+function summarizeRanks(ranks: Array<number | null>): Omit<LocalMapCompetitorStats, "name"> {
+  const found = ranks.filter((rank): rank is number => rank != null);
+  return {
+    pointsFound: found.length,
+    averageRank: found.length ? Number((found.reduce((sum, rank) => sum + rank, 0) / found.length).toFixed(2)) : null,
+    top3Pct: ranks.length ? Number(((found.filter((rank) => rank <= 3).length / ranks.length) * 100).toFixed(1)) : 0,
+    ataScore: calculateAtaScore(ranks.map((rank) => ({ rank }))),
+  };
+}
+
+function collectCompetitorStats(points: LocalMapGridPoint[]): Map<string, LocalMapCompetitorStats> {
+  const perPoint = points.map(competitorRanksForPoint);
+  const names = new Map<string, string>();
+  for (const ranks of perPoint) {
+    for (const [key, entry] of ranks) {
+      if (!names.has(key)) names.set(key, entry.name);
+    }
+  }
+  const stats = new Map<string, LocalMapCompetitorStats>();
+  for (const [key, name] of names) {
+    stats.set(key, { name, ...summarizeRanks(perPoint.map((ranks) => ranks.get(key)?.rank ?? null)) });
+  }
+  return stats;
+}
+
+/**
+ * Share-of-voice view of the businesses competing with the target across a grid: average rank, top-3 coverage and
+ * ATA per competitor, plus movement against an earlier grid for the same keyword when one is given.
+ */
+export function buildCompetitorAnalysis(
+  current: LocalMapGridPoint[],
+  previous?: LocalMapGridPoint[] | null,
+  limit = COMPETITOR_ANALYSIS_LIMIT
+): LocalMapCompetitorAnalysis {
+  const currentStats = collectCompetitorStats(current);
+  const previousStats = previous?.length ? collectCompetitorStats(previous) : null;
+  const competitors = [...currentStats.entries()]
+    .sort((a, b) => a[1].ataScore - b[1].ataScore || b[1].top3Pct - a[1].top3Pct || a[1].name.localeCompare(b[1].name))
+    .slice(0, Math.max(0, limit))
+    .map(([key, stats]) => {
+      const before = previousStats?.get(key) ?? null;
+      return {
+        ...stats,
+        previousAtaScore: before?.ataScore ?? null,
+        ataScoreChange: before ? Number((stats.ataScore - before.ataScore).toFixed(2)) : null,
+        previousTop3Pct: before?.top3Pct ?? null,
+        top3PctChange: before ? Number((stats.top3Pct - before.top3Pct).toFixed(1)) : null,
+      };
+    });
+  return {
+    totalPoints: current.length,
+    target: summarizeRanks(current.map((point) => normalizeMapRank(point.rank))),
+    competitors,
+  };
+}
+
 function extractTopDetectedBusinessesFromRaw(rawResult: unknown[]): string[] {
   const counts = new Map<string, number>();
   for (const packet of rawResult) {
@@ -428,24 +743,6 @@ function extractTopDetectedBusinessesFromRaw(rawResult: unknown[]): string[] {
     .map(([name]) => name);
 }
 
-function gridCoordinates(centerLat: number, centerLng: number, gridSize: number, spacingMeters: number): LocalMapGridPoint[] {
-  const radius = Math.floor(gridSize / 2);
-  const points: LocalMapGridPoint[] = [];
-  for (let row = -radius; row <= radius; row += 1) {
-    for (let col = -radius; col <= radius; col += 1) {
-      const coords = decodePolylineDistance(centerLat, centerLng, row * spacingMeters, col * spacingMeters);
-      points.push({
-        lat: Number(coords.lat.toFixed(7)),
-        lng: Number(coords.lng.toFixed(7)),
-        rank: null,
-        competitors: [],
-        serpBusinesses: [],
-      });
-    }
-  }
-  return points;
-}
-
 function normalizePlaceId(value: unknown): string {
   return String(value ?? "").trim().toLowerCase();
 }
@@ -912,6 +1209,44 @@ async function enrichSerpBusinessesWithGooglePlaceDetails(
   });
 }
 
+/**
+ * Resolves ZIP / postal codes to their centroid via the Geocoding API. Codes Google cannot place are returned in
+ * `unresolved` rather than failing the whole list.
+ */
+export async function geocodeZipCentroids(
+  zipCodes: string[],
+  countryCode?: string | null
+): Promise<{ centroids: LocalMapZipCentroid[]; unresolved: string[] }> {
+  const apiKey = process.env.GOOGLE_MAPS_API_KEY || requireEnv("GOOGLE_PLACES_API_KEY");
+  const unique = [...new Set(zipCodes.map((zip) => String(zip || "").trim().toUpperCase()).filter(Boolean))];
+  if (unique.length > LOCAL_MAP_GRID_MAX_POINTS) {
+    throw new LocalMapGridConfigError(`At most ${LOCAL_MAP_GRID_MAX_POINTS} ZIP codes can be tracked per keyword`);
+  }
+  const results = await mapWithConcurrency(unique, 4, async (zip) => {
+    const url = new URL("https://maps.googleapis.com/maps/api/geocode/json");
+    url.searchParams.set("components", [`postal_code:${zip}`, countryCode ? `country:${countryCode}` : ""].filter(Boolean).join("|"));
+    url.searchParams.set("key", apiKey);
+    try {
+      const res = await fetch(url, { method: "GET" });
+      if (!res.ok) return { zip, coords: null };
+      const json = await getJsonResponse(res);
+      const first = Array.isArray((json as UnknownRecord)?.results) ? ((json as UnknownRecord).results as UnknownRecord[])[0] : null;
+      const location = ((first?.geometry as UnknownRecord | undefined)?.location ?? null) as UnknownRecord | null;
+      const lat = toNumber(location?.lat);
+      const lng = toNumber(location?.lng);
+      return { zip, coords: lat != null && lng != null ? { lat, lng } : null };
+    } catch {
+      return { zip, coords: null };
+    }
+  });
+  return {
+    centroids: results
+      .filter((entry) => entry.coords)
+      .map((entry) => ({ zip: entry.zip, lat: Number(entry.coords!.lat.toFixed(7)), lng: Number(entry.coords!.lng.toFixed(7)) })),
+    unresolved: results.filter((entry) => !entry.coords).map((entry) => entry.zip),
+  };
+}
+
 export async function searchGoogleBusinessProfiles(query: string): Promise<GoogleBusinessSearchResult[]> {
   const input = query.trim();
   if (input.length < 2) return [];
@@ -974,11 +1309,13 @@ export async function searchGoogleBusinessProfiles(query: string): Promise<Googl
 export async function runDataForSeoLocalGrid(
   input: DataForSeoLocalGridRequest
 ): Promise<DataForSeoLocalGridResult> {
-  const gridSize = input.gridSize ?? DEFAULT_GRID_SIZE;
-  const gridSpacingMiles = input.gridSpacingMiles ?? DEFAULT_GRID_SPACING_MILES;
-  const spacingMeters = milesToMeters(gridSpacingMiles);
-
-  const points = gridCoordinates(input.centerLat, input.centerLng, gridSize, spacingMeters);
+  const points = buildLocalMapGridPoints(input.centerLat, input.centerLng, {
+    shape: input.gridShape ?? "square",
+    gridSize: input.gridSize ?? DEFAULT_GRID_SIZE,
+    gridSpacingMiles: input.gridSpacingMiles ?? DEFAULT_GRID_SPACING_MILES,
+    polygon: input.polygon,
+    zipCentroids: input.zipCentroids,
+  });
   const concurrency = Math.max(
     1,
     Number(process.env.DATAFORSEO_LOCAL_GRID_CONCURRENCY ?? DEFAULT_LOCAL_GRID_CONCURRENCY)
@@ -999,29 +1336,19 @@ export async function runDataForSeoLocalGrid(
       });
       rawResult.push(parsed.rawResult);
       return {
-        lat: point.lat,
-        lng: point.lng,
+        ...point,
         rank: parsed.rank,
         competitors: parsed.competitors,
         serpBusinesses: parsed.serpBusinesses,
       };
     } catch {
-      return {
-        lat: point.lat,
-        lng: point.lng,
-        rank: null,
-        competitors: [],
-        serpBusinesses: [],
-      };
+      return point;
     }
   });
 
-  const expectedPoints = gridSize * gridSize;
   // Keep fetched grid data even when all ranks are NR, so UI still gets real point-level payloads
   // (competitors/coordinates) instead of a synthetic empty fallback.
-  const normalizedGridData = gridData.length === expectedPoints
-    ? gridData
-    : buildFallbackGrid(input.centerLat, input.centerLng, gridSize, spacingMeters);
+  const normalizedGridData = gridData.length === points.length ? gridData : points;
 
   const ataScore = calculateAtaScore(normalizedGridData);
   const topCompetitorsCurrent = extractTopCompetitorsCurrent(normalizedGridData);
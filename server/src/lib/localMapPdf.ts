@@ -1,13 +1,63 @@
 import PDFDocument from "pdfkit";
 import type { GridKeyword, GridSnapshot } from "@prisma/client";
+import { buildCompetitorAnalysis, type LocalMapCompetitorAnalysis, type LocalMapSerpBusiness } from "./localMap.js";
 
 type ParsedGridPoint = {
   lat: number;
   lng: number;
+  row?: number;
+  col?: number;
   rank: number | null;
   competitors: string[];
+  serpBusinesses?: LocalMapSerpBusiness[];
 };
 
+type GridCellLayout = {
+  rows: number;
+  cols: number;
+  cells: Array<{ row: number; col: number; point: ParsedGridPoint }>;
+  pin: { row: number; col: number } | null;
+};
+
+/**
+ * Places grid points on table cells. Lattice grids carry row/col; older square snapshots are laid out by index; ZIP
+ * grids have no lattice, so they are banded north to south and sorted west to east within each band.
+ */
+function layoutGridCells(grid: ParsedGridPoint[], center?: { lat: number; lng: number }): GridCellLayout {
+  if (grid.length > 0 && grid.every((point) => Number.isInteger(point.row) && Number.isInteger(point.col))) {
+    // Lattices are anchored on the business, so the pin is the point sitting on the center (polygons may not have one).
+    const pinPoint = center
+      ? grid.find((point) => Math.abs(point.lat - center.lat) < 1e-5 && Math.abs(point.lng - center.lng) < 1e-5)
+      : undefined;
+    return {
+      rows: Math.max(...grid.map((point) => point.row as number)) + 1,
+      cols: Math.max(...grid.map((point) => point.col as number)) + 1,
+      cells: grid.map((point) => ({ row: point.row as number, col: point.col as number, point })),
+      pin: pinPoint ? { row: pinPoint.row as number, col: pinPoint.col as number } : null,
+    };
+  }
+  const side = Math.round(Math.sqrt(grid.length));
+  if (side * side === grid.length) {
+    const size = side || 7;
+    return {
+      rows: size,
+      cols: size,
+      cells: grid.map((point, idx) => ({ row: Math.floor(idx / size), col: idx % size, point })),
+      pin: { row: Math.floor(size / 2), col: Math.floor(size / 2) },
+    };
+  }
+  const cols = Math.ceil(Math.sqrt(grid.length));
+  const byLat = [...grid].sort((a, b) => b.lat - a.lat);
+  const cells: GridCellLayout["cells"] = [];
+  for (let row = 0; row * cols < byLat.length; row += 1) {
+    byLat
+      .slice(row * cols, (row + 1) * cols)
+      .sort((a, b) => a.lng - b.lng)
+      .forEach((point, col) => cells.push({ row, col, point }));
+  }
+  return { rows: Math.ceil(grid.length / cols), cols, cells, pin: null };
+}
+
 type PdfChromeMeta = {
   title: string;
   subtitle?: string;
@@ -77,6 +127,7 @@ function parseGrid(raw: string): ParsedGridPoint[] {
         competitors: Array.isArray(item?.competitors)
           ? item.competitors.filter((v: unknown): v is string => typeof v === "string").slice(0, 3)
           : [],
+        serpBusinesses: Array.isArray(item?.serpBusinesses) ? item.serpBusinesses : undefined,
       }))
       .filter((item: ParsedGridPoint) => Number.isFinite(item.lat) && Number.isFinite(item.lng));
   } catch {
@@ -153,8 +204,8 @@ function estimateSnapshotSectionHeight(
   h += options?.subtitle ? 14 : 0;
   h += 8; // pre-grid spacing
   const parsed = parseGrid(snapshot.gridData);
-  const size = Math.round(Math.sqrt(parsed.length || 49)) || 7;
-  h += gridCellSize(doc, size, compact) * size + 8;
+  const layout = parsed.length ? layoutGridCells(parsed) : { rows: 7, cols: 7 };
+  h += gridCellSize(doc, Math.max(layout.rows, layout.cols), compact) * layout.rows + 8;
   if (options?.showCompetitors) h += 16;
   h += compact ? 10 : 14;
   return h;
@@ -275,40 +326,36 @@ async function renderPdf(
 function drawGridTable(
   doc: PDFKit.PDFDocument,
   grid: ParsedGridPoint[],
-  options?: { compact?: boolean }
+  options?: { compact?: boolean; center?: { lat: number; lng: number } }
 ) {
-  const size = Math.round(Math.sqrt(grid.length)) || 7;
+  const layout = layoutGridCells(grid, options?.center);
   const marginX = 50;
   const availableW = doc.page.width - marginX * 2;
-  const preferredCell = gridCellSize(doc, size, options?.compact);
+  const preferredCell = gridCellSize(doc, Math.max(layout.rows, layout.cols), options?.compact);
   const minCell = options?.compact ? 8 : 10;
   // Auto-control grid size based on remaining page height.
   const topGap = 10;
   const trailingGap = options?.compact ? 6 : 8;
   const availableH = Math.max(80, contentBottomY(doc) - (doc.y + topGap + trailingGap));
-  const cellByHeight = Math.floor(availableH / Math.max(1, size));
+  const cellByHeight = Math.floor(availableH / Math.max(1, layout.rows));
   const cell = Math.max(minCell, Math.min(preferredCell, cellByHeight));
-  const gridW = cell * size;
+  const gridW = cell * layout.cols;
   const startX = marginX + Math.max(0, (availableW - gridW) / 2);
-  let y = doc.y + topGap;
-  const centerIdx = Math.floor(size / 2) * size + Math.floor(size / 2);
-  for (let row = 0; row < size; row += 1) {
-    for (let col = 0; col < size; col += 1) {
-      const idx = row * size + col;
-      const point = grid[idx];
-      const x = startX + col * cell;
-      const { fill, text } = heatColors(point?.rank ?? null);
-      doc.rect(x, y, cell, cell).fillColor(fill).fill();
-      doc.rect(x, y, cell, cell).strokeColor("#FFFFFF").lineWidth(0.5).stroke();
-      doc.fontSize(options?.compact ? 6 : 7).fillColor(text).text(rankLabel(point?.rank ?? null), x + (options?.compact ? 5 : 7), y + (options?.compact ? 6 : 8));
-      if (idx === centerIdx) {
-        doc.fontSize(options?.compact ? 5 : 6).fillColor(text).text("PIN", x + 2, y + 2);
-      }
+  const startY = doc.y + topGap;
+  // Cells outside a circle/polygon/ZIP shape are simply left blank.
+  for (const { row, col, point } of layout.cells) {
+    const x = startX + col * cell;
+    const y = startY + row * cell;
+    const { fill, text } = heatColors(point.rank ?? null);
+    doc.rect(x, y, cell, cell).fillColor(fill).fill();
+    doc.rect(x, y, cell, cell).strokeColor("#FFFFFF").lineWidth(0.5).stroke();
+    doc.fontSize(options?.compact ? 6 : 7).fillColor(text).text(rankLabel(point.rank ?? null), x + (options?.compact ? 5 : 7), y + (options?.compact ? 6 : 8));
+    if (layout.pin && layout.pin.row === row && layout.pin.col === col) {
+      doc.fontSize(options?.compact ? 5 : 6).fillColor(text).text("PIN", x + 2, y + 2);
     }
-    y += cell;
   }
   // Keep document cursor in sync after drawing absolute-positioned cells.
-  doc.y = y + trailingGap;
+  doc.y = startY + layout.rows * cell + trailingGap;
 }
 
 function drawSnapshotSection(
@@ -348,7 +395,10 @@ function drawSnapshotSection(
   }
   doc.moveDown(0.4);
   const parsedGrid = parseGrid(snapshot.gridData);
-  drawGridTable(doc, parsedGrid, { compact: options?.compact });
+  drawGridTable(doc, parsedGrid, {
+    compact: options?.compact,
+    center: { lat: Number(keyword.centerLat), lng: Number(keyword.centerLng) },
+  });
   if (options?.showCompetitors) {
     const comps = topCompetitors(parsedGrid);
     doc.fontSize(9).fillColor("#4B5563").text(
@@ -395,6 +445,87 @@ function drawTrendChart(doc: PDFKit.PDFDocument, snapshots: GridSnapshot[]) {
   doc.y = chartY + chartH + 18;
 }
 
+function formatChange(value: number | null, suffix = ""): string {
+  if (value == null) return "New";
+  if (value === 0) return "0";
+  return `${value > 0 ? "+" : ""}${value}${suffix}`;
+}
+
+function drawCompetitorAnalysis(
+  doc: PDFKit.PDFDocument,
+  analysis: LocalMapCompetitorAnalysis,
+  keyword: GridKeyword,
+  hasPrevious: boolean
+) {
+  drawSectionPill(doc, "COMPETITOR SHARE OF VOICE", { fill: "#FCE7F3", text: "#9D174D" });
+  doc.fontSize(9).fillColor("#6B7280").text(
+    hasPrevious
+      ? `Across ${analysis.totalPoints} grid points. Changes are against the previous run; a negative ATA change means the competitor moved up.`
+      : `Across ${analysis.totalPoints} grid points. Movement appears once a second run exists.`
+  );
+  doc.moveDown(0.5);
+
+  const x = 40;
+  const width = doc.page.width - 80;
+  const columns = [
+    { label: "BUSINESS", width: width - 320, align: "left" as const },
+    { label: "AVG RANK", width: 60, align: "right" as const },
+    { label: "TOP 3", width: 60, align: "right" as const },
+    { label: "ATA", width: 60, align: "right" as const },
+    { label: "ATA CHANGE", width: 70, align: "right" as const },
+    { label: "TOP 3 CHANGE", width: 70, align: "right" as const },
+  ];
+  const rowH = 18;
+  const drawRow = (cells: string[], options: { header?: boolean; fill?: string; bold?: boolean }) => {
+    ensureSpace(doc, rowH);
+    const y = doc.y;
+    if (options.fill) doc.rect(x, y, width, rowH).fill(options.fill);
+    let cx = x;
+    cells.forEach((cell, idx) => {
+      const column = columns[idx];
+      doc
+        .font(options.header || options.bold ? "Helvetica-Bold" : "Helvetica")
+        .fontSize(options.header ? 7.5 : 8.5)
+        .fillColor(options.header ? "#64748B" : "#1F2937")
+        .text(cell, cx + 6, y + 5, { width: column.width - 12, align: column.align, lineBreak: false });
+      cx += column.width;
+    });
+    doc.moveTo(x, y + rowH).lineTo(x + width, y + rowH).lineWidth(0.5).strokeColor("#E2E8F0").stroke();
+    doc.y = y + rowH;
+  };
+
+  drawRow(columns.map((column) => column.label), { header: true, fill: "#F8FAFC" });
+  drawRow(
+    [
+      clampText(`${keyword.businessName} (you)`, 40),
+      analysis.target.averageRank == null ? "NR" : analysis.target.averageRank.toFixed(1),
+      `${analysis.target.top3Pct}%`,
+      analysis.target.ataScore.toFixed(2),
+      "-",
+      "-",
+    ],
+    { fill: "#ECFDF5", bold: true }
+  );
+  for (const row of analysis.competitors) {
+    drawRow(
+      [
+        clampText(row.name, 40),
+        row.averageRank == null ? "NR" : row.averageRank.toFixed(1),
+        `${row.top3Pct}%`,
+        row.ataScore.toFixed(2),
+        hasPrevious ? formatChange(row.ataScoreChange) : "-",
+        hasPrevious ? formatChange(row.top3PctChange, " pts") : "-",
+      ],
+      {}
+    );
+  }
+  doc.x = x;
+  if (!analysis.competitors.length) {
+    doc.moveDown(0.6);
+    doc.font("Helvetica").fontSize(10).fillColor("#6B7280").text("No competitors were detected in this run.");
+  }
+}
+
 export async function generateLocalMapKeywordPdfBuffer(
   keyword: GridKeyword,
   snapshots: GridSnapshot[]
@@ -472,6 +603,17 @@ export async function generateLocalMapKeywordPdfBuffer(
         tailSpacing: false,
       });
     }
+
+    if (current) {
+      const previous = sorted[1] ?? null;
+      doc.addPage();
+      drawCompetitorAnalysis(
+        doc,
+        buildCompetitorAnalysis(parseGrid(current.gridData), previous ? parseGrid(previous.gridData) : null),
+        keyword,
+        Boolean(previous)
+      );
+    }
   }, {
     title: "Local Map Report",
     subtitle: keyword.businessName,
@@ -0,0 +1,20 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { assertPublicHost, isPrivateAddress } from "./netGuard.js";
+
+test("isPrivateAddress covers loopback, private and link-local ranges", () => {
+  for (const address of ["127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "::1", "fd00::1", "::ffff:10.0.0.1", "::ffff:7f00:1"]) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+  for (const address of ["8.8.8.8", "172.32.0.1", "2606:4700::1111"]) {
+    assert.equal(isPrivateAddress(address), false, address);
+  }
+});
+
+test("assertPublicHost rejects private literals and names that resolve to them", async () => {
+  await assert.rejects(assertPublicHost("169.254.169.254"), /private address/);
+  await assert.rejects(assertPublicHost("[::1]"), /private address/);
+  await assert.rejects(assertPublicHost(new URL("http://[::ffff:10.0.0.1]/").hostname), /private address/);
+  await assert.rejects(assertPublicHost("localhost"), /private address/);
+  await assertPublicHost("8.8.8.8");
+});
@@ -0,0 +1,39 @@
+/**
+ * Guards for server-side requests to user-supplied URLs (site audits, webhooks).
+ * Hostnames are resolved before the request so a public-looking name pointing at an internal address is refused.
+ */
+import dns from "dns/promises";
+import net from "net";
+
+/** IPv4 address behind an IPv4-mapped IPv6 one, in either the dotted or the hex form URL parsing produces. */
+function unmapIpv4(address: string): string {
+  const dotted = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (dotted) return dotted[1];
+  const hex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address);
+  if (!hex) return address;
+  const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+  return [high >> 8, high & 255, low >> 8, low & 255].join(".");
+}
+
+/** Loopback, private, link-local, CGNAT and unique-local ranges (IPv4, IPv6 and IPv4-mapped IPv6). */
+export function isPrivateAddress(address: string): boolean {
+  const ip = unmapIpv4(address);
+  if (net.isIPv4(ip)) {
+    const [a, b] = ip.split(".").map(Number);
+    return (
+      a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127)
+    );
+  }
+  const lower = ip.toLowerCase();
+  return lower === "::" || lower === "::1" || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+}
+
+/** Throws when the hostname is, or resolves to, a private address. */
+export async function assertPublicHost(hostname: string): Promise<void> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const addresses = net.isIP(host) ? [{ address: host }] : await dns.lookup(host, { all: true });
+  if (addresses.some((a) => isPrivateAddress(a.address))) {
+    throw new Error(`Refusing to connect to private address for ${hostname}`);
+  }
+}
@@ -0,0 +1,101 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  NOTIFICATION_EVENTS,
+  buildNotificationDigestEmail,
+  buildNotificationEmailHtml,
+  mergeNotificationPreferences,
+  mutedInAppNotificationTypes,
+  notificationSettingsSchema,
+  parseNotificationPreferences,
+} from "./notificationPreferences.js";
+
+test("parseNotificationPreferences fills every event from the catalog defaults", () => {
+  const prefs = parseNotificationPreferences(null);
+  assert.equal(prefs.emailReports, true);
+  assert.equal(prefs.weeklyDigest, false);
+  assert.equal(prefs.webhookUrl, null);
+  for (const event of NOTIFICATION_EVENTS) {
+    assert.deepEqual(prefs.routing[event.id], event.defaults);
+  }
+});
+
+test("parseNotificationPreferences keeps stored cells, ignores junk and maps the legacy webDesign toggle", () => {
+  const prefs = parseNotificationPreferences({
+    teamUpdates: false,
+    webDesign: false,
+    routing: { approvals: { email: false, digest: true, webhook: "yes" }, unknown_event: { email: true } },
+    webhookUrl: "  https://hooks.example.com/abc  ",
+  });
+  assert.equal(prefs.teamUpdates, false);
+  assert.deepEqual(prefs.routing.approvals, { inApp: true, email: false, digest: true, webhook: false });
+  assert.deepEqual(prefs.routing.web_design, { inApp: false, email: false, digest: false, webhook: false });
+  assert.equal(prefs.webhookUrl, "https://hooks.example.com/abc");
+  assert.equal("unknown_event" in prefs.routing, false);
+
+  // An explicit routing cell wins over the legacy toggle
+  const overridden = parseNotificationPreferences({ webDesign: false, routing: { web_design: { email: true } } });
+  assert.equal(overridden.routing.web_design.email, true);
+  assert.equal(overridden.routing.web_design.inApp, false);
+});
+
+test("mergeNotificationPreferences only changes the cells in the patch", () => {
+  const current = parseNotificationPreferences({ routing: { task_activity: { email: true } }, webhookUrl: "https://a.example.com" });
+  const patch = notificationSettingsSchema.parse({ routing: { task_activity: { digest: false } }, rankingAlerts: false });
+  const next = mergeNotificationPreferences(current, patch);
+  assert.deepEqual(next.routing.task_activity, { inApp: true, email: true, digest: false, webhook: false });
+  assert.deepEqual(next.routing.approvals, current.routing.approvals);
+  assert.equal(next.rankingAlerts, false);
+  assert.equal(next.webhookUrl, "https://a.example.com");
+
+  const cleared = mergeNotificationPreferences(next, notificationSettingsSchema.parse({ webhookUrl: "" }));
+  assert.equal(cleared.webhookUrl, null);
+});
+
+test("mergeNotificationPreferences creates a signing secret with the webhook URL and drops it with the URL", () => {
+  const withUrl = mergeNotificationPreferences(
+    parseNotificationPreferences({}),
+    notificationSettingsSchema.parse({ webhookUrl: "https://hooks.example.com/a" })
+  );
+  assert.match(withUrl.webhookSecret ?? "", /^whsec_/);
+
+  const moved = mergeNotificationPreferences(withUrl, notificationSettingsSchema.parse({ webhookUrl: "https://hooks.example.com/b" }));
+  assert.equal(moved.webhookSecret, withUrl.webhookSecret);
+  assert.equal(parseNotificationPreferences(moved).webhookSecret, withUrl.webhookSecret);
+
+  const cleared = mergeNotificationPreferences(moved, notificationSettingsSchema.parse({ webhookUrl: null }));
+  assert.equal(cleared.webhookSecret, null);
+});
+
+test("notificationSettingsSchema rejects unknown events and non-http webhook URLs", () => {
+  assert.equal(notificationSettingsSchema.safeParse({ routing: { nope: { email: true } } }).success, false);
+  assert.equal(notificationSettingsSchema.safeParse({ webhookUrl: "ftp://example.com/hook" }).success, false);
+  assert.equal(notificationSettingsSchema.safeParse({ webhookUrl: "https://hooks.slack.com/services/T/B/x" }).success, true);
+});
+
+test("mutedInAppNotificationTypes lists agency-wide types of events switched off in-app", () => {
+  const prefs = parseNotificationPreferences({ routing: { payment_failures: { inApp: false }, task_activity: { inApp: false } } });
+  assert.deepEqual(mutedInAppNotificationTypes(prefs), ["payment_failed", "plan_upgrade", "plan_downgrade", "subscription_canceled"]);
+  assert.deepEqual(mutedInAppNotificationTypes(parseNotificationPreferences({})), []);
+});
+
+test("digest email groups items by event in catalog order and escapes user text", () => {
+  const createdAt = new Date("2026-05-01T10:00:00Z");
+  const { subject, html } = buildNotificationDigestEmail("Ada Lovelace", [
+    { event: "web_design", title: "New feedback", message: "<b>Looks</b> good", link: null, createdAt },
+    { event: "task_activity", title: "Task completed", message: "Fix header", link: "/agency/tasks?taskId=t1", createdAt },
+    { event: "task_activity", title: "Comment", message: "Done?", link: null, createdAt },
+  ]);
+  assert.match(subject, /^Your daily digest: 3 updates/);
+  assert.ok(html.includes("Hi Ada,"));
+  assert.ok(html.indexOf("Task activity (2)") < html.indexOf("Web design feedback (1)"));
+  assert.ok(html.includes("&lt;b&gt;Looks&lt;/b&gt; good"));
+  assert.ok(html.includes("/agency/tasks?taskId=t1"));
+});
+
+test("buildNotificationEmailHtml escapes content and omits the button without a link", () => {
+  const html = buildNotificationEmailHtml({ title: "A & B", message: "<script>x</script>", link: null });
+  assert.ok(html.includes("A &amp; B"));
+  assert.ok(!html.includes("<script>"));
+  assert.ok(!html.includes("Open in Dashboard"));
+});
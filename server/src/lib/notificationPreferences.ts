@@ -0,0 +1,454 @@
+/**
+ * Per-user notification routing.
+ * Every event type can go to any mix of channels: the in-app bell, an immediate email, the once-a-day digest email and
+ * the user's own webhook URL (Slack, Zapier, ...). The matrix is stored in User.notificationPreferences next to the older
+ * boolean toggles. Senders describe the event once and call deliverNotification, which applies each recipient's routing.
+ */
+import { z } from "zod";
+import { prisma } from "./prisma.js";
+import { sendEmail } from "./email.js";
+import {
+  SIGNATURE_HEADER,
+  assertWebhookUrlAllowed,
+  generateWebhookSecret,
+  isAllowedWebhookUrl,
+  signWebhookPayload,
+} from "./webhooks.js";
+import { BRAND_DISPLAY_NAME } from "./qualityContracts.js";
+
+export const NOTIFICATION_CHANNELS = [
+  { id: "inApp", label: "In-app" },
+  { id: "email", label: "Email" },
+  { id: "digest", label: "Daily digest" },
+  { id: "webhook", label: "Webhook" },
+] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number]["id"];
+
+export type NotificationChannelRouting = Record<NotificationChannel, boolean>;
+
+type NotificationEventDefinition = {
+  id: string;
+  label: string;
+  description: string;
+  defaults: NotificationChannelRouting;
+  /** Notification.type values written once per agency (userId null); the bell hides them when in-app is off. */
+  agencyNotificationTypes: string[];
+};
+
+export const NOTIFICATION_EVENTS = [
+  {
+    id: "task_activity",
+    label: "Task activity",
+    description: "Comments, status changes and completed tasks.",
+    defaults: { inApp: true, email: false, digest: true, webhook: false },
+    agencyNotificationTypes: [],
+  },
+  {
+    id: "approvals",
+    label: "Approvals & questions",
+    description: "Approval requests, approvals, revision requests and questions on tasks.",
+    defaults: { inApp: true, email: true, digest: false, webhook: false },
+    agencyNotificationTypes: [],
+  },
+  {
+    id: "managed_service",
+    label: "Managed services",
+    description: "Managed service requests and their approval or rejection.",
+    defaults: { inApp: true, email: true, digest: false, webhook: false },
+    agencyNotificationTypes: ["managed_service_requested", "managed_service_approved", "managed_service_rejected"],
+  },
+  {
+    id: "payment_failures",
+    label: "Payment failures & billing",
+    description: "Failed charges, plan changes and cancellations.",
+    defaults: { inApp: true, email: true, digest: false, webhook: false },
+    agencyNotificationTypes: ["payment_failed", "plan_upgrade", "plan_downgrade", "subscription_canceled"],
+  },
+  {
+    id: "campaign_wins",
+    label: "Campaign wins",
+    description: "Keyword, traffic and visibility wins detected for your clients.",
+    defaults: { inApp: true, email: false, digest: true, webhook: false },
+    agencyNotificationTypes: [],
+  },
+  {
+    id: "web_design",
+    label: "Web design feedback",
+    description: "Page uploads, feedback and approvals on web design projects.",
+    defaults: { inApp: true, email: true, digest: false, webhook: false },
+    agencyNotificationTypes: [],
+  },
+] as const satisfies readonly NotificationEventDefinition[];
+
+export type NotificationEventId = (typeof NOTIFICATION_EVENTS)[number]["id"];
+
+export type NotificationPreferences = {
+  emailReports: boolean;
+  rankingAlerts: boolean;
+  weeklyDigest: boolean;
+  teamUpdates: boolean;
+  routing: Record<NotificationEventId, NotificationChannelRouting>;
+  /** Receives a JSON POST for events routed to the webhook channel. */
+  webhookUrl: string | null;
+  /** Signs those POSTs like agency webhooks (X-Webhook-Signature); created when a URL is first saved. */
+  webhookSecret: string | null;
+};
+
+const eventIds = NOTIFICATION_EVENTS.map((e) => e.id) as [NotificationEventId, ...NotificationEventId[]];
+const channelIds = NOTIFICATION_CHANNELS.map((c) => c.id);
+
+const DIGEST_MAX_ITEMS_PER_EMAIL = 100;
+const DIGEST_BATCH_SIZE = 5000;
+const DIGEST_RETENTION_DAYS = 30;
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+/** Fills every event and channel, falling back to the catalog defaults. The legacy `webDesign: false` toggle mutes web design. */
+export function parseNotificationPreferences(raw: unknown): NotificationPreferences {
+  const prefs = asRecord(raw);
+  const bool = (key: string, fallback: boolean) => (typeof prefs[key] === "boolean" ? (prefs[key] as boolean) : fallback);
+  const storedRouting = asRecord(prefs.routing);
+
+  const routing = {} as Record<NotificationEventId, NotificationChannelRouting>;
+  for (const event of NOTIFICATION_EVENTS) {
+    const defaults: NotificationChannelRouting =
+      event.id === "web_design" && prefs.webDesign === false
+        ? { ...event.defaults, inApp: false, email: false }
+        : event.defaults;
+    const stored = asRecord(storedRouting[event.id]);
+    routing[event.id] = { ...defaults };
+    for (const channel of channelIds) {
+      if (typeof stored[channel] === "boolean") routing[event.id][channel] = stored[channel] as boolean;
+    }
+  }
+
+  const webhookUrl = typeof prefs.webhookUrl === "string" ? prefs.webhookUrl.trim() : "";
+  const webhookSecret = typeof prefs.webhookSecret === "string" ? prefs.webhookSecret : "";
+  return {
+    emailReports: bool("emailReports", true),
+    rankingAlerts: bool("rankingAlerts", true),
+    weeklyDigest: bool("weeklyDigest", false),
+    teamUpdates: bool("teamUpdates", true),
+    routing,
+    webhookUrl: webhookUrl || null,
+    webhookSecret: webhookSecret || null,
+  };
+}
+
+const channelRoutingPatchSchema = z.object({
+  inApp: z.boolean().optional(),
+  email: z.boolean().optional(),
+  digest: z.boolean().optional(),
+  webhook: z.boolean().optional(),
+});
+
+export const notificationSettingsSchema = z.object({
+  emailReports: z.boolean().optional(),
+  rankingAlerts: z.boolean().optional(),
+  weeklyDigest: z.boolean().optional(),
+  teamUpdates: z.boolean().optional(),
+  routing: z.record(z.enum(eventIds), channelRoutingPatchSchema).optional(),
+  webhookUrl: z
+    .union([
+      z.string().trim().url().max(2048).refine(isAllowedWebhookUrl, "URL must be a public http(s) address"),
+      z.literal(""),
+      z.null(),
+    ])
+    .optional(),
+});
+
+export type NotificationSettingsPatch = z.infer<typeof notificationSettingsSchema>;
+
+export function mergeNotificationPreferences(
+  current: NotificationPreferences,
+  patch: NotificationSettingsPatch
+): NotificationPreferences {
+  const routing = { ...current.routing };
+  for (const [eventId, channels] of Object.entries(patch.routing ?? {}) as Array<[NotificationEventId, Partial<NotificationChannelRouting>]>) {
+    const next = { ...routing[eventId] };
+    for (const channel of channelIds) {
+      if (typeof channels[channel] === "boolean") next[channel] = channels[channel] as boolean;
+    }
+    routing[eventId] = next;
+  }
+  const webhookUrl = patch.webhookUrl === undefined ? current.webhookUrl : patch.webhookUrl || null;
+  return {
+    emailReports: patch.emailReports ?? current.emailReports,
+    rankingAlerts: patch.rankingAlerts ?? current.rankingAlerts,
+    weeklyDigest: patch.weeklyDigest ?? current.weeklyDigest,
+    teamUpdates: patch.teamUpdates ?? current.teamUpdates,
+    routing,
+    webhookUrl,
+    webhookSecret: webhookUrl ? current.webhookSecret ?? generateWebhookSecret() : null,
+  };
+}
+
+/** Agency-wide Notification.type values this user has switched off in the bell. */
+export function mutedInAppNotificationTypes(prefs: NotificationPreferences): string[] {
+  return NOTIFICATION_EVENTS.flatMap((event) => (prefs.routing[event.id].inApp ? [] : event.agencyNotificationTypes));
+}
+
+export function notificationEventLabel(eventId: string): string {
+  return NOTIFICATION_EVENTS.find((e) => e.id === eventId)?.label ?? "Other";
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export function toAbsoluteAppLink(path: string | null | undefined): string | null {
+  if (!path) return null;
+  if (/^https?:\/\//i.test(path)) return path;
+  const base = String(process.env.FRONTEND_URL || "").trim().replace(/\/+$/, "");
+  if (!base) return path;
+  return `${base}${path.startsWith("/") ? path : `/${path}`}`;
+}
+
+/** Immediate email used when the sender has no purpose-built template. */
+export function buildNotificationEmailHtml(input: { title: string; message: string; link?: string | null }): string {
+  const link = toAbsoluteAppLink(input.link);
+  return `
+    <div style="font-family: Arial, sans-serif; line-height: 1.5; color: #111827;">
+      <h3 style="margin: 0 0 10px;">${escapeHtml(input.title)}</h3>
+      <p style="margin: 0 0 12px; white-space: pre-line;">${escapeHtml(input.message)}</p>
+      ${
+        link
+          ? `<p style="margin: 12px 0 0;"><a href="${escapeHtml(link)}" style="display: inline-block; background: #2563eb; color: #ffffff; text-decoration: none; padding: 8px 12px; border-radius: 6px;">Open in Dashboard</a></p>`
+          : ""
+      }
+    </div>
+  `;
+}
+
+export type DigestEmailItem = {
+  event: string;
+  title: string;
+  message: string;
+  link: string | null;
+  createdAt: Date;
+};
+
+/** One email for a user's pending digest items, grouped by event type in catalog order. */
+export function buildNotificationDigestEmail(recipientName: string | null, items: DigestEmailItem[]): { subject: string; html: string } {
+  const shown = items.slice(0, DIGEST_MAX_ITEMS_PER_EMAIL);
+  const order = new Map<string, number>(NOTIFICATION_EVENTS.map((e, i) => [e.id, i]));
+  const groups = new Map<string, DigestEmailItem[]>();
+  for (const item of shown) {
+    const group = groups.get(item.event) ?? [];
+    group.push(item);
+    groups.set(item.event, group);
+  }
+  const sortedGroups = [...groups.entries()].sort(
+    ([a], [b]) => (order.get(a) ?? Number.MAX_SAFE_INTEGER) - (order.get(b) ?? Number.MAX_SAFE_INTEGER)
+  );
+
+  const sections = sortedGroups
+    .map(([eventId, groupItems]) => {
+      const rows = groupItems
+        .map((item) => {
+          const link = toAbsoluteAppLink(item.link);
+          return `
+          <li style="margin: 0 0 10px;">
+            <strong>${escapeHtml(item.title)}</strong><br />
+            <span style="color: #4b5563;">${escapeHtml(item.message)}</span>
+            ${link ? `<br /><a href="${escapeHtml(link)}" style="color: #2563eb;">Open</a>` : ""}
+          </li>`;
+        })
+        .join("");
+      return `
+        <h4 style="margin: 18px 0 8px; font-size: 15px;">${escapeHtml(notificationEventLabel(eventId))} (${groupItems.length})</h4>
+        <ul style="margin: 0; padding-left: 18px;">${rows}</ul>`;
+    })
+    .join("");
+
+  const hidden = items.length - shown.length;
+  const greetingName = String(recipientName || "").trim().split(/\s+/)[0] || "there";
+  return {
+    subject: `Your daily digest: ${items.length} update${items.length === 1 ? "" : "s"} - ${BRAND_DISPLAY_NAME}`,
+    html: `
+    <div style="font-family: Arial, sans-serif; line-height: 1.5; color: #111827;">
+      <h3 style="margin: 0 0 10px;">Your daily digest</h3>
+      <p style="margin: 0 0 6px;">Hi ${escapeHtml(greetingName)}, here is what happened since your last digest.</p>
+      ${sections}
+      ${hidden > 0 ? `<p style="margin: 16px 0 0; color: #6b7280;">And ${hidden} more in your dashboard.</p>` : ""}
+      <p style="margin: 20px 0 0; font-size: 12px; color: #6b7280;">Choose which updates arrive here under Settings &rarr; Notifications.</p>
+    </div>
+  `,
+  };
+}
+
+/**
+ * Redirects are not followed (a 3xx counts as a failure), so a public URL cannot bounce the request to an internal one.
+ * Preferences saved before webhook secrets existed have none until the URL is saved again; those posts go out unsigned.
+ */
+async function postNotificationWebhook(
+  hook: { url: string; secret: string | null },
+  payload: { event: NotificationEventId; type: string; title: string; message: string; link: string | null }
+): Promise<void> {
+  await assertWebhookUrlAllowed(hook.url);
+  // `text` lets Slack and Teams incoming webhooks show the event without any mapping.
+  const body = JSON.stringify({
+    ...payload,
+    createdAt: new Date().toISOString(),
+    text: [payload.title, payload.message, payload.link].filter(Boolean).join("\n"),
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+  const res = await fetch(hook.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": `${BRAND_DISPLAY_NAME} notifications`,
+      "X-Webhook-Timestamp": String(timestamp),
+      ...(hook.secret ? { [SIGNATURE_HEADER]: signWebhookPayload(hook.secret, timestamp, body) } : {}),
+    },
+    body,
+    redirect: "manual",
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+}
+
+export type NotificationRecipient = { id: string; role: string };
+
+/**
+ * Routes one event to each user through the channels they chose for it.
+ * `channels` limits which channels this call handles, for senders that already cover some channel another way.
+ * Never throws: notification problems must not break the action that produced the event.
+ */
+export async function deliverNotification(input: {
+  event: NotificationEventId;
+  userIds: Iterable<string>;
+  /** Notification.type of the in-app row. */
+  type: string;
+  agencyId?: string | null;
+  title: string;
+  message: string;
+  link?: string | ((recipient: NotificationRecipient) => string) | null;
+  /** Purpose-built immediate email; defaults to buildNotificationEmailHtml. */
+  email?: { subject: string; html: string } | null;
+  channels?: NotificationChannel[];
+}): Promise<void> {
+  const userIds = [...new Set(input.userIds)].filter(Boolean);
+  if (userIds.length === 0) return;
+  try {
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, email: true, role: true, notificationPreferences: true },
+    });
+    const handles = (channel: NotificationChannel) => !input.channels || input.channels.includes(channel);
+    const linkFor = (user: NotificationRecipient) =>
+      (typeof input.link === "function" ? input.link(user) : input.link) ?? null;
+
+    const inAppRows: Array<{ userId: string; agencyId: string | null; type: string; title: string; message: string; link: string | null }> = [];
+    const digestRows: Array<{ userId: string; event: string; title: string; message: string; link: string | null }> = [];
+    const emails: Array<{ to: string; subject: string; html: string }> = [];
+    const webhooks: Array<{ url: string; secret: string | null; link: string | null }> = [];
+
+    for (const user of users) {
+      const routing = parseNotificationPreferences(user.notificationPreferences);
+      const wants = routing.routing[input.event];
+      const link = linkFor(user);
+      if (wants.inApp && handles("inApp")) {
+        inAppRows.push({ userId: user.id, agencyId: input.agencyId ?? null, type: input.type, title: input.title, message: input.message, link });
+      }
+      if (wants.email && handles("email") && user.email) {
+        emails.push({
+          to: user.email,
+          subject: input.email?.subject ?? input.title,
+          html: input.email?.html ?? buildNotificationEmailHtml({ title: input.title, message: input.message, link }),
+        });
+      }
+      if (wants.digest && handles("digest")) {
+        digestRows.push({ userId: user.id, event: input.event, title: input.title.slice(0, 255), message: input.message, link });
+      }
+      if (wants.webhook && handles("webhook") && routing.webhookUrl) {
+        webhooks.push({ url: routing.webhookUrl, secret: routing.webhookSecret, link: toAbsoluteAppLink(link) });
+      }
+    }
+
+    if (inAppRows.length > 0) {
+      await prisma.notification
+        .createMany({ data: inAppRows })
+        .catch((e) => console.warn("[Notifications] In-app notifications failed", input.event, e?.message));
+    }
+    if (digestRows.length > 0) {
+      await prisma.notificationDigestItem
+        .createMany({ data: digestRows })
+        .catch((e) => console.warn("[Notifications] Digest queueing failed", input.event, e?.message));
+    }
+    for (const email of emails) {
+      sendEmail(email).catch((e) => console.warn("[Notifications] Email failed", email.to, e?.message));
+    }
+    for (const hook of webhooks) {
+      postNotificationWebhook(hook, {
+        event: input.event,
+        type: input.type,
+        title: input.title,
+        message: input.message,
+        link: hook.link,
+      }).catch((e) => console.warn("[Notifications] Webhook failed", input.event, e?.message));
+    }
+  } catch (error: any) {
+    console.warn("[Notifications] Delivery failed", input.event, error?.message);
+  }
+}
+
+/** Emails each user one digest of their unsent items and prunes old sent ones. Failed sends stay queued for the next run. */
+export async function sendNotificationDigests(now = new Date()): Promise<{ users: number; items: number }> {
+  const pending = await prisma.notificationDigestItem.findMany({
+    where: { sentAt: null },
+    orderBy: { createdAt: "asc" },
+    take: DIGEST_BATCH_SIZE,
+  });
+  const byUser = new Map<string, typeof pending>();
+  for (const item of pending) {
+    const list = byUser.get(item.userId) ?? [];
+    list.push(item);
+    byUser.set(item.userId, list);
+  }
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: [...byUser.keys()] } },
+    select: { id: true, email: true, name: true },
+  });
+  let sentUsers = 0;
+  let sentItems = 0;
+  let failedUsers = 0;
+  for (const user of users) {
+    const items = byUser.get(user.id) ?? [];
+    if (items.length === 0) continue;
+    if (user.email) {
+      const { subject, html } = buildNotificationDigestEmail(user.name, items);
+      try {
+        await sendEmail({ to: user.email, subject, html });
+      } catch (e: any) {
+        console.warn("[Notifications] Digest email failed", user.email, e?.message);
+        failedUsers += 1;
+        continue;
+      }
+    }
+    // Users without an email address still have their items stamped so the queue doesn't grow forever.
+    await prisma.notificationDigestItem.updateMany({
+      where: { id: { in: items.map((i) => i.id) } },
+      data: { sentAt: now },
+    });
+    sentUsers += 1;
+    sentItems += items.length;
+  }
+
+  const cutoff = new Date(now.getTime() - DIGEST_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  await prisma.notificationDigestItem.deleteMany({ where: { sentAt: { lt: cutoff } } });
+  if (failedUsers > 0) {
+    // Unsent items stay queued, so the job runner's retry picks them up
+    throw new Error(`Notification digest failed for ${failedUsers} of ${sentUsers + failedUsers} users`);
+  }
+  return { users: sentUsers, items: sentItems };
+}
@@ -0,0 +1,64 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { buildOpenApiDocument, toOpenApiPath, zodToJsonSchema } from "./openapi.js";
+
+test("zodToJsonSchema converts objects, optionals, defaults and nullables", () => {
+  const schema = z.object({
+    keyword: z.string().min(1),
+    volume: z.number().int().min(0).optional(),
+    type: z.enum(["money", "topical"]).optional().default("money"),
+    url: z.string().nullable(),
+    seenAt: z.date(),
+    tags: z.array(z.string()),
+  });
+
+  assert.deepEqual(zodToJsonSchema(schema), {
+    type: "object",
+    properties: {
+      keyword: { type: "string", minLength: 1 },
+      volume: { type: "integer", minimum: 0 },
+      type: { type: "string", enum: ["money", "topical"], default: "money" },
+      url: { type: "string", nullable: true },
+      seenAt: { type: "string", format: "date-time" },
+      tags: { type: "array", items: { type: "string" } },
+    },
+    required: ["keyword", "url", "seenAt", "tags"],
+  });
+});
+
+test("zodToJsonSchema unwraps refinements and coercions", () => {
+  assert.deepEqual(zodToJsonSchema(z.string().refine((v) => v.includes(":"))), { type: "string" });
+  assert.deepEqual(zodToJsonSchema(z.coerce.number().int().max(100)), { type: "integer", maximum: 100 });
+});
+
+test("buildOpenApiDocument maps express paths, parameters and scopes", () => {
+  const doc = buildOpenApiDocument({
+    title: "Test",
+    version: "1.0.0",
+    serverUrl: "http://localhost/api/v1",
+    operations: [
+      {
+        method: "get",
+        path: "/clients/:clientId/history",
+        summary: "History",
+        tag: "Keywords",
+        scope: "keywords:read",
+        query: z.object({ days: z.coerce.number().optional() }),
+        response: z.object({ ok: z.boolean() }),
+      },
+    ],
+  }) as any;
+
+  assert.equal(toOpenApiPath("/a/:b/c/:d"), "/a/{b}/c/{d}");
+  const op = doc.paths["/clients/{clientId}/history"].get;
+  assert.deepEqual(
+    op.parameters.map((p: any) => [p.name, p.in, p.required]),
+    [
+      ["clientId", "path", true],
+      ["days", "query", false],
+    ]
+  );
+  assert.equal(op["x-required-scope"], "keywords:read");
+  assert.deepEqual(op.responses["200"].content["application/json"].schema.required, ["ok"]);
+});
@@ -0,0 +1,191 @@
+/**
+ * Minimal OpenAPI 3 generation for the public /api/v1 surface.
+ * Request and response shapes are the same zod schemas the routes validate with, converted to JSON Schema here,
+ * so the document cannot drift from what the handlers accept.
+ */
+import { z, ZodFirstPartyTypeKind, type ZodTypeAny } from "zod";
+
+export type JsonSchema = Record<string, unknown>;
+
+export type ApiOperation = {
+  method: "get" | "post" | "patch" | "delete";
+  /** Express-style path relative to the API base, e.g. "/clients/:clientId". */
+  path: string;
+  summary: string;
+  tag: string;
+  /** Scope an API key needs; omitted for public endpoints. */
+  scope?: string;
+  query?: z.AnyZodObject;
+  body?: ZodTypeAny;
+  response: ZodTypeAny;
+  responseStatus?: number;
+};
+
+/** Convert a zod schema to JSON Schema (the subset OpenAPI 3.0 understands). */
+export function zodToJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const def = schema._def as any;
+  const withDescription = (json: JsonSchema): JsonSchema =>
+    schema.description ? { ...json, description: schema.description } : json;
+
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodString: {
+      const json: JsonSchema = { type: "string" };
+      for (const check of def.checks ?? []) {
+        if (check.kind === "min") json.minLength = check.value;
+        else if (check.kind === "max") json.maxLength = check.value;
+        else if (check.kind === "email") json.format = "email";
+        else if (check.kind === "url") json.format = "uri";
+        else if (check.kind === "datetime") json.format = "date-time";
+        else if (check.kind === "uuid") json.format = "uuid";
+      }
+      return withDescription(json);
+    }
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const json: JsonSchema = { type: "number" };
+      for (const check of def.checks ?? []) {
+        if (check.kind === "int") json.type = "integer";
+        else if (check.kind === "min") json[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+        else if (check.kind === "max") json[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+      }
+      return withDescription(json);
+    }
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return withDescription({ type: "boolean" });
+    case ZodFirstPartyTypeKind.ZodDate:
+      return withDescription({ type: "string", format: "date-time" });
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return withDescription({ enum: [def.value] });
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return withDescription({ type: "string", enum: [...def.values] });
+    case ZodFirstPartyTypeKind.ZodNativeEnum:
+      // Numeric TS enums carry reverse mappings (1 -> "A"); keep only the real members.
+      return withDescription({
+        enum: Object.keys(def.values)
+          .filter((key) => Number.isNaN(Number(key)))
+          .map((key) => def.values[key]),
+      });
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const json: JsonSchema = { type: "array", items: zodToJsonSchema(def.type) };
+      if (def.minLength) json.minItems = def.minLength.value;
+      if (def.maxLength) json.maxItems = def.maxLength.value;
+      return withDescription(json);
+    }
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, ZodTypeAny>;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = zodToJsonSchema(value);
+        if (!value.isOptional()) required.push(key);
+      }
+      const json: JsonSchema = { type: "object", properties };
+      if (required.length) json.required = required;
+      return withDescription(json);
+    }
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return withDescription({ type: "object", additionalProperties: zodToJsonSchema(def.valueType) });
+    case ZodFirstPartyTypeKind.ZodUnion:
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion: {
+      const options: ZodTypeAny[] = Array.isArray(def.options) ? def.options : [...def.options.values()];
+      return withDescription({ oneOf: options.map(zodToJsonSchema) });
+    }
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema(def.innerType);
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return { ...zodToJsonSchema(def.innerType), nullable: true };
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodToJsonSchema(def.innerType), default: def.defaultValue() };
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return withDescription(zodToJsonSchema(def.schema));
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return zodToJsonSchema(def.in);
+    case ZodFirstPartyTypeKind.ZodLazy:
+      return zodToJsonSchema(def.getter());
+    default:
+      // unknown/any/unsupported: accept anything
+      return withDescription({});
+  }
+}
+
+/** "/clients/:clientId" -> "/clients/{clientId}" */
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, "{$1}");
+}
+
+export function buildOpenApiDocument(params: {
+  title: string;
+  version: string;
+  description?: string;
+  serverUrl: string;
+  operations: ApiOperation[];
+}): JsonSchema {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const op of params.operations) {
+    const pathParams = [...op.path.matchAll(/:([A-Za-z0-9_]+)/g)].map((m) => ({
+      name: m[1],
+      in: "path",
+      required: true,
+      schema: { type: "string" },
+    }));
+    const queryParams = op.query
+      ? Object.entries(op.query.shape as Record<string, ZodTypeAny>).map(([name, value]) => ({
+          name,
+          in: "query",
+          required: !value.isOptional(),
+          schema: zodToJsonSchema(value),
+        }))
+      : [];
+
+    const operation: Record<string, unknown> = {
+      summary: op.summary,
+      tags: [op.tag],
+      parameters: [...pathParams, ...queryParams],
+      responses: {
+        [String(op.responseStatus ?? 200)]: {
+          description: "Success",
+          content: { "application/json": { schema: zodToJsonSchema(op.response) } },
+        },
+        ...(op.scope
+          ? {
+              "401": { description: "Missing, invalid, revoked or expired credentials" },
+              "403": { description: `API key lacks the ${op.scope} scope or the client is outside the key's agency` },
+              "429": { description: "Per-key rate limit exceeded; see the X-RateLimit-* and Retry-After headers" },
+            }
+          : {}),
+      },
+    };
+    if (op.scope) {
+      operation.security = [{ apiKey: [] }, { bearerAuth: [] }];
+      operation["x-required-scope"] = op.scope;
+    } else {
+      operation.security = [];
+    }
+    if (op.body) {
+      operation.requestBody = {
+        required: true,
+        content: { "application/json": { schema: zodToJsonSchema(op.body) } },
+      };
+    }
+
+    const path = toOpenApiPath(op.path);
+    paths[path] = { ...(paths[path] ?? {}), [op.method]: operation };
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: params.title,
+      version: params.version,
+      ...(params.description ? { description: params.description } : {}),
+    },
+    servers: [{ url: params.serverUrl }],
+    components: {
+      securitySchemes: {
+        apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+        bearerAuth: { type: "http", scheme: "bearer", description: "An API key (dmk_…) or a dashboard JWT" },
+      },
+    },
+    paths,
+  };
+}
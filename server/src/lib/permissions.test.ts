@@ -0,0 +1,100 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  PERMISSION_IDS,
+  builtInRoleFor,
+  canAccessClient,
+  checkPermission,
+  customRoleSchema,
+  parseStoredPermissions,
+  resolvePermissions,
+  restrictedClientIds,
+  type MemberAccess,
+  type Permission,
+} from "./permissions.js";
+
+const member = (overrides: Partial<MemberAccess> = {}): MemberAccess => ({
+  platformRole: "SPECIALIST",
+  agencyRole: "SPECIALIST",
+  customRolePermissions: null,
+  restrictClientAccess: false,
+  allowedClientIds: [],
+  ...overrides,
+});
+
+// Expected permissions of the built-in roles, one row per (platform role, agency role) combination that exists
+const MATRIX: Array<{ name: string; access: MemberAccess; permissions: Permission[] }> = [
+  { name: "super admin", access: member({ platformRole: "SUPER_ADMIN", agencyRole: null }), permissions: [...PERMISSION_IDS] },
+  { name: "platform admin", access: member({ platformRole: "ADMIN", agencyRole: null }), permissions: [...PERMISSION_IDS] },
+  { name: "agency owner", access: member({ platformRole: "AGENCY", agencyRole: "OWNER" }), permissions: [...PERMISSION_IDS] },
+  { name: "agency account invited as member", access: member({ platformRole: "AGENCY", agencyRole: "SPECIALIST" }), permissions: [...PERMISSION_IDS] },
+  {
+    name: "manager",
+    access: member({ agencyRole: "MANAGER" }),
+    permissions: ["edit_clients", "run_snapshots", "spend_research_credits", "invite_users"],
+  },
+  { name: "specialist", access: member(), permissions: ["spend_research_credits"] },
+  { name: "designer", access: member({ platformRole: "DESIGNER" }), permissions: ["spend_research_credits"] },
+  { name: "user without agency", access: member({ platformRole: "SPECIALIST", agencyRole: null }), permissions: [] },
+  { name: "client portal user", access: member({ platformRole: "USER", agencyRole: null }), permissions: [] },
+];
+
+test("built-in roles grant the documented permission matrix", () => {
+  for (const row of MATRIX) {
+    assert.deepEqual(resolvePermissions(row.access), row.permissions, row.name);
+    for (const permission of PERMISSION_IDS) {
+      assert.equal(checkPermission(row.access, permission).allowed, row.permissions.includes(permission), `${row.name}: ${permission}`);
+    }
+  }
+});
+
+test("a custom role replaces the built-in set, except for owners and platform admins", () => {
+  const custom: Permission[] = ["view_financials", "run_snapshots"];
+  assert.deepEqual(resolvePermissions(member({ customRolePermissions: custom })), ["view_financials", "run_snapshots"]);
+  assert.deepEqual(resolvePermissions(member({ agencyRole: "MANAGER", customRolePermissions: [] })), []);
+  assert.deepEqual(resolvePermissions(member({ platformRole: "AGENCY", customRolePermissions: ["edit_clients"] })), ["edit_clients"]);
+  assert.deepEqual(resolvePermissions(member({ agencyRole: "OWNER", customRolePermissions: [] })), [...PERMISSION_IDS]);
+  assert.deepEqual(resolvePermissions(member({ platformRole: "ADMIN", customRolePermissions: [] })), [...PERMISSION_IDS]);
+});
+
+test("builtInRoleFor treats agency accounts as owners", () => {
+  assert.equal(builtInRoleFor("AGENCY", "SPECIALIST"), "OWNER");
+  assert.equal(builtInRoleFor("SPECIALIST", "MANAGER"), "MANAGER");
+  assert.equal(builtInRoleFor("DESIGNER", "SPECIALIST"), "SPECIALIST");
+});
+
+test("client restrictions limit members but never owners or platform admins", () => {
+  const restricted = member({ agencyRole: "MANAGER", restrictClientAccess: true, allowedClientIds: ["c1"] });
+  assert.deepEqual(restrictedClientIds(restricted), ["c1"]);
+  assert.equal(canAccessClient(restricted, "c1"), true);
+  assert.equal(canAccessClient(restricted, "c2"), false);
+  assert.equal(checkPermission(restricted, "edit_clients", "c1").allowed, true);
+  const denied = checkPermission(restricted, "edit_clients", "c2");
+  assert.equal(denied.allowed, false);
+  assert.match(denied.message ?? "", /this client/);
+
+  assert.equal(restrictedClientIds(member({ restrictClientAccess: false, allowedClientIds: ["c1"] })), null);
+  assert.equal(restrictedClientIds(member({ agencyRole: "OWNER", restrictClientAccess: true })), null);
+  assert.equal(restrictedClientIds(member({ platformRole: "SUPER_ADMIN", restrictClientAccess: true })), null);
+  // Restricted to nothing means no client at all
+  assert.equal(canAccessClient(member({ restrictClientAccess: true }), "c1"), false);
+});
+
+test("checkPermission names the missing permission", () => {
+  const result = checkPermission(member(), "manage_billing");
+  assert.equal(result.allowed, false);
+  assert.equal(result.message, "Access denied. Your role does not allow you to manage billing.");
+});
+
+test("parseStoredPermissions keeps known ids in catalogue order", () => {
+  assert.deepEqual(parseStoredPermissions(["manage_billing", "nope", "view_financials", 3]), ["view_financials", "manage_billing"]);
+  assert.deepEqual(parseStoredPermissions(null), []);
+  assert.deepEqual(parseStoredPermissions({ view_financials: true }), []);
+});
+
+test("customRoleSchema rejects unknown permissions and blank names", () => {
+  assert.equal(customRoleSchema.safeParse({ name: "Analyst", permissions: ["view_financials"] }).success, true);
+  assert.equal(customRoleSchema.safeParse({ name: "Analyst", permissions: ["delete_agency"] }).success, false);
+  assert.equal(customRoleSchema.safeParse({ name: "   ", permissions: [] }).success, false);
+  assert.equal(customRoleSchema.parse({ name: " Analyst ", description: "", permissions: [] }).description, null);
+});
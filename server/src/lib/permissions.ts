@@ -0,0 +1,177 @@
+/**
+ * Agency permissions: a fixed catalogue of actions, the built-in set each agency role gets, and agency-defined custom
+ * roles that replace that set for the members they are assigned to. Members can also be limited to a list of clients.
+ * Routes call authorize() instead of comparing roles themselves; PERMISSIONS.md documents the matrix.
+ */
+import type { Request, Response } from "express";
+import type { AgencyRole } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "./prisma.js";
+import { resolveClientAgencyId } from "./auditLog.js";
+
+export const PERMISSIONS = [
+  { id: "view_financials", label: "View financials", description: "Subscription activity, revenue and billing history." },
+  { id: "edit_clients", label: "Edit clients", description: "Create, import and edit client dashboards." },
+  { id: "run_snapshots", label: "Run snapshots", description: "Run on-demand local map snapshots (uses snapshot credits)." },
+  { id: "spend_research_credits", label: "Spend research credits", description: "Keyword and domain research that uses research credits." },
+  { id: "invite_users", label: "Invite users", description: "Invite specialists and designers to the agency." },
+  { id: "manage_billing", label: "Manage billing", description: "Change plan, payment method and add-ons, or cancel the subscription." },
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number]["id"];
+
+export const PERMISSION_IDS = PERMISSIONS.map((p) => p.id) as [Permission, ...Permission[]];
+
+export type BuiltInRole = AgencyRole;
+
+export const BUILT_IN_ROLES: Array<{ id: BuiltInRole; label: string; permissions: Permission[] }> = [
+  { id: "OWNER", label: "Owner", permissions: [...PERMISSION_IDS] },
+  { id: "MANAGER", label: "Manager", permissions: ["edit_clients", "run_snapshots", "spend_research_credits", "invite_users"] },
+  { id: "SPECIALIST", label: "Specialist", permissions: ["spend_research_credits"] },
+];
+
+export const MAX_CUSTOM_ROLES_PER_AGENCY = 20;
+
+/** What decides a caller's permissions: their platform role and, for agency members, their membership. */
+export type MemberAccess = {
+  platformRole: string;
+  agencyRole: AgencyRole | null;
+  /** Permissions of the assigned custom role; null uses the built-in set. */
+  customRolePermissions: Permission[] | null;
+  restrictClientAccess: boolean;
+  allowedClientIds: string[];
+};
+
+export function isPlatformAdmin(role: string): boolean {
+  return role === "ADMIN" || role === "SUPER_ADMIN";
+}
+
+/**
+ * Built-in role a member's permissions come from. Agency accounts (platform role AGENCY) run their agency even when
+ * their membership row says SPECIALIST (older invites), so they are treated as owners.
+ */
+export function builtInRoleFor(platformRole: string, agencyRole: AgencyRole): BuiltInRole {
+  if (agencyRole === "OWNER" || platformRole === "AGENCY") return "OWNER";
+  return agencyRole;
+}
+
+/** Keeps known permission ids from a stored JSON value, in catalogue order. */
+export function parseStoredPermissions(raw: unknown): Permission[] {
+  if (!Array.isArray(raw)) return [];
+  return PERMISSION_IDS.filter((id) => raw.includes(id));
+}
+
+export function resolvePermissions(member: MemberAccess): Permission[] {
+  if (isPlatformAdmin(member.platformRole)) return [...PERMISSION_IDS];
+  if (!member.agencyRole || member.platformRole === "USER") return [];
+  // Owners cannot be locked out of their own agency by a custom role
+  if (member.agencyRole === "OWNER") return [...PERMISSION_IDS];
+  if (member.customRolePermissions) return PERMISSION_IDS.filter((id) => member.customRolePermissions!.includes(id));
+  const builtIn = BUILT_IN_ROLES.find((role) => role.id === builtInRoleFor(member.platformRole, member.agencyRole!));
+  return builtIn ? [...builtIn.permissions] : [];
+}
+
+/** Clients the member is limited to, or null when they may see every client of the agency. */
+export function restrictedClientIds(member: MemberAccess): string[] | null {
+  if (isPlatformAdmin(member.platformRole) || member.agencyRole === "OWNER") return null;
+  return member.restrictClientAccess ? member.allowedClientIds : null;
+}
+
+export function canAccessClient(member: MemberAccess, clientId: string): boolean {
+  const allowed = restrictedClientIds(member);
+  return allowed === null || allowed.includes(clientId);
+}
+
+export function checkPermission(
+  member: MemberAccess,
+  permission: Permission,
+  clientId?: string | null
+): { allowed: boolean; message?: string } {
+  if (!resolvePermissions(member).includes(permission)) {
+    const label = PERMISSIONS.find((p) => p.id === permission)?.label ?? permission;
+    return { allowed: false, message: `Access denied. Your role does not allow you to ${label.toLowerCase()}.` };
+  }
+  if (clientId && !canAccessClient(member, clientId)) {
+    return { allowed: false, message: "Access denied. You do not have access to this client." };
+  }
+  return { allowed: true };
+}
+
+export const customRoleSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  description: z
+    .string()
+    .trim()
+    .max(500)
+    .optional()
+    .nullable()
+    .transform((value) => value || null),
+  permissions: z.array(z.enum(PERMISSION_IDS)).max(PERMISSION_IDS.length),
+});
+
+export const memberAccessSchema = z.object({
+  customRoleId: z.string().min(1).nullable().optional(),
+  restrictClientAccess: z.boolean().optional(),
+  clientIds: z.array(z.string().min(1)).max(500).optional(),
+});
+
+export type AgencyAccess = MemberAccess & { agencyId: string | null; permissions: Permission[] };
+
+/**
+ * Loads the caller's membership for an agency (their first one when agencyId is omitted). Platform admins without a
+ * membership still get every permission.
+ */
+export async function loadAgencyAccess(user: { userId: string; role: string }, agencyId?: string | null): Promise<AgencyAccess> {
+  const membership = await prisma.userAgency.findFirst({
+    where: { userId: user.userId, ...(agencyId ? { agencyId } : {}) },
+    select: {
+      agencyId: true,
+      agencyRole: true,
+      restrictClientAccess: true,
+      customRole: { select: { permissions: true } },
+      clientAccess: { select: { clientId: true } },
+    },
+  });
+  const member: MemberAccess = {
+    platformRole: user.role,
+    agencyRole: membership?.agencyRole ?? null,
+    customRolePermissions: membership?.customRole ? parseStoredPermissions(membership.customRole.permissions) : null,
+    restrictClientAccess: membership?.restrictClientAccess ?? false,
+    allowedClientIds: membership?.clientAccess.map((row) => row.clientId) ?? [],
+  };
+  return { ...member, agencyId: membership?.agencyId ?? null, permissions: resolvePermissions(member) };
+}
+
+/**
+ * Route guard: resolves the caller's access (for the client's agency when clientId is given) and sends a 403 unless
+ * they hold the permission and may see the client. Returns null when the response has been sent.
+ */
+export async function authorize(
+  req: Request,
+  res: Response,
+  permission: Permission,
+  options: { clientId?: string | null } = {}
+): Promise<AgencyAccess | null> {
+  const clientAgencyId = options.clientId ? await resolveClientAgencyId(options.clientId) : null;
+  let access = await loadAgencyAccess(req.user, clientAgencyId);
+  if (options.clientId && clientAgencyId && !access.agencyRole && !isPlatformAdmin(req.user.role)) {
+    // Clients shared with the caller's agency (ClientAgencyIncluded) belong to another agency; act under the
+    // caller's role in the agency the client is shared with, and refuse when it isn't shared with any of them.
+    const memberships = await prisma.userAgency.findMany({ where: { userId: req.user.userId }, select: { agencyId: true } });
+    const inclusion = await prisma.clientAgencyIncluded.findFirst({
+      where: { clientId: options.clientId, agencyId: { in: memberships.map((m) => m.agencyId) } },
+      select: { agencyId: true },
+    });
+    if (!inclusion) {
+      res.status(403).json({ message: "Access denied", code: "PERMISSION_DENIED", permission });
+      return null;
+    }
+    access = await loadAgencyAccess(req.user, inclusion.agencyId);
+  }
+  const check = checkPermission(access, permission, options.clientId);
+  if (!check.allowed) {
+    res.status(403).json({ message: check.message, code: "PERMISSION_DENIED", permission });
+    return null;
+  }
+  return access;
+}
@@ -42,6 +42,13 @@ test("normalizes recipients from multiple formats", () => {
   assert.deepEqual(normalizeEmailRecipients(null), []);
 });
 
+test("drops suppressed recipients regardless of case", () => {
+  const suppressed = new Set(["bounced@test.com"]);
+  assert.deepEqual(normalizeEmailRecipients('["a@test.com","Bounced@Test.com"]', suppressed), ["a@test.com"]);
+  assert.deepEqual(normalizeEmailRecipients("bounced@test.com", suppressed), []);
+  assert.deepEqual(normalizeEmailRecipients("bounced@test.com", new Set()), ["bounced@test.com"]);
+});
+
 test("builds report subject with global brand", () => {
   assert.equal(
     buildReportEmailSubject("Acme Co", "monthly"),
@@ -61,7 +61,17 @@ export function parsePeriodDays(input: unknown, fallback = 30): number {
   return parsed;
 }
 
-export function normalizeEmailRecipients(value: unknown): string[] {
+/**
+ * Recipient list from a JSON array string, an array or a comma-separated string. Addresses in `suppressed`
+ * (lowercase; see loadSuppressedEmails) are dropped.
+ */
+export function normalizeEmailRecipients(value: unknown, suppressed?: ReadonlySet<string>): string[] {
+  const recipients = parseEmailRecipients(value);
+  if (!suppressed || suppressed.size === 0) return recipients;
+  return recipients.filter((email) => !suppressed.has(email.toLowerCase()));
+}
+
+function parseEmailRecipients(value: unknown): string[] {
   if (Array.isArray(value)) {
     return value
       .map((entry) => String(entry || "").trim())
@@ -0,0 +1,55 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  audienceIncludes,
+  formatSseMessage,
+  mergeAudiences,
+  notificationAudience,
+  taskAudience,
+  type RealtimeSubscriber,
+} from "./realtime.js";
+
+const subscriber = (overrides: Partial<RealtimeSubscriber> = {}): RealtimeSubscriber => ({
+  userId: "user-1",
+  role: "AGENCY",
+  agencyIds: ["agency-1"],
+  clientIds: [],
+  ...overrides,
+});
+
+test("notificationAudience follows the bell routing: user, then agency, then platform admins", () => {
+  assert.deepEqual(notificationAudience({ userId: "user-2", agencyId: "agency-1" }), { userIds: ["user-2"] });
+  assert.deepEqual(notificationAudience({ userId: null, agencyId: "agency-1" }), { agencyIds: ["agency-1"] });
+  assert.deepEqual(notificationAudience({}), { roles: ["SUPER_ADMIN", "ADMIN"] });
+
+  assert.equal(audienceIncludes(notificationAudience({ agencyId: "agency-1" }), subscriber()), true);
+  assert.equal(audienceIncludes(notificationAudience({ agencyId: "agency-2" }), subscriber()), false);
+  assert.equal(audienceIncludes(notificationAudience({ userId: "user-2" }), subscriber()), false);
+  assert.equal(audienceIncludes(notificationAudience({}), subscriber({ role: "ADMIN", agencyIds: [] })), true);
+});
+
+test("taskAudience reaches the agency, the client portal, the assignee, the creator and admins", () => {
+  const audience = taskAudience({ agencyId: "agency-1", clientId: "client-1", assigneeId: "specialist-1", createdById: null });
+  assert.equal(audienceIncludes(audience, subscriber({ agencyIds: ["agency-1"] })), true);
+  assert.equal(audienceIncludes(audience, subscriber({ role: "USER", agencyIds: [], clientIds: ["client-1"] })), true);
+  assert.equal(audienceIncludes(audience, subscriber({ userId: "specialist-1", role: "SPECIALIST", agencyIds: [] })), true);
+  assert.equal(audienceIncludes(audience, subscriber({ role: "SUPER_ADMIN", agencyIds: [] })), true);
+  assert.equal(audienceIncludes(audience, subscriber({ agencyIds: ["agency-2"], clientIds: ["client-2"] })), false);
+});
+
+test("mergeAudiences de-duplicates and drops empty ids", () => {
+  const merged = mergeAudiences([
+    notificationAudience({ userId: "user-1" }),
+    notificationAudience({ userId: "user-1" }),
+    notificationAudience({ agencyId: "agency-1" }),
+    taskAudience({ agencyId: "agency-1", clientId: null }),
+  ]);
+  assert.deepEqual(merged, { userIds: ["user-1"], agencyIds: ["agency-1"], clientIds: [], roles: ["SUPER_ADMIN", "ADMIN"] });
+});
+
+test("formatSseMessage writes one named SSE event with a JSON payload", () => {
+  assert.equal(
+    formatSseMessage({ type: "task", taskId: "task-1", action: "updated" }),
+    'event: task\ndata: {"type":"task","taskId":"task-1","action":"updated"}\n\n'
+  );
+});
@@ -0,0 +1,297 @@
+/**
+ * Realtime push channel (Server-Sent Events).
+ * Browsers keep one stream open per tab and get small invalidation events ("a notification arrived", "task X changed")
+ * instead of polling; they then refetch through the normal, access-checked endpoints, so events only ever carry ids.
+ * Events are published automatically for Notification, Task, TaskComment and web design writes (see
+ * installRealtimePrismaHooks) and relayed between API instances through the `realtime_events` table.
+ */
+import type { Request, Response } from "express";
+import { hostname } from "os";
+import { randomBytes } from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma.js";
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+const CLIENT_RETRY_MS = 5 * 1000;
+const RELAY_POLL_INTERVAL_MS = 1500;
+const RELAY_BATCH_SIZE = 500;
+const RELAY_RETENTION_MS = 10 * 60 * 1000;
+/** Writes inside an interactive transaction are only visible to other connections once it commits. */
+const TRANSACTION_SETTLE_MS = 500;
+const MAX_STREAMS_PER_USER = 10;
+
+const ADMIN_ROLES = ["SUPER_ADMIN", "ADMIN"];
+
+export type RealtimeEvent =
+  | { type: "notification" }
+  /** taskId is null for bulk creates; listeners refetch the list. */
+  | { type: "task"; taskId: string | null; action: "created" | "updated" | "deleted" }
+  | { type: "task_comment"; taskId: string }
+  | { type: "web_design"; projectId: string; pageId: string | null };
+
+/** Who receives an event: any listed user, any member of a listed agency or client, or any user with a listed role. */
+export type RealtimeAudience = {
+  userIds?: string[];
+  agencyIds?: string[];
+  clientIds?: string[];
+  roles?: string[];
+};
+
+export type RealtimeSubscriber = {
+  userId: string;
+  role: string;
+  agencyIds: string[];
+  clientIds: string[];
+};
+
+type Stream = {
+  subscriber: RealtimeSubscriber;
+  res: Response;
+  heartbeat: NodeJS.Timeout;
+};
+
+const instanceId = `${hostname()}:${process.pid}:${randomBytes(3).toString("hex")}`;
+const streams = new Map<number, Stream>();
+let nextStreamId = 1;
+let relayTimer: NodeJS.Timeout | null = null;
+let relayCursor: number | null = null;
+let relayPolling = false;
+
+const compact = (values: Array<string | null | undefined>) => [...new Set(values.filter((v): v is string => Boolean(v)))];
+
+export function audienceIncludes(audience: RealtimeAudience, subscriber: RealtimeSubscriber): boolean {
+  if (audience.userIds?.includes(subscriber.userId)) return true;
+  if (audience.roles?.includes(subscriber.role)) return true;
+  if (audience.agencyIds?.some((id) => subscriber.agencyIds.includes(id))) return true;
+  return Boolean(audience.clientIds?.some((id) => subscriber.clientIds.includes(id)));
+}
+
+export function mergeAudiences(audiences: RealtimeAudience[]): RealtimeAudience {
+  return {
+    userIds: compact(audiences.flatMap((a) => a.userIds ?? [])),
+    agencyIds: compact(audiences.flatMap((a) => a.agencyIds ?? [])),
+    clientIds: compact(audiences.flatMap((a) => a.clientIds ?? [])),
+    roles: compact(audiences.flatMap((a) => a.roles ?? [])),
+  };
+}
+
+/** Mirrors the bells: user rows go to that user, agency rows to its members, rows with neither to platform admins. */
+export function notificationAudience(row: { userId?: string | null; agencyId?: string | null }): RealtimeAudience {
+  if (row.userId) return { userIds: [row.userId] };
+  if (row.agencyId) return { agencyIds: [row.agencyId] };
+  return { roles: ADMIN_ROLES };
+}
+
+export function taskAudience(task: {
+  agencyId?: string | null;
+  clientId?: string | null;
+  assigneeId?: string | null;
+  createdById?: string | null;
+}): RealtimeAudience {
+  return {
+    userIds: compact([task.assigneeId, task.createdById]),
+    agencyIds: compact([task.agencyId]),
+    clientIds: compact([task.clientId]),
+    roles: ADMIN_ROLES,
+  };
+}
+
+export function formatSseMessage(event: RealtimeEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+function deliverLocally(audience: RealtimeAudience, event: RealtimeEvent) {
+  const message = formatSseMessage(event);
+  for (const stream of streams.values()) {
+    if (audienceIncludes(audience, stream.subscriber)) stream.res.write(message);
+  }
+}
+
+/** Sends the event to matching streams on this instance and queues it for the other instances. Never throws. */
+export async function publishRealtimeEvent(audience: RealtimeAudience, event: RealtimeEvent): Promise<void> {
+  deliverLocally(audience, event);
+  try {
+    await prisma.realtimeEvent.create({
+      data: {
+        originId: instanceId,
+        audience: audience as Prisma.InputJsonObject,
+        event: event as Prisma.InputJsonObject,
+      },
+    });
+  } catch (e: any) {
+    console.warn("[Realtime] Relay write failed", e?.message);
+  }
+}
+
+async function pollRelay() {
+  if (relayPolling) return;
+  if (streams.size === 0) {
+    if (relayTimer) clearInterval(relayTimer);
+    relayTimer = null;
+    relayCursor = null;
+    return;
+  }
+  relayPolling = true;
+  try {
+    if (relayCursor === null) {
+      // Start from the tail; streams that just opened refetch everything once on connect anyway
+      const latest = await prisma.realtimeEvent.findFirst({ orderBy: { id: "desc" }, select: { id: true } });
+      relayCursor = latest?.id ?? 0;
+      return;
+    }
+    const rows = await prisma.realtimeEvent.findMany({
+      where: { id: { gt: relayCursor } },
+      orderBy: { id: "asc" },
+      take: RELAY_BATCH_SIZE,
+    });
+    for (const row of rows) {
+      relayCursor = row.id;
+      if (row.originId === instanceId) continue;
+      deliverLocally(row.audience as RealtimeAudience, row.event as RealtimeEvent);
+    }
+  } catch (e: any) {
+    console.warn("[Realtime] Relay poll failed", e?.message);
+  } finally {
+    relayPolling = false;
+  }
+}
+
+export async function pruneRealtimeEvents() {
+  const { count } = await prisma.realtimeEvent.deleteMany({
+    where: { createdAt: { lt: new Date(Date.now() - RELAY_RETENTION_MS) } },
+  });
+  return { deleted: count };
+}
+
+/** Memberships are resolved once per stream; a membership change takes effect on the next reconnect. */
+export async function loadRealtimeSubscriber(user: { userId: string; role: string }): Promise<RealtimeSubscriber> {
+  const [memberships, clientUsers, ownedClients] = await Promise.all([
+    prisma.userAgency.findMany({ where: { userId: user.userId }, select: { agencyId: true } }),
+    prisma.clientUser.findMany({ where: { userId: user.userId, status: "ACTIVE" }, select: { clientId: true } }),
+    prisma.client.findMany({ where: { userId: user.userId }, select: { id: true } }),
+  ]);
+  return {
+    userId: user.userId,
+    role: user.role,
+    agencyIds: memberships.map((m) => m.agencyId),
+    clientIds: compact([...clientUsers.map((c) => c.clientId), ...ownedClients.map((c) => c.id)]),
+  };
+}
+
+export function openRealtimeStream(req: Request, res: Response, subscriber: RealtimeSubscriber) {
+  // One user with many stale tabs must not pin unbounded sockets: drop their oldest stream
+  const own = [...streams.entries()].filter(([, s]) => s.subscriber.userId === subscriber.userId);
+  if (own.length >= MAX_STREAMS_PER_USER) own[0][1].res.end();
+
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+  res.write(`retry: ${CLIENT_RETRY_MS}\n: connected\n\n`);
+
+  const id = nextStreamId++;
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+  streams.set(id, { subscriber, res, heartbeat });
+  if (!relayTimer) relayTimer = setInterval(() => void pollRelay(), RELAY_POLL_INTERVAL_MS);
+
+  const close = () => {
+    clearInterval(heartbeat);
+    streams.delete(id);
+  };
+  req.on("close", close);
+  res.on("close", close);
+}
+
+const taskAudienceSelect = { agencyId: true, clientId: true, assigneeId: true, createdById: true } as const;
+
+async function loadTaskAudience(taskId: string): Promise<RealtimeAudience | null> {
+  const task = await prisma.task.findUnique({ where: { id: taskId }, select: taskAudienceSelect });
+  return task ? taskAudience(task) : null;
+}
+
+async function loadWebDesignAudience(pageId: string) {
+  const page = await prisma.webDesignPage.findUnique({
+    where: { id: pageId },
+    select: { projectId: true, project: { select: { agencyId: true, clientId: true, designerId: true, activatedById: true } } },
+  });
+  if (!page) return null;
+  const audience: RealtimeAudience = {
+    userIds: compact([page.project.designerId, page.project.activatedById]),
+    agencyIds: compact([page.project.agencyId]),
+    clientIds: [page.project.clientId],
+    roles: ADMIN_ROLES,
+  };
+  return { audience, projectId: page.projectId };
+}
+
+const hasTaskAudienceFields = (row: any) => Object.keys(taskAudienceSelect).every((key) => key in row);
+
+/** Maps a single Prisma write to the event it implies; bulk updates/deletes are published explicitly by their routes. */
+async function publishForWrite(params: Prisma.MiddlewareParams, result: any) {
+  const action = params.action;
+  const isRowResult = ["create", "update", "upsert", "delete"].includes(action) && result && typeof result === "object";
+
+  switch (params.model) {
+    case "Notification": {
+      if (action === "createMany") {
+        const data = params.args?.data;
+        const rows: Array<{ userId?: string | null; agencyId?: string | null }> = Array.isArray(data) ? data : data ? [data] : [];
+        if (rows.length === 0) return;
+        await publishRealtimeEvent(mergeAudiences(rows.map(notificationAudience)), { type: "notification" });
+      } else if (isRowResult) {
+        await publishRealtimeEvent(notificationAudience(result), { type: "notification" });
+      }
+      return;
+    }
+    case "Task": {
+      if (action === "createMany") {
+        const data = params.args?.data;
+        const rows: Array<Parameters<typeof taskAudience>[0]> = Array.isArray(data) ? data : data ? [data] : [];
+        if (rows.length === 0) return;
+        await publishRealtimeEvent(mergeAudiences(rows.map(taskAudience)), { type: "task", taskId: null, action: "created" });
+        return;
+      }
+      if (!isRowResult || typeof result.id !== "string") return;
+      const audience = hasTaskAudienceFields(result) ? taskAudience(result) : await loadTaskAudience(result.id);
+      if (!audience) return;
+      const taskAction = action === "create" ? "created" : action === "delete" ? "deleted" : "updated";
+      await publishRealtimeEvent(audience, { type: "task", taskId: result.id, action: taskAction });
+      return;
+    }
+    case "TaskComment": {
+      if (!isRowResult || typeof result.taskId !== "string") return;
+      const audience = await loadTaskAudience(result.taskId);
+      if (audience) await publishRealtimeEvent(audience, { type: "task_comment", taskId: result.taskId });
+      return;
+    }
+    case "WebDesignComment":
+    case "WebDesignPageVersion":
+    case "WebDesignPage": {
+      if (!isRowResult) return;
+      const pageId = params.model === "WebDesignPage" ? result.id : result.pageId;
+      if (typeof pageId !== "string") return;
+      const target = await loadWebDesignAudience(pageId);
+      if (target) await publishRealtimeEvent(target.audience, { type: "web_design", projectId: target.projectId, pageId });
+      return;
+    }
+  }
+}
+
+const REALTIME_MODELS = new Set(["Notification", "Task", "TaskComment", "WebDesignComment", "WebDesignPageVersion", "WebDesignPage"]);
+
+/** Call once at startup, before the server accepts requests. */
+export function installRealtimePrismaHooks() {
+  prisma.$use(async (params, next) => {
+    const result = await next(params);
+    if (params.model && REALTIME_MODELS.has(params.model)) {
+      const publish = () =>
+        void publishForWrite(params, result).catch((e) => console.warn("[Realtime] Publish failed", e?.message));
+      if (params.runInTransaction) setTimeout(publish, TRANSACTION_SETTLE_MS);
+      else publish();
+    }
+    return result;
+  });
+}
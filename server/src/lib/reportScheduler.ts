@@ -2,6 +2,16 @@ import { prisma } from './prisma.js';
 import { sendEmail } from './email.js';
 import PDFDocument from 'pdfkit';
 import crypto from "crypto";
+import {
+  addCalendarDays,
+  addCalendarMonths,
+  daysInMonth,
+  getZonedParts,
+  parseTimeOfDay,
+  resolveDefaultTimeZone,
+  resolveTimeZone,
+  zonedTimeToUtc,
+} from "./timezone.js";
 import {
   BRAND_DISPLAY_NAME,
   buildReportEmailSubject,
@@ -11,6 +21,18 @@ import {
   REPORT_SECTION_TITLES,
 } from "./qualityContracts.js";
 import { generateLocalMapBundlePdfBuffer } from "./localMapPdf.js";
+import { emitClientWebhookEvent } from "./webhooks.js";
+import { loadSuppressedEmails, newEmailBatchId, type EmailDeliveryContext } from "./emailDelivery.js";
+import {
+  buildDailyRankSeries,
+  getRankObservationsByKeywordKey,
+  summarizeThresholdRun,
+  type ThresholdRun,
+} from "./keywordRankHistory.js";
+import { formatSearchConsoleDate, getSearchConsolePerformance, type SearchConsolePerformance } from "./searchConsole.js";
+import { formatMinutesAsHours, getClientMonthlyHours, type ClientMonthlyHours } from "./timeTracking.js";
+import { getCompetitorOverview, type CompetitorOverview } from "./competitors.js";
+import { deliverNotification } from "./notificationPreferences.js";
 
 export const LOCAL_MAP_SCHEDULE_SUBJECT_PREFIX = "[LOCAL_MAP] ";
 export const PPC_SCHEDULE_SUBJECT_PREFIX = "[PPC] ";
@@ -23,7 +45,7 @@ export function isPpcScheduleSubject(value: string | null | undefined): boolean
   return typeof value === "string" && value.startsWith(PPC_SCHEDULE_SUBJECT_PREFIX);
 }
 
-type ReportTargetKeywordRow = {
+export type ReportTargetKeywordRow = {
   id: string;
   keyword: string;
   locationName: string | null;
@@ -157,6 +179,156 @@ export async function getReportTargetKeywords(clientId: string): Promise<ReportT
   });
 }
 
+const REPORT_PERIOD_DAYS: Record<string, number> = { weekly: 7, biweekly: 14, monthly: 30 };
+
+/**
+ * Search Console performance for the report period (ending yesterday, GSC's latest complete day).
+ * Null when Search Console isn't connected or has no data for the period.
+ */
+export async function getReportSearchConsole(clientId: string, period: string): Promise<SearchConsolePerformance | null> {
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    select: { gscRefreshToken: true, gscSiteUrl: true, gscConnectedAt: true },
+  });
+  if (!client?.gscRefreshToken || !client.gscSiteUrl || !client.gscConnectedAt) return null;
+
+  const days = REPORT_PERIOD_DAYS[normalizeReportPeriod(period)] ?? 30;
+  const end = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  const start = new Date(end.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+  const performance = await getSearchConsolePerformance(
+    clientId,
+    formatSearchConsoleDate(start),
+    formatSearchConsoleDate(end),
+    { limit: 10 }
+  );
+  return performance.totals.impressions > 0 ? performance : null;
+}
+
+const HOURS_USED_SECTION_TITLE = "Hours Used";
+
+/**
+ * Hours logged on the client's tasks in the month the report covers (the month of `reportDate` in the schedule's
+ * zone, or the client's default zone). Client-facing views show `billableMinutes`; `totalMinutes` stays internal.
+ * Null when nothing billable was logged and the client has no monthly hours allowance.
+ */
+export async function getReportHoursUsed(
+  clientId: string,
+  reportDate: Date = new Date(),
+  timeZone?: string | null
+): Promise<ClientMonthlyHours | null> {
+  const zone = timeZone ? resolveTimeZone(timeZone) : await resolveDefaultTimeZone({ clientId });
+  const { year, month } = getZonedParts(reportDate, zone);
+  const hours = await getClientMonthlyHours(clientId, `${year}-${String(month).padStart(2, "0")}`);
+  if (hours.billableMinutes <= 0 && hours.allowanceHours == null) return null;
+  return {
+    ...hours,
+    byTask: hours.byTask.filter((t) => t.billableMinutes > 0).sort((a, b) => b.billableMinutes - a.billableMinutes),
+  };
+}
+
+const COMPETITORS_SECTION_TITLE = "Competitors";
+
+/** Latest competitor snapshots and keyword gaps; null until the client has competitors with a captured snapshot. */
+export async function getReportCompetitors(clientId: string): Promise<CompetitorOverview | null> {
+  const overview = await getCompetitorOverview(clientId);
+  if (!overview || overview.competitors.length === 0 || !overview.client.latest) return null;
+  return overview;
+}
+
+function buildHoursUsedHtml(hours: ClientMonthlyHours): string {
+  const tile = (label: string, value: string) => `
+                <td width="33%" align="center" valign="top" style="padding: 8px;">
+                  <table width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color: #f5f3ff; border: 1px solid #ddd6fe; border-radius: 8px;">
+                    <tr>
+                      <td style="padding: 16px; text-align: center;">
+                        <div style="font-size: 11px; font-weight: 600; color: #5b21b6; margin-bottom: 4px;">${label}</div>
+                        <div style="font-size: 24px; font-weight: 700; color: #4c1d95;">${value}</div>
+                      </td>
+                    </tr>
+                  </table>
+                </td>`;
+  const loggedHours = formatMinutesAsHours(hours.billableMinutes);
+  const remaining =
+    hours.allowanceHours != null ? formatMinutesAsHours(Math.max(0, hours.allowanceHours * 60 - hours.billableMinutes)) : "—";
+  const taskRows = hours.byTask
+    .slice(0, 10)
+    .map(
+      (t) => `
+                <tr style="border-bottom: 1px solid #e5e7eb;">
+                  <td style="padding: 10px 12px; font-weight: 600; color: #111827;">${escapeHtml(t.title)}</td>
+                  <td style="padding: 10px 12px; text-align: right; color: #374151;">${t.estimatedHours != null ? t.estimatedHours : "—"}</td>
+                  <td style="padding: 10px 12px; text-align: right; color: #374151;">${formatMinutesAsHours(t.billableMinutes)}</td>
+                </tr>`
+    )
+    .join("");
+  const th = (label: string, align: "left" | "right") =>
+    `<th style="padding: 10px 12px; text-align: ${align}; font-weight: 700; color: #374151; text-transform: uppercase; font-size: 11px; letter-spacing: 0.5px;">${label}</th>`;
+
+  return `
+            <table width="100%" cellpadding="0" cellspacing="0" border="0" style="border-collapse: collapse;">
+              <tr>${tile("Hours logged", loggedHours)}${tile("Monthly allowance", hours.allowanceHours != null ? String(hours.allowanceHours) : "—")}${tile("Hours remaining", remaining)}
+              </tr>
+            </table>
+            ${
+              taskRows
+                ? `<table style="border-collapse: collapse; width: 100%; font-size: 12px; border: 1px solid #e5e7eb; margin-top: 16px;">
+              <thead>
+                <tr style="background-color: #f9fafb; border-bottom: 2px solid #d1d5db;">${th("Task", "left")}${th("Estimated", "right")}${th("Actual", "right")}</tr>
+              </thead>
+              <tbody>${taskRows}
+              </tbody>
+            </table>`
+                : ""
+            }`;
+}
+
+function buildSearchConsoleHtml(searchConsole: SearchConsolePerformance): string {
+  const { totals } = searchConsole;
+  const tile = (label: string, value: string, bg: string, border: string, labelColor: string, valueColor: string) => `
+                <td width="25%" align="center" valign="top" style="padding: 8px;">
+                  <table width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color: ${bg}; border: 1px solid ${border}; border-radius: 8px;">
+                    <tr>
+                      <td style="padding: 16px; text-align: center;">
+                        <div style="font-size: 11px; font-weight: 600; color: ${labelColor}; margin-bottom: 4px;">${label}</div>
+                        <div style="font-size: 24px; font-weight: 700; color: ${valueColor};">${value}</div>
+                      </td>
+                    </tr>
+                  </table>
+                </td>`;
+  const queryRows = searchConsole.topQueries
+    .map(
+      (q) => `
+                <tr style="border-bottom: 1px solid #e5e7eb;">
+                  <td style="padding: 10px 12px; font-weight: 600; color: #111827;">${escapeHtml(q.key)}</td>
+                  <td style="padding: 10px 12px; text-align: right; color: #374151;">${q.clicks.toLocaleString()}</td>
+                  <td style="padding: 10px 12px; text-align: right; color: #374151;">${q.impressions.toLocaleString()}</td>
+                  <td style="padding: 10px 12px; text-align: right; color: #374151;">${(q.ctr * 100).toFixed(1)}%</td>
+                  <td style="padding: 10px 12px; text-align: right; color: #374151;">${q.position.toFixed(1)}</td>
+                </tr>`
+    )
+    .join("");
+  const th = (label: string, align: "left" | "right") =>
+    `<th style="padding: 10px 12px; text-align: ${align}; font-weight: 700; color: #374151; text-transform: uppercase; font-size: 11px; letter-spacing: 0.5px;">${label}</th>`;
+
+  return `
+            <table width="100%" cellpadding="0" cellspacing="0" border="0" style="border-collapse: collapse;">
+              <tr>${tile("Clicks", totals.clicks.toLocaleString(), "#eff6ff", "#bfdbfe", "#1e40af", "#1e3a8a")}${tile("Impressions", totals.impressions.toLocaleString(), "#f0fdf4", "#bbf7d0", "#166534", "#14532d")}${tile("Avg. CTR", `${(totals.ctr * 100).toFixed(1)}%`, "#faf5ff", "#e9d5ff", "#6b21a8", "#581c87")}${tile("Avg. Position", totals.position != null ? totals.position.toFixed(1) : "—", "#fff7ed", "#fed7aa", "#9a3412", "#7c2d12")}
+              </tr>
+            </table>
+            ${
+              queryRows
+                ? `<h3 style="margin: 16px 0 8px 0; font-size: 14px; font-weight: 700; color: #111827;">Top search queries</h3>
+            <table style="border-collapse: collapse; width: 100%; font-size: 12px; border: 1px solid #e5e7eb;">
+              <thead>
+                <tr style="background-color: #f9fafb; border-bottom: 2px solid #d1d5db;">${th("Query", "left")}${th("Clicks", "right")}${th("Impressions", "right")}${th("CTR", "right")}${th("Position", "right")}</tr>
+              </thead>
+              <tbody>${queryRows}
+              </tbody>
+            </table>`
+                : ""
+            }`;
+}
+
 export async function buildShareDashboardUrl(clientId: string): Promise<string | null> {
   const frontendUrlRaw = process.env.FRONTEND_URL || "";
   const frontendUrl = frontendUrlRaw.replace(/\/+$/, "");
@@ -181,72 +353,68 @@ export async function buildShareDashboardUrl(clientId: string): Promise<string |
 }
 
 /**
- * Calculate next run time for a schedule
+ * Calculate next run time for a schedule.
+ * `timeOfDay` is wall-clock time in `timeZone` (server zone when unset), so DST changes don't move the send hour.
  */
 export function calculateNextRunTime(
   frequency: string,
   dayOfWeek?: number,
   dayOfMonth?: number,
-  timeOfDay: string = "09:00"
+  timeOfDay: string = "09:00",
+  timeZone?: string | null,
+  now: Date = new Date()
 ): Date {
-  const [hours, minutes] = timeOfDay.split(":").map(Number);
-  const now = new Date();
-  const nextRun = new Date();
-
-  nextRun.setHours(hours, minutes, 0, 0);
-
-  if (frequency === "weekly" && dayOfWeek !== undefined) {
-    const daysUntilNext = (dayOfWeek - now.getDay() + 7) % 7;
-    if (daysUntilNext === 0 && nextRun <= now) {
-      nextRun.setDate(nextRun.getDate() + 7);
-    } else {
-      nextRun.setDate(nextRun.getDate() + daysUntilNext);
+  const zone = resolveTimeZone(timeZone);
+  const { hour, minute } = parseTimeOfDay(timeOfDay);
+  const today = getZonedParts(now, zone);
+  const runOn = (date: { year: number; month: number; day: number }) => zonedTimeToUtc({ ...date, hour, minute }, zone);
+
+  if ((frequency === "weekly" || frequency === "biweekly") && dayOfWeek !== undefined) {
+    const period = frequency === "weekly" ? 7 : 14;
+    const daysUntilNext = (dayOfWeek - today.weekday + period) % period;
+    const candidate = runOn(addCalendarDays(today, daysUntilNext));
+    if (daysUntilNext === 0 && candidate <= now) {
+      return runOn(addCalendarDays(today, period));
     }
-  } else if (frequency === "biweekly" && dayOfWeek !== undefined) {
-    const daysUntilNext = (dayOfWeek - now.getDay() + 14) % 14;
-    if (daysUntilNext === 0 && nextRun <= now) {
-      nextRun.setDate(nextRun.getDate() + 14);
-    } else {
-      nextRun.setDate(nextRun.getDate() + daysUntilNext);
-    }
-  } else if (frequency === "monthly" && dayOfMonth !== undefined) {
-    nextRun.setDate(dayOfMonth);
-    if (nextRun <= now) {
-      nextRun.setMonth(nextRun.getMonth() + 1);
+    return candidate;
+  }
+
+  if (frequency === "monthly" && dayOfMonth !== undefined) {
+    const thisMonth = { year: today.year, month: today.month, day: Math.min(dayOfMonth, daysInMonth(today.year, today.month)) };
+    const candidate = runOn(thisMonth);
+    if (candidate <= now) {
+      return runOn(addCalendarMonths({ ...thisMonth, day: dayOfMonth }, 1));
     }
-  } else {
-    // Default: next week same day
-    nextRun.setDate(nextRun.getDate() + 7);
+    return candidate;
   }
 
-  return nextRun;
+  // Default: next week same day
+  return runOn(addCalendarDays(today, 7));
 }
 
 export function calculateNextLocalMapRunTime(
   frequency: "biweekly" | "monthly",
-  timeOfDay: string = "09:00"
+  timeOfDay: string = "09:00",
+  timeZone?: string | null,
+  now: Date = new Date()
 ): Date {
-  const [hours, minutes] = timeOfDay.split(":").map(Number);
-  const now = new Date();
-  const candidate = new Date(now);
-  candidate.setHours(hours, minutes, 0, 0);
+  const zone = resolveTimeZone(timeZone);
+  const { hour, minute } = parseTimeOfDay(timeOfDay);
+  const today = getZonedParts(now, zone);
+  const runOn = (day: number, monthOffset = 0) =>
+    zonedTimeToUtc({ ...addCalendarMonths({ year: today.year, month: today.month, day }, monthOffset), hour, minute }, zone);
 
   if (frequency === "monthly") {
-    candidate.setDate(1);
-    if (candidate <= now) {
-      candidate.setMonth(candidate.getMonth() + 1, 1);
-    }
-    return candidate;
+    const first = runOn(1);
+    return first > now ? first : runOn(1, 1);
   }
 
   // Local Map biweekly runs on the 1st and 15th.
-  const year = now.getFullYear();
-  const month = now.getMonth();
-  const first = new Date(year, month, 1, hours, minutes, 0, 0);
-  const fifteenth = new Date(year, month, 15, hours, minutes, 0, 0);
+  const first = runOn(1);
   if (first > now) return first;
+  const fifteenth = runOn(15);
   if (fifteenth > now) return fifteenth;
-  return new Date(year, month + 1, 1, hours, minutes, 0, 0);
+  return runOn(1, 1);
 }
 
 function buildKeywordTableHtml(keywords: ReportTargetKeywordRow[]): string {
@@ -325,7 +493,12 @@ function buildKeywordTableHtml(keywords: ReportTargetKeywordRow[]): string {
 export function generateReportEmailHTML(
   report: any,
   client: any,
-  opts?: { targetKeywords?: ReportTargetKeywordRow[]; shareUrl?: string | null }
+  opts?: {
+    targetKeywords?: ReportTargetKeywordRow[];
+    shareUrl?: string | null;
+    searchConsole?: SearchConsolePerformance | null;
+    hoursUsed?: ClientMonthlyHours | null;
+  }
 ): string {
   const normalizedPeriod = normalizeReportPeriod(report.period);
   const periodLabel = normalizedPeriod.charAt(0).toUpperCase() + normalizedPeriod.slice(1);
@@ -333,6 +506,8 @@ export function generateReportEmailHTML(
   const safeClientName = escapeHtml(client?.name);
   const safeDomain = client?.domain ? escapeHtml(client.domain) : "";
   const shareUrl = opts?.shareUrl || null;
+  const searchConsole = opts?.searchConsole || null;
+  const hoursUsed = opts?.hoursUsed || null;
   const allKeywords = (opts?.targetKeywords || []).sort((a, b) => {
     const aPos = a.googlePosition ?? Infinity;
     const bPos = b.googlePosition ?? Infinity;
@@ -448,6 +623,34 @@ export function generateReportEmailHTML(
             </table>
           </div>
 
+          ${
+            searchConsole
+              ? `<!-- SEO Performance Card (Google Search Console) -->
+          <div style="background-color: #ffffff; border: 1px solid #e5e7eb; border-radius: 12px; padding: 24px; margin-bottom: 24px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);">
+            <h2 style="margin: 0 0 8px 0; font-size: 20px; font-weight: 700; color: #111827;">
+              <span style="display: inline-block; width: 4px; height: 20px; background-color: #10b981; border-radius: 2px; margin-right: 8px; vertical-align: middle;"></span>
+              ${REPORT_SECTION_TITLES.seo_performance}
+            </h2>
+            <p style="margin: 0 0 16px 0; font-size: 12px; color: #6b7280;">Google Search Console, ${escapeHtml(searchConsole.startDate)} to ${escapeHtml(searchConsole.endDate)}.</p>
+            ${buildSearchConsoleHtml(searchConsole)}
+          </div>`
+              : ""
+          }
+
+          ${
+            hoursUsed
+              ? `<!-- Hours Used Card (task time tracking) -->
+          <div style="background-color: #ffffff; border: 1px solid #e5e7eb; border-radius: 12px; padding: 24px; margin-bottom: 24px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);">
+            <h2 style="margin: 0 0 8px 0; font-size: 20px; font-weight: 700; color: #111827;">
+              <span style="display: inline-block; width: 4px; height: 20px; background-color: #7c3aed; border-radius: 2px; margin-right: 8px; vertical-align: middle;"></span>
+              ${HOURS_USED_SECTION_TITLE}
+            </h2>
+            <p style="margin: 0 0 16px 0; font-size: 12px; color: #6b7280;">Time logged on your campaign tasks, ${escapeHtml(hoursUsed.startDate)} to ${escapeHtml(hoursUsed.endDate)}.</p>
+            ${buildHoursUsedHtml(hoursUsed)}
+          </div>`
+              : ""
+          }
+
           <!-- Money Keywords Card -->
           <div style="background-color: #ffffff; border: 1px solid #e5e7eb; border-radius: 12px; padding: 24px; margin-bottom: 24px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);">
             <h2 style="margin: 0 0 8px 0; font-size: 20px; font-weight: 700; color: #111827;">
@@ -519,7 +722,13 @@ export function generateReportEmailHTML(
 export async function generateReportPDFBuffer(
   report: any,
   client: any,
-  opts?: { targetKeywords?: ReportTargetKeywordRow[]; shareUrl?: string | null }
+  opts?: {
+    targetKeywords?: ReportTargetKeywordRow[];
+    shareUrl?: string | null;
+    searchConsole?: SearchConsolePerformance | null;
+    hoursUsed?: ClientMonthlyHours | null;
+    competitors?: CompetitorOverview | null;
+  }
 ): Promise<Buffer> {
   return new Promise((resolve, reject) => {
     const doc = new PDFDocument({ margin: 40, size: "A4", bufferPages: true });
@@ -666,6 +875,72 @@ export async function generateReportPDFBuffer(
     drawMetricRow("First Time Visitors", Number(report.newUsers ?? 0).toLocaleString());
     drawMetricRow("Engaged Visitors", Number((report as any).engagedVisitors ?? (report as any).engagedSessions ?? 0).toLocaleString());
 
+    const searchConsole = opts?.searchConsole || null;
+    if (searchConsole) {
+      doc.moveDown();
+      drawSectionHeader(REPORT_SECTION_TITLES.seo_performance);
+      drawSectionDescription(`Google Search Console, ${searchConsole.startDate} to ${searchConsole.endDate}.`);
+      drawMetricRow("Clicks", searchConsole.totals.clicks.toLocaleString());
+      drawMetricRow("Impressions", searchConsole.totals.impressions.toLocaleString());
+      drawMetricRow("Avg. CTR", `${(searchConsole.totals.ctr * 100).toFixed(1)}%`);
+      drawMetricRow("Avg. Position", searchConsole.totals.position != null ? searchConsole.totals.position.toFixed(1) : "—");
+      if (searchConsole.topQueries.length > 0) {
+        doc.moveDown(0.5);
+        drawSectionDescription("Top search queries (clicks / impressions / position)");
+        for (const q of searchConsole.topQueries) {
+          drawMetricRow(q.key, `${q.clicks.toLocaleString()} / ${q.impressions.toLocaleString()} / ${q.position.toFixed(1)}`);
+        }
+      }
+    }
+
+    const hoursUsed = opts?.hoursUsed || null;
+    if (hoursUsed) {
+      doc.moveDown();
+      drawSectionHeader(HOURS_USED_SECTION_TITLE);
+      drawSectionDescription(`Time logged on your campaign tasks, ${hoursUsed.startDate} to ${hoursUsed.endDate}.`);
+      drawMetricRow("Hours logged", formatMinutesAsHours(hoursUsed.billableMinutes));
+      if (hoursUsed.allowanceHours != null) {
+        drawMetricRow("Monthly allowance", String(hoursUsed.allowanceHours));
+        drawMetricRow("Hours remaining", formatMinutesAsHours(Math.max(0, hoursUsed.allowanceHours * 60 - hoursUsed.billableMinutes)));
+      }
+      if (hoursUsed.byTask.length > 0) {
+        doc.moveDown(0.5);
+        drawSectionDescription("Hours by task (estimated / actual)");
+        for (const t of hoursUsed.byTask.slice(0, 10)) {
+          drawMetricRow(t.title, `${t.estimatedHours != null ? t.estimatedHours : "—"} / ${formatMinutesAsHours(t.billableMinutes)}`);
+        }
+      }
+    }
+
+    const competitors = opts?.competitors || null;
+    if (competitors?.client.latest) {
+      const formatCount = (value: number | null) => (value != null ? value.toLocaleString() : "—");
+      doc.moveDown();
+      drawSectionHeader(COMPETITORS_SECTION_TITLE);
+      drawSectionDescription(
+        `Ranked keywords / backlinks / referring domains, captured ${new Date(competitors.client.latest.capturedAt).toLocaleDateString()}.`
+      );
+      const domainRows = [
+        { name: `${competitors.client.domain} (you)`, latest: competitors.client.latest },
+        ...competitors.competitors.map((c) => ({ name: c.label ? `${c.label} (${c.domain})` : c.domain, latest: c.latest })),
+      ];
+      for (const row of domainRows) {
+        drawMetricRow(
+          row.name,
+          row.latest
+            ? `${formatCount(row.latest.rankedKeywords)} / ${formatCount(row.latest.backlinks)} / ${formatCount(row.latest.referringDomains)}`
+            : "Not captured yet"
+        );
+      }
+      if (competitors.gaps.length > 0) {
+        doc.moveDown(0.5);
+        drawSectionDescription("Keyword gaps: competitors rank, you don't (best competitor position / search volume)");
+        for (const gap of competitors.gaps.slice(0, 10)) {
+          drawMetricRow(gap.keyword, `#${gap.bestCompetitorPosition} / ${formatCount(gap.searchVolume)}`);
+        }
+      }
+    }
+
     const moneyKws = targetKeywords.filter((k) => (k as any).type !== "topical");
     const topicalKws = targetKeywords.filter((k) => (k as any).type === "topical");
 
@@ -850,6 +1125,46 @@ export async function generateReportPDFBuffer(
   });
 }
 
+/**
+ * Email HTML and PDF attachment for an SEO report. A schedule's report template (lib/reportTemplates.ts) drives both when
+ * set; otherwise the fixed REPORT_SECTION_ORDER layout above is used.
+ */
+export async function renderSeoReportEmailAndPdf(
+  report: any,
+  client: any,
+  opts: { period: string; templateId?: string | null; timeZone?: string | null }
+): Promise<{ html: string; pdf: Buffer }> {
+  const template = opts.templateId
+    ? await prisma.reportTemplate.findUnique({ where: { id: opts.templateId }, select: { name: true, blocks: true } })
+    : null;
+  if (template) {
+    const { parseStoredReportTemplateBlocks, renderTemplatedReport } = await import("./reportTemplates.js");
+    return renderTemplatedReport(
+      report,
+      client,
+      { name: template.name, blocks: parseStoredReportTemplateBlocks(template.blocks) },
+      opts.period,
+      opts.timeZone
+    );
+  }
+
+  const shareUrl = await buildShareDashboardUrl(client.id).catch((err: any) => {
+    console.warn(`[Report Scheduler] Failed to build share URL for client ${client.id}:`, err?.message || err);
+    return null;
+  });
+  const targetKeywords = await getReportTargetKeywords(client.id).catch((err) => {
+    console.warn(`[Report Scheduler] Failed to fetch target keywords for client ${client.id}:`, err?.message || err);
+    return [] as ReportTargetKeywordRow[];
+  });
+  const searchConsole = await getReportSearchConsole(client.id, opts.period).catch(() => null);
+  const hoursUsed = await getReportHoursUsed(client.id, report.reportDate, opts.timeZone).catch(() => null);
+  const competitors = await getReportCompetitors(client.id).catch(() => null);
+
+  const html = generateReportEmailHTML(report, client, { targetKeywords, shareUrl, searchConsole, hoursUsed });
+  const pdf = await generateReportPDFBuffer(report, client, { targetKeywords, shareUrl, searchConsole, hoursUsed, competitors });
+  return { html, pdf };
+}
+
 /**
  * Auto-generate a report for a client
  */
@@ -930,11 +1245,16 @@ export async function autoGenerateReport(clientId: string, period: string = "mon
     averageRank: firstSource.averageRank,
   } : null;
 
-  // Total Clicks / Impressions: use Keyword table (GSC) when available; fallback to traffic source when 0
+  // Clicks / Impressions / CTR / Position: real Search Console figures for the period when connected;
+  // otherwise the tracked keyword sums and the DataForSEO average rank.
+  const searchConsole = await getReportSearchConsole(clientId, normalizedPeriod).catch((error) => {
+    console.warn(`Failed to load Search Console data for client ${clientId}:`, error?.message || error);
+    return null;
+  });
   const keywordClicks = keywordStats._sum.clicks ?? 0;
   const keywordImpressions = keywordStats._sum.impressions ?? 0;
-  const totalClicks = keywordClicks > 0 ? keywordClicks : 0;
-  const totalImpressions = keywordImpressions > 0 ? keywordImpressions : 0;
+  const totalClicks = searchConsole ? searchConsole.totals.clicks : keywordClicks > 0 ? keywordClicks : 0;
+  const totalImpressions = searchConsole ? searchConsole.totals.impressions : keywordImpressions > 0 ? keywordImpressions : 0;
 
   // Create report data
   // Traffic Overview aligns with SEO Overview: Web Visitors, Organic Traffic, First Time Visitors, Engaged Visitors
@@ -949,8 +1269,8 @@ export async function autoGenerateReport(clientId: string, period: string = "mon
     referralSessions: 0,
     totalClicks,
     totalImpressions,
-    averageCtr: keywordStats._avg.ctr || 0,
-    averagePosition: trafficSourceSummary?.averageRank || keywordStats._avg.currentPosition || 0,
+    averageCtr: searchConsole ? searchConsole.totals.ctr : keywordStats._avg.ctr || 0,
+    averagePosition: searchConsole?.totals.position ?? (trafficSourceSummary?.averageRank || keywordStats._avg.currentPosition || 0),
     bounceRate: ga4Data?.bounceRate || 0,
     avgSessionDuration: ga4Data?.avgSessionDuration || 0,
     pagesPerSession: ga4Data?.pagesPerSession || 0,
@@ -1063,13 +1383,19 @@ export async function refreshAllGA4Data(): Promise<void> {
         }
       } catch (error: any) {
         console.error(`[GA4 Auto-Refresh] ❌ Failed to refresh ${client.name}:`, error.message);
+        throw error;
       }
     });
 
-    await Promise.allSettled(refreshPromises);
+    const results = await Promise.allSettled(refreshPromises);
     console.log(`[GA4 Auto-Refresh] Completed refresh for ${connectedClients.length} clients`);
+    const failed = results.filter((result) => result.status === "rejected").length;
+    if (failed > 0) {
+      throw new Error(`GA4 refresh failed for ${failed} of ${connectedClients.length} clients`);
+    }
   } catch (error: any) {
     console.error('[GA4 Auto-Refresh] Error:', error);
+    throw error;
   }
 }
 
@@ -1090,10 +1416,12 @@ function slugifyForThreshold(value: string): string {
     .slice(0, 120);
 }
 
-function parseRecipientEmails(value: unknown): string[] {
+function parseRecipientEmails(value: unknown, suppressed?: ReadonlySet<string>): string[] {
   const arr = toStringArray(value);
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  return arr.map((s) => s.trim()).filter((s) => emailRegex.test(s));
+  return arr
+    .map((s) => s.trim())
+    .filter((s) => emailRegex.test(s) && !suppressed?.has(s.toLowerCase()));
 }
 
 type CampaignWinPriority =
@@ -1101,12 +1429,14 @@ type CampaignWinPriority =
   | "TRAFFIC_MILESTONE"
   | "WORK_COMPLETED"
   | "AI_VISIBILITY"
-  | "REVIEW_ACTIVITY";
+  | "REVIEW_ACTIVITY"
+  | "BACKLINK_WIN";
 
 const campaignWinPriorityOrder: CampaignWinPriority[] = [
   "KEYWORD_WIN",
   "TRAFFIC_MILESTONE",
   "WORK_COMPLETED",
+  "BACKLINK_WIN",
   "AI_VISIBILITY",
   "REVIEW_ACTIVITY",
 ];
@@ -1189,7 +1519,46 @@ function campaignWinsEmailHtml(params: {
   `;
 }
 
-async function upsertCampaignWinEvent(input: {
+function emitCampaignWinWebhook(
+  winId: string,
+  input: { clientId: string; eventType: CampaignWinPriority; thresholdKey: string; eventDetail: string },
+  triggeredAt: Date
+): Promise<void> {
+  return emitClientWebhookEvent(input.clientId, "campaign_win.created", {
+    win: {
+      id: winId,
+      type: input.eventType,
+      thresholdKey: input.thresholdKey,
+      detail: input.eventDetail,
+      triggeredAt: triggeredAt.toISOString(),
+    },
+  });
+}
+
+/** Tells the client's agency team about a newly detected win, through each member's campaign-wins routing. */
+async function notifyCampaignWin(clientId: string, eventDetail: string): Promise<void> {
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    select: { name: true, belongsToAgencyId: true },
+  });
+  if (!client?.belongsToAgencyId) return;
+  const members = await prisma.userAgency.findMany({
+    where: { agencyId: client.belongsToAgencyId },
+    select: { userId: true },
+  });
+  await deliverNotification({
+    event: "campaign_wins",
+    userIds: members.map((m) => m.userId),
+    agencyId: client.belongsToAgencyId,
+    type: "campaign_win",
+    title: `Campaign win: ${client.name}`,
+    message: eventDetail,
+    link: `/agency/clients/${clientId}`,
+  });
+}
+
+/** Records a win for the next Campaign Wins email (deduped per thresholdKey, re-armed after its cooldown). */
+export async function upsertCampaignWinEvent(input: {
   clientId: string;
   eventType: CampaignWinPriority;
   thresholdKey: string;
@@ -1207,7 +1576,7 @@ async function upsertCampaignWinEvent(input: {
   });
 
   if (!existing) {
-    await prisma.campaignWinEvent.create({
+    const created = await prisma.campaignWinEvent.create({
       data: {
         clientId: input.clientId,
         eventType: input.eventType as any,
@@ -1216,6 +1585,8 @@ async function upsertCampaignWinEvent(input: {
         triggeredAt: now,
       },
     });
+    await emitCampaignWinWebhook(created.id, input, now);
+    await notifyCampaignWin(input.clientId, input.eventDetail);
     return;
   }
 
@@ -1237,6 +1608,8 @@ async function upsertCampaignWinEvent(input: {
         notifiedAt: null,
       },
     });
+    await emitCampaignWinWebhook(existing.id, input, now);
+    await notifyCampaignWin(input.clientId, input.eventDetail);
     return;
   }
 
@@ -1255,14 +1628,6 @@ function toUtcStartOfDay(d: Date): Date {
   return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), 0, 0, 0, 0));
 }
 
-function isSameUtcDay(a: Date, b: Date): boolean {
-  return (
-    a.getUTCFullYear() === b.getUTCFullYear() &&
-    a.getUTCMonth() === b.getUTCMonth() &&
-    a.getUTCDate() === b.getUTCDate()
-  );
-}
-
 function getKeywordWinThresholdMeta(level: KeywordWinLevel, keywordText: string): {
   suffix: "position1" | "top3" | "page1";
   detail: string;
@@ -1285,69 +1650,31 @@ function getKeywordWinThresholdMeta(level: KeywordWinLevel, keywordText: string)
   };
 }
 
+// A keyword must hold a threshold for 7 days before it counts as a win, and must have
+// dropped below it for 14+ days before the same win can fire again.
+const KEYWORD_WIN_HOLD_DAYS = 7;
+const KEYWORD_WIN_REARM_BELOW_DAYS = 14;
+const KEYWORD_WIN_LOOKBACK_DAYS = 60;
+
+const keywordWinMaxPosition: Record<KeywordWinLevel, number> = {
+  POSITION1: 1,
+  TOP3: 3,
+  PAGE1: 10,
+};
+
 async function evaluateKeywordWinThreshold(params: {
   clientId: string;
   keywordId: string;
   keywordText: string;
   level: KeywordWinLevel;
-  isAbove: boolean;
+  run: ThresholdRun;
   now: Date;
 }): Promise<void> {
-  const { clientId, keywordId, keywordText, level, isAbove, now } = params;
+  const { clientId, keywordId, keywordText, level, run, now } = params;
+  if (!run.isAbove || run.aboveStreak < KEYWORD_WIN_HOLD_DAYS) return;
+
   const meta = getKeywordWinThresholdMeta(level, keywordText);
   const thresholdKey = `keyword_${keywordId}_${meta.suffix}`;
-  const today = toUtcStartOfDay(now);
-
-  const state = await (prisma as any).campaignWinKeywordState.findUnique({
-    where: { clientId_keywordId_level: { clientId, keywordId, level } },
-    select: {
-      id: true,
-      isAbove: true,
-      aboveStreak: true,
-      belowStreak: true,
-      lastEvaluatedAt: true,
-    },
-  });
-
-  const alreadyEvaluatedToday =
-    state?.lastEvaluatedAt instanceof Date && isSameUtcDay(state.lastEvaluatedAt, today);
-
-  let wasAboveBefore = Boolean(state?.isAbove);
-  let belowStreakBefore = Number(state?.belowStreak ?? 0);
-  let aboveStreakAfter = Number(state?.aboveStreak ?? 0);
-  let belowStreakAfter = Number(state?.belowStreak ?? 0);
-
-  if (!state) {
-    await (prisma as any).campaignWinKeywordState.create({
-      data: {
-        clientId,
-        keywordId,
-        level,
-        isAbove,
-        aboveStreak: isAbove ? 1 : 0,
-        belowStreak: isAbove ? 0 : 1,
-        lastEvaluatedAt: today,
-      },
-    });
-    wasAboveBefore = false;
-    belowStreakBefore = 0;
-    aboveStreakAfter = isAbove ? 1 : 0;
-    belowStreakAfter = isAbove ? 0 : 1;
-  } else if (!alreadyEvaluatedToday) {
-    aboveStreakAfter = isAbove ? (state.isAbove ? state.aboveStreak + 1 : 1) : 0;
-    belowStreakAfter = isAbove ? 0 : (state.isAbove ? 1 : state.belowStreak + 1);
-    await (prisma as any).campaignWinKeywordState.update({
-      where: { id: state.id },
-      data: {
-        isAbove,
-        aboveStreak: aboveStreakAfter,
-        belowStreak: belowStreakAfter,
-        lastEvaluatedAt: today,
-      },
-    });
-  }
-
-  if (!isAbove) return;
 
   const event = await prisma.campaignWinEvent.findUnique({
     where: { clientId_thresholdKey: { clientId, thresholdKey } },
@@ -1355,7 +1682,6 @@ async function evaluateKeywordWinThreshold(params: {
   });
 
   if (!event) {
-    if (aboveStreakAfter < 7) return;
     await prisma.campaignWinEvent.create({
       data: {
         clientId,
@@ -1370,14 +1696,14 @@ async function evaluateKeywordWinThreshold(params: {
 
   if (event.cooldownUntil && event.cooldownUntil > now) return;
 
-  // Re-fire rule: keyword must be below threshold for 14+ consecutive days,
-  // then return above threshold.
-  const justReturned = !wasAboveBefore && isAbove;
-  const rearmed = justReturned && belowStreakBefore >= 14;
-
   if (event.notifiedAt) {
+    // Re-fire rule: the current above-threshold run must start after the last notification
+    // and follow 14+ consecutive days below the threshold.
+    const rearmed =
+      run.belowStreakBeforeAbove >= KEYWORD_WIN_REARM_BELOW_DAYS &&
+      run.aboveSince !== null &&
+      run.aboveSince > toUtcStartOfDay(event.notifiedAt);
     if (!rearmed) return;
-    if (aboveStreakAfter < 7) return;
     await prisma.campaignWinEvent.update({
       where: { id: event.id },
       data: {
@@ -1391,56 +1717,45 @@ async function evaluateKeywordWinThreshold(params: {
     return;
   }
 
-  if (aboveStreakAfter >= 7) {
-    await prisma.campaignWinEvent.update({
-      where: { id: event.id },
-      data: {
-        eventType: "KEYWORD_WIN",
-        eventDetail: meta.detail,
-        triggeredAt: now,
-      },
-    });
-  }
+  await prisma.campaignWinEvent.update({
+    where: { id: event.id },
+    data: {
+      eventType: "KEYWORD_WIN",
+      eventDetail: meta.detail,
+      triggeredAt: now,
+    },
+  });
 }
 
 async function detectKeywordWins(clientId: string): Promise<void> {
   const now = new Date();
   const keywords = await prisma.keyword.findMany({
     where: { clientId },
-    select: { id: true, keyword: true, currentPosition: true },
+    select: { id: true, keyword: true },
     take: 1000,
   });
+  if (keywords.length === 0) return;
+
+  const observationsByKey = await getRankObservationsByKeywordKey({
+    clientId,
+    since: new Date(now.getTime() - KEYWORD_WIN_LOOKBACK_DAYS * 24 * 60 * 60 * 1000),
+  });
 
   for (const kw of keywords) {
-    const pos = typeof kw.currentPosition === "number" ? kw.currentPosition : null;
-    const isPosition1 = pos === 1;
-    const isTop3 = !!pos && pos >= 1 && pos <= 3;
-    const isPage1 = !!pos && pos >= 1 && pos <= 10;
+    const observations = observationsByKey.get(normalizeKeywordKey(kw.keyword)) ?? [];
+    const series = buildDailyRankSeries(observations, now);
+    if (series.length === 0) continue;
 
-    await evaluateKeywordWinThreshold({
-      clientId,
-      keywordId: kw.id,
-      keywordText: kw.keyword,
-      level: "POSITION1",
-      isAbove: isPosition1,
-      now,
-    });
-    await evaluateKeywordWinThreshold({
-      clientId,
-      keywordId: kw.id,
-      keywordText: kw.keyword,
-      level: "TOP3",
-      isAbove: isTop3,
-      now,
-    });
-    await evaluateKeywordWinThreshold({
-      clientId,
-      keywordId: kw.id,
-      keywordText: kw.keyword,
-      level: "PAGE1",
-      isAbove: isPage1,
-      now,
-    });
+    for (const level of ["POSITION1", "TOP3", "PAGE1"] as const) {
+      await evaluateKeywordWinThreshold({
+        clientId,
+        keywordId: kw.id,
+        keywordText: kw.keyword,
+        level,
+        run: summarizeThresholdRun(series, keywordWinMaxPosition[level]),
+        now,
+      });
+    }
   }
 }
 
@@ -1627,7 +1942,7 @@ async function processCampaignWinsForClient(client: {
   user: { name: string | null } | null;
 }): Promise<void> {
   if (!client.campaignWinsEnabled) return;
-  const recipients = parseRecipientEmails(client.campaignWinsEmails);
+  const recipients = parseRecipientEmails(client.campaignWinsEmails, await loadSuppressedEmails());
   if (recipients.length === 0) return;
 
   await detectKeywordWins(client.id);
@@ -1704,6 +2019,7 @@ async function processCampaignWinsForClient(client: {
     eventDetails: safeQueue.map((e) => e.eventDetail),
     dashboardUrl: shareUrl,
   });
+  const batchId = newEmailBatchId();
 
   await Promise.all(
     recipients.map((to) =>
@@ -1711,6 +2027,7 @@ async function processCampaignWinsForClient(client: {
         to,
         subject,
         html,
+        delivery: { templateType: "campaign_wins", clientId: client.id, batchId },
       })
     )
   );
@@ -1759,7 +2076,7 @@ export async function getCampaignWinsInstantPreviewForClient(clientId: string):
     throw new Error("Campaign Wins is not enabled for this client");
   }
 
-  const recipients = parseRecipientEmails(client.campaignWinsEmails);
+  const recipients = parseRecipientEmails(client.campaignWinsEmails, await loadSuppressedEmails());
   if (recipients.length === 0) {
     throw new Error("No Campaign Wins recipients configured");
   }
@@ -1817,6 +2134,7 @@ export async function sendCampaignWinsInstantEmailForClient(clientId: string): P
 }> {
   const previewPayload = await getCampaignWinsInstantPreviewForClient(clientId);
   const { recipients, subject, html, eventDetails, preview } = previewPayload;
+  const batchId = newEmailBatchId();
 
   await Promise.all(
     recipients.map((to) =>
@@ -1824,6 +2142,7 @@ export async function sendCampaignWinsInstantEmailForClient(clientId: string): P
         to,
         subject,
         html,
+        delivery: { templateType: "campaign_wins", clientId, batchId },
       })
     )
   );
@@ -1853,15 +2172,21 @@ export async function processCampaignWinsReports(): Promise<void> {
       },
     });
 
+    let failed = 0;
     for (const client of clients) {
       try {
         await processCampaignWinsForClient(client);
       } catch (error: any) {
+        failed += 1;
         console.error(`[Campaign Wins] Failed for client ${client.id}:`, error?.message || error);
       }
     }
+    if (failed > 0) {
+      throw new Error(`Campaign wins failed for ${failed} of ${clients.length} clients`);
+    }
   } catch (error: any) {
     console.error("[Campaign Wins] Scheduler failed:", error?.message || error);
+    throw error;
   }
 }
 
@@ -2174,6 +2499,7 @@ export async function generatePpcReportPdfBuffer(
 export async function processScheduledReports(): Promise<void> {
   try {
     const now = new Date();
+    let failedSchedules = 0;
     
     // Find all active schedules that are due (skip archived/suspended/rejected clients)
     const dueSchedules = await prisma.reportSchedule.findMany({
@@ -2226,10 +2552,13 @@ export async function processScheduledReports(): Promise<void> {
       return;
     }
 
+    // Hard-bounced and complaining addresses are skipped by every schedule below
+    const suppressedEmails = await loadSuppressedEmails();
+
     for (const schedule of localMapDueSchedules) {
       try {
         console.log(`[Report Scheduler] Processing Local Map schedule ${schedule.id} for client ${schedule.client.name}`);
-        const recipients = normalizeEmailRecipients(schedule.recipients);
+        const recipients = normalizeEmailRecipients(schedule.recipients, suppressedEmails);
 
         if (recipients && recipients.length > 0) {
           const keywords = await prisma.gridKeyword.findMany({
@@ -2257,6 +2586,12 @@ export async function processScheduledReports(): Promise<void> {
               <p style="margin: 0;">Attached is the bundled Local Map Rankings PDF for all active grid keywords.</p>
             </div>
           `;
+          const delivery: EmailDeliveryContext = {
+            templateType: "local_map_report",
+            clientId: schedule.clientId,
+            batchId: newEmailBatchId(),
+            trackEngagement: schedule.trackEngagement,
+          };
 
           await Promise.all(
             recipients.map((email: string) =>
@@ -2271,22 +2606,27 @@ export async function processScheduledReports(): Promise<void> {
                     contentType: "application/pdf",
                   },
                 ],
+                delivery,
               })
             )
           );
           console.log(`[Report Scheduler] ✓ Local Map report sent for client ${schedule.client.name} (${schedule.frequency})`);
+          await emitClientWebhookEvent(schedule.clientId, "report.sent", {
+            report: { type: "local_map", scheduleId: schedule.id, frequency: schedule.frequency, subject: emailSubject, recipients },
+          });
         } else {
           console.log(`[Report Scheduler] ⚠ No recipients configured for Local Map schedule ${schedule.id}`);
         }
 
         const nextRunAt =
           schedule.frequency === "biweekly" || schedule.frequency === "monthly"
-            ? calculateNextLocalMapRunTime(schedule.frequency as "biweekly" | "monthly", schedule.timeOfDay)
+            ? calculateNextLocalMapRunTime(schedule.frequency as "biweekly" | "monthly", schedule.timeOfDay, schedule.timeZone)
             : calculateNextRunTime(
                 schedule.frequency,
                 schedule.dayOfWeek || undefined,
                 schedule.dayOfMonth || undefined,
-                schedule.timeOfDay
+                schedule.timeOfDay,
+                schedule.timeZone
               );
         await prisma.reportSchedule.update({
           where: { id: schedule.id },
@@ -2296,6 +2636,7 @@ export async function processScheduledReports(): Promise<void> {
           },
         });
       } catch (error: any) {
+        failedSchedules += 1;
         console.error(`[Report Scheduler] ✗ Failed to process Local Map schedule ${schedule.id} for client ${schedule.clientId}:`, error);
       }
     }
@@ -2315,29 +2656,23 @@ export async function processScheduledReports(): Promise<void> {
         });
 
         // Send email to recipients (stored as JSON string)
-        const recipients = normalizeEmailRecipients(schedule.recipients);
+        const recipients = normalizeEmailRecipients(schedule.recipients, suppressedEmails);
         if (recipients && recipients.length > 0) {
           console.log(`[Report Scheduler] Sending emails to: ${recipients.join(", ")}`);
           
-          const shareUrl = await buildShareDashboardUrl(schedule.clientId).catch((err: any) => {
-            console.warn(
-              `[Report Scheduler] Failed to build share URL for client ${schedule.clientId}:`,
-              err?.message || err
-            );
-            return null;
+          const { html: emailHtml, pdf: pdfBuffer } = await renderSeoReportEmailAndPdf(report, schedule.client, {
+            period: schedule.frequency,
+            templateId: schedule.templateId,
+            timeZone: schedule.timeZone,
           });
-
-          const targetKeywords = await getReportTargetKeywords(schedule.clientId).catch((err) => {
-            console.warn(
-              `[Report Scheduler] Failed to fetch target keywords for client ${schedule.clientId}:`,
-              err?.message || err
-            );
-            return [] as ReportTargetKeywordRow[];
-          });
-
-          const emailHtml = generateReportEmailHTML(report, schedule.client, { targetKeywords, shareUrl });
           const emailSubject = schedule.emailSubject || buildReportEmailSubject(schedule.client.name, schedule.frequency);
-          const pdfBuffer = await generateReportPDFBuffer(report, schedule.client, { targetKeywords, shareUrl });
+          const delivery: EmailDeliveryContext = {
+            templateType: "report",
+            clientId: schedule.clientId,
+            reportId: report.id,
+            batchId: newEmailBatchId(),
+            trackEngagement: schedule.trackEngagement,
+          };
 
           const emailPromises = recipients.map((email: string) =>
             sendEmail({
@@ -2350,7 +2685,8 @@ export async function processScheduledReports(): Promise<void> {
                   content: pdfBuffer,
                   contentType: 'application/pdf'
                 }
-              ]
+              ],
+              delivery,
             }).then(() => {
               console.log(`[Report Scheduler] Email sent successfully to ${email}`);
             }).catch((error) => {
@@ -2374,6 +2710,17 @@ export async function processScheduledReports(): Promise<void> {
           });
 
           console.log(`[Report Scheduler] ✓ Report generated and sent for client ${schedule.client.name} (${schedule.frequency})`);
+          await emitClientWebhookEvent(schedule.clientId, "report.sent", {
+            report: {
+              type: "seo",
+              id: report.id,
+              period: report.period,
+              scheduleId: schedule.id,
+              frequency: schedule.frequency,
+              subject: emailSubject,
+              recipients,
+            },
+          });
         } else {
           console.log(`[Report Scheduler] ⚠ No recipients configured for schedule ${schedule.id}`);
         }
@@ -2383,7 +2730,8 @@ export async function processScheduledReports(): Promise<void> {
           schedule.frequency,
           schedule.dayOfWeek || undefined,
           schedule.dayOfMonth || undefined,
-          schedule.timeOfDay
+          schedule.timeOfDay,
+          schedule.timeZone
         );
 
         await prisma.reportSchedule.update({
@@ -2397,6 +2745,7 @@ export async function processScheduledReports(): Promise<void> {
         console.log(`[Report Scheduler] Next run scheduled for: ${nextRunAt.toISOString()}`);
 
       } catch (error: any) {
+        failedSchedules += 1;
         console.error(`[Report Scheduler] ✗ Failed to process schedule ${schedule.id} for client ${schedule.clientId}:`, error);
         console.error(`[Report Scheduler] Error details:`, error.message, error.stack);
         // Continue with other schedules even if one fails
@@ -2407,7 +2756,7 @@ export async function processScheduledReports(): Promise<void> {
       try {
         console.log(`[Report Scheduler] Processing PPC schedule ${schedule.id} for client ${schedule.client.name}`);
         const ppcReport = await autoGeneratePpcReport(schedule.clientId, schedule.frequency);
-        const recipients = normalizeEmailRecipients(schedule.recipients);
+        const recipients = normalizeEmailRecipients(schedule.recipients, suppressedEmails);
 
         if (recipients && recipients.length > 0) {
           const subjectWithoutMarker = String(schedule.emailSubject || "")
@@ -2417,6 +2766,12 @@ export async function processScheduledReports(): Promise<void> {
             subjectWithoutMarker || `PPC Report - ${buildReportEmailSubject(schedule.client.name, schedule.frequency)}`;
           const emailHtml = generatePpcReportEmailHtml(schedule.client.name, ppcReport);
           const pdfBuffer = await generatePpcReportPdfBuffer(schedule.client.name, ppcReport);
+          const delivery: EmailDeliveryContext = {
+            templateType: "ppc_report",
+            clientId: schedule.clientId,
+            batchId: newEmailBatchId(),
+            trackEngagement: schedule.trackEngagement,
+          };
 
           await Promise.all(
             recipients.map((email: string) =>
@@ -2431,10 +2786,21 @@ export async function processScheduledReports(): Promise<void> {
                     contentType: "application/pdf",
                   },
                 ],
+                delivery,
               })
             )
           );
           console.log(`[Report Scheduler] ✓ PPC report sent for client ${schedule.client.name} (${schedule.frequency})`);
+          await emitClientWebhookEvent(schedule.clientId, "report.sent", {
+            report: {
+              type: "ppc",
+              period: ppcReport.period,
+              scheduleId: schedule.id,
+              frequency: schedule.frequency,
+              subject: emailSubject,
+              recipients,
+            },
+          });
         } else {
           console.log(`[Report Scheduler] ⚠ No recipients configured for PPC schedule ${schedule.id}`);
         }
@@ -2443,7 +2809,8 @@ export async function processScheduledReports(): Promise<void> {
           schedule.frequency,
           schedule.dayOfWeek || undefined,
           schedule.dayOfMonth || undefined,
-          schedule.timeOfDay
+          schedule.timeOfDay,
+          schedule.timeZone
         );
         await prisma.reportSchedule.update({
           where: { id: schedule.id },
@@ -2453,14 +2820,20 @@ export async function processScheduledReports(): Promise<void> {
           },
         });
       } catch (error: any) {
+        failedSchedules += 1;
         console.error(`[Report Scheduler] ✗ Failed to process PPC schedule ${schedule.id} for client ${schedule.clientId}:`, error);
       }
     }
 
     console.log(`[Report Scheduler] Finished processing scheduled reports.`);
+    if (failedSchedules > 0) {
+      // Surface partial failures to the job runner so the run is recorded as failed and retried
+      throw new Error(`${failedSchedules} scheduled report(s) failed`);
+    }
   } catch (error: any) {
     console.error('[Report Scheduler] Error processing scheduled reports:', error);
     console.error('[Report Scheduler] Error details:', error.message, error.stack);
+    throw error;
   }
 }
 
@@ -0,0 +1,106 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_REPORT_TEMPLATE_BLOCKS,
+  buildReportDocument,
+  getReportTemplateWindow,
+  parseStoredReportTemplateBlocks,
+  renderReportDocumentHtml,
+  renderReportDocumentPdf,
+  reportTemplateBlocksSchema,
+  templateSections,
+  type ReportTemplateData,
+} from "./reportTemplates.js";
+
+const data = (overrides: Partial<ReportTemplateData> = {}): ReportTemplateData => ({
+  report: { reportDate: "2026-04-01T00:00:00Z", totalUsers: 1200, organicSearchEngagedSessions: 300, newUsers: 800, engagedSessions: 450 },
+  client: { name: "Acme <Plumbing>", domain: "acme.test" },
+  period: "monthly",
+  window: getReportTemplateWindow("monthly", new Date("2026-04-02T00:00:00Z")),
+  ...overrides,
+});
+
+test("blocks schema assigns missing or duplicate ids and rejects a section used twice", () => {
+  const blocks = reportTemplateBlocksSchema.parse([
+    { type: "text", title: "", body: "Hello" },
+    { id: "a", type: "section", section: "backlinks" },
+    { id: "a", type: "section", section: "ppc", commentary: "  " },
+  ]);
+  assert.deepEqual(
+    blocks.map((b) => b.id),
+    ["block-1", "a", "block-3"]
+  );
+  assert.equal(blocks[0].type === "text" && blocks[0].title, null);
+  assert.equal(blocks[2].type === "section" && blocks[2].commentary, null);
+
+  const duplicate = reportTemplateBlocksSchema.safeParse([
+    { type: "section", section: "backlinks" },
+    { type: "section", section: "backlinks" },
+  ]);
+  assert.equal(duplicate.success, false);
+  assert.equal(reportTemplateBlocksSchema.safeParse([]).success, false);
+});
+
+test("stored blocks that no longer validate fall back to the default layout", () => {
+  assert.deepEqual(parseStoredReportTemplateBlocks([{ type: "section", section: "removed_section" }]), DEFAULT_REPORT_TEMPLATE_BLOCKS);
+  assert.deepEqual(parseStoredReportTemplateBlocks(null), DEFAULT_REPORT_TEMPLATE_BLOCKS);
+  assert.deepEqual(
+    [...templateSections(DEFAULT_REPORT_TEMPLATE_BLOCKS)],
+    ["traffic_overview", "seo_performance", "money_keywords", "topical_keywords", "live_dashboard"]
+  );
+});
+
+test("getReportTemplateWindow covers the period's days ending yesterday", () => {
+  const { startDate, endDate } = getReportTemplateWindow("weekly", new Date("2026-04-10T12:00:00Z"));
+  assert.equal(endDate.toISOString(), "2026-04-09T12:00:00.000Z");
+  assert.equal(startDate.toISOString(), "2026-04-03T12:00:00.000Z");
+});
+
+test("buildReportDocument keeps block order, adds commentary and reports missing data per section", () => {
+  const blocks = reportTemplateBlocksSchema.parse([
+    { type: "text", title: "Summary", body: "First paragraph.\n\nSecond paragraph." },
+    { type: "section", section: "traffic_overview", commentary: "Traffic is up." },
+    { type: "section", section: "backlinks" },
+    { type: "section", section: "local_map" },
+  ]);
+  const document = buildReportDocument(
+    blocks,
+    data({
+      backlinks: null,
+      localMap: [{ keyword: "plumber", businessName: "Acme", ataScore: 3.5, previousAtaScore: 4.75 }],
+    }),
+    "Monthly review"
+  );
+
+  assert.equal(document.title, "Monthly review");
+  assert.deepEqual(
+    document.blocks.map((b) => b.title),
+    ["Summary", "Traffic Overview", "Backlinks", "Local Map Rankings"]
+  );
+  assert.deepEqual(document.blocks[0].content, [{ kind: "paragraphs", paragraphs: ["First paragraph.", "Second paragraph."] }]);
+  assert.deepEqual(document.blocks[1].commentary, ["Traffic is up."]);
+  const traffic = document.blocks[1].content[0];
+  assert.ok(traffic.kind === "metrics");
+  assert.equal(traffic.items[0].value, (1200).toLocaleString());
+  assert.deepEqual(document.blocks[2].content, [{ kind: "empty", text: "Backlink data is unavailable." }]);
+  const grid = document.blocks[3].content[0];
+  assert.ok(grid.kind === "table");
+  assert.deepEqual(grid.rows[0], ["plumber", "Acme", "3.50", "+1.25"]);
+});
+
+test("HTML and PDF render from the same document and HTML escapes user text", async () => {
+  const blocks = reportTemplateBlocksSchema.parse([
+    { type: "text", title: "Notes", body: "<script>alert(1)</script>" },
+    { type: "section", section: "live_dashboard" },
+  ]);
+  const document = buildReportDocument(blocks, data({ shareUrl: "https://app.test/share/abc" }));
+  const html = renderReportDocumentHtml(document);
+  assert.ok(html.includes("&lt;script&gt;alert(1)&lt;/script&gt;"));
+  assert.ok(!html.includes("<script>"));
+  assert.ok(html.includes("Acme &lt;Plumbing&gt;"));
+  assert.ok(html.indexOf("Notes") < html.indexOf("Live Dashboard"));
+  assert.ok(html.includes('href="https://app.test/share/abc"'));
+
+  const pdf = await renderReportDocumentPdf(document);
+  assert.equal(pdf.subarray(0, 4).toString("ascii"), "%PDF");
+});
@@ -0,0 +1,927 @@
+/**
+ * Agency report templates: an ordered list of blocks (built-in sections with optional commentary, and free text) that
+ * replaces the fixed REPORT_SECTION_ORDER layout for schedules that reference a template.
+ * A template and its data are first turned into a neutral ReportDocument (buildReportDocument); the email HTML and the
+ * PDF attachment are both rendered from that document, so the two always show the same sections in the same order.
+ */
+import { z } from "zod";
+import PDFDocument from "pdfkit";
+import { prisma } from "./prisma.js";
+import {
+  BRAND_DISPLAY_NAME,
+  REPORT_SECTION_ORDER,
+  REPORT_SECTION_TITLES,
+  normalizeReportPeriod,
+} from "./qualityContracts.js";
+import type { SearchConsolePerformance } from "./searchConsole.js";
+import { formatMinutesAsHours, type ClientMonthlyHours } from "./timeTracking.js";
+import type { CompetitorOverview } from "./competitors.js";
+import type { ReportTargetKeywordRow } from "./reportScheduler.js";
+
+export const REPORT_TEMPLATE_SECTIONS = {
+  traffic_overview: { title: REPORT_SECTION_TITLES.traffic_overview, description: "Core visitor metrics for this reporting period." },
+  seo_performance: { title: REPORT_SECTION_TITLES.seo_performance, description: "Google Search Console clicks, impressions and top queries." },
+  money_keywords: { title: REPORT_SECTION_TITLES.money_keywords, description: "High-intent keywords that drive qualified opportunities." },
+  topical_keywords: { title: REPORT_SECTION_TITLES.topical_keywords, description: "Supportive topic coverage and informational discovery terms." },
+  live_dashboard: { title: REPORT_SECTION_TITLES.live_dashboard, description: "Share this live report URL to provide read-only visibility." },
+  ga4_events: { title: "GA4 Events", description: "Most frequent Google Analytics events in this period." },
+  visitor_sources: { title: "Visitor Sources", description: "Where visitors came from in this period." },
+  backlinks: { title: "Backlinks", description: "Live, new and lost backlinks in this period." },
+  ai_visibility: { title: "AI Visibility", description: "Visits referred by AI assistants (ChatGPT, Gemini)." },
+  local_map: { title: "Local Map Rankings", description: "Average rank across each local map grid (lower is better)." },
+  ppc: { title: "PPC Performance", description: "Google Ads results for this period." },
+  work_log: { title: "Work Log", description: "Tasks worked on in this period." },
+  hours_used: { title: "Hours Used", description: "Time logged on campaign tasks this month." },
+  competitors: { title: "Competitors", description: "Latest competitor snapshots and keyword gaps." },
+} as const;
+
+export type ReportTemplateSection = keyof typeof REPORT_TEMPLATE_SECTIONS;
+
+const sectionIds = Object.keys(REPORT_TEMPLATE_SECTIONS) as [ReportTemplateSection, ...ReportTemplateSection[]];
+
+export const MAX_REPORT_TEMPLATE_BLOCKS = 40;
+export const MAX_REPORT_TEMPLATES_PER_AGENCY = 25;
+
+export type ReportTemplateBlock =
+  | { id: string; type: "section"; section: ReportTemplateSection; commentary: string | null }
+  | { id: string; type: "text"; title: string | null; body: string };
+
+const blockIdSchema = z.string().trim().min(1).max(40).optional();
+const optionalText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .optional()
+    .nullable()
+    .transform((value) => value || null);
+
+const blockSchema = z.discriminatedUnion("type", [
+  z.object({ id: blockIdSchema, type: z.literal("section"), section: z.enum(sectionIds), commentary: optionalText(5000) }),
+  z.object({ id: blockIdSchema, type: z.literal("text"), title: optionalText(120), body: z.string().trim().min(1).max(10000) }),
+]);
+
+export const reportTemplateBlocksSchema = z
+  .array(blockSchema)
+  .min(1)
+  .max(MAX_REPORT_TEMPLATE_BLOCKS)
+  .superRefine((blocks, ctx) => {
+    const seen = new Set<string>();
+    blocks.forEach((block, index) => {
+      if (block.type !== "section") return;
+      if (seen.has(block.section)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "section"], message: "Each section can only be added once" });
+      }
+      seen.add(block.section);
+    });
+  })
+  .transform((blocks): ReportTemplateBlock[] => {
+    const usedIds = new Set<string>();
+    return blocks.map((block, index) => {
+      let id = block.id && !usedIds.has(block.id) ? block.id : `block-${index + 1}`;
+      while (usedIds.has(id)) id = `${id}-${index + 1}`;
+      usedIds.add(id);
+      return { ...block, id } as ReportTemplateBlock;
+    });
+  });
+
+export const reportTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  description: optionalText(500),
+  blocks: reportTemplateBlocksSchema,
+});
+
+/** The layout every report had before templates: REPORT_SECTION_ORDER, no commentary. */
+export const DEFAULT_REPORT_TEMPLATE_BLOCKS: ReportTemplateBlock[] = REPORT_SECTION_ORDER.map((section) => ({
+  id: section,
+  type: "section",
+  section,
+  commentary: null,
+}));
+
+/** Blocks stored on a template row; anything unreadable falls back to the default layout rather than failing a send. */
+export function parseStoredReportTemplateBlocks(value: unknown): ReportTemplateBlock[] {
+  const parsed = reportTemplateBlocksSchema.safeParse(value);
+  return parsed.success ? parsed.data : DEFAULT_REPORT_TEMPLATE_BLOCKS;
+}
+
+export function templateSections(blocks: ReportTemplateBlock[]): Set<ReportTemplateSection> {
+  return new Set(blocks.flatMap((block) => (block.type === "section" ? [block.section] : [])));
+}
+
+const REPORT_PERIOD_DAYS: Record<string, number> = { weekly: 7, biweekly: 14, monthly: 30 };
+
+/** Same window as the Search Console section: the period's days ending yesterday. */
+export function getReportTemplateWindow(period: string, now: Date = new Date()): { startDate: Date; endDate: Date } {
+  const days = REPORT_PERIOD_DAYS[normalizeReportPeriod(period)] ?? 30;
+  const endDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  const startDate = new Date(endDate.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+  return { startDate, endDate };
+}
+
+export type BacklinkReportSummary = {
+  live: number;
+  dofollow: number;
+  newInPeriod: number;
+  lostInPeriod: number;
+  averageDomainRating: number | null;
+  topNew: Array<{ sourceUrl: string; domainRating: number | null; isFollow: boolean }>;
+};
+
+export type LocalMapReportRow = { keyword: string; businessName: string; ataScore: number | null; previousAtaScore: number | null };
+
+export type WorkLogReportRow = { title: string; status: string; minutes: number };
+
+type AiVisibilitySummary = {
+  totalSessions: number;
+  providers: Record<"chatgpt" | "gemini", { sessions: number; users: number; citedPages: number }>;
+  countries: Array<{ countryCode: string; visibility: number; mentions: number }>;
+};
+
+type PpcReportSummary = {
+  dateRange: { start: string; end: string };
+  campaignSummary: { clicks: number; impressions: number; cost: number; conversions: number; avgCpc: number; costPerConversion: number };
+  campaigns: any[];
+};
+
+/** Everything a template can show; sources the template doesn't use stay undefined, failed or unconnected ones null. */
+export type ReportTemplateData = {
+  report: any;
+  client: { name: string; domain?: string | null };
+  period: string;
+  window: { startDate: Date; endDate: Date };
+  searchConsole?: SearchConsolePerformance | null;
+  targetKeywords?: ReportTargetKeywordRow[] | null;
+  shareUrl?: string | null;
+  hoursUsed?: ClientMonthlyHours | null;
+  competitors?: CompetitorOverview | null;
+  ga4Events?: Array<{ name: string; count: number }> | null;
+  visitorSources?: Array<{ source: string; users: number }> | null;
+  aiVisibility?: AiVisibilitySummary | null;
+  backlinks?: BacklinkReportSummary | null;
+  localMap?: LocalMapReportRow[] | null;
+  ppc?: PpcReportSummary | null;
+  workLog?: WorkLogReportRow[] | null;
+};
+
+async function loadBacklinkSummary(clientId: string, startDate: Date): Promise<BacklinkReportSummary> {
+  const [aggregate, dofollow, newInPeriod, lostInPeriod, topNew] = await Promise.all([
+    prisma.backlink.aggregate({ where: { clientId, isLost: false }, _count: { id: true }, _avg: { domainRating: true } }),
+    prisma.backlink.count({ where: { clientId, isLost: false, isFollow: true } }),
+    prisma.backlink.count({
+      where: { clientId, isLost: false, OR: [{ firstSeen: { gte: startDate } }, { firstSeen: null, createdAt: { gte: startDate } }] },
+    }),
+    prisma.backlink.count({
+      where: { clientId, isLost: true, OR: [{ lastSeen: { gte: startDate } }, { lastSeen: null, updatedAt: { gte: startDate } }] },
+    }),
+    prisma.backlink.findMany({
+      where: { clientId, isLost: false, OR: [{ firstSeen: { gte: startDate } }, { firstSeen: null, createdAt: { gte: startDate } }] },
+      orderBy: { domainRating: "desc" },
+      take: 10,
+      select: { sourceUrl: true, domainRating: true, isFollow: true },
+    }),
+  ]);
+  return {
+    live: aggregate._count.id,
+    dofollow,
+    newInPeriod,
+    lostInPeriod,
+    averageDomainRating: aggregate._avg.domainRating,
+    topNew,
+  };
+}
+
+async function loadLocalMapRows(clientId: string): Promise<LocalMapReportRow[]> {
+  const keywords = await prisma.gridKeyword.findMany({
+    where: { clientId, status: "active" },
+    orderBy: { keywordText: "asc" },
+    select: {
+      keywordText: true,
+      businessName: true,
+      snapshots: { orderBy: { runDate: "desc" }, take: 2, select: { ataScore: true } },
+    },
+  });
+  return keywords.map((row) => ({
+    keyword: row.keywordText,
+    businessName: row.businessName,
+    ataScore: row.snapshots[0]?.ataScore ?? null,
+    previousAtaScore: row.snapshots[1]?.ataScore ?? null,
+  }));
+}
+
+async function loadWorkLogRows(clientId: string, startDate: Date, endDate: Date): Promise<WorkLogReportRow[]> {
+  const tasks = await prisma.task.findMany({
+    where: { clientId, status: { not: "CANCELLED" }, updatedAt: { gte: startDate } },
+    orderBy: { updatedAt: "desc" },
+    take: 25,
+    select: { id: true, title: true, status: true },
+  });
+  const logged = await prisma.taskTimeEntry.groupBy({
+    by: ["taskId"],
+    where: { taskId: { in: tasks.map((t) => t.id) }, durationMinutes: { not: null }, startedAt: { gte: startDate, lte: endDate } },
+    _sum: { durationMinutes: true },
+  });
+  const minutesByTask = new Map(logged.map((row) => [row.taskId, row._sum.durationMinutes ?? 0]));
+  return tasks.map((task) => ({ title: task.title, status: task.status, minutes: minutesByTask.get(task.id) ?? 0 }));
+}
+
+/** Fetches only the sources the template's sections need. A failing source renders as "unavailable", never fails the send. */
+export async function loadReportTemplateData(
+  report: any,
+  client: { id: string; name: string; domain?: string | null },
+  blocks: ReportTemplateBlock[],
+  period: string = report.period,
+  timeZone?: string | null
+): Promise<ReportTemplateData> {
+  const sections = templateSections(blocks);
+  const window = getReportTemplateWindow(period);
+  const { startDate, endDate } = window;
+  const needs = (...keys: ReportTemplateSection[]) => keys.some((key) => sections.has(key));
+  const safe = <T>(load: () => Promise<T>): Promise<T | null> =>
+    load().catch((err: any) => {
+      console.warn(`[Report Templates] Failed to load report data for client ${client.id}:`, err?.message || err);
+      return null;
+    });
+  const scheduler = await import("./reportScheduler.js");
+
+  const [searchConsole, targetKeywords, shareUrl, hoursUsed, competitors, ga4Events, visitorSources, aiVisibility, backlinks, localMap, ppc, workLog] =
+    await Promise.all([
+      needs("seo_performance") ? safe(() => scheduler.getReportSearchConsole(client.id, period)) : undefined,
+      needs("money_keywords", "topical_keywords") ? safe(() => scheduler.getReportTargetKeywords(client.id)) : undefined,
+      needs("live_dashboard") ? safe(() => scheduler.buildShareDashboardUrl(client.id)) : undefined,
+      needs("hours_used") ? safe(() => scheduler.getReportHoursUsed(client.id, new Date(report.reportDate), timeZone)) : undefined,
+      needs("competitors") ? safe(() => scheduler.getReportCompetitors(client.id)) : undefined,
+      needs("ga4_events")
+        ? safe(async () => (await import("./ga4TopEvents.js")).fetchGA4TopEvents(client.id, startDate, endDate, 10))
+        : undefined,
+      needs("visitor_sources")
+        ? safe(async () => (await import("./ga4VisitorSources.js")).fetchGA4VisitorSources(client.id, startDate, endDate, 10))
+        : undefined,
+      needs("ai_visibility")
+        ? safe(async () => (await import("./ga4AiSearchVisibility.js")).fetchGA4AiSearchVisibility(client.id, startDate, endDate))
+        : undefined,
+      needs("backlinks") ? safe(() => loadBacklinkSummary(client.id, startDate)) : undefined,
+      needs("local_map") ? safe(() => loadLocalMapRows(client.id)) : undefined,
+      needs("ppc")
+        ? safe(async () => {
+            const ads = await prisma.client.findUnique({
+              where: { id: client.id },
+              select: { googleAdsRefreshToken: true, googleAdsCustomerId: true, googleAdsConnectedAt: true },
+            });
+            if (!ads?.googleAdsRefreshToken || !ads.googleAdsCustomerId || !ads.googleAdsConnectedAt) return null;
+            return scheduler.autoGeneratePpcReport(client.id, period);
+          })
+        : undefined,
+      needs("work_log") ? safe(() => loadWorkLogRows(client.id, startDate, endDate)) : undefined,
+    ]);
+
+  return {
+    report,
+    client,
+    period,
+    window,
+    searchConsole,
+    targetKeywords,
+    shareUrl,
+    hoursUsed,
+    competitors,
+    ga4Events,
+    visitorSources,
+    aiVisibility,
+    backlinks,
+    localMap,
+    ppc,
+    workLog,
+  };
+}
+
+export type ReportDocumentContent =
+  | { kind: "metrics"; items: Array<{ label: string; value: string }> }
+  | { kind: "table"; caption: string | null; columns: Array<{ label: string; align: "left" | "right" }>; rows: string[][] }
+  | { kind: "paragraphs"; paragraphs: string[] }
+  | { kind: "link"; url: string }
+  | { kind: "empty"; text: string };
+
+export type ReportDocumentBlock = {
+  title: string | null;
+  description: string | null;
+  content: ReportDocumentContent[];
+  /** Agency commentary shown under a section. */
+  commentary: string[];
+};
+
+export type ReportDocument = {
+  title: string;
+  subtitle: string;
+  meta: Array<{ label: string; value: string }>;
+  blocks: ReportDocumentBlock[];
+};
+
+const formatCount = (value: number | null | undefined) => (value != null && Number.isFinite(value) ? value.toLocaleString() : "—");
+const formatMoney = (value: number) =>
+  Number(value || 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function splitParagraphs(text: string | null | undefined): string[] {
+  return String(text ?? "")
+    .replace(/\r\n/g, "\n")
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+}
+
+const metrics = (items: Array<[string, string]>): ReportDocumentContent => ({
+  kind: "metrics",
+  items: items.map(([label, value]) => ({ label, value })),
+});
+
+const table = (caption: string | null, columns: Array<[string, "left" | "right"]>, rows: string[][]): ReportDocumentContent => ({
+  kind: "table",
+  caption,
+  columns: columns.map(([label, align]) => ({ label, align })),
+  rows,
+});
+
+const empty = (text: string): ReportDocumentContent[] => [{ kind: "empty", text }];
+
+function keywordContent(keywords: ReportTargetKeywordRow[] | null | undefined, topical: boolean): ReportDocumentContent[] {
+  if (keywords == null) return empty("Keyword data is unavailable.");
+  const rows = keywords
+    .filter((k) => (k.type === "topical") === topical)
+    .sort((a, b) => (a.googlePosition ?? Infinity) - (b.googlePosition ?? Infinity));
+  if (rows.length === 0) return empty(topical ? "No topical keywords tracked yet." : "No money keywords tracked yet.");
+  return [
+    table(
+      null,
+      [["Keyword", "left"], ["Location", "left"], ["Position", "right"], ["Change", "right"]],
+      rows.map((k) => {
+        const diff = k.googlePosition != null && k.previousPosition != null ? k.previousPosition - k.googlePosition : null;
+        return [
+          String(k.keyword || ""),
+          String(k.locationName || "United States"),
+          k.googlePosition != null ? String(k.googlePosition) : "—",
+          diff == null ? "—" : diff > 0 ? `+${diff}` : String(diff),
+        ];
+      })
+    ),
+  ];
+}
+
+function sectionContent(section: ReportTemplateSection, data: ReportTemplateData): ReportDocumentContent[] {
+  const report = data.report ?? {};
+  switch (section) {
+    case "traffic_overview":
+      return [
+        metrics([
+          ["Web Visitors", formatCount(Number(report.totalUsers ?? report.activeUsers ?? 0))],
+          ["Organic Traffic", formatCount(Number(report.organicSearchEngagedSessions ?? 0))],
+          ["First Time Visitors", formatCount(Number(report.newUsers ?? 0))],
+          ["Engaged Visitors", formatCount(Number(report.engagedVisitors ?? report.engagedSessions ?? 0))],
+        ]),
+      ];
+    case "seo_performance": {
+      const sc = data.searchConsole;
+      if (!sc) return empty("Search Console is not connected or has no data for this period.");
+      const content = [
+        metrics([
+          ["Clicks", formatCount(sc.totals.clicks)],
+          ["Impressions", formatCount(sc.totals.impressions)],
+          ["Avg. CTR", `${(sc.totals.ctr * 100).toFixed(1)}%`],
+          ["Avg. Position", sc.totals.position != null ? sc.totals.position.toFixed(1) : "—"],
+        ]),
+      ];
+      if (sc.topQueries.length > 0) {
+        content.push(
+          table(
+            `Top search queries, ${sc.startDate} to ${sc.endDate}`,
+            [["Query", "left"], ["Clicks", "right"], ["Impressions", "right"], ["CTR", "right"], ["Position", "right"]],
+            sc.topQueries.map((q) => [
+              q.key,
+              formatCount(q.clicks),
+              formatCount(q.impressions),
+              `${(q.ctr * 100).toFixed(1)}%`,
+              q.position.toFixed(1),
+            ])
+          )
+        );
+      }
+      return content;
+    }
+    case "money_keywords":
+      return keywordContent(data.targetKeywords, false);
+    case "topical_keywords":
+      return keywordContent(data.targetKeywords, true);
+    case "live_dashboard":
+      return data.shareUrl && /^https?:\/\//i.test(data.shareUrl)
+        ? [{ kind: "link", url: data.shareUrl }]
+        : empty("Share link unavailable.");
+    case "ga4_events": {
+      const events = data.ga4Events;
+      if (!events || events.length === 0) return empty("No GA4 events recorded for this period.");
+      return [table(null, [["Event", "left"], ["Count", "right"]], events.map((e) => [e.name, formatCount(e.count)]))];
+    }
+    case "visitor_sources": {
+      const sources = data.visitorSources;
+      if (!sources || sources.length === 0) return empty("No visitor source data for this period.");
+      return [table(null, [["Source", "left"], ["Visitors", "right"]], sources.map((s) => [s.source, formatCount(s.users)]))];
+    }
+    case "ai_visibility": {
+      const ai = data.aiVisibility;
+      if (!ai) return empty("AI visibility data is unavailable.");
+      const { chatgpt, gemini } = ai.providers;
+      if (chatgpt.sessions + gemini.sessions === 0) return empty("No visits from AI assistants in this period.");
+      const content = [
+        metrics([
+          ["ChatGPT visits", formatCount(chatgpt.sessions)],
+          ["ChatGPT cited pages", formatCount(chatgpt.citedPages)],
+          ["Gemini visits", formatCount(gemini.sessions)],
+          ["Gemini cited pages", formatCount(gemini.citedPages)],
+        ]),
+      ];
+      if (ai.countries.length > 0) {
+        content.push(
+          table(
+            "Top countries",
+            [["Country", "left"], ["Visits", "right"], ["Share", "right"]],
+            ai.countries.slice(0, 10).map((c) => [c.countryCode, formatCount(c.mentions), `${c.visibility.toFixed(1)}%`])
+          )
+        );
+      }
+      return content;
+    }
+    case "backlinks": {
+      const b = data.backlinks;
+      if (!b) return empty("Backlink data is unavailable.");
+      const content = [
+        metrics([
+          ["Live backlinks", formatCount(b.live)],
+          ["Dofollow", formatCount(b.dofollow)],
+          ["New this period", formatCount(b.newInPeriod)],
+          ["Lost this period", formatCount(b.lostInPeriod)],
+          ["Avg. domain rating", b.averageDomainRating != null ? b.averageDomainRating.toFixed(1) : "—"],
+        ]),
+      ];
+      if (b.topNew.length > 0) {
+        content.push(
+          table(
+            "Strongest new links",
+            [["Source", "left"], ["DR", "right"], ["Type", "right"]],
+            b.topNew.map((link) => [
+              link.sourceUrl,
+              link.domainRating != null ? String(Math.round(link.domainRating)) : "—",
+              link.isFollow ? "Dofollow" : "Nofollow",
+            ])
+          )
+        );
+      }
+      return content;
+    }
+    case "local_map": {
+      const rows = data.localMap;
+      if (!rows || rows.length === 0) return empty("No active local map keywords.");
+      return [
+        table(
+          null,
+          [["Keyword", "left"], ["Business", "left"], ["Avg. rank", "right"], ["Change", "right"]],
+          rows.map((row) => {
+            const change = row.ataScore != null && row.previousAtaScore != null ? row.previousAtaScore - row.ataScore : null;
+            return [
+              row.keyword,
+              row.businessName,
+              row.ataScore != null ? row.ataScore.toFixed(2) : "Not run yet",
+              change == null ? "—" : change > 0 ? `+${change.toFixed(2)}` : change.toFixed(2),
+            ];
+          })
+        ),
+      ];
+    }
+    case "ppc": {
+      const ppc = data.ppc;
+      if (!ppc) return empty("Google Ads is not connected.");
+      const s = ppc.campaignSummary;
+      const content = [
+        metrics([
+          ["Clicks", formatCount(s.clicks)],
+          ["Impressions", formatCount(s.impressions)],
+          ["Cost", `$${formatMoney(s.cost)}`],
+          ["Conversions", formatCount(s.conversions)],
+          ["Avg. CPC", `$${formatMoney(s.avgCpc)}`],
+          ["Cost / conversion", `$${formatMoney(s.costPerConversion)}`],
+        ]),
+      ];
+      if (ppc.campaigns.length > 0) {
+        content.push(
+          table(
+            `Top campaigns, ${ppc.dateRange.start} to ${ppc.dateRange.end}`,
+            [["Campaign", "left"], ["Clicks", "right"], ["Cost", "right"], ["Conversions", "right"]],
+            ppc.campaigns.slice(0, 10).map((row) => [
+              String(row?.name || "Unnamed"),
+              formatCount(Number(row?.clicks || 0)),
+              `$${formatMoney(Number(row?.cost || 0))}`,
+              formatCount(Number(row?.conversions || 0)),
+            ])
+          )
+        );
+      }
+      return content;
+    }
+    case "work_log": {
+      const rows = data.workLog;
+      if (!rows || rows.length === 0) return empty("No tasks were worked on in this period.");
+      const statusLabel = (status: string) =>
+        status
+          .toLowerCase()
+          .split("_")
+          .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+          .join(" ");
+      return [
+        table(
+          null,
+          [["Task", "left"], ["Status", "left"], ["Hours", "right"]],
+          rows.map((row) => [row.title, statusLabel(row.status), row.minutes > 0 ? formatMinutesAsHours(row.minutes) : "—"])
+        ),
+      ];
+    }
+    case "hours_used": {
+      const hours = data.hoursUsed;
+      if (!hours) return empty("No time logged this month.");
+      const content = [
+        metrics([
+          ["Hours logged", formatMinutesAsHours(hours.billableMinutes)],
+          ["Monthly allowance", hours.allowanceHours != null ? String(hours.allowanceHours) : "—"],
+          [
+            "Hours remaining",
+            hours.allowanceHours != null ? formatMinutesAsHours(Math.max(0, hours.allowanceHours * 60 - hours.billableMinutes)) : "—",
+          ],
+        ]),
+      ];
+      if (hours.byTask.length > 0) {
+        content.push(
+          table(
+            `${hours.startDate} to ${hours.endDate}`,
+            [["Task", "left"], ["Estimated", "right"], ["Actual", "right"]],
+            hours.byTask
+              .slice(0, 10)
+              .map((t) => [t.title, t.estimatedHours != null ? String(t.estimatedHours) : "—", formatMinutesAsHours(t.billableMinutes)])
+          )
+        );
+      }
+      return content;
+    }
+    case "competitors": {
+      const overview = data.competitors;
+      if (!overview?.client.latest) return empty("No competitor snapshots yet.");
+      const domainRows = [
+        { name: `${overview.client.domain} (you)`, latest: overview.client.latest },
+        ...overview.competitors.map((c) => ({ name: c.label ? `${c.label} (${c.domain})` : c.domain, latest: c.latest })),
+      ];
+      const content = [
+        table(
+          `Captured ${new Date(overview.client.latest.capturedAt).toLocaleDateString()}`,
+          [["Domain", "left"], ["Ranked keywords", "right"], ["Backlinks", "right"], ["Referring domains", "right"]],
+          domainRows.map((row) =>
+            row.latest
+              ? [row.name, formatCount(row.latest.rankedKeywords), formatCount(row.latest.backlinks), formatCount(row.latest.referringDomains)]
+              : [row.name, "—", "—", "—"]
+          )
+        ),
+      ];
+      if (overview.gaps.length > 0) {
+        content.push(
+          table(
+            "Keyword gaps: competitors rank, you don't",
+            [["Keyword", "left"], ["Best competitor", "right"], ["Volume", "right"]],
+            overview.gaps.slice(0, 10).map((gap) => [gap.keyword, `#${gap.bestCompetitorPosition}`, formatCount(gap.searchVolume)])
+          )
+        );
+      }
+      return content;
+    }
+  }
+}
+
+export function buildReportDocument(
+  blocks: ReportTemplateBlock[],
+  data: ReportTemplateData,
+  title: string = "SEO Analytics Report"
+): ReportDocument {
+  const period = normalizeReportPeriod(data.period);
+  const periodLabel = period.charAt(0).toUpperCase() + period.slice(1);
+  const meta = [{ label: "Client", value: data.client.name }];
+  if (data.client.domain) meta.push({ label: "Domain", value: data.client.domain });
+  meta.push({ label: "Report Date", value: new Date(data.report?.reportDate ?? Date.now()).toLocaleDateString() });
+
+  return {
+    title,
+    subtitle: `${periodLabel} report for ${data.client.name}`,
+    meta,
+    blocks: blocks.map((block) =>
+      block.type === "text"
+        ? { title: block.title, description: null, content: [{ kind: "paragraphs", paragraphs: splitParagraphs(block.body) }], commentary: [] }
+        : {
+            title: REPORT_TEMPLATE_SECTIONS[block.section].title,
+            description: REPORT_TEMPLATE_SECTIONS[block.section].description,
+            content: sectionContent(block.section, data),
+            commentary: splitParagraphs(block.commentary),
+          }
+    ),
+  };
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+const TILE_COLORS = [
+  { bg: "#eff6ff", border: "#bfdbfe", label: "#1e40af", value: "#1e3a8a" },
+  { bg: "#f0fdf4", border: "#bbf7d0", label: "#166534", value: "#14532d" },
+  { bg: "#faf5ff", border: "#e9d5ff", label: "#6b21a8", value: "#581c87" },
+  { bg: "#fff7ed", border: "#fed7aa", label: "#9a3412", value: "#7c2d12" },
+];
+
+function renderContentHtml(content: ReportDocumentContent): string {
+  switch (content.kind) {
+    case "metrics": {
+      const rows: string[] = [];
+      for (let i = 0; i < content.items.length; i += 4) {
+        const cells = content.items.slice(i, i + 4).map((item, j) => {
+          const c = TILE_COLORS[j % TILE_COLORS.length];
+          return `<td width="25%" align="center" valign="top" style="padding: 8px;">
+                  <table width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color: ${c.bg}; border: 1px solid ${c.border}; border-radius: 8px;">
+                    <tr>
+                      <td style="padding: 16px; text-align: center;">
+                        <div style="font-size: 11px; font-weight: 600; color: ${c.label}; margin-bottom: 4px;">${escapeHtml(item.label)}</div>
+                        <div style="font-size: 24px; font-weight: 700; color: ${c.value};">${escapeHtml(item.value)}</div>
+                      </td>
+                    </tr>
+                  </table>
+                </td>`;
+        });
+        rows.push(`<tr>${cells.join("")}</tr>`);
+      }
+      return `<table width="100%" cellpadding="0" cellspacing="0" border="0" style="border-collapse: collapse;">${rows.join("")}</table>`;
+    }
+    case "table": {
+      const th = content.columns
+        .map(
+          (col) =>
+            `<th style="padding: 10px 12px; text-align: ${col.align}; font-weight: 700; color: #374151; text-transform: uppercase; font-size: 11px; letter-spacing: 0.5px;">${escapeHtml(col.label)}</th>`
+        )
+        .join("");
+      const body = content.rows
+        .map(
+          (row) =>
+            `<tr style="border-bottom: 1px solid #e5e7eb;">${row
+              .map(
+                (cell, i) =>
+                  `<td style="padding: 10px 12px; text-align: ${content.columns[i]?.align ?? "left"}; color: ${i === 0 ? "#111827" : "#374151"};${i === 0 ? " font-weight: 600; word-break: break-word;" : ""}">${escapeHtml(cell)}</td>`
+              )
+              .join("")}</tr>`
+        )
+        .join("");
+      return `${content.caption ? `<h3 style="margin: 16px 0 8px 0; font-size: 14px; font-weight: 700; color: #111827;">${escapeHtml(content.caption)}</h3>` : ""}
+            <table style="border-collapse: collapse; width: 100%; font-size: 12px; border: 1px solid #e5e7eb; margin-top: 8px;">
+              <thead><tr style="background-color: #f9fafb; border-bottom: 2px solid #d1d5db;">${th}</tr></thead>
+              <tbody>${body}</tbody>
+            </table>`;
+    }
+    case "paragraphs":
+      return content.paragraphs
+        .map((p) => `<p style="margin: 0 0 12px 0; font-size: 14px; color: #374151; white-space: pre-line;">${escapeHtml(p)}</p>`)
+        .join("");
+    case "link":
+      return `<div style="background-color: #faf5ff; border: 1px solid #e9d5ff; border-radius: 8px; padding: 16px;">
+              <a href="${escapeHtml(content.url)}" target="_blank" rel="noopener noreferrer" style="color: #7c3aed; font-weight: 600; text-decoration: underline; word-break: break-all;">${escapeHtml(content.url)}</a>
+            </div>`;
+    case "empty":
+      return `<div style="padding: 24px; text-align: center; color: #6b7280; background-color: #f9fafb; border-radius: 8px; border: 1px solid #e5e7eb;">${escapeHtml(content.text)}</div>`;
+  }
+}
+
+export function renderReportDocumentHtml(document: ReportDocument): string {
+  const meta = document.meta
+    .map(
+      (item) => `<td align="center" style="padding: 0 6px;">
+                <table width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color: rgba(255, 255, 255, 0.15); border-radius: 8px;">
+                  <tr>
+                    <td style="padding: 12px; text-align: center;">
+                      <div style="font-size: 11px; color: #bfdbfe; margin-bottom: 4px; font-weight: 500;">${escapeHtml(item.label)}</div>
+                      <div style="font-size: 14px; font-weight: 600; color: #ffffff;">${escapeHtml(item.value)}</div>
+                    </td>
+                  </tr>
+                </table>
+              </td>`
+    )
+    .join("");
+  const blocks = document.blocks
+    .map((block) => {
+      const heading = block.title
+        ? `<h2 style="margin: 0 0 8px 0; font-size: 20px; font-weight: 700; color: #111827;">
+              <span style="display: inline-block; width: 4px; height: 20px; background-color: #3b82f6; border-radius: 2px; margin-right: 8px; vertical-align: middle;"></span>
+              ${escapeHtml(block.title)}
+            </h2>`
+        : "";
+      const description = block.description
+        ? `<p style="margin: 0 0 16px 0; font-size: 12px; color: #6b7280;">${escapeHtml(block.description)}</p>`
+        : "";
+      const commentary =
+        block.commentary.length > 0
+          ? `<div style="margin-top: 16px; background-color: #f8fafc; border-left: 4px solid #4f46e5; border-radius: 4px; padding: 12px 16px;">
+              ${block.commentary.map((p) => `<p style="margin: 0 0 8px 0; font-size: 13px; color: #334155; white-space: pre-line;">${escapeHtml(p)}</p>`).join("")}
+            </div>`
+          : "";
+      return `<div style="background-color: #ffffff; border: 1px solid #e5e7eb; border-radius: 12px; padding: 24px; margin-bottom: 24px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);">
+            ${heading}${description}${block.content.map(renderContentHtml).join("")}${commentary}
+          </div>`;
+    })
+    .join("");
+
+  return `<!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${escapeHtml(BRAND_DISPLAY_NAME)} Report - ${escapeHtml(document.subtitle)}</title>
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #111827; background-color: #f3f4f6; margin: 0; padding: 24px;">
+      <div style="max-width: 900px; margin: 0 auto; background-color: #ffffff;">
+        <div style="background-color: #2563eb; border-radius: 12px 12px 0 0; padding: 32px; color: #ffffff; text-align: center;">
+          <h1 style="margin: 0 0 12px 0; font-size: 28px; font-weight: 700; color: #ffffff;">${escapeHtml(document.title)}</h1>
+          <p style="margin: 0; font-size: 16px; color: #bfdbfe;">${escapeHtml(document.subtitle)}</p>
+          <table width="100%" cellpadding="0" cellspacing="0" border="0" style="margin-top: 24px;"><tr>${meta}</tr></table>
+        </div>
+        <div style="padding: 24px;">${blocks}</div>
+        <div style="background-color: #f9fafb; border-top: 1px solid #e5e7eb; padding: 16px; text-align: center;">
+          <p style="margin: 0; color: #6b7280; font-size: 12px;">This is an automated report generated by ${escapeHtml(BRAND_DISPLAY_NAME)}.</p>
+        </div>
+      </div>
+    </body>
+    </html>`;
+}
+
+export async function renderReportDocumentPdf(document: ReportDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ margin: 40, size: "A4", bufferPages: true });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", (err: Error) => reject(err));
+
+    const brandColor = "#4f46e5";
+    const footerReserved = 42;
+    const generatedAt = new Date().toLocaleString();
+    const left = () => Number((doc as any).page?.margins?.left ?? 40);
+    const width = () => Number((doc as any).page?.width ?? 595) - left() - Number((doc as any).page?.margins?.right ?? 40);
+    const ensurePageSpace = (height: number) => {
+      if (doc.y + height > Number((doc as any).page?.height ?? 842) - footerReserved) doc.addPage();
+    };
+
+    const drawSectionHeader = (title: string) => {
+      ensurePageSpace(60);
+      const y = doc.y;
+      doc.save();
+      doc.roundedRect(left(), y, width(), 24, 4).fill("#f8fafc");
+      doc.rect(left(), y, 4, 24).fill(brandColor);
+      doc.restore();
+      doc.fontSize(7.5).fillColor("#64748b").text("SECTION", left() + 10, y + 4.5, { width: width() - 14 });
+      doc.fontSize(10.5).fillColor("#0f172a").text(title, left() + 10, y + 11, { width: width() - 14 });
+      doc.moveDown(1.8);
+      doc.fillColor("#000000");
+    };
+
+    const drawText = (text: string, size: number, color: string) => {
+      ensurePageSpace(doc.fontSize(size).heightOfString(text, { width: width() }) + 6);
+      doc.fontSize(size).fillColor(color).text(text, left(), doc.y, { width: width() });
+      doc.moveDown(0.5);
+      doc.fillColor("#000000");
+    };
+
+    const drawMetricRow = (label: string, value: string) => {
+      ensurePageSpace(20);
+      const y = doc.y;
+      doc.fontSize(11).fillColor("#475569").text(label, left(), y, { width: width() * 0.58 });
+      doc.fontSize(11).fillColor("#0f172a").text(value, left(), y, { width: width(), align: "right" });
+      doc.strokeColor("#e2e8f0").lineWidth(1).moveTo(left(), y + 15).lineTo(left() + width(), y + 15).stroke();
+      doc.moveDown(0.7);
+      doc.fillColor("#000000");
+    };
+
+    const drawTable = (content: Extract<ReportDocumentContent, { kind: "table" }>) => {
+      if (content.caption) drawText(content.caption, 9.5, "#64748b");
+      const total = width();
+      const first = content.columns.length > 1 ? total * 0.4 : total;
+      const rest = content.columns.length > 1 ? (total - first) / (content.columns.length - 1) : 0;
+      const colWidths = content.columns.map((_, i) => (i === 0 ? first : rest));
+      const pad = 4;
+      const drawRow = (cells: string[], header: boolean) => {
+        doc.fontSize(header ? 9 : 8.5);
+        const height =
+          Math.max(...cells.map((cell, i) => doc.heightOfString(cell, { width: Math.max(1, colWidths[i] - pad * 2) }))) + pad * 2;
+        if (doc.y + height > Number((doc as any).page?.height ?? 842) - footerReserved) {
+          doc.addPage();
+          if (!header) drawRow(content.columns.map((c) => c.label), true);
+        }
+        const y = doc.y;
+        let x = left();
+        if (header) {
+          doc.save();
+          doc.rect(left(), y, total, height).fill("#f3f4f6");
+          doc.restore();
+        }
+        cells.forEach((cell, i) => {
+          doc.strokeColor("#d1d5db").lineWidth(0.5).rect(x, y, colWidths[i], height).stroke();
+          doc
+            .fontSize(header ? 9 : 8.5)
+            .fillColor(header ? "#111827" : "#374151")
+            .text(cell, x + pad, y + pad, { width: Math.max(1, colWidths[i] - pad * 2), align: content.columns[i]?.align ?? "left" });
+          x += colWidths[i];
+        });
+        doc.x = left();
+        doc.y = y + height;
+      };
+      drawRow(content.columns.map((c) => c.label), true);
+      content.rows.forEach((row) => drawRow(row, false));
+      doc.moveDown(0.8);
+      doc.fillColor("#000000");
+    };
+
+    const drawContent = (content: ReportDocumentContent) => {
+      switch (content.kind) {
+        case "metrics":
+          content.items.forEach((item) => drawMetricRow(item.label, item.value));
+          doc.moveDown(0.3);
+          return;
+        case "table":
+          drawTable(content);
+          return;
+        case "paragraphs":
+          content.paragraphs.forEach((p) => drawText(p, 10.5, "#334155"));
+          return;
+        case "link":
+          ensurePageSpace(20);
+          doc.fontSize(10.5).fillColor("#1d4ed8").text(content.url, left(), doc.y, { width: width(), link: content.url, underline: true });
+          doc.moveDown(0.6);
+          doc.fillColor("#000000");
+          return;
+        case "empty":
+          drawText(content.text, 10, "#64748b");
+          return;
+      }
+    };
+
+    doc.fontSize(20).fillColor("#0f172a").text(document.title, { align: "center" });
+    doc.moveDown(0.35);
+    doc.fontSize(13).fillColor("#334155").text(document.subtitle, { align: "center" });
+    doc.moveDown(0.9);
+    doc.fontSize(11).fillColor("#475569");
+    document.meta.forEach((item) => doc.text(`${item.label}: ${item.value}`));
+    doc.fillColor("#000000");
+
+    for (const block of document.blocks) {
+      doc.moveDown();
+      if (block.title) drawSectionHeader(block.title);
+      if (block.description) drawText(block.description, 9.5, "#64748b");
+      block.content.forEach(drawContent);
+      if (block.commentary.length > 0) {
+        doc.moveDown(0.3);
+        block.commentary.forEach((p) => drawText(p, 10.5, "#1e293b"));
+      }
+    }
+
+    const range = doc.bufferedPageRange();
+    for (let i = 0; i < range.count; i += 1) {
+      doc.switchToPage(i);
+      const pageWidth = Number((doc as any).page?.width ?? 595);
+      const pageHeight = Number((doc as any).page?.height ?? 842);
+      doc.save();
+      doc.rect(0, 0, pageWidth, 4).fill(brandColor);
+      doc.restore();
+      doc
+        .fontSize(8)
+        .fillColor("#64748b")
+        .text(BRAND_DISPLAY_NAME, left(), 14, { width: width(), lineBreak: false })
+        .text(`Page ${i + 1} of ${range.count}`, left(), pageHeight - 26, { width: width(), align: "center", lineBreak: false })
+        .text(`Generated ${generatedAt}`, left(), pageHeight - 26, { width: width(), align: "right", lineBreak: false });
+      doc.strokeColor("#e2e8f0").lineWidth(1).moveTo(left(), pageHeight - 32).lineTo(left() + width(), pageHeight - 32).stroke();
+    }
+
+    doc.end();
+  });
+}
+
+/** Email HTML and PDF for a report, both rendered from the template's blocks; the template name is the report title. */
+export async function renderTemplatedReport(
+  report: any,
+  client: { id: string; name: string; domain?: string | null },
+  template: { name: string; blocks: ReportTemplateBlock[] },
+  period: string = report.period,
+  timeZone?: string | null
+): Promise<{ html: string; pdf: Buffer }> {
+  const data = await loadReportTemplateData(report, client, template.blocks, period, timeZone);
+  const document = buildReportDocument(template.blocks, data, template.name);
+  return { html: renderReportDocumentHtml(document), pdf: await renderReportDocumentPdf(document) };
+}
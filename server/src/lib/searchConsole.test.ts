@@ -0,0 +1,89 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import jwt from "jsonwebtoken";
+import {
+  SEARCH_CONSOLE_BACKFILL_DAYS,
+  aggregateSearchConsoleRowsByKey,
+  getSearchConsoleSyncRange,
+  matchKeywordsToQueries,
+  searchConsoleKeyHash,
+  signSearchConsoleOAuthState,
+  summarizeSearchConsoleRows,
+  verifySearchConsoleOAuthState,
+} from "./searchConsole.js";
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || "test-jwt-secret";
+
+test("getSearchConsoleSyncRange backfills on first sync and re-fetches recent days afterwards", () => {
+  const now = new Date("2026-03-28T10:00:00.000Z");
+  const first = getSearchConsoleSyncRange(null, now);
+  assert.equal(first.endDate, "2026-03-27");
+  const span = (Date.parse(first.endDate) - Date.parse(first.startDate)) / 86_400_000 + 1;
+  assert.equal(span, SEARCH_CONSOLE_BACKFILL_DAYS);
+
+  assert.deepEqual(getSearchConsoleSyncRange(new Date("2026-03-27T03:00:00.000Z"), now), {
+    startDate: "2026-03-23",
+    endDate: "2026-03-27",
+  });
+  // A long gap is capped at the backfill window.
+  assert.equal(getSearchConsoleSyncRange(new Date("2025-01-01T00:00:00.000Z"), now).startDate, first.startDate);
+});
+
+test("summarizeSearchConsoleRows recomputes CTR and weights position by impressions", () => {
+  const totals = summarizeSearchConsoleRows([
+    { clicks: 10, impressions: 100, ctr: 0.1, position: 2 },
+    { clicks: 0, impressions: 300, ctr: 0, position: 10 },
+  ]);
+  assert.equal(totals.clicks, 10);
+  assert.equal(totals.impressions, 400);
+  assert.equal(totals.ctr, 0.025);
+  assert.equal(totals.position, 8);
+  assert.deepEqual(summarizeSearchConsoleRows([]), { clicks: 0, impressions: 0, ctr: 0, position: null });
+});
+
+test("aggregateSearchConsoleRowsByKey merges days and ranks by clicks", () => {
+  const top = aggregateSearchConsoleRowsByKey(
+    [
+      { key: "plumber austin", clicks: 3, impressions: 50, ctr: 0.06, position: 4 },
+      { key: "emergency plumber", clicks: 5, impressions: 20, ctr: 0.25, position: 2 },
+      { key: "plumber austin", clicks: 4, impressions: 50, ctr: 0.08, position: 6 },
+      { key: "drain cleaning", clicks: 0, impressions: 90, ctr: 0, position: 15 },
+    ],
+    2
+  );
+  assert.deepEqual(
+    top.map((row) => [row.key, row.clicks, row.impressions]),
+    [
+      ["plumber austin", 7, 100],
+      ["emergency plumber", 5, 20],
+    ]
+  );
+  assert.equal(top[0].position, 5);
+});
+
+test("matchKeywordsToQueries ignores case and spacing and zeroes unmatched keywords", () => {
+  const matched = matchKeywordsToQueries(
+    [
+      { id: "k1", keyword: "Plumber  Austin" },
+      { id: "k2", keyword: "water heater repair" },
+    ],
+    [{ key: "plumber austin", clicks: 4, impressions: 80, ctr: 0.05, position: 3 }]
+  );
+  assert.deepEqual(matched, [
+    { id: "k1", clicks: 4, impressions: 80, ctr: 0.05 },
+    { id: "k2", clicks: 0, impressions: 0, ctr: 0 },
+  ]);
+  assert.equal(searchConsoleKeyHash("plumber austin").length, 40);
+});
+
+test("only a signed, unexpired Search Console state is accepted by the OAuth callback", () => {
+  const state = { userId: "u1", clientId: "c1", popup: true };
+  assert.deepEqual(verifySearchConsoleOAuthState(signSearchConsoleOAuthState(state)), state);
+
+  // The old unsigned "clientId|popup" form, other signed tokens and expired states are refused.
+  assert.equal(verifySearchConsoleOAuthState("c1|popup"), null);
+  const otherPurpose = jwt.sign({ userId: "u1", clientId: "c1", purpose: "step_up" }, process.env.JWT_SECRET!);
+  assert.equal(verifySearchConsoleOAuthState(otherPurpose), null);
+  const expired = jwt.sign({ userId: "u1", clientId: "c1", purpose: "gsc_oauth", exp: Math.floor(Date.now() / 1000) - 60 }, process.env.JWT_SECRET!);
+  assert.equal(verifySearchConsoleOAuthState(expired), null);
+});
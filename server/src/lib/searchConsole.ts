@@ -0,0 +1,503 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { google } from 'googleapis';
+import { prisma } from './prisma.js';
+import { getJwtSecret } from '../middleware/auth.js';
+import { decryptSecret, encryptSecret } from './secretEncryption.js';
+
+const GSC_CALLBACK_PATH = '/api/clients/gsc/callback';
+const OAUTH_STATE_PURPOSE = 'gsc_oauth';
+/** How long the user has to finish Google's consent screen. */
+export const SEARCH_CONSOLE_OAUTH_STATE_TTL_SECONDS = 10 * 60;
+const GSC_SCOPES = [
+  'https://www.googleapis.com/auth/webmasters.readonly', // Search Analytics + site list
+  'https://www.googleapis.com/auth/userinfo.email', // Required to get user email
+];
+
+/** Days fetched on the first sync after connecting. */
+export const SEARCH_CONSOLE_BACKFILL_DAYS = 90;
+/** Search Console keeps revising the most recent days, so every sync re-fetches this many. */
+export const SEARCH_CONSOLE_RESYNC_DAYS = 4;
+/** Top queries / pages stored per day. */
+export const SEARCH_CONSOLE_TOP_ROWS_PER_DAY = 100;
+/** Window used to fill Keyword.clicks / impressions / ctr from matching queries. */
+const KEYWORD_METRICS_WINDOW_DAYS = 28;
+const KEYWORD_METRICS_ROW_LIMIT = 5000;
+
+export type SearchConsoleDimensionName = 'TOTAL' | 'QUERY' | 'PAGE';
+
+export type SearchConsoleMetricRow = {
+  key: string;
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+};
+
+export type SearchConsoleTotals = {
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number | null;
+};
+
+export type SearchConsoleSite = {
+  siteUrl: string;
+  permissionLevel: string;
+};
+
+export type SearchConsolePerformance = {
+  siteUrl: string | null;
+  lastSyncedAt: Date | null;
+  startDate: string;
+  endDate: string;
+  totals: SearchConsoleTotals;
+  trend: Array<SearchConsoleTotals & { date: string }>;
+  topQueries: SearchConsoleMetricRow[];
+  topPages: SearchConsoleMetricRow[];
+};
+
+function toFiniteNumber(value: unknown, fallback = 0): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function isInvalidGrant(error: any): boolean {
+  const msg = String(error?.message || '');
+  const respErr = String(error?.response?.data?.error || '');
+  return msg.includes('invalid_grant') || respErr === 'invalid_grant';
+}
+
+/** sha1 of the query / page, used in the unique index because the key itself can exceed index limits. */
+export function searchConsoleKeyHash(key: string): string {
+  return crypto.createHash('sha1').update(key).digest('hex');
+}
+
+export function formatSearchConsoleDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function parseSearchConsoleDate(value: string): Date {
+  return new Date(`${value}T00:00:00.000Z`);
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next;
+}
+
+/**
+ * Date range for the next sync: a full backfill when nothing was synced yet, otherwise the last few days
+ * (which Search Console keeps revising) plus any gap since the previous sync.
+ */
+export function getSearchConsoleSyncRange(lastSyncedAt: Date | null, now: Date = new Date()): { startDate: string; endDate: string } {
+  const end = addDays(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())), -1);
+  let start = addDays(end, -(SEARCH_CONSOLE_BACKFILL_DAYS - 1));
+  if (lastSyncedAt) {
+    const lastDay = new Date(Date.UTC(lastSyncedAt.getUTCFullYear(), lastSyncedAt.getUTCMonth(), lastSyncedAt.getUTCDate()));
+    const resyncFrom = addDays(lastDay, -SEARCH_CONSOLE_RESYNC_DAYS);
+    if (resyncFrom > start) start = resyncFrom;
+  }
+  if (start > end) start = end;
+  return { startDate: formatSearchConsoleDate(start), endDate: formatSearchConsoleDate(end) };
+}
+
+/** Sums rows; CTR is recomputed from the sums and position is weighted by impressions, as Search Console does. */
+export function summarizeSearchConsoleRows(rows: Array<Omit<SearchConsoleMetricRow, 'key'>>): SearchConsoleTotals {
+  let clicks = 0;
+  let impressions = 0;
+  let weightedPosition = 0;
+  for (const row of rows) {
+    clicks += row.clicks;
+    impressions += row.impressions;
+    weightedPosition += row.position * row.impressions;
+  }
+  return {
+    clicks,
+    impressions,
+    ctr: impressions > 0 ? clicks / impressions : 0,
+    position: impressions > 0 ? weightedPosition / impressions : null,
+  };
+}
+
+/** Merges daily rows by key and returns the top `limit` keys by clicks (then impressions). */
+export function aggregateSearchConsoleRowsByKey(rows: SearchConsoleMetricRow[], limit: number): SearchConsoleMetricRow[] {
+  const groups = new Map<string, SearchConsoleMetricRow[]>();
+  for (const row of rows) {
+    const group = groups.get(row.key);
+    if (group) group.push(row);
+    else groups.set(row.key, [row]);
+  }
+  return Array.from(groups.entries())
+    .map(([key, group]) => {
+      const totals = summarizeSearchConsoleRows(group);
+      return { key, clicks: totals.clicks, impressions: totals.impressions, ctr: totals.ctr, position: totals.position ?? 0 };
+    })
+    .sort((a, b) => b.clicks - a.clicks || b.impressions - a.impressions || a.key.localeCompare(b.key))
+    .slice(0, limit);
+}
+
+function normalizeQuery(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/** Matches tracked keywords to Search Console queries (case / whitespace insensitive). Unmatched keywords get zeros. */
+export function matchKeywordsToQueries(
+  keywords: Array<{ id: string; keyword: string }>,
+  queries: SearchConsoleMetricRow[]
+): Array<{ id: string; clicks: number; impressions: number; ctr: number }> {
+  const byQuery = new Map<string, SearchConsoleMetricRow[]>();
+  for (const row of queries) {
+    const normalized = normalizeQuery(row.key);
+    const group = byQuery.get(normalized);
+    if (group) group.push(row);
+    else byQuery.set(normalized, [row]);
+  }
+  return keywords.map((keyword) => {
+    const totals = summarizeSearchConsoleRows(byQuery.get(normalizeQuery(keyword.keyword)) ?? []);
+    return { id: keyword.id, clicks: totals.clicks, impressions: totals.impressions, ctr: totals.ctr };
+  });
+}
+
+/**
+ * OAuth client for Search Console. Uses GSC_CLIENT_ID / GSC_CLIENT_SECRET when set, otherwise the GA4 OAuth app
+ * (the same Google Cloud project usually has the Search Console API enabled as well).
+ */
+function getOAuth2Client(redirectUri?: string) {
+  const clientId = process.env.GSC_CLIENT_ID || process.env.GA4_CLIENT_ID;
+  const clientSecret = process.env.GSC_CLIENT_SECRET || process.env.GA4_CLIENT_SECRET;
+
+  if (!clientId || !clientSecret) {
+    throw new Error(
+      'Search Console credentials not configured. Please set GSC_CLIENT_ID and GSC_CLIENT_SECRET (or the GA4_CLIENT_ID / GA4_CLIENT_SECRET pair) in server/.env file.'
+    );
+  }
+
+  return new google.auth.OAuth2(clientId, clientSecret, getSearchConsoleRedirectUri(redirectUri));
+}
+
+function getSearchConsoleRedirectUri(overrideRedirectUri?: string): string {
+  const fromOverride = String(overrideRedirectUri || '').trim();
+  if (fromOverride) return fromOverride;
+  return process.env.GSC_REDIRECT_URI || `${process.env.BACKEND_URL || 'http://localhost:5000'}${GSC_CALLBACK_PATH}`;
+}
+
+export type SearchConsoleOAuthState = { userId: string; clientId: string; popup: boolean };
+
+/**
+ * OAuth `state` for the unauthenticated callback: a short-lived signed token naming who started the connection
+ * and for which client, so a forged callback can't attach someone else's Google account to a client.
+ */
+export function signSearchConsoleOAuthState(state: SearchConsoleOAuthState): string {
+  return jwt.sign(
+    { userId: state.userId, clientId: state.clientId, popup: state.popup, purpose: OAUTH_STATE_PURPOSE },
+    getJwtSecret(),
+    { expiresIn: SEARCH_CONSOLE_OAUTH_STATE_TTL_SECONDS, jwtid: crypto.randomUUID() }
+  );
+}
+
+/** Null when the state is missing, forged, expired or not a Search Console state. */
+export function verifySearchConsoleOAuthState(token: string): SearchConsoleOAuthState | null {
+  try {
+    const decoded = jwt.verify(token, getJwtSecret()) as Record<string, unknown>;
+    if (decoded?.purpose !== OAUTH_STATE_PURPOSE) return null;
+    if (typeof decoded.userId !== 'string' || typeof decoded.clientId !== 'string' || !decoded.clientId) return null;
+    return { userId: decoded.userId, clientId: decoded.clientId, popup: decoded.popup === true };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get Search Console authorization URL for OAuth flow.
+ * @param state.popup - If true, the callback sends postMessage + closes instead of redirecting
+ */
+export function getSearchConsoleAuthUrl(state: SearchConsoleOAuthState, options?: { redirectUri?: string }): string {
+  const oauth2Client = getOAuth2Client(options?.redirectUri);
+  return oauth2Client.generateAuthUrl({
+    access_type: 'offline',
+    scope: GSC_SCOPES,
+    prompt: 'consent', // Force consent to get refresh token
+    state: signSearchConsoleOAuthState(state),
+    redirect_uri: getSearchConsoleRedirectUri(options?.redirectUri),
+  });
+}
+
+/**
+ * Exchange authorization code for tokens
+ */
+export async function exchangeSearchConsoleCodeForTokens(code: string, redirectUriOverride?: string): Promise<{
+  accessToken: string;
+  refreshToken: string;
+  email?: string;
+}> {
+  const redirectUri = getSearchConsoleRedirectUri(redirectUriOverride);
+  const oauth2Client = getOAuth2Client(redirectUri);
+
+  const { tokens } = await oauth2Client.getToken({ code, redirect_uri: redirectUri });
+  if (!tokens.access_token || !tokens.refresh_token) {
+    throw new Error('Failed to get access and refresh tokens from Google');
+  }
+
+  let email: string | undefined;
+  try {
+    oauth2Client.setCredentials(tokens);
+    const oauth2 = google.oauth2({ version: 'v2', auth: oauth2Client });
+    const userInfo = await oauth2.userinfo.get();
+    email = userInfo.data.email || undefined;
+  } catch (emailError: any) {
+    console.warn('[GSC] Could not fetch user email (non-critical):', emailError?.message || emailError);
+  }
+
+  return { accessToken: tokens.access_token, refreshToken: tokens.refresh_token, email };
+}
+
+/**
+ * Search Console API client with a freshly refreshed access token. A revoked refresh token disconnects the client.
+ */
+async function getSearchConsoleApi(clientId: string) {
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    select: { gscRefreshToken: true },
+  });
+  if (!client) {
+    throw new Error('Client not found');
+  }
+  if (!client.gscRefreshToken) {
+    throw new Error('Search Console not connected for this client');
+  }
+  const refreshToken = decryptSecret(client.gscRefreshToken)!;
+
+  const oauth2Client = getOAuth2Client();
+  oauth2Client.setCredentials({ refresh_token: refreshToken });
+  try {
+    const { token } = await oauth2Client.getAccessToken();
+    if (!token) throw new Error('Failed to refresh access token');
+    await prisma.client.update({
+      where: { id: clientId },
+      data: { gscAccessToken: encryptSecret(token) },
+    });
+  } catch (error: any) {
+    if (isInvalidGrant(error)) {
+      console.warn(`[GSC] Refresh token invalid_grant for clientId=${clientId}. Marking Search Console disconnected.`);
+      await prisma.client
+        .update({
+          where: { id: clientId },
+          data: { gscAccessToken: null, gscRefreshToken: null, gscConnectedAt: null },
+        })
+        .catch((disconnectErr: any) => {
+          console.warn(`[GSC] Failed to mark clientId=${clientId} disconnected:`, disconnectErr?.message || disconnectErr);
+        });
+      throw new Error('Search Console token expired or revoked. Please reconnect Search Console.');
+    }
+    throw new Error(`Search Console token refresh failed: ${error?.message || error}`);
+  }
+
+  return google.searchconsole({ version: 'v1', auth: oauth2Client });
+}
+
+/**
+ * List the Search Console properties the connected Google account can read
+ */
+export async function listSearchConsoleSites(clientId: string): Promise<SearchConsoleSite[]> {
+  const api = await getSearchConsoleApi(clientId);
+  const response = await api.sites.list();
+  return (response.data.siteEntry || [])
+    .filter((entry) => entry.siteUrl && entry.permissionLevel !== 'siteUnverifiedUser')
+    .map((entry) => ({ siteUrl: entry.siteUrl!, permissionLevel: entry.permissionLevel || 'unknown' }))
+    .sort((a, b) => a.siteUrl.localeCompare(b.siteUrl));
+}
+
+/**
+ * Check if Search Console is connected (tokens stored and a property picked) for a client
+ */
+export async function isSearchConsoleConnected(clientId: string): Promise<boolean> {
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    select: { gscRefreshToken: true, gscSiteUrl: true, gscConnectedAt: true },
+  });
+  return !!(client?.gscRefreshToken && client?.gscSiteUrl && client?.gscConnectedAt);
+}
+
+type SearchAnalyticsApi = Awaited<ReturnType<typeof getSearchConsoleApi>>;
+
+async function querySearchAnalytics(
+  api: SearchAnalyticsApi,
+  siteUrl: string,
+  params: { startDate: string; endDate: string; dimensions: string[]; rowLimit: number }
+): Promise<Array<SearchConsoleMetricRow & { keys: string[] }>> {
+  const response = await api.searchanalytics.query({
+    siteUrl,
+    requestBody: {
+      startDate: params.startDate,
+      endDate: params.endDate,
+      dimensions: params.dimensions,
+      rowLimit: params.rowLimit,
+      dataState: 'all',
+    },
+  });
+  return (response.data.rows || []).map((row) => ({
+    keys: (row.keys || []).map(String),
+    key: String(row.keys?.[row.keys.length - 1] ?? ''),
+    clicks: Math.round(toFiniteNumber(row.clicks)),
+    impressions: Math.round(toFiniteNumber(row.impressions)),
+    ctr: toFiniteNumber(row.ctr),
+    position: toFiniteNumber(row.position),
+  }));
+}
+
+async function replaceDailyRows(
+  clientId: string,
+  date: string,
+  dimension: SearchConsoleDimensionName,
+  rows: SearchConsoleMetricRow[]
+): Promise<void> {
+  const day = parseSearchConsoleDate(date);
+  await prisma.$transaction([
+    prisma.searchConsoleDailyRow.deleteMany({ where: { clientId, date: day, dimension } }),
+    prisma.searchConsoleDailyRow.createMany({
+      data: rows.map((row) => ({
+        clientId,
+        date: day,
+        dimension,
+        key: row.key,
+        keyHash: searchConsoleKeyHash(row.key),
+        clicks: row.clicks,
+        impressions: row.impressions,
+        ctr: row.ctr,
+        position: row.position,
+      })),
+      skipDuplicates: true,
+    }),
+  ]);
+}
+
+/**
+ * Pull daily totals plus the top queries and pages for the sync range, and refresh tracked keyword clicks /
+ * impressions / CTR from the last 28 days of query data.
+ */
+export async function syncSearchConsoleData(clientId: string): Promise<{ startDate: string; endDate: string; days: number }> {
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    select: { gscSiteUrl: true, gscLastSyncedAt: true },
+  });
+  if (!client?.gscSiteUrl) {
+    throw new Error('Search Console property not selected for this client');
+  }
+  const siteUrl = client.gscSiteUrl;
+  const api = await getSearchConsoleApi(clientId);
+  const { startDate, endDate } = getSearchConsoleSyncRange(client.gscLastSyncedAt);
+
+  const totalsByDate = await querySearchAnalytics(api, siteUrl, {
+    startDate,
+    endDate,
+    dimensions: ['date'],
+    rowLimit: SEARCH_CONSOLE_BACKFILL_DAYS + 1,
+  });
+
+  // Days with no impressions are absent from the totals response; skip the per-day breakdown for them.
+  for (const total of totalsByDate) {
+    const date = total.key;
+    await replaceDailyRows(clientId, date, 'TOTAL', [{ ...total, key: '' }]);
+    for (const dimension of ['QUERY', 'PAGE'] as const) {
+      const rows = await querySearchAnalytics(api, siteUrl, {
+        startDate: date,
+        endDate: date,
+        dimensions: [dimension === 'QUERY' ? 'query' : 'page'],
+        rowLimit: SEARCH_CONSOLE_TOP_ROWS_PER_DAY,
+      });
+      await replaceDailyRows(clientId, date, dimension, rows);
+    }
+  }
+
+  const keywords = await prisma.keyword.findMany({ where: { clientId }, select: { id: true, keyword: true } });
+  if (keywords.length > 0) {
+    const windowEnd = parseSearchConsoleDate(endDate);
+    const queries = await querySearchAnalytics(api, siteUrl, {
+      startDate: formatSearchConsoleDate(addDays(windowEnd, -(KEYWORD_METRICS_WINDOW_DAYS - 1))),
+      endDate,
+      dimensions: ['query'],
+      rowLimit: KEYWORD_METRICS_ROW_LIMIT,
+    });
+    const updates = matchKeywordsToQueries(keywords, queries);
+    await prisma.$transaction(
+      updates.map((update) =>
+        prisma.keyword.update({
+          where: { id: update.id },
+          data: { clicks: update.clicks, impressions: update.impressions, ctr: update.ctr },
+        })
+      )
+    );
+  }
+
+  await prisma.client.update({ where: { id: clientId }, data: { gscLastSyncedAt: new Date() } });
+  return { startDate, endDate, days: totalsByDate.length };
+}
+
+/**
+ * Stored Search Console performance for a date range (inclusive, YYYY-MM-DD)
+ */
+export async function getSearchConsolePerformance(
+  clientId: string,
+  startDate: string,
+  endDate: string,
+  options?: { limit?: number }
+): Promise<SearchConsolePerformance> {
+  const limit = options?.limit ?? 25;
+  const [client, rows] = await Promise.all([
+    prisma.client.findUnique({ where: { id: clientId }, select: { gscSiteUrl: true, gscLastSyncedAt: true } }),
+    prisma.searchConsoleDailyRow.findMany({
+      where: { clientId, date: { gte: parseSearchConsoleDate(startDate), lte: parseSearchConsoleDate(endDate) } },
+      select: { date: true, dimension: true, key: true, clicks: true, impressions: true, ctr: true, position: true },
+      orderBy: { date: 'asc' },
+    }),
+  ]);
+
+  const totalRows = rows.filter((row) => row.dimension === 'TOTAL');
+  return {
+    siteUrl: client?.gscSiteUrl ?? null,
+    lastSyncedAt: client?.gscLastSyncedAt ?? null,
+    startDate,
+    endDate,
+    totals: summarizeSearchConsoleRows(totalRows),
+    trend: totalRows.map((row) => ({
+      date: formatSearchConsoleDate(row.date),
+      clicks: row.clicks,
+      impressions: row.impressions,
+      ctr: row.ctr,
+      position: row.impressions > 0 ? row.position : null,
+    })),
+    topQueries: aggregateSearchConsoleRowsByKey(rows.filter((row) => row.dimension === 'QUERY'), limit),
+    topPages: aggregateSearchConsoleRowsByKey(rows.filter((row) => row.dimension === 'PAGE'), limit),
+  };
+}
+
+/**
+ * Daily sync for every client with a Search Console property connected
+ */
+export async function syncAllSearchConsoleClients(): Promise<void> {
+  const clients = await prisma.client.findMany({
+    where: {
+      gscRefreshToken: { not: null },
+      gscSiteUrl: { not: null },
+      gscConnectedAt: { not: null },
+      status: { notIn: ['ARCHIVED', 'SUSPENDED', 'REJECTED'] },
+    },
+    select: { id: true, name: true },
+  });
+
+  let failed = 0;
+  for (const client of clients) {
+    try {
+      const result = await syncSearchConsoleData(client.id);
+      console.log(`[GSC Sync] ${client.name}: ${result.days} day(s) synced (${result.startDate} → ${result.endDate})`);
+    } catch (error: any) {
+      failed += 1;
+      console.warn(`[GSC Sync] Failed for ${client.name}:`, error?.message || error);
+    }
+  }
+  if (failed > 0 && failed === clients.length) {
+    throw new Error(`Search Console sync failed for all ${failed} client(s)`);
+  }
+}
@@ -0,0 +1,89 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import {
+  ENCRYPTED_SECRET_PREFIX,
+  REDACTED_SECRET,
+  SecretKeyring,
+  isEncryptedSecret,
+  loadKeyringFromEnv,
+  parseEncryptionKey,
+  redactClientSecrets,
+  rotateClientSecretFields,
+} from "./secretEncryption.js";
+
+const oldKey = { id: "k1", key: crypto.randomBytes(32) };
+const newKey = { id: "k2", key: crypto.randomBytes(32) };
+
+test("encrypts with a fresh data key per value and decrypts back", () => {
+  const keyring = new SecretKeyring(oldKey);
+  const a = keyring.encrypt("1//refresh-token");
+  const b = keyring.encrypt("1//refresh-token");
+  assert.ok(a.startsWith(`${ENCRYPTED_SECRET_PREFIX}k1:`));
+  assert.notEqual(a, b);
+  assert.equal(keyring.decrypt(a), "1//refresh-token");
+  assert.equal(keyring.decrypt("legacy plaintext"), "legacy plaintext");
+
+  const [, , , , payload] = a.split(":");
+  const tampered = a.replace(payload, Buffer.from("x".repeat(40)).toString("base64url"));
+  assert.throws(() => keyring.decrypt(tampered));
+  assert.throws(() => new SecretKeyring(newKey).decrypt(a), /"k1" is not configured/);
+});
+
+test("rotate re-wraps the data key under the current key and keeps the payload", () => {
+  const before = new SecretKeyring(oldKey).encrypt("hunter2");
+  const keyring = new SecretKeyring(newKey, [oldKey]);
+  assert.equal(keyring.needsRotation(before), true);
+
+  const after = keyring.rotate(before);
+  assert.ok(after.startsWith(`${ENCRYPTED_SECRET_PREFIX}k2:`));
+  assert.equal(after.split(":").at(-1), before.split(":").at(-1));
+  assert.equal(keyring.needsRotation(after), false);
+  assert.equal(new SecretKeyring(newKey).decrypt(after), "hunter2");
+  assert.equal(keyring.rotate(after), after);
+});
+
+test("rotateClientSecretFields encrypts plaintext columns and accountInfo credentials only", () => {
+  const keyring = new SecretKeyring(newKey, [oldKey]);
+  const accountInfo = JSON.stringify({ phoneNumber: "555-0100", cmsPassword: "s3cret" });
+  const changes = rotateClientSecretFields(
+    { ga4RefreshToken: "plain-token", googleAdsRefreshToken: null, password: keyring.encrypt("pw"), accountInfo },
+    keyring
+  );
+
+  assert.deepEqual(Object.keys(changes).sort(), ["accountInfo", "ga4RefreshToken"]);
+  assert.equal(keyring.decrypt(changes.ga4RefreshToken!), "plain-token");
+  const info = JSON.parse(changes.accountInfo!);
+  assert.equal(info.phoneNumber, "555-0100");
+  assert.ok(isEncryptedSecret(info.cmsPassword));
+  assert.equal(keyring.decrypt(info.cmsPassword), "s3cret");
+  assert.deepEqual(rotateClientSecretFields({ accountInfo: JSON.stringify({ phoneNumber: "1" }) }, keyring), {});
+});
+
+test("redactClientSecrets drops tokens and the password but keeps hasWebsitePassword", () => {
+  const redacted = redactClientSecrets({
+    id: "c1",
+    username: "admin",
+    password: "pw",
+    ga4AccessToken: "a",
+    ga4RefreshToken: "r",
+    accountInfo: JSON.stringify({ hostingApiKey: "abc", businessAddress: "1 Main St" }),
+  });
+  assert.equal(redacted.username, "admin");
+  assert.equal(redacted.hasWebsitePassword, true);
+  assert.equal("password" in redacted, false);
+  assert.equal("ga4RefreshToken" in redacted, false);
+  assert.deepEqual(JSON.parse(redacted.accountInfo), { hostingApiKey: REDACTED_SECRET, businessAddress: "1 Main St" });
+});
+
+test("loadKeyringFromEnv reads current and previous keys", () => {
+  const keyring = loadKeyringFromEnv({
+    DATA_ENCRYPTION_KEY: newKey.key.toString("base64"),
+    DATA_ENCRYPTION_KEY_ID: "k2",
+    DATA_ENCRYPTION_PREVIOUS_KEYS: `k1:${oldKey.key.toString("hex")}`,
+  } as NodeJS.ProcessEnv);
+  assert.equal(keyring.currentKeyId, "k2");
+  assert.equal(keyring.decrypt(new SecretKeyring(oldKey).encrypt("x")), "x");
+  assert.equal(loadKeyringFromEnv({} as NodeJS.ProcessEnv).canEncrypt, false);
+  assert.throws(() => parseEncryptionKey("too-short"), /32 bytes/);
+});
@@ -0,0 +1,289 @@
+/**
+ * Envelope encryption for secrets stored in the database (OAuth tokens, client website credentials).
+ * Each value is encrypted with its own random data key (AES-256-GCM); the data key is wrapped with the master key
+ * from DATA_ENCRYPTION_KEY and stored next to the ciphertext. Rotating the master key only re-wraps data keys
+ * (see scripts/rotateDataEncryptionKey.ts). Values without the "enc:v1:" prefix are legacy plaintext and are
+ * returned unchanged, so existing rows keep working until the rotation script encrypts them.
+ *
+ * Env:
+ *   DATA_ENCRYPTION_KEY            32-byte key, base64 or hex
+ *   DATA_ENCRYPTION_KEY_ID         short id stored with each value (default "primary")
+ *   DATA_ENCRYPTION_PREVIOUS_KEYS  retired keys still needed for decryption: "id:key,id:key"
+ */
+import crypto from "crypto";
+
+export const ENCRYPTED_SECRET_PREFIX = "enc:v1:";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+const DEFAULT_KEY_ID = "primary";
+
+export type EncryptionKey = { id: string; key: Buffer };
+
+/** Accepts a 32-byte key as base64/base64url (44 chars) or hex (64 chars). */
+export function parseEncryptionKey(raw: string): Buffer {
+  const value = String(raw || "").trim();
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, "hex") : Buffer.from(value, "base64");
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Encryption key must be ${KEY_BYTES} bytes (base64 or hex); got ${key.length} bytes.`);
+  }
+  return key;
+}
+
+function isValidKeyId(id: string): boolean {
+  return /^[A-Za-z0-9_-]{1,32}$/.test(id);
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64url");
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const raw = Buffer.from(sealed, "base64url");
+  if (raw.length < IV_BYTES + TAG_BYTES) throw new Error("Encrypted value is truncated.");
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, raw.subarray(0, IV_BYTES));
+  decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+type EncryptedParts = { keyId: string; wrappedKey: string; payload: string };
+
+function parseEncrypted(value: string): EncryptedParts {
+  const [keyId, wrappedKey, payload, ...rest] = value.slice(ENCRYPTED_SECRET_PREFIX.length).split(":");
+  if (!keyId || !wrappedKey || !payload || rest.length > 0) {
+    throw new Error("Malformed encrypted value.");
+  }
+  return { keyId, wrappedKey, payload };
+}
+
+export function isEncryptedSecret(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(ENCRYPTED_SECRET_PREFIX);
+}
+
+/** Master keys: the current one encrypts, every key (current and previous) can decrypt. */
+export class SecretKeyring {
+  private keys = new Map<string, Buffer>();
+
+  constructor(private current: EncryptionKey | null, previous: EncryptionKey[] = []) {
+    for (const key of [...previous, ...(current ? [current] : [])]) {
+      if (!isValidKeyId(key.id)) throw new Error(`Invalid encryption key id "${key.id}".`);
+      if (key.key.length !== KEY_BYTES) throw new Error(`Encryption key "${key.id}" must be ${KEY_BYTES} bytes.`);
+      this.keys.set(key.id, key.key);
+    }
+  }
+
+  get currentKeyId(): string | null {
+    return this.current?.id ?? null;
+  }
+
+  get canEncrypt(): boolean {
+    return this.current !== null;
+  }
+
+  encrypt(plaintext: string): string {
+    if (!this.current) throw new Error("No data encryption key configured (DATA_ENCRYPTION_KEY).");
+    const dataKey = crypto.randomBytes(KEY_BYTES);
+    const wrappedKey = seal(this.current.key, dataKey);
+    const payload = seal(dataKey, Buffer.from(plaintext, "utf8"));
+    return `${ENCRYPTED_SECRET_PREFIX}${this.current.id}:${wrappedKey}:${payload}`;
+  }
+
+  decrypt(value: string): string {
+    if (!isEncryptedSecret(value)) return value;
+    const { keyId, wrappedKey, payload } = parseEncrypted(value);
+    const masterKey = this.keys.get(keyId);
+    if (!masterKey) {
+      throw new Error(`Data encryption key "${keyId}" is not configured; cannot decrypt stored secret.`);
+    }
+    const dataKey = open(masterKey, wrappedKey);
+    return open(dataKey, payload).toString("utf8");
+  }
+
+  /** True when the value is plaintext or wrapped with a key other than the current one. */
+  needsRotation(value: string): boolean {
+    if (!this.current) return false;
+    if (!isEncryptedSecret(value)) return true;
+    return parseEncrypted(value).keyId !== this.current.id;
+  }
+
+  /**
+   * Bring a stored value up to the current key: plaintext is encrypted, values under an older key get their
+   * data key re-wrapped (the ciphertext itself is unchanged).
+   */
+  rotate(value: string): string {
+    if (!this.needsRotation(value)) return value;
+    if (!isEncryptedSecret(value)) return this.encrypt(value);
+    const { keyId, wrappedKey, payload } = parseEncrypted(value);
+    const masterKey = this.keys.get(keyId);
+    if (!masterKey) {
+      throw new Error(`Data encryption key "${keyId}" is not configured; add it to DATA_ENCRYPTION_PREVIOUS_KEYS.`);
+    }
+    const dataKey = open(masterKey, wrappedKey);
+    return `${ENCRYPTED_SECRET_PREFIX}${this.current!.id}:${seal(this.current!.key, dataKey)}:${payload}`;
+  }
+}
+
+export function loadKeyringFromEnv(env: NodeJS.ProcessEnv = process.env): SecretKeyring {
+  const currentRaw = env.DATA_ENCRYPTION_KEY?.trim();
+  const current = currentRaw
+    ? { id: env.DATA_ENCRYPTION_KEY_ID?.trim() || DEFAULT_KEY_ID, key: parseEncryptionKey(currentRaw) }
+    : null;
+  const previous = String(env.DATA_ENCRYPTION_PREVIOUS_KEYS || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      if (separator <= 0) throw new Error('DATA_ENCRYPTION_PREVIOUS_KEYS entries must look like "id:key".');
+      return { id: entry.slice(0, separator), key: parseEncryptionKey(entry.slice(separator + 1)) };
+    });
+  return new SecretKeyring(current, previous);
+}
+
+let defaultKeyring: SecretKeyring | null = null;
+let warnedMissingKey = false;
+
+export function getSecretKeyring(): SecretKeyring {
+  if (!defaultKeyring) defaultKeyring = loadKeyringFromEnv();
+  return defaultKeyring;
+}
+
+/** Encrypt a value for storage. Without DATA_ENCRYPTION_KEY the value is stored as-is (a warning is logged once). */
+export function encryptSecret(value: string | null | undefined): string | null {
+  if (value === null || value === undefined || value === "") return value === "" ? "" : null;
+  if (isEncryptedSecret(value)) return value;
+  const keyring = getSecretKeyring();
+  if (!keyring.canEncrypt) {
+    if (!warnedMissingKey) {
+      warnedMissingKey = true;
+      console.warn("[Encryption] DATA_ENCRYPTION_KEY is not set; secrets are being stored unencrypted.");
+    }
+    return value;
+  }
+  return keyring.encrypt(value);
+}
+
+export function decryptSecret(value: string | null | undefined): string | null {
+  if (value === null || value === undefined) return null;
+  return getSecretKeyring().decrypt(value);
+}
+
+/** Client columns stored encrypted. */
+export const CLIENT_SECRET_FIELDS = [
+  "ga4AccessToken",
+  "ga4RefreshToken",
+  "googleAdsAccessToken",
+  "googleAdsRefreshToken",
+  "gscAccessToken",
+  "gscRefreshToken",
+  "username",
+  "password",
+] as const;
+
+export type ClientSecretField = (typeof CLIENT_SECRET_FIELDS)[number];
+
+/** Encrypted columns that never leave the server in client payloads (the website username is shown decrypted). */
+const CLIENT_REDACTED_FIELDS = CLIENT_SECRET_FIELDS.filter((field) => field !== "username");
+
+type RedactedClientField = Exclude<ClientSecretField, "username">;
+
+/** accountInfo keys treated as credentials (e.g. a CMS or hosting password pasted into the account form). */
+export function isAccountInfoSecretKey(key: string): boolean {
+  return /password|passwd|secret|token|api[-_]?key|credential/i.test(key);
+}
+
+/** Shown in place of masked accountInfo credentials; sending it back on update keeps the stored value. */
+export const REDACTED_SECRET = "********";
+
+function mapAccountInfoSecrets(raw: string, map: (value: string) => string | null): string {
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return raw;
+    let changed = false;
+    for (const [key, value] of Object.entries(parsed)) {
+      if (typeof value !== "string" || !value || !isAccountInfoSecretKey(key)) continue;
+      const next = map(value);
+      if (next !== value) {
+        parsed[key] = next;
+        changed = true;
+      }
+    }
+    return changed ? JSON.stringify(parsed) : raw;
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Prepare Client write data: encrypts the secret columns that are present and credential keys inside the
+ * `accountInfo` JSON string. Other fields pass through untouched; already encrypted values are kept as they are.
+ */
+export function encryptClientSecretFields<T extends Record<string, any>>(data: T): T {
+  const next: Record<string, any> = { ...data };
+  for (const field of CLIENT_SECRET_FIELDS) {
+    if (typeof next[field] === "string") next[field] = encryptSecret(next[field]);
+  }
+  if (typeof next.accountInfo === "string" && next.accountInfo) {
+    next.accountInfo = mapAccountInfoSecrets(next.accountInfo, encryptSecret);
+  }
+  return next as T;
+}
+
+/** Decrypt whichever secret columns were selected on a Client row. */
+export function decryptClientSecretFields<T extends Partial<Record<ClientSecretField, string | null>>>(row: T): T {
+  const next: Record<string, unknown> = { ...row };
+  for (const field of CLIENT_SECRET_FIELDS) {
+    if (typeof next[field] === "string") next[field] = decryptSecret(next[field] as string);
+  }
+  return next as T;
+}
+
+/**
+ * Changed columns after bringing a Client row's secrets up to the keyring's current key (plaintext encrypted,
+ * older keys re-wrapped). Empty when nothing needs rotating. Used by scripts/rotateDataEncryptionKey.ts.
+ */
+export function rotateClientSecretFields(
+  row: Partial<Record<ClientSecretField | "accountInfo", string | null>>,
+  keyring: SecretKeyring
+): Partial<Record<ClientSecretField | "accountInfo", string>> {
+  const changes: Partial<Record<ClientSecretField | "accountInfo", string>> = {};
+  for (const field of CLIENT_SECRET_FIELDS) {
+    const value = row[field];
+    if (value && keyring.needsRotation(value)) changes[field] = keyring.rotate(value);
+  }
+  if (row.accountInfo) {
+    const accountInfo = mapAccountInfoSecrets(row.accountInfo, (value) => keyring.rotate(value));
+    if (accountInfo !== row.accountInfo) changes.accountInfo = accountInfo;
+  }
+  return changes;
+}
+
+/**
+ * Prepare a Client for an API response: OAuth tokens and the website password are removed (`hasWebsitePassword`
+ * tells the UI whether one is saved; the value itself comes from POST /clients/:id/website-password/reveal),
+ * the username is decrypted and credential keys in accountInfo are masked.
+ */
+export function redactClientSecrets<T extends Record<string, any>>(
+  client: T
+): Omit<T, RedactedClientField> & { hasWebsitePassword?: boolean } {
+  const next: Record<string, any> = { ...client };
+  if ("password" in next) next.hasWebsitePassword = Boolean(next.password);
+  for (const field of CLIENT_REDACTED_FIELDS) delete next[field];
+  if (typeof next.username === "string") {
+    try {
+      next.username = decryptSecret(next.username);
+    } catch (err: any) {
+      console.warn("[Encryption] Could not decrypt client username:", err?.message || err);
+      next.username = null;
+    }
+  }
+  if (typeof next.accountInfo === "string" && next.accountInfo) {
+    next.accountInfo = mapAccountInfoSecrets(next.accountInfo, () => REDACTED_SECRET);
+  }
+  return next as Omit<T, RedactedClientField> & { hasWebsitePassword?: boolean };
+}
@@ -0,0 +1,71 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  describeUserAgent,
+  generateRefreshToken,
+  hashRefreshToken,
+  SessionStateCache,
+} from "./sessions.js";
+
+test("refresh tokens are random, prefixed and stored only as a stable hash", () => {
+  const a = generateRefreshToken();
+  const b = generateRefreshToken();
+  assert.match(a, /^rt_[A-Za-z0-9_-]{43}$/);
+  assert.notEqual(a, b);
+  assert.equal(hashRefreshToken(a), hashRefreshToken(a));
+  assert.notEqual(hashRefreshToken(a), hashRefreshToken(b));
+  assert.match(hashRefreshToken(a), /^[0-9a-f]{64}$/);
+});
+
+test("describeUserAgent labels common browsers and platforms", () => {
+  assert.equal(
+    describeUserAgent(
+      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36"
+    ),
+    "Chrome on macOS"
+  );
+  assert.equal(
+    describeUserAgent(
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.0.0"
+    ),
+    "Edge on Windows"
+  );
+  assert.equal(
+    describeUserAgent(
+      "Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1"
+    ),
+    "Safari on iOS"
+  );
+  assert.equal(describeUserAgent("Mozilla/5.0 (X11; Linux x86_64; rv:127.0) Gecko/20100101 Firefox/127.0"), "Firefox on Linux");
+  assert.equal(describeUserAgent("curl/8.4.0"), "API client");
+  assert.equal(describeUserAgent(null), "Unknown device");
+  assert.equal(describeUserAgent("something else"), "Unknown device");
+});
+
+test("SessionStateCache expires entries after the TTL", () => {
+  let now = 1_000;
+  const cache = new SessionStateCache(30_000, () => now);
+  cache.set("s1", "u1", true);
+  cache.set("s2", "u1", false);
+  assert.equal(cache.get("s1"), true);
+  assert.equal(cache.get("s2"), false);
+  assert.equal(cache.get("missing"), undefined);
+
+  now += 30_001;
+  assert.equal(cache.get("s1"), undefined);
+});
+
+test("SessionStateCache forgets a single session or every session of a user", () => {
+  const cache = new SessionStateCache(30_000, () => 0);
+  cache.set("s1", "u1", true);
+  cache.set("s2", "u1", true);
+  cache.set("s3", "u2", true);
+
+  cache.forgetSession("s1");
+  assert.equal(cache.get("s1"), undefined);
+  assert.equal(cache.get("s2"), true);
+
+  cache.forgetUser("u1");
+  assert.equal(cache.get("s2"), undefined);
+  assert.equal(cache.get("s3"), true);
+});
@@ -0,0 +1,275 @@
+/**
+ * Per-device sessions: short-lived JWT access tokens plus rotating opaque refresh tokens.
+ * Access tokens carry the session id (`sid`); authenticateToken checks that the session is still active,
+ * so revoking a session (sign-out, "log out other devices", removal from an agency or client) takes effect
+ * within SESSION_STATE_CACHE_MS instead of at token expiry. Only a SHA-256 hash of each refresh token is stored.
+ */
+import crypto from "crypto";
+import type { Request } from "express";
+import jwt from "jsonwebtoken";
+import { prisma } from "./prisma.js";
+import { getJwtSecret } from "../middleware/auth.js";
+import { isTwoFactorRequiredForUser } from "./twoFactor.js";
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+/** A rotated-out refresh token presented within this window is a concurrent refresh (another tab), not theft. */
+export const REFRESH_REUSE_GRACE_MS = 60 * 1000;
+export const SESSION_STATE_CACHE_MS = 30 * 1000;
+/** Revoked and expired sessions are kept this long for the session list, then deleted. */
+const SESSION_RETENTION_DAYS = 30;
+
+const REFRESH_TOKEN_PREFIX = "rt_";
+
+export type SessionRevokedReason =
+  | "logout"
+  | "revoked_by_user"
+  | "password_changed"
+  | "password_reset"
+  | "two_factor_reset"
+  | "removed_from_agency"
+  | "removed_from_client"
+  | "refresh_token_reuse";
+
+export type SessionRequestMeta = { userAgent: string | null; ipAddress: string | null };
+
+type SessionUser = { id: string; email: string; role: string; twoFactorEnabled: boolean };
+
+export function generateRefreshToken(): string {
+  return `${REFRESH_TOKEN_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+}
+
+export function hashRefreshToken(token: string): string {
+  return crypto.createHash("sha256").update(String(token)).digest("hex");
+}
+
+export function sessionMetaFromRequest(req: Request): SessionRequestMeta {
+  const userAgent = String(req.headers["user-agent"] || "").slice(0, 500) || null;
+  const forwarded = String(req.headers["x-forwarded-for"] || "").split(",")[0].trim();
+  const ipAddress = (forwarded || req.ip || req.socket?.remoteAddress || "").slice(0, 64) || null;
+  return { userAgent, ipAddress };
+}
+
+/** "Chrome on macOS" style label for the session list; falls back to "Unknown device". */
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  const ua = String(userAgent || "");
+  if (!ua) return "Unknown device";
+
+  const browser = /Edg\//.test(ua)
+    ? "Edge"
+    : /OPR\/|Opera/.test(ua)
+      ? "Opera"
+      : /Firefox\//.test(ua)
+        ? "Firefox"
+        : /Chrome\/|CriOS\//.test(ua)
+          ? "Chrome"
+          : /Safari\//.test(ua)
+            ? "Safari"
+            : /curl\/|PostmanRuntime|axios|node-fetch|okhttp/i.test(ua)
+              ? "API client"
+              : null;
+
+  const os = /iPhone|iPad|iPod/.test(ua)
+    ? "iOS"
+    : /Android/.test(ua)
+      ? "Android"
+      : /Windows/.test(ua)
+        ? "Windows"
+        : /Mac OS X|Macintosh/.test(ua)
+          ? "macOS"
+          : /CrOS/.test(ua)
+            ? "ChromeOS"
+            : /Linux/.test(ua)
+              ? "Linux"
+              : null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || "Unknown device";
+}
+
+/** Short-lived memo of "is this session still active" so every request doesn't hit the database. */
+export class SessionStateCache {
+  private entries = new Map<string, { userId: string; active: boolean; checkedAt: number }>();
+
+  constructor(private ttlMs: number = SESSION_STATE_CACHE_MS, private now: () => number = Date.now) {}
+
+  get(sessionId: string): boolean | undefined {
+    const entry = this.entries.get(sessionId);
+    if (!entry) return undefined;
+    if (this.now() - entry.checkedAt > this.ttlMs) {
+      this.entries.delete(sessionId);
+      return undefined;
+    }
+    return entry.active;
+  }
+
+  set(sessionId: string, userId: string, active: boolean) {
+    this.entries.set(sessionId, { userId, active, checkedAt: this.now() });
+    if (this.entries.size > 10_000) this.prune();
+  }
+
+  forgetSession(sessionId: string) {
+    this.entries.delete(sessionId);
+  }
+
+  forgetUser(userId: string) {
+    for (const [id, entry] of this.entries) {
+      if (entry.userId === userId) this.entries.delete(id);
+    }
+  }
+
+  private prune() {
+    const cutoff = this.now() - this.ttlMs;
+    for (const [id, entry] of this.entries) {
+      if (entry.checkedAt < cutoff) this.entries.delete(id);
+    }
+  }
+}
+
+const sessionStateCache = new SessionStateCache();
+
+/**
+ * Sign an access token for a session. Users who must enroll in 2FA (agency enforces it, user has not enabled it)
+ * get `twoFactorSetupRequired`, which limits the token to the enrollment endpoints.
+ */
+export async function signAccessToken(user: SessionUser, sessionId: string): Promise<string> {
+  const setupRequired = !user.twoFactorEnabled && (await isTwoFactorRequiredForUser(user.id));
+  return jwt.sign(
+    {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      sid: sessionId,
+      ...(setupRequired ? { twoFactorSetupRequired: true } : {}),
+    },
+    getJwtSecret(),
+    { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+  );
+}
+
+/** Start a session for a device and return its first access and refresh tokens. */
+export async function createUserSession(
+  user: SessionUser,
+  meta: SessionRequestMeta,
+  options: { impersonatedByUserId?: string } = {}
+): Promise<{ token: string; refreshToken: string; sessionId: string }> {
+  const refreshToken = generateRefreshToken();
+  const now = new Date();
+  const session = await prisma.userSession.create({
+    data: {
+      userId: user.id,
+      refreshTokenHash: hashRefreshToken(refreshToken),
+      rotatedAt: now,
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+      userAgent: meta.userAgent,
+      ipAddress: meta.ipAddress,
+      impersonatedByUserId: options.impersonatedByUserId ?? null,
+    },
+  });
+  sessionStateCache.set(session.id, user.id, true);
+  return { token: await signAccessToken(user, session.id), refreshToken, sessionId: session.id };
+}
+
+export type RefreshResult =
+  | { ok: true; token: string; refreshToken: string }
+  | { ok: false; reason: "invalid" | "expired" | "revoked" | "superseded" | "reused" };
+
+/**
+ * Exchange a refresh token for a new access token and a new refresh token. Presenting a token that was
+ * already rotated out revokes the session (likely stolen), unless it was rotated moments ago by a parallel request.
+ */
+export async function refreshUserSession(refreshToken: string, meta: SessionRequestMeta): Promise<RefreshResult> {
+  const hash = hashRefreshToken(refreshToken);
+  const session = await prisma.userSession.findUnique({
+    where: { refreshTokenHash: hash },
+    include: { user: { select: { id: true, email: true, role: true, twoFactorEnabled: true } } },
+  });
+
+  if (!session) {
+    const rotated = await prisma.userSession.findFirst({
+      where: { previousRefreshTokenHash: hash },
+      select: { id: true, userId: true, rotatedAt: true, revokedAt: true },
+    });
+    if (!rotated || rotated.revokedAt) return { ok: false, reason: "invalid" };
+    if (Date.now() - rotated.rotatedAt.getTime() <= REFRESH_REUSE_GRACE_MS) {
+      return { ok: false, reason: "superseded" };
+    }
+    await revokeSession(rotated.id, "refresh_token_reuse");
+    return { ok: false, reason: "reused" };
+  }
+  if (session.revokedAt) return { ok: false, reason: "revoked" };
+  if (session.expiresAt.getTime() <= Date.now()) return { ok: false, reason: "expired" };
+
+  const nextRefreshToken = generateRefreshToken();
+  const now = new Date();
+  const updated = await prisma.userSession.updateMany({
+    where: { id: session.id, refreshTokenHash: hash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashRefreshToken(nextRefreshToken),
+      previousRefreshTokenHash: hash,
+      rotatedAt: now,
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+      userAgent: meta.userAgent ?? session.userAgent,
+      ipAddress: meta.ipAddress ?? session.ipAddress,
+    },
+  });
+  if (updated.count === 0) return { ok: false, reason: "superseded" };
+
+  sessionStateCache.set(session.id, session.userId, true);
+  return { ok: true, token: await signAccessToken(session.user, session.id), refreshToken: nextRefreshToken };
+}
+
+/** True while the session exists, belongs to the user, is not revoked and has not expired. */
+export async function isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+  const cached = sessionStateCache.get(sessionId);
+  if (cached !== undefined) return cached;
+
+  const session = await prisma.userSession.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, revokedAt: true, expiresAt: true },
+  });
+  const active = Boolean(
+    session && session.userId === userId && !session.revokedAt && session.expiresAt.getTime() > Date.now()
+  );
+  sessionStateCache.set(sessionId, userId, active);
+  return active;
+}
+
+export async function revokeSession(sessionId: string, reason: SessionRevokedReason): Promise<void> {
+  await prisma.userSession.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  sessionStateCache.forgetSession(sessionId);
+}
+
+/** Revoke every active session of a user, optionally keeping the caller's own. Returns how many were revoked. */
+export async function revokeUserSessions(
+  userId: string,
+  reason: SessionRevokedReason,
+  options: { exceptSessionId?: string } = {}
+): Promise<number> {
+  const result = await prisma.userSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(options.exceptSessionId ? { id: { not: options.exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  sessionStateCache.forgetUser(userId);
+  return result.count;
+}
+
+/** Job: delete sessions that expired or were revoked more than SESSION_RETENTION_DAYS ago. */
+export async function pruneUserSessions(): Promise<void> {
+  const cutoff = new Date(Date.now() - SESSION_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const result = await prisma.userSession.deleteMany({
+    where: { OR: [{ expiresAt: { lt: cutoff } }, { revokedAt: { lt: cutoff } }] },
+  });
+  if (result.count > 0) {
+    console.log(`[Sessions] Pruned ${result.count} old session(s)`);
+  }
+}
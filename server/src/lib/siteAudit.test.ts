@@ -0,0 +1,189 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+import {
+  computeHealthScore,
+  crawlSite,
+  detectSiteAuditIssues,
+  diffSiteAuditIssues,
+  extractPageData,
+  parseRobotsTxt,
+  siteAuditIssueFingerprint,
+} from "./siteAudit.js";
+
+const page = (body: string, head = "") => `<!doctype html><html><head>${head}</head><body>${body}</body></html>`;
+
+/** Fixture site: robots blocks /private, /old redirects twice, /missing is a 404 and two pages share a title. */
+function startFixtureSite() {
+  const requested: string[] = [];
+  const server = http.createServer((req, res) => {
+    const path = req.url || "/";
+    requested.push(path);
+    const origin = `http://${req.headers.host}`;
+    const html = (status: number, body: string) => {
+      res.writeHead(status, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(body);
+    };
+    switch (path) {
+      case "/robots.txt":
+        res.writeHead(200, { "Content-Type": "text/plain" });
+        res.end("User-agent: *\nDisallow: /private\n");
+        return;
+      case "/":
+        return html(
+          200,
+          page(
+            `<h1>Home</h1><a href="/about">About</a><a href="/old">Old</a><a href="/missing">Missing</a>` +
+              `<a href="/private/report">Private</a><a href="mailto:hi@example.com">Mail</a><a href="#top">Top</a>` +
+              `<img src="/logo.png" alt="Logo"><img src="/hero.jpg">`,
+            `<title>Acme Plumbing</title><meta name="description" content="Plumbers in Springfield"><link rel="canonical" href="${origin}/">`
+          )
+        );
+      case "/about":
+        return html(
+          200,
+          page(`<h1>About</h1><h1>Team</h1><a href="/">Home</a>`, `<title>Acme Plumbing</title><link rel="canonical" href="${origin}/about">`)
+        );
+      case "/old":
+        res.writeHead(301, { Location: "/older" });
+        res.end();
+        return;
+      case "/older":
+        res.writeHead(302, { Location: `${origin}/new` });
+        res.end();
+        return;
+      case "/new":
+        return html(
+          200,
+          page(`<h1>New</h1>`, `<title>New page</title><meta name="description" content="The new page"><link rel="canonical" href="${origin}/new">`)
+        );
+      default:
+        return html(404, page("<h1>Not found</h1>", "<title>Not found</title>"));
+    }
+  });
+  return new Promise<{ origin: string; requested: string[]; close: () => Promise<void> }>((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        origin: `http://127.0.0.1:${port}`,
+        requested,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+test("parseRobotsTxt applies the longest matching rule for the most specific group", () => {
+  const robots = parseRobotsTxt(
+    [
+      "User-agent: *",
+      "Disallow: /",
+      "",
+      "User-agent: AgencyDashboard-SiteAudit",
+      "Disallow: /private",
+      "Allow: /private/public",
+      "Disallow: /*.pdf$",
+    ].join("\n")
+  );
+  assert.equal(robots.isAllowed("/"), true);
+  assert.equal(robots.isAllowed("/private/report"), false);
+  assert.equal(robots.isAllowed("/private/public/page"), true);
+  assert.equal(robots.isAllowed("/files/guide.pdf"), false);
+  assert.equal(robots.isAllowed("/files/guide.pdf?x=1"), true);
+  assert.equal(parseRobotsTxt("User-agent: *\nDisallow: /").isAllowed("/anything"), false);
+  assert.equal(parseRobotsTxt("User-agent: *\nDisallow:").isAllowed("/anything"), true);
+});
+
+test("extractPageData reads head tags, headings, images and resolved links", () => {
+  const data = extractPageData(
+    page(
+      `<h1>Hello <em>world</em></h1><!-- <a href="/commented">x</a> --><img src="a.png"><img src="b.png" alt="">` +
+        `<a href="contact#form">Contact</a><a href="javascript:void(0)">JS</a><a href='https://other.example/x'>Other</a>`,
+      `<base href="https://example.com/blog/"><title> Tips &amp; Tricks </title><meta content="Read this" name="Description">` +
+        `<link rel="canonical" href="/blog/tips">`
+    ),
+    "https://example.com/blog/tips"
+  );
+  assert.equal(data.title, "Tips & Tricks");
+  assert.equal(data.metaDescription, "Read this");
+  assert.equal(data.canonical, "https://example.com/blog/tips");
+  assert.deepEqual(data.h1, ["Hello world"]);
+  assert.deepEqual(data.imagesMissingAlt, ["https://example.com/blog/a.png"]);
+  assert.deepEqual(data.links, ["https://example.com/blog/contact", "https://other.example/x"]);
+});
+
+test("crawlSite walks a local fixture site and detectSiteAuditIssues reports its problems", async () => {
+  const site = await startFixtureSite();
+  try {
+    const crawl = await crawlSite(site.origin, { maxPages: 20, allowPrivateNetwork: true, timeoutMs: 5000 });
+
+    assert.deepEqual(
+      crawl.pages.map((p) => [new URL(p.url).pathname, p.statusCode]),
+      [
+        ["/", 200],
+        ["/about", 200],
+        ["/old", 200],
+        ["/missing", 404],
+      ]
+    );
+    assert.deepEqual(crawl.blockedByRobots, [`${site.origin}/private/report`]);
+    assert.equal(site.requested.includes("/private/report"), false);
+    assert.equal(crawl.truncated, false);
+    const old = crawl.pages.find((p) => p.url.endsWith("/old"))!;
+    assert.equal(old.finalUrl, `${site.origin}/new`);
+    assert.deepEqual(old.redirectChain.map((hop) => hop.statusCode), [301, 302]);
+
+    const issues = detectSiteAuditIssues(crawl);
+    const summary = issues.map((i) => `${i.code} ${new URL(i.url).pathname}`).sort();
+    assert.deepEqual(summary, [
+      "broken_link /",
+      "broken_page /missing",
+      "duplicate_title /",
+      "duplicate_title /about",
+      "missing_alt_text /",
+      "missing_meta_description /about",
+      "multiple_h1 /about",
+      "redirect_chain /old",
+    ]);
+    assert.equal(issues.find((i) => i.code === "broken_link")?.target, `${site.origin}/missing`);
+
+    const score = computeHealthScore(crawl.pages.map((p) => p.url), issues);
+    // "/" 100-25-10-10=55, "/about" 100-10-10-2=78, "/old" 100-10=90, "/missing" 100-25=75
+    assert.equal(score, Math.round((55 + 78 + 90 + 75) / 4));
+
+    const limited = await crawlSite(site.origin, { maxPages: 2, allowPrivateNetwork: true, timeoutMs: 5000 });
+    assert.equal(limited.pages.length, 2);
+    assert.equal(limited.truncated, true);
+  } finally {
+    await site.close();
+  }
+});
+
+test("crawlSite refuses private addresses unless allowed", async () => {
+  const site = await startFixtureSite();
+  try {
+    const crawl = await crawlSite(site.origin, { maxPages: 5, timeoutMs: 5000 });
+    assert.equal(crawl.pages.length, 1);
+    assert.match(crawl.pages[0].error || "", /private address/);
+    assert.deepEqual(site.requested, []);
+    assert.deepEqual(
+      detectSiteAuditIssues(crawl).map((i) => i.code),
+      ["page_unreachable"]
+    );
+  } finally {
+    await site.close();
+  }
+});
+
+test("diffSiteAuditIssues matches crawls by fingerprint", () => {
+  const withFingerprint = (code: "missing_h1" | "broken_link", url: string, target: string | null = null) => {
+    const i = { code, url, target };
+    return { ...i, fingerprint: siteAuditIssueFingerprint(i) };
+  };
+  const previous = [withFingerprint("missing_h1", "https://a.com/"), withFingerprint("broken_link", "https://a.com/", "https://a.com/x")];
+  const current = [withFingerprint("missing_h1", "https://a.com/"), withFingerprint("broken_link", "https://a.com/", "https://a.com/y")];
+  const { added, fixed } = diffSiteAuditIssues(previous, current);
+  assert.deepEqual(added.map((i) => i.target), ["https://a.com/y"]);
+  assert.deepEqual(fixed.map((i) => i.target), ["https://a.com/x"]);
+});
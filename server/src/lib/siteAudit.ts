@@ -0,0 +1,617 @@
+/**
+ * Technical site audit: a same-site crawler (robots.txt aware, page-capped per tier) plus the on-page checks, the
+ * health score and the crawl-to-crawl diff. The crawler only needs a start URL and fetch, so tests run it against a
+ * local fixture server; `runSiteAudit` wires it to the database for the job scheduler.
+ */
+import crypto from "crypto";
+import { prisma } from "./prisma.js";
+import { assertPublicHost } from "./netGuard.js";
+import { resolveClientAgencyId } from "./auditLog.js";
+import { DEFAULT_TIER_ID, getTierConfig } from "./tiers.js";
+
+export const SITE_AUDIT_USER_AGENT = "AgencyDashboard-SiteAudit/1.0";
+const ROBOTS_AGENT_TOKEN = "agencydashboard-siteaudit";
+const MAX_REDIRECTS = 10;
+const MAX_HTML_BYTES = 3_000_000;
+/** Audits stuck in RUNNING longer than this (instance died mid-crawl) are marked failed. */
+export const SITE_AUDIT_STALE_AFTER_MS = 3 * 60 * 60 * 1000;
+
+export type SiteAuditSeverity = "error" | "warning" | "notice";
+
+export type SiteAuditIssueCode =
+  | "page_unreachable"
+  | "server_error"
+  | "broken_page"
+  | "redirect_loop"
+  | "redirect_chain"
+  | "broken_link"
+  | "missing_title"
+  | "duplicate_title"
+  | "title_too_long"
+  | "missing_meta_description"
+  | "duplicate_meta_description"
+  | "meta_description_too_long"
+  | "missing_h1"
+  | "multiple_h1"
+  | "missing_canonical"
+  | "canonical_mismatch"
+  | "missing_alt_text";
+
+export const SITE_AUDIT_ISSUE_TYPES: Record<SiteAuditIssueCode, { label: string; severity: SiteAuditSeverity; fix: string }> = {
+  page_unreachable: { label: "Page unreachable", severity: "error", fix: "Make sure the page responds (DNS, TLS and server timeouts)." },
+  server_error: { label: "Server error (5xx)", severity: "error", fix: "Fix the server error so the page returns 200." },
+  broken_page: { label: "Broken page (4xx)", severity: "error", fix: "Restore the page or 301-redirect it, and update links pointing to it." },
+  redirect_loop: { label: "Redirect loop", severity: "error", fix: "Break the loop so the URL redirects to a final 200 page." },
+  redirect_chain: { label: "Redirect chain", severity: "warning", fix: "Redirect straight to the final URL and update internal links." },
+  broken_link: { label: "Broken link", severity: "error", fix: "Update or remove links to pages that return an error." },
+  missing_title: { label: "Missing title tag", severity: "error", fix: "Add a unique, descriptive <title> to the page." },
+  duplicate_title: { label: "Duplicate title", severity: "warning", fix: "Give each page its own title." },
+  title_too_long: { label: "Title too long", severity: "notice", fix: "Keep titles under about 60 characters so they are not truncated." },
+  missing_meta_description: { label: "Missing meta description", severity: "warning", fix: "Add a meta description summarising the page." },
+  duplicate_meta_description: { label: "Duplicate meta description", severity: "notice", fix: "Write a distinct meta description for each page." },
+  meta_description_too_long: { label: "Meta description too long", severity: "notice", fix: "Keep meta descriptions under about 160 characters." },
+  missing_h1: { label: "Missing H1", severity: "warning", fix: "Add one H1 heading describing the page." },
+  multiple_h1: { label: "Multiple H1s", severity: "notice", fix: "Use a single H1 and demote the others to H2." },
+  missing_canonical: { label: "Missing canonical", severity: "notice", fix: "Add a self-referencing canonical link." },
+  canonical_mismatch: { label: "Canonical points elsewhere", severity: "notice", fix: "Check the canonical is intended; otherwise point it at this URL." },
+  missing_alt_text: { label: "Images missing alt text", severity: "warning", fix: "Add alt text describing each image (use alt=\"\" for decorative images)." },
+};
+
+const SEVERITY_PENALTY: Record<SiteAuditSeverity, number> = { error: 25, warning: 10, notice: 2 };
+const TITLE_MAX_LENGTH = 60;
+const META_DESCRIPTION_MAX_LENGTH = 160;
+
+export type RedirectHop = { url: string; statusCode: number };
+
+export type CrawledPage = {
+  url: string;
+  finalUrl: string;
+  /** Final status after redirects; null when the request failed. */
+  statusCode: number | null;
+  /** Redirect responses before the final one. */
+  redirectChain: RedirectHop[];
+  contentType: string | null;
+  title: string | null;
+  metaDescription: string | null;
+  canonical: string | null;
+  h1: string[];
+  imagesMissingAlt: string[];
+  links: string[];
+  depth: number;
+  loadTimeMs: number;
+  error: string | null;
+};
+
+export type LinkCheck = { statusCode: number | null; error: string | null };
+
+export type SiteCrawl = {
+  startUrl: string;
+  pages: CrawledPage[];
+  /** Status of every link target that was checked (crawled internal pages and external links). */
+  linkChecks: Record<string, LinkCheck>;
+  blockedByRobots: string[];
+  /** True when the page cap stopped the crawl with URLs still queued. */
+  truncated: boolean;
+};
+
+export type SiteAuditIssue = {
+  code: SiteAuditIssueCode;
+  severity: SiteAuditSeverity;
+  url: string;
+  /** Second URL the issue is about (the broken link target, the canonical); part of the fingerprint. */
+  target: string | null;
+  detail: string | null;
+};
+
+export type CrawlOptions = {
+  maxPages: number;
+  /** External links checked with HEAD requests (0 = none). */
+  maxExternalLinks?: number;
+  timeoutMs?: number;
+  /** Tests crawl 127.0.0.1; production crawls refuse private and loopback addresses. */
+  allowPrivateNetwork?: boolean;
+  fetchImpl?: typeof fetch;
+};
+
+// ---------- robots.txt ----------
+
+type RobotsRule = { allow: boolean; pattern: string };
+
+/** Longest-match Allow/Disallow rules (with * and $) for our user agent, falling back to the "*" group. */
+export function parseRobotsTxt(text: string, agentToken = ROBOTS_AGENT_TOKEN) {
+  const groups: Array<{ agents: string[]; rules: RobotsRule[] }> = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | null = null;
+  let lastWasAgent = false;
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const match = /^([A-Za-z-]+)\s*:\s*(.*)$/.exec(line);
+    if (!match) continue;
+    const field = match[1].toLowerCase();
+    const value = match[2].trim();
+    if (field === "user-agent") {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+    } else if ((field === "allow" || field === "disallow") && current) {
+      lastWasAgent = false;
+      if (value) current.rules.push({ allow: field === "allow", pattern: value });
+    } else {
+      lastWasAgent = false;
+    }
+  }
+  const specific = groups.filter((g) => g.agents.some((a) => a !== "*" && agentToken.includes(a)));
+  const rules = (specific.length > 0 ? specific : groups.filter((g) => g.agents.includes("*"))).flatMap((g) => g.rules);
+
+  const toRegex = (pattern: string) => {
+    const anchored = pattern.endsWith("$");
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+    return new RegExp(`^${body}${anchored ? "$" : ""}`);
+  };
+  const compiled = rules.map((rule) => ({ ...rule, regex: toRegex(rule.pattern) }));
+
+  return {
+    isAllowed(pathWithQuery: string): boolean {
+      let best: { allow: boolean; length: number } | null = null;
+      for (const rule of compiled) {
+        if (!rule.regex.test(pathWithQuery)) continue;
+        const length = rule.pattern.length;
+        if (!best || length > best.length || (length === best.length && rule.allow)) best = { allow: rule.allow, length };
+      }
+      return best ? best.allow : true;
+    },
+  };
+}
+
+// ---------- HTML extraction ----------
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+
+const textContent = (html: string) => decodeEntities(html.replace(/<[^>]*>/g, " ")).replace(/\s+/g, " ").trim();
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const body = tag.replace(/^<\s*[a-z0-9]+/i, "").replace(/\/?>$/, "");
+  const pattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body))) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attrs;
+}
+
+const tagsNamed = (html: string, name: string) => html.match(new RegExp(`<${name}\\b[^>]*>`, "gi")) ?? [];
+
+/** Strips the fragment, lowercases the host and drops default ports; null for non-http(s) or unparsable URLs. */
+export function normalizeCrawlUrl(value: string, base?: string): string | null {
+  try {
+    const url = new URL(value.trim(), base);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    url.hash = "";
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+export function extractPageData(html: string, pageUrl: string) {
+  const cleaned = html.replace(/<!--[\s\S]*?-->/g, "").replace(/<(script|style|template)\b[\s\S]*?<\/\1\s*>/gi, "");
+  const baseHref = tagsNamed(cleaned, "base").map(parseAttributes)[0]?.href;
+  const base = (baseHref && normalizeCrawlUrl(baseHref, pageUrl)) || pageUrl;
+
+  const titleMatch = /<title\b[^>]*>([\s\S]*?)<\/title\s*>/i.exec(cleaned);
+  const metas = tagsNamed(cleaned, "meta").map(parseAttributes);
+  const description = metas.find((m) => (m.name || "").toLowerCase() === "description");
+  const canonicalLink = tagsNamed(cleaned, "link")
+    .map(parseAttributes)
+    .find((l) => (l.rel || "").toLowerCase().split(/\s+/).includes("canonical") && l.href);
+
+  const h1: string[] = [];
+  for (const match of cleaned.matchAll(/<h1\b[^>]*>([\s\S]*?)<\/h1\s*>/gi)) h1.push(textContent(match[1]));
+
+  const imagesMissingAlt = tagsNamed(cleaned, "img")
+    .map(parseAttributes)
+    .filter((img) => !("alt" in img))
+    .map((img) => (img.src ? normalizeCrawlUrl(img.src, base) ?? img.src : "(no src)"));
+
+  const links = new Set<string>();
+  for (const anchor of tagsNamed(cleaned, "a").map(parseAttributes)) {
+    const href = (anchor.href || "").trim();
+    if (!href || href.startsWith("#")) continue;
+    const absolute = normalizeCrawlUrl(href, base);
+    if (absolute) links.add(absolute);
+  }
+
+  const title = titleMatch ? textContent(titleMatch[1]) : "";
+  const metaDescription = description?.content?.replace(/\s+/g, " ").trim() ?? "";
+  return {
+    title: title || null,
+    metaDescription: metaDescription || null,
+    canonical: canonicalLink ? normalizeCrawlUrl(canonicalLink.href, base) : null,
+    h1,
+    imagesMissingAlt,
+    links: [...links],
+  };
+}
+
+// ---------- Crawler ----------
+
+const siteKey = (hostname: string) => hostname.toLowerCase().replace(/^www\./, "");
+
+export async function crawlSite(startUrl: string, options: CrawlOptions): Promise<SiteCrawl> {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const timeoutMs = options.timeoutMs ?? 15_000;
+  const maxExternalLinks = options.maxExternalLinks ?? 100;
+  const start = normalizeCrawlUrl(/^https?:\/\//i.test(startUrl) ? startUrl : `https://${startUrl}`);
+  if (!start) throw new Error(`Invalid start URL: ${startUrl}`);
+  const site = siteKey(new URL(start).hostname);
+  const isInternal = (url: string) => siteKey(new URL(url).hostname) === site;
+
+  const hostChecks = new Map<string, Promise<void>>();
+  const assertHostAllowed = (url: string) => {
+    if (options.allowPrivateNetwork) return Promise.resolve();
+    const { hostname } = new URL(url);
+    let check = hostChecks.get(hostname);
+    if (!check) {
+      check = assertPublicHost(hostname);
+      hostChecks.set(hostname, check);
+    }
+    return check;
+  };
+
+  const request = async (url: string, method: "GET" | "HEAD") => {
+    await assertHostAllowed(url);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      return await fetchImpl(url, {
+        method,
+        redirect: "manual",
+        signal: controller.signal,
+        headers: { "User-Agent": SITE_AUDIT_USER_AGENT, Accept: "text/html,application/xhtml+xml,*/*;q=0.8" },
+      });
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  /** Follows redirects by hand so every hop is recorded. */
+  const follow = async (url: string, method: "GET" | "HEAD") => {
+    const chain: RedirectHop[] = [];
+    let current = url;
+    for (;;) {
+      const response = await request(current, method);
+      const location = response.headers.get("location");
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel().catch(() => undefined);
+        chain.push({ url: current, statusCode: response.status });
+        const next = normalizeCrawlUrl(location, current);
+        if (!next) throw new Error(`Invalid redirect location: ${location}`);
+        if (next === url || chain.some((hop) => hop.url === next)) throw new Error("Redirect loop");
+        if (chain.length >= MAX_REDIRECTS) throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+        current = next;
+        continue;
+      }
+      return { response, chain, finalUrl: current };
+    }
+  };
+
+  let robots = parseRobotsTxt("");
+  try {
+    const robotsResponse = await request(new URL("/robots.txt", start).toString(), "GET");
+    if (robotsResponse.ok) robots = parseRobotsTxt(await robotsResponse.text());
+    else await robotsResponse.body?.cancel().catch(() => undefined);
+  } catch {
+    // No robots.txt reachable: everything is allowed.
+  }
+
+  const pages: CrawledPage[] = [];
+  const linkChecks: Record<string, LinkCheck> = {};
+  const blockedByRobots: string[] = [];
+  const queue: Array<{ url: string; depth: number }> = [{ url: start, depth: 0 }];
+  const seen = new Set<string>([start]);
+
+  while (queue.length > 0 && pages.length < options.maxPages) {
+    const { url, depth } = queue.shift()!;
+    const parsed = new URL(url);
+    if (!robots.isAllowed(`${parsed.pathname}${parsed.search}`)) {
+      blockedByRobots.push(url);
+      continue;
+    }
+
+    const startedAt = Date.now();
+    const page: CrawledPage = {
+      url,
+      finalUrl: url,
+      statusCode: null,
+      redirectChain: [],
+      contentType: null,
+      title: null,
+      metaDescription: null,
+      canonical: null,
+      h1: [],
+      imagesMissingAlt: [],
+      links: [],
+      depth,
+      loadTimeMs: 0,
+      error: null,
+    };
+    try {
+      const { response, chain, finalUrl } = await follow(url, "GET");
+      page.statusCode = response.status;
+      page.redirectChain = chain;
+      page.finalUrl = finalUrl;
+      page.contentType = response.headers.get("content-type");
+      const isHtml = /text\/html|application\/xhtml/i.test(page.contentType || "");
+      if (isHtml && response.ok && isInternal(finalUrl)) {
+        const html = (await response.text()).slice(0, MAX_HTML_BYTES);
+        Object.assign(page, extractPageData(html, finalUrl));
+      } else {
+        await response.body?.cancel().catch(() => undefined);
+      }
+      seen.add(finalUrl);
+    } catch (error: any) {
+      page.error = error?.name === "AbortError" ? `Timed out after ${timeoutMs} ms` : String(error?.message || error);
+    }
+    page.loadTimeMs = Date.now() - startedAt;
+    pages.push(page);
+    linkChecks[url] = { statusCode: page.statusCode, error: page.error };
+
+    for (const link of page.links) {
+      if (!isInternal(link) || seen.has(link)) continue;
+      seen.add(link);
+      queue.push({ url: link, depth: depth + 1 });
+    }
+  }
+
+  const externalLinks = [...new Set(pages.flatMap((p) => p.links))].filter((link) => !isInternal(link)).slice(0, maxExternalLinks);
+  for (const link of externalLinks) {
+    try {
+      let { response } = await follow(link, "HEAD");
+      if (response.status === 405 || response.status === 501) {
+        ({ response } = await follow(link, "GET"));
+        await response.body?.cancel().catch(() => undefined);
+      }
+      linkChecks[link] = { statusCode: response.status, error: null };
+    } catch (error: any) {
+      linkChecks[link] = { statusCode: null, error: String(error?.message || error) };
+    }
+  }
+
+  return { startUrl: start, pages, linkChecks, blockedByRobots, truncated: queue.length > 0 };
+}
+
+// ---------- Checks, score, diff ----------
+
+const issue = (code: SiteAuditIssueCode, url: string, detail: string | null = null, target: string | null = null): SiteAuditIssue => ({
+  code,
+  severity: SITE_AUDIT_ISSUE_TYPES[code].severity,
+  url,
+  target,
+  detail,
+});
+
+export function detectSiteAuditIssues(crawl: SiteCrawl): SiteAuditIssue[] {
+  const issues: SiteAuditIssue[] = [];
+  const htmlPages = crawl.pages.filter((p) => p.statusCode === 200 && /html/i.test(p.contentType || ""));
+
+  for (const page of crawl.pages) {
+    if (page.error === "Redirect loop") issues.push(issue("redirect_loop", page.url));
+    else if (page.statusCode === null) issues.push(issue("page_unreachable", page.url, page.error));
+    else if (page.statusCode >= 500) issues.push(issue("server_error", page.url, `HTTP ${page.statusCode}`));
+    else if (page.statusCode >= 400) issues.push(issue("broken_page", page.url, `HTTP ${page.statusCode}`));
+    if (page.redirectChain.length >= 2) {
+      const hops = [...page.redirectChain.map((hop) => `${hop.url} (${hop.statusCode})`), page.finalUrl];
+      issues.push(issue("redirect_chain", page.url, `${page.redirectChain.length} redirects: ${hops.join(" → ")}`));
+    }
+  }
+
+  const countBy = (values: Array<string | null>) => {
+    const counts = new Map<string, number>();
+    for (const value of values) if (value) counts.set(value.toLowerCase(), (counts.get(value.toLowerCase()) ?? 0) + 1);
+    return counts;
+  };
+  const titleCounts = countBy(htmlPages.map((p) => p.title));
+  const descriptionCounts = countBy(htmlPages.map((p) => p.metaDescription));
+
+  for (const page of htmlPages) {
+    if (!page.title) issues.push(issue("missing_title", page.url));
+    else {
+      const others = (titleCounts.get(page.title.toLowerCase()) ?? 1) - 1;
+      if (others > 0) issues.push(issue("duplicate_title", page.url, `"${page.title}" is used on ${others} other page(s)`));
+      if (page.title.length > TITLE_MAX_LENGTH) issues.push(issue("title_too_long", page.url, `${page.title.length} characters`));
+    }
+    if (!page.metaDescription) issues.push(issue("missing_meta_description", page.url));
+    else {
+      const others = (descriptionCounts.get(page.metaDescription.toLowerCase()) ?? 1) - 1;
+      if (others > 0) issues.push(issue("duplicate_meta_description", page.url, `Used on ${others} other page(s)`));
+      if (page.metaDescription.length > META_DESCRIPTION_MAX_LENGTH) {
+        issues.push(issue("meta_description_too_long", page.url, `${page.metaDescription.length} characters`));
+      }
+    }
+    if (page.h1.length === 0) issues.push(issue("missing_h1", page.url));
+    else if (page.h1.length > 1) issues.push(issue("multiple_h1", page.url, `${page.h1.length} H1 headings`));
+    if (!page.canonical) issues.push(issue("missing_canonical", page.url));
+    else if (page.canonical !== page.finalUrl) issues.push(issue("canonical_mismatch", page.url, `Canonical: ${page.canonical}`, page.canonical));
+    if (page.imagesMissingAlt.length > 0) {
+      const sample = page.imagesMissingAlt.slice(0, 5).join(", ");
+      issues.push(issue("missing_alt_text", page.url, `${page.imagesMissingAlt.length} image(s): ${sample}`));
+    }
+    for (const link of page.links) {
+      const check = crawl.linkChecks[link];
+      if (!check || (check.statusCode !== null && check.statusCode < 400)) continue;
+      issues.push(issue("broken_link", page.url, check.statusCode !== null ? `${link} (HTTP ${check.statusCode})` : `${link} (${check.error})`, link));
+    }
+  }
+  return issues;
+}
+
+/** Average page score: each page starts at 100 and loses 25 per error, 10 per warning and 2 per notice (min 0). */
+export function computeHealthScore(pageUrls: string[], issues: Array<Pick<SiteAuditIssue, "url" | "severity">>): number {
+  if (pageUrls.length === 0) return 0;
+  const penalties = new Map<string, number>();
+  for (const i of issues) penalties.set(i.url, (penalties.get(i.url) ?? 0) + SEVERITY_PENALTY[i.severity]);
+  const total = pageUrls.reduce((sum, url) => sum + Math.max(0, 100 - (penalties.get(url) ?? 0)), 0);
+  return Math.round(total / pageUrls.length);
+}
+
+export function siteAuditIssueFingerprint(i: Pick<SiteAuditIssue, "code" | "url" | "target">): string {
+  return crypto.createHash("sha256").update(`${i.code}\n${i.url}\n${i.target ?? ""}`).digest("hex");
+}
+
+/** Issues new since the previous crawl and previous issues that are gone (fixed or no longer crawled). */
+export function diffSiteAuditIssues<P extends { fingerprint: string }, C extends { fingerprint: string }>(previous: P[], current: C[]) {
+  const previousKeys = new Set(previous.map((i) => i.fingerprint));
+  const currentKeys = new Set(current.map((i) => i.fingerprint));
+  return {
+    added: current.filter((i) => !previousKeys.has(i.fingerprint)),
+    fixed: previous.filter((i) => !currentKeys.has(i.fingerprint)),
+  };
+}
+
+export function countIssuesBySeverity(issues: Array<{ severity: string }>) {
+  return {
+    error: issues.filter((i) => i.severity === "error").length,
+    warning: issues.filter((i) => i.severity === "warning").length,
+    notice: issues.filter((i) => i.severity === "notice").length,
+  };
+}
+
+// ---------- Persistence ----------
+
+export async function getSiteAuditPageLimit(clientId: string): Promise<number> {
+  const agencyId = await resolveClientAgencyId(clientId);
+  const agency = agencyId
+    ? await prisma.agency.findUnique({ where: { id: agencyId }, select: { subscriptionTier: true, billingType: true } })
+    : null;
+  const tierConfig =
+    getTierConfig(agency?.subscriptionTier) ??
+    (agency?.billingType === "free" || agency?.billingType === "trial" ? getTierConfig("free") : getTierConfig(DEFAULT_TIER_ID));
+  return tierConfig?.siteAuditPageLimit ?? 0;
+}
+
+const chunk = <T>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+/** Crawls a queued audit and stores pages, issues (flagged new vs the previous crawl) and the health score. */
+export async function runSiteAudit(auditId: string, crawlOptions?: Partial<CrawlOptions>): Promise<void> {
+  const audit = await prisma.siteAudit.findUnique({ where: { id: auditId } });
+  if (!audit) return;
+
+  try {
+    const crawl = await crawlSite(audit.startUrl, { maxPages: audit.pageLimit, ...crawlOptions });
+    const issues = detectSiteAuditIssues(crawl).map((i) => ({ ...i, fingerprint: siteAuditIssueFingerprint(i) }));
+
+    const previousAudit = await prisma.siteAudit.findFirst({
+      where: { clientId: audit.clientId, status: "COMPLETED", id: { not: audit.id } },
+      orderBy: { completedAt: "desc" },
+      select: { id: true },
+    });
+    const previousIssues = previousAudit
+      ? await prisma.siteAuditIssue.findMany({ where: { auditId: previousAudit.id }, select: { fingerprint: true, taskId: true } })
+      : [];
+    const { added, fixed } = diffSiteAuditIssues(previousIssues, issues);
+    const addedKeys = new Set(added.map((i) => i.fingerprint));
+    // An issue already turned into a task stays linked to it while it persists.
+    const taskByFingerprint = new Map(previousIssues.filter((i) => i.taskId).map((i) => [i.fingerprint, i.taskId]));
+
+    for (const rows of chunk(crawl.pages, 500)) {
+      await prisma.siteAuditPage.createMany({
+        data: rows.map((p) => ({
+          auditId,
+          url: p.url.slice(0, 2048),
+          finalUrl: p.finalUrl.slice(0, 2048),
+          statusCode: p.statusCode,
+          redirectChain: p.redirectChain.length > 0 ? p.redirectChain : undefined,
+          contentType: p.contentType?.slice(0, 255) ?? null,
+          title: p.title,
+          metaDescription: p.metaDescription,
+          canonical: p.canonical?.slice(0, 2048) ?? null,
+          h1: p.h1[0] ?? null,
+          h1Count: p.h1.length,
+          imagesMissingAlt: p.imagesMissingAlt.length,
+          linkCount: p.links.length,
+          depth: p.depth,
+          loadTimeMs: p.loadTimeMs,
+          error: p.error,
+        })),
+      });
+    }
+    for (const rows of chunk(issues, 500)) {
+      await prisma.siteAuditIssue.createMany({
+        data: rows.map((i) => ({
+          auditId,
+          clientId: audit.clientId,
+          code: i.code,
+          severity: i.severity,
+          url: i.url.slice(0, 2048),
+          target: i.target?.slice(0, 2048) ?? null,
+          detail: i.detail,
+          fingerprint: i.fingerprint,
+          isNew: Boolean(previousAudit) && addedKeys.has(i.fingerprint),
+          taskId: taskByFingerprint.get(i.fingerprint) ?? null,
+        })),
+      });
+    }
+
+    await prisma.siteAudit.update({
+      where: { id: auditId },
+      data: {
+        status: "COMPLETED",
+        completedAt: new Date(),
+        pagesCrawled: crawl.pages.length,
+        truncated: crawl.truncated,
+        blockedByRobots: crawl.blockedByRobots.length,
+        healthScore: computeHealthScore(
+          crawl.pages.map((p) => p.url),
+          issues
+        ),
+        issueCounts: {
+          ...countIssuesBySeverity(issues),
+          new: previousAudit ? added.length : 0,
+          fixed: fixed.length,
+        },
+        previousAuditId: previousAudit?.id ?? null,
+      },
+    });
+  } catch (error: any) {
+    await prisma.siteAudit.update({
+      where: { id: auditId },
+      data: { status: "FAILED", completedAt: new Date(), error: String(error?.message || error).slice(0, 2000) },
+    });
+  }
+}
+
+/** Job: fails audits orphaned by a dead instance, then runs queued audits oldest first (claimed one at a time). */
+export async function processQueuedSiteAudits(params?: { maxAudits?: number }): Promise<void> {
+  await prisma.siteAudit.updateMany({
+    where: { status: "RUNNING", startedAt: { lt: new Date(Date.now() - SITE_AUDIT_STALE_AFTER_MS) } },
+    data: { status: "FAILED", completedAt: new Date(), error: "The crawl was interrupted. Start a new audit." },
+  });
+
+  const maxAudits = Math.max(1, params?.maxAudits ?? 3);
+  for (let i = 0; i < maxAudits; i++) {
+    const next = await prisma.siteAudit.findFirst({ where: { status: "QUEUED" }, orderBy: { createdAt: "asc" }, select: { id: true } });
+    if (!next) return;
+    const claimed = await prisma.siteAudit.updateMany({
+      where: { id: next.id, status: "QUEUED" },
+      data: { status: "RUNNING", startedAt: new Date() },
+    });
+    if (claimed.count === 0) continue;
+    await runSiteAudit(next.id);
+  }
+}
@@ -0,0 +1,45 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import zlib from "zlib";
+import { rowsToCsv, rowsToXlsx } from "./spreadsheetExport.js";
+
+/** Reads the entries of a zip written without data descriptors. */
+function readZipEntries(buffer: Buffer): Map<string, string> {
+  const entries = new Map<string, string>();
+  let offset = 0;
+  while (buffer.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = buffer.readUInt32LE(offset + 18);
+    const nameLength = buffer.readUInt16LE(offset + 26);
+    const extraLength = buffer.readUInt16LE(offset + 28);
+    const name = buffer.subarray(offset + 30, offset + 30 + nameLength).toString("utf8");
+    const dataStart = offset + 30 + nameLength + extraLength;
+    entries.set(name, zlib.inflateRawSync(buffer.subarray(dataStart, dataStart + compressedSize)).toString("utf8"));
+    offset = dataStart + compressedSize;
+  }
+  return entries;
+}
+
+test("rowsToCsv quotes cells and neutralizes formulas", () => {
+  assert.equal(rowsToCsv(["Name", "Note"], [["Acme, Inc.", "=1+1"], [null, 3]]), 'Name,Note\r\n"Acme, Inc.",\'=1+1\r\n,3\r\n');
+});
+
+test("rowsToXlsx writes a workbook whose sheet holds the header and typed, escaped cells", () => {
+  const workbook = rowsToXlsx("Clients", ["Name", "Pages", "Active"], [["Tom & Jerry <LLC>", 12, true], [null, null, false]]);
+  assert.equal(workbook.subarray(0, 2).toString(), "PK");
+  const entries = readZipEntries(workbook);
+  assert.deepEqual([...entries.keys()].sort(), [
+    "[Content_Types].xml",
+    "_rels/.rels",
+    "xl/_rels/workbook.xml.rels",
+    "xl/styles.xml",
+    "xl/workbook.xml",
+    "xl/worksheets/sheet1.xml",
+  ]);
+  assert.match(entries.get("xl/workbook.xml") ?? "", /<sheet name="Clients"/);
+  const sheet = entries.get("xl/worksheets/sheet1.xml") ?? "";
+  assert.match(sheet, /<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Name<\/t><\/is><\/c>/);
+  assert.match(sheet, /Tom &amp; Jerry &lt;LLC&gt;/);
+  assert.match(sheet, /<c r="B2"><v>12<\/v><\/c>/);
+  assert.match(sheet, /<c r="C2" t="b"><v>1<\/v><\/c>/);
+  assert.match(sheet, /<row r="3"><c r="C3" t="b"><v>0<\/v><\/c><\/row>/);
+});
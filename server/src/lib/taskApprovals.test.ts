@@ -0,0 +1,68 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  approvalChainGenesisHash,
+  computeApprovalRecordHash,
+  hashApprovalProof,
+  verifyApprovalChain,
+} from "./taskApprovals.js";
+
+const proof = JSON.stringify([{ type: "url", value: "https://example.com/post", name: "Blog post" }]);
+
+function buildChain(clientId: string | null, count: number) {
+  const records = [];
+  let previousHash = approvalChainGenesisHash(clientId);
+  for (let i = 0; i < count; i++) {
+    const fields = {
+      id: `r${i}`,
+      batchId: "batch-1",
+      decision: "APPROVED" as const,
+      comment: "Looks good",
+      taskId: `t${i}`,
+      taskTitle: `Task ${i}`,
+      clientId,
+      userId: "u1",
+      userEmail: "client@example.com",
+      ipAddress: "203.0.113.7",
+      proofSnapshot: proof,
+      proofHash: hashApprovalProof(proof),
+      createdAt: new Date(Date.UTC(2026, 3, 9, 12, 0, i)),
+      previousHash,
+    };
+    const record = { ...fields, recordHash: computeApprovalRecordHash(fields) };
+    records.push(record);
+    previousHash = record.recordHash;
+  }
+  return records;
+}
+
+test("hashApprovalProof ignores extra proof keys but not the linked content", () => {
+  const withExtras = JSON.stringify([{ type: "url", value: "https://example.com/post", name: "Blog post", uploadedAt: "x" }]);
+  assert.equal(hashApprovalProof(withExtras), hashApprovalProof(proof));
+  assert.notEqual(hashApprovalProof(proof.replace("/post", "/other")), hashApprovalProof(proof));
+  assert.equal(hashApprovalProof(null), hashApprovalProof(""));
+});
+
+test("verifyApprovalChain accepts an untouched chain, per client genesis", () => {
+  const records = buildChain("c1", 3);
+  assert.deepEqual(verifyApprovalChain("c1", records), { valid: true, checked: 3, brokenRecordIds: [] });
+  assert.equal(verifyApprovalChain("c2", records).valid, false);
+  assert.equal(verifyApprovalChain(null, buildChain(null, 2)).valid, true);
+});
+
+test("verifyApprovalChain flags edited fields and changed proof snapshots", () => {
+  const edited = buildChain("c1", 3);
+  edited[1] = { ...edited[1], decision: "REVISIONS_REQUESTED" as any };
+  assert.deepEqual(verifyApprovalChain("c1", edited).brokenRecordIds, ["r1"]);
+
+  const swappedProof = buildChain("c1", 3);
+  swappedProof[2] = { ...swappedProof[2], proofSnapshot: "[]" };
+  assert.deepEqual(verifyApprovalChain("c1", swappedProof).brokenRecordIds, ["r2"]);
+});
+
+test("verifyApprovalChain flags records cut off by a deletion", () => {
+  const records = buildChain("c1", 4);
+  const check = verifyApprovalChain("c1", [records[0], records[2], records[3]]);
+  assert.equal(check.valid, false);
+  assert.deepEqual(check.brokenRecordIds.sort(), ["r2", "r3"]);
+});
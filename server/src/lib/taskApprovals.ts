@@ -0,0 +1,178 @@
+/**
+ * Client approval trail: every approve / request-revisions decision on a task is written as a TaskApprovalRecord with
+ * who, when, from where, and a hash of the task's proof at that moment. Records of one client form a hash chain, so
+ * the history (and the certificates generated from it) can be checked for edits or deletions after the fact.
+ */
+import crypto from "crypto";
+import type { TaskApprovalDecision, TaskApprovalRecord } from "@prisma/client";
+import { prisma } from "./prisma.js";
+
+const sha256 = (value: string) => crypto.createHash("sha256").update(value).digest("hex");
+
+/** Proof items as they affect the hash: type, value and name in their original order. */
+function normalizeProof(proof: string | null | undefined): string {
+  if (!proof) return "";
+  try {
+    const parsed = JSON.parse(proof);
+    if (!Array.isArray(parsed)) return JSON.stringify(parsed);
+    return JSON.stringify(
+      parsed.map((item: any) => ({ type: String(item?.type ?? ""), value: String(item?.value ?? ""), name: item?.name ?? null }))
+    );
+  } catch {
+    return proof;
+  }
+}
+
+export function hashApprovalProof(proof: string | null | undefined): string {
+  return sha256(normalizeProof(proof));
+}
+
+/** Where a client's chain starts; the first record's previousHash. */
+export function approvalChainGenesisHash(clientId: string | null): string {
+  return sha256(`task-approvals:${clientId ?? "no-client"}`);
+}
+
+export type ApprovalRecordHashInput = Pick<
+  TaskApprovalRecord,
+  | "batchId"
+  | "decision"
+  | "comment"
+  | "taskId"
+  | "taskTitle"
+  | "clientId"
+  | "userId"
+  | "userEmail"
+  | "ipAddress"
+  | "proofHash"
+  | "createdAt"
+  | "previousHash"
+>;
+
+export function computeApprovalRecordHash(record: ApprovalRecordHashInput): string {
+  return sha256(
+    JSON.stringify([
+      record.batchId,
+      record.decision,
+      record.comment ?? null,
+      record.taskId,
+      record.taskTitle,
+      record.clientId ?? null,
+      record.userId,
+      record.userEmail,
+      record.ipAddress ?? null,
+      record.proofHash,
+      record.createdAt.toISOString(),
+      record.previousHash,
+    ])
+  );
+}
+
+export type ApprovalChainCheck = { valid: boolean; checked: number; brokenRecordIds: string[] };
+
+/**
+ * Walks a client's chain from its genesis hash. A record is broken when its own hash or proof hash no longer matches
+ * its fields, or when it is not reachable from the genesis (a record before it was edited or removed).
+ */
+export function verifyApprovalChain(
+  clientId: string | null,
+  records: Array<ApprovalRecordHashInput & { id: string; recordHash: string; proofSnapshot: string | null }>
+): ApprovalChainCheck {
+  const byPrevious = new Map(records.map((record) => [record.previousHash, record]));
+  const reachable = new Set<string>();
+  const broken: string[] = [];
+  let cursor = approvalChainGenesisHash(clientId);
+  for (let record = byPrevious.get(cursor); record && !reachable.has(record.id); record = byPrevious.get(cursor)) {
+    reachable.add(record.id);
+    if (computeApprovalRecordHash(record) !== record.recordHash || hashApprovalProof(record.proofSnapshot) !== record.proofHash) {
+      broken.push(record.id);
+    }
+    cursor = record.recordHash;
+  }
+  for (const record of records) {
+    if (!reachable.has(record.id)) broken.push(record.id);
+  }
+  return { valid: broken.length === 0, checked: records.length, brokenRecordIds: broken };
+}
+
+export type ApprovalDecisionEntry = {
+  task: { id: string; title: string; clientId: string | null; agencyId: string | null; proof: string | null };
+  decision: TaskApprovalDecision;
+  comment: string | null;
+};
+
+export type ApprovalActor = {
+  userId: string;
+  name: string | null;
+  email: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+};
+
+function isUniqueConstraintError(error: any): boolean {
+  return error?.code === "P2002";
+}
+
+/** Appends one record per entry (sharing a new batch id) to each client's chain. Retries when a concurrent write won. */
+export async function recordApprovalDecisions(
+  entries: ApprovalDecisionEntry[],
+  actor: ApprovalActor
+): Promise<{ batchId: string; records: TaskApprovalRecord[] }> {
+  const batchId = crypto.randomUUID();
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const records = await prisma.$transaction(async (tx) => {
+        const heads = new Map<string | null, string>();
+        const created: TaskApprovalRecord[] = [];
+        for (const entry of entries) {
+          const clientId = entry.task.clientId;
+          let previousHash = heads.get(clientId);
+          if (!previousHash) {
+            // The chain's tip is the record nothing points back at yet.
+            const tip = await tx.$queryRaw<Array<{ recordHash: string }>>`
+              SELECT r.recordHash FROM task_approval_records r
+              LEFT JOIN task_approval_records n ON n.previousHash = r.recordHash
+              WHERE r.clientId <=> ${clientId} AND n.id IS NULL
+              LIMIT 1`;
+            previousHash = tip[0]?.recordHash ?? approvalChainGenesisHash(clientId);
+          }
+          const fields = {
+            batchId,
+            decision: entry.decision,
+            comment: entry.comment,
+            taskId: entry.task.id,
+            taskTitle: entry.task.title.slice(0, 255),
+            clientId,
+            agencyId: entry.task.agencyId,
+            userId: actor.userId,
+            userName: actor.name?.slice(0, 255) ?? null,
+            userEmail: actor.email.slice(0, 255),
+            ipAddress: actor.ipAddress,
+            userAgent: actor.userAgent,
+            proofSnapshot: entry.task.proof,
+            proofHash: hashApprovalProof(entry.task.proof),
+            createdAt: new Date(),
+            previousHash,
+          };
+          const record = await tx.taskApprovalRecord.create({
+            data: { ...fields, recordHash: computeApprovalRecordHash(fields) },
+          });
+          heads.set(clientId, record.recordHash);
+          created.push(record);
+        }
+        return created;
+      });
+      return { batchId, records };
+    } catch (error) {
+      if (!isUniqueConstraintError(error) || attempt >= 3) throw error;
+    }
+  }
+}
+
+/** Loads a client's full chain (oldest first) and checks it. */
+export async function getClientApprovalTrail(clientId: string) {
+  const records = await prisma.taskApprovalRecord.findMany({
+    where: { clientId },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  });
+  return { records, integrity: verifyApprovalChain(clientId, records) };
+}
@@ -0,0 +1,81 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildTimelineRows,
+  dueDateSlipMs,
+  isBlockedBy,
+  parseBlockedByOrders,
+  planDueDateShifts,
+  wouldCreateDependencyCycle,
+  type DependencyEdge,
+} from "./taskDependencies.js";
+
+const DAY = 86_400_000;
+const d = (iso: string) => new Date(`${iso}T00:00:00.000Z`);
+
+// a <- b <- c, a <- d <- c (c waits on b and d, both of which wait on a)
+const diamond: DependencyEdge[] = [
+  { taskId: "b", blockedById: "a" },
+  { taskId: "d", blockedById: "a" },
+  { taskId: "c", blockedById: "b" },
+  { taskId: "c", blockedById: "d" },
+];
+
+test("wouldCreateDependencyCycle rejects self links and loops through existing edges", () => {
+  assert.equal(wouldCreateDependencyCycle(diamond, "a", "a"), true);
+  assert.equal(wouldCreateDependencyCycle(diamond, "a", "c"), true);
+  assert.equal(wouldCreateDependencyCycle(diamond, "b", "d"), false);
+  assert.equal(wouldCreateDependencyCycle(diamond, "c", "a"), false);
+});
+
+test("isBlockedBy ignores finished and cancelled blockers", () => {
+  assert.equal(isBlockedBy([]), false);
+  assert.equal(isBlockedBy([{ status: "DONE" }, { status: "CANCELLED" }]), false);
+  assert.equal(isBlockedBy([{ status: "DONE" }, { status: "REVIEW" }]), true);
+});
+
+test("planDueDateShifts moves open downstream tasks once by the slip", () => {
+  const tasks = new Map([
+    ["b", { dueDate: d("2026-05-10"), status: "TODO" as const }],
+    ["d", { dueDate: d("2026-05-12"), status: "DONE" as const }],
+    ["c", { dueDate: d("2026-05-20"), status: "IN_PROGRESS" as const }],
+  ]);
+  const shifts = planDueDateShifts({ taskId: "a", slipMs: 3 * DAY, edges: diamond, tasks });
+  assert.deepEqual(shifts, [
+    { id: "b", dueDate: d("2026-05-13") },
+    { id: "c", dueDate: d("2026-05-23") },
+  ]);
+  assert.deepEqual(planDueDateShifts({ taskId: "a", slipMs: -DAY, edges: diamond, tasks }), []);
+});
+
+test("dueDateSlipMs rounds to whole days and ignores missing dates", () => {
+  assert.equal(dueDateSlipMs(d("2026-05-01"), new Date(d("2026-05-03").getTime() + 3_600_000)), 2 * DAY);
+  assert.equal(dueDateSlipMs(null, d("2026-05-03")), 0);
+  assert.equal(dueDateSlipMs(d("2026-05-03"), null), 0);
+});
+
+test("parseBlockedByOrders keeps earlier positions only", () => {
+  assert.deepEqual(parseBlockedByOrders("[3, 1, 1, 4, 0, \"2\"]", 4), [1, 2, 3]);
+  assert.deepEqual(parseBlockedByOrders([5], 2), []);
+  assert.deepEqual(parseBlockedByOrders("nope", 3), []);
+  assert.deepEqual(parseBlockedByOrders(null, 3), []);
+});
+
+test("buildTimelineRows starts bars after the latest blocker and flags overdue work", () => {
+  const rows = buildTimelineRows(
+    [
+      { id: "a", title: "Audit", status: "DONE", category: null, createdAt: d("2026-05-01"), dueDate: d("2026-05-05"), blockedByIds: [] },
+      { id: "b", title: "Fixes", status: "TODO", category: "On-page", createdAt: d("2026-05-01"), dueDate: d("2026-05-12"), blockedByIds: ["a"] },
+      { id: "c", title: "Report", status: "TODO", category: null, createdAt: d("2026-05-01"), dueDate: null, blockedByIds: ["b"] },
+    ],
+    d("2026-05-15")
+  );
+  assert.deepEqual(
+    rows.map((r) => [r.id, r.start, r.end, r.blocked, r.overdue]),
+    [
+      ["a", "2026-05-01", "2026-05-05", false, false],
+      ["b", "2026-05-05", "2026-05-12", false, true],
+      ["c", "2026-05-12", "2026-05-12", true, false],
+    ]
+  );
+});
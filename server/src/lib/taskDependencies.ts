@@ -0,0 +1,181 @@
+import type { TaskStatus } from "@prisma/client";
+import { prisma } from "./prisma.js";
+
+const DAY_MS = 86_400_000;
+
+export type DependencyEdge = { taskId: string; blockedById: string };
+
+/** Statuses that no longer hold up the tasks waiting on them. */
+export const DEPENDENCY_RESOLVED_STATUSES: TaskStatus[] = ["DONE", "CANCELLED"];
+
+export function isBlockedBy(blockers: Array<{ status: TaskStatus }>): boolean {
+  return blockers.some((b) => !DEPENDENCY_RESOLVED_STATUSES.includes(b.status));
+}
+
+/** True when making `taskId` wait on `blockedById` would close a loop (including a task waiting on itself). */
+export function wouldCreateDependencyCycle(edges: DependencyEdge[], taskId: string, blockedById: string): boolean {
+  if (taskId === blockedById) return true;
+  // Walk upstream from the new blocker; reaching `taskId` means the blocker already (indirectly) waits on it.
+  const blockersOf = new Map<string, string[]>();
+  for (const edge of edges) {
+    const list = blockersOf.get(edge.taskId) ?? [];
+    list.push(edge.blockedById);
+    blockersOf.set(edge.taskId, list);
+  }
+  const seen = new Set<string>();
+  const stack = [blockedById];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === taskId) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    stack.push(...(blockersOf.get(current) ?? []));
+  }
+  return false;
+}
+
+/**
+ * When a task's due date slips by `slipMs`, every open task downstream of it moves by the same amount (a task reachable
+ * along several paths moves once). Done/cancelled tasks and tasks without a due date stay put, but later tasks
+ * behind them still move.
+ */
+export function planDueDateShifts(params: {
+  taskId: string;
+  slipMs: number;
+  edges: DependencyEdge[];
+  tasks: Map<string, { dueDate: Date | null; status: TaskStatus }>;
+}): Array<{ id: string; dueDate: Date }> {
+  const { taskId, slipMs, edges, tasks } = params;
+  if (slipMs <= 0) return [];
+  const dependentsOf = new Map<string, string[]>();
+  for (const edge of edges) {
+    const list = dependentsOf.get(edge.blockedById) ?? [];
+    list.push(edge.taskId);
+    dependentsOf.set(edge.blockedById, list);
+  }
+  const visited = new Set<string>([taskId]);
+  const queue = [...(dependentsOf.get(taskId) ?? [])];
+  const shifts: Array<{ id: string; dueDate: Date }> = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    const task = tasks.get(id);
+    if (task?.dueDate && !DEPENDENCY_RESOLVED_STATUSES.includes(task.status)) {
+      shifts.push({ id, dueDate: new Date(task.dueDate.getTime() + slipMs) });
+    }
+    queue.push(...(dependentsOf.get(id) ?? []));
+  }
+  return shifts;
+}
+
+/** Whole days between two due dates, so shifts keep dependents on calendar-day boundaries. */
+export function dueDateSlipMs(previous: Date | null, next: Date | null): number {
+  if (!previous || !next) return 0;
+  return Math.round((next.getTime() - previous.getTime()) / DAY_MS) * DAY_MS;
+}
+
+/** Applies a due-date slip of `taskId` to all open downstream tasks. Returns the ids that moved. */
+export async function shiftDependentDueDates(taskId: string, previous: Date | null, next: Date | null): Promise<string[]> {
+  const slipMs = dueDateSlipMs(previous, next);
+  if (slipMs <= 0) return [];
+
+  // Load the downstream graph breadth-first; it is small (onboarding plans are tens of tasks).
+  const edges: DependencyEdge[] = [];
+  const seen = new Set<string>([taskId]);
+  let frontier = [taskId];
+  while (frontier.length > 0) {
+    const batch = await prisma.taskDependency.findMany({
+      where: { blockedById: { in: frontier } },
+      select: { taskId: true, blockedById: true },
+    });
+    edges.push(...batch);
+    frontier = batch.map((e) => e.taskId).filter((id) => !seen.has(id));
+    frontier.forEach((id) => seen.add(id));
+  }
+  if (edges.length === 0) return [];
+
+  const rows = await prisma.task.findMany({
+    where: { id: { in: [...seen] } },
+    select: { id: true, dueDate: true, status: true },
+  });
+  const shifts = planDueDateShifts({
+    taskId,
+    slipMs,
+    edges,
+    tasks: new Map(rows.map((r) => [r.id, { dueDate: r.dueDate, status: r.status }])),
+  });
+  if (shifts.length > 0) {
+    await prisma.$transaction(shifts.map((s) => prisma.task.update({ where: { id: s.id }, data: { dueDate: s.dueDate } })));
+  }
+  return shifts.map((s) => s.id);
+}
+
+/** Template task positions (1-based `order`) this task waits on; only earlier tasks count, which keeps plans acyclic. */
+export function parseBlockedByOrders(value: unknown, ownOrder: number): number[] {
+  let raw: unknown = value;
+  if (typeof value === "string") {
+    try {
+      raw = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(raw)) return [];
+  const orders = raw.map(Number).filter((n) => Number.isInteger(n) && n >= 1 && n < ownOrder);
+  return Array.from(new Set(orders)).sort((a, b) => a - b);
+}
+
+export type TimelineTask = {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  category: string | null;
+  createdAt: Date;
+  dueDate: Date | null;
+  blockedByIds: string[];
+};
+
+export type TimelineRow = {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  category: string | null;
+  start: string;
+  end: string;
+  blockedByIds: string[];
+  blocked: boolean;
+  overdue: boolean;
+};
+
+/**
+ * Gantt bars for a client's tasks. A task starts once its latest blocker is due (or when it was created, if later
+ * / unblocked) and ends on its due date; tasks without a due date get a one-day bar.
+ */
+export function buildTimelineRows(tasks: TimelineTask[], now: Date = new Date()): TimelineRow[] {
+  const byId = new Map(tasks.map((t) => [t.id, t]));
+  const dayStart = (d: Date) => new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+  const today = dayStart(now);
+  const rows = tasks.map((task) => {
+    const blockers = task.blockedByIds.map((id) => byId.get(id)).filter((t): t is TimelineTask => Boolean(t));
+    const blockerEnd = blockers.reduce<Date | null>(
+      (latest, b) => (b.dueDate && (!latest || b.dueDate > latest) ? b.dueDate : latest),
+      null
+    );
+    const end = dayStart(task.dueDate ?? blockerEnd ?? task.createdAt);
+    let start = dayStart(blockerEnd ?? task.createdAt);
+    if (start > end) start = end;
+    return {
+      id: task.id,
+      title: task.title,
+      status: task.status,
+      category: task.category,
+      start: start.toISOString().slice(0, 10),
+      end: end.toISOString().slice(0, 10),
+      blockedByIds: task.blockedByIds,
+      blocked: isBlockedBy(blockers),
+      overdue: Boolean(task.dueDate) && end < today && !DEPENDENCY_RESOLVED_STATUSES.includes(task.status),
+    };
+  });
+  return rows.sort((a, b) => a.start.localeCompare(b.start) || a.end.localeCompare(b.end) || a.title.localeCompare(b.title));
+}
@@ -0,0 +1,129 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  DEFAULT_TASK_WORKFLOW,
+  checkWorkflowTransition,
+  normalizeWorkflowColumns,
+  resolveTaskColumn,
+  serializeWorkflowColumn,
+  workflowColumnsSchema,
+  type WorkflowColumn,
+  type WorkflowTaskFields,
+} from "./taskWorkflow.js";
+
+const contentWorkflow = (): WorkflowColumn[] => {
+  const parsed = workflowColumnsSchema.parse({
+    columns: [
+      { name: "Drafting", coreStatus: "IN_PROGRESS", allowedNextKeys: ["editing"] },
+      { name: "Editing", coreStatus: "IN_PROGRESS", wipLimit: 2 },
+      { name: "Client review", coreStatus: "NEEDS_APPROVAL", requiredFields: ["assignee"] },
+      { name: "Published", coreStatus: "DONE", requiredFields: ["proof", "proof"] },
+    ],
+  });
+  const normalized = normalizeWorkflowColumns(parsed.columns);
+  assert.ok("columns" in normalized);
+  return normalized.columns.map((column, i) => ({ ...column, id: `col${i}` }));
+};
+
+const fields = (overrides: Partial<WorkflowTaskFields> = {}): WorkflowTaskFields => ({
+  assigneeId: "u1",
+  dueDate: null,
+  proof: null,
+  estimatedHours: null,
+  description: null,
+  clientId: "c1",
+  ...overrides,
+});
+
+test("normalizeWorkflowColumns derives keys from names and dedupes required fields", () => {
+  const columns = contentWorkflow();
+  assert.deepEqual(
+    columns.map((c) => c.key),
+    ["drafting", "editing", "client-review", "published"]
+  );
+  assert.deepEqual(columns[3].requiredFields, ["proof"]);
+  assert.equal(columns[1].allowedNextKeys, null);
+});
+
+test("normalizeWorkflowColumns rejects duplicate keys and unknown transition targets", () => {
+  const duplicate = normalizeWorkflowColumns(
+    workflowColumnsSchema.parse({
+      columns: [
+        { key: "draft", name: "Draft", coreStatus: "TODO" },
+        { key: "draft", name: "Draft again", coreStatus: "TODO" },
+      ],
+    }).columns
+  );
+  assert.deepEqual(duplicate, { error: 'Duplicate column key "draft"' });
+
+  const unknown = normalizeWorkflowColumns(
+    workflowColumnsSchema.parse({ columns: [{ name: "Draft", coreStatus: "TODO", allowedNextKeys: ["ship"] }] }).columns
+  );
+  assert.deepEqual(unknown, { error: 'Column "Draft" allows a move to unknown column "ship"' });
+
+  const sameName = normalizeWorkflowColumns(
+    workflowColumnsSchema.parse({
+      columns: [
+        { name: "Review", coreStatus: "REVIEW" },
+        { name: "Review", coreStatus: "NEEDS_APPROVAL" },
+      ],
+    }).columns
+  );
+  assert.ok("columns" in sameName);
+  assert.deepEqual(
+    sameName.columns.map((c) => c.key),
+    ["review", "review-2"]
+  );
+});
+
+test("resolveTaskColumn prefers the pinned column and falls back to the first column for the status", () => {
+  const columns = contentWorkflow();
+  assert.equal(resolveTaskColumn(columns, { status: "IN_PROGRESS", workflowColumnId: "col1" })?.key, "editing");
+  assert.equal(resolveTaskColumn(columns, { status: "IN_PROGRESS", workflowColumnId: null })?.key, "drafting");
+  // Pinned column no longer matches the task's status (changed elsewhere): fall back.
+  assert.equal(resolveTaskColumn(columns, { status: "DONE", workflowColumnId: "col1" })?.key, "published");
+  assert.equal(resolveTaskColumn(columns, { status: "TODO" }), null);
+  assert.equal(resolveTaskColumn(DEFAULT_TASK_WORKFLOW, { status: "REVIEW" })?.key, "review");
+});
+
+test("checkWorkflowTransition enforces allowed moves, required fields and WIP limits", () => {
+  const [drafting, editing, review, published] = contentWorkflow();
+  assert.equal(checkWorkflowTransition({ from: drafting, to: editing, task: fields(), tasksInTarget: 0 }), null);
+  assert.equal(
+    checkWorkflowTransition({ from: drafting, to: published, task: fields(), tasksInTarget: 0 }),
+    'Tasks in "Drafting" cannot move to "Published"'
+  );
+  assert.equal(
+    checkWorkflowTransition({ from: editing, to: review, task: fields({ assigneeId: null }), tasksInTarget: 0 }),
+    '"Client review" requires: Assignee'
+  );
+  assert.equal(
+    checkWorkflowTransition({ from: review, to: published, task: fields({ proof: "[]" }), tasksInTarget: 0 }),
+    '"Published" requires: Proof / attachment'
+  );
+  assert.equal(
+    checkWorkflowTransition({ from: review, to: published, task: fields({ proof: '[{"type":"url","value":"https://x.test"}]' }), tasksInTarget: 0 }),
+    null
+  );
+  assert.equal(
+    checkWorkflowTransition({ from: drafting, to: editing, task: fields(), tasksInTarget: 2 }),
+    '"Editing" is at its limit of 2 tasks'
+  );
+  // Staying in the same column is never blocked.
+  assert.equal(checkWorkflowTransition({ from: editing, to: editing, task: fields(), tasksInTarget: 5 }), null);
+});
+
+test("serializeWorkflowColumn ignores unknown required fields and malformed JSON", () => {
+  const column = serializeWorkflowColumn({
+    id: "c1",
+    key: "done",
+    name: "Done",
+    coreStatus: "DONE",
+    color: null,
+    wipLimit: null,
+    requiredFields: JSON.stringify(["proof", "budget"]),
+    allowedNextKeys: "not json",
+  });
+  assert.deepEqual(column.requiredFields, ["proof"]);
+  assert.equal(column.allowedNextKeys, null);
+});
@@ -0,0 +1,262 @@
+import { z } from "zod";
+import type { Prisma, TaskStatus } from "@prisma/client";
+import { prisma } from "./prisma.js";
+
+export const TASK_CORE_STATUSES = ["TODO", "IN_PROGRESS", "REVIEW", "DONE", "NEEDS_APPROVAL", "CANCELLED"] as const;
+
+/** Task fields an agency can require before a task may enter a column. */
+export const WORKFLOW_REQUIRED_FIELDS = {
+  assignee: "Assignee",
+  dueDate: "Due date",
+  proof: "Proof / attachment",
+  estimatedHours: "Estimated hours",
+  description: "Description",
+  client: "Client",
+} as const;
+
+export type WorkflowRequiredField = keyof typeof WORKFLOW_REQUIRED_FIELDS;
+
+const requiredFieldIds = Object.keys(WORKFLOW_REQUIRED_FIELDS) as [WorkflowRequiredField, ...WorkflowRequiredField[]];
+
+export const MAX_WORKFLOW_COLUMNS = 20;
+
+export type WorkflowColumn = {
+  id: string | null;
+  key: string;
+  name: string;
+  coreStatus: TaskStatus;
+  color: string | null;
+  wipLimit: number | null;
+  requiredFields: WorkflowRequiredField[];
+  /** Column keys tasks in this column may move to; null = any column. */
+  allowedNextKeys: string[] | null;
+};
+
+/** Board used by agencies that have not defined their own workflow (same columns the board always had). */
+export const DEFAULT_TASK_WORKFLOW: WorkflowColumn[] = [
+  { key: "todo", name: "To Do", coreStatus: "TODO", color: null },
+  { key: "in-progress", name: "In Progress", coreStatus: "IN_PROGRESS", color: null },
+  { key: "review", name: "Review", coreStatus: "REVIEW", color: null },
+  { key: "needs-approval", name: "Needs Approval", coreStatus: "NEEDS_APPROVAL", color: null },
+  { key: "done", name: "Done", coreStatus: "DONE", color: null },
+].map((column) => ({ ...column, id: null, wipLimit: null, requiredFields: [], allowedNextKeys: null }) as WorkflowColumn);
+
+const columnKeySchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(60)
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Column keys may only contain lowercase letters, numbers and dashes");
+
+export const workflowColumnsSchema = z.object({
+  columns: z
+    .array(
+      z.object({
+        key: columnKeySchema.optional(),
+        name: z.string().trim().min(1).max(60),
+        coreStatus: z.enum(TASK_CORE_STATUSES),
+        color: z
+          .string()
+          .trim()
+          .regex(/^#[0-9a-fA-F]{6}$/)
+          .optional()
+          .nullable(),
+        wipLimit: z.number().int().min(1).max(500).optional().nullable(),
+        requiredFields: z.array(z.enum(requiredFieldIds)).optional().default([]),
+        allowedNextKeys: z.array(columnKeySchema).optional().nullable(),
+      })
+    )
+    .min(1)
+    .max(MAX_WORKFLOW_COLUMNS),
+});
+
+export function slugifyColumnKey(name: string): string {
+  return (
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "")
+      .slice(0, 60) || "column"
+  );
+}
+
+/**
+ * Assigns keys to new columns (from their names), rejects duplicate keys and transitions pointing at columns that
+ * are not in the workflow. Returns the columns in board order or an error message.
+ */
+export function normalizeWorkflowColumns(
+  input: z.infer<typeof workflowColumnsSchema>["columns"]
+): { columns: WorkflowColumn[] } | { error: string } {
+  const used = new Set<string>();
+  for (const column of input) {
+    if (!column.key) continue;
+    if (used.has(column.key)) return { error: `Duplicate column key "${column.key}"` };
+    used.add(column.key);
+  }
+
+  const columns: WorkflowColumn[] = input.map((column) => {
+    let key = column.key;
+    if (!key) {
+      const base = slugifyColumnKey(column.name);
+      key = base;
+      for (let n = 2; used.has(key); n++) key = `${base}-${n}`;
+      used.add(key);
+    }
+    return {
+      id: null,
+      key,
+      name: column.name,
+      coreStatus: column.coreStatus,
+      color: column.color ?? null,
+      wipLimit: column.wipLimit ?? null,
+      requiredFields: Array.from(new Set(column.requiredFields)),
+      allowedNextKeys: column.allowedNextKeys ? Array.from(new Set(column.allowedNextKeys.filter((k) => k !== key))) : null,
+    };
+  });
+
+  for (const column of columns) {
+    const unknown = column.allowedNextKeys?.find((k) => !used.has(k));
+    if (unknown) return { error: `Column "${column.name}" allows a move to unknown column "${unknown}"` };
+  }
+  return { columns };
+}
+
+function parseJsonStringArray(value: string | null | undefined): string[] | null {
+  if (value == null) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function serializeWorkflowColumn(row: {
+  id: string;
+  key: string;
+  name: string;
+  coreStatus: TaskStatus;
+  color: string | null;
+  wipLimit: number | null;
+  requiredFields: string | null;
+  allowedNextKeys: string | null;
+}): WorkflowColumn {
+  return {
+    id: row.id,
+    key: row.key,
+    name: row.name,
+    coreStatus: row.coreStatus,
+    color: row.color,
+    wipLimit: row.wipLimit,
+    requiredFields: (parseJsonStringArray(row.requiredFields) ?? []).filter(
+      (field): field is WorkflowRequiredField => field in WORKFLOW_REQUIRED_FIELDS
+    ),
+    allowedNextKeys: parseJsonStringArray(row.allowedNextKeys),
+  };
+}
+
+/** Column a task sits in: its explicit column, else the first column mapped to its core status. */
+export function resolveTaskColumn(
+  columns: WorkflowColumn[],
+  task: { status: TaskStatus; workflowColumnId?: string | null }
+): WorkflowColumn | null {
+  if (task.workflowColumnId) {
+    const explicit = columns.find((c) => c.id === task.workflowColumnId);
+    if (explicit && explicit.coreStatus === task.status) return explicit;
+  }
+  return columns.find((c) => c.coreStatus === task.status) ?? null;
+}
+
+export type WorkflowTaskFields = {
+  assigneeId: string | null;
+  dueDate: Date | null;
+  proof: string | null;
+  estimatedHours: number | null;
+  description: string | null;
+  clientId: string | null;
+};
+
+function hasProof(proof: string | null): boolean {
+  if (!proof) return false;
+  try {
+    const parsed = JSON.parse(proof);
+    return Array.isArray(parsed) ? parsed.length > 0 : Boolean(parsed);
+  } catch {
+    return proof.trim().length > 0;
+  }
+}
+
+export function getMissingRequiredFields(column: WorkflowColumn, task: WorkflowTaskFields): WorkflowRequiredField[] {
+  return column.requiredFields.filter((field) => {
+    switch (field) {
+      case "assignee":
+        return !task.assigneeId;
+      case "dueDate":
+        return !task.dueDate;
+      case "proof":
+        return !hasProof(task.proof);
+      case "estimatedHours":
+        return task.estimatedHours == null;
+      case "description":
+        return !task.description?.trim();
+      case "client":
+        return !task.clientId;
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * Why a task may not move from `from` to `to`, or null when the move is allowed. `tasksInTarget` is the number of
+ * other tasks already in the target column (for its WIP limit).
+ */
+export function checkWorkflowTransition(params: {
+  from: WorkflowColumn | null;
+  to: WorkflowColumn;
+  task: WorkflowTaskFields;
+  tasksInTarget: number;
+}): string | null {
+  const { from, to, task, tasksInTarget } = params;
+  if (from?.key === to.key) return null;
+  if (from?.allowedNextKeys && !from.allowedNextKeys.includes(to.key)) {
+    return `Tasks in "${from.name}" cannot move to "${to.name}"`;
+  }
+  const missing = getMissingRequiredFields(to, task);
+  if (missing.length > 0) {
+    return `"${to.name}" requires: ${missing.map((field) => WORKFLOW_REQUIRED_FIELDS[field]).join(", ")}`;
+  }
+  if (to.wipLimit != null && tasksInTarget >= to.wipLimit) {
+    return `"${to.name}" is at its limit of ${to.wipLimit} task${to.wipLimit === 1 ? "" : "s"}`;
+  }
+  return null;
+}
+
+/** The agency's custom workflow in board order, or null when it uses DEFAULT_TASK_WORKFLOW. */
+export async function getAgencyWorkflowColumns(agencyId: string | null | undefined): Promise<WorkflowColumn[] | null> {
+  if (!agencyId) return null;
+  const rows = await prisma.taskWorkflowColumn.findMany({ where: { agencyId }, orderBy: { order: "asc" } });
+  return rows.length > 0 ? rows.map(serializeWorkflowColumn) : null;
+}
+
+/** Tasks (other than `excludeTaskId`) currently shown in `column` on the agency's board. */
+export async function countTasksInWorkflowColumn(
+  agencyId: string,
+  columns: WorkflowColumn[],
+  column: WorkflowColumn,
+  excludeTaskId?: string
+): Promise<number> {
+  const isFallback = columns.find((c) => c.coreStatus === column.coreStatus)?.key === column.key;
+  const otherColumnIds = columns
+    .filter((c) => c.coreStatus === column.coreStatus && c.key !== column.key && c.id)
+    .map((c) => c.id as string);
+  const where: Prisma.TaskWhereInput = {
+    agencyId,
+    status: column.coreStatus,
+    ...(excludeTaskId ? { id: { not: excludeTaskId } } : {}),
+    ...(isFallback
+      ? { OR: [{ workflowColumnId: null }, { workflowColumnId: { notIn: otherColumnIds } }] }
+      : { workflowColumnId: column.id }),
+  };
+  return prisma.task.count({ where });
+}
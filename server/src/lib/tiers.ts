@@ -33,6 +33,8 @@ export interface TierConfig {
   maxTeamUsers: number | null; // null = unlimited
   hasWhiteLabel: boolean;
   hasClientPortal: boolean;
+  /** Most pages a single site audit crawl may fetch per client. */
+  siteAuditPageLimit: number;
   /** Price in USD per month; null = custom */
   priceMonthlyUsd: number | null;
 }
@@ -64,6 +66,7 @@ export const TIERS: Record<TierId, TierConfig> = {
     maxTeamUsers: 0,
     hasWhiteLabel: true,
     hasClientPortal: true,
+    siteAuditPageLimit: 25,
     priceMonthlyUsd: 0,
   },
   solo: {
@@ -78,6 +81,7 @@ export const TIERS: Record<TierId, TierConfig> = {
     maxTeamUsers: 1,
     hasWhiteLabel: true,
     hasClientPortal: true,
+    siteAuditPageLimit: 250,
     priceMonthlyUsd: 147,
   },
   starter: {
@@ -92,6 +96,7 @@ export const TIERS: Record<TierId, TierConfig> = {
     maxTeamUsers: 3,
     hasWhiteLabel: true,
     hasClientPortal: true,
+    siteAuditPageLimit: 500,
     priceMonthlyUsd: 297,
   },
   growth: {
@@ -106,6 +111,7 @@ export const TIERS: Record<TierId, TierConfig> = {
     maxTeamUsers: 5,
     hasWhiteLabel: true,
     hasClientPortal: true,
+    siteAuditPageLimit: 1000,
     priceMonthlyUsd: 597,
   },
   pro: {
@@ -120,6 +126,7 @@ export const TIERS: Record<TierId, TierConfig> = {
     maxTeamUsers: 15,
     hasWhiteLabel: true,
     hasClientPortal: true,
+    siteAuditPageLimit: 2500,
     priceMonthlyUsd: 997,
   },
   enterprise: {
@@ -134,6 +141,7 @@ export const TIERS: Record<TierId, TierConfig> = {
     maxTeamUsers: null,
     hasWhiteLabel: true,
     hasClientPortal: true,
+    siteAuditPageLimit: 10000,
     priceMonthlyUsd: null,
   },
   business_lite: {
@@ -148,6 +156,7 @@ export const TIERS: Record<TierId, TierConfig> = {
     maxTeamUsers: 1,
     hasWhiteLabel: false,
     hasClientPortal: false,
+    siteAuditPageLimit: 100,
     priceMonthlyUsd: 79,
   },
   business_pro: {
@@ -162,6 +171,7 @@ export const TIERS: Record<TierId, TierConfig> = {
     maxTeamUsers: 5,
     hasWhiteLabel: false,
     hasClientPortal: false,
+    siteAuditPageLimit: 500,
     priceMonthlyUsd: 197,
   },
 };
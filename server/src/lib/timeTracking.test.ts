@@ -0,0 +1,83 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  TIME_ENTRY_MAX_MINUTES,
+  getTimeEntryMinutes,
+  parseReportMonth,
+  parseTechnicalHoursPerMonth,
+  summarizeTimeEntries,
+  timeEntriesToCsv,
+} from "./timeTracking.js";
+
+const now = new Date("2026-04-15T12:00:00.000Z");
+
+const entry = (overrides: Partial<Parameters<typeof summarizeTimeEntries>[0][number]> = {}) => ({
+  taskId: "t1",
+  userId: "u1",
+  startedAt: new Date("2026-04-15T10:00:00.000Z"),
+  endedAt: new Date("2026-04-15T11:30:00.000Z"),
+  durationMinutes: 90,
+  billable: true,
+  task: { title: "Fix title tags", estimatedHours: 2 },
+  user: { name: "Sam", email: "sam@example.com" },
+  ...overrides,
+});
+
+test("getTimeEntryMinutes counts running timers up to now and caps them", () => {
+  assert.equal(getTimeEntryMinutes(entry(), now), 90);
+  assert.equal(getTimeEntryMinutes(entry({ endedAt: null, durationMinutes: null }), now), 120);
+  assert.equal(
+    getTimeEntryMinutes(entry({ startedAt: new Date("2026-04-10T00:00:00.000Z"), endedAt: null, durationMinutes: null }), now),
+    TIME_ENTRY_MAX_MINUTES
+  );
+});
+
+test("parseReportMonth returns a UTC calendar month and falls back to the current one", () => {
+  const march = parseReportMonth("2026-03", now);
+  assert.equal(march.month, "2026-03");
+  assert.equal(march.start.toISOString(), "2026-03-01T00:00:00.000Z");
+  assert.equal(march.end.toISOString(), "2026-04-01T00:00:00.000Z");
+  assert.equal(parseReportMonth("2026-13", now).month, "2026-04");
+  assert.equal(parseReportMonth(undefined, now).month, "2026-04");
+  assert.equal(parseReportMonth("2025-12", now).end.toISOString(), "2026-01-01T00:00:00.000Z");
+});
+
+test("parseTechnicalHoursPerMonth reads the account info blob", () => {
+  assert.equal(parseTechnicalHoursPerMonth(JSON.stringify({ technicalHoursPerMonth: "10" })), 10);
+  assert.equal(parseTechnicalHoursPerMonth(JSON.stringify({ technicalHoursPerMonth: "" })), null);
+  assert.equal(parseTechnicalHoursPerMonth(JSON.stringify({})), null);
+  assert.equal(parseTechnicalHoursPerMonth("not json"), null);
+  assert.equal(parseTechnicalHoursPerMonth(null), null);
+});
+
+test("summarizeTimeEntries totals by task and user and separates billable time", () => {
+  const summary = summarizeTimeEntries(
+    [
+      entry(),
+      entry({ durationMinutes: 30, billable: false }),
+      entry({ taskId: "t2", userId: "u2", durationMinutes: 45, task: { title: "Write blog post", estimatedHours: null }, user: { name: null, email: "jo@example.com" } }),
+    ],
+    now
+  );
+  assert.equal(summary.totalMinutes, 165);
+  assert.equal(summary.billableMinutes, 135);
+  assert.deepEqual(
+    summary.byTask.map((t) => [t.taskId, t.minutes, t.billableMinutes]),
+    [
+      ["t1", 120, 90],
+      ["t2", 45, 45],
+    ]
+  );
+  assert.deepEqual(
+    summary.byUser.map((u) => [u.name, u.minutes]),
+    [
+      ["Sam", 120],
+      ["jo@example.com", 45],
+    ]
+  );
+});
+
+test("timeEntriesToCsv writes hours with two decimals and guards formula cells", () => {
+  const csv = timeEntriesToCsv([{ ...entry({ durationMinutes: 20 }), notes: "=cmd", source: "MANUAL" }], now);
+  assert.equal(csv, "Date,Task,User,Hours,Billable,Source,Notes\r\n2026-04-15,Fix title tags,Sam,0.33,Yes,Manual,'=cmd\r\n");
+});
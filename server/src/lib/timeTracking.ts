@@ -0,0 +1,177 @@
+import { prisma } from "./prisma.js";
+import { toCsvCell } from "./auditLog.js";
+
+/** Longest single entry accepted (manual entries and timers left running overnight are capped here). */
+export const TIME_ENTRY_MAX_MINUTES = 12 * 60;
+
+export type TimeEntryLike = {
+  startedAt: Date;
+  endedAt: Date | null;
+  durationMinutes: number | null;
+  billable: boolean;
+};
+
+export type TimeEntryForSummary = TimeEntryLike & {
+  taskId: string;
+  userId: string;
+  task: { title: string; estimatedHours: number | null };
+  user: { name: string | null; email: string };
+};
+
+export type TimeSummaryByTask = { taskId: string; title: string; estimatedHours: number | null; minutes: number; billableMinutes: number };
+export type TimeSummaryByUser = { userId: string; name: string; minutes: number; billableMinutes: number };
+
+export type TimeEntrySummary = {
+  totalMinutes: number;
+  billableMinutes: number;
+  byTask: TimeSummaryByTask[];
+  byUser: TimeSummaryByUser[];
+};
+
+export type ClientMonthlyHours = TimeEntrySummary & {
+  month: string;
+  startDate: string;
+  endDate: string;
+  /** `technicalHoursPerMonth` from the client's account info; null when not set. */
+  allowanceHours: number | null;
+};
+
+/** Minutes for an entry; a running timer counts up to `now` (capped at TIME_ENTRY_MAX_MINUTES). */
+export function getTimeEntryMinutes(entry: TimeEntryLike, now: Date = new Date()): number {
+  if (entry.durationMinutes != null) return Math.max(0, entry.durationMinutes);
+  const end = entry.endedAt ?? now;
+  const minutes = Math.round((end.getTime() - entry.startedAt.getTime()) / 60_000);
+  return Math.min(TIME_ENTRY_MAX_MINUTES, Math.max(0, minutes));
+}
+
+export function formatMinutesAsHours(minutes: number): string {
+  return (Math.round((minutes / 60) * 100) / 100).toFixed(2);
+}
+
+/**
+ * Calendar month for the hours report as a UTC range. Accepts "YYYY-MM"; anything else falls back to the month of `now`.
+ */
+export function parseReportMonth(value: unknown, now: Date = new Date()): { month: string; start: Date; end: Date } {
+  const match = typeof value === "string" ? /^(\d{4})-(0[1-9]|1[0-2])$/.exec(value.trim()) : null;
+  const start = match
+    ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  return { month: start.toISOString().slice(0, 7), start, end };
+}
+
+/** Monthly technical hours promised in the client's account info (stored as a string by the account form). */
+export function parseTechnicalHoursPerMonth(accountInfo: string | null | undefined): number | null {
+  if (!accountInfo) return null;
+  try {
+    const parsed = JSON.parse(accountInfo);
+    const hours = Number(parsed?.technicalHoursPerMonth);
+    return parsed?.technicalHoursPerMonth !== "" && Number.isFinite(hours) && hours > 0 ? hours : null;
+  } catch {
+    return null;
+  }
+}
+
+export function summarizeTimeEntries(entries: TimeEntryForSummary[], now: Date = new Date()): TimeEntrySummary {
+  const byTask = new Map<string, TimeSummaryByTask>();
+  const byUser = new Map<string, TimeSummaryByUser>();
+  let totalMinutes = 0;
+  let billableMinutes = 0;
+  for (const entry of entries) {
+    const minutes = getTimeEntryMinutes(entry, now);
+    const billable = entry.billable ? minutes : 0;
+    totalMinutes += minutes;
+    billableMinutes += billable;
+
+    const task = byTask.get(entry.taskId) ?? {
+      taskId: entry.taskId,
+      title: entry.task.title,
+      estimatedHours: entry.task.estimatedHours,
+      minutes: 0,
+      billableMinutes: 0,
+    };
+    task.minutes += minutes;
+    task.billableMinutes += billable;
+    byTask.set(entry.taskId, task);
+
+    const user = byUser.get(entry.userId) ?? {
+      userId: entry.userId,
+      name: entry.user.name || entry.user.email,
+      minutes: 0,
+      billableMinutes: 0,
+    };
+    user.minutes += minutes;
+    user.billableMinutes += billable;
+    byUser.set(entry.userId, user);
+  }
+  return {
+    totalMinutes,
+    billableMinutes,
+    byTask: [...byTask.values()].sort((a, b) => b.minutes - a.minutes),
+    byUser: [...byUser.values()].sort((a, b) => b.minutes - a.minutes),
+  };
+}
+
+const timeEntryReportSelect = {
+  id: true,
+  taskId: true,
+  userId: true,
+  startedAt: true,
+  endedAt: true,
+  durationMinutes: true,
+  billable: true,
+  notes: true,
+  source: true,
+  task: { select: { title: true, estimatedHours: true } },
+  user: { select: { name: true, email: true } },
+} as const;
+
+/** Time entries for a client's tasks that started within the month, oldest first. */
+export async function getClientMonthTimeEntries(clientId: string, month?: unknown) {
+  const range = parseReportMonth(month);
+  const entries = await prisma.taskTimeEntry.findMany({
+    where: { task: { clientId }, startedAt: { gte: range.start, lt: range.end } },
+    orderBy: { startedAt: "asc" },
+    select: timeEntryReportSelect,
+  });
+  return { range, entries };
+}
+
+export async function getClientMonthlyHours(clientId: string, month?: unknown): Promise<ClientMonthlyHours> {
+  const [{ range, entries }, client] = await Promise.all([
+    getClientMonthTimeEntries(clientId, month),
+    prisma.client.findUnique({ where: { id: clientId }, select: { accountInfo: true } }),
+  ]);
+  return {
+    month: range.month,
+    startDate: range.start.toISOString().slice(0, 10),
+    endDate: new Date(range.end.getTime() - 86_400_000).toISOString().slice(0, 10),
+    allowanceHours: parseTechnicalHoursPerMonth(client?.accountInfo),
+    ...summarizeTimeEntries(entries),
+  };
+}
+
+export const TIME_ENTRY_CSV_COLUMNS = ["Date", "Task", "User", "Hours", "Billable", "Source", "Notes"] as const;
+
+export function timeEntriesToCsv(
+  rows: Array<TimeEntryForSummary & { notes: string | null; source: string }>,
+  now: Date = new Date()
+): string {
+  const lines = [TIME_ENTRY_CSV_COLUMNS.join(",")];
+  for (const row of rows) {
+    lines.push(
+      [
+        row.startedAt.toISOString().slice(0, 10),
+        row.task.title,
+        row.user.name || row.user.email,
+        formatMinutesAsHours(getTimeEntryMinutes(row, now)),
+        row.billable ? "Yes" : "No",
+        row.source === "MANUAL" ? "Manual" : "Timer",
+        row.notes,
+      ]
+        .map(toCsvCell)
+        .join(",")
+    );
+  }
+  return `${lines.join("\r\n")}\r\n`;
+}
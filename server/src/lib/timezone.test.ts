@@ -0,0 +1,66 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { addCalendarMonths, getZonedParts, timeZoneForLocation, zonedTimeToUtc } from "./timezone.js";
+import { calculateNextLocalMapRunTime, calculateNextRunTime } from "./reportScheduler.js";
+
+const LA = "America/Los_Angeles";
+
+test("zonedTimeToUtc applies the offset in effect on that date", () => {
+  // PST (UTC-8) in January, PDT (UTC-7) in July.
+  assert.equal(zonedTimeToUtc({ year: 2026, month: 1, day: 12, hour: 9, minute: 0 }, LA).toISOString(), "2026-01-12T17:00:00.000Z");
+  assert.equal(zonedTimeToUtc({ year: 2026, month: 7, day: 13, hour: 9, minute: 0 }, LA).toISOString(), "2026-07-13T16:00:00.000Z");
+});
+
+test("zonedTimeToUtc handles DST gaps and repeated hours", () => {
+  // 2026-03-08 02:30 does not exist in Los Angeles; it runs an hour later on the wall clock.
+  assert.equal(zonedTimeToUtc({ year: 2026, month: 3, day: 8, hour: 2, minute: 30 }, LA).toISOString(), "2026-03-08T10:30:00.000Z");
+  // 2026-11-01 01:30 happens twice; the first (PDT) occurrence wins.
+  assert.equal(zonedTimeToUtc({ year: 2026, month: 11, day: 1, hour: 1, minute: 30 }, LA).toISOString(), "2026-11-01T08:30:00.000Z");
+});
+
+test("calculateNextRunTime keeps 09:00 Monday in the schedule's zone across DST", () => {
+  // Friday 2026-03-06 12:00 UTC; the next Monday (03-09) is after the spring-forward change.
+  const now = new Date("2026-03-06T12:00:00.000Z");
+  const next = calculateNextRunTime("weekly", 1, undefined, "09:00", LA, now);
+  assert.equal(next.toISOString(), "2026-03-09T16:00:00.000Z");
+  const local = getZonedParts(next, LA);
+  assert.deepEqual([local.weekday, local.hour, local.minute], [1, 9, 0]);
+
+  // Same wall-clock time in New York is three hours earlier in UTC.
+  assert.equal(
+    calculateNextRunTime("weekly", 1, undefined, "09:00", "America/New_York", now).toISOString(),
+    "2026-03-09T13:00:00.000Z"
+  );
+});
+
+test("calculateNextRunTime rolls to next week/month once today's slot has passed", () => {
+  // Monday 2026-03-09 17:00 UTC = 10:00 PDT, after the 09:00 slot.
+  const now = new Date("2026-03-09T17:00:00.000Z");
+  assert.equal(calculateNextRunTime("weekly", 1, undefined, "09:00", LA, now).toISOString(), "2026-03-16T16:00:00.000Z");
+
+  // Day 31 clamps to the last day of shorter months.
+  const endOfJan = new Date("2026-01-31T20:00:00.000Z"); // Jan 31 12:00 PST
+  assert.equal(
+    calculateNextRunTime("monthly", undefined, 31, "09:00", LA, endOfJan).toISOString(),
+    "2026-02-28T17:00:00.000Z"
+  );
+});
+
+test("calculateNextLocalMapRunTime picks the 1st/15th in the schedule's zone", () => {
+  const now = new Date("2026-03-10T12:00:00.000Z");
+  assert.equal(calculateNextLocalMapRunTime("biweekly", "09:00", LA, now).toISOString(), "2026-03-15T16:00:00.000Z");
+  assert.equal(calculateNextLocalMapRunTime("monthly", "09:00", LA, now).toISOString(), "2026-04-01T16:00:00.000Z");
+});
+
+test("addCalendarMonths clamps to shorter months", () => {
+  assert.deepEqual(addCalendarMonths({ year: 2026, month: 1, day: 31 }, 1), { year: 2026, month: 2, day: 28 });
+  assert.deepEqual(addCalendarMonths({ year: 2026, month: 11, day: 30 }, 3), { year: 2027, month: 2, day: 28 });
+});
+
+test("timeZoneForLocation maps US states and countries", () => {
+  assert.equal(timeZoneForLocation({ state: "CA" }), LA);
+  assert.equal(timeZoneForLocation({ state: "new york", country: "United States" }), "America/New_York");
+  assert.equal(timeZoneForLocation({ state: "Ontario", country: "Canada" }), "America/Toronto");
+  assert.equal(timeZoneForLocation({ country: "UK" }), "Europe/London");
+  assert.equal(timeZoneForLocation({ state: "", country: "Atlantis" }), null);
+});
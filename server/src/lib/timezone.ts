@@ -0,0 +1,258 @@
+/**
+ * IANA timezone helpers for schedules.
+ * Report schedules and recurring task rules store a wall-clock time ("09:00 Monday") plus a timezone;
+ * these helpers turn that into the correct UTC instant, including across DST changes.
+ * Schedules created before timezones existed have no zone and keep running in the server's zone.
+ */
+import { prisma } from "./prisma.js";
+
+export type ZonedDateParts = {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  /** 0-6, Sunday = 0 */
+  weekday: number;
+};
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+// Predominant zone per state; good enough as a default the user can override.
+const US_STATE_TIME_ZONES: Record<string, string> = {
+  AL: "America/Chicago", AK: "America/Anchorage", AZ: "America/Phoenix", AR: "America/Chicago",
+  CA: "America/Los_Angeles", CO: "America/Denver", CT: "America/New_York", DE: "America/New_York",
+  DC: "America/New_York", FL: "America/New_York", GA: "America/New_York", HI: "Pacific/Honolulu",
+  ID: "America/Boise", IL: "America/Chicago", IN: "America/Indiana/Indianapolis", IA: "America/Chicago",
+  KS: "America/Chicago", KY: "America/New_York", LA: "America/Chicago", ME: "America/New_York",
+  MD: "America/New_York", MA: "America/New_York", MI: "America/Detroit", MN: "America/Chicago",
+  MS: "America/Chicago", MO: "America/Chicago", MT: "America/Denver", NE: "America/Chicago",
+  NV: "America/Los_Angeles", NH: "America/New_York", NJ: "America/New_York", NM: "America/Denver",
+  NY: "America/New_York", NC: "America/New_York", ND: "America/Chicago", OH: "America/New_York",
+  OK: "America/Chicago", OR: "America/Los_Angeles", PA: "America/New_York", RI: "America/New_York",
+  SC: "America/New_York", SD: "America/Chicago", TN: "America/Chicago", TX: "America/Chicago",
+  UT: "America/Denver", VT: "America/New_York", VA: "America/New_York", WA: "America/Los_Angeles",
+  WV: "America/New_York", WI: "America/Chicago", WY: "America/Denver",
+};
+
+const US_STATE_NAMES: Record<string, string> = {
+  alabama: "AL", alaska: "AK", arizona: "AZ", arkansas: "AR", california: "CA", colorado: "CO",
+  connecticut: "CT", delaware: "DE", "district of columbia": "DC", florida: "FL", georgia: "GA",
+  hawaii: "HI", idaho: "ID", illinois: "IL", indiana: "IN", iowa: "IA", kansas: "KS", kentucky: "KY",
+  louisiana: "LA", maine: "ME", maryland: "MD", massachusetts: "MA", michigan: "MI", minnesota: "MN",
+  mississippi: "MS", missouri: "MO", montana: "MT", nebraska: "NE", nevada: "NV", "new hampshire": "NH",
+  "new jersey": "NJ", "new mexico": "NM", "new york": "NY", "north carolina": "NC", "north dakota": "ND",
+  ohio: "OH", oklahoma: "OK", oregon: "OR", pennsylvania: "PA", "rhode island": "RI",
+  "south carolina": "SC", "south dakota": "SD", tennessee: "TN", texas: "TX", utah: "UT", vermont: "VT",
+  virginia: "VA", washington: "WA", "west virginia": "WV", wisconsin: "WI", wyoming: "WY",
+};
+
+const COUNTRY_TIME_ZONES: Record<string, string> = {
+  us: "America/New_York", usa: "America/New_York", "united states": "America/New_York",
+  "united states of america": "America/New_York",
+  ca: "America/Toronto", canada: "America/Toronto",
+  gb: "Europe/London", uk: "Europe/London", "united kingdom": "Europe/London", england: "Europe/London",
+  ie: "Europe/Dublin", ireland: "Europe/Dublin",
+  au: "Australia/Sydney", australia: "Australia/Sydney",
+  nz: "Pacific/Auckland", "new zealand": "Pacific/Auckland",
+  in: "Asia/Kolkata", india: "Asia/Kolkata",
+  de: "Europe/Berlin", germany: "Europe/Berlin",
+  fr: "Europe/Paris", france: "Europe/Paris",
+  es: "Europe/Madrid", spain: "Europe/Madrid",
+  it: "Europe/Rome", italy: "Europe/Rome",
+  nl: "Europe/Amsterdam", netherlands: "Europe/Amsterdam",
+  ph: "Asia/Manila", philippines: "Asia/Manila",
+  za: "Africa/Johannesburg", "south africa": "Africa/Johannesburg",
+  mx: "America/Mexico_City", mexico: "America/Mexico_City",
+  br: "America/Sao_Paulo", brazil: "America/Sao_Paulo",
+  ae: "Asia/Dubai", "united arab emirates": "Asia/Dubai",
+  sg: "Asia/Singapore", singapore: "Asia/Singapore",
+};
+
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || !value.trim()) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Zone the server process runs in; used for schedules saved before they carried a timezone. */
+export function getServerTimeZone(): string {
+  const resolved = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return isValidTimeZone(resolved) ? resolved : "UTC";
+}
+
+export function resolveTimeZone(value: string | null | undefined): string {
+  return isValidTimeZone(value) ? value : getServerTimeZone();
+}
+
+/**
+ * Store `zone` on report schedules and recurring task rules saved before schedules carried a timezone.
+ * Runs at startup before the job scheduler, so those rows keep their wall-clock time if the API moves hosts.
+ */
+export async function backfillScheduleTimeZones(
+  zone: string = getServerTimeZone()
+): Promise<{ reportSchedules: number; recurringRules: number }> {
+  const [reportSchedules, recurringRules] = await prisma.$transaction([
+    prisma.reportSchedule.updateMany({ where: { timeZone: null }, data: { timeZone: zone } }),
+    prisma.recurringTaskRule.updateMany({ where: { timeZone: null }, data: { timeZone: zone } }),
+  ]);
+  return { reportSchedules: reportSchedules.count, recurringRules: recurringRules.count };
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      weekday: "short",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Wall-clock date and time of an instant in the given zone. */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS[parts.weekday] ?? 0,
+  };
+}
+
+/** Offset of the zone from UTC at the given instant, in ms (e.g. -7h for PDT). */
+function getZoneOffsetMs(instant: number, timeZone: string): number {
+  const p = getZonedParts(new Date(instant), timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * UTC instant for a wall-clock time in a zone.
+ * Times skipped by a spring-forward change run at the same offset as before the change (02:30 → 03:30);
+ * times repeated by a fall-back change resolve to the first occurrence.
+ */
+export function zonedTimeToUtc(
+  wallClock: { year: number; month: number; day: number; hour: number; minute: number },
+  timeZone: string
+): Date {
+  const target = Date.UTC(wallClock.year, wallClock.month - 1, wallClock.day, wallClock.hour, wallClock.minute, 0, 0);
+  const offsetBefore = getZoneOffsetMs(target - DAY_MS, timeZone);
+  const offsetAfter = getZoneOffsetMs(target + DAY_MS, timeZone);
+
+  for (const offset of [offsetBefore, offsetAfter]) {
+    const candidate = target - offset;
+    if (getZoneOffsetMs(candidate, timeZone) === offset) return new Date(candidate);
+  }
+  return new Date(target - offsetBefore);
+}
+
+/** Calendar date `days` after the given one (handles month/year rollover). */
+export function addCalendarDays(date: { year: number; month: number; day: number }, days: number) {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+/** Same day-of-month `months` later, clamped to the last day of shorter months. */
+export function addCalendarMonths(date: { year: number; month: number; day: number }, months: number) {
+  const first = new Date(Date.UTC(date.year, date.month - 1 + months, 1));
+  const year = first.getUTCFullYear();
+  const month = first.getUTCMonth() + 1;
+  return { year, month, day: Math.min(date.day, daysInMonth(year, month)) };
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+export function parseTimeOfDay(value: string | null | undefined): { hour: number; minute: number } {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(String(value ?? "").trim());
+  if (!match) return { hour: 9, minute: 0 };
+  return {
+    hour: Math.min(23, Number(match[1])),
+    minute: Math.min(59, Number(match[2])),
+  };
+}
+
+/** Best-effort zone from a US state (code or name) and/or country. */
+export function timeZoneForLocation(location: { state?: string | null; country?: string | null }): string | null {
+  const rawState = String(location.state ?? "").trim();
+  const country = String(location.country ?? "").trim().toLowerCase();
+  const isUs = !country || ["us", "usa", "united states", "united states of america"].includes(country);
+
+  if (rawState && isUs) {
+    const code = rawState.length === 2 ? rawState.toUpperCase() : US_STATE_NAMES[rawState.toLowerCase()];
+    if (code && US_STATE_TIME_ZONES[code]) return US_STATE_TIME_ZONES[code];
+  }
+  if (country && COUNTRY_TIME_ZONES[country]) return COUNTRY_TIME_ZONES[country];
+  return null;
+}
+
+function parseAccountInfo(value: string | null | undefined): Record<string, unknown> {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Default timezone for a new schedule: the client's primary location, then its agency's address,
+ * then the server zone.
+ */
+export async function resolveDefaultTimeZone(params: { clientId?: string | null; agencyId?: string | null }): Promise<string> {
+  let agencyId = params.agencyId ?? null;
+
+  if (params.clientId) {
+    const client = await prisma.client.findUnique({
+      where: { id: params.clientId },
+      select: {
+        accountInfo: true,
+        belongsToAgencyId: true,
+        user: { select: { memberships: { select: { agencyId: true }, take: 1 } } },
+      },
+    });
+    if (client) {
+      const info = parseAccountInfo(client.accountInfo);
+      const fromClient = timeZoneForLocation({ state: String(info.primaryLocationState ?? "") });
+      if (fromClient) return fromClient;
+      agencyId = agencyId ?? client.belongsToAgencyId ?? client.user?.memberships[0]?.agencyId ?? null;
+    }
+  }
+
+  if (agencyId) {
+    const agency = await prisma.agency.findUnique({
+      where: { id: agencyId },
+      select: { state: true, country: true },
+    });
+    const fromAgency = agency ? timeZoneForLocation(agency) : null;
+    if (fromAgency) return fromAgency;
+  }
+
+  return getServerTimeZone();
+}
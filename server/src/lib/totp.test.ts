@@ -0,0 +1,75 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUri,
+  consumeRecoveryCode,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  hashRecoveryCode,
+  parseStoredRecoveryCodes,
+  totpStep,
+  verifyTotp,
+} from "./totp.js";
+
+// RFC 6238 Appendix B test secret (ASCII "12345678901234567890")
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890", "ascii"));
+
+test("base32 round-trips arbitrary bytes", () => {
+  const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255, 17, 42]);
+  assert.deepEqual(base32Decode(base32Encode(bytes)), bytes);
+  assert.equal(RFC_SECRET, "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+  assert.throws(() => base32Decode("not-base32!"));
+});
+
+test("generateTotp matches the RFC 6238 SHA-1 vectors (last six digits)", () => {
+  assert.equal(generateTotp(RFC_SECRET, totpStep(59 * 1000)), "287082");
+  assert.equal(generateTotp(RFC_SECRET, totpStep(1111111109 * 1000)), "081804");
+  assert.equal(generateTotp(RFC_SECRET, totpStep(1234567890 * 1000)), "005924");
+  assert.equal(generateTotp(RFC_SECRET, totpStep(2000000000 * 1000)), "279037");
+});
+
+test("verifyTotp accepts adjacent steps, rejects replays and malformed codes", () => {
+  const secret = generateTotpSecret();
+  const now = 1_700_000_000_000;
+  const step = totpStep(now);
+
+  assert.equal(verifyTotp(secret, generateTotp(secret, step), { now }), step);
+  assert.equal(verifyTotp(secret, generateTotp(secret, step - 1), { now }), step - 1);
+  assert.equal(verifyTotp(secret, generateTotp(secret, step + 1), { now }), step + 1);
+  assert.equal(verifyTotp(secret, generateTotp(secret, step - 3), { now }), null);
+
+  const code = generateTotp(secret, step);
+  assert.equal(verifyTotp(secret, code, { now, lastUsedStep: step }), null);
+  assert.equal(verifyTotp(secret, `${code.slice(0, 3)} ${code.slice(3)}`, { now }), step);
+  assert.equal(verifyTotp(secret, "12345", { now }), null);
+  assert.equal(verifyTotp(secret, "abcdef", { now }), null);
+});
+
+test("buildOtpAuthUri encodes issuer and account", () => {
+  const uri = buildOtpAuthUri({ secret: "JBSWY3DPEHPK3PXP", accountName: "jo@example.com", issuer: "Acme SEO" });
+  assert.ok(uri.startsWith("otpauth://totp/Acme%20SEO:jo%40example.com?"));
+  const query = new URLSearchParams(uri.split("?")[1]);
+  assert.equal(query.get("secret"), "JBSWY3DPEHPK3PXP");
+  assert.equal(query.get("issuer"), "Acme SEO");
+  assert.equal(query.get("digits"), "6");
+});
+
+test("recovery codes are single-use and compared case-insensitively", () => {
+  const codes = generateRecoveryCodes();
+  assert.equal(codes.length, 10);
+  assert.equal(new Set(codes).size, 10);
+  assert.match(codes[0], /^[0-9a-f]{5}-[0-9a-f]{5}$/);
+
+  const stored = codes.map(hashRecoveryCode);
+  const remaining = consumeRecoveryCode(stored, codes[3].toUpperCase().replace("-", ""));
+  assert.ok(remaining);
+  assert.equal(remaining.length, 9);
+  assert.equal(consumeRecoveryCode(remaining, codes[3]), null);
+  assert.equal(consumeRecoveryCode(stored, "00000-00000"), null);
+
+  assert.deepEqual(parseStoredRecoveryCodes(JSON.stringify(stored)), stored);
+  assert.deepEqual(parseStoredRecoveryCodes("nope"), []);
+});
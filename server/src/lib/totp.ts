@@ -0,0 +1,134 @@
+/**
+ * Time-based one-time passwords (RFC 6238: HMAC-SHA1, 6 digits, 30-second steps) and recovery codes.
+ * Recovery codes are stored as SHA-256 hashes and are single-use.
+ */
+import crypto from "crypto";
+
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+/** Steps accepted either side of "now" to tolerate clock drift between server and authenticator. */
+export const TOTP_WINDOW = 1;
+export const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = String(input).toUpperCase().replace(/[\s-]/g, "").replace(/=+$/, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 character");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** 160-bit secret, base32-encoded as authenticator apps expect. */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+export function totpStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+export function generateTotp(secret: string, step: number = totpStep()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const digest = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+export function normalizeOtpInput(code: string): string {
+  return String(code ?? "").replace(/[\s-]/g, "");
+}
+
+/**
+ * Returns the matched time step, or null. Steps at or before `lastUsedStep` are rejected so a code
+ * cannot be replayed within its validity window.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: { now?: number; lastUsedStep?: number | null } = {}
+): number | null {
+  const candidate = normalizeOtpInput(code);
+  if (!/^\d+$/.test(candidate) || candidate.length !== TOTP_DIGITS) return null;
+  const current = totpStep(options.now ?? Date.now());
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset += 1) {
+    const step = current + offset;
+    if (options.lastUsedStep != null && step <= options.lastUsedStep) continue;
+    const expected = generateTotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(candidate))) return step;
+  }
+  return null;
+}
+
+export function buildOtpAuthUri(params: { secret: string; accountName: string; issuer: string }): string {
+  const issuer = params.issuer.trim() || "Dashboard";
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(params.accountName)}`;
+  const query = new URLSearchParams({
+    secret: params.secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${query.toString()}`;
+}
+
+/** Recovery codes look like "a1b2c-d3e4f"; comparison ignores case and the dash. */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+export function hashRecoveryCode(code: string): string {
+  const normalized = normalizeOtpInput(code).toLowerCase();
+  return crypto.createHash("sha256").update(normalized).digest("hex");
+}
+
+export function parseStoredRecoveryCodes(value: string | null | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((h): h is string => typeof h === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Returns the remaining hashes when `code` matches one of them, otherwise null. */
+export function consumeRecoveryCode(storedHashes: string[], code: string): string[] | null {
+  const hash = hashRecoveryCode(code);
+  const index = storedHashes.indexOf(hash);
+  if (index === -1) return null;
+  return [...storedHashes.slice(0, index), ...storedHashes.slice(index + 1)];
+}
@@ -0,0 +1,98 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import type { Prisma } from "@prisma/client";
+import { encryptSecret } from "./secretEncryption.js";
+import { generateTotp, generateTotpSecret, totpStep } from "./totp.js";
+import {
+  MAX_CHALLENGE_FAILURES,
+  MAX_TWO_FACTOR_FAILURES,
+  TWO_FACTOR_LOCK_MINUTES,
+  verifySecondFactor,
+} from "./twoFactor.js";
+
+const NOW = new Date("2026-05-18T09:00:00.000Z");
+
+process.env.DATA_ENCRYPTION_KEY = randomBytes(32).toString("base64");
+
+function createUserStore(failedAttempts = 0, storeSecret: (secret: string) => string = (secret) => encryptSecret(secret)!) {
+  const seed = generateTotpSecret();
+  const user = {
+    twoFactorEnabled: true,
+    twoFactorSecret: storeSecret(seed),
+    twoFactorRecoveryCodes: null as string | null,
+    twoFactorLastUsedStep: null as number | null,
+    twoFactorFailedAttempts: failedAttempts,
+    twoFactorLockedUntil: null as Date | null,
+  };
+  const apply = (data: Record<string, any>) => {
+    for (const [key, value] of Object.entries(data)) {
+      (user as any)[key] = value && typeof value === "object" && "increment" in value ? (user as any)[key] + value.increment : value;
+    }
+  };
+  const prismaClient = {
+    user: {
+      findUnique: async () => ({ ...user }),
+      update: async ({ data }: { data: Record<string, any> }) => {
+        apply(data);
+        return { ...user };
+      },
+      updateMany: async ({ data }: { data: Record<string, any> }) => {
+        apply(data);
+        return { count: 1 };
+      },
+    },
+  } as unknown as Prisma.TransactionClient;
+  return { user, prismaClient, validCode: () => generateTotp(seed, totpStep()) };
+}
+
+test("the stored seed is encrypted, and seeds saved before encryption still verify", async () => {
+  const encrypted = createUserStore();
+  assert.match(encrypted.user.twoFactorSecret, /^enc:v1:/);
+  const result = await verifySecondFactor("u1", encrypted.validCode(), { prismaClient: encrypted.prismaClient, now: NOW });
+  assert.deepEqual(result, { ok: true, method: "totp" });
+
+  const legacy = createUserStore(0, (secret) => secret);
+  const legacyResult = await verifySecondFactor("u1", legacy.validCode(), { prismaClient: legacy.prismaClient, now: NOW });
+  assert.deepEqual(legacyResult, { ok: true, method: "totp" });
+});
+
+test("a correct code resets the failed-attempt count", async () => {
+  const store = createUserStore(2);
+  const result = await verifySecondFactor("u1", store.validCode(), { prismaClient: store.prismaClient, now: NOW });
+  assert.deepEqual(result, { ok: true, method: "totp" });
+  assert.equal(store.user.twoFactorFailedAttempts, 0);
+});
+
+test("after too many wrong codes even a correct code is refused until the lock ends", async () => {
+  const store = createUserStore();
+  for (let i = 1; i < MAX_TWO_FACTOR_FAILURES; i += 1) {
+    const result = await verifySecondFactor("u1", "000000", { prismaClient: store.prismaClient, now: NOW });
+    assert.deepEqual(result, { ok: false, reason: "invalid" });
+  }
+  const last = await verifySecondFactor("u1", "000000", { prismaClient: store.prismaClient, now: NOW });
+  assert.equal(last.ok === false && last.reason, "locked");
+
+  const valid = await verifySecondFactor("u1", store.validCode(), { prismaClient: store.prismaClient, now: NOW });
+  assert.equal(valid.ok === false && valid.reason, "locked");
+
+  const later = new Date(NOW.getTime() + (TWO_FACTOR_LOCK_MINUTES + 1) * 60 * 1000);
+  const afterLock = await verifySecondFactor("u1", store.validCode(), { prismaClient: store.prismaClient, now: later });
+  assert.equal(afterLock.ok, true);
+});
+
+test("a login challenge stops accepting codes after its own limit", async () => {
+  const store = createUserStore();
+  const challenge = { userId: "u1", failedAttemptsAtIssue: 0 };
+  for (let i = 0; i < MAX_CHALLENGE_FAILURES; i += 1) {
+    const result = await verifySecondFactor("u1", "000000", { challenge, prismaClient: store.prismaClient, now: NOW });
+    assert.equal(result.ok, false);
+  }
+  const valid = await verifySecondFactor("u1", store.validCode(), { challenge, prismaClient: store.prismaClient, now: NOW });
+  assert.deepEqual(valid, { ok: false, reason: "challenge_spent" });
+
+  // A fresh challenge (after the password again) still works while the account isn't locked.
+  const fresh = { userId: "u1", failedAttemptsAtIssue: store.user.twoFactorFailedAttempts };
+  const retry = await verifySecondFactor("u1", store.validCode(), { challenge: fresh, prismaClient: store.prismaClient, now: NOW });
+  assert.equal(retry.ok, true);
+});
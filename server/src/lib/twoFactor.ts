@@ -0,0 +1,176 @@
+/**
+ * Two-factor authentication state for users: whether an agency requires enrollment,
+ * short-lived login challenge and step-up tokens, and verification of a TOTP or recovery code.
+ * Wrong codes are counted per user and per login challenge so a stolen password can't be used to guess codes.
+ */
+import jwt from "jsonwebtoken";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma.js";
+import { getJwtSecret } from "../middleware/auth.js";
+import { decryptSecret } from "./secretEncryption.js";
+import { consumeRecoveryCode, parseStoredRecoveryCodes, verifyTotp } from "./totp.js";
+
+export const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+export const STEP_UP_TTL_SECONDS = 10 * 60;
+export const STEP_UP_HEADER = "x-step-up-token";
+
+/** Wrong codes in a row before codes are refused for TWO_FACTOR_LOCK_MINUTES. */
+export const MAX_TWO_FACTOR_FAILURES = 5;
+export const TWO_FACTOR_LOCK_MINUTES = 15;
+/** Attempts one login challenge allows after a wrong code; then the password has to be entered again. */
+export const MAX_CHALLENGE_FAILURES = 3;
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+const CHALLENGE_PURPOSE = "2fa_login";
+const STEP_UP_PURPOSE = "step_up";
+
+export type TwoFactorChallenge = {
+  userId: string;
+  /** The user's failed-attempt count when the challenge was issued. */
+  failedAttemptsAtIssue: number;
+};
+
+export type SecondFactorResult =
+  | { ok: true; method: "totp" | "recovery" }
+  | { ok: false; reason: "invalid" | "challenge_spent" }
+  | { ok: false; reason: "locked"; lockedUntil: Date };
+
+/** True when any agency the user belongs to enforces 2FA for its team. */
+export async function isTwoFactorRequiredForUser(userId: string): Promise<boolean> {
+  const count = await prisma.userAgency.count({
+    where: { userId, agency: { requireTwoFactor: true } },
+  });
+  return count > 0;
+}
+
+function signPurposeToken(
+  userId: string,
+  purpose: string,
+  ttlSeconds: number,
+  extra: Record<string, unknown> = {}
+): string {
+  return jwt.sign({ ...extra, userId, purpose }, getJwtSecret(), { expiresIn: ttlSeconds });
+}
+
+function verifyPurposeToken(token: string, purpose: string): (Record<string, unknown> & { userId: string }) | null {
+  try {
+    const decoded = jwt.verify(token, getJwtSecret()) as Record<string, unknown>;
+    if (decoded?.purpose !== purpose || typeof decoded.userId !== "string") return null;
+    return decoded as Record<string, unknown> & { userId: string };
+  } catch {
+    return null;
+  }
+}
+
+/** Issued after a correct password when the account has 2FA; exchanged for a session at /auth/login/2fa. */
+export function signTwoFactorChallenge(userId: string, failedAttempts: number): string {
+  return signPurposeToken(userId, CHALLENGE_PURPOSE, TWO_FACTOR_CHALLENGE_TTL_SECONDS, { failures: failedAttempts });
+}
+
+export function verifyTwoFactorChallenge(token: string): TwoFactorChallenge | null {
+  const decoded = verifyPurposeToken(token, CHALLENGE_PURPOSE);
+  if (!decoded) return null;
+  const failures = Number(decoded.failures);
+  return { userId: decoded.userId, failedAttemptsAtIssue: Number.isFinite(failures) ? failures : 0 };
+}
+
+/** Proof of a fresh second factor (or password), sent as X-Step-Up-Token on sensitive actions. */
+export function signStepUpToken(userId: string): { stepUpToken: string; expiresAt: string } {
+  return {
+    stepUpToken: signPurposeToken(userId, STEP_UP_PURPOSE, STEP_UP_TTL_SECONDS),
+    expiresAt: new Date(Date.now() + STEP_UP_TTL_SECONDS * 1000).toISOString(),
+  };
+}
+
+export function verifyStepUpToken(token: string, userId: string): boolean {
+  return verifyPurposeToken(token, STEP_UP_PURPOSE)?.userId === userId;
+}
+
+/** Response for a rejected code; `locked` answers 429 so clients can tell the user to wait. */
+export function secondFactorFailure(
+  result: Exclude<SecondFactorResult, { ok: true }>,
+  invalidStatus = 400
+): { status: number; message: string } {
+  if (result.reason === "locked") {
+    return {
+      status: 429,
+      message: `Too many incorrect codes. Try again after ${result.lockedUntil.toISOString()}.`,
+    };
+  }
+  if (result.reason === "challenge_spent") {
+    return { status: 401, message: "Too many incorrect codes. Please sign in again." };
+  }
+  return { status: invalidStatus, message: "Invalid authentication code" };
+}
+
+async function lockSecondFactor(db: Db, userId: string, now: Date): Promise<SecondFactorResult> {
+  const lockedUntil = new Date(now.getTime() + TWO_FACTOR_LOCK_MINUTES * 60 * 1000);
+  await db.user.update({
+    where: { id: userId },
+    data: { twoFactorLockedUntil: lockedUntil, twoFactorFailedAttempts: 0 },
+  });
+  return { ok: false, reason: "locked", lockedUntil };
+}
+
+/**
+ * Check a TOTP or recovery code for an enrolled user and record its use. Updates are conditional on the
+ * previously read state so two concurrent requests cannot both spend the same code.
+ * Every attempt is counted before the code is checked, so parallel guesses each use one of the allowed attempts;
+ * once they run out even a correct code is refused. Pass the login challenge to also enforce its own limit.
+ */
+export async function verifySecondFactor(
+  userId: string,
+  code: string,
+  options: { challenge?: TwoFactorChallenge; prismaClient?: Db; now?: Date } = {}
+): Promise<SecondFactorResult> {
+  const db = options.prismaClient ?? prisma;
+  const now = options.now ?? new Date();
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: {
+      twoFactorEnabled: true,
+      twoFactorSecret: true,
+      twoFactorRecoveryCodes: true,
+      twoFactorLastUsedStep: true,
+      twoFactorLockedUntil: true,
+    },
+  });
+  if (!user?.twoFactorEnabled || !user.twoFactorSecret) return { ok: false, reason: "invalid" };
+  if (user.twoFactorLockedUntil && user.twoFactorLockedUntil > now) {
+    return { ok: false, reason: "locked", lockedUntil: user.twoFactorLockedUntil };
+  }
+
+  const { twoFactorFailedAttempts: attempt } = await db.user.update({
+    where: { id: userId },
+    data: { twoFactorFailedAttempts: { increment: 1 } },
+    select: { twoFactorFailedAttempts: true },
+  });
+  if (attempt > MAX_TWO_FACTOR_FAILURES) return lockSecondFactor(db, userId, now);
+  if (options.challenge && attempt - options.challenge.failedAttemptsAtIssue > MAX_CHALLENGE_FAILURES) {
+    return { ok: false, reason: "challenge_spent" };
+  }
+
+  // The seed is stored encrypted; rows enrolled before encryption still hold plaintext, which decrypts unchanged.
+  const secret = decryptSecret(user.twoFactorSecret)!;
+  const step = verifyTotp(secret, code, { lastUsedStep: user.twoFactorLastUsedStep });
+  if (step !== null) {
+    const result = await db.user.updateMany({
+      where: { id: userId, twoFactorLastUsedStep: user.twoFactorLastUsedStep },
+      data: { twoFactorLastUsedStep: step, twoFactorFailedAttempts: 0 },
+    });
+    if (result.count > 0) return { ok: true, method: "totp" };
+  } else {
+    const remaining = consumeRecoveryCode(parseStoredRecoveryCodes(user.twoFactorRecoveryCodes), code);
+    if (remaining) {
+      const result = await db.user.updateMany({
+        where: { id: userId, twoFactorRecoveryCodes: user.twoFactorRecoveryCodes },
+        data: { twoFactorRecoveryCodes: JSON.stringify(remaining), twoFactorFailedAttempts: 0 },
+      });
+      if (result.count > 0) return { ok: true, method: "recovery" };
+    }
+  }
+
+  if (attempt >= MAX_TWO_FACTOR_FAILURES) return lockSecondFactor(db, userId, now);
+  return { ok: false, reason: "invalid" };
+}
@@ -0,0 +1,97 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  assertWebhookUrlAllowed,
+  buildWebhookEvent,
+  computeWebhookRetryDelayMs,
+  createWebhookEndpointSchema,
+  isAllowedWebhookUrl,
+  parseWebhookEvents,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from "./webhooks.js";
+
+test("signWebhookPayload is an HMAC-SHA256 over `<timestamp>.<body>`", () => {
+  const body = JSON.stringify({ hello: "world" });
+  const expected = crypto.createHmac("sha256", "whsec_test").update(`1700000000.${body}`).digest("hex");
+  assert.equal(signWebhookPayload("whsec_test", 1700000000, body), `t=1700000000,v1=${expected}`);
+});
+
+test("verifyWebhookSignature checks the secret, the body and the timestamp tolerance", () => {
+  const body = '{"type":"task.done"}';
+  const now = 1_700_000_000_000;
+  const header = signWebhookPayload("secret-a", now / 1000, body);
+
+  assert.equal(verifyWebhookSignature("secret-a", header, body, now), true);
+  assert.equal(verifyWebhookSignature("secret-b", header, body, now), false);
+  assert.equal(verifyWebhookSignature("secret-a", header, body + " ", now), false);
+  assert.equal(verifyWebhookSignature("secret-a", header, body, now + 10 * 60 * 1000), false);
+  assert.equal(verifyWebhookSignature("secret-a", "garbage", body, now), false);
+});
+
+test("computeWebhookRetryDelayMs backs off and stops after the last attempt", () => {
+  assert.equal(computeWebhookRetryDelayMs(1), 60 * 1000);
+  assert.equal(computeWebhookRetryDelayMs(2), 5 * 60 * 1000);
+  const delays = Array.from({ length: MAX_WEBHOOK_ATTEMPTS - 1 }, (_, i) => computeWebhookRetryDelayMs(i + 1)!);
+  assert.ok(delays.every((d, i) => i === 0 || d > delays[i - 1]));
+  assert.equal(computeWebhookRetryDelayMs(MAX_WEBHOOK_ATTEMPTS), null);
+  assert.equal(computeWebhookRetryDelayMs(0), null);
+});
+
+test("isAllowedWebhookUrl blocks private hosts only in production", () => {
+  const previous = process.env.NODE_ENV;
+  try {
+    process.env.NODE_ENV = "development";
+    assert.equal(isAllowedWebhookUrl("http://localhost:3000/hook"), true);
+    assert.equal(isAllowedWebhookUrl("ftp://example.com/hook"), false);
+
+    process.env.NODE_ENV = "production";
+    assert.equal(isAllowedWebhookUrl("https://hooks.zapier.com/hooks/catch/1/abc"), true);
+    assert.equal(isAllowedWebhookUrl("http://localhost:3000/hook"), false);
+    assert.equal(isAllowedWebhookUrl("http://10.0.0.5/hook"), false);
+    assert.equal(isAllowedWebhookUrl("http://172.20.1.1/hook"), false);
+    assert.equal(isAllowedWebhookUrl("http://192.168.1.10/hook"), false);
+    assert.equal(isAllowedWebhookUrl("http://169.254.169.254/latest"), false);
+    assert.equal(isAllowedWebhookUrl("http://[::1]/hook"), false);
+  } finally {
+    process.env.NODE_ENV = previous;
+  }
+});
+
+test("assertWebhookUrlAllowed resolves hosts in production", async () => {
+  const previous = process.env.NODE_ENV;
+  try {
+    process.env.NODE_ENV = "production";
+    await assert.rejects(assertWebhookUrlAllowed("http://localhost:3000/hook"), /public http/);
+    // Passes the hostname patterns but is still loopback once mapped back to IPv4.
+    await assert.rejects(assertWebhookUrlAllowed("http://[::ffff:127.0.0.1]/hook"), /private address/);
+    await assertWebhookUrlAllowed("https://93.184.216.34/hook");
+
+    process.env.NODE_ENV = "development";
+    await assertWebhookUrlAllowed("http://localhost:3000/hook");
+  } finally {
+    process.env.NODE_ENV = previous;
+  }
+});
+
+test("endpoint schema and stored events only accept known event types", () => {
+  assert.equal(createWebhookEndpointSchema.safeParse({ url: "https://example.com/h", events: ["task.done"] }).success, true);
+  assert.equal(createWebhookEndpointSchema.safeParse({ url: "https://example.com/h", events: ["task.deleted"] }).success, false);
+  assert.equal(createWebhookEndpointSchema.safeParse({ url: "https://example.com/h", events: [] }).success, false);
+  assert.deepEqual(parseWebhookEvents('["report.sent","nope","task.done"]'), ["report.sent", "task.done"]);
+  assert.deepEqual(parseWebhookEvents("{"), []);
+});
+
+test("buildWebhookEvent wraps data in an envelope with a unique id", () => {
+  const now = new Date("2026-03-18T09:00:00.000Z");
+  const a = buildWebhookEvent("report.sent", "agency-1", { report: { type: "seo" } }, now);
+  const b = buildWebhookEvent("report.sent", "agency-1", {}, now);
+  assert.match(a.id, /^evt_[0-9a-f]{24}$/);
+  assert.notEqual(a.id, b.id);
+  assert.deepEqual(
+    { type: a.type, createdAt: a.createdAt, agencyId: a.agencyId, data: a.data },
+    { type: "report.sent", createdAt: "2026-03-18T09:00:00.000Z", agencyId: "agency-1", data: { report: { type: "seo" } } }
+  );
+});
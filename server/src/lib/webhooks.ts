@@ -0,0 +1,361 @@
+/**
+ * Outbound webhooks.
+ * Emitting an event writes one WebhookDelivery row per subscribed endpoint and attempts it right away;
+ * failed attempts are retried with backoff by the "webhook-deliveries" job. Payloads are signed with the
+ * endpoint's secret so receivers can verify them (see signWebhookPayload).
+ */
+import crypto from "crypto";
+import { z } from "zod";
+import { prisma } from "./prisma.js";
+import { assertPublicHost } from "./netGuard.js";
+
+export const WEBHOOK_EVENTS = [
+  { id: "campaign_win.created", label: "Campaign win detected" },
+  { id: "report.sent", label: "Scheduled report sent" },
+  { id: "task.needs_approval", label: "Task needs approval" },
+  { id: "task.done", label: "Task completed" },
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number]["id"] | "webhook.test";
+
+const eventIds = WEBHOOK_EVENTS.map((e) => e.id) as [string, ...string[]];
+
+/** Delays before attempts 2..N; the delivery is marked failed after the last one. */
+const RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000, 2 * 60 * 60 * 1000, 8 * 60 * 60 * 1000];
+export const MAX_WEBHOOK_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// Claimed deliveries are pushed this far into the future so another instance doesn't send them twice.
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+const MAX_RESPONSE_BODY_CHARS = 2000;
+const DELIVERY_RETENTION_DAYS = 30;
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+
+const webhookUrlSchema = z
+  .string()
+  .trim()
+  .url()
+  .max(2048)
+  .refine((value) => isAllowedWebhookUrl(value), "URL must be a public http(s) address");
+
+export const createWebhookEndpointSchema = z.object({
+  url: webhookUrlSchema,
+  description: z.string().trim().max(255).optional().nullable(),
+  events: z.array(z.enum(eventIds)).min(1),
+  enabled: z.boolean().optional().default(true),
+});
+
+export const updateWebhookEndpointSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  description: z.string().trim().max(255).optional().nullable(),
+  events: z.array(z.enum(eventIds)).min(1).optional(),
+  enabled: z.boolean().optional(),
+});
+
+const PRIVATE_HOST_PATTERNS = [
+  /^localhost$/i,
+  /\.local(host)?$/i,
+  /^127\./,
+  /^10\./,
+  /^192\.168\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^169\.254\./,
+  /^0\./,
+  /^\[?::1\]?$/,
+  /^\[?f[cd][0-9a-f]{2}:/i,
+];
+
+/** http(s) only; in production, loopback and private-network hosts are rejected. */
+export function isAllowedWebhookUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return false;
+  if (process.env.NODE_ENV !== "production") return true;
+  return !PRIVATE_HOST_PATTERNS.some((pattern) => pattern.test(url.hostname));
+}
+
+/**
+ * Send-time check for isAllowedWebhookUrl: in production the hostname is also resolved, so a public name
+ * pointing at an internal address is refused. Throws with the reason.
+ */
+export async function assertWebhookUrlAllowed(value: string): Promise<void> {
+  if (!isAllowedWebhookUrl(value)) throw new Error("URL must be a public http(s) address");
+  if (process.env.NODE_ENV !== "production") return;
+  await assertPublicHost(new URL(value).hostname);
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString("base64url")}`;
+}
+
+export function parseWebhookEvents(value: string | null | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String).filter((e) => eventIds.includes(e)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Signature header value: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+ * Receivers recompute the HMAC over the raw body and should reject stale timestamps.
+ */
+export function signWebhookPayload(secret: string, timestampSeconds: number, body: string): string {
+  const digest = crypto.createHmac("sha256", secret).update(`${timestampSeconds}.${body}`).digest("hex");
+  return `t=${timestampSeconds},v1=${digest}`;
+}
+
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  now = Date.now(),
+  toleranceSeconds = 300
+): boolean {
+  const parts = Object.fromEntries(header.split(",").map((p) => p.split("=", 2) as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v1) return false;
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+  const expected = signWebhookPayload(secret, timestamp, body).split("v1=")[1];
+  const a = Buffer.from(expected, "hex");
+  const b = Buffer.from(parts.v1, "hex");
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/** Delay before the next attempt after `attempt` failed attempts, or null when out of attempts. */
+export function computeWebhookRetryDelayMs(attempt: number): number | null {
+  if (attempt < 1 || attempt >= MAX_WEBHOOK_ATTEMPTS) return null;
+  return RETRY_DELAYS_MS[attempt - 1];
+}
+
+export function buildWebhookEvent(type: WebhookEventType, agencyId: string, data: Record<string, unknown>, now = new Date()) {
+  return {
+    id: `evt_${crypto.randomBytes(12).toString("hex")}`,
+    type,
+    createdAt: now.toISOString(),
+    agencyId,
+    data,
+  };
+}
+
+/**
+ * Queue an event for every enabled endpoint of the given agencies that subscribes to it.
+ * Never throws: webhook problems must not break the action that produced the event.
+ */
+export async function emitWebhookEvent(params: {
+  agencyIds: Array<string | null | undefined>;
+  type: Exclude<WebhookEventType, "webhook.test">;
+  data: Record<string, unknown>;
+}): Promise<void> {
+  try {
+    const agencyIds = [...new Set(params.agencyIds.filter((id): id is string => Boolean(id)))];
+    if (agencyIds.length === 0) return;
+
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { agencyId: { in: agencyIds }, enabled: true },
+      select: { id: true, agencyId: true, events: true },
+    });
+    const subscribed = endpoints.filter((e) => parseWebhookEvents(e.events).includes(params.type));
+    if (subscribed.length === 0) return;
+
+    const now = new Date();
+    const eventsByAgency = new Map(agencyIds.map((id) => [id, buildWebhookEvent(params.type, id, params.data, now)]));
+    const deliveryIds: string[] = [];
+    for (const endpoint of subscribed) {
+      const event = eventsByAgency.get(endpoint.agencyId)!;
+      const delivery = await prisma.webhookDelivery.create({
+        data: {
+          endpointId: endpoint.id,
+          eventId: event.id,
+          eventType: event.type,
+          payload: JSON.stringify(event),
+          nextAttemptAt: now,
+        },
+        select: { id: true },
+      });
+      deliveryIds.push(delivery.id);
+    }
+
+    // First attempt happens immediately; the job picks up anything that fails.
+    setImmediate(() => {
+      for (const id of deliveryIds) {
+        void attemptWebhookDelivery(id).catch((err) =>
+          console.warn(`[Webhooks] Delivery ${id} failed:`, err?.message || err)
+        );
+      }
+    });
+  } catch (err: any) {
+    console.warn(`[Webhooks] Failed to queue ${params.type}:`, err?.message || err);
+  }
+}
+
+/**
+ * Emit an event about a client to every agency that owns it (assigned agency, the client owner's agencies
+ * and explicit inclusions). Adds a `client` summary to the payload.
+ */
+export async function emitClientWebhookEvent(
+  clientId: string,
+  type: Exclude<WebhookEventType, "webhook.test">,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const client = await prisma.client.findUnique({
+      where: { id: clientId },
+      select: {
+        id: true,
+        name: true,
+        domain: true,
+        belongsToAgencyId: true,
+        user: { select: { memberships: { select: { agencyId: true } } } },
+        agencyInclusions: { select: { agencyId: true } },
+      },
+    });
+    if (!client) return;
+    await emitWebhookEvent({
+      agencyIds: [
+        client.belongsToAgencyId,
+        ...(client.user?.memberships ?? []).map((m) => m.agencyId),
+        ...client.agencyInclusions.map((i) => i.agencyId),
+      ],
+      type,
+      data: { client: { id: client.id, name: client.name, domain: client.domain }, ...data },
+    });
+  } catch (err: any) {
+    console.warn(`[Webhooks] Failed to resolve agencies for client ${clientId}:`, err?.message || err);
+  }
+}
+
+/**
+ * Claim and send one pending delivery. Returns the updated row, or null if another worker holds it
+ * or it is not due.
+ */
+export async function attemptWebhookDelivery(deliveryId: string) {
+  const now = new Date();
+  const claimed = await prisma.webhookDelivery.updateMany({
+    where: {
+      id: deliveryId,
+      status: "pending",
+      nextAttemptAt: { lte: now },
+    },
+    data: { nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS), attempt: { increment: 1 } },
+  });
+  if (claimed.count === 0) return null;
+
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { endpoint: true },
+  });
+  if (!delivery) return null;
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = Date.now();
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    await assertWebhookUrlAllowed(delivery.endpoint.url);
+    const response = await fetch(delivery.endpoint.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "AgencyDashboard-Webhooks/1.0",
+        "X-Webhook-Id": delivery.eventId,
+        "X-Webhook-Event": delivery.eventType,
+        "X-Webhook-Timestamp": String(timestamp),
+        [SIGNATURE_HEADER]: signWebhookPayload(delivery.endpoint.secret, timestamp, delivery.payload),
+      },
+      body: delivery.payload,
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text().catch(() => "")).slice(0, MAX_RESPONSE_BODY_CHARS) || null;
+    if (!response.ok) error = `HTTP ${response.status}`;
+  } catch (err: any) {
+    error = err?.name === "TimeoutError" ? `Timed out after ${REQUEST_TIMEOUT_MS / 1000}s` : String(err?.message || err);
+  }
+
+  const durationMs = Date.now() - startedAt;
+  const succeeded = !error;
+  // Test events report straight back to the user, so they are not retried.
+  const retryDelay =
+    succeeded || delivery.eventType === "webhook.test" ? null : computeWebhookRetryDelayMs(delivery.attempt);
+  const finishedAt = new Date();
+
+  const [updated] = await prisma.$transaction([
+    prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: succeeded ? "success" : retryDelay === null ? "failed" : "pending",
+        nextAttemptAt: retryDelay === null ? null : new Date(finishedAt.getTime() + retryDelay),
+        responseStatus,
+        responseBody,
+        error,
+        durationMs,
+        deliveredAt: succeeded ? finishedAt : null,
+      },
+    }),
+    prisma.webhookEndpoint.update({
+      where: { id: delivery.endpointId },
+      data: succeeded
+        ? { lastDeliveryAt: finishedAt, consecutiveFailures: 0 }
+        : { lastDeliveryAt: finishedAt, consecutiveFailures: { increment: 1 } },
+    }),
+  ]);
+  return updated;
+}
+
+/** Job entry point: send due retries and prune old delivery logs. */
+export async function processDueWebhookDeliveries(): Promise<void> {
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: "pending", nextAttemptAt: { lte: new Date() } },
+    orderBy: { nextAttemptAt: "asc" },
+    select: { id: true },
+    take: 200,
+  });
+  let failed = 0;
+  for (const { id } of due) {
+    try {
+      await attemptWebhookDelivery(id);
+    } catch (err: any) {
+      failed += 1;
+      console.warn(`[Webhooks] Delivery ${id} failed:`, err?.message || err);
+    }
+  }
+
+  const cutoff = new Date(Date.now() - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  await prisma.webhookDelivery.deleteMany({
+    where: { createdAt: { lt: cutoff }, status: { in: ["success", "failed"] } },
+  });
+  if (failed > 0) {
+    throw new Error(`${failed} of ${due.length} webhook deliveries could not be processed`);
+  }
+}
+
+/** Send a sample event to one endpoint now (regardless of its event filter) and return the result. */
+export async function sendTestWebhookEvent(endpointId: string) {
+  const endpoint = await prisma.webhookEndpoint.findUnique({ where: { id: endpointId } });
+  if (!endpoint) return null;
+  const event = buildWebhookEvent("webhook.test", endpoint.agencyId, {
+    message: "This is a test event. Your endpoint is receiving webhooks.",
+    endpointId: endpoint.id,
+  });
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      endpointId: endpoint.id,
+      eventId: event.id,
+      eventType: event.type,
+      payload: JSON.stringify(event),
+      nextAttemptAt: new Date(),
+    },
+  });
+  return (await attemptWebhookDelivery(delivery.id)) ?? delivery;
+}
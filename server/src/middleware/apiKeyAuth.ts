@@ -0,0 +1,114 @@
+import { Request, Response, NextFunction } from "express";
+import { prisma } from "../lib/prisma.js";
+import { authenticateToken } from "./auth.js";
+import {
+  ApiKeyRateLimiter,
+  hashApiKey,
+  hasApiKeyScope,
+  looksLikeApiKey,
+  parseStoredScopes,
+  type ApiKeyAccess,
+  type ApiKeyResource,
+  type ApiKeyScope,
+} from "../lib/apiKeys.js";
+
+interface ApiKeyContext {
+  id: string;
+  agencyId: string;
+  scopes: ApiKeyScope[];
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set when the request authenticated with an API key rather than a JWT. */
+      apiKey?: ApiKeyContext;
+    }
+  }
+}
+
+const rateLimiter = new ApiKeyRateLimiter();
+
+// lastUsedAt is informational; writing it on every request would turn each API read into a DB write.
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 1000;
+const lastUsedWrites = new Map<string, number>();
+
+function extractApiKey(req: Request): string | null {
+  const headerKey = req.headers["x-api-key"];
+  if (typeof headerKey === "string" && headerKey.trim()) return headerKey.trim();
+  const bearer = req.headers["authorization"]?.split(" ")[1];
+  return looksLikeApiKey(bearer) ? bearer : null;
+}
+
+function recordKeyUsage(keyId: string, ip: string | undefined) {
+  const now = Date.now();
+  if (now - (lastUsedWrites.get(keyId) ?? 0) < LAST_USED_WRITE_INTERVAL_MS) return;
+  lastUsedWrites.set(keyId, now);
+  prisma.apiKey
+    .update({ where: { id: keyId }, data: { lastUsedAt: new Date(now), lastUsedIp: ip ? ip.slice(0, 64) : null } })
+    .catch((err) => console.warn("[API Keys] Failed to record key usage:", err?.message || err));
+}
+
+/**
+ * Accepts either a dashboard JWT (same as authenticateToken) or an agency API key, sent as
+ * `X-API-Key: dmk_…` or `Authorization: Bearer dmk_…`. Key requests act as the key's creator
+ * with the AGENCY role and carry req.apiKey so routes can enforce scopes and the agency boundary.
+ */
+export const authenticateApiRequest = async (req: Request, res: Response, next: NextFunction) => {
+  const plaintext = extractApiKey(req);
+  if (!plaintext) {
+    return authenticateToken(req, res, next);
+  }
+
+  try {
+    const key = await prisma.apiKey.findUnique({
+      where: { keyHash: hashApiKey(plaintext) },
+      include: { createdBy: { select: { id: true, email: true } } },
+    });
+    if (!key || key.revokedAt) {
+      return res.status(401).json({ message: "Invalid or revoked API key" });
+    }
+    if (key.expiresAt && key.expiresAt.getTime() <= Date.now()) {
+      return res.status(401).json({ message: "API key has expired" });
+    }
+    if (!key.createdBy) {
+      return res.status(401).json({ message: "API key owner no longer exists" });
+    }
+    // Keys act as their creator, so they stop working once the creator leaves the key's agency.
+    const creatorMembership = await prisma.userAgency.findFirst({
+      where: { userId: key.createdBy.id, agencyId: key.agencyId },
+      select: { id: true },
+    });
+    if (!creatorMembership) {
+      return res.status(401).json({ message: "API key owner is no longer a member of this agency" });
+    }
+
+    const limit = rateLimiter.consume(key.id, key.rateLimitPerMinute);
+    res.setHeader("X-RateLimit-Limit", String(key.rateLimitPerMinute));
+    res.setHeader("X-RateLimit-Remaining", String(limit.remaining));
+    res.setHeader("X-RateLimit-Reset", String(Math.ceil(limit.resetAt / 1000)));
+    if (!limit.allowed) {
+      res.setHeader("Retry-After", String(Math.max(1, Math.ceil((limit.resetAt - Date.now()) / 1000))));
+      return res.status(429).json({ message: "Rate limit exceeded" });
+    }
+
+    recordKeyUsage(key.id, req.ip);
+
+    req.user = { userId: key.createdBy.id, email: key.createdBy.email, role: "AGENCY" };
+    req.apiKey = { id: key.id, agencyId: key.agencyId, scopes: parseStoredScopes(key.scopes) };
+    next();
+  } catch (error) {
+    console.error("API key auth error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+/** Require a scope for API key requests; JWT requests fall through to the route's own access checks. */
+export function requireApiScope(resource: ApiKeyResource, access: ApiKeyAccess) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.apiKey && !hasApiKeyScope(req.apiKey.scopes, resource, access)) {
+      return res.status(403).json({ message: `API key is missing the ${resource}:${access} scope` });
+    }
+    next();
+  };
+}
@@ -1,10 +1,15 @@
 import jwt from 'jsonwebtoken';
 import { Request, Response, NextFunction } from 'express';
+import { isSessionActive } from '../lib/sessions.js';
 
 interface JwtPayload {
   userId: string;
   email: string;
   role: string;
+  /** Set when the user's agency enforces 2FA and the user has not enrolled yet. */
+  twoFactorSetupRequired?: boolean;
+  /** UserSession id; revoking the session invalidates the access token. */
+  sid?: string;
 }
 
 declare global {
@@ -27,7 +32,25 @@ function getJwtSecret(): string {
   return secret;
 }
 
-export const authenticateToken = (req: Request, res: Response, next: NextFunction) => {
+/**
+ * Session tokens only. Purpose-bound tokens signed with the same secret (password reset, 2FA challenge,
+ * step-up) must never authenticate API requests.
+ */
+function decodeSessionToken(token: string): JwtPayload | null {
+  const decoded = jwt.verify(token, getJwtSecret()) as JwtPayload & { purpose?: unknown };
+  if (!decoded || typeof decoded.userId !== 'string' || decoded.purpose !== undefined) return null;
+  return decoded;
+}
+
+/** Endpoints a user may reach while their agency requires them to enroll in 2FA. */
+const TWO_FACTOR_SETUP_ALLOWED_PATHS = ['/api/auth/me', '/api/auth/2fa/', '/api/auth/branding'];
+
+function isAllowedDuringTwoFactorSetup(originalUrl: string): boolean {
+  const path = originalUrl.split('?')[0];
+  return TWO_FACTOR_SETUP_ALLOWED_PATHS.some((allowed) => path === allowed || path.startsWith(allowed));
+}
+
+export const authenticateToken = async (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
 
@@ -35,18 +58,40 @@ export const authenticateToken = (req: Request, res: Response, next: NextFunctio
     return res.status(401).json({ message: 'Access token required' });
   }
 
+  let decoded: JwtPayload | null;
   try {
-    const secret = getJwtSecret();
-    const decoded = jwt.verify(token, secret) as JwtPayload;
-    req.user = decoded;
-    next();
+    decoded = decodeSessionToken(token);
   } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      // The client refreshes with its refresh token and retries
+      return res.status(401).json({ message: 'Access token expired', code: 'TOKEN_EXPIRED' });
+    }
+    decoded = null;
+  }
+  if (!decoded) {
     return res.status(403).json({ message: 'Invalid token' });
   }
+  // Tokens issued before per-device sessions carry no sid and must sign in again
+  try {
+    if (!decoded.sid || !(await isSessionActive(decoded.sid, decoded.userId))) {
+      return res.status(401).json({ message: 'Session expired. Please login again.', code: 'SESSION_REVOKED' });
+    }
+  } catch (error) {
+    console.error('Session check error:', error);
+    return res.status(500).json({ message: 'Internal server error' });
+  }
+  if (decoded.twoFactorSetupRequired && !isAllowedDuringTwoFactorSetup(req.originalUrl)) {
+    return res.status(403).json({
+      message: 'Your agency requires two-factor authentication. Set it up to continue.',
+      code: 'TWO_FACTOR_SETUP_REQUIRED',
+    });
+  }
+  req.user = decoded;
+  next();
 };
 
 /** Like authenticateToken but does not 401 when no token; sets req.user only when token is valid. Used before trial check on routers with mixed public/protected routes. */
-export const optionalAuthenticateToken = (req: Request, res: Response, next: NextFunction) => {
+export const optionalAuthenticateToken = async (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
   if (!token) {
@@ -54,14 +99,13 @@ export const optionalAuthenticateToken = (req: Request, res: Response, next: Nex
     return;
   }
   try {
-    const secret = getJwtSecret();
-    const decoded = jwt.verify(token, secret) as JwtPayload;
-    req.user = decoded;
+    const decoded = decodeSessionToken(token);
+    if (decoded?.sid && (await isSessionActive(decoded.sid, decoded.userId))) req.user = decoded;
   } catch {
-    // invalid token: leave req.user unset
+    // invalid token or revoked session: leave req.user unset
   }
   next();
 };
 
 // Export getJwtSecret for use in other files
-export { getJwtSecret };
\ No newline at end of file
+export { getJwtSecret };
\ No newline at end of file
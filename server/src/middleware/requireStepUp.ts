@@ -0,0 +1,19 @@
+import { Request, Response, NextFunction } from "express";
+import { STEP_UP_HEADER, verifyStepUpToken } from "../lib/twoFactor.js";
+
+/**
+ * Require a recent re-authentication (2FA code, or password for users without 2FA) before sensitive
+ * actions such as impersonation and billing changes. The client obtains a token from POST /api/auth/step-up
+ * and retries with the X-Step-Up-Token header. Must run after authenticateToken so req.user is set.
+ */
+export const requireStepUp = (req: Request, res: Response, next: NextFunction) => {
+  const raw = req.headers[STEP_UP_HEADER];
+  const token = Array.isArray(raw) ? raw[0] : raw;
+  if (!token || !req.user?.userId || !verifyStepUpToken(token, req.user.userId)) {
+    return res.status(403).json({
+      message: "Please confirm your identity to continue.",
+      code: "STEP_UP_REQUIRED",
+    });
+  }
+  next();
+};
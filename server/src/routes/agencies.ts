@@ -8,6 +8,10 @@ import { sendEmail } from '../lib/email.js';
 import { BRAND_DISPLAY_NAME } from "../lib/qualityContracts.js";
 import { authenticateToken, optionalAuthenticateToken, getJwtSecret } from '../middleware/auth.js';
 import { requireAgencyTrialNotExpired } from '../middleware/requireAgencyTrialNotExpired.js';
+import { requireStepUp } from '../middleware/requireStepUp.js';
+import { revokeUserSessions } from '../lib/sessions.js';
+import { recordAuditEvent } from '../lib/auditLog.js';
+import { redactClientSecrets } from '../lib/secretEncryption.js';
 import { getStripe, isStripeConfigured } from '../lib/stripe.js';
 import { getTierConfig, DEFAULT_TIER_ID, AGENCY_TIER_IDS, type TierId } from '../lib/tiers.js';
 import {
@@ -30,6 +34,9 @@ import {
 } from '../lib/domainProvisioning.js';
 import { resolveSuperAdminNotificationRecipients } from '../lib/superAdminNotifications.js';
 import { buildSnapshotCreditPackNotificationContent } from '../lib/addOnNotifications.js';
+import { publishRealtimeEvent } from '../lib/realtime.js';
+import { deliverNotification, mutedInAppNotificationTypes, parseNotificationPreferences } from '../lib/notificationPreferences.js';
+import { authorize } from '../lib/permissions.js';
 import {
   applySnapshotCreditPackPurchase,
   parseSnapshotCheckoutSession,
@@ -1873,9 +1880,12 @@ router.get('/me/notifications', authenticateToken, async (req, res) => {
     if (membership) {
       orConditions.push({ agencyId: membership.agencyId, userId: null });
     }
+    // Agency-wide rows for events this user switched off in-app (user rows are only written when it is on)
+    const prefs = await prisma.user.findUnique({ where: { id: user.userId }, select: { notificationPreferences: true } });
+    const mutedTypes = mutedInAppNotificationTypes(parseNotificationPreferences(prefs?.notificationPreferences));
 
     const notifications = await prisma.notification.findMany({
-      where: { OR: orConditions },
+      where: { OR: orConditions, ...(mutedTypes.length > 0 ? { type: { notIn: mutedTypes } } : {}) },
       orderBy: { createdAt: 'desc' },
       take: 30,
     });
@@ -1927,6 +1937,11 @@ router.post('/me/notifications/mark-read', authenticateToken, async (req, res) =
         data: { read: true },
       });
     }
+    // Other tabs and agency teammates sharing the agency-wide rows refresh their unread counts
+    void publishRealtimeEvent(
+      { userIds: [user.userId], agencyIds: membership ? [membership.agencyId] : [] },
+      { type: 'notification' }
+    );
     return res.json({ success: true });
   } catch (err: any) {
     console.error('Mark agency notifications read error:', err);
@@ -3456,11 +3471,9 @@ router.post('/change-plan-preview', authenticateToken, async (req, res) => {
 
 // Change base plan directly via Stripe API (works with multi-item subscriptions: only the plan item is updated).
 // Validates downgrade (client counts, managed services) then updates the subscription item for the base plan.
-router.post('/change-plan', authenticateToken, async (req, res) => {
+router.post('/change-plan', authenticateToken, requireStepUp, async (req, res) => {
   try {
-    if (req.user.role !== 'AGENCY' && req.user.role !== 'ADMIN' && req.user.role !== 'SUPER_ADMIN') {
-      return res.status(403).json({ message: 'Access denied' });
-    }
+    if (!(await authorize(req, res, 'manage_billing'))) return;
     const targetPlan = typeof req.body?.targetPlan === 'string' ? req.body.targetPlan.trim().toLowerCase() : '';
     if (!targetPlan || !CHANGEABLE_TIER_IDS.includes(targetPlan as TierId)) {
       return res.status(400).json({ message: 'Invalid target plan. Use one of: solo, starter, growth, pro, enterprise, business_lite, business_pro.' });
@@ -3568,6 +3581,16 @@ router.post('/change-plan', authenticateToken, async (req, res) => {
       select: { name: true, subscriptionTier: true, billingType: true, trialEndsAt: true },
     });
     const newTierName = getTierConfig(targetPlan)?.name ?? targetPlan;
+    await recordAuditEvent(req, {
+      action: 'agency.plan_changed',
+      entityType: 'agency',
+      entityId: agency.id,
+      entityLabel: updatedAgency?.name ?? null,
+      agencyId: agency.id,
+      before: { plan: oldTier?.subscriptionTier ?? null },
+      after: { plan: updatedAgency?.subscriptionTier ?? targetPlan },
+      metadata: { targetPlan, direction: isUpgrade ? 'upgrade' : 'downgrade' },
+    });
     const trialDaysLeft = updatedAgency?.trialEndsAt
       ? Math.max(0, Math.ceil((updatedAgency.trialEndsAt.getTime() - Date.now()) / 86400000))
       : null;
@@ -3662,12 +3685,10 @@ router.post('/change-plan', authenticateToken, async (req, res) => {
 // Uses the current user's agency.stripeCustomerId (or creates one if missing). Never uses req.body for customer id.
 // Plan changes (upgrade/downgrade) are handled by Stripe's portal. Configure in Dashboard: Billing → Customer portal →
 // "Subscription plan changes": enable "Proration" so upgrades are charged immediately; set downgrades to "Take effect at end of billing period".
-router.post('/billing-portal', authenticateToken, async (req, res) => {
+router.post('/billing-portal', authenticateToken, requireStepUp, async (req, res) => {
   let agency: { id: string; stripeCustomerId: string | null; stripeSubscriptionId: string | null; [key: string]: any } | null = null;
   try {
-    if (req.user.role !== 'AGENCY' && req.user.role !== 'ADMIN' && req.user.role !== 'SUPER_ADMIN') {
-      return res.status(403).json({ message: 'Access denied' });
-    }
+    if (!(await authorize(req, res, 'manage_billing'))) return;
     const returnUrl = (req.body && req.body.returnUrl) || `${req.body?.origin || req.get('origin') || 'http://localhost:3000'}/agency/subscription`;
     const openToSubscriptionUpdate = !!(req.body && req.body.flow === 'subscription_update');
     const stripe = getStripe();
@@ -3822,9 +3843,7 @@ router.post('/billing-portal', authenticateToken, async (req, res) => {
 // Native invoice history for Subscription page (avoids opening Stripe portal for invoice downloads).
 router.get('/billing-invoices', authenticateToken, async (req, res) => {
   try {
-    if (req.user.role !== 'AGENCY' && req.user.role !== 'ADMIN' && req.user.role !== 'SUPER_ADMIN') {
-      return res.status(403).json({ message: 'Access denied' });
-    }
+    if (!(await authorize(req, res, 'view_financials'))) return;
     const stripe = getStripe();
     if (!stripe || !isStripeConfigured()) {
       return res.status(400).json({ items: [], message: 'Billing is not configured. Contact support.' });
@@ -3952,11 +3971,9 @@ const updateSubscriptionPaymentMethodSchema = z.object({
 });
 
 // Update default payment method for the agency's Stripe customer/subscription.
-router.post('/subscription/payment-method', authenticateToken, async (req, res) => {
+router.post('/subscription/payment-method', authenticateToken, requireStepUp, async (req, res) => {
   try {
-    if (req.user.role !== 'AGENCY' && req.user.role !== 'ADMIN' && req.user.role !== 'SUPER_ADMIN') {
-      return res.status(403).json({ message: 'Access denied' });
-    }
+    if (!(await authorize(req, res, 'manage_billing'))) return;
     const stripe = getStripe();
     if (!stripe || !isStripeConfigured()) {
       return res.status(400).json({ message: 'Billing is not configured. Contact support.' });
@@ -4025,11 +4042,9 @@ router.post('/subscription/payment-method', authenticateToken, async (req, res)
 });
 
 // Schedule cancellation at period end.
-router.post('/subscription/cancel', authenticateToken, async (req, res) => {
+router.post('/subscription/cancel', authenticateToken, requireStepUp, async (req, res) => {
   try {
-    if (req.user.role !== 'AGENCY' && req.user.role !== 'ADMIN' && req.user.role !== 'SUPER_ADMIN') {
-      return res.status(403).json({ message: 'Access denied' });
-    }
+    if (!(await authorize(req, res, 'manage_billing'))) return;
     const stripe = getStripe();
     if (!stripe || !isStripeConfigured()) {
       return res.status(400).json({ message: 'Billing is not configured. Contact support.' });
@@ -4140,11 +4155,9 @@ router.post('/subscription/cancel', authenticateToken, async (req, res) => {
 });
 
 // Remove scheduled cancellation before period end.
-router.post('/subscription/reactivate', authenticateToken, async (req, res) => {
+router.post('/subscription/reactivate', authenticateToken, requireStepUp, async (req, res) => {
   try {
-    if (req.user.role !== 'AGENCY' && req.user.role !== 'ADMIN' && req.user.role !== 'SUPER_ADMIN') {
-      return res.status(403).json({ message: 'Access denied' });
-    }
+    if (!(await authorize(req, res, 'manage_billing'))) return;
     const stripe = getStripe();
     if (!stripe || !isStripeConfigured()) {
       return res.status(400).json({ message: 'Billing is not configured. Contact support.' });
@@ -4771,7 +4784,7 @@ router.patch('/managed-services/:id/approve', authenticateToken, async (req, res
     const { id } = req.params;
     const row = await prisma.managedService.findUnique({
       where: { id },
-      include: { client: true, agency: { include: { members: { select: { user: { select: { email: true, name: true } } } } } } },
+      include: { client: true, agency: { include: { members: { select: { userId: true } } } } },
     });
     if (!row) return res.status(404).json({ message: 'Managed service not found' });
     if (row.status !== 'PENDING') {
@@ -4834,31 +4847,23 @@ router.patch('/managed-services/:id/approve', authenticateToken, async (req, res
     const clientName = row.client.name;
     const packageName = row.packageName;
     const agencyId = (row.agency as { id: string }).id;
-    await prisma.notification.create({
-      data: {
-        agencyId,
-        type: 'managed_service_approved',
-        title: `Managed service approved: ${clientName}`,
-        message: `Package: ${packageName}. Billing has started. You can now provide full managed services for this client.`,
-        link: '/agency/managed-services',
-      },
-    }).catch((e) => console.warn('Create approval notification failed:', e?.message));
-    const seen = new Set<string>();
-    for (const m of row.agency.members) {
-      const email = (m as any).user?.email;
-      if (email && !seen.has(email)) {
-        seen.add(email);
-        sendEmail({
-          to: email,
-          subject: `Managed service approved: ${clientName}`,
-          html: `
+    await deliverNotification({
+      event: 'managed_service',
+      userIds: row.agency.members.map((m) => m.userId),
+      agencyId,
+      type: 'managed_service_approved',
+      title: `Managed service approved: ${clientName}`,
+      message: `Package: ${packageName}. Billing has started. You can now provide full managed services for this client.`,
+      link: '/agency/managed-services',
+      email: {
+        subject: `Managed service approved: ${clientName}`,
+        html: `
             <p>The managed service for <strong>${clientName}</strong> has been approved. Billing has started.</p>
             <p>Package: ${packageName}. You can now provide full managed services for this client.</p>
             <p>— ${BRAND_DISPLAY_NAME}</p>
           `,
-        }).catch((e) => console.warn('Notify agency approval email failed:', e));
-      }
-    }
+      },
+    });
 
     res.json({
       success: true,
@@ -4879,7 +4884,7 @@ router.patch('/managed-services/:id/reject', authenticateToken, async (req, res)
     const { id } = req.params;
     const row = await prisma.managedService.findUnique({
       where: { id },
-      include: { client: true, agency: { include: { members: { select: { user: { select: { email: true } } } } } } },
+      include: { client: true, agency: { include: { members: { select: { userId: true } } } } },
     });
     if (!row) return res.status(404).json({ message: 'Managed service not found' });
     if (row.status !== 'PENDING') {
@@ -4905,30 +4910,22 @@ router.patch('/managed-services/:id/reject', authenticateToken, async (req, res)
 
     const clientName = row.client.name;
     const agencyId = (row.agency as { id: string }).id;
-    await prisma.notification.create({
-      data: {
-        agencyId,
-        type: 'managed_service_rejected',
-        title: `Managed service request not approved: ${clientName}`,
-        message: 'The client remains in Dashboard Only mode.',
-        link: '/agency/managed-services',
-      },
-    }).catch((e) => console.warn('Create reject notification failed:', e?.message));
-    const seen = new Set<string>();
-    for (const m of row.agency.members) {
-      const email = (m as any).user?.email;
-      if (email && !seen.has(email)) {
-        seen.add(email);
-        sendEmail({
-          to: email,
-          subject: `Managed service request not approved: ${clientName}`,
-          html: `
+    await deliverNotification({
+      event: 'managed_service',
+      userIds: row.agency.members.map((m) => m.userId),
+      agencyId,
+      type: 'managed_service_rejected',
+      title: `Managed service request not approved: ${clientName}`,
+      message: 'The client remains in Dashboard Only mode.',
+      link: '/agency/managed-services',
+      email: {
+        subject: `Managed service request not approved: ${clientName}`,
+        html: `
             <p>The managed service request for <strong>${clientName}</strong> was not approved. The client remains in Dashboard Only mode.</p>
             <p>— ${BRAND_DISPLAY_NAME}</p>
           `,
-        }).catch((e) => console.warn('Notify agency reject email failed:', e));
-      }
-    }
+      },
+    });
 
     res.json({ success: true, message: 'Managed service request rejected; agency notified.' });
   } catch (err: any) {
@@ -5204,8 +5201,9 @@ const notifySnapshotCreditPackPurchased = async (params: {
 };
 
 // Add-Ons: add (Stripe + DB, update limits in app when applicable). Agency must have activated account (CC on file).
-router.post('/add-ons', authenticateToken, async (req, res) => {
+router.post('/add-ons', authenticateToken, requireStepUp, async (req, res) => {
   try {
+    if (!(await authorize(req, res, 'manage_billing'))) return;
     const membership = await prisma.userAgency.findFirst({
       where: { userId: req.user.userId },
       include: { agency: true },
@@ -5349,8 +5347,9 @@ router.post('/add-ons', authenticateToken, async (req, res) => {
   }
 });
 
-router.post('/add-ons/local-map-snapshot-credits/checkout', authenticateToken, async (req, res) => {
+router.post('/add-ons/local-map-snapshot-credits/checkout', authenticateToken, requireStepUp, async (req, res) => {
   try {
+    if (!(await authorize(req, res, 'manage_billing'))) return;
     const membership = await prisma.userAgency.findFirst({
       where: { userId: req.user.userId },
       include: { agency: true },
@@ -5485,8 +5484,9 @@ router.post('/add-ons/local-map-snapshot-credits/confirm', authenticateToken, as
 });
 
 // Add-Ons: remove
-router.delete('/add-ons/:id', authenticateToken, async (req, res) => {
+router.delete('/add-ons/:id', authenticateToken, requireStepUp, async (req, res) => {
   try {
+    if (!(await authorize(req, res, 'manage_billing'))) return;
     const { id } = req.params;
     const membership = await prisma.userAgency.findFirst({
       where: { userId: req.user.userId },
@@ -5575,7 +5575,7 @@ router.get('/:agencyId/clients', authenticateToken, async (req, res) => {
         });
 
         return {
-          ...client,
+          ...redactClientSecrets(client),
           keywords: keywordStats._count.id || 0,
           avgPosition: keywordStats._avg.currentPosition ? Math.round(keywordStats._avg.currentPosition * 10) / 10 : null,
           topRankings: topRankingsCount || 0,
@@ -5627,14 +5627,16 @@ router.delete('/:agencyId', authenticateToken, async (req, res) => {
       });
     }
 
-    // Collect AGENCY-role users who belong only to this agency (no other memberships)
+    // Collect members who belong only to this agency (no other memberships); AGENCY-role ones are deleted below
     const agencyUserIdsToDelete: string[] = [];
+    const memberIdsLosingAccess: string[] = [];
     for (const m of agency.members) {
-      if (m.user.role === 'AGENCY') {
-        const otherMemberships = await prisma.userAgency.count({
-          where: { userId: m.userId, agencyId: { not: agencyId } },
-        });
-        if (otherMemberships === 0) {
+      const otherMemberships = await prisma.userAgency.count({
+        where: { userId: m.userId, agencyId: { not: agencyId } },
+      });
+      if (otherMemberships === 0) {
+        memberIdsLosingAccess.push(m.userId);
+        if (m.user.role === 'AGENCY') {
           agencyUserIdsToDelete.push(m.userId);
         }
       }
@@ -5644,6 +5646,10 @@ router.delete('/:agencyId', authenticateToken, async (req, res) => {
       where: { id: agencyId },
     });
 
+    for (const memberId of memberIdsLosingAccess) {
+      await revokeUserSessions(memberId, 'removed_from_agency');
+    }
+
     // Clean up orphaned AGENCY-role users who had no other agency
     if (agencyUserIdsToDelete.length > 0) {
       await prisma.$transaction([
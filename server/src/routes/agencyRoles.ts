@@ -0,0 +1,326 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { authenticateToken } from "../middleware/auth.js";
+import { recordAuditEvent } from "../lib/auditLog.js";
+import {
+  BUILT_IN_ROLES,
+  MAX_CUSTOM_ROLES_PER_AGENCY,
+  PERMISSIONS,
+  customRoleSchema,
+  isPlatformAdmin,
+  loadAgencyAccess,
+  memberAccessSchema,
+  parseStoredPermissions,
+  restrictedClientIds,
+} from "../lib/permissions.js";
+
+const router = Router();
+
+/** The caller's agency (first membership) and whether they may edit its roles: OWNER or a platform admin. */
+async function resolveRolesAgency(req: Request, res: Response): Promise<{ agencyId: string; canManage: boolean } | null> {
+  const membership = await prisma.userAgency.findFirst({
+    where: { userId: req.user.userId },
+    select: { agencyId: true, agencyRole: true },
+  });
+  if (!membership) {
+    res.status(404).json({ message: "No agency found for user" });
+    return null;
+  }
+  return { agencyId: membership.agencyId, canManage: membership.agencyRole === "OWNER" || isPlatformAdmin(req.user.role) };
+}
+
+async function resolveRolesManagerAgency(req: Request, res: Response): Promise<string | null> {
+  const agency = await resolveRolesAgency(req, res);
+  if (!agency) return null;
+  if (!agency.canManage) {
+    res.status(403).json({ message: "Access denied. Only agency owners can manage roles and member access." });
+    return null;
+  }
+  return agency.agencyId;
+}
+
+function serializeRole(role: {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: Prisma.JsonValue;
+  updatedAt: Date;
+  _count?: { members: number };
+}) {
+  return {
+    id: role.id,
+    name: role.name,
+    description: role.description,
+    permissions: parseStoredPermissions(role.permissions),
+    updatedAt: role.updatedAt,
+    memberCount: role._count?.members ?? 0,
+  };
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+// Permission catalogue, built-in roles, the agency's custom roles and the caller's own effective access
+router.get("/", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agency = await resolveRolesAgency(req, res);
+    if (!agency) return;
+
+    const [roles, access] = await Promise.all([
+      prisma.agencyCustomRole.findMany({
+        where: { agencyId: agency.agencyId },
+        include: { _count: { select: { members: true } } },
+        orderBy: { name: "asc" },
+      }),
+      loadAgencyAccess(req.user, agency.agencyId),
+    ]);
+    res.json({
+      permissions: PERMISSIONS,
+      builtInRoles: BUILT_IN_ROLES,
+      roles: roles.map(serializeRole),
+      canManage: agency.canManage,
+      me: { permissions: access.permissions, restrictedClientIds: restrictedClientIds(access) },
+    });
+  } catch (error) {
+    console.error("List agency roles error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+router.post("/", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agencyId = await resolveRolesManagerAgency(req, res);
+    if (!agencyId) return;
+
+    const body = customRoleSchema.parse(req.body);
+    const count = await prisma.agencyCustomRole.count({ where: { agencyId } });
+    if (count >= MAX_CUSTOM_ROLES_PER_AGENCY) {
+      return res.status(400).json({ message: `Agencies can have at most ${MAX_CUSTOM_ROLES_PER_AGENCY} custom roles.` });
+    }
+
+    const role = await prisma.agencyCustomRole.create({
+      data: { agencyId, name: body.name, description: body.description, permissions: body.permissions },
+    });
+    await recordAuditEvent(req, {
+      action: "agency.role_created",
+      entityType: "agency_role",
+      entityId: role.id,
+      entityLabel: role.name,
+      agencyId,
+      after: { permissions: body.permissions },
+    });
+    res.status(201).json(serializeRole(role));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid data", errors: error.errors });
+    }
+    if (isUniqueViolation(error)) {
+      return res.status(400).json({ message: "A role with this name already exists." });
+    }
+    console.error("Create agency role error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+router.put("/:roleId", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agencyId = await resolveRolesManagerAgency(req, res);
+    if (!agencyId) return;
+
+    const existing = await prisma.agencyCustomRole.findFirst({ where: { id: req.params.roleId, agencyId } });
+    if (!existing) return res.status(404).json({ message: "Role not found" });
+
+    const body = customRoleSchema.parse(req.body);
+    const role = await prisma.agencyCustomRole.update({
+      where: { id: existing.id },
+      data: { name: body.name, description: body.description, permissions: body.permissions },
+      include: { _count: { select: { members: true } } },
+    });
+    await recordAuditEvent(req, {
+      action: "agency.role_updated",
+      entityType: "agency_role",
+      entityId: role.id,
+      entityLabel: role.name,
+      agencyId,
+      before: { name: existing.name, permissions: parseStoredPermissions(existing.permissions) },
+      after: { name: role.name, permissions: body.permissions },
+    });
+    res.json(serializeRole(role));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid data", errors: error.errors });
+    }
+    if (isUniqueViolation(error)) {
+      return res.status(400).json({ message: "A role with this name already exists." });
+    }
+    console.error("Update agency role error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Members holding the role fall back to the built-in permissions of their agency role (customRoleId is set to null)
+router.delete("/:roleId", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agencyId = await resolveRolesManagerAgency(req, res);
+    if (!agencyId) return;
+
+    const existing = await prisma.agencyCustomRole.findFirst({ where: { id: req.params.roleId, agencyId } });
+    if (!existing) return res.status(404).json({ message: "Role not found" });
+
+    await prisma.agencyCustomRole.delete({ where: { id: existing.id } });
+    await recordAuditEvent(req, {
+      action: "agency.role_deleted",
+      entityType: "agency_role",
+      entityId: existing.id,
+      entityLabel: existing.name,
+      agencyId,
+    });
+    res.json({ message: "Role deleted" });
+  } catch (error) {
+    console.error("Delete agency role error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+/** Clients of an agency: assigned to it, or owned by one of its members (same scope as GET /clients). */
+function agencyClientsWhere(agencyId: string): Prisma.ClientWhereInput {
+  return {
+    OR: [{ belongsToAgencyId: agencyId }, { user: { memberships: { some: { agencyId } } } }],
+  };
+}
+
+// Members with their role and client restrictions, plus the agency's clients for the access picker
+router.get("/members", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agencyId = await resolveRolesManagerAgency(req, res);
+    if (!agencyId) return;
+
+    const [members, clients] = await Promise.all([
+      prisma.userAgency.findMany({
+        where: { agencyId },
+        select: {
+          userId: true,
+          agencyRole: true,
+          customRoleId: true,
+          restrictClientAccess: true,
+          clientAccess: { select: { clientId: true } },
+          user: { select: { name: true, email: true, role: true } },
+        },
+        orderBy: { user: { name: "asc" } },
+      }),
+      prisma.client.findMany({
+        where: agencyClientsWhere(agencyId),
+        select: { id: true, name: true, domain: true },
+        orderBy: { name: "asc" },
+      }),
+    ]);
+    res.json({
+      members: members.map((m) => ({
+        userId: m.userId,
+        name: m.user.name,
+        email: m.user.email,
+        role: m.user.role,
+        agencyRole: m.agencyRole,
+        customRoleId: m.customRoleId,
+        restrictClientAccess: m.restrictClientAccess,
+        clientIds: m.clientAccess.map((row) => row.clientId),
+      })),
+      clients,
+    });
+  } catch (error) {
+    console.error("List agency member access error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Assign a custom role and/or limit a member to specific clients. Owners always keep full access.
+router.put("/members/:userId", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agencyId = await resolveRolesManagerAgency(req, res);
+    if (!agencyId) return;
+
+    const body = memberAccessSchema.parse(req.body);
+    const membership = await prisma.userAgency.findFirst({
+      where: { agencyId, userId: req.params.userId },
+      select: {
+        id: true,
+        agencyRole: true,
+        customRoleId: true,
+        restrictClientAccess: true,
+        clientAccess: { select: { clientId: true } },
+        user: { select: { email: true } },
+      },
+    });
+    if (!membership) return res.status(404).json({ message: "Team member not found" });
+    if (membership.agencyRole === "OWNER") {
+      return res.status(400).json({ message: "Agency owners always have full access." });
+    }
+
+    if (body.customRoleId) {
+      const role = await prisma.agencyCustomRole.findFirst({ where: { id: body.customRoleId, agencyId }, select: { id: true } });
+      if (!role) return res.status(400).json({ message: "Role not found" });
+    }
+    let clientIds: string[] | undefined;
+    if (body.clientIds) {
+      const requested = [...new Set(body.clientIds)];
+      const clients = await prisma.client.findMany({
+        where: { AND: [{ id: { in: requested } }, agencyClientsWhere(agencyId)] },
+        select: { id: true },
+      });
+      if (clients.length !== requested.length) {
+        return res.status(400).json({ message: "Some clients do not belong to this agency." });
+      }
+      clientIds = requested;
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (clientIds) {
+        await tx.userAgencyClientAccess.deleteMany({ where: { userAgencyId: membership.id } });
+        if (clientIds.length > 0) {
+          await tx.userAgencyClientAccess.createMany({
+            data: clientIds.map((clientId) => ({ userAgencyId: membership.id, clientId })),
+          });
+        }
+      }
+      return tx.userAgency.update({
+        where: { id: membership.id },
+        data: {
+          ...(body.customRoleId !== undefined ? { customRoleId: body.customRoleId } : {}),
+          ...(body.restrictClientAccess !== undefined ? { restrictClientAccess: body.restrictClientAccess } : {}),
+        },
+        select: { customRoleId: true, restrictClientAccess: true, clientAccess: { select: { clientId: true } } },
+      });
+    });
+
+    const after = {
+      customRoleId: updated.customRoleId,
+      restrictClientAccess: updated.restrictClientAccess,
+      clientIds: updated.clientAccess.map((row) => row.clientId),
+    };
+    await recordAuditEvent(req, {
+      action: "team_member.access_changed",
+      entityType: "user",
+      entityId: req.params.userId,
+      entityLabel: membership.user.email,
+      agencyId,
+      before: {
+        customRoleId: membership.customRoleId,
+        restrictClientAccess: membership.restrictClientAccess,
+        clientIds: membership.clientAccess.map((row) => row.clientId),
+      },
+      after,
+    });
+    res.json({ userId: req.params.userId, ...after });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid data", errors: error.errors });
+    }
+    console.error("Update agency member access error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,172 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { prisma } from "../lib/prisma.js";
+import { authenticateToken } from "../middleware/auth.js";
+import {
+  API_KEY_RESOURCES,
+  createApiKeySchema,
+  generateApiKey,
+  normalizeApiKeyScopes,
+  parseStoredScopes,
+  updateApiKeySchema,
+} from "../lib/apiKeys.js";
+
+const router = Router();
+
+/** Agency the caller may manage keys for: their first membership, as OWNER (or a platform admin). */
+async function resolveKeyManagerAgency(req: Request, res: Response): Promise<string | null> {
+  const user = req.user;
+  const membership = await prisma.userAgency.findFirst({
+    where: { userId: user.userId },
+    select: { agencyId: true, agencyRole: true },
+  });
+  if (!membership) {
+    res.status(404).json({ message: "No agency found for user" });
+    return null;
+  }
+  if (membership.agencyRole !== "OWNER" && user.role !== "ADMIN" && user.role !== "SUPER_ADMIN") {
+    res.status(403).json({ message: "Access denied. Only agency owners can manage API keys." });
+    return null;
+  }
+  return membership.agencyId;
+}
+
+function serializeApiKey(key: {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string;
+  rateLimitPerMinute: number;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  createdBy?: { name: string | null; email: string } | null;
+}) {
+  return {
+    id: key.id,
+    name: key.name,
+    prefix: key.prefix,
+    scopes: parseStoredScopes(key.scopes),
+    rateLimitPerMinute: key.rateLimitPerMinute,
+    createdAt: key.createdAt,
+    createdBy: key.createdBy ? { name: key.createdBy.name, email: key.createdBy.email } : null,
+    lastUsedAt: key.lastUsedAt,
+    lastUsedIp: key.lastUsedIp,
+    expiresAt: key.expiresAt,
+    revokedAt: key.revokedAt,
+  };
+}
+
+const createdByInclude = { createdBy: { select: { name: true, email: true } } } as const;
+
+// List the agency's API keys (never includes the secret)
+router.get("/", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agencyId = await resolveKeyManagerAgency(req, res);
+    if (!agencyId) return;
+
+    const keys = await prisma.apiKey.findMany({
+      where: { agencyId },
+      orderBy: [{ revokedAt: "asc" }, { createdAt: "desc" }],
+      include: createdByInclude,
+    });
+    res.json({ keys: keys.map(serializeApiKey), resources: API_KEY_RESOURCES });
+  } catch (error) {
+    console.error("List API keys error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Create a key; the plaintext is only returned in this response
+router.post("/", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const data = createApiKeySchema.parse(req.body);
+    const agencyId = await resolveKeyManagerAgency(req, res);
+    if (!agencyId) return;
+
+    if (data.expiresAt && data.expiresAt.getTime() <= Date.now()) {
+      return res.status(400).json({ message: "Expiry date must be in the future" });
+    }
+
+    const { plaintext, prefix, hash } = generateApiKey();
+    const key = await prisma.apiKey.create({
+      data: {
+        agencyId,
+        createdByUserId: req.user.userId,
+        name: data.name,
+        prefix,
+        keyHash: hash,
+        scopes: JSON.stringify(normalizeApiKeyScopes(data.scopes)),
+        rateLimitPerMinute: data.rateLimitPerMinute,
+        expiresAt: data.expiresAt ?? null,
+      },
+      include: createdByInclude,
+    });
+
+    res.status(201).json({ key: serializeApiKey(key), plaintext });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid input", errors: error.errors });
+    }
+    console.error("Create API key error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Rename a key or change its scopes / rate limit
+router.patch("/:id", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const data = updateApiKeySchema.parse(req.body);
+    const agencyId = await resolveKeyManagerAgency(req, res);
+    if (!agencyId) return;
+
+    const existing = await prisma.apiKey.findFirst({ where: { id: req.params.id, agencyId } });
+    if (!existing) {
+      return res.status(404).json({ message: "API key not found" });
+    }
+    if (existing.revokedAt) {
+      return res.status(400).json({ message: "Revoked keys cannot be changed" });
+    }
+
+    const key = await prisma.apiKey.update({
+      where: { id: existing.id },
+      data: {
+        ...(data.name !== undefined ? { name: data.name } : {}),
+        ...(data.scopes !== undefined ? { scopes: JSON.stringify(normalizeApiKeyScopes(data.scopes)) } : {}),
+        ...(data.rateLimitPerMinute !== undefined ? { rateLimitPerMinute: data.rateLimitPerMinute } : {}),
+      },
+      include: createdByInclude,
+    });
+    res.json({ key: serializeApiKey(key) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid input", errors: error.errors });
+    }
+    console.error("Update API key error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Revoke a key (kept for the audit trail; it stops authenticating immediately)
+router.delete("/:id", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agencyId = await resolveKeyManagerAgency(req, res);
+    if (!agencyId) return;
+
+    const existing = await prisma.apiKey.findFirst({ where: { id: req.params.id, agencyId } });
+    if (!existing) {
+      return res.status(404).json({ message: "API key not found" });
+    }
+    if (!existing.revokedAt) {
+      await prisma.apiKey.update({ where: { id: existing.id }, data: { revokedAt: new Date() } });
+    }
+    res.json({ message: "API key revoked" });
+  } catch (error) {
+    console.error("Revoke API key error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,166 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { authenticateToken } from "../middleware/auth.js";
+import { AUDIT_ACTIONS, auditEventsToCsv, getAuditActionLabel, parseAuditJson } from "../lib/auditLog.js";
+
+const router = Router();
+
+const EXPORT_ROW_LIMIT = 10000;
+
+const auditQuerySchema = z.object({
+  agencyId: z.string().trim().min(1).optional(),
+  action: z.string().trim().min(1).optional(),
+  entityType: z.string().trim().min(1).optional(),
+  clientId: z.string().trim().min(1).optional(),
+  actor: z.string().trim().min(1).max(255).optional(),
+  from: z.string().trim().min(1).optional(),
+  to: z.string().trim().min(1).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+type AuditQuery = z.infer<typeof auditQuerySchema>;
+
+/**
+ * Which events the caller may read: platform admins see every agency (optionally filtered),
+ * agency owners only their own agency (first membership).
+ */
+async function resolveAuditScope(req: Request, res: Response): Promise<{ agencyId: string | null } | null> {
+  const user = req.user;
+  if (user.role === "SUPER_ADMIN" || user.role === "ADMIN") {
+    return { agencyId: null };
+  }
+  const membership = await prisma.userAgency.findFirst({
+    where: { userId: user.userId },
+    select: { agencyId: true, agencyRole: true },
+  });
+  if (!membership) {
+    res.status(404).json({ message: "No agency found for user" });
+    return null;
+  }
+  if (membership.agencyRole !== "OWNER") {
+    res.status(403).json({ message: "Access denied. Only agency owners can view the audit log." });
+    return null;
+  }
+  return { agencyId: membership.agencyId };
+}
+
+/** Date-only `to` values include the whole day. */
+function parseDateBound(value: string | undefined, endOfDay: boolean): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return undefined;
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+function buildAuditWhere(query: AuditQuery, scopeAgencyId: string | null): Prisma.AuditEventWhereInput {
+  const from = parseDateBound(query.from, false);
+  const to = parseDateBound(query.to, true);
+  return {
+    ...(scopeAgencyId ? { agencyId: scopeAgencyId } : query.agencyId ? { agencyId: query.agencyId } : {}),
+    ...(query.action ? { action: query.action } : {}),
+    ...(query.entityType ? { entityType: query.entityType } : {}),
+    ...(query.clientId ? { clientId: query.clientId } : {}),
+    ...(query.actor ? { actorEmail: { contains: query.actor } } : {}),
+    ...(from || to ? { createdAt: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } } : {}),
+  };
+}
+
+async function loadAgencyNames(agencyIds: Array<string | null>): Promise<Map<string, string>> {
+  const ids = Array.from(new Set(agencyIds.filter((id): id is string => Boolean(id))));
+  if (ids.length === 0) return new Map();
+  const agencies = await prisma.agency.findMany({ where: { id: { in: ids } }, select: { id: true, name: true } });
+  return new Map(agencies.map((a) => [a.id, a.name]));
+}
+
+// List audit events (newest first) with filters
+router.get("/", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const scope = await resolveAuditScope(req, res);
+    if (!scope) return;
+    const query = auditQuerySchema.parse(req.query);
+    const where = buildAuditWhere(query, scope.agencyId);
+
+    const [total, events] = await Promise.all([
+      prisma.auditEvent.count({ where }),
+      prisma.auditEvent.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+    ]);
+    const agencyNames = await loadAgencyNames(events.map((e) => e.agencyId));
+    const isPlatformAdmin = scope.agencyId === null;
+
+    res.json({
+      events: events.map((event) => ({
+        id: event.id,
+        createdAt: event.createdAt,
+        action: event.action,
+        actionLabel: getAuditActionLabel(event.action),
+        actorUserId: event.actorUserId,
+        actorEmail: event.actorEmail,
+        actorRole: event.actorRole,
+        agencyId: event.agencyId,
+        agencyName: event.agencyId ? agencyNames.get(event.agencyId) ?? null : null,
+        clientId: event.clientId,
+        entityType: event.entityType,
+        entityId: event.entityId,
+        entityLabel: event.entityLabel,
+        changes: parseAuditJson(event.changes),
+        metadata: parseAuditJson(event.metadata),
+        ipAddress: event.ipAddress,
+      })),
+      total,
+      page: query.page,
+      limit: query.limit,
+      actions: AUDIT_ACTIONS,
+      agencies: isPlatformAdmin
+        ? await prisma.agency.findMany({ select: { id: true, name: true }, orderBy: { name: "asc" } })
+        : undefined,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid input", errors: error.errors });
+    }
+    console.error("List audit events error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// CSV export of the filtered events (newest first, capped at EXPORT_ROW_LIMIT rows)
+router.get("/export", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const scope = await resolveAuditScope(req, res);
+    if (!scope) return;
+    const query = auditQuerySchema.parse(req.query);
+    const events = await prisma.auditEvent.findMany({
+      where: buildAuditWhere(query, scope.agencyId),
+      orderBy: { createdAt: "desc" },
+      take: EXPORT_ROW_LIMIT,
+    });
+    const agencyNames = await loadAgencyNames(events.map((e) => e.agencyId));
+    const csv = auditEventsToCsv(
+      events.map((event) => ({ ...event, agencyName: event.agencyId ? agencyNames.get(event.agencyId) ?? null : null }))
+    );
+
+    const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.send(csv);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid input", errors: error.errors });
+    }
+    console.error("Export audit events error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -2,12 +2,45 @@ import express from "express";
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
 import { z } from "zod";
-import type { TokenType } from "@prisma/client";
+import type { Prisma, TokenType } from "@prisma/client";
 import { prisma } from "../lib/prisma.js";
 import { sendEmail } from "../lib/email.js";
 import { BRAND_DISPLAY_NAME } from "../lib/qualityContracts.js";
+import { decryptSecret, encryptSecret } from "../lib/secretEncryption.js";
 import { authenticateToken, getJwtSecret } from "../middleware/auth.js";
 import { normalizeDomainHost } from "../lib/domainProvisioning.js";
+import {
+  isTwoFactorRequiredForUser,
+  signStepUpToken,
+  secondFactorFailure,
+  signTwoFactorChallenge,
+  verifySecondFactor,
+  verifyTwoFactorChallenge,
+} from "../lib/twoFactor.js";
+import {
+  buildOtpAuthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  parseStoredRecoveryCodes,
+  verifyTotp,
+} from "../lib/totp.js";
+import {
+  createUserSession,
+  describeUserAgent,
+  refreshUserSession,
+  revokeSession,
+  revokeUserSessions,
+  sessionMetaFromRequest,
+  signAccessToken,
+} from "../lib/sessions.js";
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_EVENTS,
+  mergeNotificationPreferences,
+  notificationSettingsSchema,
+  parseNotificationPreferences,
+} from "../lib/notificationPreferences.js";
 
 const router = express.Router();
 
@@ -25,6 +58,22 @@ const loginSchema = z.object({
   password: z.string(),
 });
 
+const loginTwoFactorSchema = z.object({
+  challengeToken: z.string().min(1),
+  code: z.string().trim().min(1),
+});
+
+const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1),
+});
+
+const stepUpSchema = z
+  .object({
+    code: z.string().trim().min(1).optional(),
+    password: z.string().min(1).optional(),
+  })
+  .refine((data) => Boolean(data.code || data.password), "Enter your authentication code or password");
+
 const domainStatusOrder = [
   "NONE",
   "PENDING_VERIFICATION",
@@ -196,6 +245,82 @@ router.post("/register", async (req, res) => {
   }
 });
 
+const loginUserInclude = {
+  memberships: {
+    include: {
+      agency: true,
+    },
+  },
+  clientUsers: {
+    where: { status: "ACTIVE" as const },
+    select: { clientId: true, clientRole: true, status: true },
+  },
+} satisfies Prisma.UserInclude;
+
+type LoginUser = Prisma.UserGetPayload<{ include: typeof loginUserInclude }>;
+
+/** Final step of a successful sign-in (after the password and, when enrolled, the 2FA code). */
+async function respondWithSession(req: express.Request, res: express.Response, user: LoginUser) {
+  const activeAgencyMemberships = getActiveAgencyMemberships(user.memberships);
+  if (user.role === "AGENCY" && activeAgencyMemberships.length === 0) {
+    return res.status(403).json({
+      message: "Your agency account is no longer active. Please contact support.",
+    });
+  }
+
+  // Track last login time (useful for client user lists)
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lastLoginAt: new Date() },
+  });
+
+  let clientUsers = user.clientUsers ?? [];
+  if (user.role === "USER" && clientUsers.length === 0) {
+    const pendingCount = await prisma.clientUser.count({
+      where: { userId: user.id, status: "PENDING" },
+    });
+    if (pendingCount > 0) {
+      const acceptedAt = new Date();
+      await prisma.clientUser.updateMany({
+        where: { userId: user.id, status: "PENDING" },
+        data: { status: "ACTIVE", acceptedAt },
+      });
+      clientUsers = await prisma.clientUser.findMany({
+        where: { userId: user.id, status: "ACTIVE" },
+        select: { clientId: true, clientRole: true, status: true },
+      });
+    }
+  }
+
+  const { token, refreshToken } = await createUserSession(user, sessionMetaFromRequest(req));
+  const primaryAgency = activeAgencyMemberships[0]?.agency ?? null;
+  return res.json({
+    token,
+    refreshToken,
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      profileImageUrl: (user as any).profileImageUrl ?? null,
+      role: user.role,
+      verified: user.verified,
+      invited: user.invited,
+      clientAccess: {
+        clients: clientUsers.map((c: { clientId: string; clientRole: string; status: string }) => ({
+          clientId: c.clientId,
+          role: c.clientRole,
+          status: c.status,
+        })),
+      },
+      agencyBranding: mapAgencyBranding(primaryAgency),
+      twoFactor: {
+        enabled: user.twoFactorEnabled,
+        setupRequired: !user.twoFactorEnabled && user.memberships.some((m) => Boolean(m.agency?.requireTwoFactor)),
+      },
+    },
+  });
+}
+
 // Login
 router.post("/login", async (req, res) => {
   try {
@@ -213,17 +338,7 @@ router.post("/login", async (req, res) => {
     // Find user
     const user = await prisma.user.findUnique({
       where: { email },
-      include: {
-        memberships: {
-          include: {
-            agency: true,
-          },
-        },
-        clientUsers: {
-          where: { status: "ACTIVE" },
-          select: { clientId: true, clientRole: true, status: true },
-        },
-      },
+      include: loginUserInclude,
     });
 
     if (!user || !user.passwordHash) {
@@ -243,64 +358,14 @@ router.post("/login", async (req, res) => {
         .json({ message: "Please verify your email before logging in" });
     }
 
-    const activeAgencyMemberships = getActiveAgencyMemberships(user.memberships);
-    if (user.role === "AGENCY" && activeAgencyMemberships.length === 0) {
-      return res.status(403).json({
-        message: "Your agency account is no longer active. Please contact support.",
+    if (user.twoFactorEnabled) {
+      return res.json({
+        twoFactorRequired: true,
+        challengeToken: signTwoFactorChallenge(user.id, user.twoFactorFailedAttempts),
       });
     }
 
-    // Track last login time (useful for client user lists)
-    await prisma.user.update({
-      where: { id: user.id },
-      data: { lastLoginAt: new Date() },
-    });
-
-    let clientUsers = user.clientUsers ?? [];
-    if (user.role === "USER" && clientUsers.length === 0) {
-      const pendingCount = await prisma.clientUser.count({
-        where: { userId: user.id, status: "PENDING" },
-      });
-      if (pendingCount > 0) {
-        const acceptedAt = new Date();
-        await prisma.clientUser.updateMany({
-          where: { userId: user.id, status: "PENDING" },
-          data: { status: "ACTIVE", acceptedAt },
-        });
-        clientUsers = await prisma.clientUser.findMany({
-          where: { userId: user.id, status: "ACTIVE" },
-          select: { clientId: true, clientRole: true, status: true },
-        });
-      }
-    }
-
-    // Generate JWT
-    const token = jwt.sign(
-      { userId: user.id, email: user.email, role: user.role },
-      getJwtSecret(),
-      { expiresIn: "7d" }
-    );
-    const primaryAgency = activeAgencyMemberships[0]?.agency ?? null;
-    res.json({
-      token,
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        profileImageUrl: (user as any).profileImageUrl ?? null,
-        role: user.role,
-        verified: user.verified,
-        invited: user.invited,
-        clientAccess: {
-          clients: clientUsers.map((c: { clientId: string; clientRole: string; status: string }) => ({
-            clientId: c.clientId,
-            role: c.clientRole,
-            status: c.status,
-          })),
-        },
-        agencyBranding: mapAgencyBranding(primaryAgency),
-      },
-    });
+    return await respondWithSession(req, res, user);
   } catch (error: any) {
     console.error("Login error:", error);
     if (error?.name === "ZodError") {
@@ -310,6 +375,38 @@ router.post("/login", async (req, res) => {
   }
 });
 
+// Login, second step: exchange the challenge from /login plus a TOTP or recovery code for a session
+router.post("/login/2fa", async (req, res) => {
+  try {
+    const { challengeToken, code } = loginTwoFactorSchema.parse(req.body);
+    const challenge = verifyTwoFactorChallenge(challengeToken);
+    if (!challenge) {
+      return res.status(401).json({ message: "Your sign-in attempt expired. Please sign in again." });
+    }
+
+    const result = await verifySecondFactor(challenge.userId, code, { challenge });
+    if (!result.ok) {
+      const failure = secondFactorFailure(result, 401);
+      return res.status(failure.status).json({ message: failure.message });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: challenge.userId },
+      include: loginUserInclude,
+    });
+    if (!user || !user.verified) {
+      return res.status(401).json({ message: "Invalid credentials" });
+    }
+    return await respondWithSession(req, res, user);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid input", errors: error.errors });
+    }
+    console.error("Login 2FA error:", error);
+    res.status(500).json({ message: "Login failed" });
+  }
+});
+
 // Get current user
 router.get("/me", authenticateToken, async (req, res) => {
   try {
@@ -339,16 +436,7 @@ router.get("/me", authenticateToken, async (req, res) => {
       });
     }
 
-    const prefs = user.notificationPreferences as Record<string, boolean> | null;
-    const notificationPreferences = prefs && typeof prefs === "object"
-      ? {
-        emailReports: prefs.emailReports ?? true,
-        rankingAlerts: prefs.rankingAlerts ?? true,
-        weeklyDigest: prefs.weeklyDigest ?? false,
-        teamUpdates: prefs.teamUpdates ?? true,
-        webDesign: prefs.webDesign ?? true,
-      }
-      : { emailReports: true, rankingAlerts: true, weeklyDigest: false, teamUpdates: true, webDesign: true };
+    const notificationPreferences = parseNotificationPreferences(user.notificationPreferences);
 
     let specialties: string[] = [];
     if (user.specialties && user.role === "SPECIALIST") {
@@ -397,6 +485,13 @@ router.get("/me", authenticateToken, async (req, res) => {
         })),
       },
       agencyBranding: mapAgencyBranding(primaryAgency),
+      twoFactor: {
+        enabled: user.twoFactorEnabled,
+        enabledAt: user.twoFactorEnabledAt,
+        recoveryCodesRemaining: parseStoredRecoveryCodes(user.twoFactorRecoveryCodes).length,
+        requiredByAgency: user.memberships.some((m) => Boolean(m.agency?.requireTwoFactor)),
+        setupRequired: Boolean(req.user.twoFactorSetupRequired) && !user.twoFactorEnabled,
+      },
     });
   } catch (error) {
     console.error("Get user error:", error);
@@ -424,15 +519,26 @@ router.get("/branding", async (req, res) => {
   }
 });
 
-const notificationSettingsSchema = z.object({
-  emailReports: z.boolean().optional(),
-  rankingAlerts: z.boolean().optional(),
-  weeklyDigest: z.boolean().optional(),
-  teamUpdates: z.boolean().optional(),
-  webDesign: z.boolean().optional(),
+// Current user's notification preferences plus the event and channel catalog the settings matrix renders
+router.get("/me/notification-settings", authenticateToken, async (req, res) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.userId },
+      select: { notificationPreferences: true },
+    });
+    if (!user) return res.status(404).json({ message: "User not found" });
+    return res.json({
+      notificationPreferences: parseNotificationPreferences(user.notificationPreferences),
+      events: NOTIFICATION_EVENTS.map(({ id, label, description }) => ({ id, label, description })),
+      channels: NOTIFICATION_CHANNELS,
+    });
+  } catch (error) {
+    console.error("Get notification settings error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
 });
 
-// Update current user notification preferences
+// Update current user notification preferences (partial: only the given toggles and routing cells change)
 router.patch("/me/notification-settings", authenticateToken, async (req, res) => {
   try {
     const body = notificationSettingsSchema.safeParse(req.body);
@@ -444,14 +550,7 @@ router.patch("/me/notification-settings", authenticateToken, async (req, res) =>
       select: { notificationPreferences: true },
     });
     if (!user) return res.status(404).json({ message: "User not found" });
-    const current = (user.notificationPreferences as Record<string, boolean>) || {};
-    const next = {
-      emailReports: body.data.emailReports ?? current.emailReports ?? true,
-      rankingAlerts: body.data.rankingAlerts ?? current.rankingAlerts ?? true,
-      weeklyDigest: body.data.weeklyDigest ?? current.weeklyDigest ?? false,
-      teamUpdates: body.data.teamUpdates ?? current.teamUpdates ?? true,
-      webDesign: body.data.webDesign ?? current.webDesign ?? true,
-    };
+    const next = mergeNotificationPreferences(parseNotificationPreferences(user.notificationPreferences), body.data);
     await prisma.user.update({
       where: { id: req.user.userId },
       data: { notificationPreferences: next },
@@ -665,15 +764,21 @@ router.post("/invite/accept", async (req, res) => {
         data: { usedAt: new Date() },
       });
 
-      // Issue login JWT
-      const jwtToken = jwt.sign(
-        { userId: user.id, email: user.email, role: user.role },
-        getJwtSecret(),
-        { expiresIn: "7d" }
-      );
+      // Accounts with 2FA must sign in normally so the second factor is checked
+      if (user.twoFactorEnabled) {
+        return res.json({
+          message: "Invite accepted. Sign in to continue.",
+          twoFactorRequired: true,
+          redirect: { clientId: clientIds[0] },
+        });
+      }
+
+      // Sign the new client user in on this device
+      const session = await createUserSession(user, sessionMetaFromRequest(req));
 
       return res.json({
-        token: jwtToken,
+        token: session.token,
+        refreshToken: session.refreshToken,
         user: {
           id: user.id,
           email: user.email,
@@ -706,13 +811,10 @@ router.post("/invite/accept", async (req, res) => {
         where: { id: record.id },
         data: { usedAt: new Date() },
       });
-      const jwtToken = jwt.sign(
-        { userId: updated.id, email: updated.email, role: updated.role },
-        getJwtSecret(),
-        { expiresIn: "7d" }
-      );
+      const session = await createUserSession(updated, sessionMetaFromRequest(req));
       return res.json({
-        token: jwtToken,
+        token: session.token,
+        refreshToken: session.refreshToken,
         user: { id: updated.id, email: updated.email, name: updated.name, role: updated.role, verified: updated.verified, invited: updated.invited },
         redirect: { type: "TEAM" },
       });
@@ -774,16 +876,13 @@ router.post("/verify", async (req, res) => {
     });
 
     // Return JWT so frontend can auto-log in without redirecting to login page
-    const jwtToken = jwt.sign(
-      { userId: user.id, email: user.email, role: user.role },
-      getJwtSecret(),
-      { expiresIn: "7d" }
-    );
+    const session = await createUserSession(user, sessionMetaFromRequest(req));
 
     const clientUsers = user.clientUsers ?? [];
     res.json({
       message: "Email verified successfully",
-      token: jwtToken,
+      token: session.token,
+      refreshToken: session.refreshToken,
       user: {
         id: user.id,
         email: user.email,
@@ -993,6 +1092,8 @@ router.post("/reset-password", async (req, res) => {
       where: { id: record.id },
       data: { usedAt: new Date() },
     });
+    // Whoever knew the old password may still be signed in somewhere
+    await revokeUserSessions(record.userId!, "password_reset");
     return res.json({ message: "Password updated successfully. You can now sign in." });
   } catch (error: any) {
     if (error?.name === "ZodError") {
@@ -1042,7 +1143,12 @@ router.put("/password", authenticateToken, async (req, res) => {
       data: { passwordHash: newPasswordHash },
     });
 
-    res.json({ message: "Password updated successfully" });
+    // Keep this device signed in; every other session must sign in with the new password
+    const signedOutSessions = await revokeUserSessions(userId, "password_changed", {
+      exceptSessionId: req.user.sid,
+    });
+
+    res.json({ message: "Password updated successfully", signedOutSessions });
   } catch (error: any) {
     if (error.name === "ZodError") {
       return res.status(400).json({ message: "Invalid input", errors: error.errors });
@@ -1052,6 +1158,287 @@ router.put("/password", authenticateToken, async (req, res) => {
   }
 });
 
+// Start 2FA enrollment: store a pending secret and return it for the authenticator app
+router.post("/2fa/setup", authenticateToken, async (req, res) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.userId },
+      include: { memberships: { include: { agency: true } } },
+    });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+    }
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorPendingSecret: encryptSecret(secret) },
+    });
+
+    const agency = getActiveAgencyMemberships(user.memberships)[0]?.agency as
+      | { brandDisplayName?: string | null; name?: string | null }
+      | undefined;
+    const issuer = agency?.brandDisplayName || agency?.name || BRAND_DISPLAY_NAME;
+    res.json({
+      secret,
+      otpauthUrl: buildOtpAuthUri({ secret, accountName: user.email, issuer }),
+    });
+  } catch (error) {
+    console.error("2FA setup error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Finish enrollment with the first code; returns one-time recovery codes and a fresh access token for this session
+router.post("/2fa/enable", authenticateToken, async (req, res) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    const user = await prisma.user.findUnique({ where: { id: req.user.userId } });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+    }
+    if (!user.twoFactorPendingSecret) {
+      return res.status(400).json({ message: "Start two-factor setup first" });
+    }
+
+    const step = verifyTotp(decryptSecret(user.twoFactorPendingSecret)!, code);
+    if (step === null) {
+      return res.status(400).json({ message: "Invalid authentication code" });
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    const updated = await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorEnabled: true,
+        // Already encrypted at setup
+        twoFactorSecret: user.twoFactorPendingSecret,
+        twoFactorPendingSecret: null,
+        twoFactorEnabledAt: new Date(),
+        twoFactorLastUsedStep: step,
+        twoFactorRecoveryCodes: JSON.stringify(recoveryCodes.map(hashRecoveryCode)),
+      },
+    });
+
+    res.json({
+      message: "Two-factor authentication enabled",
+      recoveryCodes,
+      ...(req.user.sid
+        ? { token: await signAccessToken(updated, req.user.sid) }
+        : await createUserSession(updated, sessionMetaFromRequest(req))),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid input", errors: error.errors });
+    }
+    console.error("2FA enable error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Turn 2FA off (requires a current code); not allowed while an agency enforces it
+router.post("/2fa/disable", authenticateToken, async (req, res) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    const userId = req.user.userId;
+    if (await isTwoFactorRequiredForUser(userId)) {
+      return res.status(403).json({ message: "Your agency requires two-factor authentication for all team members." });
+    }
+    const result = await verifySecondFactor(userId, code);
+    if (!result.ok) {
+      const failure = secondFactorFailure(result);
+      return res.status(failure.status).json({ message: failure.message });
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorPendingSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorRecoveryCodes: null,
+        twoFactorLastUsedStep: null,
+      },
+    });
+    res.json({ message: "Two-factor authentication disabled" });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid input", errors: error.errors });
+    }
+    console.error("2FA disable error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Replace all recovery codes (requires a current code)
+router.post("/2fa/recovery-codes", authenticateToken, async (req, res) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    const userId = req.user.userId;
+    const result = await verifySecondFactor(userId, code);
+    if (!result.ok) {
+      const failure = secondFactorFailure(result);
+      return res.status(failure.status).json({ message: failure.message });
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorRecoveryCodes: JSON.stringify(recoveryCodes.map(hashRecoveryCode)) },
+    });
+    res.json({ recoveryCodes });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid input", errors: error.errors });
+    }
+    console.error("2FA recovery codes error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Re-authenticate before a sensitive action: a 2FA code when enrolled, otherwise the account password
+router.post("/step-up", authenticateToken, async (req, res) => {
+  try {
+    const { code, password } = stepUpSchema.parse(req.body);
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.userId },
+      select: { id: true, passwordHash: true, twoFactorEnabled: true },
+    });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+
+    if (user.twoFactorEnabled) {
+      if (!code) {
+        return res.status(400).json({ message: "Invalid authentication code", method: "totp" });
+      }
+      const result = await verifySecondFactor(user.id, code);
+      if (!result.ok) {
+        const failure = secondFactorFailure(result);
+        return res.status(failure.status).json({ message: failure.message, method: "totp" });
+      }
+    } else {
+      const valid = Boolean(password && user.passwordHash && (await bcrypt.compare(password, user.passwordHash)));
+      if (!valid) {
+        return res.status(400).json({ message: "Incorrect password", method: "password" });
+      }
+    }
+
+    res.json(signStepUpToken(user.id));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors?.[0]?.message || "Invalid input", errors: error.errors });
+    }
+    console.error("Step-up error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+// Exchange a refresh token for a new access token; the refresh token is rotated on every use
+router.post("/refresh", async (req, res) => {
+  try {
+    const { refreshToken } = refreshSchema.parse(req.body);
+    const result = await refreshUserSession(refreshToken, sessionMetaFromRequest(req));
+    if (result.ok === false) {
+      if (result.reason === "superseded") {
+        // Another tab refreshed with the same token moments ago; the client should pick up the newer one
+        return res.status(409).json({ message: "Session was refreshed elsewhere", code: "REFRESH_SUPERSEDED" });
+      }
+      return res.status(401).json({ message: "Session expired. Please login again.", code: "SESSION_REVOKED" });
+    }
+    res.json({ token: result.token, refreshToken: result.refreshToken });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid input", errors: error.errors });
+    }
+    console.error("Refresh session error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Sign out this device
+router.post("/logout", authenticateToken, async (req, res) => {
+  try {
+    if (req.user.sid) {
+      await revokeSession(req.user.sid, "logout");
+    }
+    res.json({ message: "Signed out" });
+  } catch (error) {
+    console.error("Logout error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Where you're signed in: active sessions of the current user, newest activity first
+router.get("/sessions", authenticateToken, async (req, res) => {
+  try {
+    const sessions = await prisma.userSession.findMany({
+      where: { userId: req.user.userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastUsedAt: "desc" },
+      include: { impersonatedBy: { select: { name: true, email: true } } },
+    });
+    res.json(
+      sessions.map((session) => ({
+        id: session.id,
+        device: describeUserAgent(session.userAgent),
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        current: session.id === req.user.sid,
+        impersonatedBy: session.impersonatedBy
+          ? session.impersonatedBy.name || session.impersonatedBy.email
+          : null,
+      }))
+    );
+  } catch (error) {
+    console.error("List sessions error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Sign out other devices (keeps the current one)
+router.post("/sessions/revoke-others", authenticateToken, async (req, res) => {
+  try {
+    const revoked = await revokeUserSessions(req.user.userId, "revoked_by_user", {
+      exceptSessionId: req.user.sid,
+    });
+    res.json({ message: "Signed out of other devices", revoked });
+  } catch (error) {
+    console.error("Revoke other sessions error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Sign out one device
+router.delete("/sessions/:id", authenticateToken, async (req, res) => {
+  try {
+    const session = await prisma.userSession.findFirst({
+      where: { id: req.params.id, userId: req.user.userId },
+      select: { id: true },
+    });
+    if (!session) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+    await revokeSession(session.id, "revoked_by_user");
+    res.json({ message: "Session signed out", current: session.id === req.user.sid });
+  } catch (error) {
+    console.error("Revoke session error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
 // Deliverability diagnostic: send a test invite-style email and return metadata.
 router.post("/email-deliverability-test", authenticateToken, async (req, res) => {
   try {
@@ -2,12 +2,28 @@ import express from 'express';
 import jwt from 'jsonwebtoken';
 import { z } from 'zod';
 import bcrypt from 'bcryptjs';
+import type { Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma.js';
 import { authenticateToken, optionalAuthenticateToken, getJwtSecret } from '../middleware/auth.js';
 import { requireAgencyTrialNotExpired } from '../middleware/requireAgencyTrialNotExpired.js';
+import { requireStepUp } from '../middleware/requireStepUp.js';
+import { createUserSession, revokeUserSessions, sessionMetaFromRequest } from '../lib/sessions.js';
+import { recordAuditEvent } from '../lib/auditLog.js';
+import { REDACTED_SECRET, decryptSecret, encryptClientSecretFields, encryptSecret, redactClientSecrets } from '../lib/secretEncryption.js';
 import { sendEmail } from '../lib/email.js';
 import { getAgencyTierContext, canAddDashboard } from '../lib/agencyLimits.js';
 import { BRAND_DISPLAY_NAME } from "../lib/qualityContracts.js";
+import {
+    CsvImportError,
+    describeImportFields,
+    importRequestSchema,
+    prepareImport,
+    summarizeImportResults,
+    type ImportFieldSpec,
+    type ImportRowResult,
+} from '../lib/csvImport.js';
+import { parseSpreadsheetFormat, sendSpreadsheet } from '../lib/spreadsheetExport.js';
+import { authorize, canAccessClient, loadAgencyAccess, restrictedClientIds } from '../lib/permissions.js';
 
 const router = express.Router();
 
@@ -97,6 +113,10 @@ async function canStaffAccessClient(user: { userId: string; role: string }, clie
 
   // Agency/Specialist users: check if in same agency (owner's membership), client belongs to agency, included, or specialist has tasks for client
   if (user.role === 'AGENCY' || user.role === 'SPECIALIST') {
+        // Members limited to specific clients (custom per-client access) see nothing else
+        if (!canAccessClient(await loadAgencyAccess(user), clientId)) {
+            return { client, hasAccess: false };
+        }
         const userMemberships = await prisma.userAgency.findMany({
             where: { userId: user.userId },
             select: { agencyId: true },
@@ -139,6 +159,30 @@ async function canStaffAccessClient(user: { userId: string; role: string }, clie
     return { client, hasAccess: false };
 }
 
+/**
+ * List filter matching canStaffAccessClient for agency and specialist users (admins see every client), including
+ * custom per-client access.
+ */
+async function staffClientScopeWhere(user: { userId: string; role: string }): Promise<Prisma.ClientWhereInput> {
+    if (user.role === 'ADMIN' || user.role === 'SUPER_ADMIN') return {};
+    const memberships = await prisma.userAgency.findMany({
+        where: { userId: user.userId },
+        select: { agencyId: true },
+    });
+    const agencyIds = memberships.map((m) => m.agencyId);
+    const allowedClientIds = restrictedClientIds(await loadAgencyAccess(user));
+    return {
+        ...(allowedClientIds ? { id: { in: allowedClientIds } } : {}),
+        OR: [
+            { userId: user.userId },
+            { user: { memberships: { some: { agencyId: { in: agencyIds } } } } },
+            { belongsToAgencyId: { in: agencyIds } },
+            { agencyInclusions: { some: { agencyId: { in: agencyIds } } } },
+            ...(user.role === 'SPECIALIST' ? [{ Task: { some: { assigneeId: user.userId } } }] : []),
+        ],
+    };
+}
+
 const createClientSchema = z.object({
     name: z.string().min(1),
     // Accept common inputs (domain.com, www.domain.com, https://domain.com/path) and normalize server-side.
@@ -169,6 +213,18 @@ const superAdminOnlyAccountInfoKeys = [
     'serviceStartDate',
 ] as const;
 
+const websitePasswordRevealRoles = ['SUPER_ADMIN', 'ADMIN', 'AGENCY', 'SPECIALIST'];
+
+/** A portal user removed from their last client is signed out everywhere instead of keeping a session until it expires. */
+async function revokeSessionsIfNoClientAccessLeft(userId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { role: true } });
+    if (user?.role !== 'USER') return;
+    const remaining = await prisma.clientUser.count({ where: { userId, status: 'ACTIVE' } });
+    if (remaining === 0) {
+        await revokeUserSessions(userId, 'removed_from_client');
+    }
+}
+
 function sanitizeAccountInfo(input: any, canEditRestricted: boolean, isSuperAdmin: boolean = false) {
     if (!input || typeof input !== 'object' || Array.isArray(input)) return null;
     const next: Record<string, any> = { ...(input as any) };
@@ -282,6 +338,7 @@ router.get('/', authenticateToken, async (req, res) => {
             });
 
             const agencyIds = memberships.map(m => m.agencyId);
+            const allowedClientIds = restrictedClientIds(await loadAgencyAccess(req.user));
 
             clients = await prisma.client.findMany({
                 where: {
@@ -290,6 +347,7 @@ router.get('/', authenticateToken, async (req, res) => {
                             some: { agencyId: { in: agencyIds } },
                         },
                     },
+                    ...(allowedClientIds ? { id: { in: allowedClientIds } } : {}),
                 },
                 include: {
                     user: {
@@ -361,7 +419,7 @@ router.get('/', authenticateToken, async (req, res) => {
                 .filter(Boolean);
 
             return {
-                ...client,
+                ...redactClientSecrets(client),
                 keywords: kw?._count?.id || 0,
                 avgPosition: kw?._avg?.currentPosition ? Math.round(kw._avg.currentPosition * 10) / 10 : null,
                 topRankings: topRankingsMap.get(client.id) || 0,
@@ -532,11 +590,16 @@ router.put('/users/:userId/access', authenticateToken, async (req, res) => {
 
         // Remove unselected (only where requester has access)
         const existing = await prisma.clientUser.findMany({ where: { userId }, select: { clientId: true } });
+        let removedAny = false;
         for (const m of existing) {
             if (desired.has(m.clientId)) continue;
             const { hasAccess } = await canStaffAccessClient(req.user, m.clientId);
             if (!hasAccess) continue;
             await prisma.clientUser.delete({ where: { clientId_userId: { clientId: m.clientId, userId } } });
+            removedAny = true;
+        }
+        if (removedAny) {
+            await revokeSessionsIfNoClientAccessLeft(userId);
         }
 
         return res.json({ message: 'Access updated' });
@@ -549,6 +612,213 @@ router.put('/users/:userId/access', authenticateToken, async (req, res) => {
     }
 });
 
+// ---------- CSV import / export ----------
+
+const CLIENT_IMPORT_MAX_ROWS = 500;
+
+/** Columns of the client import/export; labels double as export headers so an export re-imports without remapping. */
+const CLIENT_IMPORT_FIELDS: ImportFieldSpec[] = [
+    { key: 'name', label: 'Name', required: true, maxLength: 255, aliases: ['client', 'clientname', 'business', 'businessname', 'company'] },
+    { key: 'domain', label: 'Domain', required: true, aliases: ['website', 'websiteurl', 'url', 'site'] },
+    { key: 'industry', label: 'Industry', maxLength: 255 },
+    { key: 'targets', label: 'Target keywords', type: 'list', aliases: ['keywords', 'targets'] },
+    { key: 'loginUrl', label: 'Website login URL', aliases: ['loginurl', 'login'] },
+    { key: 'username', label: 'Website username', aliases: ['username', 'loginusername'] },
+    { key: 'password', label: 'Website password', aliases: ['password', 'loginpassword'] },
+    // accountInfo
+    { key: 'businessNiche', label: 'Business niche', aliases: ['niche'] },
+    { key: 'businessDescription', label: 'Business description', aliases: ['description'] },
+    { key: 'businessAddress', label: 'Business address', aliases: ['address'] },
+    { key: 'primaryLocationCity', label: 'City', aliases: ['primarycity'] },
+    { key: 'primaryLocationState', label: 'State', aliases: ['primarystate'] },
+    { key: 'serviceRadius', label: 'Service radius' },
+    { key: 'serviceAreasServed', label: 'Service areas served', aliases: ['serviceareas'] },
+    { key: 'phoneNumber', label: 'Phone number', aliases: ['phone'] },
+    { key: 'emailAddress', label: 'Email address', aliases: ['email'] },
+    { key: 'campaignType', label: 'Campaign type', options: ['Local', 'National'] },
+    { key: 'gbpPrimaryCategory', label: 'GBP primary category' },
+    { key: 'gbpSecondaryCategories', label: 'GBP secondary categories' },
+    { key: 'primaryServicesList', label: 'Primary services' },
+    { key: 'secondaryServicesList', label: 'Secondary services' },
+    { key: 'latitude', label: 'Latitude', type: 'number', aliases: ['lat'] },
+    { key: 'longitude', label: 'Longitude', type: 'number', aliases: ['lng', 'lon'] },
+    { key: 'seoRoadmapStartMonth', label: 'SEO roadmap start month' },
+    { key: 'pagesPerMonth', label: 'Pages per month', type: 'integer' },
+    { key: 'technicalHoursPerMonth', label: 'Technical hours per month', type: 'number' },
+    { key: 'campaignDurationMonths', label: 'Campaign duration (months)', type: 'integer' },
+];
+
+const CLIENT_COLUMN_KEYS = new Set(['name', 'domain', 'industry', 'targets', 'loginUrl', 'username', 'password']);
+const CLIENT_ACCOUNT_INFO_FIELDS = CLIENT_IMPORT_FIELDS.filter((field) => !CLIENT_COLUMN_KEYS.has(field.key));
+
+// Import clients from CSV. Dry runs (the default) validate every row and report what would happen; nothing is written.
+router.post('/import', authenticateToken, async (req, res) => {
+    try {
+        if (req.user.role === 'USER') {
+            return res.status(403).json({ message: 'Access denied' });
+        }
+        if (!(await authorize(req, res, 'edit_clients'))) return;
+        const body = importRequestSchema.parse(req.body);
+        const prepared = prepareImport(body, CLIENT_IMPORT_FIELDS, CLIENT_IMPORT_MAX_ROWS);
+        const base = { headers: prepared.headers, mapping: prepared.mapping, fields: describeImportFields(CLIENT_IMPORT_FIELDS), missingRequired: prepared.missingRequired };
+        if (prepared.missingRequired.length > 0) {
+            if (!body.dryRun) return res.status(400).json({ message: `Map a column for: ${prepared.missingRequired.join(', ')}` });
+            return res.json({ ...base, dryRun: true, summary: summarizeImportResults([]), rows: [] });
+        }
+
+        const isSuperAdmin = req.user.role === 'SUPER_ADMIN';
+        const canEditRestricted = req.user.role === 'SUPER_ADMIN' || req.user.role === 'SPECIALIST';
+        const tierCtx = await getAgencyTierContext(req.user.userId, req.user.role);
+
+        // Normalize domains up front so duplicate checks compare like with like.
+        const candidates = prepared.rows.map((row) => {
+            const errors = [...row.errors];
+            let domain: string | null = null;
+            if (typeof row.values.domain === 'string') {
+                try {
+                    domain = normalizeDomainInput(row.values.domain);
+                } catch (e: any) {
+                    errors.push(e?.message || 'Invalid domain');
+                }
+            }
+            return { ...row, name: typeof row.values.name === 'string' ? row.values.name : '', domain, errors };
+        });
+        const existing = await prisma.client.findMany({
+            where: {
+                userId: req.user.userId,
+                OR: [
+                    { domain: { in: candidates.map((c) => c.domain).filter((d): d is string => Boolean(d)) } },
+                    { name: { in: candidates.map((c) => c.name).filter(Boolean) } },
+                ],
+            },
+            select: { name: true, domain: true },
+        });
+        const existingDomains = new Set(existing.map((c) => c.domain));
+        const existingNames = new Set(existing.map((c) => c.name));
+        const seenDomains = new Map<string, number>();
+        const seenNames = new Map<string, number>();
+
+        const results: ImportRowResult[] = [];
+        let readyCount = 0;
+        for (const candidate of candidates) {
+            const label = candidate.name || String(candidate.values.domain ?? '') || `Row ${candidate.row}`;
+            if (candidate.errors.length > 0) {
+                results.push({ row: candidate.row, status: 'error', label, messages: candidate.errors });
+                continue;
+            }
+            const domain = candidate.domain as string;
+            const duplicateOf = seenDomains.get(domain) ?? seenNames.get(candidate.name);
+            if (duplicateOf) {
+                results.push({ row: candidate.row, status: 'error', label, messages: [`Same client as row ${duplicateOf}`] });
+                continue;
+            }
+            seenDomains.set(domain, candidate.row);
+            seenNames.set(candidate.name, candidate.row);
+            if (existingDomains.has(domain) || existingNames.has(candidate.name)) {
+                results.push({
+                    row: candidate.row,
+                    status: 'skipped',
+                    label,
+                    messages: [existingDomains.has(domain) ? 'You already have a client with this domain' : 'You already have a client with this name'],
+                });
+                continue;
+            }
+            const limit = canAddDashboard({ ...tierCtx, dashboardCount: tierCtx.dashboardCount + readyCount });
+            if (!limit.allowed) {
+                results.push({ row: candidate.row, status: 'error', label, messages: [limit.message || 'Plan limit reached'] });
+                continue;
+            }
+            readyCount++;
+
+            if (body.dryRun) {
+                results.push({ row: candidate.row, status: 'ready', label, messages: [] });
+                continue;
+            }
+            const accountInfo = Object.fromEntries(
+                CLIENT_ACCOUNT_INFO_FIELDS.filter((field) => candidate.values[field.key] !== null).map((field) => [field.key, candidate.values[field.key]])
+            );
+            const safeAccountInfo = sanitizeAccountInfo(accountInfo, canEditRestricted, isSuperAdmin);
+            const values = candidate.values;
+            try {
+                await prisma.client.create({
+                    data: encryptClientSecretFields({
+                        name: candidate.name.trim(),
+                        domain,
+                        industry: typeof values.industry === 'string' ? values.industry : undefined,
+                        targets: Array.isArray(values.targets) && values.targets.length > 0 ? JSON.stringify(values.targets) : null,
+                        loginUrl: typeof values.loginUrl === 'string' ? values.loginUrl : null,
+                        username: typeof values.username === 'string' ? values.username : null,
+                        password: typeof values.password === 'string' ? values.password : null,
+                        accountInfo: safeAccountInfo && Object.keys(safeAccountInfo).length > 0 ? JSON.stringify(safeAccountInfo) : null,
+                        status: isSuperAdmin ? 'ACTIVE' : 'DASHBOARD_ONLY',
+                        userId: req.user.userId,
+                    }),
+                });
+                results.push({ row: candidate.row, status: 'created', label, messages: [] });
+            } catch (e: any) {
+                readyCount--;
+                results.push({ row: candidate.row, status: 'error', label, messages: [e?.code === 'P2002' ? 'Client already exists' : 'Could not create this client'] });
+            }
+        }
+
+        return res.json({ ...base, dryRun: body.dryRun, summary: summarizeImportResults(results), rows: results });
+    } catch (error: any) {
+        if (error instanceof CsvImportError) {
+            return res.status(error.statusCode).json({ message: error.message });
+        }
+        if (error?.name === 'ZodError') {
+            return res.status(400).json({ message: error.errors?.[0]?.message || 'Invalid input', errors: error.errors });
+        }
+        console.error('Import clients error:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
+// Export the clients the caller can see as CSV or XLSX (?format=csv|xlsx). Website passwords are never exported.
+router.get('/export', authenticateToken, async (req, res) => {
+    try {
+        if (req.user.role === 'USER') {
+            return res.status(403).json({ message: 'Access denied' });
+        }
+        const clients = await prisma.client.findMany({
+            where: await staffClientScopeWhere(req.user),
+            select: { name: true, domain: true, industry: true, status: true, targets: true, loginUrl: true, username: true, accountInfo: true, createdAt: true },
+            orderBy: { name: 'asc' },
+        });
+
+        const exportFields = CLIENT_IMPORT_FIELDS.filter((field) => field.key !== 'password');
+        const columns = [...exportFields.map((field) => field.label), 'Status', 'Created'];
+        const rows = clients.map((client) => {
+            const info = parseAccountInfoString(client.accountInfo) || {};
+            let targets: string[] = [];
+            try {
+                const parsed = client.targets ? JSON.parse(client.targets) : [];
+                targets = Array.isArray(parsed) ? parsed.map(String) : [];
+            } catch {
+                targets = [];
+            }
+            const columnValues: Record<string, string | null> = {
+                name: client.name,
+                domain: client.domain,
+                industry: client.industry,
+                targets: targets.join('; '),
+                loginUrl: client.loginUrl,
+                username: redactClientSecrets({ username: client.username }).username,
+            };
+            return [
+                ...exportFields.map((field) => (CLIENT_COLUMN_KEYS.has(field.key) ? columnValues[field.key] : info[field.key] ?? null)),
+                client.status,
+                client.createdAt.toISOString().slice(0, 10),
+            ];
+        });
+
+        return sendSpreadsheet(res, parseSpreadsheetFormat(req.query.format), 'clients', columns, rows);
+    } catch (error) {
+        console.error('Export clients error:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
 // Get single client by ID (for Specialist view company info, etc.)
 router.get('/:id', authenticateToken, async (req, res) => {
     try {
@@ -578,7 +848,7 @@ router.get('/:id', authenticateToken, async (req, res) => {
             .map((m: { agency?: { name: string } }) => m.agency?.name)
             .filter(Boolean);
         res.json({
-            ...client,
+            ...redactClientSecrets(client),
             agencyNames,
         });
     } catch (error) {
@@ -587,6 +857,42 @@ router.get('/:id', authenticateToken, async (req, res) => {
     }
 });
 
+// Reveal the client's saved website login password. Staff roles only; every reveal is audited.
+router.post('/:id/website-password/reveal', authenticateToken, async (req, res) => {
+    try {
+        const clientId = req.params.id;
+        if (!websitePasswordRevealRoles.includes(req.user.role)) {
+            return res.status(403).json({ message: 'Access denied' });
+        }
+        const { hasAccess } = await canStaffAccessClient(req.user, clientId);
+        if (!hasAccess) {
+            return res.status(404).json({ message: 'Client not found' });
+        }
+        const client = await prisma.client.findUnique({
+            where: { id: clientId },
+            select: { id: true, name: true, password: true },
+        });
+        if (!client) return res.status(404).json({ message: 'Client not found' });
+        if (!client.password) {
+            return res.status(404).json({ message: 'No website password saved for this client' });
+        }
+
+        const password = decryptSecret(client.password);
+        await recordAuditEvent(req, {
+            action: 'client.website_password_revealed',
+            entityType: 'client',
+            entityId: client.id,
+            entityLabel: client.name,
+            clientId: client.id,
+        });
+        res.setHeader('Cache-Control', 'no-store');
+        res.json({ password });
+    } catch (error) {
+        console.error('Reveal website password error:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
 // List client portal users for a client
 router.get('/:id/users', authenticateToken, async (req, res) => {
     try {
@@ -858,6 +1164,7 @@ router.delete('/:id/users/:userId', authenticateToken, async (req, res) => {
         await prisma.clientUser.delete({
             where: { clientId_userId: { clientId, userId } },
         });
+        await revokeSessionsIfNoClientAccessLeft(userId);
 
         return res.json({ message: 'User removed' });
     } catch (error: any) {
@@ -870,7 +1177,7 @@ router.delete('/:id/users/:userId', authenticateToken, async (req, res) => {
 });
 
 // Impersonate a client user for a given client (Login as user)
-router.post('/:id/users/:userId/impersonate', authenticateToken, async (req, res) => {
+router.post('/:id/users/:userId/impersonate', authenticateToken, requireStepUp, async (req, res) => {
     try {
         const clientId = String(req.params.id || '');
         const userId = String(req.params.userId || '');
@@ -886,18 +1193,25 @@ router.post('/:id/users/:userId/impersonate', authenticateToken, async (req, res
 
         const membership = await prisma.clientUser.findUnique({
             where: { clientId_userId: { clientId, userId } },
-            include: { user: { select: { id: true, email: true, role: true, verified: true } } },
+            include: { user: { select: { id: true, email: true, role: true, verified: true, twoFactorEnabled: true } } },
         });
         if (!membership) return res.status(404).json({ message: 'Client user not found' });
         if (membership.user.role !== 'USER') return res.status(400).json({ message: 'Can only impersonate client portal users.' });
 
-        const jwtToken = jwt.sign(
-            { userId: membership.user.id, email: membership.user.email, role: membership.user.role },
-            getJwtSecret(),
-            { expiresIn: '7d' }
-        );
+        // Separate session, labelled with who started it in the user's session list
+        const session = await createUserSession(membership.user, sessionMetaFromRequest(req), {
+            impersonatedByUserId: req.user.userId,
+        });
+        await recordAuditEvent(req, {
+            action: 'client_user.impersonated',
+            entityType: 'user',
+            entityId: membership.user.id,
+            entityLabel: membership.user.email,
+            clientId,
+            metadata: { sessionId: session.sessionId },
+        });
 
-        return res.json({ token: jwtToken, redirect: { clientId } });
+        return res.json({ token: session.token, refreshToken: session.refreshToken, redirect: { clientId } });
     } catch (error) {
         console.error('Impersonate error:', error);
         return res.status(500).json({ message: 'Internal server error' });
@@ -1156,6 +1470,7 @@ router.post('/', authenticateToken, async (req, res) => {
         if (req.user.role === 'USER') {
             return res.status(403).json({ message: 'Access denied' });
         }
+        if (!(await authorize(req, res, 'edit_clients'))) return;
 
         const tierCtx = await getAgencyTierContext(req.user.userId, req.user.role);
         const dashboardCheck = canAddDashboard(tierCtx);
@@ -1202,7 +1517,7 @@ router.post('/', authenticateToken, async (req, res) => {
 
         // Create client
         const client = await prisma.client.create({
-            data: {
+            data: encryptClientSecretFields({
                 name: trimmedName,
                 domain: normalizedDomain,
                 industry,
@@ -1213,7 +1528,7 @@ router.post('/', authenticateToken, async (req, res) => {
                 accountInfo: safeAccountInfo ? JSON.stringify(safeAccountInfo) : null,
                 status: clientStatus,
                 userId: req.user.userId,
-            },
+            }),
             include: {
                 user: {
                     select: { id: true, name: true, email: true },
@@ -1221,7 +1536,7 @@ router.post('/', authenticateToken, async (req, res) => {
             },
         });
 
-        res.status(201).json(client);
+        res.status(201).json(redactClientSecrets(client));
     } catch (error: any) {
         if (error?.message?.includes('Invalid domain')) {
             return res.status(400).json({ message: error.message });
@@ -1304,6 +1619,7 @@ router.put('/:id', authenticateToken, async (req, res) => {
         if (!hasAccess) {
             return res.status(403).json({ message: 'Access denied' });
         }
+        if (!(await authorize(req, res, 'edit_clients', { clientId }))) return;
 
         // Build update data
         const updateData: any = {};
@@ -1327,6 +1643,10 @@ router.put('/:id', authenticateToken, async (req, res) => {
             if (incoming === null) {
                 updateData.accountInfo = null;
             } else {
+                // Masked credentials sent back unchanged keep their stored (encrypted) value
+                for (const [k, v] of Object.entries(incoming)) {
+                    if (v === REDACTED_SECRET) delete incoming[k];
+                }
                 const existingObj = parseAccountInfoString((existing as any).accountInfo) || {};
                 updateData.accountInfo = JSON.stringify({ ...existingObj, ...incoming });
             }
@@ -1399,7 +1719,7 @@ router.put('/:id', authenticateToken, async (req, res) => {
 
         const updated = await prisma.client.update({
             where: { id: clientId },
-            data: updateData,
+            data: encryptClientSecretFields(updateData),
             include: {
                 user: {
                     select: { id: true, name: true, email: true },
@@ -1439,7 +1759,7 @@ router.put('/:id', authenticateToken, async (req, res) => {
             }
         }
 
-        res.json(updated);
+        res.json(redactClientSecrets(updated));
     } catch (error: any) {
         console.error('Update client error:', error);
         // Provide more detailed error information
@@ -1513,6 +1833,15 @@ router.patch('/:id/archive', authenticateToken, async (req, res) => {
                         },
                     }),
                 ]);
+                await recordAuditEvent(req, {
+                    action: 'client.archived',
+                    entityType: 'client',
+                    entityId: clientId,
+                    entityLabel: client.name,
+                    clientId,
+                    before: { status: client.status },
+                    after: { status: 'ARCHIVED' },
+                });
                 return res.json({ success: true, message: 'Client archived successfully' });
             }
 
@@ -1520,6 +1849,15 @@ router.patch('/:id/archive', authenticateToken, async (req, res) => {
                 where: { id: clientId },
                 data: { scheduledArchiveAt: archiveAt },
             });
+            await recordAuditEvent(req, {
+                action: 'client.archive_scheduled',
+                entityType: 'client',
+                entityId: clientId,
+                entityLabel: client.name,
+                clientId,
+                before: { scheduledArchiveAt: client.scheduledArchiveAt },
+                after: { scheduledArchiveAt: archiveAt },
+            });
             const formatted = archiveAt.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
             return res.json({ success: true, scheduled: true, scheduledDate: archiveAt.toISOString(), message: `Client scheduled to archive on ${formatted}` });
         }
@@ -1544,6 +1882,15 @@ router.patch('/:id/archive', authenticateToken, async (req, res) => {
                 },
             }),
         ]);
+        await recordAuditEvent(req, {
+            action: 'client.archived',
+            entityType: 'client',
+            entityId: clientId,
+            entityLabel: client.name,
+            clientId,
+            before: { status: client.status },
+            after: { status: 'ARCHIVED' },
+        });
 
         res.json({ success: true, message: 'Client archived successfully' });
     } catch (error: any) {
@@ -1906,8 +2253,8 @@ router.get('/ga4/callback', async (req, res) => {
         await prisma.client.update({
             where: { id: clientId },
             data: {
-                ga4AccessToken: accessToken,
-                ga4RefreshToken: refreshToken,
+                ga4AccessToken: encryptSecret(accessToken),
+                ga4RefreshToken: encryptSecret(refreshToken),
                 ga4AccountEmail: email,
                 // Don't set propertyId or connectedAt yet - user needs to select property
             },
@@ -2613,6 +2960,15 @@ router.post('/:id/ga4/disconnect', authenticateToken, async (req, res) => {
                 ga4ConnectedAt: null,
             },
         });
+        await recordAuditEvent(req, {
+            action: 'client.ga4_disconnected',
+            entityType: 'client',
+            entityId: clientId,
+            entityLabel: client.name,
+            clientId,
+            before: { ga4PropertyId: client.ga4PropertyId, ga4AccountEmail: client.ga4AccountEmail },
+            after: { ga4PropertyId: null, ga4AccountEmail: null },
+        });
 
         res.json({ message: 'GA4 disconnected successfully' });
     } catch (error) {
@@ -2793,8 +3149,8 @@ router.get('/google-ads/callback', async (req, res) => {
             await prisma.client.update({
                 where: { id: clientId },
                 data: {
-                    googleAdsAccessToken: accessToken,
-                    googleAdsRefreshToken: refreshToken,
+                    googleAdsAccessToken: encryptSecret(accessToken),
+                    googleAdsRefreshToken: encryptSecret(refreshToken),
                     googleAdsAccountEmail: email || null,
                     googleAdsConnectedAt: new Date(),
                 },
@@ -3113,11 +3469,15 @@ router.post('/:id/google-ads/disconnect', authenticateToken, async (req, res) =>
         const clientId = req.params.id;
 
         // Check access
-        const { client, hasAccess } = await canStaffAccessClient(req.user, clientId);
+        const { hasAccess } = await canStaffAccessClient(req.user, clientId);
         if (!hasAccess) {
             return res.status(403).json({ message: 'Access denied' });
         }
 
+        const previous = await prisma.client.findUnique({
+            where: { id: clientId },
+            select: { name: true, googleAdsCustomerId: true, googleAdsAccountEmail: true },
+        });
         await prisma.client.update({
             where: { id: clientId },
             data: {
@@ -3129,6 +3489,15 @@ router.post('/:id/google-ads/disconnect', authenticateToken, async (req, res) =>
                 googleAdsConnectedAt: null,
             },
         });
+        await recordAuditEvent(req, {
+            action: 'client.google_ads_disconnected',
+            entityType: 'client',
+            entityId: clientId,
+            entityLabel: previous?.name ?? null,
+            clientId,
+            before: { googleAdsCustomerId: previous?.googleAdsCustomerId ?? null, googleAdsAccountEmail: previous?.googleAdsAccountEmail ?? null },
+            after: { googleAdsCustomerId: null, googleAdsAccountEmail: null },
+        });
 
         res.json({ message: 'Google Ads disconnected successfully' });
     } catch (error: any) {
@@ -3373,4 +3742,349 @@ router.get('/:id/google-ads/conversions', authenticateToken, async (req, res) =>
     }
 });
 
+// Google Search Console Connection Routes
+import {
+    getSearchConsoleAuthUrl,
+    exchangeSearchConsoleCodeForTokens,
+    isSearchConsoleConnected,
+    listSearchConsoleSites,
+    syncSearchConsoleData,
+    getSearchConsolePerformance,
+    formatSearchConsoleDate,
+    verifySearchConsoleOAuthState,
+} from '../lib/searchConsole.js';
+
+function resolveSearchConsoleCallbackUrl(req: express.Request): string {
+    return `${resolveRequestOrigin(req)}/api/clients/gsc/callback`;
+}
+
+const SEARCH_CONSOLE_AUTH_ERROR = /reconnect|not connected|token expired|token revoked|refresh failed/i;
+
+// Popup: post the result to the opener and close; otherwise redirect back to the client page.
+function sendSearchConsoleCallbackResult(
+    res: express.Response,
+    opts: { isPopup: boolean; clientId: string; error?: string }
+) {
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3001';
+    const redirectUrl = opts.error
+        ? `${frontendUrl}/agency/clients${opts.clientId ? `/${encodeURIComponent(opts.clientId)}` : ''}?gsc_error=${encodeURIComponent(opts.error)}`
+        : `${frontendUrl}/agency/clients/${encodeURIComponent(opts.clientId)}?gsc_tokens_received=true`;
+    if (!opts.isPopup) {
+        return res.redirect(redirectUrl);
+    }
+    const message = opts.error
+        ? { type: 'GSC_OAUTH_ERROR', error: opts.error }
+        : { type: 'GSC_OAUTH_SUCCESS' };
+    const text = opts.error ? 'Search Console connection failed.' : 'Search Console connected! Closing...';
+    // JSON inside a <script> block: escape "<" so a crafted error message can't close the tag.
+    const payload = JSON.stringify({ message, redirectUrl }).replace(/</g, '\\u003c');
+    return res.send(`<!DOCTYPE html>
+<html>
+<head><title>Search Console Connection</title></head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; display: flex; justify-content: center; align-items: center; height: 100vh; margin: 0; background: #f5f5f5;">
+    <div style="text-align: center; padding: 2rem; color: ${opts.error ? '#ef4444' : '#10b981'}; font-size: 1.1rem;">${text}</div>
+    <script>
+        var data = ${payload};
+        if (window.opener) {
+            window.opener.postMessage(data.message, '*');
+            setTimeout(function(){ try { window.close(); } catch (e) {} }, ${opts.error ? 2000 : 500});
+        } else {
+            window.location.href = data.redirectUrl;
+        }
+    </script>
+</body>
+</html>`);
+}
+
+// Search Console OAuth callback (no auth required - the signed state names the user and client)
+router.get('/gsc/callback', async (req, res) => {
+    const { code, state, error } = req.query;
+    const verifiedState = verifySearchConsoleOAuthState(String(state || ''));
+    const clientId = verifiedState?.clientId ?? '';
+    const isPopup = verifiedState?.popup ?? req.query.popup === 'true';
+
+    if (error) {
+        console.error('[GSC OAuth Callback] Error from Google:', { error, errorDescription: req.query.error_description, clientId });
+        const errorMessage = error === 'access_denied'
+            ? 'Access was denied. Please grant the required permissions.'
+            : String(req.query.error_description || error);
+        return sendSearchConsoleCallbackResult(res, { isPopup, clientId, error: errorMessage });
+    }
+    if (!code || !state) {
+        return sendSearchConsoleCallbackResult(res, { isPopup, clientId, error: 'Missing authorization code or state' });
+    }
+    if (!verifiedState) {
+        return sendSearchConsoleCallbackResult(res, { isPopup, clientId, error: 'Invalid or expired authorization state. Please try connecting again.' });
+    }
+
+    try {
+        // The user who started the connection must still be able to manage this client.
+        const user = await prisma.user.findUnique({ where: { id: verifiedState.userId }, select: { id: true, role: true } });
+        const { hasAccess } = user
+            ? await canStaffAccessClient({ userId: user.id, role: user.role }, clientId)
+            : { hasAccess: false };
+        if (!hasAccess) {
+            return sendSearchConsoleCallbackResult(res, { isPopup, clientId, error: 'Access denied' });
+        }
+
+        const { accessToken, refreshToken, email } = await exchangeSearchConsoleCodeForTokens(
+            String(code),
+            resolveSearchConsoleCallbackUrl(req)
+        );
+        await prisma.client.update({
+            where: { id: clientId },
+            data: {
+                gscAccessToken: encryptSecret(accessToken),
+                gscRefreshToken: encryptSecret(refreshToken),
+                gscAccountEmail: email || null,
+            },
+        });
+        return sendSearchConsoleCallbackResult(res, { isPopup, clientId });
+    } catch (err: any) {
+        console.error('Search Console callback error:', err);
+        return sendSearchConsoleCallbackResult(res, { isPopup, clientId, error: err?.message || 'connection_failed' });
+    }
+});
+
+// Get Search Console connection status
+router.get('/:id/gsc/status', authenticateToken, async (req, res) => {
+    try {
+        const clientId = req.params.id;
+        const { hasAccess } = await canStaffAccessClient(req.user, clientId);
+        if (!hasAccess) {
+            return res.status(403).json({ message: 'Access denied' });
+        }
+
+        const connected = await isSearchConsoleConnected(clientId);
+        const client = await prisma.client.findUnique({
+            where: { id: clientId },
+            select: {
+                gscRefreshToken: true,
+                gscSiteUrl: true,
+                gscAccountEmail: true,
+                gscConnectedAt: true,
+                gscLastSyncedAt: true,
+            },
+        });
+
+        res.json({
+            connected,
+            hasTokens: !!client?.gscRefreshToken,
+            siteUrl: client?.gscSiteUrl || null,
+            accountEmail: client?.gscAccountEmail || null,
+            connectedAt: client?.gscConnectedAt || null,
+            lastSyncedAt: client?.gscLastSyncedAt || null,
+        });
+    } catch (error) {
+        console.error('Search Console status error:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
+// Get Search Console authorization URL
+router.get('/:id/gsc/auth-url', authenticateToken, async (req, res) => {
+    try {
+        const clientId = req.params.id;
+        const { hasAccess } = await canStaffAccessClient(req.user, clientId);
+        if (!hasAccess) {
+            return res.status(403).json({ message: 'Access denied' });
+        }
+
+        const isPopup = req.query.popup === 'true' || req.query.popup === '1';
+        const authUrl = getSearchConsoleAuthUrl(
+            { userId: req.user.userId, clientId, popup: isPopup },
+            { redirectUri: resolveSearchConsoleCallbackUrl(req) }
+        );
+        res.json({ authUrl });
+    } catch (error: any) {
+        console.error('Search Console auth URL error:', error);
+        res.status(500).json({ message: error.message || 'Internal server error' });
+    }
+});
+
+// List Search Console properties (after OAuth callback, before connecting)
+router.get('/:id/gsc/sites', authenticateToken, async (req, res) => {
+    try {
+        const clientId = req.params.id;
+        const { hasAccess } = await canStaffAccessClient(req.user, clientId);
+        if (!hasAccess) {
+            return res.status(403).json({ message: 'Access denied' });
+        }
+
+        const existingClient = await prisma.client.findUnique({
+            where: { id: clientId },
+            select: { gscRefreshToken: true },
+        });
+        if (!existingClient?.gscRefreshToken) {
+            return res.status(400).json({ message: 'Please complete OAuth flow first by clicking "Connect Search Console"' });
+        }
+
+        const sites = await listSearchConsoleSites(clientId);
+        res.json({ sites });
+    } catch (error: any) {
+        console.error('Search Console sites list error:', error);
+        const msg = error.message || 'Internal server error';
+        res.status(SEARCH_CONSOLE_AUTH_ERROR.test(msg) ? 401 : 500).json({ message: msg });
+    }
+});
+
+const connectSearchConsoleSchema = z.object({
+    siteUrl: z.string().trim().min(1).max(500),
+});
+
+// Connect Search Console with a property (after OAuth callback); the initial backfill runs in the background
+router.post('/:id/gsc/connect', authenticateToken, async (req, res) => {
+    try {
+        const clientId = req.params.id;
+        const { siteUrl } = connectSearchConsoleSchema.parse(req.body);
+
+        const { hasAccess } = await canStaffAccessClient(req.user, clientId);
+        if (!hasAccess) {
+            return res.status(403).json({ message: 'Access denied' });
+        }
+
+        const existingClient = await prisma.client.findUnique({
+            where: { id: clientId },
+            select: { gscRefreshToken: true, gscSiteUrl: true },
+        });
+        if (!existingClient?.gscRefreshToken) {
+            return res.status(400).json({ message: 'Please complete OAuth flow first by clicking "Connect Search Console"' });
+        }
+
+        const sites = await listSearchConsoleSites(clientId);
+        if (!sites.some((site) => site.siteUrl === siteUrl)) {
+            return res.status(400).json({ message: 'The connected Google account has no access to this Search Console property' });
+        }
+
+        // Switching properties: drop the previous property's rows so the dashboard never mixes sites.
+        const siteChanged = existingClient.gscSiteUrl !== siteUrl;
+        if (siteChanged) {
+            await prisma.searchConsoleDailyRow.deleteMany({ where: { clientId } });
+        }
+        await prisma.client.update({
+            where: { id: clientId },
+            data: {
+                gscSiteUrl: siteUrl,
+                gscConnectedAt: new Date(),
+                ...(siteChanged ? { gscLastSyncedAt: null } : {}),
+            },
+        });
+
+        syncSearchConsoleData(clientId)
+            .then((result) => console.log(`[GSC] Initial sync for client ${clientId}: ${result.days} day(s)`))
+            .catch((err) => console.warn('[GSC] Initial sync failed:', err?.message || err));
+
+        res.json({ message: 'Search Console connected successfully', siteUrl });
+    } catch (error: any) {
+        if (error?.name === 'ZodError') {
+            return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+        }
+        console.error('Search Console connect error:', error);
+        const msg = error.message || 'Internal server error';
+        res.status(SEARCH_CONSOLE_AUTH_ERROR.test(msg) ? 401 : 500).json({ message: msg });
+    }
+});
+
+// Re-sync Search Console data now
+router.post('/:id/gsc/sync', authenticateToken, async (req, res) => {
+    try {
+        const clientId = req.params.id;
+        const { hasAccess } = await canStaffAccessClient(req.user, clientId);
+        if (!hasAccess) {
+            return res.status(403).json({ message: 'Access denied' });
+        }
+        if (!(await isSearchConsoleConnected(clientId))) {
+            return res.status(400).json({ message: 'Search Console is not connected for this client' });
+        }
+
+        const result = await syncSearchConsoleData(clientId);
+        res.json({ message: 'Search Console data synced', ...result });
+    } catch (error: any) {
+        console.error('Search Console sync error:', error);
+        const msg = error.message || 'Internal server error';
+        res.status(SEARCH_CONSOLE_AUTH_ERROR.test(msg) ? 401 : 500).json({ message: msg });
+    }
+});
+
+const searchConsolePerformanceQuerySchema = z.object({
+    start: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    end: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    days: z.coerce.number().int().min(1).max(480).optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+// Stored Search Console performance (totals, daily trend, top queries and pages). Defaults to the last 28 days.
+router.get('/:id/gsc/performance', authenticateToken, async (req, res) => {
+    try {
+        const clientId = req.params.id;
+        const query = searchConsolePerformanceQuerySchema.parse(req.query);
+
+        const { hasAccess } = await canStaffAccessClient(req.user, clientId);
+        if (!hasAccess) {
+            return res.status(403).json({ message: 'Access denied' });
+        }
+
+        const DAY_MS = 24 * 60 * 60 * 1000;
+        const endDate = query.end ?? formatSearchConsoleDate(new Date(Date.now() - DAY_MS));
+        const startDate = query.start ?? formatSearchConsoleDate(new Date(Date.parse(endDate) - ((query.days ?? 28) - 1) * DAY_MS));
+        if (startDate > endDate) {
+            return res.status(400).json({ message: 'start must be on or before end' });
+        }
+
+        const connected = await isSearchConsoleConnected(clientId);
+        const performance = await getSearchConsolePerformance(clientId, startDate, endDate, { limit: query.limit });
+        res.json({ connected, ...performance });
+    } catch (error: any) {
+        if (error?.name === 'ZodError') {
+            return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+        }
+        console.error('Search Console performance error:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
+// Disconnect Search Console (stored daily rows are removed with the connection)
+router.post('/:id/gsc/disconnect', authenticateToken, async (req, res) => {
+    try {
+        const clientId = req.params.id;
+        const { hasAccess } = await canStaffAccessClient(req.user, clientId);
+        if (!hasAccess) {
+            return res.status(403).json({ message: 'Access denied' });
+        }
+
+        const previous = await prisma.client.findUnique({
+            where: { id: clientId },
+            select: { name: true, gscSiteUrl: true, gscAccountEmail: true },
+        });
+        await prisma.$transaction([
+            prisma.searchConsoleDailyRow.deleteMany({ where: { clientId } }),
+            prisma.client.update({
+                where: { id: clientId },
+                data: {
+                    gscAccessToken: null,
+                    gscRefreshToken: null,
+                    gscSiteUrl: null,
+                    gscAccountEmail: null,
+                    gscConnectedAt: null,
+                    gscLastSyncedAt: null,
+                },
+            }),
+        ]);
+        await recordAuditEvent(req, {
+            action: 'client.gsc_disconnected',
+            entityType: 'client',
+            entityId: clientId,
+            entityLabel: previous?.name ?? null,
+            clientId,
+            before: { gscSiteUrl: previous?.gscSiteUrl ?? null, gscAccountEmail: previous?.gscAccountEmail ?? null },
+            after: { gscSiteUrl: null, gscAccountEmail: null },
+        });
+
+        res.json({ message: 'Search Console disconnected successfully' });
+    } catch (error: any) {
+        console.error('Search Console disconnect error:', error);
+        res.status(500).json({ message: error.message || 'Internal server error' });
+    }
+});
+
 export default router;
\ No newline at end of file
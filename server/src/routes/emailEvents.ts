@@ -0,0 +1,232 @@
+import express, { Router, Request, Response } from "express";
+import crypto from "crypto";
+import { z } from "zod";
+import { prisma } from "../lib/prisma.js";
+import { authenticateToken } from "../middleware/auth.js";
+import { recordAuditEvent } from "../lib/auditLog.js";
+import { canAccessClient, isPlatformAdmin, loadAgencyAccess } from "../lib/permissions.js";
+import { normalizeEmailRecipients } from "../lib/qualityContracts.js";
+import {
+  applyEmailProviderEvent,
+  decodeTrackedLinkTarget,
+  emailTrackingSecret,
+  normalizeEmailAddress,
+  parseEmailProviderEvents,
+  recordEmailClick,
+  recordEmailOpen,
+  summarizeEmailBatches,
+  verifyTrackedLink,
+} from "../lib/emailDelivery.js";
+
+const router = Router();
+
+// 1×1 transparent GIF
+const TRACKING_PIXEL = Buffer.from("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7", "base64");
+const MAX_HISTORY_LOGS = 500;
+const MAX_LISTED_LOGS = 100;
+
+// Public: open pixel embedded in tracked report emails. Always answers with the image.
+router.get("/open/:token", async (req: Request, res: Response) => {
+  const token = req.params.token.replace(/\.gif$/i, "");
+  try {
+    await recordEmailOpen(token);
+  } catch (error) {
+    console.error("Email open tracking error:", error);
+  }
+  res.set({ "Content-Type": "image/gif", "Cache-Control": "no-store, max-age=0" });
+  res.send(TRACKING_PIXEL);
+});
+
+// Public: click redirect. The target is signed when the email is sent, so only links from the email are followed.
+router.get("/click/:token", async (req: Request, res: Response) => {
+  const target = decodeTrackedLinkTarget(req.query.u);
+  const signature = typeof req.query.s === "string" ? req.query.s : "";
+  const secret = emailTrackingSecret();
+  if (!target || !secret || !verifyTrackedLink(secret, req.params.token, target, signature)) {
+    return res.status(400).send("Invalid link");
+  }
+  try {
+    await recordEmailClick(req.params.token);
+  } catch (error) {
+    console.error("Email click tracking error:", error);
+  }
+  res.redirect(302, target);
+});
+
+function hasValidWebhookSecret(req: Request, secret: string): boolean {
+  const header = req.get("x-email-webhook-secret");
+  const provided = header || (typeof req.query.secret === "string" ? req.query.secret : "");
+  const a = Buffer.from(crypto.createHash("sha256").update(provided).digest("hex"));
+  const b = Buffer.from(crypto.createHash("sha256").update(secret).digest("hex"));
+  return Boolean(provided) && crypto.timingSafeEqual(a, b);
+}
+
+function isAwsSubscribeUrl(value: unknown): value is string {
+  try {
+    const url = new URL(String(value));
+    return url.protocol === "https:" && /^sns\.[a-z0-9-]+\.amazonaws\.com$/.test(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Public: delivery, bounce and complaint events from the email provider (see parseEmailProviderEvents for the
+ * accepted formats). Authenticated by EMAIL_WEBHOOK_SECRET in the x-email-webhook-secret header or ?secret=.
+ * SNS posts JSON as text/plain, hence the extra parser.
+ */
+router.post("/webhook", express.json({ type: "text/plain", limit: "1mb" }), async (req: Request, res: Response) => {
+  try {
+    const secret = process.env.EMAIL_WEBHOOK_SECRET;
+    if (!secret) {
+      return res.status(503).json({ message: "Email webhook is not configured" });
+    }
+    if (!hasValidWebhookSecret(req, secret)) {
+      return res.status(401).json({ message: "Invalid webhook secret" });
+    }
+
+    if (req.body?.Type === "SubscriptionConfirmation" && isAwsSubscribeUrl(req.body.SubscribeURL)) {
+      const confirm = await fetch(req.body.SubscribeURL);
+      console.log(`[Email] SNS subscription confirmation: ${confirm.status}`);
+      return res.json({ confirmed: confirm.ok });
+    }
+
+    const events = parseEmailProviderEvents(req.body);
+    let matched = 0;
+    let suppressed = 0;
+    for (const event of events) {
+      const result = await applyEmailProviderEvent(event);
+      if (result.matched) matched += 1;
+      if (result.suppressed) suppressed += 1;
+    }
+    res.json({ received: events.length, matched, suppressed });
+  } catch (error) {
+    console.error("Email webhook error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+/** The client if the caller may see it: platform admins, or members of its agency who are not restricted from it. */
+async function resolveDeliveryClient(req: Request, res: Response, clientId: string): Promise<string | null> {
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    select: { id: true, belongsToAgencyId: true, user: { select: { memberships: { select: { agencyId: true } } } } },
+  });
+  if (!client) {
+    res.status(404).json({ message: "Client not found" });
+    return null;
+  }
+  if (isPlatformAdmin(req.user.role)) return client.id;
+
+  const agencyIds = [client.belongsToAgencyId, ...client.user.memberships.map((m) => m.agencyId)].filter(
+    (id): id is string => Boolean(id)
+  );
+  const membership = await prisma.userAgency.findFirst({
+    where: { userId: req.user.userId, agencyId: { in: agencyIds } },
+    select: { agencyId: true },
+  });
+  const access = membership ? await loadAgencyAccess(req.user, membership.agencyId) : null;
+  if (!access || !canAccessClient(access, client.id)) {
+    res.status(403).json({ message: "Access denied" });
+    return null;
+  }
+  return client.id;
+}
+
+/** Everyone the client's reports go to or went to, lowercase. */
+async function loadClientRecipients(clientId: string): Promise<string[]> {
+  const [schedules, logged] = await Promise.all([
+    prisma.reportSchedule.findMany({ where: { clientId }, select: { recipients: true } }),
+    prisma.emailLog.findMany({ where: { clientId }, select: { recipient: true }, distinct: ["recipient"] }),
+  ]);
+  const emails = [
+    ...schedules.flatMap((schedule) => normalizeEmailRecipients(schedule.recipients)),
+    ...logged.map((row) => row.recipient),
+  ];
+  return [...new Set(emails.map(normalizeEmailAddress))];
+}
+
+// Recent report emails of a client, per-send open/click stats and suppressed recipients
+router.get("/deliveries", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const clientId = typeof req.query.clientId === "string" ? req.query.clientId : "";
+    if (!clientId) return res.status(400).json({ message: "clientId is required" });
+    if (!(await resolveDeliveryClient(req, res, clientId))) return;
+
+    const [logs, recipients] = await Promise.all([
+      prisma.emailLog.findMany({
+        where: { clientId },
+        orderBy: { createdAt: "desc" },
+        take: MAX_HISTORY_LOGS,
+        select: {
+          id: true,
+          createdAt: true,
+          recipient: true,
+          subject: true,
+          templateType: true,
+          reportId: true,
+          batchId: true,
+          status: true,
+          error: true,
+          bounceType: true,
+          trackingToken: true,
+          openCount: true,
+          firstOpenedAt: true,
+          clickCount: true,
+          lastClickedAt: true,
+        },
+      }),
+      loadClientRecipients(clientId),
+    ]);
+    const suppressions = recipients.length
+      ? await prisma.emailSuppression.findMany({
+          where: { email: { in: recipients } },
+          select: { email: true, reason: true, detail: true, createdAt: true },
+          orderBy: { createdAt: "desc" },
+        })
+      : [];
+
+    res.json({
+      batches: summarizeEmailBatches(logs),
+      logs: logs.slice(0, MAX_LISTED_LOGS).map(({ trackingToken, ...log }) => ({ ...log, tracked: Boolean(trackingToken) })),
+      suppressions,
+    });
+  } catch (error) {
+    console.error("List email deliveries error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Sends to the address again, e.g. after the recipient fixed their mailbox
+router.delete("/suppressions", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const body = z.object({ clientId: z.string().min(1), email: z.string().email() }).parse(req.body);
+    if (!(await resolveDeliveryClient(req, res, body.clientId))) return;
+
+    const email = normalizeEmailAddress(body.email);
+    const recipients = await loadClientRecipients(body.clientId);
+    const suppression = recipients.includes(email)
+      ? await prisma.emailSuppression.findUnique({ where: { email } })
+      : null;
+    if (!suppression) return res.status(404).json({ message: "Suppressed address not found" });
+
+    await prisma.emailSuppression.delete({ where: { id: suppression.id } });
+    await recordAuditEvent(req, {
+      action: "email.suppression_removed",
+      entityType: "email_suppression",
+      entityId: suppression.id,
+      entityLabel: email,
+      clientId: body.clientId,
+      before: { reason: suppression.reason, detail: suppression.detail },
+    });
+    res.json({ message: "Address will receive report emails again" });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid data", errors: error.errors });
+    }
+    console.error("Remove email suppression error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -9,16 +9,18 @@ import {
   type MrrCategory,
 } from "../lib/stripe.js";
 import { prisma } from "../lib/prisma.js";
+import { authorize } from "../lib/permissions.js";
 
 const router = express.Router();
 
-// Require AGENCY, ADMIN, or SUPER_ADMIN
-const requireFinancialAccess = (req: express.Request, res: express.Response, next: express.NextFunction) => {
-  const role = req.user?.role;
-  if (!["AGENCY", "ADMIN", "SUPER_ADMIN"].includes(role || "")) {
-    return res.status(403).json({ message: "Access denied" });
+// Platform admins, or agency members whose role grants view_financials
+const requireFinancialAccess = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  try {
+    if (!(await authorize(req, res, "view_financials"))) return;
+    next();
+  } catch (error) {
+    next(error);
   }
-  next();
 };
 
 // Require SUPER_ADMIN only (strict financial controls)
@@ -833,6 +835,7 @@ export async function captureDataForSeoDailySpend(): Promise<void> {
     console.log(`[dataforseo-cron] Captured spending for ${expenses.length} day(s)`);
   } catch (err: any) {
     console.error("[dataforseo-cron] Error:", err?.message || err);
+    throw err;
   }
 }
 
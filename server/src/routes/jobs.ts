@@ -0,0 +1,92 @@
+import { Router, Request, Response } from "express";
+import { prisma } from "../lib/prisma.js";
+import { authenticateToken } from "../middleware/auth.js";
+import { getRegisteredJob, getRegisteredJobs, requestJobRun } from "../lib/jobScheduler.js";
+
+const router = Router();
+
+// Background jobs are a platform operations page: SUPER_ADMIN only, like the Sidebar entry under /superadmin.
+function requireSuperAdmin(req: Request, res: Response, next: () => void) {
+  if (req.user.role !== "SUPER_ADMIN") {
+    return res.status(403).json({ message: "Access denied" });
+  }
+  next();
+}
+
+// List registered background jobs with their schedule and last run
+router.get("/", authenticateToken, requireSuperAdmin, async (_req: Request, res: Response) => {
+  try {
+    const definitions = getRegisteredJobs();
+    const rows = await prisma.scheduledJob.findMany({
+      where: { name: { in: definitions.map((d) => d.name) } },
+    });
+    const rowsByName = new Map(rows.map((r) => [r.name, r]));
+    const now = Date.now();
+
+    const jobs = definitions.map((def) => {
+      const row = rowsByName.get(def.name);
+      return {
+        name: def.name,
+        label: def.label,
+        description: def.description ?? null,
+        intervalMs: def.intervalMs,
+        maxRetries: def.maxRetries ?? 0,
+        nextRunAt: row?.nextRunAt ?? null,
+        runRequestedAt: row?.runRequestedAt ?? null,
+        isRunning: Boolean(row?.lockedUntil && row.lockedUntil.getTime() > now),
+        lockedBy: row?.lockedBy ?? null,
+        lastRunAt: row?.lastRunAt ?? null,
+        lastFinishedAt: row?.lastFinishedAt ?? null,
+        lastDurationMs: row?.lastDurationMs ?? null,
+        lastStatus: row?.lastStatus ?? null,
+        lastError: row?.lastError ?? null,
+        consecutiveFailures: row?.consecutiveFailures ?? 0,
+      };
+    });
+
+    res.json({ jobs });
+  } catch (error) {
+    console.error("List jobs error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Recent run history for one job
+router.get("/:name/runs", authenticateToken, requireSuperAdmin, async (req: Request, res: Response) => {
+  try {
+    const { name } = req.params;
+    if (!getRegisteredJob(name)) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    const limit = Math.min(200, Math.max(1, Number(req.query.limit) || 50));
+    const runs = await prisma.jobRun.findMany({
+      where: { jobName: name },
+      orderBy: { startedAt: "desc" },
+      take: limit,
+    });
+    res.json({ runs });
+  } catch (error) {
+    console.error("List job runs error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Queue a run as soon as possible (picked up by whichever instance wins the lease)
+router.post("/:name/run", authenticateToken, requireSuperAdmin, async (req: Request, res: Response) => {
+  try {
+    const { name } = req.params;
+    if (!getRegisteredJob(name)) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    const queued = await requestJobRun(name);
+    if (!queued) {
+      return res.status(409).json({ message: "Job is already running" });
+    }
+    res.status(202).json({ message: "Job run queued" });
+  } catch (error) {
+    console.error("Run job error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -4,11 +4,30 @@ import axios from "axios";
 import { authenticateToken } from "../middleware/auth.js";
 import { prisma } from "../lib/prisma.js";
 import { getTierConfig, normalizeTierId } from "../lib/tiers.js";
-import { calculateAtaScore, fetchDataForSeoPointSerp, runDataForSeoLocalGrid, searchGoogleBusinessProfiles, type LocalMapGridPoint } from "../lib/localMap.js";
+import {
+  LocalMapGridConfigError,
+  assertTrackedGridWithinSlot,
+  buildCompetitorAnalysis,
+  buildLocalMapGridPoints,
+  calculateAtaScore,
+  fetchDataForSeoPointSerp,
+  geocodeZipCentroids,
+  getLocalMapRunCreditCost,
+  mergeLocalMapGridConfigUpdate,
+  normalizeLocalMapGridConfig,
+  runDataForSeoLocalGrid,
+  searchGoogleBusinessProfiles,
+  type LocalMapGridConfig,
+  type LocalMapGridPoint,
+} from "../lib/localMap.js";
 import { generateLocalMapBundlePdfBuffer, generateLocalMapKeywordPdfBuffer } from "../lib/localMapPdf.js";
 import { sendEmail } from "../lib/email.js";
+import { loadSuppressedEmails, newEmailBatchId, type EmailDeliveryContext } from "../lib/emailDelivery.js";
 import { buildReportEmailSubject, normalizeEmailRecipients } from "../lib/qualityContracts.js";
 import { LOCAL_MAP_SCHEDULE_SUBJECT_PREFIX, calculateNextRunTime, isLocalMapScheduleSubject } from "../lib/reportScheduler.js";
+import { recordAuditEvent } from "../lib/auditLog.js";
+import { authorize, canAccessClient, loadAgencyAccess } from "../lib/permissions.js";
+import { addCalendarDays, getZonedParts, resolveDefaultTimeZone, resolveTimeZone, zonedTimeToUtc } from "../lib/timezone.js";
 
 const router = express.Router();
 const localMapEnabled = String(process.env.ENABLE_LOCAL_MAP_RANKINGS ?? "true").toLowerCase() === "true";
@@ -67,6 +86,62 @@ function sanitizeGridKeywordForResponse<T extends { locationLabel: string | null
   };
 }
 
+/** Grid settings stored on a keyword; rows written before shapes existed (or with damaged shape data) fall back to a square grid. */
+function gridConfigForKeyword(keyword: Pick<GridKeyword, "gridSize" | "gridSpacingMiles" | "gridShape" | "gridShapeData">): LocalMapGridConfig {
+  const data = (keyword.gridShapeData ?? {}) as { polygon?: unknown; zipCentroids?: unknown };
+  const gridSize = Number(keyword.gridSize) || DEFAULT_GRID_SIZE;
+  const gridSpacingMiles = Number(keyword.gridSpacingMiles) || DEFAULT_GRID_SPACING_MILES;
+  try {
+    return normalizeLocalMapGridConfig({
+      shape: keyword.gridShape,
+      gridSize,
+      gridSpacingMiles,
+      polygon: data.polygon,
+      zipCentroids: data.zipCentroids,
+    });
+  } catch {
+    return { shape: "square", gridSize, gridSpacingMiles };
+  }
+}
+
+function gridRunOptions(config: LocalMapGridConfig) {
+  return {
+    gridShape: config.shape,
+    gridSize: config.gridSize,
+    gridSpacingMiles: config.gridSpacingMiles,
+    polygon: config.polygon,
+    zipCentroids: config.zipCentroids,
+  };
+}
+
+/**
+ * Grid settings from a request body. ZIP grids may send plain `zipCodes`, which are geocoded here; codes that cannot
+ * be placed are rejected so the agency is not billed for points it did not ask for.
+ */
+async function resolveGridConfigFromBody(body: Record<string, any>): Promise<LocalMapGridConfig> {
+  let zipCentroids = body.zipCentroids;
+  if (body.gridShape === "zip" && !Array.isArray(zipCentroids) && Array.isArray(body.zipCodes)) {
+    const geocoded = await geocodeZipCentroids(body.zipCodes.map(String), body.countryCode ? String(body.countryCode) : null);
+    if (geocoded.unresolved.length) {
+      throw new LocalMapGridConfigError(`Could not locate ZIP code(s): ${geocoded.unresolved.join(", ")}`);
+    }
+    zipCentroids = geocoded.centroids;
+  }
+  return normalizeLocalMapGridConfig({
+    shape: body.gridShape,
+    gridSize: body.gridSize,
+    gridSpacingMiles: body.gridSpacingMiles,
+    polygon: body.polygon,
+    zipCentroids,
+  });
+}
+
+function gridShapeDataForConfig(config: LocalMapGridConfig): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  if (config.shape === "polygon") return { polygon: config.polygon ?? [] };
+  if (config.shape === "zip") return { zipCentroids: config.zipCentroids ?? [] };
+  return Prisma.DbNull;
+}
+
 async function ensurePlatformConfigTable(): Promise<void> {
   if (platformConfigTableEnsured) return;
   await prisma.$executeRawUnsafe(`
@@ -627,27 +702,31 @@ function pickCreditSource(data: { monthlyAllowance: number; monthlyUsed: number;
   return null;
 }
 
-async function consumeOnDemandCredit(agencyId: string, isSuperAdmin: boolean) {
+function availableSnapshotCredits(data: { monthlyAllowance: number; monthlyUsed: number; purchasedCredits: number }): number {
+  return Math.max(0, data.monthlyAllowance - data.monthlyUsed) + Math.max(0, data.purchasedCredits);
+}
+
+/**
+ * Takes `credits` snapshot credits (larger grids cost more than one), monthly allowance first and purchased credits
+ * for the remainder. The returned source is where the first credit came from.
+ */
+async function consumeOnDemandCredit(agencyId: string, isSuperAdmin: boolean, credits = 1) {
   const counters = await ensureAgencySnapshotCounters(agencyId);
   const source = pickCreditSource(counters, isSuperAdmin);
-  if (!source) {
-    throw new Error("No snapshot credits remaining");
+  if (!source || (source !== "super_admin" && availableSnapshotCredits(counters) < credits)) {
+    throw new Error(credits > 1 ? `This grid needs ${credits} snapshot credits` : "No snapshot credits remaining");
   }
   if (source === "super_admin") {
     return source;
   }
 
-  if (source === "monthly_allowance") {
-    await prisma.agency.update({
-      where: { id: agencyId },
-      data: { snapshotMonthlyUsed: counters.monthlyUsed + 1 },
-    });
-    return source;
-  }
-
+  const fromMonthly = Math.min(credits, Math.max(0, counters.monthlyAllowance - counters.monthlyUsed));
   await prisma.agency.update({
     where: { id: agencyId },
-    data: { snapshotPurchasedCredits: Math.max(0, counters.purchasedCredits - 1) },
+    data: {
+      snapshotMonthlyUsed: counters.monthlyUsed + fromMonthly,
+      snapshotPurchasedCredits: Math.max(0, counters.purchasedCredits - (credits - fromMonthly)),
+    },
   });
   return source;
 }
@@ -783,11 +862,13 @@ async function canReadClient(user: Express.Request["user"], clientId: string): P
     select: { id: true, belongsToAgencyId: true, userId: true },
   });
   if (!client) return false;
-  if (client.belongsToAgencyId === agencyId) return true;
-  return client.userId === user.userId;
+  if (client.userId === user.userId) return true;
+  if (client.belongsToAgencyId !== agencyId) return false;
+  // Members limited to specific clients (custom per-client access) see nothing else
+  return canAccessClient(await loadAgencyAccess(user, agencyId), clientId);
 }
 
-export async function runScheduledGridKeyword(gridKeywordId: string, runDate = new Date()) {
+export async function runScheduledGridKeyword(gridKeywordId: string, runDate = new Date(), timeZone?: string) {
   const gridKeyword = await prisma.gridKeyword.findUnique({
     where: { id: gridKeywordId },
   });
@@ -799,8 +880,7 @@ export async function runScheduledGridKeyword(gridKeywordId: string, runDate = n
     businessName: gridKeyword.businessName,
     centerLat: Number(gridKeyword.centerLat),
     centerLng: Number(gridKeyword.centerLng),
-    gridSize: gridKeyword.gridSize,
-    gridSpacingMiles: Number(gridKeyword.gridSpacingMiles),
+    ...gridRunOptions(gridConfigForKeyword(gridKeyword)),
   });
 
   const existingCount = await prisma.gridSnapshot.count({
@@ -821,59 +901,68 @@ export async function runScheduledGridKeyword(gridKeywordId: string, runDate = n
     where: { id: gridKeywordId },
     data: {
       lastRunAt: runDate,
-      nextRunAt: computeNextRunDate(runDate),
+      nextRunAt: computeNextRunDate(runDate, timeZone ?? (await resolveDefaultTimeZone({ clientId: gridKeyword.clientId }))),
     },
   });
 
   return snapshot;
 }
 
-function computeNextRunDate(from: Date): Date {
-  const cursor = new Date(from);
-  cursor.setHours(0, 0, 0, 0);
+/** Midnight of the next 1st/15th after `from`, in the client's zone. */
+function computeNextRunDate(from: Date, timeZone: string): Date {
+  const zone = resolveTimeZone(timeZone);
+  const { year, month, day } = getZonedParts(from, zone);
+  let cursor = { year, month, day };
   for (let i = 1; i <= 40; i += 1) {
-    cursor.setDate(cursor.getDate() + 1);
-    if (GRID_RUN_DAYS.has(cursor.getDate())) return cursor;
+    cursor = addCalendarDays(cursor, 1);
+    if (GRID_RUN_DAYS.has(cursor.day)) break;
   }
-  return cursor;
-}
-
-function normalizeToMidnight(date: Date): Date {
-  const out = new Date(date);
-  out.setHours(0, 0, 0, 0);
-  return out;
+  return zonedTimeToUtc({ ...cursor, hour: 0, minute: 0 }, zone);
 }
 
-function resolveScheduledRunTimestamp(now: Date): Date | null {
-  const scheduled = normalizeToMidnight(now);
-  if (!GRID_RUN_DAYS.has(scheduled.getDate())) return null;
-  return scheduled;
+/** Today's run timestamp (local midnight) when `now` falls on the 1st or 15th in the client's zone. */
+function resolveScheduledRunTimestamp(now: Date, timeZone: string): Date | null {
+  const zone = resolveTimeZone(timeZone);
+  const today = getZonedParts(now, zone);
+  if (!GRID_RUN_DAYS.has(today.day)) return null;
+  return zonedTimeToUtc({ year: today.year, month: today.month, day: today.day, hour: 0, minute: 0 }, zone);
 }
 
 export async function processScheduledLocalMapRankings(now = new Date()): Promise<void> {
-  const scheduledRunAt = resolveScheduledRunTimestamp(now);
-  if (!scheduledRunAt) return;
-
   const due = await prisma.gridKeyword.findMany({
     where: {
       status: "active",
-      OR: [{ nextRunAt: null }, { nextRunAt: { lte: scheduledRunAt } }],
+      OR: [{ nextRunAt: null }, { nextRunAt: { lte: now } }],
     },
     select: { id: true, clientId: true },
     take: 300,
   });
 
+  // Run days follow each client's zone, so a client in Los Angeles runs on its own 1st, not the server's.
+  const clientZones = new Map<string, string>();
   const touchedClientIds = new Set<string>();
+  let failed = 0;
   for (const row of due) {
     try {
-      await runScheduledGridKeyword(row.id, scheduledRunAt);
+      let zone = clientZones.get(row.clientId);
+      if (!zone) {
+        zone = await resolveDefaultTimeZone({ clientId: row.clientId });
+        clientZones.set(row.clientId, zone);
+      }
+      const scheduledRunAt = resolveScheduledRunTimestamp(now, zone);
+      if (!scheduledRunAt) continue;
+      await runScheduledGridKeyword(row.id, scheduledRunAt, zone);
       touchedClientIds.add(row.clientId);
     } catch (error) {
+      failed += 1;
       console.error("[LocalMap] scheduled run failed", row.id, error);
     }
   }
 
-  await processScheduledLocalMapEmails(Array.from(touchedClientIds), scheduledRunAt);
+  await processScheduledLocalMapEmails(Array.from(touchedClientIds), now);
+  if (failed > 0) {
+    throw new Error(`${failed} of ${due.length} scheduled Local Map runs failed`);
+  }
 }
 
 async function processScheduledLocalMapEmails(clientIds: string[], now: Date): Promise<void> {
@@ -892,11 +981,12 @@ async function processScheduledLocalMapEmails(clientIds: string[], now: Date): P
   });
 
   const localMapSchedules = schedules.filter((schedule) => isLocalMapScheduleSubject(schedule.emailSubject));
+  const suppressedEmails = localMapSchedules.length ? await loadSuppressedEmails() : new Set<string>();
   for (const schedule of localMapSchedules) {
     try {
-      if (schedule.frequency === "monthly" && now.getDate() !== 1) continue;
+      if (schedule.frequency === "monthly" && getZonedParts(now, resolveTimeZone(schedule.timeZone)).day !== 1) continue;
 
-      const recipients = normalizeEmailRecipients(schedule.recipients);
+      const recipients = normalizeEmailRecipients(schedule.recipients, suppressedEmails);
       if (!recipients.length) continue;
 
       const rows = await getLocalMapBundleRows(schedule.clientId);
@@ -920,6 +1010,12 @@ async function processScheduledLocalMapEmails(clientIds: string[], now: Date): P
         recipients: recipients.length,
         subject: emailSubject,
       });
+      const delivery: EmailDeliveryContext = {
+        templateType: "local_map_report",
+        clientId: schedule.clientId,
+        batchId: newEmailBatchId(),
+        trackEngagement: schedule.trackEngagement,
+      };
       await Promise.all(
         recipients.map((to) =>
           sendEmail({
@@ -932,6 +1028,7 @@ async function processScheduledLocalMapEmails(clientIds: string[], now: Date): P
                 pdf
               ),
             ],
+            delivery,
           })
         )
       );
@@ -940,7 +1037,8 @@ async function processScheduledLocalMapEmails(clientIds: string[], now: Date): P
         schedule.frequency,
         schedule.dayOfWeek ?? undefined,
         schedule.dayOfMonth ?? undefined,
-        schedule.timeOfDay
+        schedule.timeOfDay,
+        schedule.timeZone
       );
       await prisma.reportSchedule.update({
         where: { id: schedule.id },
@@ -1114,6 +1212,11 @@ router.post("/keywords/:clientId", authenticateToken, async (req, res) => {
     if (!keywordId || !placeId || !businessName || centerLat == null || centerLng == null) {
       return res.status(400).json({ message: "Missing required fields" });
     }
+    const gridConfig = await resolveGridConfigFromBody(req.body ?? {});
+    // Surfaces polygons that are too large or miss every lattice point before the keyword is saved.
+    const gridPoints = buildLocalMapGridPoints(Number(centerLat), Number(centerLng), gridConfig);
+    // Scheduled runs are covered by the keyword slot; platform staff may still track larger grids.
+    if (!excludeFromAgencyKeywordPool) assertTrackedGridWithinSlot(gridPoints.length);
 
     const keyword = await prisma.keyword.findFirst({
       where: { id: String(keywordId), clientId, type: "money" },
@@ -1173,10 +1276,12 @@ router.post("/keywords/:clientId", authenticateToken, async (req, res) => {
             locationLabel ? String(locationLabel) : null,
             excludeFromAgencyKeywordPool
           ),
-          gridSize: DEFAULT_GRID_SIZE,
-          gridSpacingMiles: new Prisma.Decimal(DEFAULT_GRID_SPACING_MILES),
+          gridSize: gridConfig.gridSize,
+          gridSpacingMiles: new Prisma.Decimal(gridConfig.gridSpacingMiles),
+          gridShape: gridConfig.shape,
+          gridShapeData: gridShapeDataForConfig(gridConfig),
           status: "active",
-          nextRunAt: computeNextRunDate(new Date()),
+          nextRunAt: computeNextRunDate(new Date(), await resolveDefaultTimeZone({ clientId })),
         },
       });
 
@@ -1210,10 +1315,12 @@ router.post("/keywords/:clientId", authenticateToken, async (req, res) => {
             locationLabel ? String(locationLabel) : null,
             excludeFromAgencyKeywordPool
           ),
-          gridSize: DEFAULT_GRID_SIZE,
-          gridSpacingMiles: new Prisma.Decimal(DEFAULT_GRID_SPACING_MILES),
+          gridSize: gridConfig.gridSize,
+          gridSpacingMiles: new Prisma.Decimal(gridConfig.gridSpacingMiles),
+          gridShape: gridConfig.shape,
+          gridShapeData: gridShapeDataForConfig(gridConfig),
           status: "active",
-          nextRunAt: computeNextRunDate(new Date()),
+          nextRunAt: computeNextRunDate(new Date(), await resolveDefaultTimeZone({ clientId })),
         },
       });
 
@@ -1241,6 +1348,9 @@ router.post("/keywords/:clientId", authenticateToken, async (req, res) => {
       throw error;
     }
   } catch (error: any) {
+    if (error instanceof LocalMapGridConfigError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
     console.error("[LocalMap] create keyword failed", error);
     return res.status(500).json({ message: error?.message || "Failed to activate grid keyword" });
   }
@@ -1323,8 +1433,7 @@ router.get("/report/:gridKeywordId", authenticateToken, async (req, res) => {
           businessName: keyword.businessName,
           centerLat: Number(keyword.centerLat),
           centerLng: Number(keyword.centerLng),
-          gridSize: Number(keyword.gridSize) || DEFAULT_GRID_SIZE,
-          gridSpacingMiles: Number(keyword.gridSpacingMiles) || DEFAULT_GRID_SPACING_MILES,
+          ...gridRunOptions(gridConfigForKeyword(keyword)),
         });
         await prisma.gridSnapshot.create({
           data: {
@@ -1359,8 +1468,7 @@ router.get("/report/:gridKeywordId", authenticateToken, async (req, res) => {
         businessName: keyword.businessName,
         centerLat: Number(keyword.centerLat),
         centerLng: Number(keyword.centerLng),
-        gridSize: Number(keyword.gridSize) || DEFAULT_GRID_SIZE,
-        gridSpacingMiles: Number(keyword.gridSpacingMiles) || DEFAULT_GRID_SPACING_MILES,
+        ...gridRunOptions(gridConfigForKeyword(keyword)),
       });
       const currentLiveSnapshot = {
         id: `live-${keyword.id}-${Date.now()}`,
@@ -1395,8 +1503,7 @@ router.get("/report/:gridKeywordId", authenticateToken, async (req, res) => {
           businessName: keyword.businessName,
           centerLat: Number(keyword.centerLat),
           centerLng: Number(keyword.centerLng),
-          gridSize: Number(keyword.gridSize) || DEFAULT_GRID_SIZE,
-          gridSpacingMiles: Number(keyword.gridSpacingMiles) || DEFAULT_GRID_SPACING_MILES,
+          ...gridRunOptions(gridConfigForKeyword(keyword)),
         });
         await prisma.gridSnapshot.update({
           where: { id: latestSnapshot.id },
@@ -1440,8 +1547,7 @@ router.get("/report/:gridKeywordId", authenticateToken, async (req, res) => {
           businessName: keyword.businessName,
           centerLat: Number(keyword.centerLat),
           centerLng: Number(keyword.centerLng),
-          gridSize: Number(keyword.gridSize) || DEFAULT_GRID_SIZE,
-          gridSpacingMiles: Number(keyword.gridSpacingMiles) || DEFAULT_GRID_SPACING_MILES,
+          ...gridRunOptions(gridConfigForKeyword(keyword)),
         });
         current = {
           id: `live-${keyword.id}-${Date.now()}`,
@@ -1509,9 +1615,10 @@ router.post("/reports/:clientId/send", authenticateToken, async (req, res) => {
       });
     }
 
-    const recipients = bodyRecipients.length
-      ? bodyRecipients
-      : normalizeEmailRecipients(scheduleCandidate?.recipients);
+    const recipients = normalizeEmailRecipients(
+      bodyRecipients.length ? bodyRecipients : scheduleCandidate?.recipients,
+      await loadSuppressedEmails()
+    );
     const uniqueRecipients = [...new Set(
       recipients.map((entry) => String(entry || "").trim().toLowerCase()).filter(Boolean)
     )];
@@ -1556,6 +1663,12 @@ router.post("/reports/:clientId/send", authenticateToken, async (req, res) => {
     // This keeps "Send now" content aligned with the exact preview payload.
     const html = bodyEmailHtml || buildLocalMapReportEmailHtml(client?.name || "Client", rows);
 
+    const delivery: EmailDeliveryContext = {
+      templateType: "local_map_report",
+      clientId,
+      batchId: newEmailBatchId(),
+      trackEngagement: scheduleCandidate?.trackEngagement ?? false,
+    };
     console.log("[LocalMap] Sending on-demand Local Map report email", {
       clientId,
       recipients: uniqueRecipients.length,
@@ -1577,6 +1690,7 @@ router.post("/reports/:clientId/send", authenticateToken, async (req, res) => {
               contentDisposition: "inline" as const,
             })),
           ],
+          delivery,
         })
       )
     );
@@ -1586,7 +1700,8 @@ router.post("/reports/:clientId/send", authenticateToken, async (req, res) => {
         activeSchedule.frequency as "biweekly" | "monthly",
         activeSchedule.dayOfWeek ?? undefined,
         activeSchedule.dayOfMonth ?? undefined,
-        activeSchedule.timeOfDay ?? undefined
+        activeSchedule.timeOfDay ?? undefined,
+        activeSchedule.timeZone
       );
 
       await prisma.reportSchedule.update({
@@ -1604,10 +1719,10 @@ router.post("/reports/:clientId/send", authenticateToken, async (req, res) => {
 
 router.post("/snapshot/run", authenticateToken, async (req, res) => {
   try {
-    if (!isManagerRole(req.user.role)) {
-      return res.status(403).json({ message: "Access denied" });
-    }
     const { keyword, placeId, mapsCid, businessName, businessAddress, centerLat, centerLng, clientId, superAdminMode } = req.body ?? {};
+    if (!(await authorize(req, res, "run_snapshots", { clientId: typeof clientId === "string" && clientId ? clientId : null }))) {
+      return;
+    }
     if (!keyword || !placeId || !businessName || centerLat == null || centerLng == null) {
       return res.status(400).json({ message: "Missing required fields" });
     }
@@ -1626,6 +1741,21 @@ router.post("/snapshot/run", authenticateToken, async (req, res) => {
       }
     }
 
+    const gridConfig = await resolveGridConfigFromBody(req.body ?? {});
+    const pointCount = buildLocalMapGridPoints(Number(centerLat), Number(centerLng), gridConfig).length;
+    const creditsUsed = getLocalMapRunCreditCost(pointCount);
+    if (!isSuperAdminRun) {
+      // Checked up front so a grid the agency cannot pay for never reaches DataForSEO.
+      const counters = await ensureAgencySnapshotCounters(agencyId as string);
+      if (availableSnapshotCredits(counters) < creditsUsed) {
+        return res.status(402).json({
+          message: `This ${pointCount}-point grid needs ${creditsUsed} snapshot credit${creditsUsed === 1 ? "" : "s"}`,
+          pointCount,
+          creditsRequired: creditsUsed,
+        });
+      }
+    }
+
     const result = await runDataForSeoLocalGrid({
       keyword: String(keyword),
       placeId: String(placeId),
@@ -1633,13 +1763,27 @@ router.post("/snapshot/run", authenticateToken, async (req, res) => {
       businessName: String(businessName),
       centerLat: Number(centerLat),
       centerLng: Number(centerLng),
-      gridSize: DEFAULT_GRID_SIZE,
-      gridSpacingMiles: DEFAULT_GRID_SPACING_MILES,
+      ...gridRunOptions(gridConfig),
     });
 
     const creditSource = isSuperAdminRun
       ? "super_admin"
-      : await consumeOnDemandCredit(agencyId as string, false);
+      : await consumeOnDemandCredit(agencyId as string, false, creditsUsed);
+
+    // Competitor movement is measured against the last on-demand run of the same keyword and business.
+    const previousRun = await prisma.onDemandSnapshotLog.findFirst({
+      where: {
+        keywordText: String(keyword),
+        placeId: String(placeId),
+        ...(isSuperAdminRun ? { agencyId: null, runByUserId: req.user.userId } : { agencyId }),
+      },
+      orderBy: { createdAt: "desc" },
+      select: { gridData: true },
+    });
+    const competitorAnalysis = buildCompetitorAnalysis(
+      result.gridData,
+      previousRun ? parseGridDataOrFallback(previousRun.gridData) : null
+    );
 
     const log = await prisma.onDemandSnapshotLog.create({
       data: {
@@ -1655,6 +1799,7 @@ router.post("/snapshot/run", authenticateToken, async (req, res) => {
         gridData: JSON.stringify(result.gridData),
         ataScore: result.ataScore,
         creditSource,
+        creditsUsed: isSuperAdminRun ? 0 : creditsUsed,
       },
     });
 
@@ -1673,9 +1818,15 @@ router.post("/snapshot/run", authenticateToken, async (req, res) => {
       gridData: result.gridData,
       topCompetitorsCurrent: result.topCompetitorsCurrent,
       topDetectedBusinesses: result.topDetectedBusinesses,
+      competitorAnalysis,
       creditSource,
+      pointCount: result.gridData.length,
+      creditsUsed: isSuperAdminRun ? 0 : creditsUsed,
     });
   } catch (error: any) {
+    if (error instanceof LocalMapGridConfigError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
     const body = req.body ?? {};
     const isSuperAdminRun = Boolean(body?.superAdminMode) && (req.user?.role === "SUPER_ADMIN" || req.user?.role === "ADMIN");
     let agencyIdForNotification: string | null = null;
@@ -1704,6 +1855,34 @@ router.post("/snapshot/run", authenticateToken, async (req, res) => {
   }
 });
 
+/** Points and credit cost for a grid configuration, so the UI can show both before anything is run or saved. */
+router.post("/grid/preview", authenticateToken, async (req, res) => {
+  try {
+    if (!isManagerRole(req.user.role)) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+    const { centerLat, centerLng } = req.body ?? {};
+    if (centerLat == null || centerLng == null) {
+      return res.status(400).json({ message: "Missing required fields" });
+    }
+    const gridConfig = await resolveGridConfigFromBody(req.body ?? {});
+    const points = buildLocalMapGridPoints(Number(centerLat), Number(centerLng), gridConfig);
+    return res.json({
+      gridShape: gridConfig.shape,
+      gridSize: gridConfig.gridSize,
+      gridSpacingMiles: gridConfig.gridSpacingMiles,
+      pointCount: points.length,
+      creditCost: getLocalMapRunCreditCost(points.length),
+      points,
+    });
+  } catch (error: any) {
+    if (error instanceof LocalMapGridConfigError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    return res.status(500).json({ message: error?.message || "Failed to preview grid" });
+  }
+});
+
 router.post("/snapshot/point-serp", authenticateToken, async (req, res) => {
   try {
     if (!isManagerRole(req.user.role)) {
@@ -1858,21 +2037,35 @@ router.patch("/admin/keywords/:gridKeywordId", authenticateToken, async (req, re
     }
     const { gridKeywordId } = req.params;
     const status = req.body?.status as "active" | "paused" | "canceled" | undefined;
-    const gridSize = req.body?.gridSize == null ? undefined : Number(req.body.gridSize);
-    const gridSpacingMiles = req.body?.gridSpacingMiles == null ? undefined : Number(req.body.gridSpacingMiles);
+    const body = req.body ?? {};
+    const changesGrid = ["gridSize", "gridSpacingMiles", "gridShape", "polygon", "zipCodes", "zipCentroids"]
+      .some((field) => body[field] != null);
+    let gridData: Prisma.GridKeywordUpdateInput = {};
+    if (changesGrid) {
+      const existing = await prisma.gridKeyword.findUnique({ where: { id: gridKeywordId } });
+      if (!existing) return res.status(404).json({ message: "Grid keyword not found" });
+      const gridConfig = await resolveGridConfigFromBody(mergeLocalMapGridConfigUpdate(gridConfigForKeyword(existing), body));
+      buildLocalMapGridPoints(Number(existing.centerLat), Number(existing.centerLng), gridConfig);
+      gridData = {
+        gridSize: gridConfig.gridSize,
+        gridSpacingMiles: new Prisma.Decimal(gridConfig.gridSpacingMiles),
+        gridShape: gridConfig.shape,
+        gridShapeData: gridShapeDataForConfig(gridConfig),
+      };
+    }
 
     const updated = await prisma.gridKeyword.update({
       where: { id: gridKeywordId },
       data: {
         ...(status ? { status } : {}),
-        ...(Number.isFinite(gridSize) && gridSize != null ? { gridSize } : {}),
-        ...(Number.isFinite(gridSpacingMiles) && gridSpacingMiles != null
-          ? { gridSpacingMiles: new Prisma.Decimal(gridSpacingMiles) }
-          : {}),
+        ...gridData,
       },
     });
     return res.json(updated);
   } catch (error: any) {
+    if (error instanceof LocalMapGridConfigError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
     return res.status(500).json({ message: error?.message || "Failed to update keyword controls" });
   }
 });
@@ -1960,6 +2153,16 @@ router.post("/admin/agencies/:agencyId/snapshot-credits/issue", authenticateToke
       data: { snapshotPurchasedCredits: { increment: amount } },
       select: { id: true, name: true, snapshotPurchasedCredits: true },
     });
+    await recordAuditEvent(req, {
+      action: "agency.snapshot_credits_issued",
+      entityType: "agency",
+      entityId: updated.id,
+      entityLabel: updated.name,
+      agencyId: updated.id,
+      before: { snapshotPurchasedCredits: updated.snapshotPurchasedCredits - amount },
+      after: { snapshotPurchasedCredits: updated.snapshotPurchasedCredits },
+      metadata: { amount },
+    });
 
     await prisma.notification.create({
       data: {
@@ -1977,6 +2180,44 @@ router.post("/admin/agencies/:agencyId/snapshot-credits/issue", authenticateToke
   }
 });
 
+router.get("/competitors/:gridKeywordId", authenticateToken, async (req, res) => {
+  try {
+    const keyword = await prisma.gridKeyword.findUnique({
+      where: { id: req.params.gridKeywordId },
+      include: { snapshots: { orderBy: { runDate: "desc" } } },
+    });
+    if (!keyword) return res.status(404).json({ message: "Grid keyword not found" });
+    const canRead = await canReadClient(req.user, keyword.clientId);
+    if (!canRead) return res.status(403).json({ message: "Access denied" });
+
+    // Defaults to the latest run; ?snapshotId= looks at an older one. Movement is always against the run before it.
+    const requestedSnapshotId = typeof req.query.snapshotId === "string" ? req.query.snapshotId : "";
+    const currentIndex = requestedSnapshotId
+      ? keyword.snapshots.findIndex((snap) => snap.id === requestedSnapshotId)
+      : 0;
+    if (currentIndex < 0) return res.status(404).json({ message: "Snapshot not found" });
+    const current = keyword.snapshots[currentIndex] ?? null;
+    const previous = keyword.snapshots[currentIndex + 1] ?? null;
+    const analysis = current
+      ? buildCompetitorAnalysis(
+        parseGridDataOrFallback(current.gridData),
+        previous ? parseGridDataOrFallback(previous.gridData) : null
+      )
+      : null;
+
+    return res.json({
+      gridKeywordId: keyword.id,
+      keywordText: keyword.keywordText,
+      businessName: keyword.businessName,
+      snapshot: current ? { id: current.id, runDate: current.runDate, ataScore: current.ataScore } : null,
+      previousSnapshot: previous ? { id: previous.id, runDate: previous.runDate, ataScore: previous.ataScore } : null,
+      analysis,
+    });
+  } catch (error: any) {
+    return res.status(500).json({ message: error?.message || "Failed to load competitor analysis" });
+  }
+});
+
 router.get("/pdf/keyword/:gridKeywordId", authenticateToken, async (req, res) => {
   try {
     const { gridKeywordId } = req.params;
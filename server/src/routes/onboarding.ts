@@ -1,6 +1,7 @@
 import express from "express";
 import { z } from "zod";
 import { prisma } from "../lib/prisma.js";
+import { parseBlockedByOrders } from "../lib/taskDependencies.js";
 import { authenticateToken, optionalAuthenticateToken } from "../middleware/auth.js";
 import { requireAgencyTrialNotExpired } from "../middleware/requireAgencyTrialNotExpired.js";
 
@@ -98,6 +99,7 @@ const taskSelectWithDueDays = {
   estimatedHours: true,
   dueDate: true,
   dueDaysAfterStart: true,
+  blockedByOrders: true,
   order: true,
 };
 
@@ -203,6 +205,12 @@ function isMissingOnboardingTasksColumn(error: any): boolean {
   );
 }
 
+/** Stored as a JSON array of earlier task positions; anything else (self, later tasks, junk) is dropped. */
+function serializeBlockedByOrders(value: unknown, order: number): string | null {
+  const orders = parseBlockedByOrders(value, order);
+  return orders.length > 0 ? JSON.stringify(orders) : null;
+}
+
 function canFallbackDueDaysAfterStart(error: any): boolean {
   return isUnknownDueDaysAfterStartArg(error) || isMissingDueDaysAfterStartColumn(error);
 }
@@ -381,6 +389,7 @@ router.post("/templates", authenticateToken, async (req, res) => {
                 task.dueDaysAfterStart === null || task.dueDaysAfterStart === undefined || task.dueDaysAfterStart === ""
                   ? null
                   : Math.max(0, Number(task.dueDaysAfterStart)),
+              blockedByOrders: serializeBlockedByOrders(task.blockedByOrders, index + 1),
               order: index + 1
             }))
           }
@@ -524,6 +533,7 @@ router.put("/templates/:id", authenticateToken, async (req, res) => {
                 task.dueDaysAfterStart === null || task.dueDaysAfterStart === undefined || task.dueDaysAfterStart === ""
                   ? null
                   : Math.max(0, Number(task.dueDaysAfterStart)),
+              blockedByOrders: serializeBlockedByOrders(task.blockedByOrders, index + 1),
               order: index + 1
             }))
           }
@@ -0,0 +1,18 @@
+import { Router, Request, Response } from "express";
+import { authenticateToken } from "../middleware/auth.js";
+import { loadRealtimeSubscriber, openRealtimeStream } from "../lib/realtime.js";
+
+const router = Router();
+
+// Server-Sent Events stream of invalidation events for the signed-in user (see lib/realtime.ts)
+router.get("/stream", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const subscriber = await loadRealtimeSubscriber(req.user);
+    openRealtimeStream(req, res, subscriber);
+  } catch (error) {
+    console.error("Realtime stream error:", error);
+    if (!res.headersSent) res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,209 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { authenticateToken } from "../middleware/auth.js";
+import {
+  DEFAULT_REPORT_TEMPLATE_BLOCKS,
+  MAX_REPORT_TEMPLATE_BLOCKS,
+  MAX_REPORT_TEMPLATES_PER_AGENCY,
+  REPORT_TEMPLATE_SECTIONS,
+  buildReportDocument,
+  loadReportTemplateData,
+  parseStoredReportTemplateBlocks,
+  renderReportDocumentHtml,
+  reportTemplateBlocksSchema,
+  reportTemplateSchema,
+} from "../lib/reportTemplates.js";
+
+const router = Router();
+
+/** The caller's agency (first membership) and whether they may edit its templates: OWNER/MANAGER or a platform admin. */
+async function resolveTemplateAgency(req: Request, res: Response): Promise<{ agencyId: string; canManage: boolean } | null> {
+  const user = req.user;
+  const membership = await prisma.userAgency.findFirst({
+    where: { userId: user.userId },
+    select: { agencyId: true, agencyRole: true },
+  });
+  if (!membership) {
+    res.status(404).json({ message: "No agency found for user" });
+    return null;
+  }
+  const canManage =
+    membership.agencyRole === "OWNER" ||
+    membership.agencyRole === "MANAGER" ||
+    user.role === "ADMIN" ||
+    user.role === "SUPER_ADMIN";
+  return { agencyId: membership.agencyId, canManage };
+}
+
+async function resolveTemplateManagerAgency(req: Request, res: Response): Promise<string | null> {
+  const agency = await resolveTemplateAgency(req, res);
+  if (!agency) return null;
+  if (!agency.canManage) {
+    res.status(403).json({ message: "Access denied. Only agency owners and managers can edit report templates." });
+    return null;
+  }
+  return agency.agencyId;
+}
+
+function serializeTemplate(template: {
+  id: string;
+  name: string;
+  description: string | null;
+  blocks: Prisma.JsonValue;
+  updatedAt: Date;
+  _count?: { schedules: number };
+}) {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    blocks: parseStoredReportTemplateBlocks(template.blocks),
+    updatedAt: template.updatedAt,
+    scheduleCount: template._count?.schedules ?? 0,
+  };
+}
+
+// Templates for the caller's agency, plus the section catalog the builder offers
+router.get("/", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agency = await resolveTemplateAgency(req, res);
+    if (!agency) return;
+
+    const templates = await prisma.reportTemplate.findMany({
+      where: { agencyId: agency.agencyId },
+      include: { _count: { select: { schedules: true } } },
+      orderBy: { name: "asc" },
+    });
+    res.json({
+      templates: templates.map(serializeTemplate),
+      sections: Object.entries(REPORT_TEMPLATE_SECTIONS).map(([id, section]) => ({ id, ...section })),
+      defaultBlocks: DEFAULT_REPORT_TEMPLATE_BLOCKS,
+      maxBlocks: MAX_REPORT_TEMPLATE_BLOCKS,
+      canManage: agency.canManage,
+    });
+  } catch (error) {
+    console.error("List report templates error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+router.post("/", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agencyId = await resolveTemplateManagerAgency(req, res);
+    if (!agencyId) return;
+
+    const body = reportTemplateSchema.parse(req.body);
+    const count = await prisma.reportTemplate.count({ where: { agencyId } });
+    if (count >= MAX_REPORT_TEMPLATES_PER_AGENCY) {
+      return res.status(400).json({ message: `Agencies can have at most ${MAX_REPORT_TEMPLATES_PER_AGENCY} report templates.` });
+    }
+
+    const template = await prisma.reportTemplate.create({
+      data: {
+        agencyId,
+        name: body.name,
+        description: body.description,
+        blocks: body.blocks as Prisma.InputJsonArray,
+      },
+    });
+    res.status(201).json(serializeTemplate(template));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid data", errors: error.errors });
+    }
+    console.error("Create report template error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+router.put("/:templateId", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agencyId = await resolveTemplateManagerAgency(req, res);
+    if (!agencyId) return;
+
+    const existing = await prisma.reportTemplate.findFirst({ where: { id: req.params.templateId, agencyId } });
+    if (!existing) return res.status(404).json({ message: "Report template not found" });
+
+    const body = reportTemplateSchema.parse(req.body);
+    const template = await prisma.reportTemplate.update({
+      where: { id: existing.id },
+      data: { name: body.name, description: body.description, blocks: body.blocks as Prisma.InputJsonArray },
+      include: { _count: { select: { schedules: true } } },
+    });
+    res.json(serializeTemplate(template));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid data", errors: error.errors });
+    }
+    console.error("Update report template error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Schedules using the template fall back to the standard layout (templateId is set to null)
+router.delete("/:templateId", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agencyId = await resolveTemplateManagerAgency(req, res);
+    if (!agencyId) return;
+
+    const existing = await prisma.reportTemplate.findFirst({ where: { id: req.params.templateId, agencyId } });
+    if (!existing) return res.status(404).json({ message: "Report template not found" });
+
+    await prisma.reportTemplate.delete({ where: { id: existing.id } });
+    res.json({ message: "Report template deleted" });
+  } catch (error) {
+    console.error("Delete report template error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Render unsaved blocks against a client's latest report, so the builder can show the email before saving
+router.post("/preview", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agency = await resolveTemplateAgency(req, res);
+    if (!agency) return;
+
+    const body = z
+      .object({
+        clientId: z.string().min(1),
+        name: z.string().trim().max(120).optional(),
+        blocks: reportTemplateBlocksSchema,
+      })
+      .parse(req.body);
+
+    const client = await prisma.client.findUnique({
+      where: { id: body.clientId },
+      select: {
+        id: true,
+        name: true,
+        domain: true,
+        belongsToAgencyId: true,
+        user: { select: { memberships: { select: { agencyId: true } } } },
+      },
+    });
+    if (!client) return res.status(404).json({ message: "Client not found" });
+    const clientAgencyIds = [client.belongsToAgencyId, ...(client.user?.memberships.map((m) => m.agencyId) ?? [])];
+    if (!clientAgencyIds.includes(agency.agencyId)) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const report = await prisma.seoReport.findUnique({ where: { clientId: client.id } });
+    if (!report) {
+      return res.status(404).json({ message: "Generate a report for this client before previewing a template." });
+    }
+
+    const data = await loadReportTemplateData(report, client, body.blocks);
+    const document = buildReportDocument(body.blocks, data, body.name || undefined);
+    res.json({ html: renderReportDocumentHtml(document) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid data", errors: error.errors });
+    }
+    console.error("Preview report template error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -23,6 +23,46 @@ import {
   enforceDashboardMetricAccuracy,
   enforceDomainOverviewAccuracy,
 } from "../lib/metricAccuracy.js";
+import {
+  clampHistoryDays,
+  getClientRankHistorySeries,
+  getKeywordRankHistory,
+  recordKeywordRankObservation,
+} from "../lib/keywordRankHistory.js";
+import { isValidTimeZone, resolveDefaultTimeZone, resolveTimeZone } from "../lib/timezone.js";
+import { recordAuditEvent, resolveClientAgencyId } from "../lib/auditLog.js";
+import { authorize, canAccessClient, loadAgencyAccess } from "../lib/permissions.js";
+import { loadSuppressedEmails, newEmailBatchId } from "../lib/emailDelivery.js";
+import { decryptSecret, encryptSecret } from "../lib/secretEncryption.js";
+import {
+  CsvImportError,
+  describeImportFields,
+  importRequestSchema,
+  prepareImport,
+  summarizeImportResults,
+  type ImportFieldSpec,
+  type ImportRowResult,
+} from "../lib/csvImport.js";
+import { parseSpreadsheetFormat, sendSpreadsheet } from "../lib/spreadsheetExport.js";
+import {
+  COMPETITOR_REFRESH_COOLDOWN_HOURS,
+  COMPETITOR_SNAPSHOT_INTERVAL_DAYS,
+  COMPETITOR_SNAPSHOT_KEYWORD_LIMIT,
+  MAX_COMPETITORS_PER_CLIENT,
+  extractRankedKeywordEntries,
+  getCompetitorOverview,
+  normalizeCompetitorDomain,
+} from "../lib/competitors.js";
+import {
+  SITE_AUDIT_ISSUE_TYPES,
+  diffSiteAuditIssues,
+  getSiteAuditPageLimit,
+  type SiteAuditIssueCode,
+} from "../lib/siteAudit.js";
+import { requestJobRun } from "../lib/jobScheduler.js";
+import { processBacklinkSyncAlerts } from "../lib/backlinkAlerts.js";
+import { LINK_PROSPECT_STAGES, verifyLiveLinkProspects } from "../lib/linkBuilding.js";
+import { publishRealtimeEvent } from "../lib/realtime.js";
 
 const router = express.Router();
 
@@ -178,7 +218,7 @@ function isGoogleSerpUrl(url: string | null | undefined): boolean {
 }
 
 /** Use only for the "Google URL" / ranking URL field: returns the URL if it's a real website, null if it's a Google SERP URL or invalid. */
-function onlyRankingWebsiteUrl(url: string | null | undefined): string | null {
+export function onlyRankingWebsiteUrl(url: string | null | undefined): string | null {
   if (!url || typeof url !== "string" || !url.startsWith("http")) return null;
   if (isGoogleSerpUrl(url)) return null;
   return url;
@@ -370,6 +410,11 @@ async function resolveSeoClientAccess(params: {
     hasAccess = Boolean(task);
   }
 
+  // Members limited to specific clients (custom per-client access) see nothing else
+  if (hasAccess && !isAdmin && !isOwner && (user.role === "AGENCY" || user.role === "SPECIALIST")) {
+    hasAccess = canAccessClient(await loadAgencyAccess(user), clientId);
+  }
+
   return { client, hasAccess, userAgencyIds };
 }
 
@@ -541,6 +586,7 @@ router.post("/super-admin/notifications/mark-read", authenticateToken, async (re
         data: { read: true },
       });
     }
+    void publishRealtimeEvent({ userIds: [req.user.userId], roles: ["SUPER_ADMIN", "ADMIN"] }, { type: "notification" });
     return res.json({ success: true });
   } catch (err: any) {
     console.error("Mark super admin notifications read error:", err);
@@ -1349,6 +1395,33 @@ async function fetchBacklinkTimeseriesSummaryFromDataForSEO(
     .filter((item) => item.date);
 }
 
+// Backlink totals for up to 1,000 targets (domains or pages) in one request.
+// Items come back in target order; each has backlinks, referring_domains and rank (0-100 with rank_scale one_hundred).
+async function fetchBulkPagesSummaryFromDataForSEO(targets: string[]): Promise<any[]> {
+  const base64Auth = process.env.DATAFORSEO_BASE64;
+  if (!base64Auth) {
+    throw new Error("DataForSEO credentials not configured. Please set DATAFORSEO_BASE64 environment variable.");
+  }
+  if (targets.length === 0) return [];
+
+  const response = await fetch("https://api.dataforseo.com/v3/backlinks/bulk_pages_summary/live", {
+    method: "POST",
+    headers: {
+      Authorization: `Basic ${base64Auth}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify([{ targets, rank_scale: "one_hundred" }]),
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`DataForSEO API error: ${response.status} - ${errorText}`);
+  }
+
+  const data = await response.json();
+  const items = data?.tasks?.[0]?.result?.[0]?.items;
+  return Array.isArray(items) ? items : [];
+}
+
 type DataForSEOBacklinkListItem = {
   sourceUrl: string;
   targetUrl: string;
@@ -1792,6 +1865,13 @@ async function refreshBacklinksForClientInternal(params: {
       // IMPORTANT: Don't wipe previously-synced backlinks unless we successfully fetched new rows.
       // This prevents the Backlinks panel from showing only manual rows when DataForSEO is flaky.
       if (createRows.length > 0) {
+        const previousRows = await prisma.backlink.findMany({
+          where: {
+            clientId,
+            OR: [{ firstSeen: { not: null } }, { lastSeen: { not: null } }],
+          },
+          select: { sourceUrl: true, targetUrl: true, domainRating: true, isFollow: true, isLost: true },
+        });
         await prisma.$transaction(async (tx) => {
           await tx.backlink.deleteMany({
             where: {
@@ -1806,6 +1886,13 @@ async function refreshBacklinksForClientInternal(params: {
             backlinksInserted += created.count;
           }
         });
+
+        await processBacklinkSyncAlerts(clientId, previousRows, createRows).catch((e: any) =>
+          console.warn("[Backlinks Refresh] Alert rules failed:", e?.message || e)
+        );
+        await verifyLiveLinkProspects(clientId, createRows).catch((e: any) =>
+          console.warn("[Backlinks Refresh] Link verification failed:", e?.message || e)
+        );
       }
     } catch (backlinksErr) {
       console.warn("[Backlinks Refresh] Failed to refresh backlink list:", backlinksErr);
@@ -1870,16 +1957,21 @@ export async function autoSyncBacklinksForStaleClients(params?: { batchSize?: nu
       });
     }
 
+    let failed = 0;
     for (const c of clients) {
       try {
         const res = await refreshBacklinksForClientInternal({ clientId: c.id, force: false });
         console.log(`[Backlinks Auto-Sync] ${c.name || c.id}: ${res.skipped ? "skipped" : "refreshed"} (${res.backlinksInserted} backlinks, ${res.items} timeseries)`);
       } catch (e: any) {
+        failed += 1;
         console.warn(`[Backlinks Auto-Sync] Failed for ${c.name || c.id}:`, e?.message || e);
       } finally {
         backlinksAutoSyncLastClientId = c.id;
       }
     }
+    if (failed > 0) {
+      throw new Error(`Backlinks auto-sync failed for ${failed} of ${clients.length} clients`);
+    }
   } finally {
     backlinksAutoSyncInFlight = false;
   }
@@ -1898,6 +1990,7 @@ export async function autoRefreshSeoDataForDueClients(params?: { batchSize?: num
   });
 
   let processed = 0;
+  let failed = 0;
   for (const client of clients) {
     if (processed >= batchSize) break;
     try {
@@ -1907,10 +2000,9 @@ export async function autoRefreshSeoDataForDueClients(params?: { batchSize?: num
       if (ageMs < ttlMs) continue;
 
       processed++;
-      await refreshBacklinksForClientInternal({ clientId: client.id, force: true }).catch((e: any) =>
-        console.warn(`[SEO Auto-Refresh] Backlinks for ${client.name || client.id}:`, e?.message || e)
-      );
+      await refreshBacklinksForClientInternal({ clientId: client.id, force: true });
     } catch (e: any) {
+      failed += 1;
       console.warn(`[SEO Auto-Refresh] ${client.name || client.id}:`, e?.message || e);
     }
   }
@@ -1918,6 +2010,9 @@ export async function autoRefreshSeoDataForDueClients(params?: { batchSize?: num
   if (processed > 0) {
     console.log(`[SEO Auto-Refresh] Processed ${processed} client(s) (Vendasta 48h, others 40h).`);
   }
+  if (failed > 0) {
+    throw new Error(`SEO auto-refresh failed for ${failed} client(s)`);
+  }
 }
 
 // Get SEO reports for a client
@@ -2892,6 +2987,30 @@ router.get("/share/:token/visitor-sources", async (req, res) => {
   }
 });
 
+// Hours logged on the client's tasks this month vs. their monthly allowance (null when neither exists)
+router.get("/share/:token/hours", async (req, res) => {
+  try {
+    const { token } = req.params;
+    const tokenData = await resolveShareToken(token);
+    if (!tokenData) {
+      return res.status(401).json({ message: "Invalid or expired share link" });
+    }
+    // "This month" follows the client's report schedule, so the dashboard matches the emailed report.
+    const schedule = await prisma.reportSchedule.findFirst({
+      where: { clientId: tokenData.clientId, isActive: true },
+      orderBy: { createdAt: "asc" },
+      select: { timeZone: true },
+    });
+    const { getReportHoursUsed } = await import("../lib/reportScheduler.js");
+    const hours = await getReportHoursUsed(tokenData.clientId, new Date(), schedule?.timeZone);
+    // Share viewers see billable totals per task, not who logged the time.
+    return res.json(hours ? { ...hours, byUser: [] } : null);
+  } catch (error) {
+    console.error("Share hours error:", error);
+    res.status(500).json({ message: "Failed to fetch hours" });
+  }
+});
+
 // Share endpoint for ranked keywords summary
 router.get("/share/:token/ranked-keywords", async (req, res) => {
   try {
@@ -3188,6 +3307,73 @@ router.get("/keywords/:clientId", authenticateToken, async (req, res) => {
   }
 });
 
+// Daily rank series for every keyword of a client (sparklines), keyed by normalized keyword text
+router.get("/keywords/:clientId/history", authenticateToken, async (req, res) => {
+  try {
+    const { clientId } = req.params;
+    const days = clampHistoryDays(req.query.days);
+
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const series = await getClientRankHistorySeries({ clientId, days });
+    res.json({ days, series });
+  } catch (error) {
+    console.error("Fetch keyword rank history series error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Daily rank history for one keyword. Accepts a tracked keyword id or a target keyword id.
+router.get("/keywords/:clientId/:keywordId/history", authenticateToken, async (req, res) => {
+  try {
+    const { clientId, keywordId } = req.params;
+    const days = clampHistoryDays(req.query.days);
+
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const tracked = await prisma.keyword.findFirst({
+      where: { id: keywordId, clientId },
+      select: { keyword: true },
+    });
+    const target = tracked
+      ? null
+      : await prisma.targetKeyword.findFirst({
+          where: { id: keywordId, clientId },
+          select: { keyword: true },
+        });
+    const keywordText = tracked?.keyword ?? target?.keyword;
+    if (!keywordText) {
+      return res.status(404).json({ message: "Keyword not found" });
+    }
+
+    const history = await getKeywordRankHistory({ clientId, keyword: keywordText, days });
+    res.json({ keywordId, keyword: keywordText, days, history });
+  } catch (error) {
+    console.error("Fetch keyword rank history error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
 // Create keywords for a client
 router.post("/keywords/:clientId", authenticateToken, async (req, res) => {
   try {
@@ -3408,6 +3594,18 @@ router.post("/keywords/:clientId", authenticateToken, async (req, res) => {
       }
     }
 
+    if (serpRankData) {
+      await recordKeywordRankObservation({
+        clientId,
+        keyword: keyword.keyword,
+        keywordId: keyword.id,
+        position: keywordData.currentPosition,
+        rankingUrl: onlyRankingWebsiteUrl(keywordData.googleUrl),
+        serpFeatures: keywordData.serpFeatures,
+        locationName: resolvedLocationName || null,
+      });
+    }
+
     // Ensure tracked keyword is also available in Target Keywords panel (upsert)
     try {
       const item = serpData?.tasks?.[0]?.result?.[0]?.items?.[0];
@@ -3498,6 +3696,54 @@ router.post("/keywords/:clientId", authenticateToken, async (req, res) => {
 
 const BULK_KEYWORDS_LIMIT = 500;
 
+/** Creates a tracked keyword (no DataForSEO fetch) and its Target Keywords row. Returns false when it is already tracked. */
+async function addTrackedKeyword(
+  clientId: string,
+  keyword: string,
+  options: { locationName: string; locationCode: number; languageCode: string; type: string }
+): Promise<boolean> {
+  const existing = await prisma.keyword.findUnique({
+    where: {
+      clientId_keyword: { clientId, keyword },
+    },
+  });
+  if (existing) return false;
+
+  const createData: any = {
+    keyword,
+    searchVolume: 0,
+    clientId,
+    type: options.type,
+    ...(options.locationName ? { locationName: options.locationName } : {}),
+  };
+  await prisma.keyword.create({ data: createData });
+
+  try {
+    await prisma.targetKeyword.upsert({
+      where: {
+        clientId_keyword: { clientId, keyword },
+      },
+      update: {
+        locationCode: options.locationCode,
+        locationName: options.locationName,
+        languageCode: options.languageCode,
+        type: options.type,
+      },
+      create: {
+        keyword,
+        clientId,
+        locationCode: options.locationCode,
+        locationName: options.locationName,
+        languageCode: options.languageCode,
+        type: options.type,
+      },
+    });
+  } catch (tkErr: any) {
+    console.warn("Bulk add: target keyword upsert failed for", keyword, tkErr?.message);
+  }
+  return true;
+}
+
 function parseBulkKeywords(input: string): string[] {
   const raw = input
     .split(/[\n,]+/)
@@ -3562,51 +3808,15 @@ router.post("/keywords/:clientId/bulk", authenticateToken, async (req, res) => {
     const failed: { keyword: string; error: string }[] = [];
 
     for (const kw of keywords) {
-      const existing = await prisma.keyword.findUnique({
-        where: {
-          clientId_keyword: { clientId, keyword: kw },
-        },
-      });
-      if (existing) {
-        skipped++;
-        continue;
-      }
-
       try {
-        const createData: any = {
-          keyword: kw,
-          searchVolume: 0,
-          clientId,
+        const added = await addTrackedKeyword(clientId, kw, {
+          locationName: resolvedLocationName,
+          locationCode: resolvedLocationCode,
+          languageCode: body.languageCode,
           type: body.type || "money",
-          ...(resolvedLocationName ? { locationName: resolvedLocationName } : {}),
-        };
-        await prisma.keyword.create({ data: createData });
-
-        try {
-          await prisma.targetKeyword.upsert({
-            where: {
-              clientId_keyword: { clientId, keyword: kw },
-            },
-            update: {
-              locationCode: resolvedLocationCode,
-              locationName: resolvedLocationName,
-              languageCode: body.languageCode,
-              type: body.type || "money",
-            },
-            create: {
-              keyword: kw,
-              clientId,
-              locationCode: resolvedLocationCode,
-              locationName: resolvedLocationName,
-              languageCode: body.languageCode,
-              type: body.type || "money",
-            },
-          });
-        } catch (tkErr: any) {
-          console.warn("Bulk add: target keyword upsert failed for", kw, tkErr?.message);
-        }
-
-        created++;
+        });
+        if (added) created++;
+        else skipped++;
       } catch (err: any) {
         failed.push({ keyword: kw, error: err?.message || "Unknown error" });
       }
@@ -3622,6 +3832,180 @@ router.post("/keywords/:clientId/bulk", authenticateToken, async (req, res) => {
   }
 });
 
+const KEYWORD_IMPORT_MAX_ROWS = 2000;
+
+/** Keyword import/export columns; labels double as export headers. */
+const KEYWORD_IMPORT_FIELDS: ImportFieldSpec[] = [
+  { key: "keyword", label: "Keyword", required: true, maxLength: 191, aliases: ["keywords", "query", "searchterm", "term", "phrase"] },
+  { key: "location", label: "Location", maxLength: 255, aliases: ["locationname", "market", "city"] },
+  { key: "languageCode", label: "Language", maxLength: 10, aliases: ["languagecode", "lang"] },
+  { key: "type", label: "Type", options: ["money", "topical"], aliases: ["keywordtype"] },
+];
+
+// Import target keywords (with location) for a client from CSV. Dry runs validate without writing.
+router.post("/keywords/:clientId/import", authenticateToken, async (req, res) => {
+  try {
+    const { clientId } = req.params;
+    const body = importRequestSchema.parse(req.body);
+
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const prepared = prepareImport(body, KEYWORD_IMPORT_FIELDS, KEYWORD_IMPORT_MAX_ROWS);
+    const base = {
+      headers: prepared.headers,
+      mapping: prepared.mapping,
+      fields: describeImportFields(KEYWORD_IMPORT_FIELDS),
+      missingRequired: prepared.missingRequired,
+    };
+    if (prepared.missingRequired.length > 0) {
+      if (!body.dryRun) return res.status(400).json({ message: `Map a column for: ${prepared.missingRequired.join(", ")}` });
+      return res.json({ ...base, dryRun: true, summary: summarizeImportResults([]), rows: [] });
+    }
+
+    // Resolve each distinct location once.
+    const locationCodes = new Map<string, number | null>();
+    for (const row of prepared.rows) {
+      const name = typeof row.values.location === "string" ? normalizeLocationName(row.values.location) : "";
+      if (!name || locationCodes.has(name)) continue;
+      locationCodes.set(name, await resolveLocationCodeFromName(name).catch(() => null));
+    }
+
+    const existing = await prisma.keyword.findMany({ where: { clientId }, select: { keyword: true } });
+    const tracked = new Set(existing.map((k) => k.keyword.toLowerCase()));
+    const seen = new Map<string, number>();
+    const tierCtx = await getAgencyTierContext(req.user.userId, req.user.role);
+
+    const results: ImportRowResult[] = [];
+    let readyCount = 0;
+    for (const row of prepared.rows) {
+      const keyword = typeof row.values.keyword === "string" ? row.values.keyword : "";
+      const label = keyword || `Row ${row.row}`;
+      const errors = [...row.errors];
+      const locationName = normalizeLocationName(typeof row.values.location === "string" ? row.values.location : "United States");
+      const locationCode = typeof row.values.location === "string" ? locationCodes.get(locationName) ?? null : 2840;
+      if (locationCode === null) errors.push(`Unknown location "${locationName}"`);
+      if (errors.length > 0) {
+        results.push({ row: row.row, status: "error", label, messages: errors });
+        continue;
+      }
+
+      const key = keyword.toLowerCase();
+      const duplicateOf = seen.get(key);
+      if (duplicateOf) {
+        results.push({ row: row.row, status: "skipped", label, messages: [`Same keyword as row ${duplicateOf}`] });
+        continue;
+      }
+      seen.set(key, row.row);
+      if (tracked.has(key)) {
+        results.push({ row: row.row, status: "skipped", label, messages: ["Already tracked"] });
+        continue;
+      }
+      const limit = canAddKeywords(tierCtx, clientId, readyCount + 1);
+      if (!limit.allowed) {
+        results.push({ row: row.row, status: "error", label, messages: [limit.message || "Keyword limit reached for your plan."] });
+        continue;
+      }
+      readyCount++;
+
+      if (body.dryRun) {
+        results.push({ row: row.row, status: "ready", label, messages: [] });
+        continue;
+      }
+      try {
+        const added = await addTrackedKeyword(clientId, keyword, {
+          locationName,
+          locationCode: locationCode as number,
+          languageCode: typeof row.values.languageCode === "string" ? row.values.languageCode : "en",
+          type: typeof row.values.type === "string" ? row.values.type : "money",
+        });
+        results.push({ row: row.row, status: added ? "created" : "skipped", label, messages: added ? [] : ["Already tracked"] });
+      } catch (err: any) {
+        readyCount--;
+        results.push({ row: row.row, status: "error", label, messages: [err?.message || "Could not add this keyword"] });
+      }
+    }
+
+    return res.json({ ...base, dryRun: body.dryRun, summary: summarizeImportResults(results), rows: results });
+  } catch (error: any) {
+    if (error instanceof CsvImportError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    if (error.name === "ZodError") {
+      return res.status(400).json({ message: error.errors?.[0]?.message || "Invalid input", errors: error.errors });
+    }
+    console.error("Import keywords error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Export a client's tracked keywords as CSV or XLSX (?format=csv|xlsx)
+router.get("/keywords/:clientId/export", authenticateToken, async (req, res) => {
+  try {
+    const { clientId } = req.params;
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const [keywords, targets] = await Promise.all([
+      prisma.keyword.findMany({ where: { clientId }, orderBy: { keyword: "asc" } }),
+      prisma.targetKeyword.findMany({
+        where: { clientId },
+        select: { keyword: true, languageCode: true },
+      }),
+    ]);
+    const targetByKeyword = new Map(targets.map((t) => [t.keyword, t]));
+    const columns = [
+      ...KEYWORD_IMPORT_FIELDS.map((field) => field.label),
+      "Position",
+      "Previous position",
+      "Best position",
+      "Search volume",
+      "CPC",
+      "Difficulty",
+      "Ranking URL",
+    ];
+    const rows = keywords.map((k) => {
+      const target = targetByKeyword.get(k.keyword);
+      return [
+        k.keyword,
+        k.locationName,
+        target?.languageCode ?? null,
+        k.type,
+        k.currentPosition,
+        k.previousPosition,
+        k.bestPosition,
+        k.searchVolume,
+        k.cpc,
+        k.difficulty,
+        k.googleUrl,
+      ];
+    });
+
+    return sendSpreadsheet(res, parseSpreadsheetFormat(req.query.format), `keywords-${client.domain || client.id}`, columns, rows);
+  } catch (error) {
+    console.error("Export keywords error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
 // Refresh keyword data from DataForSEO (SUPER_ADMIN only)
 router.post("/keywords/:clientId/:keywordId/refresh", authenticateToken, async (req, res) => {
   try {
@@ -3830,6 +4214,16 @@ router.post("/keywords/:clientId/:keywordId/refresh", authenticateToken, async (
       }
     }
 
+    await recordKeywordRankObservation({
+      clientId,
+      keyword: keyword.keyword,
+      keywordId: keyword.id,
+      position: dataForSEOData.currentPosition,
+      rankingUrl,
+      serpFeatures: dataForSEOData.serpFeatures,
+      locationName: resolvedLocationName,
+    });
+
     const positionChanged =
       typeof updateData.currentPosition === "number"
         ? updateData.currentPosition !== keyword.currentPosition
@@ -4103,12 +4497,12 @@ router.post("/dashboard/:clientId/refresh", authenticateToken, async (req, res)
         try {
           // Force refresh GA4 access token to ensure it's valid for fresh data fetch
           const { refreshAccessToken, fetchGA4TrafficData, fetchGA4EventsData, saveGA4MetricsToDB } = await import("../lib/ga4.js");
-          const freshToken = await refreshAccessToken(clientWithGA4.ga4RefreshToken);
+          const freshToken = await refreshAccessToken(decryptSecret(clientWithGA4.ga4RefreshToken)!);
 
           // Update access token
           await prisma.client.update({
             where: { id: clientId },
-            data: { ga4AccessToken: freshToken },
+            data: { ga4AccessToken: encryptSecret(freshToken) },
           });
 
           // Fetch fresh GA4 data and save to database
@@ -4588,7 +4982,1053 @@ router.post("/backlinks/:clientId", authenticateToken, async (req, res) => {
       user: req.user,
       clientId,
       allowOwner: true,
-      allowBelongsToAgency: true,
+      allowBelongsToAgency: true,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    if (req.user.role === "SPECIALIST") {
+      const specialist = await prisma.user.findUnique({
+        where: { id: req.user.userId },
+        select: { specialties: true },
+      });
+      let specialties: string[] = [];
+      if (specialist?.specialties) {
+        try {
+          const parsed = JSON.parse(specialist.specialties);
+          specialties = Array.isArray(parsed) ? parsed : [];
+        } catch {
+          specialties = [];
+        }
+      }
+      if (!specialties.includes("LINK_BUILDING")) {
+        return res.status(403).json({ message: "Only specialists with Link Building specialty can add backlinks" });
+      }
+    }
+
+    const sourceUrl = normalizeUrlInput(body.sourceUrl);
+    const targetUrl = normalizeUrlInput(body.targetUrl || client.domain || "");
+    if (!sourceUrl || !targetUrl) {
+      return res.status(400).json({ message: "sourceUrl and targetUrl are required" });
+    }
+
+    const created = await prisma.backlink.create({
+      data: {
+        clientId,
+        sourceUrl,
+        targetUrl,
+        anchorText: body.anchorText ?? null,
+        domainRating: body.domainRating ?? null,
+        urlRating: body.urlRating ?? null,
+        traffic: body.traffic ?? null,
+        isFollow: body.isFollow ?? true,
+        isLost: body.isLost ?? false,
+        // Mark manual so refresh preserves it
+        firstSeen: null,
+        lastSeen: null,
+      },
+    });
+
+    return res.json(created);
+  } catch (error: any) {
+    console.error("Create manual backlink error:", error);
+    return res.status(500).json({ message: error?.message || "Internal server error" });
+  }
+});
+
+const BACKLINK_IMPORT_MAX_ROWS = 2000;
+
+/** Backlink import/export columns; labels double as export headers. */
+const BACKLINK_IMPORT_FIELDS: ImportFieldSpec[] = [
+  { key: "sourceUrl", label: "Source URL", required: true, type: "url", aliases: ["source", "referringpage", "referringpageurl", "referringurl", "backlink", "from", "url"] },
+  { key: "targetUrl", label: "Target URL", type: "url", aliases: ["target", "to", "targetpage", "linkurl"] },
+  { key: "anchorText", label: "Anchor text", aliases: ["anchor"] },
+  { key: "domainRating", label: "Domain rating", type: "number", aliases: ["dr", "domainauthority", "da", "authority"] },
+  { key: "urlRating", label: "URL rating", type: "number", aliases: ["ur", "pageauthority", "pa"] },
+  { key: "traffic", label: "Traffic", type: "integer", aliases: ["organictraffic", "trafficestimate"] },
+  { key: "isFollow", label: "Follow", type: "boolean", aliases: ["dofollow", "isfollow"] },
+  { key: "isLost", label: "Lost", type: "boolean", aliases: ["islost"] },
+];
+
+/**
+ * CSV mode of the backlink import: validates every row against the client's existing links (same source and target
+ * = skipped) and, unless it is a dry run, creates the rest as manual backlinks.
+ */
+async function importBacklinksFromCsv(clientId: string, defaultTargetUrl: string, request: z.infer<typeof importRequestSchema>) {
+  const prepared = prepareImport(request, BACKLINK_IMPORT_FIELDS, BACKLINK_IMPORT_MAX_ROWS);
+  const base = {
+    headers: prepared.headers,
+    mapping: prepared.mapping,
+    fields: describeImportFields(BACKLINK_IMPORT_FIELDS),
+    missingRequired: prepared.missingRequired,
+  };
+  if (prepared.missingRequired.length > 0) {
+    if (!request.dryRun) throw new CsvImportError(`Map a column for: ${prepared.missingRequired.join(", ")}`);
+    return { ...base, dryRun: true, summary: summarizeImportResults([]), rows: [] as ImportRowResult[] };
+  }
+
+  const existing = await prisma.backlink.findMany({ where: { clientId }, select: { sourceUrl: true, targetUrl: true } });
+  const linkKey = (source: string, target: string) => `${source.toLowerCase()} ${target.toLowerCase()}`;
+  const existingKeys = new Set(existing.map((b) => linkKey(b.sourceUrl, b.targetUrl)));
+  const seen = new Map<string, number>();
+
+  const results: ImportRowResult[] = [];
+  const toCreate: Array<{ row: number; label: string; data: any }> = [];
+  for (const row of prepared.rows) {
+    const sourceUrl = typeof row.values.sourceUrl === "string" ? row.values.sourceUrl : "";
+    const targetUrl = typeof row.values.targetUrl === "string" ? row.values.targetUrl : defaultTargetUrl;
+    const label = sourceUrl || `Row ${row.row}`;
+    const errors = [...row.errors];
+    if (!targetUrl && !errors.length) errors.push("Target URL is required (the client has no domain)");
+    if (errors.length > 0) {
+      results.push({ row: row.row, status: "error", label, messages: errors });
+      continue;
+    }
+    const key = linkKey(sourceUrl, targetUrl);
+    const duplicateOf = seen.get(key);
+    if (duplicateOf) {
+      results.push({ row: row.row, status: "skipped", label, messages: [`Same link as row ${duplicateOf}`] });
+      continue;
+    }
+    seen.set(key, row.row);
+    if (existingKeys.has(key)) {
+      results.push({ row: row.row, status: "skipped", label, messages: ["Already in the backlink list"] });
+      continue;
+    }
+    const domainRating = typeof row.values.domainRating === "number" ? row.values.domainRating : null;
+    toCreate.push({
+      row: row.row,
+      label,
+      data: {
+        clientId,
+        sourceUrl,
+        targetUrl,
+        anchorText: typeof row.values.anchorText === "string" ? row.values.anchorText : null,
+        domainRating: domainRating !== null ? normalizeDomainRating(domainRating) ?? domainRating : null,
+        urlRating: typeof row.values.urlRating === "number" ? row.values.urlRating : null,
+        traffic: typeof row.values.traffic === "number" ? row.values.traffic : null,
+        isFollow: typeof row.values.isFollow === "boolean" ? row.values.isFollow : true,
+        isLost: typeof row.values.isLost === "boolean" ? row.values.isLost : false,
+        // Mark manual so refresh preserves it
+        firstSeen: null,
+        lastSeen: null,
+      },
+    });
+  }
+
+  if (!request.dryRun && toCreate.length > 0) {
+    await prisma.backlink.createMany({ data: toCreate.map((item) => item.data) });
+  }
+  for (const item of toCreate) {
+    results.push({ row: item.row, status: request.dryRun ? "ready" : "created", label: item.label, messages: [] });
+  }
+  results.sort((a, b) => a.row - b.row);
+  return { ...base, dryRun: request.dryRun, summary: summarizeImportResults(results), rows: results };
+}
+
+// Import manual backlinks: either pre-parsed `rows` (paste) or a CSV file with column mapping and dry run
+router.post("/backlinks/:clientId/import", authenticateToken, async (req, res) => {
+  try {
+    const { clientId } = req.params;
+
+    // Client portal users can manage backlinks for their client.
+
+    if (typeof req.body?.csv === "string") {
+      const request = importRequestSchema.parse(req.body);
+      const { client, hasAccess } = await resolveSeoClientAccess({
+        user: req.user,
+        clientId,
+        allowOwner: true,
+      });
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const report = await importBacklinksFromCsv(clientId, normalizeUrlInput(client.domain || ""), request);
+      return res.json(report);
+    }
+
+    const body = z
+      .object({
+        rows: z
+          .array(
+            z.object({
+              sourceUrl: z.string().min(1),
+              targetUrl: z.string().optional(),
+              anchorText: z.string().optional().nullable(),
+              domainRating: z.number().optional().nullable(),
+              urlRating: z.number().optional().nullable(),
+              traffic: z.number().int().optional().nullable(),
+              isFollow: z.boolean().optional(),
+              isLost: z.boolean().optional(),
+            })
+          )
+          .min(1)
+          .max(500),
+      })
+      .parse(req.body);
+
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const defaultTargetUrl = normalizeUrlInput(client.domain || "");
+
+    const data = body.rows
+      .map((r) => ({
+        clientId,
+        sourceUrl: normalizeUrlInput(r.sourceUrl),
+        targetUrl: normalizeUrlInput(r.targetUrl || defaultTargetUrl),
+        anchorText: r.anchorText ?? null,
+        domainRating: r.domainRating ?? null,
+        urlRating: r.urlRating ?? null,
+        traffic: r.traffic ?? null,
+        isFollow: r.isFollow ?? true,
+        isLost: r.isLost ?? false,
+        firstSeen: null,
+        lastSeen: null,
+      }))
+      .filter((r) => Boolean(r.sourceUrl) && Boolean(r.targetUrl));
+
+    if (data.length === 0) {
+      return res.status(400).json({ message: "No valid rows to import" });
+    }
+
+    const result = await prisma.backlink.createMany({ data });
+    return res.json({ imported: result.count });
+  } catch (error: any) {
+    if (error instanceof CsvImportError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
+    if (error?.name === "ZodError") {
+      return res.status(400).json({ message: error.errors?.[0]?.message || "Invalid input", errors: error.errors });
+    }
+    console.error("Import manual backlinks error:", error);
+    return res.status(500).json({ message: error?.message || "Internal server error" });
+  }
+});
+
+// Export a client's backlinks (active and lost) as CSV or XLSX (?format=csv|xlsx)
+router.get("/backlinks/:clientId/export", authenticateToken, async (req, res) => {
+  try {
+    const { clientId } = req.params;
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const backlinks = await prisma.backlink.findMany({
+      where: { clientId },
+      orderBy: [{ isLost: "asc" }, { domainRating: { sort: "desc", nulls: "last" } }],
+    });
+    const columns = [...BACKLINK_IMPORT_FIELDS.map((field) => field.label), "Source", "First seen", "Last seen"];
+    const rows = backlinks.map((b) => [
+      b.sourceUrl,
+      b.targetUrl,
+      b.anchorText,
+      normalizeDomainRating(b.domainRating) ?? b.domainRating,
+      b.urlRating,
+      b.traffic,
+      b.isFollow ? "Yes" : "No",
+      b.isLost ? "Yes" : "No",
+      b.firstSeen ? "Natural" : "Manual",
+      b.firstSeen ? b.firstSeen.toISOString().slice(0, 10) : null,
+      b.lastSeen ? b.lastSeen.toISOString().slice(0, 10) : null,
+    ]);
+
+    return sendSpreadsheet(res, parseSpreadsheetFormat(req.query.format), `backlinks-${client.domain || client.id}`, columns, rows);
+  } catch (error) {
+    console.error("Export backlinks error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Delete a backlink row
+router.delete("/backlinks/:clientId/:backlinkId", authenticateToken, async (req, res) => {
+  try {
+    const { clientId, backlinkId } = req.params;
+
+    // Client portal users can manage backlinks for their client.
+
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const backlink = await prisma.backlink.findUnique({ where: { id: backlinkId } });
+    if (!backlink || backlink.clientId !== clientId) {
+      return res.status(404).json({ message: "Backlink not found" });
+    }
+
+    await prisma.backlink.delete({ where: { id: backlinkId } });
+    return res.json({ success: true });
+  } catch (error: any) {
+    console.error("Delete backlink error:", error);
+    return res.status(500).json({ message: error?.message || "Internal server error" });
+  }
+});
+
+// Backlink alert rules: which new/lost links (by domain rating and follow status) notify the agency or count as wins.
+
+const MAX_BACKLINK_ALERT_RULES_PER_CLIENT = 10;
+
+const backlinkAlertRuleFields = {
+  minDomainRating: z.number().int().min(0).max(100),
+  followOnly: z.boolean(),
+  notifyInApp: z.boolean(),
+  createCampaignWin: z.boolean(),
+  enabled: z.boolean(),
+};
+
+const createBacklinkAlertRuleSchema = z.object({
+  event: z.enum(["LOST", "NEW"]),
+  minDomainRating: backlinkAlertRuleFields.minDomainRating.default(0),
+  followOnly: backlinkAlertRuleFields.followOnly.default(false),
+  notifyInApp: backlinkAlertRuleFields.notifyInApp.default(true),
+  createCampaignWin: backlinkAlertRuleFields.createCampaignWin.default(false),
+  enabled: backlinkAlertRuleFields.enabled.default(true),
+});
+
+const updateBacklinkAlertRuleSchema = z.object(backlinkAlertRuleFields).partial();
+
+/** Returns an error message when the rule would never do anything. */
+function validateBacklinkAlertRule(rule: { event: string; notifyInApp: boolean; createCampaignWin: boolean }): string | null {
+  if (rule.createCampaignWin && rule.event !== "NEW") return "Campaign wins can only be created for new links";
+  if (!rule.notifyInApp && !rule.createCampaignWin) return "Choose at least one action for the rule";
+  return null;
+}
+
+router.get("/backlink-alerts/:clientId", authenticateToken, async (req, res) => {
+  try {
+    const { clientId } = req.params;
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+      allowClientUser: false,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const rules = await prisma.backlinkAlertRule.findMany({ where: { clientId }, orderBy: { createdAt: "asc" } });
+    return res.json({ rules, maxRules: MAX_BACKLINK_ALERT_RULES_PER_CLIENT });
+  } catch (error: any) {
+    console.error("List backlink alert rules error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+router.post("/backlink-alerts/:clientId", authenticateToken, async (req, res) => {
+  try {
+    const { clientId } = req.params;
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+      allowClientUser: false,
+      allowSpecialistTask: false,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const body = createBacklinkAlertRuleSchema.parse(req.body);
+    const invalid = validateBacklinkAlertRule(body);
+    if (invalid) {
+      return res.status(400).json({ message: invalid });
+    }
+    if ((await prisma.backlinkAlertRule.count({ where: { clientId } })) >= MAX_BACKLINK_ALERT_RULES_PER_CLIENT) {
+      return res.status(400).json({ message: `Up to ${MAX_BACKLINK_ALERT_RULES_PER_CLIENT} alert rules per client` });
+    }
+
+    const rule = await prisma.backlinkAlertRule.create({
+      data: { ...body, clientId, createdById: req.user.userId },
+    });
+    return res.status(201).json(rule);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid input", errors: error.errors });
+    }
+    console.error("Create backlink alert rule error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+router.patch("/backlink-alerts/:clientId/:ruleId", authenticateToken, async (req, res) => {
+  try {
+    const { clientId, ruleId } = req.params;
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+      allowClientUser: false,
+      allowSpecialistTask: false,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const rule = await prisma.backlinkAlertRule.findUnique({ where: { id: ruleId } });
+    if (!rule || rule.clientId !== clientId) {
+      return res.status(404).json({ message: "Alert rule not found" });
+    }
+    const body = updateBacklinkAlertRuleSchema.parse(req.body);
+    const invalid = validateBacklinkAlertRule({ ...rule, ...body });
+    if (invalid) {
+      return res.status(400).json({ message: invalid });
+    }
+
+    const updated = await prisma.backlinkAlertRule.update({ where: { id: ruleId }, data: body });
+    return res.json(updated);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid input", errors: error.errors });
+    }
+    console.error("Update backlink alert rule error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+router.delete("/backlink-alerts/:clientId/:ruleId", authenticateToken, async (req, res) => {
+  try {
+    const { clientId, ruleId } = req.params;
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+      allowClientUser: false,
+      allowSpecialistTask: false,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const rule = await prisma.backlinkAlertRule.findUnique({ where: { id: ruleId } });
+    if (!rule || rule.clientId !== clientId) {
+      return res.status(404).json({ message: "Alert rule not found" });
+    }
+    await prisma.backlinkAlertRule.delete({ where: { id: ruleId } });
+    return res.json({ success: true });
+  } catch (error: any) {
+    console.error("Delete backlink alert rule error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Link-building pipeline (prospect -> contacted -> negotiating -> live); live links are verified by the backlink sync.
+
+const linkProspectFields = {
+  domain: z.string().trim().max(255),
+  linkUrl: z.string().trim().url().max(2048).nullable(),
+  targetUrl: z.string().trim().url().max(2048).nullable(),
+  anchorText: z.string().trim().max(255).nullable(),
+  contactName: z.string().trim().max(255).nullable(),
+  contactEmail: z.string().trim().email().max(255).nullable(),
+  notes: z.string().max(5000).nullable(),
+  cost: z.number().min(0).max(99_999_999).nullable(),
+  stage: z.enum(LINK_PROSPECT_STAGES),
+};
+
+const linkProspectSchema = z.object(linkProspectFields).partial();
+
+/** Stage bookkeeping: moving to LIVE starts verification over; leaving LIVE clears it. */
+function linkProspectStageData(stage: (typeof LINK_PROSPECT_STAGES)[number], wentLiveAt: Date | null) {
+  return {
+    stage,
+    stageChangedAt: new Date(),
+    verificationStatus: "PENDING" as const,
+    verifiedAt: null,
+    lastCheckedAt: null,
+    wentLiveAt: stage === "LIVE" ? wentLiveAt ?? new Date() : null,
+  };
+}
+
+router.get("/link-prospects/:clientId", authenticateToken, async (req, res) => {
+  try {
+    const { clientId } = req.params;
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+      allowClientUser: false,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const prospects = await prisma.linkProspect.findMany({
+      where: { clientId },
+      orderBy: [{ stageChangedAt: "desc" }],
+    });
+    return res.json({ stages: LINK_PROSPECT_STAGES, prospects });
+  } catch (error: any) {
+    console.error("List link prospects error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+router.post("/link-prospects/:clientId", authenticateToken, async (req, res) => {
+  try {
+    const { clientId } = req.params;
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+      allowClientUser: false,
+      allowSpecialistTask: false,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const body = linkProspectSchema.parse(req.body);
+    const domain = normalizeCompetitorDomain(body.domain || body.linkUrl || "");
+    if (!domain) {
+      return res.status(400).json({ message: "Enter the prospect's domain or the URL of the linking page" });
+    }
+
+    const stage = body.stage ?? "PROSPECT";
+    const prospect = await prisma.linkProspect.create({
+      data: {
+        ...body,
+        clientId,
+        domain,
+        createdById: req.user.userId,
+        ...linkProspectStageData(stage, null),
+      },
+    });
+    return res.status(201).json(prospect);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid input", errors: error.errors });
+    }
+    console.error("Create link prospect error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+router.patch("/link-prospects/:clientId/:prospectId", authenticateToken, async (req, res) => {
+  try {
+    const { clientId, prospectId } = req.params;
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+      allowClientUser: false,
+      allowSpecialistTask: false,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const prospect = await prisma.linkProspect.findUnique({ where: { id: prospectId } });
+    if (!prospect || prospect.clientId !== clientId) {
+      return res.status(404).json({ message: "Prospect not found" });
+    }
+    const { stage, domain: rawDomain, ...fields } = linkProspectSchema.parse(req.body);
+    let domain: string | undefined;
+    if (rawDomain !== undefined) {
+      domain = normalizeCompetitorDomain(rawDomain) ?? undefined;
+      if (!domain) {
+        return res.status(400).json({ message: "Enter a valid domain, e.g. blog.example.com" });
+      }
+    }
+    // Changing where the link lives means the last verification no longer applies.
+    const locationChanged =
+      (domain !== undefined && domain !== prospect.domain) ||
+      (fields.linkUrl !== undefined && fields.linkUrl !== prospect.linkUrl) ||
+      (fields.targetUrl !== undefined && fields.targetUrl !== prospect.targetUrl);
+
+    const updated = await prisma.linkProspect.update({
+      where: { id: prospectId },
+      data: {
+        ...fields,
+        ...(domain !== undefined ? { domain } : {}),
+        ...(stage && stage !== prospect.stage
+          ? linkProspectStageData(stage, prospect.wentLiveAt)
+          : locationChanged
+            ? { verificationStatus: "PENDING" as const, verifiedAt: null, lastCheckedAt: null }
+            : {}),
+      },
+    });
+    return res.json(updated);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid input", errors: error.errors });
+    }
+    console.error("Update link prospect error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+router.delete("/link-prospects/:clientId/:prospectId", authenticateToken, async (req, res) => {
+  try {
+    const { clientId, prospectId } = req.params;
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+      allowClientUser: false,
+      allowSpecialistTask: false,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const prospect = await prisma.linkProspect.findUnique({ where: { id: prospectId } });
+    if (!prospect || prospect.clientId !== clientId) {
+      return res.status(404).json({ message: "Prospect not found" });
+    }
+    await prisma.linkProspect.delete({ where: { id: prospectId } });
+    return res.json({ success: true });
+  } catch (error: any) {
+    console.error("Delete link prospect error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Competitor tracking: declared competitors per client, weekly ranked-keyword/backlink snapshots, keyword gaps.
+
+const addCompetitorSchema = z.object({
+  domain: z.string().trim().min(1).max(255),
+  label: z.string().trim().max(255).optional().nullable(),
+});
+
+/** Snapshots the client's domain and every declared competitor in one run so their numbers are comparable. */
+async function captureCompetitorSnapshotsForClient(clientId: string) {
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    select: { id: true, domain: true, competitors: { orderBy: { createdAt: "asc" } } },
+  });
+  const clientDomain = client ? normalizeCompetitorDomain(client.domain || "") : null;
+  if (!client || !clientDomain || client.competitors.length === 0) return { captured: 0, failed: 0 };
+
+  const targets: Array<{ competitorId: string | null; domain: string }> = [
+    { competitorId: null, domain: clientDomain },
+    ...client.competitors.map((c) => ({ competitorId: c.id, domain: c.domain })),
+  ];
+
+  let summaries: any[] = [];
+  try {
+    summaries = await fetchBulkPagesSummaryFromDataForSEO(targets.map((t) => t.domain));
+  } catch (error: any) {
+    console.warn(`[Competitors] Backlink summary failed for client ${clientId}:`, error?.message || error);
+  }
+
+  let failed = 0;
+  for (const [index, target] of targets.entries()) {
+    const summary =
+      summaries.find((item: any) => normalizeCompetitorDomain(String(item?.url || item?.target || "")) === target.domain) ??
+      summaries[index];
+    const backlinkFields = summary
+      ? {
+          backlinks: summary.backlinks != null ? Number(summary.backlinks) : null,
+          referringDomains: summary.referring_domains != null ? Number(summary.referring_domains) : null,
+          domainRating: normalizeDomainRating(summary.rank != null ? Number(summary.rank) : null),
+        }
+      : {};
+    try {
+      const ranked = await fetchRankedKeywordsFromDataForSEO(target.domain, 2840, "en", COMPETITOR_SNAPSHOT_KEYWORD_LIMIT);
+      const etv = Number(ranked.rawData?.metrics?.organic?.etv);
+      await prisma.competitorSnapshot.create({
+        data: {
+          clientId,
+          competitorId: target.competitorId,
+          domain: target.domain,
+          rankedKeywords: Number(ranked.totalKeywords) || 0,
+          estimatedTraffic: Number.isFinite(etv) ? Math.round(etv) : null,
+          ...backlinkFields,
+          keywords: extractRankedKeywordEntries(ranked.items),
+        },
+      });
+    } catch (error: any) {
+      failed++;
+      await prisma.competitorSnapshot.create({
+        data: {
+          clientId,
+          competitorId: target.competitorId,
+          domain: target.domain,
+          ...backlinkFields,
+          error: String(error?.message || error).slice(0, 2000),
+        },
+      });
+    }
+  }
+
+  await prisma.clientCompetitor.updateMany({ where: { clientId }, data: { lastSnapshotAt: new Date() } });
+  return { captured: targets.length - failed, failed };
+}
+
+/** Weekly competitor snapshots for clients whose competitors are due (new competitors are picked up on the next run). */
+export async function captureDueCompetitorSnapshots(params?: { batchSize?: number }) {
+  if (!process.env.DATAFORSEO_BASE64) return;
+  const batchSize = Math.min(25, Math.max(1, Number(params?.batchSize ?? 3)));
+  const cutoff = new Date(Date.now() - COMPETITOR_SNAPSHOT_INTERVAL_DAYS * 24 * 60 * 60 * 1000);
+
+  const due = await prisma.clientCompetitor.findMany({
+    where: {
+      OR: [{ lastSnapshotAt: null }, { lastSnapshotAt: { lt: cutoff } }],
+      client: { domain: { not: "" }, status: { notIn: ["ARCHIVED", "SUSPENDED", "REJECTED"] } },
+    },
+    distinct: ["clientId"],
+    orderBy: { lastSnapshotAt: "asc" },
+    take: batchSize,
+    select: { clientId: true },
+  });
+
+  let failed = 0;
+  for (const { clientId } of due) {
+    try {
+      const out = await captureCompetitorSnapshotsForClient(clientId);
+      console.log(`[Competitors] ${clientId}: ${out.captured} snapshot(s), ${out.failed} failed`);
+    } catch (error: any) {
+      failed += 1;
+      console.warn(`[Competitors] Snapshot failed for client ${clientId}:`, error?.message || error);
+    }
+  }
+  if (failed > 0) {
+    throw new Error(`Competitor snapshots failed for ${failed} of ${due.length} clients`);
+  }
+}
+
+// Competitors with their latest metrics next to the client's, plus the side-by-side keyword table and keyword gaps
+router.get("/competitors/:clientId", authenticateToken, async (req, res) => {
+  try {
+    const { clientId } = req.params;
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const overview = await getCompetitorOverview(clientId);
+    if (!overview) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    return res.json({
+      ...overview,
+      keywords: overview.keywords.slice(0, 500),
+      gaps: overview.gaps.slice(0, 200),
+      totalKeywords: overview.keywords.length,
+      totalGaps: overview.gaps.length,
+      maxCompetitors: MAX_COMPETITORS_PER_CLIENT,
+    });
+  } catch (error: any) {
+    console.error("Get competitors error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+router.post("/competitors/:clientId", authenticateToken, async (req, res) => {
+  try {
+    const { clientId } = req.params;
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+      allowClientUser: false,
+      allowSpecialistTask: false,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const body = addCompetitorSchema.parse(req.body);
+    const domain = normalizeCompetitorDomain(body.domain);
+    if (!domain) {
+      return res.status(400).json({ message: "Enter a valid domain, e.g. competitor.com" });
+    }
+    if (domain === normalizeCompetitorDomain(client.domain || "")) {
+      return res.status(400).json({ message: "That is the client's own domain" });
+    }
+
+    const existing = await prisma.clientCompetitor.findMany({ where: { clientId }, select: { domain: true } });
+    if (existing.some((c) => c.domain === domain)) {
+      return res.status(409).json({ message: `${domain} is already tracked for this client` });
+    }
+    if (existing.length >= MAX_COMPETITORS_PER_CLIENT) {
+      return res.status(400).json({ message: `Track up to ${MAX_COMPETITORS_PER_CLIENT} competitors per client` });
+    }
+
+    const competitor = await prisma.clientCompetitor.create({
+      data: { clientId, domain, label: body.label || null },
+    });
+    return res.status(201).json(competitor);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid input", errors: error.errors });
+    }
+    console.error("Add competitor error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+router.delete("/competitors/:clientId/:competitorId", authenticateToken, async (req, res) => {
+  try {
+    const { clientId, competitorId } = req.params;
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+      allowClientUser: false,
+      allowSpecialistTask: false,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const competitor = await prisma.clientCompetitor.findUnique({ where: { id: competitorId } });
+    if (!competitor || competitor.clientId !== clientId) {
+      return res.status(404).json({ message: "Competitor not found" });
+    }
+
+    // Snapshots go with it (cascade); the client's own snapshots stay for the remaining competitors.
+    await prisma.clientCompetitor.delete({ where: { id: competitorId } });
+    return res.json({ success: true });
+  } catch (error: any) {
+    console.error("Delete competitor error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Capture snapshots now instead of waiting for the weekly run (at most once per COMPETITOR_REFRESH_COOLDOWN_HOURS)
+router.post("/competitors/:clientId/refresh", authenticateToken, async (req, res) => {
+  try {
+    const { clientId } = req.params;
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+      allowClientUser: false,
+      allowSpecialistTask: false,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+    if (!normalizeCompetitorDomain(client.domain || "")) {
+      return res.status(400).json({ message: "Add a website domain to this client first" });
+    }
+    if ((await prisma.clientCompetitor.count({ where: { clientId } })) === 0) {
+      return res.status(400).json({ message: "Add at least one competitor first" });
+    }
+
+    const lastOwn = await prisma.competitorSnapshot.findFirst({
+      where: { clientId, competitorId: null },
+      orderBy: { createdAt: "desc" },
+      select: { createdAt: true },
+    });
+    const hasNewCompetitor = (await prisma.clientCompetitor.count({ where: { clientId, lastSnapshotAt: null } })) > 0;
+    if (lastOwn && !hasNewCompetitor && Date.now() - lastOwn.createdAt.getTime() < COMPETITOR_REFRESH_COOLDOWN_HOURS * 60 * 60 * 1000) {
+      return res.status(429).json({
+        message: `Competitor data was refreshed less than ${COMPETITOR_REFRESH_COOLDOWN_HOURS} hours ago`,
+      });
+    }
+
+    const out = await captureCompetitorSnapshotsForClient(clientId);
+    return res.json(out);
+  } catch (error: any) {
+    console.error("Refresh competitors error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Export the keyword comparison (?view=keywords) or the keyword gaps (?view=gaps) as CSV or XLSX
+router.get("/competitors/:clientId/export", authenticateToken, async (req, res) => {
+  try {
+    const { clientId } = req.params;
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const overview = await getCompetitorOverview(clientId);
+    if (!overview) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    const gapsOnly = req.query.view === "gaps";
+    const rows = gapsOnly ? overview.gaps : overview.keywords;
+    const columns = [
+      "Keyword",
+      "Search volume",
+      overview.client.domain,
+      ...overview.competitors.map((c) => c.label || c.domain),
+      "Client URL",
+    ];
+    const data = rows.map((row) => [
+      row.keyword,
+      row.searchVolume,
+      row.clientPosition,
+      ...overview.competitors.map((c) => row.competitorPositions[c.id] ?? null),
+      row.clientUrl,
+    ]);
+
+    const baseName = `${gapsOnly ? "keyword-gaps" : "competitor-keywords"}-${client.domain || client.id}`;
+    return sendSpreadsheet(res, parseSpreadsheetFormat(req.query.format), baseName, columns, data);
+  } catch (error) {
+    console.error("Export competitor keywords error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Technical site audit: crawls run in the "site-audits" job (lib/siteAudit.ts); these routes queue them, show the
+// results against the previous crawl and turn issues into tasks.
+
+const SITE_AUDIT_SEVERITY_ORDER: Record<string, number> = { error: 0, warning: 1, notice: 2 };
+const SITE_AUDIT_TASK_PRIORITY: Record<string, string> = { error: "high", warning: "medium", notice: "low" };
+
+const siteAuditTaskSchema = z
+  .object({
+    issueIds: z.array(z.string().min(1)).max(500).optional(),
+    code: z.string().min(1).max(64).optional(),
+  })
+  .refine((body) => (body.issueIds?.length ?? 0) > 0 || Boolean(body.code), { message: "Provide issueIds or code" });
+
+/** Issues grouped by type, most severe and most widespread first. */
+function groupSiteAuditIssues<T extends { code: string; severity: string }>(issues: T[]) {
+  const groups = new Map<string, T[]>();
+  for (const issue of issues) groups.set(issue.code, [...(groups.get(issue.code) ?? []), issue]);
+  return [...groups.entries()]
+    .map(([code, items]) => {
+      const type = SITE_AUDIT_ISSUE_TYPES[code as SiteAuditIssueCode];
+      return {
+        code,
+        label: type?.label ?? code,
+        severity: type?.severity ?? items[0].severity,
+        fix: type?.fix ?? null,
+        count: items.length,
+        issues: items,
+      };
+    })
+    .sort((a, b) => (SITE_AUDIT_SEVERITY_ORDER[a.severity] ?? 3) - (SITE_AUDIT_SEVERITY_ORDER[b.severity] ?? 3) || b.count - a.count);
+}
+
+router.get("/site-audits/:clientId", authenticateToken, async (req, res) => {
+  try {
+    const { clientId } = req.params;
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+    });
+    if (!client) {
+      return res.status(404).json({ message: "Client not found" });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+
+    const audits = await prisma.siteAudit.findMany({
+      where: { clientId },
+      orderBy: { createdAt: "desc" },
+      take: 20,
+      select: {
+        id: true,
+        createdAt: true,
+        status: true,
+        startUrl: true,
+        pageLimit: true,
+        startedAt: true,
+        completedAt: true,
+        pagesCrawled: true,
+        truncated: true,
+        blockedByRobots: true,
+        healthScore: true,
+        issueCounts: true,
+        error: true,
+      },
+    });
+    return res.json({ audits, pageLimit: await getSiteAuditPageLimit(clientId) });
+  } catch (error: any) {
+    console.error("List site audits error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Queue a crawl of the client's domain; the job picks it up right away
+router.post("/site-audits/:clientId", authenticateToken, async (req, res) => {
+  try {
+    const { clientId } = req.params;
+    const { client, hasAccess } = await resolveSeoClientAccess({
+      user: req.user,
+      clientId,
+      allowOwner: true,
+      allowClientUser: false,
+      allowSpecialistTask: false,
     });
     if (!client) {
       return res.status(404).json({ message: "Client not found" });
@@ -4596,83 +6036,43 @@ router.post("/backlinks/:clientId", authenticateToken, async (req, res) => {
     if (!hasAccess) {
       return res.status(403).json({ message: "Access denied" });
     }
-
-    if (req.user.role === "SPECIALIST") {
-      const specialist = await prisma.user.findUnique({
-        where: { id: req.user.userId },
-        select: { specialties: true },
-      });
-      let specialties: string[] = [];
-      if (specialist?.specialties) {
-        try {
-          const parsed = JSON.parse(specialist.specialties);
-          specialties = Array.isArray(parsed) ? parsed : [];
-        } catch {
-          specialties = [];
-        }
-      }
-      if (!specialties.includes("LINK_BUILDING")) {
-        return res.status(403).json({ message: "Only specialists with Link Building specialty can add backlinks" });
-      }
+    const domain = (client.domain || "").trim();
+    if (!domain) {
+      return res.status(400).json({ message: "Add a website domain to this client first" });
     }
 
-    const sourceUrl = normalizeUrlInput(body.sourceUrl);
-    const targetUrl = normalizeUrlInput(body.targetUrl || client.domain || "");
-    if (!sourceUrl || !targetUrl) {
-      return res.status(400).json({ message: "sourceUrl and targetUrl are required" });
+    const pending = await prisma.siteAudit.findFirst({
+      where: { clientId, status: { in: ["QUEUED", "RUNNING"] } },
+      select: { id: true },
+    });
+    if (pending) {
+      return res.status(409).json({ message: "An audit is already in progress for this client", auditId: pending.id });
+    }
+    const pageLimit = await getSiteAuditPageLimit(clientId);
+    if (pageLimit <= 0) {
+      return res.status(403).json({ message: "Site audits are not included in this plan" });
     }
 
-    const created = await prisma.backlink.create({
+    const audit = await prisma.siteAudit.create({
       data: {
         clientId,
-        sourceUrl,
-        targetUrl,
-        anchorText: body.anchorText ?? null,
-        domainRating: body.domainRating ?? null,
-        urlRating: body.urlRating ?? null,
-        traffic: body.traffic ?? null,
-        isFollow: body.isFollow ?? true,
-        isLost: body.isLost ?? false,
-        // Mark manual so refresh preserves it
-        firstSeen: null,
-        lastSeen: null,
+        requestedById: req.user.userId,
+        startUrl: (/^https?:\/\//i.test(domain) ? domain : `https://${domain}`).slice(0, 2048),
+        pageLimit,
       },
     });
-
-    return res.json(created);
+    await requestJobRun("site-audits");
+    return res.status(202).json(audit);
   } catch (error: any) {
-    console.error("Create manual backlink error:", error);
-    return res.status(500).json({ message: error?.message || "Internal server error" });
+    console.error("Start site audit error:", error);
+    return res.status(500).json({ message: "Internal server error" });
   }
 });
 
-// Import manual backlinks (paste/CSV parsed on client)
-router.post("/backlinks/:clientId/import", authenticateToken, async (req, res) => {
+// One audit: issues grouped by type (flagged new vs the previous crawl), issues fixed since then, and crawled pages
+router.get("/site-audits/:clientId/:auditId", authenticateToken, async (req, res) => {
   try {
-    const { clientId } = req.params;
-
-    // Client portal users can manage backlinks for their client.
-
-    const body = z
-      .object({
-        rows: z
-          .array(
-            z.object({
-              sourceUrl: z.string().min(1),
-              targetUrl: z.string().optional(),
-              anchorText: z.string().optional().nullable(),
-              domainRating: z.number().optional().nullable(),
-              urlRating: z.number().optional().nullable(),
-              traffic: z.number().int().optional().nullable(),
-              isFollow: z.boolean().optional(),
-              isLost: z.boolean().optional(),
-            })
-          )
-          .min(1)
-          .max(500),
-      })
-      .parse(req.body);
-
+    const { clientId, auditId } = req.params;
     const { client, hasAccess } = await resolveSeoClientAccess({
       user: req.user,
       clientId,
@@ -4685,47 +6085,45 @@ router.post("/backlinks/:clientId/import", authenticateToken, async (req, res) =
       return res.status(403).json({ message: "Access denied" });
     }
 
-    const defaultTargetUrl = normalizeUrlInput(client.domain || "");
-
-    const data = body.rows
-      .map((r) => ({
-        clientId,
-        sourceUrl: normalizeUrlInput(r.sourceUrl),
-        targetUrl: normalizeUrlInput(r.targetUrl || defaultTargetUrl),
-        anchorText: r.anchorText ?? null,
-        domainRating: r.domainRating ?? null,
-        urlRating: r.urlRating ?? null,
-        traffic: r.traffic ?? null,
-        isFollow: r.isFollow ?? true,
-        isLost: r.isLost ?? false,
-        firstSeen: null,
-        lastSeen: null,
-      }))
-      .filter((r) => Boolean(r.sourceUrl) && Boolean(r.targetUrl));
-
-    if (data.length === 0) {
-      return res.status(400).json({ message: "No valid rows to import" });
+    const audit = await prisma.siteAudit.findUnique({ where: { id: auditId } });
+    if (!audit || audit.clientId !== clientId) {
+      return res.status(404).json({ message: "Audit not found" });
     }
 
-    const result = await prisma.backlink.createMany({ data });
-    return res.json({ imported: result.count });
+    const issueSelect = { id: true, code: true, severity: true, url: true, target: true, detail: true, fingerprint: true, isNew: true, taskId: true };
+    const issues = await prisma.siteAuditIssue.findMany({ where: { auditId }, select: issueSelect, orderBy: { url: "asc" } });
+    const previousIssues = audit.previousAuditId
+      ? await prisma.siteAuditIssue.findMany({ where: { auditId: audit.previousAuditId }, select: issueSelect, orderBy: { url: "asc" } })
+      : [];
+    const { fixed } = diffSiteAuditIssues(previousIssues, issues);
+    const pages = await prisma.siteAuditPage.findMany({
+      where: { auditId },
+      orderBy: [{ depth: "asc" }, { url: "asc" }],
+      take: 1000,
+    });
+
+    return res.json({
+      audit,
+      groups: groupSiteAuditIssues(issues),
+      fixed: groupSiteAuditIssues(fixed),
+      pages,
+    });
   } catch (error: any) {
-    console.error("Import manual backlinks error:", error);
-    return res.status(500).json({ message: error?.message || "Internal server error" });
+    console.error("Get site audit error:", error);
+    return res.status(500).json({ message: "Internal server error" });
   }
 });
 
-// Delete a backlink row
-router.delete("/backlinks/:clientId/:backlinkId", authenticateToken, async (req, res) => {
+// Turn selected issues (issueIds) or every open issue of one type (code) into a single task
+router.post("/site-audits/:clientId/:auditId/tasks", authenticateToken, async (req, res) => {
   try {
-    const { clientId, backlinkId } = req.params;
-
-    // Client portal users can manage backlinks for their client.
-
+    const { clientId, auditId } = req.params;
     const { client, hasAccess } = await resolveSeoClientAccess({
       user: req.user,
       clientId,
       allowOwner: true,
+      allowClientUser: false,
+      allowSpecialistTask: false,
     });
     if (!client) {
       return res.status(404).json({ message: "Client not found" });
@@ -4734,16 +6132,68 @@ router.delete("/backlinks/:clientId/:backlinkId", authenticateToken, async (req,
       return res.status(403).json({ message: "Access denied" });
     }
 
-    const backlink = await prisma.backlink.findUnique({ where: { id: backlinkId } });
-    if (!backlink || backlink.clientId !== clientId) {
-      return res.status(404).json({ message: "Backlink not found" });
+    const body = siteAuditTaskSchema.parse(req.body);
+    const audit = await prisma.siteAudit.findUnique({ where: { id: auditId }, select: { clientId: true, status: true } });
+    if (!audit || audit.clientId !== clientId || audit.status !== "COMPLETED") {
+      return res.status(404).json({ message: "Audit not found" });
     }
 
-    await prisma.backlink.delete({ where: { id: backlinkId } });
-    return res.json({ success: true });
+    const issues = await prisma.siteAuditIssue.findMany({
+      where: {
+        auditId,
+        taskId: null,
+        ...(body.issueIds?.length ? { id: { in: body.issueIds } } : {}),
+        ...(body.code ? { code: body.code } : {}),
+      },
+      orderBy: { url: "asc" },
+    });
+    if (issues.length === 0) {
+      return res.status(400).json({ message: "No open issues to convert (they may already have a task)" });
+    }
+
+    const codes = [...new Set(issues.map((i) => i.code))];
+    const types = codes.map((code) => SITE_AUDIT_ISSUE_TYPES[code as SiteAuditIssueCode]).filter(Boolean);
+    const severity = issues.reduce(
+      (best, i) => ((SITE_AUDIT_SEVERITY_ORDER[i.severity] ?? 3) < (SITE_AUDIT_SEVERITY_ORDER[best] ?? 3) ? i.severity : best),
+      "notice"
+    );
+    const pageCount = new Set(issues.map((i) => i.url)).size;
+    const title =
+      codes.length === 1
+        ? `${types[0]?.label ?? codes[0]} on ${pageCount} page${pageCount === 1 ? "" : "s"}`
+        : `Fix ${issues.length} site audit issues on ${pageCount} page${pageCount === 1 ? "" : "s"}`;
+    const description = [
+      `From the site audit of ${client.domain}.`,
+      ...types.map((t) => `${t.label}: ${t.fix}`),
+      "",
+      ...issues.slice(0, 200).map((i) => `- ${i.url}${i.detail ? ` — ${i.detail}` : ""}`),
+      ...(issues.length > 200 ? [`…and ${issues.length - 200} more`] : []),
+    ].join("\n");
+
+    const task = await prisma.task.create({
+      data: {
+        title: title.slice(0, 191),
+        description,
+        category: "Technical SEO",
+        priority: SITE_AUDIT_TASK_PRIORITY[severity] ?? "medium",
+        status: "TODO",
+        agencyId: (await resolveClientAgencyId(clientId)) ?? undefined,
+        createdById: req.user.userId,
+        clientId,
+      },
+      select: { id: true, title: true, status: true, priority: true },
+    });
+    await prisma.siteAuditIssue.updateMany({
+      where: { id: { in: issues.map((i) => i.id) }, taskId: null },
+      data: { taskId: task.id },
+    });
+    return res.status(201).json({ task, issueCount: issues.length });
   } catch (error: any) {
-    console.error("Delete backlink error:", error);
-    return res.status(500).json({ message: error?.message || "Internal server error" });
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid input", errors: error.errors });
+    }
+    console.error("Create site audit task error:", error);
+    return res.status(500).json({ message: "Internal server error" });
   }
 });
 
@@ -7858,6 +9308,7 @@ router.get("/domain-overview-any", authenticateToken, async (req, res) => {
       ? null
       : await getAgencyTierContext(req.user.userId, req.user.role);
     if (!bypassCreditsForTrackedClientLive && tierCtx) {
+      if (!(await authorize(req, res, "spend_research_credits"))) return;
       const creditCheck = hasResearchCredits(tierCtx, 1);
       if (!creditCheck.allowed) {
         console.warn("[domain-overview-any] blocked by credits", {
@@ -8568,9 +10019,13 @@ router.post("/reports/:clientId/schedule", authenticateToken, async (req, res) =
       dayOfWeek: z.number().min(0).max(6).optional(),
       dayOfMonth: z.number().min(1).max(31).optional(),
       timeOfDay: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).default("09:00"),
+      timeZone: z.string().max(64).refine(isValidTimeZone, "Invalid timezone").optional(),
       recipients: z.array(z.string().email()),
       emailSubject: z.string().optional(),
-      isActive: z.boolean().default(true)
+      isActive: z.boolean().default(true),
+      // null clears the template (back to the fixed layout); omitted keeps the current one on update
+      templateId: z.string().nullable().optional(),
+      trackEngagement: z.boolean().optional()
     }).parse(req.body);
     const { reportKind, ...scheduleFields } = scheduleData;
 
@@ -8618,20 +10073,19 @@ router.post("/reports/:clientId/schedule", authenticateToken, async (req, res) =
     ) {
       return res.status(400).json({ message: "Google Ads must be connected before scheduling PPC reports." });
     }
-
-    // Calculate next run time
-    const { calculateNextRunTime, calculateNextLocalMapRunTime } = await import("../lib/reportScheduler.js");
-    const nextRunAt = isLocalMapSchedule
-      ? calculateNextLocalMapRunTime(
-          scheduleData.frequency as "biweekly" | "monthly",
-          scheduleFields.timeOfDay
-        )
-      : calculateNextRunTime(
-          scheduleData.frequency,
-          scheduleFields.dayOfWeek,
-          scheduleFields.dayOfMonth,
-          scheduleFields.timeOfDay
-        );
+    if (scheduleFields.templateId) {
+      if (isLocalMapSchedule || isPpcSchedule) {
+        return res.status(400).json({ message: "Report templates apply to SEO report schedules only." });
+      }
+      const template = await prisma.reportTemplate.findUnique({
+        where: { id: scheduleFields.templateId },
+        select: { agencyId: true },
+      });
+      const templateAgencyIds = [client.belongsToAgencyId, ...clientAgencyIds].filter(Boolean);
+      if (!template || !templateAgencyIds.includes(template.agencyId)) {
+        return res.status(400).json({ message: "Report template not found for this client's agency." });
+      }
+    }
 
     // Check if schedule already exists
     const existing = await prisma.reportSchedule.findFirst({
@@ -8656,6 +10110,26 @@ router.post("/reports/:clientId/schedule", authenticateToken, async (req, res) =
       }
     });
 
+    // Keep the schedule's zone on update unless a new one is given; new schedules default from the client/agency address.
+    const timeZone =
+      scheduleFields.timeZone ?? existing?.timeZone ?? (await resolveDefaultTimeZone({ clientId }));
+
+    // Calculate next run time
+    const { calculateNextRunTime, calculateNextLocalMapRunTime } = await import("../lib/reportScheduler.js");
+    const nextRunAt = isLocalMapSchedule
+      ? calculateNextLocalMapRunTime(
+          scheduleData.frequency as "biweekly" | "monthly",
+          scheduleFields.timeOfDay,
+          timeZone
+        )
+      : calculateNextRunTime(
+          scheduleData.frequency,
+          scheduleFields.dayOfWeek,
+          scheduleFields.dayOfMonth,
+          scheduleFields.timeOfDay,
+          timeZone
+        );
+
     const storedEmailSubject = isLocalMapSchedule
       ? `${LOCAL_MAP_SCHEDULE_SUBJECT_PREFIX}${(scheduleFields.emailSubject || "").trim()}`
       : isPpcSchedule
@@ -8670,6 +10144,7 @@ router.post("/reports/:clientId/schedule", authenticateToken, async (req, res) =
             // ReportSchedule.recipients is a String column; store as JSON array string.
             recipients: JSON.stringify(scheduleFields.recipients),
             emailSubject: storedEmailSubject,
+            timeZone,
             nextRunAt
           }
         })
@@ -8680,6 +10155,7 @@ router.post("/reports/:clientId/schedule", authenticateToken, async (req, res) =
             recipients: JSON.stringify(scheduleFields.recipients),
             emailSubject: storedEmailSubject,
             clientId,
+            timeZone,
             nextRunAt
           }
         });
@@ -8916,10 +10392,12 @@ router.get("/reports/:clientId/schedules", authenticateToken, async (req, res) =
 
     const schedules = await prisma.reportSchedule.findMany({
       where: { clientId },
+      include: { template: { select: { id: true, name: true } } },
       orderBy: { createdAt: "desc" }
     });
 
-    res.json(schedules);
+    // Schedules saved before timezones existed run in the server's zone; report it so the UI can show it.
+    res.json(schedules.map((schedule) => ({ ...schedule, timeZone: resolveTimeZone(schedule.timeZone) })));
   } catch (error) {
     console.error("Get report schedules error:", error);
     res.status(500).json({ message: "Internal server error" });
@@ -8971,13 +10449,7 @@ router.post("/reports/schedules/:scheduleId/trigger", authenticateToken, async (
     }
 
     // Import and use the scheduler functions
-    const {
-      autoGenerateReport,
-      generateReportEmailHTML,
-      generateReportPDFBuffer,
-      getReportTargetKeywords,
-      buildShareDashboardUrl,
-    } = await import("../lib/reportScheduler.js");
+    const { autoGenerateReport, renderSeoReportEmailAndPdf } = await import("../lib/reportScheduler.js");
     const { sendEmail } = await import("../lib/email.js");
 
     // Generate report
@@ -8990,13 +10462,15 @@ router.post("/reports/schedules/:scheduleId/trigger", authenticateToken, async (
     });
 
     // Send email to recipients (stored as JSON string)
-    const recipients = normalizeEmailRecipients(schedule.recipients);
+    const recipients = normalizeEmailRecipients(schedule.recipients, await loadSuppressedEmails());
     if (recipients && recipients.length > 0) {
-      const shareUrl = await buildShareDashboardUrl(schedule.clientId).catch(() => null);
-      const targetKeywords = await getReportTargetKeywords(schedule.clientId).catch(() => []);
-      const emailHtml = generateReportEmailHTML(report, schedule.client, { targetKeywords, shareUrl });
+      const { html: emailHtml, pdf: pdfBuffer } = await renderSeoReportEmailAndPdf(report, schedule.client, {
+        period: schedule.frequency,
+        templateId: schedule.templateId,
+        timeZone: schedule.timeZone,
+      });
       const emailSubject = schedule.emailSubject || buildReportEmailSubject(schedule.client.name, schedule.frequency);
-      const pdfBuffer = await generateReportPDFBuffer(report, schedule.client, { targetKeywords, shareUrl });
+      const batchId = newEmailBatchId();
 
       const emailPromises = recipients.map((email: string) =>
         sendEmail({
@@ -9010,6 +10484,13 @@ router.post("/reports/schedules/:scheduleId/trigger", authenticateToken, async (
               contentType: "application/pdf",
             },
           ],
+          delivery: {
+            templateType: "report",
+            clientId: schedule.clientId,
+            reportId: report.id,
+            batchId,
+            trackEngagement: schedule.trackEngagement,
+          },
         })
       );
 
@@ -9152,6 +10633,9 @@ router.post("/reports/:reportId/send", authenticateToken, async (req, res) => {
           select: {
             recipients: true,
             emailSubject: true,
+            templateId: true,
+            trackEngagement: true,
+            timeZone: true,
           }
         }
       }
@@ -9175,34 +10659,30 @@ router.post("/reports/:reportId/send", authenticateToken, async (req, res) => {
       return res.status(403).json({ message: "Access denied" });
     }
 
+    const suppressedEmails = await loadSuppressedEmails();
     const recipientsList: string[] =
       Array.isArray(recipients) && recipients.length > 0
-        ? normalizeEmailRecipients(recipients)
+        ? normalizeEmailRecipients(recipients, suppressedEmails)
         : (() => {
-            const fromReport = normalizeEmailRecipients(report.recipients);
+            const fromReport = normalizeEmailRecipients(report.recipients, suppressedEmails);
             if (fromReport.length > 0) return fromReport;
-            return normalizeEmailRecipients(report.schedule?.recipients);
+            return normalizeEmailRecipients(report.schedule?.recipients, suppressedEmails);
           })();
     if (!recipientsList || recipientsList.length === 0) {
       return res.status(400).json({ message: "No recipients specified" });
     }
 
     // Generate email HTML and PDF
-    const {
-      generateReportEmailHTML,
-      generateReportPDFBuffer,
-      getReportTargetKeywords,
-      buildShareDashboardUrl,
-    } = await import("../lib/reportScheduler.js");
-
-    const shareUrl = await buildShareDashboardUrl(report.clientId).catch(() => null);
-    const targetKeywords = await getReportTargetKeywords(report.clientId).catch(() => []);
-
-    const emailHtml = generateReportEmailHTML(report, report.client, { targetKeywords, shareUrl });
-    const pdfBuffer = await generateReportPDFBuffer(report, report.client, { targetKeywords, shareUrl });
+    const { renderSeoReportEmailAndPdf } = await import("../lib/reportScheduler.js");
+    const { html: emailHtml, pdf: pdfBuffer } = await renderSeoReportEmailAndPdf(report, report.client, {
+      period: report.period,
+      templateId: report.schedule?.templateId,
+      timeZone: report.schedule?.timeZone,
+    });
 
     // Send emails with PDF attachment
     const { sendEmail } = await import("../lib/email.js");
+    const batchId = newEmailBatchId();
     const emailPromises = recipientsList.map((email: string) =>
       sendEmail({
         to: email,
@@ -9217,7 +10697,14 @@ router.post("/reports/:reportId/send", authenticateToken, async (req, res) => {
             content: pdfBuffer,
             contentType: 'application/pdf'
           }
-        ]
+        ],
+        delivery: {
+          templateType: "report",
+          clientId: report.clientId,
+          reportId: report.id,
+          batchId,
+          trackEngagement: report.schedule?.trackEngagement ?? false,
+        },
       })
     );
 
@@ -9327,10 +10814,11 @@ router.post("/reports/:clientId/ppc/send", authenticateToken, async (req, res) =
       orderBy: { updatedAt: "desc" },
     });
 
+    const suppressedEmails = await loadSuppressedEmails();
     const recipientsList: string[] =
       Array.isArray(recipients) && recipients.length > 0
-        ? normalizeEmailRecipients(recipients)
-        : normalizeEmailRecipients(activePpcSchedule?.recipients);
+        ? normalizeEmailRecipients(recipients, suppressedEmails)
+        : normalizeEmailRecipients(activePpcSchedule?.recipients, suppressedEmails);
 
     if (!recipientsList || recipientsList.length === 0) {
       return res.status(400).json({ message: "No recipients specified for PPC report" });
@@ -9359,6 +10847,7 @@ router.post("/reports/:clientId/ppc/send", authenticateToken, async (req, res) =
       subjectFromSchedule ||
       `PPC Report - ${buildReportEmailSubject(client.name, requestedPeriod)}`;
 
+    const batchId = newEmailBatchId();
     await Promise.all(
       recipientsList.map((to: string) =>
         sendEmail({
@@ -9366,6 +10855,12 @@ router.post("/reports/:clientId/ppc/send", authenticateToken, async (req, res) =
           subject: resolvedSubject,
           html,
           attachments: [pdfAttachment],
+          delivery: {
+            templateType: "ppc_report",
+            clientId,
+            batchId,
+            trackEngagement: activePpcSchedule?.trackEngagement ?? false,
+          },
         })
       )
     );
@@ -9491,6 +10986,14 @@ router.delete("/reports/:reportId", authenticateToken, async (req, res) => {
     await prisma.seoReport.delete({
       where: { id: reportId }
     });
+    await recordAuditEvent(req, {
+      action: "report.deleted",
+      entityType: "report",
+      entityId: report.id,
+      entityLabel: `${report.client.name} – ${report.period} report (${report.reportDate.toISOString().slice(0, 10)})`,
+      clientId: report.clientId,
+      metadata: { period: report.period, reportDate: report.reportDate, status: report.status },
+    });
 
     res.json({ message: "Report deleted successfully" });
   } catch (error: any) {
@@ -9844,7 +11347,8 @@ async function fetchHistoricalRankOverviewFromDataForSEO(
 async function fetchRankedKeywordsFromDataForSEO(
   domain: string,
   locationCode: number = 2840,
-  languageCode: string = "en"
+  languageCode: string = "en",
+  limit: number = 10
 ) {
   const base64Auth = process.env.DATAFORSEO_BASE64;
 
@@ -9865,12 +11369,12 @@ async function fetchRankedKeywordsFromDataForSEO(
 
   // Request body according to DataForSEO API documentation
   // Using location_code and language_code (can also use location_name and language_name)
-  // limit is optional - we set it to 10 since we only need total_count, not the full list
+  // limit defaults to 10 since most callers only need total_count, not the full list
   const requestBody = [{
     target: normalizedDomain,
     location_code: locationCode, // 2840 = United States
     language_code: languageCode, // "en" = English
-    limit: 10 // We only need total_count, not the full keyword list
+    limit
   }];
 
   try {
@@ -10944,6 +12448,7 @@ router.get("/traffic-sources/:clientId", authenticateToken, async (req, res) =>
 
 router.get("/keyword-research", authenticateToken, async (req, res) => {
   try {
+    if (!(await authorize(req, res, "spend_research_credits"))) return;
     const tierCtx = await getAgencyTierContext(req.user.userId, req.user.role);
     const creditCheck = hasResearchCredits(tierCtx, 1);
     if (!creditCheck.allowed) {
@@ -11232,30 +12737,16 @@ router.get("/serp-analysis", authenticateToken, async (req, res) => {
           return u && (u.startsWith("http://") || u.startsWith("https://")) ? u : (u ? `https://${u}` : "");
         }).filter(Boolean);
         if (targets.length > 0) {
-          const backlinksBody = [{ targets, rank_scale: "one_hundred" }];
-          const blRes = await fetch("https://api.dataforseo.com/v3/backlinks/bulk_pages_summary/live", {
-            method: "POST",
-            headers: {
-              Authorization: `Basic ${base64Auth}`,
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify(backlinksBody),
+          const items = await fetchBulkPagesSummaryFromDataForSEO(targets);
+          rows.forEach((row, i) => {
+            const item = items[i] ?? items.find((it: any) => (it?.url || "").replace(/^https?:\/\//, "").replace(/\/$/, "") === (row.url || "").replace(/^https?:\/\//, "").replace(/\/$/, ""));
+            if (row && item) {
+              row.refDomains = item.referring_domains != null ? Number(item.referring_domains) : null;
+              row.backlinks = item.backlinks != null ? Number(item.backlinks) : null;
+              const rawRank = item.rank != null ? Number(item.rank) : null;
+              row.pageAs = rawRank != null ? Math.min(100, Math.max(0, Math.round(rawRank))) : null;
+            }
           });
-          if (blRes.ok) {
-            const blData = await blRes.json();
-            const task = blData?.tasks?.[0];
-            const resultBlock = task?.result?.[0];
-            const items = Array.isArray(resultBlock?.items) ? resultBlock.items : [];
-            rows.forEach((row, i) => {
-              const item = items[i] ?? items.find((it: any) => (it?.url || "").replace(/^https?:\/\//, "").replace(/\/$/, "") === (row.url || "").replace(/^https?:\/\//, "").replace(/\/$/, ""));
-              if (row && item) {
-                row.refDomains = item.referring_domains != null ? Number(item.referring_domains) : null;
-                row.backlinks = item.backlinks != null ? Number(item.backlinks) : null;
-                const rawRank = item.rank != null ? Number(item.rank) : null;
-                row.pageAs = rawRank != null ? Math.min(100, Math.max(0, Math.round(rawRank))) : null;
-              }
-            });
-          }
         }
       } catch {
         // keep rows with null metrics if backlinks call fails
@@ -12035,22 +13526,85 @@ router.get("/share/:token/target-keywords", async (req, res) => {
   }
 });
 
+// Public: Shared keyword rank history (sparklines / trend charts) by share token (no auth)
+router.get("/share/:token/keyword-history", async (req, res) => {
+  try {
+    const { token } = req.params;
+    const tokenData = await resolveShareToken(token);
+    if (!tokenData) {
+      return res.status(401).json({ message: "Invalid or expired share link" });
+    }
+
+    const days = clampHistoryDays(req.query.days);
+    const series = await getClientRankHistorySeries({ clientId: tokenData.clientId, days });
+    return res.json({ days, series });
+  } catch (error: any) {
+    console.error("Shared keyword rank history error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export const createTargetKeywordSchema = z.object({
+  keyword: z.string().min(1),
+  searchVolume: z.number().int().min(0).optional(),
+  cpc: z.number().min(0).optional(),
+  competition: z.string().optional(),
+  competitionValue: z.number().min(0).max(1).optional(),
+  locationCode: z.number().int().optional().default(2840),
+  locationName: z.string().optional(),
+  languageCode: z.string().optional().default("en"),
+  languageName: z.string().optional(),
+  type: z.enum(["money", "topical"]).optional().default("money"),
+});
+
+/** Create a target keyword for a client (shared with the public API). Returns null if it already exists. */
+export async function createTargetKeywordRecord(clientId: string, keywordData: z.infer<typeof createTargetKeywordSchema>) {
+  const existing = await prisma.targetKeyword.findUnique({
+    where: {
+      clientId_keyword: {
+        clientId,
+        keyword: keywordData.keyword,
+      },
+    },
+  });
+  if (existing) return null;
+
+  const normalizedLocationName = keywordData.locationName
+    ? normalizeLocationName(keywordData.locationName)
+    : null;
+
+  // If a non-US location name was provided but the code is default/missing, try to resolve it.
+  const shouldResolveLocation =
+    Boolean(normalizedLocationName) &&
+    normalizeLocationNameForMatch(normalizedLocationName || "") !== normalizeLocationNameForMatch("United States");
+  const resolvedLocationCode =
+    shouldResolveLocation ? await resolveLocationCodeFromName(normalizedLocationName!) : null;
+
+  // Create target keyword
+  const targetKeyword = await prisma.targetKeyword.create({
+    data: {
+      clientId,
+      keyword: keywordData.keyword,
+      searchVolume: keywordData.searchVolume || null,
+      cpc: keywordData.cpc || null,
+      competition: keywordData.competition || null,
+      competitionValue: keywordData.competitionValue || null,
+      locationCode: resolvedLocationCode ?? keywordData.locationCode ?? null,
+      locationName: normalizedLocationName ?? keywordData.locationName ?? null,
+      languageCode: keywordData.languageCode || null,
+      languageName: keywordData.languageName || null,
+      type: keywordData.type || "money",
+    },
+  });
+
+  return targetKeyword;
+}
+
 // Create target keyword for a client
 router.post("/target-keywords/:clientId", authenticateToken, async (req, res) => {
   try {
     const { clientId } = req.params;
-    const keywordData = z.object({
-      keyword: z.string().min(1),
-      searchVolume: z.number().int().min(0).optional(),
-      cpc: z.number().min(0).optional(),
-      competition: z.string().optional(),
-      competitionValue: z.number().min(0).max(1).optional(),
-      locationCode: z.number().int().optional().default(2840),
-      locationName: z.string().optional(),
-      languageCode: z.string().optional().default("en"),
-      languageName: z.string().optional(),
-      type: z.enum(["money", "topical"]).optional().default("money"),
-    }).parse(req.body);
+    const keywordData = createTargetKeywordSchema.parse(req.body);
 
     // Check if user has access to this client
     const client = await prisma.client.findUnique({
@@ -12101,48 +13655,11 @@ router.post("/target-keywords/:clientId", authenticateToken, async (req, res) =>
       });
     }
 
-    // Check if target keyword already exists
-    const existing = await prisma.targetKeyword.findUnique({
-      where: {
-        clientId_keyword: {
-          clientId,
-          keyword: keywordData.keyword,
-        },
-      },
-    });
-
-    if (existing) {
+    const targetKeyword = await createTargetKeywordRecord(clientId, keywordData);
+    if (!targetKeyword) {
       return res.status(400).json({ message: "Target keyword already exists for this client" });
     }
 
-    const normalizedLocationName = keywordData.locationName
-      ? normalizeLocationName(keywordData.locationName)
-      : null;
-
-    // If a non-US location name was provided but the code is default/missing, try to resolve it.
-    const shouldResolveLocation =
-      Boolean(normalizedLocationName) &&
-      normalizeLocationNameForMatch(normalizedLocationName || "") !== normalizeLocationNameForMatch("United States");
-    const resolvedLocationCode =
-      shouldResolveLocation ? await resolveLocationCodeFromName(normalizedLocationName!) : null;
-
-    // Create target keyword
-    const targetKeyword = await prisma.targetKeyword.create({
-      data: {
-        clientId,
-        keyword: keywordData.keyword,
-        searchVolume: keywordData.searchVolume || null,
-        cpc: keywordData.cpc || null,
-        competition: keywordData.competition || null,
-        competitionValue: keywordData.competitionValue || null,
-        locationCode: resolvedLocationCode ?? keywordData.locationCode ?? null,
-        locationName: normalizedLocationName ?? keywordData.locationName ?? null,
-        languageCode: keywordData.languageCode || null,
-        languageName: keywordData.languageName || null,
-        type: keywordData.type || "money",
-      },
-    });
-
     res.json(targetKeyword);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -12348,6 +13865,15 @@ router.post("/target-keywords/:clientId/refresh", authenticateToken, async (req,
             const previousPosition =
               prevPos !== null && nextPos !== null && prevPos !== nextPos ? prevPos : tk.previousPosition ?? null;
 
+            await recordKeywordRankObservation({
+              clientId,
+              keyword: tk.keyword,
+              position: nextPos,
+              rankingUrl: onlyRankingWebsiteUrl(serp.googleUrl),
+              serpFeatures: serp.serpFeatures,
+              locationName: normalizedLocationName ?? tk.locationName,
+            });
+
             return prisma.targetKeyword.update({
               where: { id: tk.id },
               data: {
@@ -12475,6 +14001,15 @@ router.post("/target-keywords/:clientId/refresh", authenticateToken, async (req,
           ? (languageNameMap[kw.languageCode] || kw.languageCode) 
           : "English";
         
+        await recordKeywordRankObservation({
+          clientId,
+          keyword: kw.keyword,
+          position: kw.googlePosition,
+          rankingUrl: onlyRankingWebsiteUrl(kw.googleUrl),
+          serpFeatures: kw.serpItemTypes,
+          locationName,
+        });
+
         return prisma.targetKeyword.upsert({
           where: {
             clientId_keyword: {
@@ -14,6 +14,7 @@ import {
   SnapshotPurchaseValidationError,
 } from "../lib/snapshotCreditPurchase.js";
 import {
+  sendAgencyPaymentFailedEmail,
   sendAgencyPlanCancellationEmail,
   sendAgencyPlanChangeEmail,
 } from "../lib/agencyPlanEmails.js";
@@ -209,6 +210,13 @@ router.post("/", async (req, res) => {
           link: "/agency/subscription",
         },
       }).catch((e) => console.warn("[Stripe webhook] Create payment_failed notification failed:", e?.message));
+      const invoice = event.data.object as Stripe.Invoice;
+      await sendAgencyPaymentFailedEmail({
+        agencyId: agency.id,
+        amountDueCents: invoice.amount_due ?? null,
+        currency: invoice.currency ?? null,
+        nextAttemptAt: invoice.next_payment_attempt ? new Date(invoice.next_payment_attempt * 1000) : null,
+      });
       return res.status(200).json({ received: true });
     }
 
@@ -0,0 +1,116 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { prisma } from "../lib/prisma.js";
+import { authenticateToken } from "../middleware/auth.js";
+import {
+  DEFAULT_TASK_WORKFLOW,
+  WORKFLOW_REQUIRED_FIELDS,
+  getAgencyWorkflowColumns,
+  normalizeWorkflowColumns,
+  workflowColumnsSchema,
+} from "../lib/taskWorkflow.js";
+
+const router = Router();
+
+/** Agency the caller may edit the workflow for: their first membership, as OWNER (or a platform admin). */
+async function resolveWorkflowManagerAgency(req: Request, res: Response): Promise<string | null> {
+  const user = req.user;
+  const membership = await prisma.userAgency.findFirst({
+    where: { userId: user.userId },
+    select: { agencyId: true, agencyRole: true },
+  });
+  if (!membership) {
+    res.status(404).json({ message: "No agency found for user" });
+    return null;
+  }
+  if (membership.agencyRole !== "OWNER" && user.role !== "ADMIN" && user.role !== "SUPER_ADMIN") {
+    res.status(403).json({ message: "Access denied. Only agency owners can change the task workflow." });
+    return null;
+  }
+  return membership.agencyId;
+}
+
+// Board columns for the caller's agency (the default board when the agency has none, or the caller has no agency)
+router.get("/", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const membership = await prisma.userAgency.findFirst({
+      where: { userId: req.user.userId },
+      select: { agencyId: true },
+    });
+    const columns = await getAgencyWorkflowColumns(membership?.agencyId);
+    res.json({
+      columns: columns ?? DEFAULT_TASK_WORKFLOW,
+      isDefault: !columns,
+      requiredFields: WORKFLOW_REQUIRED_FIELDS,
+    });
+  } catch (error) {
+    console.error("Get task workflow error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Replace the agency's workflow. Columns are matched by key; tasks in removed columns fall back to the first
+// column mapped to their status.
+router.put("/", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agencyId = await resolveWorkflowManagerAgency(req, res);
+    if (!agencyId) return;
+
+    const body = workflowColumnsSchema.parse(req.body);
+    const normalized = normalizeWorkflowColumns(body.columns);
+    if ("error" in normalized) return res.status(400).json({ message: normalized.error });
+
+    const keys = normalized.columns.map((c) => c.key);
+    await prisma.$transaction([
+      prisma.taskWorkflowColumn.deleteMany({ where: { agencyId, key: { notIn: keys } } }),
+      ...normalized.columns.map((column, order) => {
+        const data = {
+          name: column.name,
+          coreStatus: column.coreStatus,
+          order,
+          color: column.color,
+          wipLimit: column.wipLimit,
+          requiredFields: column.requiredFields.length > 0 ? JSON.stringify(column.requiredFields) : null,
+          allowedNextKeys: column.allowedNextKeys ? JSON.stringify(column.allowedNextKeys) : null,
+        };
+        return prisma.taskWorkflowColumn.upsert({
+          where: { agencyId_key: { agencyId, key: column.key } },
+          create: { agencyId, key: column.key, ...data },
+          update: data,
+        });
+      }),
+    ]);
+    // Tasks pinned to a column whose core status changed now sit in the wrong state; let them fall back.
+    const columns = (await getAgencyWorkflowColumns(agencyId)) ?? [];
+    for (const column of columns) {
+      await prisma.task.updateMany({
+        where: { agencyId, workflowColumnId: column.id, status: { not: column.coreStatus } },
+        data: { workflowColumnId: null },
+      });
+    }
+
+    res.json({ columns, isDefault: false, requiredFields: WORKFLOW_REQUIRED_FIELDS });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid data", errors: error.errors });
+    }
+    console.error("Update task workflow error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Go back to the default board
+router.delete("/", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agencyId = await resolveWorkflowManagerAgency(req, res);
+    if (!agencyId) return;
+
+    await prisma.taskWorkflowColumn.deleteMany({ where: { agencyId } });
+    res.json({ columns: DEFAULT_TASK_WORKFLOW, isDefault: true, requiredFields: WORKFLOW_REQUIRED_FIELDS });
+  } catch (error) {
+    console.error("Reset task workflow error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
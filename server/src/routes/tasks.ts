@@ -1,8 +1,46 @@
 import express from "express";
 import { z } from "zod";
-import type { Role, TaskStatus } from "@prisma/client";
+import type { Role, TaskApprovalDecision, TaskStatus } from "@prisma/client";
 import { prisma } from "../lib/prisma.js";
-import { sendEmail } from "../lib/email.js";
+import {
+  addCalendarDays,
+  addCalendarMonths,
+  daysInMonth,
+  getZonedParts,
+  isValidTimeZone,
+  resolveDefaultTimeZone,
+  resolveTimeZone,
+  zonedTimeToUtc,
+} from "../lib/timezone.js";
+import { emitClientWebhookEvent, emitWebhookEvent } from "../lib/webhooks.js";
+import { deliverNotification, type NotificationEventId, type NotificationRecipient } from "../lib/notificationPreferences.js";
+import { redactClientSecrets } from "../lib/secretEncryption.js";
+import {
+  TIME_ENTRY_MAX_MINUTES,
+  getClientMonthTimeEntries,
+  getClientMonthlyHours,
+  getTimeEntryMinutes,
+  summarizeTimeEntries,
+  timeEntriesToCsv,
+} from "../lib/timeTracking.js";
+import {
+  DEFAULT_TASK_WORKFLOW,
+  checkWorkflowTransition,
+  countTasksInWorkflowColumn,
+  getAgencyWorkflowColumns,
+  resolveTaskColumn,
+  type WorkflowTaskFields,
+} from "../lib/taskWorkflow.js";
+import {
+  buildTimelineRows,
+  isBlockedBy,
+  shiftDependentDueDates,
+  wouldCreateDependencyCycle,
+} from "../lib/taskDependencies.js";
+import { getClientApprovalTrail, recordApprovalDecisions, verifyApprovalChain, type ApprovalActor } from "../lib/taskApprovals.js";
+import { generateApprovalCertificatePdfBuffer } from "../lib/approvalCertificatePdf.js";
+import { sessionMetaFromRequest } from "../lib/sessions.js";
+import { canAccessClient, loadAgencyAccess, restrictedClientIds } from "../lib/permissions.js";
 import { authenticateToken, optionalAuthenticateToken } from "../middleware/auth.js";
 import { requireAgencyTrialNotExpired } from "../middleware/requireAgencyTrialNotExpired.js";
 
@@ -83,6 +121,9 @@ const bulkCreateTaskSchema = z.object({
     clientId: z.string().nullable().optional(),
     estimatedHours: z.number().optional(),
     priority: z.string().optional(),
+    // Optional per-request handles so tasks in the same batch can block each other (e.g. template order)
+    ref: z.string().min(1).max(64).optional(),
+    blockedByRefs: z.array(z.string().min(1).max(64)).optional(),
   }))
 });
 
@@ -101,6 +142,7 @@ const createRecurringTaskSchema = z.object({
   dayOfWeek: z.number().int().min(0).max(6).optional(), // 0=Sunday, for WEEKLY
   dayOfMonth: z.number().int().min(1).max(31).optional(), // for MONTHLY/QUARTERLY/SEMIANNUAL
   firstRunAt: z.coerce.date(), // when to create the first task (and base for recurrence)
+  timeZone: z.string().max(64).refine(isValidTimeZone, "Invalid timezone").optional(), // IANA zone; defaults from client/agency address
 });
 
 const updateRecurringTaskSchema = z.object({
@@ -118,6 +160,7 @@ const updateRecurringTaskSchema = z.object({
   dayOfMonth: z.number().int().min(1).max(31).optional().nullable(),
   firstRunAt: z.coerce.date().optional(),
   nextRunAt: z.coerce.date().optional(),
+  timeZone: z.string().max(64).refine(isValidTimeZone, "Invalid timezone").optional(),
 });
 
 // Common include for consistency
@@ -136,137 +179,158 @@ const taskInclude = {
     },
   },
   createdBy: { select: { id: true, name: true, email: true, role: true } },
+  blockedBy: { select: { blockedBy: { select: { id: true, title: true, status: true, dueDate: true } } } },
 };
 
-async function sendTaskApprovalRequestEmails(
+/**
+ * Task as sent to the UI: the client's website password is replaced by `hasWebsitePassword` (revealed on demand), and
+ * blocking tasks are flattened to `blockedBy` with an `isBlocked` flag while any of them is still open.
+ */
+function serializeTask<
+  T extends { client?: Record<string, any> | null; blockedBy?: Array<{ blockedBy: { status: TaskStatus } }> },
+>(task: T) {
+  const blockedBy = task.blockedBy?.map((dependency) => dependency.blockedBy) ?? [];
+  return {
+    ...task,
+    client: task.client ? redactClientSecrets(task.client) : task.client,
+    blockedBy,
+    isBlocked: isBlockedBy(blockedBy),
+  };
+}
+
+function taskBasePath(role: string | null | undefined): string {
+  return role === "USER" ? "/client/tasks" : role === "SPECIALIST" ? "/specialist/tasks" : "/agency/tasks";
+}
+
+/** Link builder for deliverNotification: each recipient opens the task in their own panel. */
+function taskLinkFor(taskId: string) {
+  return (recipient: NotificationRecipient) => `${taskBasePath(recipient.role)}?taskId=${taskId}`;
+}
+
+/** Questions and approval traffic route as "approvals"; plain comments as task activity. */
+function taskCommentEvent(commentType: string): NotificationEventId {
+  return ["QUESTION", "APPROVAL_REQUEST", "APPROVAL", "REVISION_REQUEST"].includes(commentType) ? "approvals" : "task_activity";
+}
+
+async function notifyTaskApprovalRequest(
   userIds: string[],
-  task: { title: string; id: string; client?: { name: string } | null },
+  task: { title: string; id: string; agencyId?: string | null; client?: { name: string } | null },
   createdByName: string
 ): Promise<void> {
   if (userIds.length === 0) return;
-  const users = await prisma.user.findMany({
-    where: { id: { in: userIds } },
-    select: { email: true, name: true },
-  });
   const clientName = task.client?.name ?? "Client";
-  const subject = `Content needs your approval: ${task.title}`;
-  const body = `<p>${createdByName} has requested approval for the following task:</p>
+  await deliverNotification({
+    event: "approvals",
+    userIds,
+    agencyId: task.agencyId ?? null,
+    type: "task_activity",
+    title: `${createdByName} requested approval for "${task.title}"`,
+    message: `Client: ${clientName}`,
+    link: taskLinkFor(task.id),
+    email: {
+      subject: `Content needs your approval: ${task.title}`,
+      html: `<p>${createdByName} has requested approval for the following task:</p>
 <p><strong>${task.title}</strong></p>
 <p>Client: ${clientName}</p>
-<p>Please review and approve in the dashboard.</p>`;
-  for (const u of users) {
-    if (u.email) {
-      sendEmail({ to: u.email, subject, html: body }).catch((e) =>
-        console.warn("[Task] Approval email failed", u.email, e?.message)
-      );
-    }
+<p>Please review and approve in the dashboard.</p>`,
+    },
+  });
+}
+
+/** Fire task.needs_approval / task.done webhooks when a task enters one of those statuses. */
+function emitTaskStatusWebhook(
+  task: {
+    id: string;
+    title: string;
+    status: string;
+    dueDate: Date | null;
+    agencyId: string | null;
+    clientId: string | null;
+    client?: { id: string; name: string; domain: string } | null;
+    assignee?: { id: string; name: string | null; email: string } | null;
+  },
+  previousStatus: string | null,
+  actorUserId: string
+) {
+  if (task.status === previousStatus) return;
+  const type = task.status === "NEEDS_APPROVAL" ? "task.needs_approval" : task.status === "DONE" ? "task.done" : null;
+  if (!type) return;
+
+  const data = {
+    task: {
+      id: task.id,
+      title: task.title,
+      status: task.status,
+      previousStatus,
+      dueDate: task.dueDate?.toISOString() ?? null,
+      assignee: task.assignee ? { id: task.assignee.id, name: task.assignee.name, email: task.assignee.email } : null,
+    },
+    actorUserId,
+  };
+  if (task.agencyId) {
+    const client = task.client ? { id: task.client.id, name: task.client.name, domain: task.client.domain } : null;
+    void emitWebhookEvent({ agencyIds: [task.agencyId], type, data: { client, ...data } });
+  } else if (task.clientId) {
+    void emitClientWebhookEvent(task.clientId, type, data);
   }
 }
 
-async function sendTaskCompletedEmails(
+async function notifyTaskCompleted(
   task: {
     title: string;
     id: string;
     clientId?: string | null;
     client?: { name: string } | null;
-    assignee?: { id?: string; email: string | null; name: string | null } | null;
     createdBy?: { id?: string; email: string | null; name: string | null } | null;
-    approvalNotifyUserIds?: string | null;
     agencyId?: string | null;
   },
   approvalNotifyUserIds: string | null,
   completedByUserId?: string
 ): Promise<void> {
-  const toEmails: string[] = [];
   const recipientUserIds = new Set<string>();
 
-  // 1. Notify client users (the actual client contacts who need to know)
+  // 1. Client users (the actual client contacts who need to know)
   if (task.clientId) {
     const clientUsers = await prisma.clientUser.findMany({
       where: { clientId: task.clientId, status: "ACTIVE" as const },
-      select: { userId: true, user: { select: { email: true } } },
-    });
-    clientUsers.forEach((cu: { userId: string; user: { email: string | null } }) => {
-      recipientUserIds.add(cu.userId);
-      if (cu.user.email) toEmails.push(cu.user.email);
+      select: { userId: true },
     });
+    clientUsers.forEach((cu) => recipientUserIds.add(cu.userId));
   }
 
-  // 2. Notify the task creator if they didn't complete it themselves
-  if (task.createdBy?.email && task.createdBy.id !== completedByUserId) {
-    toEmails.push(task.createdBy.email);
-  }
-  if (task.createdBy?.id && task.createdBy.id !== completedByUserId) {
-    recipientUserIds.add(task.createdBy.id);
-  }
+  // 2. The task creator
+  if (task.createdBy?.id) recipientUserIds.add(task.createdBy.id);
 
-  // 3. Notify approval-notify users
-  if (approvalNotifyUserIds) {
-    try {
-      const ids = JSON.parse(approvalNotifyUserIds) as string[];
-      const users = await prisma.user.findMany({
-        where: { id: { in: ids } },
-        select: { id: true, email: true },
-      });
-      users.forEach((u) => {
-        recipientUserIds.add(u.id);
-        if (u.email) toEmails.push(u.email);
-      });
-    } catch {
-      // ignore invalid JSON
-    }
-  }
+  // 3. Approval-notify users
+  parseUserIdJson(approvalNotifyUserIds).forEach((id) => recipientUserIds.add(id));
 
-  // 4. Notify higher-up users (super admins/admins), excluding the completer.
+  // 4. Higher-up users (super admins/admins)
   const higherUpUsers = await prisma.user.findMany({
     where: { role: { in: ["SUPER_ADMIN", "ADMIN"] } },
-    select: { id: true, email: true },
-  });
-  higherUpUsers.forEach((u) => {
-    if (u.id !== completedByUserId) recipientUserIds.add(u.id);
-    if (u.email) toEmails.push(u.email);
+    select: { id: true },
   });
+  higherUpUsers.forEach((u) => recipientUserIds.add(u.id));
 
-  // Never email the person who completed the task
-  const excludeEmail = completedByUserId
-    ? (await prisma.user.findUnique({ where: { id: completedByUserId }, select: { email: true } }))?.email
-    : null;
-  const unique = [...new Set(toEmails)].filter((e) => e !== excludeEmail);
-  if (unique.length === 0) return;
+  // Never notify the person who completed the task
+  if (completedByUserId) recipientUserIds.delete(completedByUserId);
+  if (recipientUserIds.size === 0) return;
 
   const clientName = task.client?.name ?? "Client";
-  const subject = `Task completed: ${task.title}`;
-  const html = `<p>The following task has been marked completed:</p>
+  await deliverNotification({
+    event: "task_activity",
+    userIds: recipientUserIds,
+    agencyId: task.agencyId ?? null,
+    type: "task_completed",
+    title: "Task completed",
+    message: `"${task.title}" for ${clientName} has been completed.`,
+    link: taskLinkFor(task.id),
+    email: {
+      subject: `Task completed: ${task.title}`,
+      html: `<p>The following task has been marked completed:</p>
 <p><strong>${task.title}</strong></p>
-<p>Client: ${clientName}</p>`;
-  for (const to of unique) {
-    sendEmail({ to, subject, html }).catch((e) =>
-      console.warn("[Task] Completion email failed", to, e?.message)
-    );
-  }
-
-  // 5. Create in-app notifications only for targeted recipients
-  const inAppRecipientIds = Array.from(recipientUserIds).filter((uid) => uid !== completedByUserId);
-  if (inAppRecipientIds.length > 0) {
-    const inAppUsers = await prisma.user.findMany({
-      where: { id: { in: inAppRecipientIds } },
-      select: { id: true, role: true },
-    });
-    if (inAppUsers.length > 0) {
-      await prisma.notification
-        .createMany({
-          data: inAppUsers.map((u) => ({
-            userId: u.id,
-            agencyId: task.agencyId ?? null,
-            type: "task_completed",
-            title: "Task completed",
-            message: `"${task.title}" for ${clientName} has been completed.`,
-            link: u.role === "USER" ? `/client/tasks?taskId=${task.id}` : `/agency/tasks?taskId=${task.id}`,
-          })),
-        })
-        .catch((e) => console.warn("[Task] Completion in-app notification failed", e?.message));
-    }
-  }
+<p>Client: ${clientName}</p>`,
+    },
+  });
 }
 
 const taskCommentTypeEnum = z.enum(["COMMENT", "QUESTION", "APPROVAL_REQUEST", "APPROVAL", "REVISION_REQUEST"]);
@@ -436,62 +500,31 @@ async function createTaskActivityNotifications(
 
   if (recipientUserIds.size === 0) return;
 
-  // Look up roles so we can set correct link paths
-  const recipientUsers = await prisma.user.findMany({
-    where: { id: { in: [...recipientUserIds] } },
-    select: { id: true, role: true },
-  });
-  const roleMap = new Map(recipientUsers.map((u) => [u.id, u.role]));
-
-  const notifData = [...recipientUserIds].map((uid) => {
-    const role = roleMap.get(uid);
-    const basePath = role === "USER" ? "/client/tasks" : role === "SPECIALIST" ? "/specialist/tasks" : "/agency/tasks";
-    return {
-      userId: uid,
-      agencyId: agencyScopeId ?? null,
-      type: "task_activity",
-      title: notifTitle,
-      message: notifMessage,
-      link: `${basePath}?taskId=${task.id}`,
-    };
-  });
-
-  await prisma.notification.createMany({ data: notifData }).catch((e) =>
-    console.warn("[Task] Activity notifications failed", e?.message)
-  );
-
-  // Send email for high-priority types (questions, approval requests, revisions)
-  if (["QUESTION", "APPROVAL_REQUEST", "REVISION_REQUEST"].includes(commentType)) {
-    const recipients = await prisma.user.findMany({
-      where: { id: { in: [...recipientUserIds] } },
-      select: { email: true, role: true },
-    });
-
-    // Mirror the same directional routing as in-app notifications.
-    const emailTargets = recipients.filter((r) => {
-      if (authorRole === "USER") return r.role !== "USER";
-      return r.role === "USER";
-    });
-
-    const subject =
-      commentType === "QUESTION"
-        ? `Question on task: ${task.title}`
-        : commentType === "APPROVAL_REQUEST"
-        ? `Approval needed: ${task.title}`
-        : `Revisions requested: ${task.title}`;
-
-    const html = `<p><strong>${authorName}</strong> ${action} the task "<strong>${task.title}</strong>":</p>
+  const isHighPriority = ["QUESTION", "APPROVAL_REQUEST", "REVISION_REQUEST"].includes(commentType);
+  const subject =
+    commentType === "QUESTION"
+      ? `Question on task: ${task.title}`
+      : commentType === "APPROVAL_REQUEST"
+      ? `Approval needed: ${task.title}`
+      : `Revisions requested: ${task.title}`;
+
+  await deliverNotification({
+    event: taskCommentEvent(commentType),
+    userIds: recipientUserIds,
+    agencyId: agencyScopeId ?? null,
+    type: "task_activity",
+    title: notifTitle,
+    message: notifMessage,
+    link: taskLinkFor(task.id),
+    email: isHighPriority
+      ? {
+          subject,
+          html: `<p><strong>${authorName}</strong> ${action} the task "<strong>${task.title}</strong>":</p>
 <blockquote style="border-left:3px solid #6366f1;padding-left:12px;color:#555;">${body}</blockquote>
-<p>Please review in the dashboard.</p>`;
-
-    for (const u of emailTargets) {
-      if (u.email) {
-        sendEmail({ to: u.email, subject, html }).catch((e) =>
-          console.warn("[Task] Activity email failed", u.email, e?.message)
-        );
-      }
-    }
-  }
+<p>Please review in the dashboard.</p>`,
+        }
+      : null,
+  });
 }
 
 async function notifyTaskAssigneeOnlyActivity(
@@ -509,28 +542,16 @@ async function notifyTaskAssigneeOnlyActivity(
   const assigneeId = task.assigneeId ?? null;
   if (!assigneeId || assigneeId === actorUserId) return;
 
-  const assignee = await prisma.user.findUnique({
-    where: { id: assigneeId },
-    select: { role: true },
-  });
-  const basePath =
-    assignee?.role === "USER"
-      ? "/client/tasks"
-      : assignee?.role === "SPECIALIST"
-      ? "/specialist/tasks"
-      : "/agency/tasks";
-
   const action = commentType === "APPROVAL" ? "approved" : "requested revisions on";
-  await prisma.notification.create({
-    data: {
-      userId: assigneeId,
-      agencyId: task.agencyId ?? null,
-      type: "task_activity",
-      title: `${actorName} ${action} "${task.title}"`,
-      message: body.length > 120 ? body.slice(0, 120) + "…" : body,
-      link: `${basePath}?taskId=${task.id}`,
-    },
-  }).catch((e) => console.warn("[Task] Assignee-only activity notification error", e?.message));
+  await deliverNotification({
+    event: "approvals",
+    userIds: [assigneeId],
+    agencyId: task.agencyId ?? null,
+    type: "task_activity",
+    title: `${actorName} ${action} "${task.title}"`,
+    message: body.length > 120 ? body.slice(0, 120) + "…" : body,
+    link: taskLinkFor(task.id),
+  });
 }
 
 async function notifyClientUsersTaskNeedsApproval(
@@ -542,42 +563,23 @@ async function notifyClientUsersTaskNeedsApproval(
 
   const recipients = await prisma.clientUser.findMany({
     where: { clientId: task.clientId, status: "ACTIVE" },
-    select: {
-      userId: true,
-      user: { select: { email: true } },
-    },
+    select: { userId: true },
   });
 
-  const recipientUserIds = recipients
-    .map((r) => r.userId)
-    .filter((userId) => userId !== requestedByUserId);
-
-  if (recipientUserIds.length > 0) {
-    await prisma.notification
-      .createMany({
-        data: recipientUserIds.map((userId) => ({
-          userId,
-          type: "task_activity",
-          title: `${requestedByName} requested approval for "${task.title}"`,
-          message: "This task is awaiting your approval.",
-          link: `/client/tasks?taskId=${task.id}`,
-        })),
-      })
-      .catch((e) => console.warn("[Task] Client approval notifications failed", e?.message));
-  }
-
-  const subject = `Approval needed: ${task.title}`;
-  const html = `<p><strong>${requestedByName}</strong> requested your approval for:</p>
+  await deliverNotification({
+    event: "approvals",
+    userIds: recipients.map((r) => r.userId).filter((userId) => userId !== requestedByUserId),
+    type: "task_activity",
+    title: `${requestedByName} requested approval for "${task.title}"`,
+    message: "This task is awaiting your approval.",
+    link: `/client/tasks?taskId=${task.id}`,
+    email: {
+      subject: `Approval needed: ${task.title}`,
+      html: `<p><strong>${requestedByName}</strong> requested your approval for:</p>
 <p><strong>${task.title}</strong></p>
-<p>Please review this task in the client dashboard.</p>`;
-  for (const r of recipients) {
-    if (r.userId === requestedByUserId) continue;
-    if (r.user.email) {
-      sendEmail({ to: r.user.email, subject, html }).catch((e) =>
-        console.warn("[Task] Client approval email failed", r.user.email, e?.message)
-      );
-    }
-  }
+<p>Please review this task in the client dashboard.</p>`,
+    },
+  });
 }
 
 async function createSelfTaskStatusNotification(params: {
@@ -593,25 +595,17 @@ async function createSelfTaskStatusNotification(params: {
   const { taskId, taskTitle, fromStatus, toStatus, actorId, actorName, actorRole, agencyId } = params;
   if (fromStatus === toStatus) return;
 
-  const link =
-    actorRole === "SPECIALIST"
-      ? `/specialist/tasks?taskId=${taskId}`
-      : actorRole === "USER"
-      ? `/client/tasks?taskId=${taskId}`
-      : `/agency/tasks?taskId=${taskId}`;
-
-  await prisma.notification
-    .create({
-      data: {
-        userId: actorId,
-        agencyId: agencyId ?? null,
-        type: "task_activity",
-        title: `${actorName} updated task status`,
-        message: `"${taskTitle}" moved from ${fromStatus} to ${toStatus}.`,
-        link,
-      },
-    })
-    .catch((e) => console.warn("[Task] Self status notification failed", e?.message));
+  // A receipt of the actor's own change: in-app only
+  await deliverNotification({
+    event: "task_activity",
+    userIds: [actorId],
+    agencyId: agencyId ?? null,
+    type: "task_activity",
+    title: `${actorName} updated task status`,
+    message: `"${taskTitle}" moved from ${fromStatus} to ${toStatus}.`,
+    link: `${taskBasePath(actorRole)}?taskId=${taskId}`,
+    channels: ["inApp"],
+  });
 }
 
 async function notifyClientUsersTaskStatusChanged(
@@ -643,55 +637,50 @@ async function notifyClientUsersTaskStatusChanged(
     return status.charAt(0) + status.slice(1).toLowerCase();
   };
 
-  await prisma.notification
-    .createMany({
-      data: recipientUserIds.map((userId) => ({
-        userId,
-        type: "task_activity",
-        title: `${updatedByName} updated "${task.title}" status`,
-        message: `Status changed from ${statusLabel(fromStatus)} to ${statusLabel(toStatus)}.`,
-        link: `/client/tasks?taskId=${task.id}`,
-      })),
-    })
-    .catch((e) => console.warn("[Task] Client status-change notifications failed", e?.message));
+  await deliverNotification({
+    event: "task_activity",
+    userIds: recipientUserIds,
+    type: "task_activity",
+    title: `${updatedByName} updated "${task.title}" status`,
+    message: `Status changed from ${statusLabel(fromStatus)} to ${statusLabel(toStatus)}.`,
+    link: `/client/tasks?taskId=${task.id}`,
+  });
 }
 
-/** Advance nextRunAt by one interval based on frequency and day settings */
-function addRecurrenceInterval(from: Date, frequency: string, dayOfWeek: number | null, dayOfMonth: number | null): Date {
-  const next = new Date(from);
+/**
+ * Advance nextRunAt by one interval based on frequency and day settings.
+ * Calendar math runs in the rule's timezone so the task keeps its wall-clock time across DST changes.
+ */
+function addRecurrenceInterval(
+  from: Date,
+  frequency: string,
+  dayOfWeek: number | null,
+  dayOfMonth: number | null,
+  timeZone: string | null
+): Date {
+  const zone = resolveTimeZone(timeZone);
+  const start = getZonedParts(from, zone);
+  const at = (date: { year: number; month: number; day: number }) =>
+    zonedTimeToUtc({ ...date, hour: start.hour, minute: start.minute }, zone);
+  const addMonths = (months: number) => {
+    const next = addCalendarMonths(start, months);
+    if (dayOfMonth == null) return at(next);
+    return at({ ...next, day: Math.min(dayOfMonth, daysInMonth(next.year, next.month)) });
+  };
+
   switch (frequency) {
     case "WEEKLY": {
-      next.setDate(next.getDate() + 7);
-      if (dayOfWeek != null) next.setDate(next.getDate() - next.getDay() + dayOfWeek);
-      return next;
-    }
-    case "MONTHLY": {
-      next.setMonth(next.getMonth() + 1);
-      if (dayOfMonth != null) {
-        const lastDay = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
-        next.setDate(Math.min(dayOfMonth, lastDay));
-      }
-      return next;
-    }
-    case "QUARTERLY": {
-      next.setMonth(next.getMonth() + 3);
-      if (dayOfMonth != null) {
-        const lastDay = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
-        next.setDate(Math.min(dayOfMonth, lastDay));
-      }
-      return next;
-    }
-    case "SEMIANNUAL": {
-      next.setMonth(next.getMonth() + 6);
-      if (dayOfMonth != null) {
-        const lastDay = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
-        next.setDate(Math.min(dayOfMonth, lastDay));
-      }
-      return next;
-    }
+      const nextWeek = addCalendarDays(start, 7);
+      return at(dayOfWeek != null ? addCalendarDays(nextWeek, dayOfWeek - start.weekday) : nextWeek);
+    }
+    case "MONTHLY":
+      return addMonths(1);
+    case "QUARTERLY":
+      return addMonths(3);
+    case "SEMIANNUAL":
+      return addMonths(6);
     default:
-      next.setMonth(next.getMonth() + 1);
-      return next;
+      return addMonths(1);
   }
 }
 
@@ -717,6 +706,40 @@ async function getTaskForAccess(taskId: string) {
   });
 }
 
+/**
+ * Checks a status or board column change against the task's agency workflow (allowed transitions, required fields,
+ * WIP limits). `fields` are the task's values after the update. Returns the status/column to write or why the move
+ * is not allowed.
+ */
+async function resolveWorkflowMove(
+  task: { id: string; agencyId: string | null; status: TaskStatus; workflowColumnId: string | null },
+  target: { status?: TaskStatus; columnKey?: string },
+  fields: WorkflowTaskFields
+): Promise<{ status: TaskStatus; workflowColumnId: string | null } | { error: string }> {
+  const customColumns = await getAgencyWorkflowColumns(task.agencyId);
+  const columns = customColumns ?? DEFAULT_TASK_WORKFLOW;
+  if (!target.columnKey && (!target.status || target.status === task.status)) {
+    return { status: task.status, workflowColumnId: task.workflowColumnId };
+  }
+
+  const to = target.columnKey
+    ? columns.find((c) => c.key === target.columnKey)
+    : columns.find((c) => c.coreStatus === target.status);
+  if (!to) {
+    if (target.columnKey) return { error: "Unknown workflow column" };
+    // Statuses without a board column (e.g. CANCELLED) are not subject to workflow rules.
+    return { status: target.status!, workflowColumnId: null };
+  }
+
+  const tasksInTarget =
+    customColumns && task.agencyId && to.wipLimit != null
+      ? await countTasksInWorkflowColumn(task.agencyId, customColumns, to, task.id)
+      : 0;
+  const error = checkWorkflowTransition({ from: resolveTaskColumn(columns, task), to, task: fields, tasksInTarget });
+  if (error) return { error };
+  return { status: to.coreStatus, workflowColumnId: to.id };
+}
+
 function canAccessTask(user: any, task: any) {
   // Specialist: only tasks assigned to them (receive, not assign)
   if (user.role === "SPECIALIST") {
@@ -737,6 +760,13 @@ router.get("/", authenticateToken, async (req, res) => {
     const clientIdParam = typeof req.query.clientId === "string" ? req.query.clientId : undefined;
     const assigneeMe = req.query.assigneeMe === "true" || req.query.assigneeMe === "1";
 
+    // Members limited to specific clients only see tasks for those clients (and tasks without a client)
+    const allowedClientIds =
+      req.user.role === "SPECIALIST" || req.user.role === "AGENCY"
+        ? restrictedClientIds(await loadAgencyAccess(req.user))
+        : null;
+    const clientRestriction = allowedClientIds ? { OR: [{ clientId: null }, { clientId: { in: allowedClientIds } }] } : {};
+
     // Specialist: only tasks assigned to them (own task list)
     if (req.user.role === "SPECIALIST") {
       const tasks = await prisma.task.findMany({
@@ -744,11 +774,12 @@ router.get("/", authenticateToken, async (req, res) => {
           assigneeId: req.user.userId,
           status: { not: "CANCELLED" },
           ...(clientIdParam ? { clientId: clientIdParam } : {}),
+          ...clientRestriction,
         },
         include: taskInclude,
         orderBy: { createdAt: "desc" },
       });
-      return res.json(tasks);
+      return res.json(tasks.map(serializeTask));
     }
 
     // Client portal users: only tasks for clients they have access to
@@ -767,7 +798,7 @@ router.get("/", authenticateToken, async (req, res) => {
         include: taskInclude,
         orderBy: { createdAt: "desc" },
       });
-      return res.json(tasks);
+      return res.json(tasks.map(serializeTask));
     }
 
     let tasks;
@@ -795,13 +826,14 @@ router.get("/", authenticateToken, async (req, res) => {
         where: {
           agencyId: { in: agencyIds },
           ...(clientIdParam ? { clientId: clientIdParam } : {}),
+          ...clientRestriction,
         },
         include: taskInclude,
         orderBy: { createdAt: "desc" },
       });
     }
 
-    res.json(tasks);
+    res.json(tasks.map(serializeTask));
   } catch (error) {
     console.error("Fetch tasks error:", error);
     res.status(500).json({ message: "Internal server error" });
@@ -1054,49 +1086,50 @@ router.get("/activity-collaborators", authenticateToken, async (req, res) => {
   }
 });
 
+/** Work log access: admins, the client owner, members of the client's agency and active client portal users. */
+async function getClientWorkLogAccess(user: { userId: string; role: string }, clientId: string) {
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    include: {
+      user: { include: { memberships: { select: { agencyId: true } } } },
+    },
+  });
+  if (!client) return { client: null, hasAccess: false };
+
+  const isAdmin = user.role === "ADMIN" || user.role === "SUPER_ADMIN";
+  const isOwner = client.userId === user.userId;
+  let hasAccess = isAdmin || isOwner;
+  if (!hasAccess) {
+    const memberships = await prisma.userAgency.findMany({
+      where: { userId: user.userId },
+      select: { agencyId: true },
+    });
+    const userAgencyIds = memberships.map((m) => m.agencyId);
+    const sharedAgencyId = client.user.memberships.map((m) => m.agencyId).find((id) => userAgencyIds.includes(id));
+    // Members limited to specific clients (custom per-client access) see nothing else
+    hasAccess = sharedAgencyId ? canAccessClient(await loadAgencyAccess(user, sharedAgencyId), clientId) : false;
+  }
+  if (!hasAccess) {
+    const clientUser = await prisma.clientUser.findFirst({
+      where: { clientId, userId: user.userId, status: "ACTIVE" },
+      select: { id: true },
+    });
+    hasAccess = Boolean(clientUser);
+  }
+  return { client, hasAccess };
+}
+
 // Work log for a client (tasks associated with clientId)
 // IMPORTANT: This route must be before "/:id"
 router.get("/worklog/:clientId", authenticateToken, async (req, res) => {
   try {
     const { clientId } = req.params;
 
-    const client = await prisma.client.findUnique({
-      where: { id: clientId },
-      include: {
-        user: {
-          include: {
-            memberships: { select: { agencyId: true } },
-          },
-        },
-      },
-    });
-
-    if (!client) {
+    const access = await getClientWorkLogAccess(req.user, clientId);
+    if (!access.client) {
       return res.status(404).json({ message: "Client not found" });
     }
-
-    const isAdmin = req.user.role === "ADMIN" || req.user.role === "SUPER_ADMIN";
-    const isOwner = client.userId === req.user.userId;
-
-    let hasAccess = isAdmin || isOwner;
-    if (!hasAccess) {
-      const memberships = await prisma.userAgency.findMany({
-        where: { userId: req.user.userId },
-        select: { agencyId: true },
-      });
-      const userAgencyIds = memberships.map((m) => m.agencyId);
-      const clientAgencyIds = client.user.memberships.map((m) => m.agencyId);
-      hasAccess = clientAgencyIds.some((id) => userAgencyIds.includes(id));
-    }
-    if (!hasAccess) {
-      const clientUser = await prisma.clientUser.findFirst({
-        where: { clientId, userId: req.user.userId, status: "ACTIVE" },
-        select: { id: true },
-      });
-      hasAccess = Boolean(clientUser);
-    }
-
-    if (!hasAccess) {
+    if (!access.hasAccess) {
       return res.status(403).json({ message: "Access denied" });
     }
 
@@ -1111,6 +1144,7 @@ router.get("/worklog/:clientId", authenticateToken, async (req, res) => {
         category: true,
         status: true,
         dueDate: true,
+        estimatedHours: true,
         proof: true,
         approvalNotifyUserIds: true,
         createdAt: true,
@@ -1120,7 +1154,15 @@ router.get("/worklog/:clientId", authenticateToken, async (req, res) => {
       },
     });
 
-    return res.json(tasks);
+    // Finished entries only; a running timer shows up once it is stopped.
+    const loggedByTask = await prisma.taskTimeEntry.groupBy({
+      by: ["taskId"],
+      where: { taskId: { in: tasks.map((t) => t.id) }, durationMinutes: { not: null } },
+      _sum: { durationMinutes: true },
+    });
+    const loggedMinutes = new Map(loggedByTask.map((row) => [row.taskId, row._sum.durationMinutes ?? 0]));
+
+    return res.json(tasks.map((t) => ({ ...t, loggedMinutes: loggedMinutes.get(t.id) ?? 0 })));
   } catch (error) {
     console.error("Fetch client work log error:", error);
     res.status(500).json({ message: "Internal server error" });
@@ -1131,33 +1173,8 @@ router.get("/worklog/:clientId", authenticateToken, async (req, res) => {
 router.get("/worklog/:clientId/approval-recipients", authenticateToken, async (req, res) => {
   try {
     const { clientId } = req.params;
-    const client = await prisma.client.findUnique({
-      where: { id: clientId },
-      include: {
-        user: { include: { memberships: { select: { agencyId: true } } } },
-      },
-    });
+    const { client, hasAccess } = await getClientWorkLogAccess(req.user, clientId);
     if (!client) return res.status(404).json({ message: "Client not found" });
-
-    const isAdmin = req.user.role === "ADMIN" || req.user.role === "SUPER_ADMIN";
-    const isOwner = client.userId === req.user.userId;
-    let hasAccess = isAdmin || isOwner;
-    if (!hasAccess) {
-      const memberships = await prisma.userAgency.findMany({
-        where: { userId: req.user.userId },
-        select: { agencyId: true },
-      });
-      const userAgencyIds = memberships.map((m) => m.agencyId);
-      const clientAgencyIds = client.user.memberships.map((m) => m.agencyId);
-      hasAccess = clientAgencyIds.some((id) => userAgencyIds.includes(id));
-    }
-    if (!hasAccess) {
-      const clientUser = await prisma.clientUser.findFirst({
-        where: { clientId, userId: req.user.userId, status: "ACTIVE" },
-        select: { id: true },
-      });
-      hasAccess = Boolean(clientUser);
-    }
     if (!hasAccess) return res.status(403).json({ message: "Access denied" });
 
     const agencyId = client.belongsToAgencyId ?? client.user.memberships[0]?.agencyId ?? null;
@@ -1186,6 +1203,273 @@ router.get("/worklog/:clientId/approval-recipients", authenticateToken, async (r
   }
 });
 
+// Monthly hours logged on a client's tasks against the plan's technicalHoursPerMonth (?month=YYYY-MM, ?format=csv)
+// IMPORTANT: This route must be before "/:id"
+router.get("/hours-report/:clientId", authenticateToken, async (req, res) => {
+  try {
+    const { clientId } = req.params;
+    const { client, hasAccess } = await getClientWorkLogAccess(req.user, clientId);
+    if (!client) return res.status(404).json({ message: "Client not found" });
+    if (!hasAccess) return res.status(403).json({ message: "Access denied" });
+
+    if (req.query.format === "csv") {
+      const { range, entries } = await getClientMonthTimeEntries(clientId, req.query.month);
+      const slug = client.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "client";
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="hours-${slug}-${range.month}.csv"`);
+      return res.send(timeEntriesToCsv(entries));
+    }
+
+    return res.json(await getClientMonthlyHours(clientId, req.query.month));
+  } catch (error) {
+    console.error("Hours report error:", error);
+    res.status(500).json({ message: "Failed to load hours report" });
+  }
+});
+
+// Onboarding timeline for a client: one bar per open or finished task, starting when its blockers are due
+// IMPORTANT: This route must be before "/:id"
+router.get("/timeline/:clientId", authenticateToken, async (req, res) => {
+  try {
+    const { clientId } = req.params;
+    const { client, hasAccess } = await getClientWorkLogAccess(req.user, clientId);
+    if (!client) return res.status(404).json({ message: "Client not found" });
+    if (!hasAccess) return res.status(403).json({ message: "Access denied" });
+
+    const tasks = await prisma.task.findMany({
+      where: { clientId, status: { not: "CANCELLED" } },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        category: true,
+        createdAt: true,
+        dueDate: true,
+        blockedBy: { select: { blockedById: true } },
+      },
+    });
+    const rows = buildTimelineRows(
+      tasks.map(({ blockedBy, ...task }) => ({ ...task, blockedByIds: blockedBy.map((d) => d.blockedById) }))
+    );
+    return res.json({ today: new Date().toISOString().slice(0, 10), rows });
+  } catch (error) {
+    console.error("Client timeline error:", error);
+    res.status(500).json({ message: "Failed to load timeline" });
+  }
+});
+
+// ---------- Client approvals ----------
+
+type AccessibleTask = NonNullable<Awaited<ReturnType<typeof getTaskForAccess>>>;
+
+async function getApprovalActor(req: express.Request): Promise<ApprovalActor> {
+  const user = await prisma.user.findUnique({
+    where: { id: req.user.userId },
+    select: { name: true, email: true },
+  });
+  const { ipAddress, userAgent } = sessionMetaFromRequest(req);
+  return { userId: req.user.userId, name: user?.name ?? null, email: user?.email ?? req.user.email, ipAddress, userAgent };
+}
+
+/**
+ * Applies a client's decision on a task awaiting approval: approved tasks are done, revision requests go back to
+ * in progress. Adds the activity entry and notifies the assignee; the signed approval record is written by the caller.
+ */
+async function applyApprovalDecision(
+  task: AccessibleTask,
+  decision: TaskApprovalDecision,
+  comment: string | null,
+  actor: ApprovalActor
+) {
+  const approved = decision === "APPROVED";
+  const updated = await prisma.task.update({
+    where: { id: task.id },
+    data: { status: approved ? "DONE" : "IN_PROGRESS" },
+    include: taskInclude,
+  });
+
+  const body = approved ? (comment ? `Approved with note: ${comment}` : "Approved this task.") : comment || "Requested revisions.";
+  await prisma.taskComment.create({
+    data: {
+      taskId: task.id,
+      authorId: actor.userId,
+      body,
+      type: approved ? "APPROVAL" : "REVISION_REQUEST",
+    },
+  });
+
+  // Client-side approval action: notify only the task assignee.
+  notifyTaskAssigneeOnlyActivity(
+    { id: task.id, title: task.title, agencyId: task.agencyId, assigneeId: task.assigneeId },
+    actor.userId,
+    actor.name || actor.email || "Someone",
+    approved ? "APPROVAL" : "REVISION_REQUEST",
+    body
+  ).catch((e) => console.warn("[Task] Approval decision assignee notification error", e?.message));
+
+  if (approved) emitTaskStatusWebhook(updated, task.status, actor.userId);
+  return updated;
+}
+
+// Tasks awaiting the caller's approval. Client portal users see every client they belong to (optionally ?clientId=);
+// agency staff pass ?clientId= to preview a client's inbox.
+// IMPORTANT: This route must be before "/:id"
+router.get("/approvals/inbox", authenticateToken, async (req, res) => {
+  try {
+    const clientIdParam = typeof req.query.clientId === "string" && req.query.clientId ? req.query.clientId : undefined;
+    let clientIds: string[];
+    if (req.user.role === "USER") {
+      const memberships = await prisma.clientUser.findMany({
+        where: { userId: req.user.userId, status: "ACTIVE" },
+        select: { clientId: true },
+      });
+      clientIds = memberships.map((m) => m.clientId).filter((id) => !clientIdParam || id === clientIdParam);
+    } else {
+      if (!clientIdParam) return res.status(400).json({ message: "clientId is required" });
+      const { client, hasAccess } = await getClientWorkLogAccess(req.user, clientIdParam);
+      if (!client) return res.status(404).json({ message: "Client not found" });
+      if (!hasAccess) return res.status(403).json({ message: "Access denied" });
+      clientIds = [clientIdParam];
+    }
+    if (clientIds.length === 0) return res.json([]);
+
+    const tasks = await prisma.task.findMany({
+      where: { clientId: { in: clientIds }, status: "NEEDS_APPROVAL" },
+      orderBy: [{ updatedAt: "asc" }],
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        category: true,
+        dueDate: true,
+        proof: true,
+        updatedAt: true,
+        client: { select: { id: true, name: true, domain: true } },
+        assignee: { select: { id: true, name: true, email: true } },
+      },
+    });
+    return res.json(tasks);
+  } catch (error) {
+    console.error("Approval inbox error:", error);
+    res.status(500).json({ message: "Failed to load approvals" });
+  }
+});
+
+// Approve or request revisions on several tasks at once; the comment is required and signed with every record
+router.post("/approvals/batch", authenticateToken, async (req, res) => {
+  try {
+    const body = z
+      .object({
+        taskIds: z.array(z.string().min(1)).min(1).max(100),
+        decision: z.enum(["APPROVED", "REVISIONS_REQUESTED"]),
+        comment: z.string().trim().min(1, "A comment is required").max(5000),
+      })
+      .parse(req.body);
+
+    const tasks: AccessibleTask[] = [];
+    for (const taskId of Array.from(new Set(body.taskIds))) {
+      const task = await getTaskForAccess(taskId);
+      if (!task) return res.status(404).json({ message: "Task not found" });
+      if (!canAccessTask(req.user, task)) return res.status(403).json({ message: "Access denied" });
+      tasks.push(task);
+    }
+    const stale = tasks.filter((t) => t.status !== "NEEDS_APPROVAL");
+    if (stale.length > 0) {
+      return res.status(409).json({
+        message: `${stale.length} item${stale.length === 1 ? " is" : "s are"} no longer awaiting approval. Refresh and try again.`,
+      });
+    }
+
+    const actor = await getApprovalActor(req);
+    // Sign first: a task never changes state without its approval record.
+    const { batchId } = await recordApprovalDecisions(
+      tasks.map((task) => ({ task, decision: body.decision, comment: body.comment })),
+      actor
+    );
+    const updated = [];
+    for (const task of tasks) {
+      updated.push(await applyApprovalDecision(task, body.decision, body.comment, actor));
+    }
+
+    return res.json({ batchId, count: updated.length, tasks: updated.map(serializeTask) });
+  } catch (error) {
+    console.error("Batch approval error:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: error.errors[0]?.message || "Invalid data", errors: error.errors });
+    }
+    return res.status(500).json({ message: "Failed to save approvals" });
+  }
+});
+
+// Signed approval records for a client (newest first) and whether the chain still verifies
+// IMPORTANT: This route must be before "/:id"
+router.get("/approvals/history/:clientId", authenticateToken, async (req, res) => {
+  try {
+    const { clientId } = req.params;
+    const { client, hasAccess } = await getClientWorkLogAccess(req.user, clientId);
+    if (!client) return res.status(404).json({ message: "Client not found" });
+    if (!hasAccess) return res.status(403).json({ message: "Access denied" });
+
+    const { records, integrity } = await getClientApprovalTrail(clientId);
+    return res.json({
+      integrity,
+      records: records.reverse().map(({ proofSnapshot: _proofSnapshot, ...record }) => record),
+    });
+  } catch (error) {
+    console.error("Approval history error:", error);
+    res.status(500).json({ message: "Failed to load approval history" });
+  }
+});
+
+// Approval certificate (PDF) for one batch of decisions
+// IMPORTANT: This route must be before "/:id"
+router.get("/approvals/certificate/:batchId", authenticateToken, async (req, res) => {
+  try {
+    const records = await prisma.taskApprovalRecord.findMany({
+      where: { batchId: req.params.batchId },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    });
+    if (records.length === 0) return res.status(404).json({ message: "Approval not found" });
+
+    const clientIds = Array.from(new Set(records.map((r) => r.clientId)));
+    const clientNames: string[] = [];
+    const integrity = { valid: true, checked: 0, brokenRecordIds: [] as string[] };
+    for (const clientId of clientIds) {
+      if (clientId) {
+        const { client, hasAccess } = await getClientWorkLogAccess(req.user, clientId);
+        if (!client || !hasAccess) return res.status(403).json({ message: "Access denied" });
+        clientNames.push(client.name);
+        const trail = await getClientApprovalTrail(clientId);
+        integrity.valid &&= trail.integrity.valid;
+        integrity.checked += trail.integrity.checked;
+        integrity.brokenRecordIds.push(...trail.integrity.brokenRecordIds);
+      } else {
+        const isAdmin = req.user.role === "ADMIN" || req.user.role === "SUPER_ADMIN";
+        if (!isAdmin && records.some((r) => r.clientId === null && r.userId !== req.user.userId)) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        const orphans = await prisma.taskApprovalRecord.findMany({ where: { clientId: null } });
+        const check = verifyApprovalChain(null, orphans);
+        integrity.valid &&= check.valid;
+        integrity.checked += check.checked;
+        integrity.brokenRecordIds.push(...check.brokenRecordIds);
+      }
+    }
+
+    const pdf = await generateApprovalCertificatePdfBuffer({
+      records,
+      clientName: clientNames.join(", ") || null,
+      integrity,
+    });
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="approval-certificate-${records[0].createdAt.toISOString().slice(0, 10)}.pdf"`);
+    return res.send(pdf);
+  } catch (error) {
+    console.error("Approval certificate error:", error);
+    res.status(500).json({ message: "Failed to generate approval certificate" });
+  }
+});
+
 // ---------- Recurring task rules ----------
 const recurringAllowedRoles: Role[] = ["SUPER_ADMIN", "ADMIN", "AGENCY", "SPECIALIST", "USER"];
 const recurringCreateAllowedRoles: Role[] = ["SUPER_ADMIN", "ADMIN", "AGENCY"];
@@ -1334,6 +1618,7 @@ router.post("/recurring", authenticateToken, async (req, res) => {
         dayOfWeek: parsed.dayOfWeek ?? null,
         dayOfMonth: parsed.dayOfMonth ?? null,
         nextRunAt: parsed.firstRunAt,
+        timeZone: parsed.timeZone ?? (await resolveDefaultTimeZone({ clientId: parsed.clientId, agencyId })),
         isActive: true,
       },
       include: { createdBy: { select: { id: true, name: true, email: true } } },
@@ -1382,6 +1667,7 @@ router.put("/recurring/:id", authenticateToken, async (req, res) => {
     if (parsed.frequency !== undefined) data.frequency = parsed.frequency;
     if (parsed.dayOfWeek !== undefined) data.dayOfWeek = parsed.dayOfWeek;
     if (parsed.dayOfMonth !== undefined) data.dayOfMonth = parsed.dayOfMonth;
+    if (parsed.timeZone !== undefined) data.timeZone = parsed.timeZone;
     data.nextRunAt = nextRun;
 
     const updated = await prisma.recurringTaskRule.update({
@@ -1481,6 +1767,327 @@ router.delete("/recurring/:id", authenticateToken, async (req, res) => {
   }
 });
 
+// ---------- Time tracking ----------
+// IMPORTANT: Must be before "/:id"
+const timeTrackingRoles: Role[] = ["SUPER_ADMIN", "ADMIN", "AGENCY", "SPECIALIST"];
+const timeEntryManagerRoles: Role[] = ["SUPER_ADMIN", "ADMIN", "AGENCY"];
+
+const manualTimeEntrySchema = z.object({
+  startedAt: z.coerce.date(),
+  durationMinutes: z.number().int().positive().max(TIME_ENTRY_MAX_MINUTES),
+  notes: z.string().max(2000).optional(),
+  billable: z.boolean().optional(),
+});
+
+const updateTimeEntrySchema = z.object({
+  startedAt: z.coerce.date().optional(),
+  durationMinutes: z.number().int().positive().max(TIME_ENTRY_MAX_MINUTES).optional(),
+  notes: z.string().max(2000).nullable().optional(),
+  billable: z.boolean().optional(),
+});
+
+const timeEntrySelect = {
+  id: true,
+  taskId: true,
+  userId: true,
+  startedAt: true,
+  endedAt: true,
+  durationMinutes: true,
+  notes: true,
+  billable: true,
+  source: true,
+  createdAt: true,
+  user: { select: { id: true, name: true, email: true } },
+} as const;
+
+/** Closes a running timer, capping its length at TIME_ENTRY_MAX_MINUTES. */
+async function stopTimeEntry(entry: { id: string; startedAt: Date }) {
+  const endedAt = new Date();
+  return prisma.taskTimeEntry.update({
+    where: { id: entry.id },
+    data: { endedAt, durationMinutes: getTimeEntryMinutes({ startedAt: entry.startedAt, endedAt, durationMinutes: null, billable: true }, endedAt) },
+    select: timeEntrySelect,
+  });
+}
+
+async function loadTaskForTimeTracking(req: express.Request, res: express.Response, opts?: { write?: boolean }) {
+  const task = await getTaskForAccess(req.params.id);
+  if (!task) {
+    res.status(404).json({ message: "Task not found" });
+    return null;
+  }
+  if (!canAccessTask(req.user, task) || (opts?.write && !timeTrackingRoles.includes(req.user.role as Role))) {
+    res.status(403).json({ message: "Access denied" });
+    return null;
+  }
+  return task;
+}
+
+// Time entries for a task, with estimated vs actual totals and the caller's running timer
+router.get("/:id/time-entries", authenticateToken, async (req, res) => {
+  try {
+    const task = await loadTaskForTimeTracking(req, res);
+    if (!task) return;
+    const entries = await prisma.taskTimeEntry.findMany({
+      where: { taskId: task.id },
+      orderBy: { startedAt: "desc" },
+      select: timeEntrySelect,
+    });
+    const now = new Date();
+    const summary = summarizeTimeEntries(
+      entries.map((e) => ({ ...e, task: { title: task.title, estimatedHours: task.estimatedHours } })),
+      now
+    );
+    return res.json({
+      estimatedHours: task.estimatedHours,
+      totalMinutes: summary.totalMinutes,
+      billableMinutes: summary.billableMinutes,
+      byUser: summary.byUser,
+      runningEntry: entries.find((e) => e.endedAt == null && e.userId === req.user.userId) ?? null,
+      entries: entries.map((e) => ({ ...e, minutes: getTimeEntryMinutes(e, now) })),
+    });
+  } catch (error) {
+    console.error("Fetch time entries error:", error);
+    return res.status(500).json({ message: "Failed to fetch time entries" });
+  }
+});
+
+// Start a timer; a timer the user has running on another task is stopped first
+router.post("/:id/time-entries/start", authenticateToken, async (req, res) => {
+  try {
+    const task = await loadTaskForTimeTracking(req, res, { write: true });
+    if (!task) return;
+    const running = await prisma.taskTimeEntry.findFirst({
+      where: { userId: req.user.userId, endedAt: null },
+      select: { id: true, taskId: true, startedAt: true },
+    });
+    if (running?.taskId === task.id) {
+      return res.status(409).json({ message: "A timer is already running on this task" });
+    }
+    const stopped = running ? await stopTimeEntry(running) : null;
+    const entry = await prisma.taskTimeEntry.create({
+      data: { taskId: task.id, userId: req.user.userId, startedAt: new Date(), source: "TIMER" },
+      select: timeEntrySelect,
+    });
+    return res.status(201).json({ entry, stoppedEntry: stopped });
+  } catch (error) {
+    console.error("Start timer error:", error);
+    return res.status(500).json({ message: "Failed to start timer" });
+  }
+});
+
+router.post("/:id/time-entries/stop", authenticateToken, async (req, res) => {
+  try {
+    const task = await loadTaskForTimeTracking(req, res, { write: true });
+    if (!task) return;
+    const running = await prisma.taskTimeEntry.findFirst({
+      where: { taskId: task.id, userId: req.user.userId, endedAt: null },
+      select: { id: true, startedAt: true },
+    });
+    if (!running) return res.status(404).json({ message: "No timer is running on this task" });
+    const entry = await stopTimeEntry(running);
+    if (typeof req.body?.notes === "string" && req.body.notes.trim()) {
+      const withNotes = await prisma.taskTimeEntry.update({
+        where: { id: entry.id },
+        data: { notes: req.body.notes.trim().slice(0, 2000) },
+        select: timeEntrySelect,
+      });
+      return res.json(withNotes);
+    }
+    return res.json(entry);
+  } catch (error) {
+    console.error("Stop timer error:", error);
+    return res.status(500).json({ message: "Failed to stop timer" });
+  }
+});
+
+// Manual time entry
+router.post("/:id/time-entries", authenticateToken, async (req, res) => {
+  try {
+    const task = await loadTaskForTimeTracking(req, res, { write: true });
+    if (!task) return;
+    const body = manualTimeEntrySchema.parse(req.body);
+    if (body.startedAt.getTime() > Date.now()) {
+      return res.status(400).json({ message: "Time can't be logged in the future" });
+    }
+    const entry = await prisma.taskTimeEntry.create({
+      data: {
+        taskId: task.id,
+        userId: req.user.userId,
+        startedAt: body.startedAt,
+        endedAt: new Date(body.startedAt.getTime() + body.durationMinutes * 60_000),
+        durationMinutes: body.durationMinutes,
+        notes: body.notes?.trim() || null,
+        billable: body.billable ?? true,
+        source: "MANUAL",
+      },
+      select: timeEntrySelect,
+    });
+    return res.status(201).json(entry);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid data", errors: error.errors });
+    }
+    console.error("Create time entry error:", error);
+    return res.status(500).json({ message: "Failed to log time" });
+  }
+});
+
+// Edit or delete an entry: your own, or anyone's for agency owners and admins
+router.patch("/:id/time-entries/:entryId", authenticateToken, async (req, res) => {
+  try {
+    const task = await loadTaskForTimeTracking(req, res, { write: true });
+    if (!task) return;
+    const existing = await prisma.taskTimeEntry.findFirst({ where: { id: req.params.entryId, taskId: task.id } });
+    if (!existing) return res.status(404).json({ message: "Time entry not found" });
+    if (existing.userId !== req.user.userId && !timeEntryManagerRoles.includes(req.user.role as Role)) {
+      return res.status(403).json({ message: "You can only edit your own time entries" });
+    }
+    const body = updateTimeEntrySchema.parse(req.body);
+    if (existing.endedAt == null && (body.durationMinutes !== undefined || body.startedAt !== undefined)) {
+      return res.status(400).json({ message: "Stop the timer before changing its time" });
+    }
+    const startedAt = body.startedAt ?? existing.startedAt;
+    const durationMinutes = body.durationMinutes ?? existing.durationMinutes;
+    const entry = await prisma.taskTimeEntry.update({
+      where: { id: existing.id },
+      data: {
+        ...(body.notes !== undefined ? { notes: body.notes?.trim() || null } : {}),
+        ...(body.billable !== undefined ? { billable: body.billable } : {}),
+        ...(body.startedAt !== undefined || body.durationMinutes !== undefined
+          ? {
+              startedAt,
+              durationMinutes,
+              endedAt: new Date(startedAt.getTime() + (durationMinutes ?? 0) * 60_000),
+            }
+          : {}),
+      },
+      select: timeEntrySelect,
+    });
+    return res.json(entry);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid data", errors: error.errors });
+    }
+    console.error("Update time entry error:", error);
+    return res.status(500).json({ message: "Failed to update time entry" });
+  }
+});
+
+router.delete("/:id/time-entries/:entryId", authenticateToken, async (req, res) => {
+  try {
+    const task = await loadTaskForTimeTracking(req, res, { write: true });
+    if (!task) return;
+    const existing = await prisma.taskTimeEntry.findFirst({
+      where: { id: req.params.entryId, taskId: task.id },
+      select: { id: true, userId: true },
+    });
+    if (!existing) return res.status(404).json({ message: "Time entry not found" });
+    if (existing.userId !== req.user.userId && !timeEntryManagerRoles.includes(req.user.role as Role)) {
+      return res.status(403).json({ message: "You can only delete your own time entries" });
+    }
+    await prisma.taskTimeEntry.delete({ where: { id: existing.id } });
+    return res.json({ success: true });
+  } catch (error) {
+    console.error("Delete time entry error:", error);
+    return res.status(500).json({ message: "Failed to delete time entry" });
+  }
+});
+
+// ---------- Task dependencies ----------
+
+const dependencyEditorRoles: Role[] = ["SUPER_ADMIN", "ADMIN", "AGENCY"];
+
+const dependencyTaskSelect = { id: true, title: true, status: true, dueDate: true } as const;
+
+async function loadTaskForDependencies(req: express.Request, res: express.Response, opts?: { write?: boolean }) {
+  const task = await getTaskForAccess(req.params.id);
+  if (!task) {
+    res.status(404).json({ message: "Task not found" });
+    return null;
+  }
+  if (!canAccessTask(req.user, task) || (opts?.write && !dependencyEditorRoles.includes(req.user.role as Role))) {
+    res.status(403).json({ message: "Access denied" });
+    return null;
+  }
+  return task;
+}
+
+// Tasks this task waits on, and tasks waiting on it
+router.get("/:id/dependencies", authenticateToken, async (req, res) => {
+  try {
+    const task = await loadTaskForDependencies(req, res);
+    if (!task) return;
+    const [blockedBy, blocking] = await Promise.all([
+      prisma.taskDependency.findMany({
+        where: { taskId: task.id },
+        select: { blockedBy: { select: dependencyTaskSelect } },
+        orderBy: { createdAt: "asc" },
+      }),
+      prisma.taskDependency.findMany({
+        where: { blockedById: task.id },
+        select: { task: { select: dependencyTaskSelect } },
+        orderBy: { createdAt: "asc" },
+      }),
+    ]);
+    const blockers = blockedBy.map((d) => d.blockedBy);
+    return res.json({ blockedBy: blockers, blocking: blocking.map((d) => d.task), isBlocked: isBlockedBy(blockers) });
+  } catch (error) {
+    console.error("Get task dependencies error:", error);
+    return res.status(500).json({ message: "Failed to load dependencies" });
+  }
+});
+
+// Make this task wait on another task of the same agency
+router.post("/:id/dependencies", authenticateToken, async (req, res) => {
+  try {
+    const task = await loadTaskForDependencies(req, res, { write: true });
+    if (!task) return;
+    const { blockedById } = z.object({ blockedById: z.string().min(1) }).parse(req.body);
+
+    if (blockedById === task.id) return res.status(400).json({ message: "A task cannot block itself" });
+    const blocker = await getTaskForAccess(blockedById);
+    if (!blocker || !canAccessTask(req.user, blocker) || blocker.agencyId !== task.agencyId) {
+      return res.status(404).json({ message: "Blocking task not found" });
+    }
+
+    const edges = await prisma.taskDependency.findMany({
+      where: { task: { agencyId: task.agencyId } },
+      select: { taskId: true, blockedById: true },
+    });
+    if (edges.some((e) => e.taskId === task.id && e.blockedById === blockedById)) {
+      return res.status(409).json({ message: "This dependency already exists" });
+    }
+    if (wouldCreateDependencyCycle(edges, task.id, blockedById)) {
+      return res.status(400).json({ message: `"${blocker.title}" already waits on this task` });
+    }
+
+    await prisma.taskDependency.create({ data: { taskId: task.id, blockedById } });
+    return res.status(201).json({ blockedBy: { id: blocker.id, title: blocker.title, status: blocker.status, dueDate: blocker.dueDate } });
+  } catch (error) {
+    console.error("Add task dependency error:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid data", errors: error.errors });
+    }
+    return res.status(500).json({ message: "Failed to add dependency" });
+  }
+});
+
+router.delete("/:id/dependencies/:blockedById", authenticateToken, async (req, res) => {
+  try {
+    const task = await loadTaskForDependencies(req, res, { write: true });
+    if (!task) return;
+    const { count } = await prisma.taskDependency.deleteMany({
+      where: { taskId: task.id, blockedById: req.params.blockedById },
+    });
+    if (count === 0) return res.status(404).json({ message: "Dependency not found" });
+    return res.json({ success: true });
+  } catch (error) {
+    console.error("Remove task dependency error:", error);
+    return res.status(500).json({ message: "Failed to remove dependency" });
+  }
+});
+
 // Task comments: list
 // IMPORTANT: Must be before "/:id"
 router.get("/:id/comments", authenticateToken, async (req, res) => {
@@ -1642,10 +2249,6 @@ router.post("/:id/comments", authenticateToken, async (req, res) => {
     // Collaborator workflow: once someone is @mentioned, they become a collaborator
     // and all collaborators get notified on every future activity comment.
     if (nextCollaboratorIds.length > 0) {
-      const collaborators = await prisma.user.findMany({
-        where: { id: { in: nextCollaboratorIds } },
-        select: { id: true, role: true },
-      });
       const actionMap: Record<string, string> = {
         COMMENT: "commented on",
         QUESTION: "asked a question on",
@@ -1654,25 +2257,15 @@ router.post("/:id/comments", authenticateToken, async (req, res) => {
         REVISION_REQUEST: "requested revisions on",
       };
       const action = actionMap[commentType] || "commented on";
-      const collaboratorNotifRows = collaborators.map((u) => {
-        const basePath =
-          u.role === "USER"
-            ? "/client/tasks"
-            : u.role === "SPECIALIST"
-            ? "/specialist/tasks"
-            : "/agency/tasks";
-        return {
-          userId: u.id,
-          agencyId: task.agencyId ?? null,
-          type: "task_activity",
-          title: `${author?.name || author?.email || "Someone"} ${action} "${task.title}"`,
-          message: body.length > 120 ? body.slice(0, 120) + "…" : body,
-          link: `${basePath}?taskId=${task.id}`,
-        };
+      await deliverNotification({
+        event: taskCommentEvent(commentType),
+        userIds: nextCollaboratorIds,
+        agencyId: task.agencyId ?? null,
+        type: "task_activity",
+        title: `${author?.name || author?.email || "Someone"} ${action} "${task.title}"`,
+        message: body.length > 120 ? body.slice(0, 120) + "…" : body,
+        link: taskLinkFor(task.id),
       });
-      await prisma.notification
-        .createMany({ data: collaboratorNotifRows })
-        .catch((e) => console.warn("[Task] Collaborator notification error", e?.message));
     } else {
       // No collaborators yet -> keep existing default routing.
       createTaskActivityNotifications(
@@ -1789,7 +2382,7 @@ router.get("/:id", authenticateToken, async (req, res) => {
 
     // strip heavy agency.members from response
     const { agency, ...rest } = task;
-    return res.json({ ...rest, agency: agency ? { id: agency.id, name: agency.name } : null });
+    return res.json(serializeTask({ ...rest, agency: agency ? { id: agency.id, name: agency.name } : null }));
   } catch (error) {
     console.error("Get task error:", error);
     res.status(500).json({ message: "Internal server error" });
@@ -1872,11 +2465,11 @@ router.post("/", authenticateToken, async (req, res) => {
     const actorName = actor?.name || actor?.email || "A user";
 
     if (task.status === "NEEDS_APPROVAL" && (parsed.approvalNotifyUserIds?.length ?? 0) > 0) {
-      sendTaskApprovalRequestEmails(
+      notifyTaskApprovalRequest(
         parsed.approvalNotifyUserIds!,
-        { id: task.id, title: task.title, client: task.client ?? undefined },
+        { id: task.id, title: task.title, agencyId: task.agencyId, client: task.client ?? undefined },
         actorName
-      ).catch((e) => console.warn("[Task] Approval emails failed", e?.message));
+      ).catch((e) => console.warn("[Task] Approval request notifications failed", e?.message));
     }
     if (task.status === "NEEDS_APPROVAL") {
       notifyClientUsersTaskNeedsApproval(
@@ -1885,8 +2478,9 @@ router.post("/", authenticateToken, async (req, res) => {
         req.user.userId
       ).catch((e) => console.warn("[Task] Client NEEDS_APPROVAL notifications failed", e?.message));
     }
+    emitTaskStatusWebhook(task, null, req.user.userId);
 
-    res.status(201).json(task);
+    res.status(201).json(serializeTask(task));
   } catch (error: any) {
     console.error("Create task error:", error);
     if (error instanceof z.ZodError) {
@@ -1926,6 +2520,19 @@ router.put("/:id", authenticateToken, async (req, res) => {
     if (updates.proof !== undefined) {
       updateData.proof = updates.proof ? JSON.stringify(updates.proof) : null;
     }
+    if (updates.status !== undefined && updates.status !== task.status) {
+      const move = await resolveWorkflowMove(task, { status: updates.status as TaskStatus }, {
+        assigneeId: updates.assigneeId !== undefined ? updates.assigneeId : task.assigneeId,
+        dueDate: updates.dueDate !== undefined ? updates.dueDate : task.dueDate,
+        proof: updateData.proof !== undefined ? updateData.proof : task.proof,
+        estimatedHours: updates.estimatedHours !== undefined ? updates.estimatedHours : task.estimatedHours,
+        description: updates.description !== undefined ? updates.description : task.description,
+        clientId: updates.clientId !== undefined ? updates.clientId : task.clientId,
+      });
+      if ("error" in move) return res.status(400).json({ message: move.error });
+      updateData.status = move.status;
+      updateData.workflowColumnId = move.workflowColumnId;
+    }
     if (updates.approvalNotifyUserIds !== undefined) {
       updateData.approvalNotifyUserIds =
         (updates.approvalNotifyUserIds?.length ?? 0) > 0
@@ -1939,6 +2546,13 @@ router.put("/:id", authenticateToken, async (req, res) => {
       include: taskInclude,
     });
 
+    // A later due date pushes everything waiting on this task back by the same number of days.
+    if (updates.dueDate !== undefined) {
+      await shiftDependentDueDates(id, task.dueDate, updatedTask.dueDate).catch((e) =>
+        console.warn("[Task] Shifting dependent due dates failed", e?.message)
+      );
+    }
+
     const actor = await prisma.user.findUnique({
       where: { id: req.user.userId },
       select: { name: true, email: true },
@@ -1948,11 +2562,11 @@ router.put("/:id", authenticateToken, async (req, res) => {
     const canSelfNotifyStatus = ["SUPER_ADMIN", "ADMIN", "AGENCY", "SPECIALIST"].includes(req.user.role);
 
     if (updatedTask.status === "NEEDS_APPROVAL" && (updates.approvalNotifyUserIds?.length ?? 0) > 0) {
-      sendTaskApprovalRequestEmails(
+      notifyTaskApprovalRequest(
         updates.approvalNotifyUserIds!,
-        { id: updatedTask.id, title: updatedTask.title, client: updatedTask.client ?? undefined },
+        { id: updatedTask.id, title: updatedTask.title, agencyId: updatedTask.agencyId, client: updatedTask.client ?? undefined },
         actorName
-      ).catch((e) => console.warn("[Task] Approval emails failed", e?.message));
+      ).catch((e) => console.warn("[Task] Approval request notifications failed", e?.message));
     }
     if (didStatusChange && canSelfNotifyStatus && updatedTask.status !== "DONE") {
       createSelfTaskStatusNotification({
@@ -1967,17 +2581,16 @@ router.put("/:id", authenticateToken, async (req, res) => {
       });
     }
     if (updatedTask.status === "DONE") {
-      sendTaskCompletedEmails(
-        {
-          ...updatedTask,
-          approvalNotifyUserIds: updatedTask.approvalNotifyUserIds ?? undefined,
-        },
+      notifyTaskCompleted(
+        updatedTask,
         updatedTask.approvalNotifyUserIds,
         req.user.userId
-      ).catch((e) => console.warn("[Task] Completion emails failed", e?.message));
+      ).catch((e) => console.warn("[Task] Completion notifications failed", e?.message));
     }
 
-    res.json(updatedTask);
+    emitTaskStatusWebhook(updatedTask, task.status, req.user.userId);
+
+    res.json(serializeTask(updatedTask));
   } catch (error: any) {
     console.error("Update task error:", error);
     if (error instanceof z.ZodError) {
@@ -1991,27 +2604,33 @@ router.put("/:id", authenticateToken, async (req, res) => {
   }
 });
 
-// Partial update: status only (optional approvalNotifyUserIds when status is NEEDS_APPROVAL)
+// Partial update: status or workflow column only (optional approvalNotifyUserIds when status is NEEDS_APPROVAL)
 router.patch("/:id/status", authenticateToken, async (req, res) => {
   try {
     const { id } = req.params;
     const body = z
       .object({
-        status: taskStatusEnum,
+        status: taskStatusEnum.optional(),
+        workflowColumnKey: z.string().min(1).optional(),
         approvalNotifyUserIds: z.array(z.string().min(1)).optional(),
       })
+      .refine((value) => value.status || value.workflowColumnKey, { message: "status or workflowColumnKey is required" })
       .parse(req.body);
 
     const task = await getTaskForAccess(id);
     if (!task) return res.status(404).json({ message: "Task not found" });
     if (!canAccessTask(req.user, task)) return res.status(403).json({ message: "Access denied" });
 
-    const updateData: { status: TaskStatus; approvalNotifyUserIds?: string | null } = {
-      status: body.status as TaskStatus,
+    const move = await resolveWorkflowMove(task, { status: body.status as TaskStatus | undefined, columnKey: body.workflowColumnKey }, task);
+    if ("error" in move) return res.status(400).json({ message: move.error });
+
+    const updateData: { status: TaskStatus; workflowColumnId: string | null; approvalNotifyUserIds?: string | null } = {
+      status: move.status,
+      workflowColumnId: move.workflowColumnId,
     };
-    if (body.status === "NEEDS_APPROVAL" && (body.approvalNotifyUserIds?.length ?? 0) > 0) {
+    if (move.status === "NEEDS_APPROVAL" && (body.approvalNotifyUserIds?.length ?? 0) > 0) {
       updateData.approvalNotifyUserIds = JSON.stringify(body.approvalNotifyUserIds);
-    } else if (body.status !== "NEEDS_APPROVAL") {
+    } else if (move.status !== "NEEDS_APPROVAL") {
       updateData.approvalNotifyUserIds = null;
     }
 
@@ -2030,11 +2649,11 @@ router.patch("/:id/status", authenticateToken, async (req, res) => {
     const canSelfNotifyStatus = ["SUPER_ADMIN", "ADMIN", "AGENCY", "SPECIALIST"].includes(req.user.role);
 
     if (updated.status === "NEEDS_APPROVAL" && (body.approvalNotifyUserIds?.length ?? 0) > 0) {
-      sendTaskApprovalRequestEmails(
+      notifyTaskApprovalRequest(
         body.approvalNotifyUserIds!,
-        { id: updated.id, title: updated.title, client: updated.client ?? undefined },
+        { id: updated.id, title: updated.title, agencyId: updated.agencyId, client: updated.client ?? undefined },
         actorName
-      ).catch((e) => console.warn("[Task] Approval emails failed", e?.message));
+      ).catch((e) => console.warn("[Task] Approval request notifications failed", e?.message));
     }
     if (didStatusChange && canSelfNotifyStatus && updated.status !== "DONE") {
       createSelfTaskStatusNotification({
@@ -2049,19 +2668,21 @@ router.patch("/:id/status", authenticateToken, async (req, res) => {
       });
     }
     if (updated.status === "DONE") {
-      sendTaskCompletedEmails(
-        {
-          ...updated,
-          approvalNotifyUserIds: updated.approvalNotifyUserIds ?? undefined,
-        },
+      notifyTaskCompleted(
+        updated,
         updated.approvalNotifyUserIds,
         req.user.userId
-      ).catch((e) => console.warn("[Task] Completion emails failed", e?.message));
+      ).catch((e) => console.warn("[Task] Completion notifications failed", e?.message));
     }
 
-    res.json(updated);
+    emitTaskStatusWebhook(updated, task.status, req.user.userId);
+
+    res.json(serializeTask(updated));
   } catch (error) {
     console.error("Patch task status error:", error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid data", errors: error.errors });
+    }
     res.status(500).json({ message: "Failed to update task status" });
   }
 });
@@ -2125,26 +2746,51 @@ router.post("/bulk", authenticateToken, async (req, res) => {
       agencyId = userAgency.agencyId;
     }
 
-    // Create all tasks
-    const createdTasks = await prisma.task.createMany({
-      data: tasks.map(task => ({
-        title: task.title,
-        description: task.description,
-        category: task.category,
-        status: task.status || "TODO",
-        dueDate: task.dueDate,
-        assigneeId: task.assigneeId,
-        clientId: task.clientId,
-        agencyId,
-        createdById: user.userId,
-        estimatedHours: task.estimatedHours,
-        priority: task.priority,
-      }))
+    const toCreateData = (task: (typeof tasks)[number]) => ({
+      title: task.title,
+      description: task.description,
+      category: task.category,
+      status: task.status || "TODO",
+      dueDate: task.dueDate,
+      assigneeId: task.assigneeId,
+      clientId: task.clientId,
+      agencyId,
+      createdById: user.userId,
+      estimatedHours: task.estimatedHours,
+      priority: task.priority,
     });
 
-    res.status(201).json({ 
-      message: `${createdTasks.count} tasks created successfully`,
-      count: createdTasks.count 
+    // Without dependencies between them, create all tasks at once
+    if (!tasks.some((task) => task.blockedByRefs?.length)) {
+      const createdTasks = await prisma.task.createMany({ data: tasks.map(toCreateData) });
+      return res.status(201).json({
+        message: `${createdTasks.count} tasks created successfully`,
+        count: createdTasks.count
+      });
+    }
+
+    // Refs only resolve to earlier tasks in the batch, so the dependencies cannot form a cycle.
+    const created = await prisma.$transaction(async (tx) => {
+      const idsByRef = new Map<string, string>();
+      let dependencyCount = 0;
+      for (const task of tasks) {
+        const row = await tx.task.create({ data: toCreateData(task), select: { id: true } });
+        const blockedByIds = Array.from(
+          new Set((task.blockedByRefs ?? []).map((ref) => idsByRef.get(ref)).filter((id): id is string => Boolean(id)))
+        );
+        if (blockedByIds.length > 0) {
+          await tx.taskDependency.createMany({ data: blockedByIds.map((blockedById) => ({ taskId: row.id, blockedById })) });
+          dependencyCount += blockedByIds.length;
+        }
+        if (task.ref) idsByRef.set(task.ref, row.id);
+      }
+      return { count: tasks.length, dependencyCount };
+    });
+
+    res.status(201).json({
+      message: `${created.count} tasks created successfully`,
+      count: created.count,
+      dependencyCount: created.dependencyCount,
     });
   } catch (error) {
     console.error("Bulk create tasks error:", error);
@@ -2169,47 +2815,11 @@ router.post("/:id/approve", authenticateToken, async (req, res) => {
       return res.status(400).json({ message: "Task is not awaiting approval" });
     }
 
-    // Move task to DONE
-    const updated = await prisma.task.update({
-      where: { id },
-      data: { status: "DONE" },
-      include: taskInclude,
-    });
+    const actor = await getApprovalActor(req);
+    await recordApprovalDecisions([{ task, decision: "APPROVED", comment: comment?.trim() || null }], actor);
+    const updated = await applyApprovalDecision(task, "APPROVED", comment?.trim() || null, actor);
 
-    // Create auto-generated activity entry
-    const author = await prisma.user.findUnique({
-      where: { id: req.user.userId },
-      select: { name: true, email: true },
-    });
-    const authorName = author?.name || author?.email || "Someone";
-    const approvalBody = comment
-      ? `Approved with note: ${comment}`
-      : "Approved this task.";
-
-    await prisma.taskComment.create({
-      data: {
-        taskId: id,
-        authorId: req.user.userId,
-        body: approvalBody,
-        type: "APPROVAL",
-      },
-    });
-
-    // Client-side approval action: notify only the task assignee.
-    notifyTaskAssigneeOnlyActivity(
-      {
-        id: task.id,
-        title: task.title,
-        agencyId: task.agencyId,
-        assigneeId: task.assigneeId,
-      },
-      req.user.userId,
-      authorName,
-      "APPROVAL",
-      approvalBody
-    ).catch((e) => console.warn("[Task] Approval assignee notification error", e?.message));
-
-    return res.json(updated);
+    return res.json(serializeTask(updated));
   } catch (error: any) {
     console.error("Approve task error:", error);
     if (error instanceof z.ZodError) {
@@ -2233,44 +2843,11 @@ router.post("/:id/request-revisions", authenticateToken, async (req, res) => {
       return res.status(400).json({ message: "Task is not awaiting approval" });
     }
 
-    // Move task back to IN_PROGRESS
-    const updated = await prisma.task.update({
-      where: { id },
-      data: { status: "IN_PROGRESS" },
-      include: taskInclude,
-    });
-
-    // Create revision-request activity entry
-    const author = await prisma.user.findUnique({
-      where: { id: req.user.userId },
-      select: { name: true, email: true },
-    });
-    const authorName = author?.name || author?.email || "Someone";
+    const actor = await getApprovalActor(req);
+    await recordApprovalDecisions([{ task, decision: "REVISIONS_REQUESTED", comment }], actor);
+    const updated = await applyApprovalDecision(task, "REVISIONS_REQUESTED", comment, actor);
 
-    await prisma.taskComment.create({
-      data: {
-        taskId: id,
-        authorId: req.user.userId,
-        body: comment,
-        type: "REVISION_REQUEST",
-      },
-    });
-
-    // Client-side revision request action: notify only the task assignee.
-    notifyTaskAssigneeOnlyActivity(
-      {
-        id: task.id,
-        title: task.title,
-        agencyId: task.agencyId,
-        assigneeId: task.assigneeId,
-      },
-      req.user.userId,
-      authorName,
-      "REVISION_REQUEST",
-      comment
-    ).catch((e) => console.warn("[Task] Revision request assignee notification error", e?.message));
-
-    return res.json(updated);
+    return res.json(serializeTask(updated));
   } catch (error: any) {
     console.error("Request revisions error:", error);
     if (error instanceof z.ZodError) {
@@ -2287,6 +2864,7 @@ export async function processRecurringTaskRules(): Promise<void> {
     where: { isActive: true, nextRunAt: { lte: now } },
     orderBy: { nextRunAt: "asc" },
   });
+  let failed = 0;
   for (const rule of due) {
     try {
       const dueDate = new Date(rule.nextRunAt);
@@ -2310,16 +2888,21 @@ export async function processRecurringTaskRules(): Promise<void> {
         dueDate,
         rule.frequency,
         rule.dayOfWeek,
-        rule.dayOfMonth
+        rule.dayOfMonth,
+        rule.timeZone
       );
       await prisma.recurringTaskRule.update({
         where: { id: rule.id },
         data: { nextRunAt },
       });
     } catch (err) {
+      failed += 1;
       console.error("[RecurringTasks] Failed to process rule", rule.id, err);
     }
   }
+  if (failed > 0) {
+    throw new Error(`${failed} of ${due.length} recurring task rules failed`);
+  }
 }
 
 export default router;
@@ -5,10 +5,13 @@ import { prisma } from '../lib/prisma.js';
 import { Prisma, Role } from "@prisma/client";
 import { authenticateToken, optionalAuthenticateToken, getJwtSecret } from '../middleware/auth.js';
 import { requireAgencyTrialNotExpired } from '../middleware/requireAgencyTrialNotExpired.js';
+import { requireStepUp } from '../middleware/requireStepUp.js';
+import { revokeUserSessions } from '../lib/sessions.js';
 import { sendEmail } from '../lib/email.js';
 import { BRAND_DISPLAY_NAME } from "../lib/qualityContracts.js";
 import jwt from 'jsonwebtoken';
 import { getAgencyTierContext, canAddTeamMember } from '../lib/agencyLimits.js';
+import { authorize, isPlatformAdmin } from '../lib/permissions.js';
 
 const router = express.Router();
 
@@ -38,6 +41,10 @@ const inviteTeamMemberSchema = z.object({
     sendInvitationEmail: z.boolean().optional().default(true),
 });
 
+const twoFactorPolicySchema = z.object({
+    requireTwoFactor: z.boolean(),
+});
+
 const updateTeamMemberSchema = z.object({
     name: z.string().min(1).optional(),
     role: z.enum(['SPECIALIST', 'DESIGNER', 'AGENCY', 'ADMIN', 'SUPER_ADMIN']).optional(),
@@ -107,6 +114,7 @@ router.get('/', authenticateToken, async (req, res) => {
                         })),
                         clientCount,
                         taskCount,
+                        twoFactorEnabled: Boolean(u.twoFactorEnabled),
                     };
                 })
             );
@@ -182,6 +190,7 @@ router.get('/', authenticateToken, async (req, res) => {
                         agencies: u.agencies,
                         clientCount,
                         taskCount,
+                        twoFactorEnabled: Boolean(u.twoFactorEnabled),
                     };
                 })
             );
@@ -243,6 +252,7 @@ router.get('/', authenticateToken, async (req, res) => {
                         agencies: u.agencies,
                         clientCount,
                         taskCount,
+                        twoFactorEnabled: Boolean(u.twoFactorEnabled),
                     };
                 })
             );
@@ -260,12 +270,13 @@ router.post('/invite', authenticateToken, async (req, res) => {
     try {
         const user = req.user;
 
-        // Only AGENCY, ADMIN, or SUPER_ADMIN can invite
-        if (user.role !== 'AGENCY' && user.role !== 'ADMIN' && user.role !== 'SUPER_ADMIN') {
-            return res.status(403).json({ message: 'Access denied' });
-        }
+        if (!(await authorize(req, res, 'invite_users'))) return;
 
         const { email, name, role, agencyId, specialties, sendInvitationEmail } = inviteTeamMemberSchema.parse(req.body);
+        // Members invited through a role permission (not agency accounts) may only add specialists and designers
+        if (user.role !== 'AGENCY' && !isPlatformAdmin(user.role) && role !== 'SPECIALIST' && role !== 'DESIGNER') {
+            return res.status(403).json({ message: 'Access denied. You can only invite specialists and designers.' });
+        }
 
         // Check if user already exists
         let existingUser = await prisma.user.findUnique({
@@ -501,6 +512,150 @@ router.post('/:id/resend-invite', authenticateToken, async (req, res) => {
     }
 });
 
+// Agency 2FA policy: whether every team member must enroll, plus enrollment progress
+router.get('/two-factor-policy', authenticateToken, async (req, res) => {
+    try {
+        const membership = await prisma.userAgency.findFirst({
+            where: { userId: req.user.userId },
+            select: { agencyId: true, agencyRole: true, agency: { select: { requireTwoFactor: true } } },
+        });
+        if (!membership) {
+            return res.status(404).json({ message: 'No agency found for user' });
+        }
+
+        const members = await prisma.userAgency.findMany({
+            where: { agencyId: membership.agencyId },
+            select: { user: { select: { twoFactorEnabled: true } } },
+        });
+        res.json({
+            requireTwoFactor: membership.agency.requireTwoFactor,
+            memberCount: members.length,
+            enrolledCount: members.filter((m) => m.user.twoFactorEnabled).length,
+            canManage: membership.agencyRole === 'OWNER' || req.user.role === 'ADMIN' || req.user.role === 'SUPER_ADMIN',
+        });
+    } catch (error) {
+        console.error('Get 2FA policy error:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
+// Turn agency-wide 2FA enforcement on or off (owner only). Members without 2FA must enroll at their next sign-in.
+router.put('/two-factor-policy', authenticateToken, async (req, res) => {
+    try {
+        const { requireTwoFactor } = twoFactorPolicySchema.parse(req.body);
+        const user = req.user;
+
+        const membership = await prisma.userAgency.findFirst({
+            where: { userId: user.userId },
+            select: { agencyId: true, agencyRole: true },
+        });
+        if (!membership) {
+            return res.status(404).json({ message: 'No agency found for user' });
+        }
+        if (membership.agencyRole !== 'OWNER' && user.role !== 'ADMIN' && user.role !== 'SUPER_ADMIN') {
+            return res.status(403).json({ message: 'Access denied. Only agency owners can change the 2FA policy.' });
+        }
+
+        if (requireTwoFactor) {
+            const self = await prisma.user.findUnique({
+                where: { id: user.userId },
+                select: { twoFactorEnabled: true },
+            });
+            if (!self?.twoFactorEnabled) {
+                return res.status(400).json({ message: 'Enable two-factor authentication on your own account first.' });
+            }
+        }
+
+        const agency = await prisma.agency.update({
+            where: { id: membership.agencyId },
+            data: { requireTwoFactor },
+            select: { requireTwoFactor: true },
+        });
+        res.json(agency);
+    } catch (error: any) {
+        if (error.name === 'ZodError') {
+            return res.status(400).json({ message: 'Invalid input', errors: error.errors });
+        }
+        console.error('Update 2FA policy error:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
+// Reset a member's 2FA (lost device). They can sign in with their password and must re-enroll if the agency requires it.
+router.post('/:id/two-factor/reset', authenticateToken, requireStepUp, async (req, res) => {
+    try {
+        const targetId = req.params.id;
+        const user = req.user;
+
+        if (targetId === user.userId) {
+            return res.status(400).json({ message: 'Use Settings to manage your own two-factor authentication.' });
+        }
+
+        const target = await prisma.user.findUnique({
+            where: { id: targetId },
+            select: { id: true, email: true, name: true, role: true, twoFactorEnabled: true },
+        });
+        if (!target) {
+            return res.status(404).json({ message: 'User not found' });
+        }
+
+        const isPlatformAdmin = user.role === 'ADMIN' || user.role === 'SUPER_ADMIN';
+        if (!isPlatformAdmin) {
+            const ownedAgencies = await prisma.userAgency.findMany({
+                where: { userId: user.userId, agencyRole: 'OWNER' },
+                select: { agencyId: true },
+            });
+            const sharedMembership = ownedAgencies.length
+                ? await prisma.userAgency.findFirst({
+                    where: { userId: target.id, agencyId: { in: ownedAgencies.map((a) => a.agencyId) } },
+                    select: { id: true },
+                })
+                : null;
+            if (!sharedMembership) {
+                return res.status(403).json({ message: 'Access denied' });
+            }
+        } else if (target.role === 'SUPER_ADMIN' && user.role !== 'SUPER_ADMIN') {
+            return res.status(403).json({ message: 'Access denied' });
+        }
+
+        if (!target.twoFactorEnabled) {
+            return res.status(400).json({ message: 'Two-factor authentication is not enabled for this user' });
+        }
+
+        await prisma.user.update({
+            where: { id: target.id },
+            data: {
+                twoFactorEnabled: false,
+                twoFactorSecret: null,
+                twoFactorPendingSecret: null,
+                twoFactorEnabledAt: null,
+                twoFactorRecoveryCodes: null,
+                twoFactorLastUsedStep: null,
+            },
+        });
+        // Sessions signed in with the old authenticator end; the user signs in again and re-enrolls
+        await revokeUserSessions(target.id, 'two_factor_reset');
+
+        await sendEmail({
+            to: target.email,
+            subject: `Your two-factor authentication was reset - ${BRAND_DISPLAY_NAME}`,
+            html: `
+                <p>Hi ${escapeHtml(target.name || 'there')},</p>
+                <p>An administrator reset two-factor authentication on your ${escapeHtml(BRAND_DISPLAY_NAME)} account.
+                You can sign in with your password and set up an authenticator app again from Settings.</p>
+                <p>If you did not ask for this, contact your agency owner right away.</p>
+            `,
+        }).catch((emailErr) => {
+            console.warn('2FA reset email failed:', (emailErr as any)?.message || emailErr);
+        });
+
+        res.json({ message: 'Two-factor authentication reset' });
+    } catch (error) {
+        console.error('Reset team member 2FA error:', error);
+        res.status(500).json({ message: 'Internal server error' });
+    }
+});
+
 // Update team member
 router.put('/:id', authenticateToken, async (req, res) => {
     try {
@@ -585,6 +740,7 @@ router.delete('/:id', authenticateToken, async (req, res) => {
                 });
             }
 
+            await revokeUserSessions(userId, 'removed_from_agency');
             await prisma.$transaction(async (tx) => {
                 // Clear FK references that don't have onDelete: Cascade
                 await tx.token.deleteMany({ where: { userId } });
@@ -607,12 +763,16 @@ router.delete('/:id', authenticateToken, async (req, res) => {
             const agencyIds = userAgencies.map((a) => a.agencyId);
 
             // Remove target user from these agencies
-            await prisma.userAgency.deleteMany({
+            const removed = await prisma.userAgency.deleteMany({
                 where: {
                     userId: targetUser.id,
                     agencyId: { in: agencyIds },
                 },
             });
+            // Sign the removed member out everywhere right away rather than when their access token expires
+            if (removed.count > 0) {
+                await revokeUserSessions(targetUser.id, 'removed_from_agency');
+            }
 
             return res.json({ message: 'Team member removed from agency successfully' });
         }
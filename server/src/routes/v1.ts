@@ -0,0 +1,498 @@
+/**
+ * Versioned public API (/api/v1), authenticated with agency API keys or a dashboard JWT.
+ * Every route is declared once through defineRoute so the handler, its scope and the OpenAPI document share
+ * the same zod schemas; responses are parsed through their schema, which also strips internal fields.
+ */
+import { Router, Request, Response, NextFunction } from "express";
+import { z, type ZodTypeAny } from "zod";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma.js";
+import { authenticateApiRequest, requireApiScope } from "../middleware/apiKeyAuth.js";
+import { type ApiKeyAccess, type ApiKeyResource } from "../lib/apiKeys.js";
+import { buildOpenApiDocument, type ApiOperation } from "../lib/openapi.js";
+import { getAgencyTierContext, canAddTargetKeyword } from "../lib/agencyLimits.js";
+import { loadAgencyAccess, restrictedClientIds } from "../lib/permissions.js";
+import { clampHistoryDays, getKeywordRankHistory } from "../lib/keywordRankHistory.js";
+import { createTargetKeywordRecord, createTargetKeywordSchema, onlyRankingWebsiteUrl } from "./seo.js";
+import { parseGridDataOrFallback } from "./localMap.js";
+
+const router = Router();
+const operations: ApiOperation[] = [];
+
+class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+type RouteDefinition<TQuery extends z.AnyZodObject, TBody extends ZodTypeAny, TResponse extends ZodTypeAny> = Omit<
+  ApiOperation,
+  "scope" | "query" | "body" | "response"
+> & {
+  scope: [ApiKeyResource, ApiKeyAccess];
+  query?: TQuery;
+  body?: TBody;
+  response: TResponse;
+  handler: (ctx: {
+    req: Request;
+    params: Record<string, string>;
+    query: z.infer<TQuery>;
+    body: z.infer<TBody>;
+  }) => Promise<z.input<TResponse>>;
+};
+
+function defineRoute<TQuery extends z.AnyZodObject, TBody extends ZodTypeAny, TResponse extends ZodTypeAny>(
+  def: RouteDefinition<TQuery, TBody, TResponse>
+) {
+  const [resource, access] = def.scope;
+  operations.push({
+    method: def.method,
+    path: def.path,
+    summary: def.summary,
+    tag: def.tag,
+    scope: `${resource}:${access}`,
+    query: def.query,
+    body: def.body,
+    response: def.response,
+    responseStatus: def.responseStatus,
+  });
+
+  router[def.method](
+    def.path,
+    authenticateApiRequest,
+    requireApiScope(resource, access),
+    async (req: Request, res: Response, _next: NextFunction) => {
+      try {
+        const query = def.query ? def.query.parse(req.query) : {};
+        const body = def.body ? def.body.parse(req.body) : undefined;
+        const result = await def.handler({ req, params: req.params, query, body });
+        res.status(def.responseStatus ?? 200).json(def.response.parse(result));
+      } catch (error: any) {
+        if (error instanceof ApiError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid input", errors: error.errors });
+        }
+        console.error(`API v1 ${def.method.toUpperCase()} ${def.path} error:`, error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+}
+
+function agencyClientsWhere(agencyIds: string[]): Prisma.ClientWhereInput[] {
+  return [
+    { belongsToAgencyId: { in: agencyIds } },
+    { user: { memberships: { some: { agencyId: { in: agencyIds } } } } },
+    { agencyInclusions: { some: { agencyId: { in: agencyIds } } } },
+  ];
+}
+
+/** Clients the caller can see: the key's agency for API keys; the usual dashboard scope for JWTs. */
+async function accessibleClientsWhere(req: Request): Promise<Prisma.ClientWhereInput> {
+  if (req.apiKey) {
+    return { OR: agencyClientsWhere([req.apiKey.agencyId]) };
+  }
+  const { userId, role } = req.user;
+  if (role === "ADMIN" || role === "SUPER_ADMIN") return {};
+
+  const own: Prisma.ClientWhereInput[] = [
+    { userId },
+    { clientUsers: { some: { userId, status: "ACTIVE" } } },
+  ];
+  if (role !== "AGENCY") return { OR: own };
+
+  const memberships = await prisma.userAgency.findMany({ where: { userId }, select: { agencyId: true } });
+  const agencyScopes: Prisma.ClientWhereInput[] = [];
+  for (const { agencyId } of memberships) {
+    // Members limited to specific clients (custom per-client access) see nothing else in that agency
+    const allowed = restrictedClientIds(await loadAgencyAccess(req.user, agencyId));
+    agencyScopes.push(
+      allowed ? { AND: [{ id: { in: allowed } }, { OR: agencyClientsWhere([agencyId]) }] } : { OR: agencyClientsWhere([agencyId]) }
+    );
+  }
+  return { OR: [...own, ...agencyScopes] };
+}
+
+async function requireClient(req: Request, clientId: string) {
+  const client = await prisma.client.findFirst({
+    where: { AND: [{ id: clientId }, await accessibleClientsWhere(req)] },
+  });
+  if (!client) throw new ApiError(404, "Client not found");
+  return client;
+}
+
+const clientIdParam = (params: Record<string, string>) => params.clientId;
+
+// ---- Schemas ----
+
+const clientSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  domain: z.string(),
+  industry: z.string().nullable(),
+  status: z.string(),
+  ga4Connected: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const listClientsQuerySchema = z.object({
+  search: z.string().optional(),
+  status: z.string().optional().describe("Filter by status, e.g. ACTIVE"),
+  page: z.coerce.number().int().min(1).optional().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).optional().default(50),
+});
+
+const targetKeywordSchema = z.object({
+  id: z.string(),
+  keyword: z.string(),
+  type: z.string(),
+  searchVolume: z.number().int().nullable(),
+  cpc: z.number().nullable(),
+  competition: z.string().nullable(),
+  locationCode: z.number().int().nullable(),
+  locationName: z.string().nullable(),
+  languageCode: z.string().nullable(),
+  googlePosition: z.number().int().nullable(),
+  previousPosition: z.number().int().nullable(),
+  googleUrl: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const trackedKeywordSchema = z.object({
+  id: z.string(),
+  keyword: z.string(),
+  type: z.string(),
+  searchVolume: z.number().int(),
+  currentPosition: z.number().int().nullable(),
+  previousPosition: z.number().int().nullable(),
+  bestPosition: z.number().int().nullable(),
+  googleUrl: z.string().nullable(),
+  locationName: z.string().nullable(),
+  updatedAt: z.date(),
+});
+
+const gridKeywordSchema = z.object({
+  id: z.string(),
+  keyword: z.string(),
+  businessName: z.string(),
+  locationLabel: z.string().nullable(),
+  gridSize: z.number().int(),
+  gridSpacingMiles: z.number(),
+  gridShape: z.enum(["square", "circle", "polygon", "zip"]),
+  status: z.string(),
+  lastRunAt: z.date().nullable(),
+  nextRunAt: z.date().nullable(),
+});
+
+const gridSnapshotSchema = z.object({
+  id: z.string(),
+  runDate: z.date(),
+  ataScore: z.number().describe("Average true rank across the grid (lower is better)"),
+  isBenchmark: z.boolean(),
+  gridData: z.array(
+    z.object({
+      lat: z.number(),
+      lng: z.number(),
+      row: z.number().int().optional().describe("Lattice row from the north edge; absent for ZIP grids and older snapshots"),
+      col: z.number().int().optional().describe("Lattice column from the west edge"),
+      rank: z.number().int().nullable(),
+      competitors: z.array(z.string()),
+    })
+  ),
+});
+
+const serializeClient = (client: {
+  id: string;
+  name: string;
+  domain: string;
+  industry: string | null;
+  status: string;
+  ga4PropertyId: string | null;
+  ga4RefreshToken: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}) => ({ ...client, ga4Connected: Boolean(client.ga4PropertyId && client.ga4RefreshToken) });
+
+// ---- Clients ----
+
+defineRoute({
+  method: "get",
+  path: "/clients",
+  summary: "List clients",
+  tag: "Clients",
+  scope: ["clients", "read"],
+  query: listClientsQuerySchema,
+  response: z.object({
+    data: z.array(clientSchema),
+    page: z.number().int(),
+    pageSize: z.number().int(),
+    total: z.number().int(),
+  }),
+  handler: async ({ req, query }) => {
+    const where: Prisma.ClientWhereInput = {
+      AND: [
+        await accessibleClientsWhere(req),
+        query.status ? { status: query.status as any } : {},
+        query.search ? { OR: [{ name: { contains: query.search } }, { domain: { contains: query.search } }] } : {},
+      ],
+    };
+    const [total, clients] = await Promise.all([
+      prisma.client.count({ where }),
+      prisma.client.findMany({
+        where,
+        orderBy: { name: "asc" },
+        skip: (query.page - 1) * query.pageSize,
+        take: query.pageSize,
+      }),
+    ]);
+    return { data: clients.map(serializeClient), page: query.page, pageSize: query.pageSize, total };
+  },
+});
+
+defineRoute({
+  method: "get",
+  path: "/clients/:clientId",
+  summary: "Get a client",
+  tag: "Clients",
+  scope: ["clients", "read"],
+  response: clientSchema,
+  handler: async ({ req, params }) => serializeClient(await requireClient(req, clientIdParam(params))),
+});
+
+defineRoute({
+  method: "get",
+  path: "/clients/:clientId/dashboard",
+  summary: "Dashboard summary: latest GA4 metrics, ranking distribution and local map coverage",
+  tag: "Clients",
+  scope: ["clients", "read"],
+  response: z.object({
+    client: clientSchema,
+    ga4: z
+      .object({
+        startDate: z.date(),
+        endDate: z.date(),
+        activeUsers: z.number().int(),
+        newUsers: z.number().int(),
+        totalSessions: z.number().int(),
+        organicSessions: z.number().int(),
+        conversions: z.number().int(),
+        conversionRate: z.number(),
+        bounceRate: z.number(),
+        avgSessionDuration: z.number(),
+      })
+      .nullable(),
+    rankings: z.object({
+      tracked: z.number().int(),
+      top3: z.number().int(),
+      top10: z.number().int(),
+      top100: z.number().int(),
+      averagePosition: z.number().nullable(),
+    }),
+    targetKeywords: z.number().int(),
+    localMapKeywords: z.number().int(),
+  }),
+  handler: async ({ req, params }) => {
+    const client = await requireClient(req, clientIdParam(params));
+    const [ga4, keywords, targetKeywords, localMapKeywords] = await Promise.all([
+      prisma.ga4Metrics.findUnique({ where: { clientId: client.id } }),
+      prisma.keyword.findMany({ where: { clientId: client.id }, select: { currentPosition: true } }),
+      prisma.targetKeyword.count({ where: { clientId: client.id } }),
+      prisma.gridKeyword.count({ where: { clientId: client.id, status: "active" } }),
+    ]);
+    const positions = keywords
+      .map((k) => k.currentPosition)
+      .filter((p): p is number => typeof p === "number" && p > 0);
+    return {
+      client: serializeClient(client),
+      ga4,
+      rankings: {
+        tracked: keywords.length,
+        top3: positions.filter((p) => p <= 3).length,
+        top10: positions.filter((p) => p <= 10).length,
+        top100: positions.filter((p) => p <= 100).length,
+        averagePosition: positions.length
+          ? Math.round((positions.reduce((sum, p) => sum + p, 0) / positions.length) * 10) / 10
+          : null,
+      },
+      targetKeywords,
+      localMapKeywords,
+    };
+  },
+});
+
+// ---- Keywords ----
+
+defineRoute({
+  method: "get",
+  path: "/clients/:clientId/target-keywords",
+  summary: "List target keywords",
+  tag: "Keywords",
+  scope: ["keywords", "read"],
+  response: z.object({ data: z.array(targetKeywordSchema) }),
+  handler: async ({ req, params }) => {
+    const client = await requireClient(req, clientIdParam(params));
+    const rows = await prisma.targetKeyword.findMany({
+      where: { clientId: client.id },
+      orderBy: [{ searchVolume: "desc" }, { keyword: "asc" }],
+    });
+    return { data: rows.map((row) => ({ ...row, googleUrl: onlyRankingWebsiteUrl(row.googleUrl) })) };
+  },
+});
+
+defineRoute({
+  method: "post",
+  path: "/clients/:clientId/target-keywords",
+  summary: "Add a target keyword",
+  tag: "Keywords",
+  scope: ["keywords", "write"],
+  body: createTargetKeywordSchema,
+  response: targetKeywordSchema,
+  responseStatus: 201,
+  handler: async ({ req, params, body }) => {
+    const client = await requireClient(req, clientIdParam(params));
+    const tierCtx = await getAgencyTierContext(req.user.userId, req.user.role);
+    const limitCheck = canAddTargetKeyword(tierCtx, client.id);
+    if (!limitCheck.allowed) {
+      throw new ApiError(403, limitCheck.message || "Keyword limit reached");
+    }
+    const targetKeyword = await createTargetKeywordRecord(client.id, body);
+    if (!targetKeyword) {
+      throw new ApiError(409, "Target keyword already exists for this client");
+    }
+    return targetKeyword;
+  },
+});
+
+defineRoute({
+  method: "delete",
+  path: "/clients/:clientId/target-keywords/:keywordId",
+  summary: "Remove a target keyword",
+  tag: "Keywords",
+  scope: ["keywords", "write"],
+  response: z.object({ deleted: z.boolean() }),
+  handler: async ({ req, params }) => {
+    const client = await requireClient(req, clientIdParam(params));
+    const result = await prisma.targetKeyword.deleteMany({ where: { id: params.keywordId, clientId: client.id } });
+    if (result.count === 0) throw new ApiError(404, "Target keyword not found");
+    return { deleted: true };
+  },
+});
+
+defineRoute({
+  method: "get",
+  path: "/clients/:clientId/rankings",
+  summary: "Current Google positions for tracked keywords",
+  tag: "Keywords",
+  scope: ["keywords", "read"],
+  response: z.object({ data: z.array(trackedKeywordSchema) }),
+  handler: async ({ req, params }) => {
+    const client = await requireClient(req, clientIdParam(params));
+    const rows = await prisma.keyword.findMany({
+      where: { clientId: client.id },
+      orderBy: [{ currentPosition: "asc" }, { keyword: "asc" }],
+    });
+    return { data: rows.map((row) => ({ ...row, googleUrl: onlyRankingWebsiteUrl(row.googleUrl) })) };
+  },
+});
+
+defineRoute({
+  method: "get",
+  path: "/clients/:clientId/rankings/:keywordId/history",
+  summary: "Daily rank history for a tracked keyword",
+  tag: "Keywords",
+  scope: ["keywords", "read"],
+  query: z.object({ days: z.coerce.number().int().min(1).max(365).optional().default(90) }),
+  response: z.object({
+    keyword: z.string(),
+    days: z.number().int(),
+    history: z.array(
+      z.object({
+        date: z.string().describe("YYYY-MM-DD (UTC)"),
+        position: z.number().int().nullable(),
+        rankingUrl: z.string().nullable(),
+        locationName: z.string().nullable(),
+      })
+    ),
+  }),
+  handler: async ({ req, params, query }) => {
+    const client = await requireClient(req, clientIdParam(params));
+    const keyword = await prisma.keyword.findFirst({ where: { id: params.keywordId, clientId: client.id } });
+    if (!keyword) throw new ApiError(404, "Keyword not found");
+    const days = clampHistoryDays(query.days);
+    const history = await getKeywordRankHistory({ clientId: client.id, keyword: keyword.keyword, days });
+    return { keyword: keyword.keyword, days, history };
+  },
+});
+
+// ---- Local map ----
+
+defineRoute({
+  method: "get",
+  path: "/clients/:clientId/local-map/keywords",
+  summary: "List local map (grid) keywords",
+  tag: "Local map",
+  scope: ["local_map", "read"],
+  response: z.object({ data: z.array(gridKeywordSchema) }),
+  handler: async ({ req, params }) => {
+    const client = await requireClient(req, clientIdParam(params));
+    const rows = await prisma.gridKeyword.findMany({
+      where: { clientId: client.id },
+      orderBy: { createdAt: "asc" },
+    });
+    return {
+      data: rows.map((row) => ({
+        ...row,
+        keyword: row.keywordText,
+        gridSpacingMiles: Number(row.gridSpacingMiles),
+      })),
+    };
+  },
+});
+
+defineRoute({
+  method: "get",
+  path: "/clients/:clientId/local-map/keywords/:gridKeywordId/snapshots",
+  summary: "Grid snapshots for a local map keyword, newest first",
+  tag: "Local map",
+  scope: ["local_map", "read"],
+  query: z.object({ limit: z.coerce.number().int().min(1).max(100).optional().default(12) }),
+  response: z.object({ data: z.array(gridSnapshotSchema) }),
+  handler: async ({ req, params, query }) => {
+    const client = await requireClient(req, clientIdParam(params));
+    const gridKeyword = await prisma.gridKeyword.findFirst({
+      where: { id: params.gridKeywordId, clientId: client.id },
+      select: { id: true },
+    });
+    if (!gridKeyword) throw new ApiError(404, "Local map keyword not found");
+    const snapshots = await prisma.gridSnapshot.findMany({
+      where: { gridKeywordId: gridKeyword.id },
+      orderBy: { runDate: "desc" },
+      take: query.limit,
+    });
+    return {
+      data: snapshots.map((s) => ({ ...s, gridData: parseGridDataOrFallback(s.gridData) })),
+    };
+  },
+});
+
+// ---- Document ----
+
+router.get("/openapi.json", (req: Request, res: Response) => {
+  res.json(
+    buildOpenApiDocument({
+      title: "Agency Dashboard API",
+      version: "1.0.0",
+      description:
+        "Read client dashboards, rankings and local map data, and manage target keywords. " +
+        "Authenticate with an agency API key (X-API-Key header or Bearer token). Keys are rate limited per minute.",
+      serverUrl: `${req.protocol}://${req.get("host")}${req.baseUrl}`,
+      operations,
+    })
+  );
+});
+
+export default router;
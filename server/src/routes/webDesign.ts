@@ -1,7 +1,7 @@
 import express from "express";
 import { z } from "zod";
 import { prisma } from "../lib/prisma.js";
-import { sendEmail } from "../lib/email.js";
+import { deliverNotification } from "../lib/notificationPreferences.js";
 import { authenticateToken, optionalAuthenticateToken } from "../middleware/auth.js";
 import { requireAgencyTrialNotExpired } from "../middleware/requireAgencyTrialNotExpired.js";
 
@@ -48,13 +48,6 @@ function isAdminRole(role: string): boolean {
   return role === "SUPER_ADMIN" || role === "ADMIN" || role === "AGENCY";
 }
 
-function isNotificationEnabled(notificationPreferences: unknown): boolean {
-  if (!notificationPreferences || typeof notificationPreferences !== "object") return true;
-  const prefs = notificationPreferences as Record<string, unknown>;
-  const value = prefs.webDesign;
-  return typeof value === "boolean" ? value : true;
-}
-
 function getDeepLink(projectId: string, pageId: string): string {
   return `/web-design/projects/${projectId}/pages/${pageId}`;
 }
@@ -161,31 +154,16 @@ async function notifyUsersById(
   html: string,
   notification: { title: string; message: string; link: string; agencyId?: string | null; type?: string }
 ) {
-  if (userIds.length === 0) return;
-  const users = await prisma.user.findMany({
-    where: { id: { in: userIds } },
-    select: { id: true, email: true, notificationPreferences: true },
+  await deliverNotification({
+    event: "web_design",
+    userIds,
+    agencyId: notification.agencyId ?? null,
+    type: notification.type ?? "web_design_activity",
+    title: notification.title,
+    message: notification.message,
+    link: notification.link,
+    email: { subject, html },
   });
-  const enabledUsers = users.filter((u) => isNotificationEnabled(u.notificationPreferences));
-  if (enabledUsers.length === 0) return;
-
-  await prisma.notification.createMany({
-    data: enabledUsers.map((u) => ({
-      userId: u.id,
-      agencyId: notification.agencyId ?? null,
-      type: notification.type ?? "web_design_activity",
-      title: notification.title,
-      message: notification.message,
-      link: notification.link,
-    })),
-  }).catch((e) => console.warn("[WebDesign] Notification createMany failed", e?.message));
-
-  for (const u of enabledUsers) {
-    if (!u.email) continue;
-    sendEmail({ to: u.email, subject, html }).catch((e) =>
-      console.warn("[WebDesign] Email send failed", u.email, e?.message)
-    );
-  }
 }
 
 async function getProjectCollaboratorOptionIds(project: {
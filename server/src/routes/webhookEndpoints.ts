@@ -0,0 +1,276 @@
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { prisma } from "../lib/prisma.js";
+import { authenticateToken } from "../middleware/auth.js";
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  SIGNATURE_HEADER,
+  WEBHOOK_EVENTS,
+  attemptWebhookDelivery,
+  createWebhookEndpointSchema,
+  generateWebhookSecret,
+  parseWebhookEvents,
+  sendTestWebhookEvent,
+  updateWebhookEndpointSchema,
+} from "../lib/webhooks.js";
+
+const router = Router();
+
+/** Agency the caller may manage webhooks for: their first membership, as OWNER (or a platform admin). */
+async function resolveWebhookManagerAgency(req: Request, res: Response): Promise<string | null> {
+  const user = req.user;
+  const membership = await prisma.userAgency.findFirst({
+    where: { userId: user.userId },
+    select: { agencyId: true, agencyRole: true },
+  });
+  if (!membership) {
+    res.status(404).json({ message: "No agency found for user" });
+    return null;
+  }
+  if (membership.agencyRole !== "OWNER" && user.role !== "ADMIN" && user.role !== "SUPER_ADMIN") {
+    res.status(403).json({ message: "Access denied. Only agency owners can manage webhooks." });
+    return null;
+  }
+  return membership.agencyId;
+}
+
+function serializeEndpoint(endpoint: {
+  id: string;
+  url: string;
+  description: string | null;
+  events: string;
+  secret: string;
+  enabled: boolean;
+  createdAt: Date;
+  lastDeliveryAt: Date | null;
+  consecutiveFailures: number;
+}) {
+  return {
+    id: endpoint.id,
+    url: endpoint.url,
+    description: endpoint.description,
+    events: parseWebhookEvents(endpoint.events),
+    secret: endpoint.secret,
+    enabled: endpoint.enabled,
+    createdAt: endpoint.createdAt,
+    lastDeliveryAt: endpoint.lastDeliveryAt,
+    consecutiveFailures: endpoint.consecutiveFailures,
+  };
+}
+
+function serializeDelivery(delivery: {
+  id: string;
+  createdAt: Date;
+  eventId: string;
+  eventType: string;
+  payload: string;
+  status: string;
+  attempt: number;
+  nextAttemptAt: Date | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  deliveredAt: Date | null;
+}) {
+  return { ...delivery, maxAttempts: MAX_WEBHOOK_ATTEMPTS };
+}
+
+async function findAgencyEndpoint(agencyId: string, id: string) {
+  return prisma.webhookEndpoint.findFirst({ where: { id, agencyId } });
+}
+
+// List endpoints plus the event catalog
+router.get("/", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agencyId = await resolveWebhookManagerAgency(req, res);
+    if (!agencyId) return;
+
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { agencyId },
+      orderBy: { createdAt: "desc" },
+    });
+    res.json({
+      endpoints: endpoints.map(serializeEndpoint),
+      events: WEBHOOK_EVENTS,
+      signatureHeader: SIGNATURE_HEADER,
+    });
+  } catch (error) {
+    console.error("List webhook endpoints error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+router.post("/", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const data = createWebhookEndpointSchema.parse(req.body);
+    const agencyId = await resolveWebhookManagerAgency(req, res);
+    if (!agencyId) return;
+
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: {
+        agencyId,
+        createdByUserId: req.user.userId,
+        url: data.url,
+        description: data.description || null,
+        events: JSON.stringify([...new Set(data.events)]),
+        secret: generateWebhookSecret(),
+        enabled: data.enabled,
+      },
+    });
+    res.status(201).json({ endpoint: serializeEndpoint(endpoint) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid input", errors: error.errors });
+    }
+    console.error("Create webhook endpoint error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+router.patch("/:id", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const data = updateWebhookEndpointSchema.parse(req.body);
+    const agencyId = await resolveWebhookManagerAgency(req, res);
+    if (!agencyId) return;
+
+    const existing = await findAgencyEndpoint(agencyId, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Webhook endpoint not found" });
+    }
+
+    const endpoint = await prisma.webhookEndpoint.update({
+      where: { id: existing.id },
+      data: {
+        ...(data.url !== undefined ? { url: data.url } : {}),
+        ...(data.description !== undefined ? { description: data.description || null } : {}),
+        ...(data.events !== undefined ? { events: JSON.stringify([...new Set(data.events)]) } : {}),
+        ...(data.enabled !== undefined
+          ? { enabled: data.enabled, ...(data.enabled ? { consecutiveFailures: 0 } : {}) }
+          : {}),
+      },
+    });
+    res.json({ endpoint: serializeEndpoint(endpoint) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Invalid input", errors: error.errors });
+    }
+    console.error("Update webhook endpoint error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+router.delete("/:id", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agencyId = await resolveWebhookManagerAgency(req, res);
+    if (!agencyId) return;
+
+    const existing = await findAgencyEndpoint(agencyId, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Webhook endpoint not found" });
+    }
+    await prisma.webhookEndpoint.delete({ where: { id: existing.id } });
+    res.json({ message: "Webhook endpoint deleted" });
+  } catch (error) {
+    console.error("Delete webhook endpoint error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Replace the signing secret; receivers must be updated with the new value
+router.post("/:id/rotate-secret", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agencyId = await resolveWebhookManagerAgency(req, res);
+    if (!agencyId) return;
+
+    const existing = await findAgencyEndpoint(agencyId, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Webhook endpoint not found" });
+    }
+    const endpoint = await prisma.webhookEndpoint.update({
+      where: { id: existing.id },
+      data: { secret: generateWebhookSecret() },
+    });
+    res.json({ endpoint: serializeEndpoint(endpoint) });
+  } catch (error) {
+    console.error("Rotate webhook secret error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Send a sample event now and return the delivery result
+router.post("/:id/test", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agencyId = await resolveWebhookManagerAgency(req, res);
+    if (!agencyId) return;
+
+    const existing = await findAgencyEndpoint(agencyId, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Webhook endpoint not found" });
+    }
+    const delivery = await sendTestWebhookEvent(existing.id);
+    res.json({ delivery: delivery ? serializeDelivery(delivery) : null });
+  } catch (error) {
+    console.error("Test webhook error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Delivery log for one endpoint, newest first
+router.get("/:id/deliveries", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agencyId = await resolveWebhookManagerAgency(req, res);
+    if (!agencyId) return;
+
+    const existing = await findAgencyEndpoint(agencyId, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Webhook endpoint not found" });
+    }
+    const limit = Math.min(200, Math.max(1, Number(req.query.limit) || 50));
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { endpointId: existing.id },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+    res.json({ deliveries: deliveries.map(serializeDelivery) });
+  } catch (error) {
+    console.error("List webhook deliveries error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Retry a delivery immediately (e.g. after fixing the receiver)
+router.post("/:id/deliveries/:deliveryId/redeliver", authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const agencyId = await resolveWebhookManagerAgency(req, res);
+    if (!agencyId) return;
+
+    const existing = await findAgencyEndpoint(agencyId, req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Webhook endpoint not found" });
+    }
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: { id: req.params.deliveryId, endpointId: existing.id },
+    });
+    if (!delivery) {
+      return res.status(404).json({ message: "Delivery not found" });
+    }
+    if (delivery.status === "pending") {
+      return res.status(409).json({ message: "Delivery is already queued" });
+    }
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status: "pending", nextAttemptAt: new Date() },
+    });
+    const updated = await attemptWebhookDelivery(delivery.id);
+    if (!updated) {
+      return res.status(409).json({ message: "Delivery is already being sent" });
+    }
+    res.json({ delivery: serializeDelivery(updated) });
+  } catch (error) {
+    console.error("Redeliver webhook error:", error);
+    res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;